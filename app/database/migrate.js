@@ -12,6 +12,8 @@ const __dirname = path.dirname(__filename);
 const { Pool } = pg;
 
 const SUBSCRIPTION_MANAGER_ADDRESS = '0xf1b9DEEF020bd528f29Fe102Ed99FE221E93b397';
+// The operator agent every project used before projects had their own
+const LEGACY_AGENT_ADDRESS = '0x406b16A36926814305dF25757c93d298b639Bef0';
 
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
@@ -76,9 +78,34 @@ async function createTables() {
         name TEXT NOT NULL,
         description TEXT,
         subscription_manager_address TEXT UNIQUE,
+        agent_address TEXT,
+        grace_period_seconds INTEGER DEFAULT 259200,
+        retry_interval_seconds INTEGER DEFAULT 86400,
+        payout_address TEXT,
+        sweep_policy TEXT NOT NULL DEFAULT 'off' CHECK (sweep_policy IN ('off', 'every_payment', 'threshold', 'schedule')),
+        sweep_threshold DECIMAL(20, 8),
+        sweep_interval_seconds INTEGER,
+        last_swept_at BIGINT,
+        last_invoice_number INTEGER NOT NULL DEFAULT 0,
         is_active BOOLEAN DEFAULT TRUE
       );
     `);
+
+    // Databases created before these columns existed only get them from ALTER TABLE
+    await client.query(`
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS agent_address TEXT;
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS grace_period_seconds INTEGER DEFAULT 259200;
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS retry_interval_seconds INTEGER DEFAULT 86400;
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS payout_address TEXT;
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS sweep_policy TEXT NOT NULL DEFAULT 'off' CHECK (sweep_policy IN ('off', 'every_payment', 'threshold', 'schedule'));
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS sweep_threshold DECIMAL(20, 8);
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS sweep_interval_seconds INTEGER;
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS last_swept_at BIGINT;
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS last_invoice_number INTEGER NOT NULL DEFAULT 0;
+    `);
+
+    // Existing subscribers delegated renewals to the shared operator agent, so projects without one keep it
+    await client.query(`UPDATE projects SET agent_address = $1 WHERE agent_address IS NULL`, [LEGACY_AGENT_ADDRESS]);
     console.log("'projects' table created\n");
 
     // Create users table
@@ -114,12 +141,43 @@ async function createTables() {
         token_address TEXT NOT NULL,
         token_symbol TEXT DEFAULT 'mUSDC',
         period_seconds INTEGER NOT NULL,
+        trial_period_seconds INTEGER DEFAULT 0,
         is_active BOOLEAN DEFAULT TRUE,
         current_subscribers INTEGER DEFAULT 0
       );
     `);
+    await client.query(`
+      ALTER TABLE subscription_plans ADD COLUMN IF NOT EXISTS trial_period_seconds INTEGER DEFAULT 0;
+    `);
     console.log("'subscription_plans' table created\n");
 
+    // Create coupons table (promo codes mirrored from the project's SubscriptionManager)
+    console.log("Creating 'coupons' table...");
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS coupons (
+        xata_id TEXT PRIMARY KEY DEFAULT ('rec_' || substr(md5(random()::text), 1, 20)),
+        xata_version BIGINT DEFAULT 0,
+        xata_createdat TIMESTAMPTZ DEFAULT NOW(),
+        xata_updatedat TIMESTAMPTZ DEFAULT NOW(),
+
+        developer_id TEXT NOT NULL REFERENCES developers(xata_id) ON DELETE CASCADE,
+        project_id TEXT NOT NULL REFERENCES projects(xata_id) ON DELETE CASCADE,
+        contract_coupon_id INTEGER NOT NULL,
+        code TEXT NOT NULL,
+        code_hash TEXT NOT NULL,
+        discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+        discount_value DECIMAL(20, 8) NOT NULL,
+        duration_charges INTEGER DEFAULT 0,
+        max_redemptions INTEGER DEFAULT 0,
+        redemption_count INTEGER DEFAULT 0,
+        expires_at BIGINT,
+        is_active BOOLEAN DEFAULT TRUE,
+
+        UNIQUE(project_id, code)
+      );
+    `);
+    console.log("'coupons' table created\n");
+
     // Create user_subscriptions table (references developers and subscription_plans)
     console.log("Creating 'user_subscriptions' table...");
     await client.query(`
@@ -132,15 +190,36 @@ async function createTables() {
         user_id TEXT NOT NULL REFERENCES users(xata_id) ON DELETE CASCADE,
         plan_id TEXT NOT NULL REFERENCES subscription_plans(xata_id) ON DELETE CASCADE,
         developer_id TEXT NOT NULL REFERENCES developers(xata_id) ON DELETE CASCADE,
-        status TEXT NOT NULL CHECK (status IN ('active', 'expired', 'cancelled')),
+        status TEXT NOT NULL CHECK (status IN ('active', 'past_due', 'paused', 'expired', 'cancelled')),
         start_date BIGINT NOT NULL,
         next_payment_date BIGINT,
         last_payment_date BIGINT,
+        trial_ends_at BIGINT,
+        paused_at BIGINT,
+        past_due_since BIGINT,
+        next_retry_at BIGINT,
+        retry_count INTEGER DEFAULT 0,
         cancelled_at BIGINT,
         cancellation_effective_at BIGINT,
-        subscription_manager_address TEXT
+        subscription_manager_address TEXT,
+        contract_subscription_id INTEGER,
+        coupon_id TEXT REFERENCES coupons(xata_id) ON DELETE SET NULL
       );
     `);
+    await client.query(`
+      ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS trial_ends_at BIGINT;
+      ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS paused_at BIGINT;
+      ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS past_due_since BIGINT;
+      ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS next_retry_at BIGINT;
+      ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS retry_count INTEGER DEFAULT 0;
+      ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS contract_subscription_id INTEGER;
+      ALTER TABLE user_subscriptions ADD COLUMN IF NOT EXISTS coupon_id TEXT REFERENCES coupons(xata_id) ON DELETE SET NULL;
+
+      -- The original check only allowed active, expired and cancelled
+      ALTER TABLE user_subscriptions DROP CONSTRAINT IF EXISTS user_subscriptions_status_check;
+      ALTER TABLE user_subscriptions ADD CONSTRAINT user_subscriptions_status_check
+        CHECK (status IN ('active', 'past_due', 'paused', 'expired', 'cancelled'));
+    `);
     console.log("'user_subscriptions' table created\n");
 
     // Create payments table (references user_subscriptions and developers)
@@ -159,11 +238,113 @@ async function createTables() {
         token_address TEXT NOT NULL,
         token_symbol TEXT DEFAULT 'mUSDC',
         payment_date BIGINT NOT NULL,
-        tx_hash TEXT UNIQUE NOT NULL
+        tx_hash TEXT UNIQUE NOT NULL,
+        payment_type TEXT DEFAULT 'charge' CHECK (payment_type IN ('charge', 'proration')),
+        previous_plan_id TEXT REFERENCES subscription_plans(xata_id) ON DELETE SET NULL,
+        proration_credit DECIMAL(20, 8),
+        invoice_number INTEGER
       );
     `);
+    await client.query(`
+      ALTER TABLE payments ADD COLUMN IF NOT EXISTS payment_type TEXT DEFAULT 'charge' CHECK (payment_type IN ('charge', 'proration'));
+      ALTER TABLE payments ADD COLUMN IF NOT EXISTS previous_plan_id TEXT REFERENCES subscription_plans(xata_id) ON DELETE SET NULL;
+      ALTER TABLE payments ADD COLUMN IF NOT EXISTS proration_credit DECIMAL(20, 8);
+      ALTER TABLE payments ADD COLUMN IF NOT EXISTS invoice_number INTEGER;
+    `);
     console.log("'payments' table created\n");
 
+    // Invoice numbers run per project. Payments are inserted by both the worker and the collector,
+    // so the number is taken from the project's counter in a trigger; the row lock keeps it gap-free.
+    console.log("Creating invoice numbering trigger...");
+    await client.query(`
+      CREATE OR REPLACE FUNCTION assign_invoice_number() RETURNS TRIGGER AS $$
+      BEGIN
+        IF NEW.invoice_number IS NULL THEN
+          UPDATE projects p
+             SET last_invoice_number = p.last_invoice_number + 1
+            FROM user_subscriptions us
+            JOIN subscription_plans sp ON sp.xata_id = us.plan_id
+           WHERE us.xata_id = NEW.subscription_id
+             AND p.xata_id = sp.project_id
+          RETURNING p.last_invoice_number INTO NEW.invoice_number;
+        END IF;
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      DROP TRIGGER IF EXISTS payments_invoice_number ON payments;
+      CREATE TRIGGER payments_invoice_number
+        BEFORE INSERT ON payments
+        FOR EACH ROW EXECUTE FUNCTION assign_invoice_number();
+    `);
+    console.log("Invoice numbering trigger created\n");
+
+    // Create payment_attempts table (one row per renewal attempt made by the collector)
+    console.log("Creating 'payment_attempts' table...");
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS payment_attempts (
+        xata_id TEXT PRIMARY KEY DEFAULT ('rec_' || substr(md5(random()::text), 1, 20)),
+        xata_version BIGINT DEFAULT 0,
+        xata_createdat TIMESTAMPTZ DEFAULT NOW(),
+        xata_updatedat TIMESTAMPTZ DEFAULT NOW(),
+
+        subscription_id TEXT NOT NULL REFERENCES user_subscriptions(xata_id) ON DELETE CASCADE,
+        attempted_at BIGINT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('succeeded', 'failed')),
+        reason TEXT,
+        amount_due DECIMAL(20, 8),
+        balance DECIMAL(20, 8),
+        tx_hash TEXT
+      );
+    `);
+    console.log("'payment_attempts' table created\n");
+
+    // Create refunds table (owner-initiated refunds, each linked to the payment it refunds)
+    console.log("Creating 'refunds' table...");
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS refunds (
+        xata_id TEXT PRIMARY KEY DEFAULT ('rec_' || substr(md5(random()::text), 1, 20)),
+        xata_version BIGINT DEFAULT 0,
+        xata_createdat TIMESTAMPTZ DEFAULT NOW(),
+        xata_updatedat TIMESTAMPTZ DEFAULT NOW(),
+
+        payment_id TEXT NOT NULL REFERENCES payments(xata_id) ON DELETE CASCADE,
+        subscription_id TEXT NOT NULL REFERENCES user_subscriptions(xata_id) ON DELETE CASCADE,
+        developer_id TEXT NOT NULL REFERENCES developers(xata_id) ON DELETE CASCADE,
+        amount DECIMAL(20, 8) NOT NULL,
+        token_address TEXT NOT NULL,
+        token_symbol TEXT DEFAULT 'mUSDC',
+        reason TEXT,
+        refunded_at BIGINT NOT NULL,
+        tx_hash TEXT UNIQUE NOT NULL
+      );
+    `);
+    console.log("'refunds' table created\n");
+
+    // Create revenue_withdrawals table (RevenueWithdrawn events from a project's SubscriptionManager)
+    console.log("Creating 'revenue_withdrawals' table...");
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS revenue_withdrawals (
+        xata_id TEXT PRIMARY KEY DEFAULT ('rec_' || substr(md5(random()::text), 1, 20)),
+        xata_version BIGINT DEFAULT 0,
+        xata_createdat TIMESTAMPTZ DEFAULT NOW(),
+        xata_updatedat TIMESTAMPTZ DEFAULT NOW(),
+
+        project_id TEXT NOT NULL REFERENCES projects(xata_id) ON DELETE CASCADE,
+        developer_id TEXT NOT NULL REFERENCES developers(xata_id) ON DELETE CASCADE,
+        token_address TEXT NOT NULL,
+        token_symbol TEXT,
+        amount DECIMAL(20, 8) NOT NULL,
+        recipient_address TEXT NOT NULL,
+        source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'sweep')),
+        withdrawn_at BIGINT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL DEFAULT 0,
+        UNIQUE (tx_hash, log_index)
+      );
+    `);
+    console.log("'revenue_withdrawals' table created\n");
+
 
     // Create api_keys table
     console.log("Creating 'api_keys' table...");
@@ -175,12 +356,50 @@ async function createTables() {
         xata_updatedat TIMESTAMPTZ DEFAULT NOW(),
 
         developer_id TEXT NOT NULL REFERENCES developers(xata_id) ON DELETE CASCADE,
-        key_value TEXT UNIQUE NOT NULL,
+        project_id TEXT REFERENCES projects(xata_id) ON DELETE CASCADE,
+        key_prefix TEXT NOT NULL,
+        key_hash TEXT UNIQUE NOT NULL,
         name TEXT NOT NULL,
         description TEXT,
+        permissions TEXT[] NOT NULL DEFAULT '{}',
+        created_at BIGINT,
+        expires_at BIGINT,
+        last_used_at BIGINT,
+        revoked_at BIGINT,
+        replaced_by_id TEXT REFERENCES api_keys(xata_id) ON DELETE SET NULL,
         is_active BOOLEAN DEFAULT TRUE
       );
     `);
+
+    // Keys used to be stored in plaintext; hash them in place. Upgraded keys keep access to all of
+    // the developer's projects with every permission until they are rotated.
+    await client.query(`
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS project_id TEXT REFERENCES projects(xata_id) ON DELETE CASCADE;
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_prefix TEXT;
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_hash TEXT UNIQUE;
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS permissions TEXT[] NOT NULL DEFAULT '{}';
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS created_at BIGINT;
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS expires_at BIGINT;
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS last_used_at BIGINT;
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS revoked_at BIGINT;
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS replaced_by_id TEXT REFERENCES api_keys(xata_id) ON DELETE SET NULL;
+
+      DO $$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_keys' AND column_name = 'key_value') THEN
+          UPDATE api_keys
+          SET key_hash = encode(sha256(key_value::bytea), 'hex'),
+              key_prefix = left(key_value, 11),
+              permissions = ARRAY['read_subscriptions', 'create_sessions', 'manage_plans'],
+              created_at = extract(epoch FROM xata_createdat)::bigint
+          WHERE key_hash IS NULL;
+          ALTER TABLE api_keys DROP COLUMN key_value;
+        END IF;
+      END $$;
+
+      ALTER TABLE api_keys ALTER COLUMN key_prefix SET NOT NULL;
+      ALTER TABLE api_keys ALTER COLUMN key_hash SET NOT NULL;
+    `);
     console.log("'api_keys' table created\n");
 
     // Create project_delegations table
@@ -210,20 +429,91 @@ async function createTables() {
         xata_createdat TIMESTAMPTZ DEFAULT NOW(),
         xata_updatedat TIMESTAMPTZ DEFAULT NOW(),
 
+        -- Delegations are signed for one subscription's plan, so each subscription has its own
+        subscription_id TEXT UNIQUE REFERENCES user_subscriptions(xata_id) ON DELETE CASCADE,
         user_wallet_address TEXT NOT NULL,
         user_smart_account TEXT NOT NULL,
         subscription_manager_address TEXT NOT NULL,
         delegation_data TEXT NOT NULL,
         is_active BOOLEAN DEFAULT TRUE,
         created_at BIGINT NOT NULL,
-        cancelled_at BIGINT,
-
-        -- Ensure one delegation per user per subscription manager
-        UNIQUE(user_smart_account, subscription_manager_address)
+        cancelled_at BIGINT
       );
     `);
+
+    // Delegations used to be stored once per user and subscription manager. Give every subscription
+    // its own copy of the delegation it was renewed with, then drop the old rows and their constraint.
+    await client.query(`
+      ALTER TABLE user_delegations ADD COLUMN IF NOT EXISTS subscription_id TEXT UNIQUE REFERENCES user_subscriptions(xata_id) ON DELETE CASCADE;
+
+      DO $$
+      DECLARE
+        legacy_key TEXT;
+      BEGIN
+        SELECT conname INTO legacy_key FROM pg_constraint
+        WHERE conrelid = 'user_delegations'::regclass AND contype = 'u' AND array_length(conkey, 1) = 2;
+        IF legacy_key IS NOT NULL THEN
+          EXECUTE format('ALTER TABLE user_delegations DROP CONSTRAINT %I', legacy_key);
+        END IF;
+      END $$;
+
+      INSERT INTO user_delegations (subscription_id, user_wallet_address, user_smart_account, subscription_manager_address, delegation_data, is_active, created_at, cancelled_at)
+      SELECT us.xata_id, ud.user_wallet_address, ud.user_smart_account, ud.subscription_manager_address, ud.delegation_data, ud.is_active, ud.created_at, ud.cancelled_at
+      FROM user_delegations ud
+      JOIN users u ON LOWER(u.smart_account_address) = LOWER(ud.user_smart_account)
+      JOIN user_subscriptions us ON us.user_id = u.xata_id AND LOWER(us.subscription_manager_address) = LOWER(ud.subscription_manager_address)
+      WHERE ud.subscription_id IS NULL
+      ON CONFLICT (subscription_id) DO NOTHING;
+
+      DELETE FROM user_delegations WHERE subscription_id IS NULL;
+    `);
     console.log("'user_delegations' table created\n");
 
+    // Create webhook_endpoints table
+    console.log("Creating 'webhook_endpoints' table...");
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS webhook_endpoints (
+        xata_id TEXT PRIMARY KEY DEFAULT ('rec_' || substr(md5(random()::text), 1, 20)),
+        xata_version BIGINT DEFAULT 0,
+        xata_createdat TIMESTAMPTZ DEFAULT NOW(),
+        xata_updatedat TIMESTAMPTZ DEFAULT NOW(),
+
+        project_id TEXT NOT NULL REFERENCES projects(xata_id) ON DELETE CASCADE,
+        developer_id TEXT NOT NULL REFERENCES developers(xata_id) ON DELETE CASCADE,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        description TEXT,
+        is_active BOOLEAN DEFAULT TRUE
+      );
+    `);
+    console.log("'webhook_endpoints' table created\n");
+
+    // Create webhook_deliveries table (one row per event per endpoint, updated on every attempt)
+    console.log("Creating 'webhook_deliveries' table...");
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        xata_id TEXT PRIMARY KEY DEFAULT ('rec_' || substr(md5(random()::text), 1, 20)),
+        xata_version BIGINT DEFAULT 0,
+        xata_createdat TIMESTAMPTZ DEFAULT NOW(),
+        xata_updatedat TIMESTAMPTZ DEFAULT NOW(),
+
+        endpoint_id TEXT NOT NULL REFERENCES webhook_endpoints(xata_id) ON DELETE CASCADE,
+        project_id TEXT NOT NULL REFERENCES projects(xata_id) ON DELETE CASCADE,
+        event_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('pending', 'sending', 'succeeded', 'failed')),
+        attempt_count INTEGER DEFAULT 0,
+        next_attempt_at BIGINT,
+        locked_until BIGINT,
+        last_attempt_at BIGINT,
+        response_status INTEGER,
+        last_error TEXT,
+        delivered_at BIGINT
+      );
+    `);
+    console.log("'webhook_deliveries' table created\n");
+
     // Create indexes for better query performance
     console.log("Creating indexes...");
 
@@ -238,11 +528,14 @@ async function createTables() {
       CREATE INDEX IF NOT EXISTS idx_plans_project ON subscription_plans(project_id);
       CREATE INDEX IF NOT EXISTS idx_plans_active ON subscription_plans(is_active);
 
+      CREATE INDEX IF NOT EXISTS idx_coupons_project_code ON coupons(project_id, code);
+
       CREATE INDEX IF NOT EXISTS idx_subscriptions_user ON user_subscriptions(user_id);
       CREATE INDEX IF NOT EXISTS idx_subscriptions_plan ON user_subscriptions(plan_id);
       CREATE INDEX IF NOT EXISTS idx_subscriptions_developer ON user_subscriptions(developer_id);
       CREATE INDEX IF NOT EXISTS idx_subscriptions_status ON user_subscriptions(status);
       CREATE INDEX IF NOT EXISTS idx_subscriptions_user_dev ON user_subscriptions(user_id, developer_id);
+      CREATE INDEX IF NOT EXISTS idx_subscriptions_contract_id ON user_subscriptions(subscription_manager_address, contract_subscription_id);
 
       CREATE INDEX IF NOT EXISTS idx_payments_subscription ON payments(subscription_id);
       CREATE INDEX IF NOT EXISTS idx_payments_user ON payments(user_id);
@@ -250,6 +543,12 @@ async function createTables() {
       CREATE INDEX IF NOT EXISTS idx_payments_tx_hash ON payments(tx_hash);
       CREATE INDEX IF NOT EXISTS idx_payments_created ON payments(xata_createdat);
 
+      CREATE INDEX IF NOT EXISTS idx_payment_attempts_subscription ON payment_attempts(subscription_id, attempted_at);
+
+      CREATE INDEX IF NOT EXISTS idx_refunds_payment ON refunds(payment_id);
+      CREATE INDEX IF NOT EXISTS idx_refunds_subscription ON refunds(subscription_id);
+      CREATE INDEX IF NOT EXISTS idx_revenue_withdrawals_project ON revenue_withdrawals(project_id, withdrawn_at);
+
       CREATE INDEX IF NOT EXISTS idx_projects_developer ON projects(developer_id);
       CREATE INDEX IF NOT EXISTS idx_projects_supported_token ON projects(supported_token_id);
       CREATE INDEX IF NOT EXISTS idx_projects_active ON projects(is_active);
@@ -257,7 +556,7 @@ async function createTables() {
 
       CREATE INDEX IF NOT EXISTS idx_supported_tokens_symbol ON supported_tokens(symbol);
       CREATE INDEX IF NOT EXISTS idx_api_keys_developer ON api_keys(developer_id);
-      CREATE INDEX IF NOT EXISTS idx_api_keys_value ON api_keys(key_value);
+      CREATE INDEX IF NOT EXISTS idx_api_keys_project ON api_keys(project_id);
       CREATE INDEX IF NOT EXISTS idx_api_keys_active ON api_keys(is_active);
 
       CREATE INDEX IF NOT EXISTS idx_delegations_project ON project_delegations(project_id);
@@ -271,6 +570,13 @@ async function createTables() {
       CREATE INDEX IF NOT EXISTS idx_user_delegations_subscription_manager ON user_delegations(subscription_manager_address);
       CREATE INDEX IF NOT EXISTS idx_user_delegations_active ON user_delegations(is_active);
       CREATE INDEX IF NOT EXISTS idx_user_delegations_user_manager ON user_delegations(user_smart_account, subscription_manager_address);
+
+      CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_project ON webhook_endpoints(project_id);
+      CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_active ON webhook_endpoints(is_active);
+
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_project ON webhook_deliveries(project_id);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending ON webhook_deliveries(status, next_attempt_at);
     `);
     console.log("Indexes created\n");
 
@@ -444,38 +750,33 @@ async function seedSampleData() {
         `, [developerId, projectId]);
 
         console.log("Sample subscription plans created (linked to project)\n");
-      }
 
-      // Insert sample API keys for the developer (not tied to specific projects)
-      await client.query(`
-        INSERT INTO api_keys (
-          developer_id,
-          key_value,
-          name,
-          description
-        ) VALUES
-        (
-          $1,
-          'ak_' || substr(md5(random()::text), 1, 32),
-          'Primary API Key',
-          'Main API key for all projects'
-        ),
-        (
-          $1,
-          'ak_' || substr(md5(random()::text), 1, 32),
-          'Secondary API Key',
-          'Backup API key for all projects'
-        ),
-        (
-          $1,
-          'autiv_test_dev_key',
-          'Test API Key',
-          'Test API key for development'
-        )
-        ON CONFLICT DO NOTHING;
-      `, [developerId]);
+        // Only the hash is stored, so the seeded key is a known value: autiv_test_dev_key
+        await client.query(`
+          INSERT INTO api_keys (
+            developer_id,
+            project_id,
+            key_prefix,
+            key_hash,
+            name,
+            description,
+            permissions,
+            created_at
+          ) VALUES (
+            $1,
+            $2,
+            'autiv_test_',
+            encode(sha256('autiv_test_dev_key'::bytea), 'hex'),
+            'Test API Key',
+            'Test API key for development',
+            ARRAY['read_subscriptions', 'create_sessions', 'manage_plans'],
+            extract(epoch FROM NOW())::bigint
+          )
+          ON CONFLICT DO NOTHING;
+        `, [developerId, projectId]);
 
-      console.log("Sample API keys created\n");
+        console.log("Sample API key created\n");
+      }
 
       // Create a second developer for delegation example
       const secondDevResult = await client.query(`
@@ -8,6 +8,8 @@ import ProjectDetail from '../src/pages/ProjectDetail'
 import ApiKeysManagement from '../src/pages/ApiKeysManagement'
 import ManageSubscription from '../src/components/ManageSubscription'
 import Analytics from '../src/components/Analytics'
+import BillingHistory from '../src/components/BillingHistory'
+import Permissions from '../src/components/Permissions'
 import HomeDevelopers from '../src/components/Developers'
 import Docs from '../src/components/Docs'
 
@@ -52,6 +54,14 @@ const router = createBrowserRouter([
                         path: 'analytics',
                         element: <Analytics />
                     },
+                    {
+                        path: 'billing-history',
+                        element: <BillingHistory />
+                    },
+                    {
+                        path: 'permissions',
+                        element: <Permissions />
+                    },
                     {
                         path: 'developers',
                         element: <HomeDevelopers />
@@ -1,7 +1,320 @@
+import { useState, useEffect, useMemo, useCallback } from 'react'
 import { motion } from 'framer-motion'
-import { BarChart3, TrendingUp, Users, DollarSign } from 'lucide-react'
+import { createPublicClient, formatUnits, http } from 'viem'
+import { BarChart3, TrendingUp, Users, DollarSign, Download, RefreshCw, UserMinus } from 'lucide-react'
+import { monadTestnet } from '../config/chains'
+import { CONTRACTS } from '../contracts'
+import { useAuth } from '../hooks/useAuth'
+import { apiService, type AnalyticsBucket, type AnalyticsRange, type Project, type ProjectAnalytics } from '../services/api'
+
+const RANGE_OPTIONS: { value: AnalyticsRange; label: string }[] = [
+  { value: '7d', label: '7 days' },
+  { value: '30d', label: '30 days' },
+  { value: '90d', label: '90 days' },
+  { value: '365d', label: '1 year' },
+  { value: 'all', label: 'All time' }
+]
+
+const ERC20_DECIMALS_ABI = [
+  {
+    inputs: [],
+    name: 'decimals',
+    outputs: [{ name: '', type: 'uint8' }],
+    stateMutability: 'view',
+    type: 'function'
+  }
+] as const
+
+const formatAmount = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+
+const formatBucketLabel = (bucket: AnalyticsBucket, size: ProjectAnalytics['bucket']) => {
+  const date = new Date(bucket.start * 1000)
+  return size === 'month'
+    ? date.toLocaleDateString(undefined, { month: 'short', year: '2-digit', timeZone: 'UTC' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const chartCardStyle = {
+  backgroundColor: '#ffffff',
+  border: '3px solid #000000',
+  boxShadow: '4px 4px 0px #000000'
+}
+
+interface ChartSeries {
+  label: string
+  color: string
+  values: number[]
+}
+
+// Plain SVG charts keep the bundle free of a charting library
+const LineChart = ({ labels, series }: { labels: string[]; series: ChartSeries[] }) => {
+  const width = 600
+  const height = 200
+  const max = Math.max(1, ...series.flatMap((item) => item.values))
+  const step = labels.length > 1 ? width / (labels.length - 1) : width
+  const toPoint = (value: number, index: number) => `${index * step},${height - (value / max) * (height - 10)}`
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-48" preserveAspectRatio="none">
+        <line x1="0" y1={height} x2={width} y2={height} stroke="#000000" strokeWidth="2" />
+        {series.map((item) => (
+          <polyline
+            key={item.label}
+            points={item.values.map(toPoint).join(' ')}
+            fill="none"
+            stroke={item.color}
+            strokeWidth="3"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+      <ChartFooter labels={labels} series={series} max={max} />
+    </div>
+  )
+}
+
+const BarChart = ({ labels, series }: { labels: string[]; series: ChartSeries[] }) => {
+  const max = Math.max(1, ...series.flatMap((item) => item.values))
+
+  return (
+    <div>
+      <div className="flex items-end h-48 border-b-2 border-black gap-1">
+        {labels.map((label, index) => (
+          <div key={`${label}-${index}`} className="flex-1 flex items-end justify-center gap-px h-full" title={label}>
+            {series.map((item) => (
+              <div
+                key={item.label}
+                className="flex-1"
+                title={`${item.label}: ${formatAmount(item.values[index])}`}
+                style={{
+                  height: `${(item.values[index] / max) * 100}%`,
+                  minHeight: item.values[index] > 0 ? 2 : 0,
+                  backgroundColor: item.color,
+                  border: item.values[index] > 0 ? '1px solid #000000' : 'none'
+                }}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <ChartFooter labels={labels} series={series} max={max} />
+    </div>
+  )
+}
+
+const ChartFooter = ({ labels, series, max }: { labels: string[]; series: ChartSeries[]; max: number }) => (
+  <div className="mt-2 space-y-2">
+    <div className="flex justify-between text-xs font-medium text-gray-600">
+      <span>{labels[0]}</span>
+      <span>peak {formatAmount(max)}</span>
+      <span>{labels[labels.length - 1]}</span>
+    </div>
+    {series.length > 1 && (
+      <div className="flex flex-wrap gap-4 text-sm font-bold">
+        {series.map((item) => (
+          <span key={item.label} className="flex items-center space-x-2">
+            <span className="inline-block w-3 h-3" style={{ backgroundColor: item.color, border: '1px solid #000000' }} />
+            <span>{item.label}</span>
+          </span>
+        ))}
+      </div>
+    )}
+  </div>
+)
 
 const Analytics = () => {
+  const { userInfo, isDeveloper } = useAuth()
+
+  const [projects, setProjects] = useState<Project[]>([])
+  const [projectId, setProjectId] = useState('')
+  const [range, setRange] = useState<AnalyticsRange>('30d')
+  const [tokenSymbol, setTokenSymbol] = useState('')
+  const [analytics, setAnalytics] = useState<ProjectAnalytics | null>(null)
+  const [onChainRevenue, setOnChainRevenue] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const publicClient = useMemo(() => {
+    return createPublicClient({
+      chain: monadTestnet,
+      transport: http('https://monad-testnet.drpc.org')
+    })
+  }, [])
+
+  const project = projects.find((item) => item.id === projectId)
+
+  useEffect(() => {
+    if (!userInfo?.email || !isDeveloper) return
+
+    apiService.getDeveloperProjects().then((result) => {
+      if (result.success && result.data) {
+        const projectList = result.data.projects || []
+        setProjects(projectList)
+        setProjectId((current) => current || projectList[0]?.id || '')
+      }
+    }).catch((err) => console.error('Error loading projects:', err))
+  }, [userInfo?.email, isDeveloper])
+
+  const loadAnalytics = useCallback(async () => {
+    if (!projectId) return
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const result = await apiService.getProjectAnalytics(projectId, range)
+      if (result.success && result.data) {
+        setAnalytics(result.data)
+        const symbols = result.data.tokens.map((token) => token.token_symbol)
+        setTokenSymbol((current) => symbols.includes(current) ? current : symbols[0] || '')
+      } else {
+        setError(result.error || 'Failed to load analytics')
+      }
+    } catch (err) {
+      console.error('Error loading analytics:', err)
+      setError('Failed to load analytics')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [projectId, range])
+
+  useEffect(() => {
+    loadAnalytics()
+  }, [loadAnalytics])
+
+  // totalRevenue on the SubscriptionManager is the source of truth for what was actually collected
+  useEffect(() => {
+    setOnChainRevenue(null)
+    const managerAddress = project?.subscription_manager_address as `0x${string}` | undefined
+    const tokenAddress = project?.supported_token?.token_address as `0x${string}` | undefined
+    if (!managerAddress) return
+
+    let cancelled = false
+    Promise.all([
+      publicClient.readContract({
+        address: managerAddress,
+        abi: CONTRACTS.SubscriptionManager.abi,
+        functionName: 'totalRevenue'
+      }) as Promise<bigint>,
+      tokenAddress
+        ? publicClient.readContract({ address: tokenAddress, abi: ERC20_DECIMALS_ABI, functionName: 'decimals' })
+        : Promise.resolve(18)
+    ]).then(([totalRevenue, decimals]) => {
+      if (!cancelled) {
+        setOnChainRevenue(formatAmount(Number(formatUnits(totalRevenue, Number(decimals)))))
+      }
+    }).catch((err) => console.warn('Failed to read totalRevenue:', err))
+
+    return () => {
+      cancelled = true
+    }
+  }, [project?.subscription_manager_address, project?.supported_token?.token_address, publicClient])
+
+  const labels = useMemo(
+    () => analytics?.series.map((bucket) => formatBucketLabel(bucket, analytics.bucket)) || [],
+    [analytics]
+  )
+
+  const exportCsv = () => {
+    if (!analytics) return
+
+    const symbols = analytics.tokens.map((token) => token.token_symbol)
+    const rows: (string | number | null)[][] = [
+      [
+        'period_start',
+        'period_end',
+        'new_subscriptions',
+        'cancellations',
+        'churned',
+        'active_subscribers',
+        'payments',
+        ...symbols.flatMap((symbol) => [`mrr_${symbol}`, `revenue_${symbol}`])
+      ],
+      ...analytics.series.map((bucket) => [
+        new Date(bucket.start * 1000).toISOString(),
+        new Date(Math.min(bucket.end, analytics.end) * 1000).toISOString(),
+        bucket.new_subscriptions,
+        bucket.cancellations,
+        bucket.churned,
+        bucket.active_subscribers,
+        bucket.payments,
+        ...symbols.flatMap((symbol) => [bucket.mrr[symbol] || 0, bucket.revenue[symbol] || 0])
+      ]),
+      [],
+      ['plan', 'contract_plan_id', 'token', 'active_subscribers', 'mrr', 'revenue', 'payments'],
+      ...analytics.plans.map((plan) => [
+        plan.name,
+        plan.contract_plan_id,
+        plan.token_symbol,
+        plan.active_subscribers,
+        plan.mrr,
+        plan.revenue,
+        plan.payments
+      ])
+    ]
+
+    const csv = rows.map((row) => row.map(csvCell).join(',')).join('\n')
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${(project?.name || 'project').replace(/\W+/g, '-').toLowerCase()}-analytics-${analytics.range}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  if (!isDeveloper) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-800 mb-4">Developer Access Required</h1>
+          <p className="text-gray-600">Create your first project to see its analytics.</p>
+        </div>
+      </div>
+    )
+  }
+
+  const summary = analytics?.summary
+  const summaryCards = summary ? [
+    {
+      label: 'MRR',
+      value: `${formatAmount(summary.mrr[tokenSymbol] || 0)} ${tokenSymbol}`,
+      detail: 'Active paid subscriptions, per 30 days',
+      icon: TrendingUp,
+      color: '#4ecdc4'
+    },
+    {
+      label: 'Active subscribers',
+      value: summary.active_subscribers.toLocaleString(),
+      detail: `${summary.trialing_subscribers} trialing · ${summary.past_due_subscribers} past due · ${summary.paused_subscribers} paused`,
+      icon: Users,
+      color: '#feca57'
+    },
+    {
+      label: 'Churn',
+      value: summary.churn_rate === null ? '–' : `${(summary.churn_rate * 100).toFixed(1)}%`,
+      detail: `${summary.churned} ended · ${summary.cancellations} cancelled · ${summary.new_subscriptions} new`,
+      icon: UserMinus,
+      color: '#ff6b6b'
+    },
+    {
+      label: 'Revenue',
+      value: `${formatAmount(summary.revenue[tokenSymbol] || 0)} ${tokenSymbol}`,
+      detail: onChainRevenue !== null
+        ? `All time: ${formatAmount(summary.revenue_all_time[tokenSymbol] || 0)} recorded · ${onChainRevenue} on-chain`
+        : `All time: ${formatAmount(summary.revenue_all_time[tokenSymbol] || 0)} recorded`,
+      icon: DollarSign,
+      color: '#836EF9'
+    }
+  ] : []
+
+  const maxPlanRevenue = Math.max(1, ...(analytics?.plans.map((plan) => plan.revenue) || []))
+
   return (
     <div className="space-y-8">
       {/* Header */}
@@ -14,91 +327,216 @@ const Analytics = () => {
           <span className="gradient-text">Analytics</span>
         </h1>
         <p className="text-xl text-gray-800 font-medium">
-          Track your subscription usage and insights
+          Recurring revenue, subscribers and churn for your projects
         </p>
       </motion.div>
 
-      {/* Coming Soon Content */}
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        className="bg-white p-12"
-        style={{ boxShadow: '8px 8px 0px #000000, 16px 16px 0px #e0e0e0', border: '3px solid #000000' }}
-      >
-        <div className="text-center mb-12">
-          <div
-            className="w-24 h-24 flex items-center justify-center mx-auto mb-6"
-            style={{ backgroundColor: '#4ecdc4', border: '3px solid #000000' }}
+      {/* Controls */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="px-4 py-3 text-lg font-bold"
+            style={{ backgroundColor: '#ffffff', border: '3px solid #000000', boxShadow: '2px 2px 0px #000000' }}
           >
-            <BarChart3 className="w-12 h-12 text-black" />
-          </div>
-          <h2 className="text-4xl font-black text-black mb-6">
-            Analytics Dashboard Coming Soon
-          </h2>
-          <p className="text-xl text-gray-800 font-medium mb-8">
-            We're building comprehensive analytics to help you understand your subscription usage.
-          </p>
+            {projects.length === 0 && <option value="">No projects yet</option>}
+            {projects.map((item) => (
+              <option key={item.id} value={item.id}>{item.name}</option>
+            ))}
+          </select>
+
+          {analytics && analytics.tokens.length > 1 && (
+            <select
+              value={tokenSymbol}
+              onChange={(e) => setTokenSymbol(e.target.value)}
+              className="px-4 py-3 text-lg font-bold"
+              style={{ backgroundColor: '#ffffff', border: '3px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+            >
+              {analytics.tokens.map((token) => (
+                <option key={token.token_symbol} value={token.token_symbol}>{token.token_symbol}</option>
+              ))}
+            </select>
+          )}
         </div>
 
-        {/* Feature Preview Grid */}
-        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
-          <div
-            className="p-6 text-center"
-            style={{
-              backgroundColor: '#f8f9fa',
-              border: '3px solid #000000',
-              boxShadow: '4px 4px 0px #000000'
-            }}
-          >
-            <div
-              className="w-16 h-16 flex items-center justify-center mx-auto mb-4"
-              style={{ backgroundColor: '#feca57', border: '2px solid #000000' }}
+        <div className="flex flex-wrap items-center gap-2">
+          {RANGE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setRange(option.value)}
+              className="px-4 py-2 font-bold"
+              style={{
+                backgroundColor: range === option.value ? '#4ecdc4' : '#ffffff',
+                border: '2px solid #000000',
+                boxShadow: range === option.value ? 'none' : '2px 2px 0px #000000'
+              }}
             >
-              <TrendingUp className="w-8 h-8 text-black" />
-            </div>
-            <h3 className="text-xl font-black text-black mb-2">Usage Trends</h3>
-            <p className="text-gray-700 font-medium">Track your API usage over time</p>
+              {option.label}
+            </button>
+          ))}
+          <motion.button
+            onClick={loadAnalytics}
+            disabled={isLoading || !projectId}
+            whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+            whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+            transition={{ duration: 0.1 }}
+            className="p-3"
+            style={{ backgroundColor: '#feca57', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+          >
+            <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+          </motion.button>
+          <motion.button
+            onClick={exportCsv}
+            disabled={!analytics}
+            whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+            whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+            transition={{ duration: 0.1 }}
+            className="px-4 py-2 font-bold flex items-center space-x-2"
+            style={{ backgroundColor: '#836EF9', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+          >
+            <Download size={16} />
+            <span>Export CSV</span>
+          </motion.button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 font-bold text-black" style={{ backgroundColor: '#f8d7da', border: '2px solid #000000' }}>
+          {error}
+        </div>
+      )}
+
+      {!analytics && !error && (
+        <div className="p-12 text-center" style={chartCardStyle}>
+          <BarChart3 className="w-12 h-12 mx-auto mb-4 text-black" />
+          <p className="text-xl font-bold text-gray-700">
+            {projects.length === 0 ? 'Create a project to start collecting analytics' : 'Loading analytics...'}
+          </p>
+        </div>
+      )}
+
+      {analytics && (
+        <>
+          {/* Summary */}
+          <div className="grid md:grid-cols-2 xl:grid-cols-4 gap-6">
+            {summaryCards.map((card) => (
+              <div key={card.label} className="p-6" style={chartCardStyle}>
+                <div className="flex items-center space-x-3 mb-3">
+                  <div
+                    className="w-10 h-10 flex items-center justify-center"
+                    style={{ backgroundColor: card.color, border: '2px solid #000000' }}
+                  >
+                    <card.icon className="w-5 h-5 text-black" />
+                  </div>
+                  <h3 className="text-lg font-black text-black">{card.label}</h3>
+                </div>
+                <p className="text-3xl font-black text-black">{card.value}</p>
+                <p className="text-sm font-medium text-gray-600 mt-2">{card.detail}</p>
+              </div>
+            ))}
           </div>
 
-          <div
-            className="p-6 text-center"
-            style={{
-              backgroundColor: '#f8f9fa',
-              border: '3px solid #000000',
-              boxShadow: '4px 4px 0px #000000'
-            }}
-          >
-            <div
-              className="w-16 h-16 flex items-center justify-center mx-auto mb-4"
-              style={{ backgroundColor: '#ff6b6b', border: '2px solid #000000' }}
-            >
-              <Users className="w-8 h-8 text-black" />
+          {/* Charts */}
+          <div className="grid lg:grid-cols-2 gap-6">
+            <div className="p-6" style={chartCardStyle}>
+              <h3 className="text-xl font-black text-black mb-4">MRR ({tokenSymbol})</h3>
+              <LineChart
+                labels={labels}
+                series={[{ label: 'MRR', color: '#4ecdc4', values: analytics.series.map((bucket) => bucket.mrr[tokenSymbol] || 0) }]}
+              />
+            </div>
+
+            <div className="p-6" style={chartCardStyle}>
+              <h3 className="text-xl font-black text-black mb-4">Active subscribers</h3>
+              <LineChart
+                labels={labels}
+                series={[{ label: 'Active', color: '#836EF9', values: analytics.series.map((bucket) => bucket.active_subscribers) }]}
+              />
+            </div>
+
+            <div className="p-6" style={chartCardStyle}>
+              <h3 className="text-xl font-black text-black mb-4">New vs. cancelled</h3>
+              <BarChart
+                labels={labels}
+                series={[
+                  { label: 'New', color: '#4ecdc4', values: analytics.series.map((bucket) => bucket.new_subscriptions) },
+                  { label: 'Cancelled', color: '#ff6b6b', values: analytics.series.map((bucket) => bucket.cancellations) }
+                ]}
+              />
+            </div>
+
+            <div className="p-6" style={chartCardStyle}>
+              <h3 className="text-xl font-black text-black mb-4">Revenue ({tokenSymbol})</h3>
+              <BarChart
+                labels={labels}
+                series={[{ label: 'Revenue', color: '#feca57', values: analytics.series.map((bucket) => bucket.revenue[tokenSymbol] || 0) }]}
+              />
             </div>
-            <h3 className="text-xl font-black text-black mb-2">User Metrics</h3>
-            <p className="text-gray-700 font-medium">Monitor user engagement and activity</p>
           </div>
 
-          <div
-            className="p-6 text-center"
-            style={{
-              backgroundColor: '#f8f9fa',
-              border: '3px solid #000000',
-              boxShadow: '4px 4px 0px #000000'
-            }}
-          >
-            <div
-              className="w-16 h-16 flex items-center justify-center mx-auto mb-4"
-              style={{ backgroundColor: '#836EF9', border: '2px solid #000000' }}
-            >
-              <DollarSign className="w-8 h-8 text-white" />
+          {/* Per plan and per token */}
+          <div className="grid lg:grid-cols-2 gap-6">
+            <div className="p-6" style={chartCardStyle}>
+              <h3 className="text-xl font-black text-black mb-4">Revenue per plan</h3>
+              {analytics.plans.length === 0 ? (
+                <p className="text-gray-600 font-medium">No plans yet</p>
+              ) : (
+                <div className="space-y-4">
+                  {analytics.plans.map((plan) => (
+                    <div key={plan.plan_id}>
+                      <div className="flex justify-between text-sm font-bold text-black mb-1">
+                        <span>
+                          {plan.name}
+                          {!plan.is_active && <span className="ml-2 text-gray-500">(archived)</span>}
+                        </span>
+                        <span>{formatAmount(plan.revenue)} {plan.token_symbol}</span>
+                      </div>
+                      <div className="h-4 bg-gray-100" style={{ border: '2px solid #000000' }}>
+                        <div className="h-full" style={{ width: `${(plan.revenue / maxPlanRevenue) * 100}%`, backgroundColor: '#feca57' }} />
+                      </div>
+                      <p className="text-xs font-medium text-gray-600 mt-1">
+                        {plan.active_subscribers} active · MRR {formatAmount(plan.mrr)} · {plan.payments} payments
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="p-6" style={chartCardStyle}>
+              <h3 className="text-xl font-black text-black mb-4">Per token</h3>
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="border-b-2 border-black">
+                    <th className="py-2 font-black">Token</th>
+                    <th className="py-2 font-black">MRR</th>
+                    <th className="py-2 font-black">Revenue</th>
+                    <th className="py-2 font-black">All time</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analytics.tokens.map((token) => (
+                    <tr key={token.token_symbol} className="border-b border-gray-300">
+                      <td className="py-2 font-bold">{token.token_symbol}</td>
+                      <td className="py-2">{formatAmount(token.mrr)}</td>
+                      <td className="py-2">{formatAmount(token.revenue)}</td>
+                      <td className="py-2">{formatAmount(token.revenue_all_time)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {onChainRevenue !== null && (
+                <p className="text-sm font-medium text-gray-600 mt-4">
+                  On-chain <code>totalRevenue</code> of the SubscriptionManager: {onChainRevenue} {project?.supported_token?.symbol || ''}
+                </p>
+              )}
             </div>
-            <h3 className="text-xl font-black text-black mb-2">Cost Analysis</h3>
-            <p className="text-gray-700 font-medium">Understand your subscription costs</p>
           </div>
-        </div>
-      </motion.div>
+        </>
+      )}
     </div>
   )
 }
 
-export default Analytics
\ No newline at end of file
+export default Analytics
@@ -0,0 +1,284 @@
+import { useCallback, useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Receipt, RefreshCw, ChevronLeft, ChevronRight, ExternalLink, FileText } from 'lucide-react'
+import { usePrivy } from '@privy-io/react-auth'
+import { apiService, type BillingHistoryPage, type BillingHistoryPayment } from '../services/api'
+import { downloadInvoice } from '../utils/invoices'
+
+const PAGE_SIZE = 20
+
+const formatAmount = (amount: number, tokenSymbol?: string | null) =>
+  `${amount.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${tokenSymbol || ''}`.trim()
+
+const shortenHash = (hash: string) => `${hash.slice(0, 8)}...${hash.slice(-6)}`
+
+// Date inputs give local calendar days; the range covers the whole of both days
+const toStartOfDay = (value: string) => value ? Math.floor(new Date(`${value}T00:00:00`).getTime() / 1000) : undefined
+const toEndOfDay = (value: string) => value ? Math.floor(new Date(`${value}T23:59:59`).getTime() / 1000) : undefined
+
+const filterStyle = {
+  backgroundColor: '#ffffff',
+  border: '2px solid #000000',
+  boxShadow: '2px 2px 0px #000000'
+}
+
+const BillingHistory = () => {
+  const { authenticated } = usePrivy()
+  const [result, setResult] = useState<BillingHistoryPage | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [projectId, setProjectId] = useState('')
+  const [fromDate, setFromDate] = useState('')
+  const [toDate, setToDate] = useState('')
+  const [page, setPage] = useState(1)
+  const [downloadingId, setDownloadingId] = useState<string | null>(null)
+
+  const loadHistory = useCallback(async () => {
+    if (!authenticated) return
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await apiService.getBillingHistory({
+        project_id: projectId || undefined,
+        from: toStartOfDay(fromDate),
+        to: toEndOfDay(toDate),
+        page,
+        page_size: PAGE_SIZE
+      })
+      if (response.success && response.data) {
+        setResult(response.data)
+      } else {
+        setError(response.error || 'Failed to load billing history')
+      }
+    } catch (err) {
+      console.error('Error loading billing history:', err)
+      setError('Failed to load billing history')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [authenticated, projectId, fromDate, toDate, page])
+
+  useEffect(() => {
+    loadHistory()
+  }, [loadHistory])
+
+  const handleDownload = async (payment: BillingHistoryPayment) => {
+    setDownloadingId(payment.id)
+    setError(null)
+    try {
+      const downloadError = await downloadInvoice(payment.id, payment.invoice_number)
+      if (downloadError) setError(downloadError)
+    } finally {
+      setDownloadingId(null)
+    }
+  }
+
+  if (!authenticated) {
+    return (
+      <div className="text-center py-12">
+        <h1 className="text-2xl font-bold text-gray-800 mb-2">Sign in to see your billing history</h1>
+      </div>
+    )
+  }
+
+  const pagination = result?.pagination
+  const hasFilters = Boolean(projectId || fromDate || toDate)
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-black text-black flex items-center space-x-3">
+          <Receipt size={32} />
+          <span>Billing History</span>
+        </h1>
+        <motion.button
+          onClick={loadHistory}
+          disabled={isLoading}
+          whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+          whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+          transition={{ duration: 0.1 }}
+          className="p-3"
+          style={{
+            backgroundColor: '#feca57',
+            border: '3px solid #000000',
+            boxShadow: '2px 2px 0px #000000'
+          }}
+        >
+          <RefreshCw size={18} className={isLoading ? 'animate-spin' : ''} />
+        </motion.button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-sm font-bold text-black mb-1">Project</label>
+          <select
+            value={projectId}
+            onChange={(e) => {
+              setProjectId(e.target.value)
+              setPage(1)
+            }}
+            className="px-3 py-2 font-bold"
+            style={filterStyle}
+          >
+            <option value="">All projects</option>
+            {(result?.projects || []).map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.company_name ? `${project.company_name} - ` : ''}{project.name || project.id}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-bold text-black mb-1">From</label>
+          <input
+            type="date"
+            value={fromDate}
+            max={toDate || undefined}
+            onChange={(e) => {
+              setFromDate(e.target.value)
+              setPage(1)
+            }}
+            className="px-3 py-2 font-bold"
+            style={filterStyle}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-bold text-black mb-1">To</label>
+          <input
+            type="date"
+            value={toDate}
+            min={fromDate || undefined}
+            onChange={(e) => {
+              setToDate(e.target.value)
+              setPage(1)
+            }}
+            className="px-3 py-2 font-bold"
+            style={filterStyle}
+          />
+        </div>
+        {hasFilters && (
+          <button
+            onClick={() => {
+              setProjectId('')
+              setFromDate('')
+              setToDate('')
+              setPage(1)
+            }}
+            className="px-3 py-2 font-bold"
+            style={{ ...filterStyle, backgroundColor: '#fffae6' }}
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div
+          className="p-4 font-bold text-black"
+          style={{ backgroundColor: '#f8d7da', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+        >
+          {error}
+        </div>
+      )}
+
+      {result && result.payments.length === 0 ? (
+        <div className="text-center py-8">
+          <h3 className="text-xl font-bold text-gray-600 mb-2">No payments found</h3>
+          <p className="text-gray-500">
+            {hasFilters ? 'Try a different project or date range' : 'Charges show up here once a subscription is paid'}
+          </p>
+        </div>
+      ) : (
+        <div
+          className="overflow-x-auto"
+          style={{ backgroundColor: '#ffffff', border: '3px solid #000000', boxShadow: '4px 4px 0px #000000' }}
+        >
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b-2 border-black" style={{ backgroundColor: '#f8f9fa' }}>
+                <th className="px-4 py-2 font-bold">Date</th>
+                <th className="px-4 py-2 font-bold">Project</th>
+                <th className="px-4 py-2 font-bold">Plan</th>
+                <th className="px-4 py-2 font-bold">Amount</th>
+                <th className="px-4 py-2 font-bold">Transaction</th>
+                <th className="px-4 py-2 font-bold">Receipt</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(result?.payments || []).map((payment) => (
+                <tr key={payment.id} className="border-b border-gray-200">
+                  <td className="px-4 py-2">{new Date(payment.payment_date * 1000).toLocaleString()}</td>
+                  <td className="px-4 py-2">
+                    <div className="font-bold">{payment.project_name || '-'}</div>
+                    {payment.company_name && <div className="text-xs text-gray-600">{payment.company_name}</div>}
+                  </td>
+                  <td className="px-4 py-2">
+                    {payment.plan_name || '-'}
+                    {payment.payment_type === 'proration' && <span className="text-xs text-gray-600"> (plan change)</span>}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="font-bold">{formatAmount(payment.amount, payment.token_symbol)}</div>
+                    {payment.refunded_amount > 0 && (
+                      <div className="text-xs text-gray-600">Refunded {formatAmount(payment.refunded_amount, payment.token_symbol)}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    <a
+                      href={`https://testnet.monadexplorer.com/tx/${payment.tx_hash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono underline inline-flex items-center space-x-1"
+                    >
+                      <span>{shortenHash(payment.tx_hash)}</span>
+                      <ExternalLink size={12} />
+                    </a>
+                  </td>
+                  <td className="px-4 py-2">
+                    <button
+                      onClick={() => handleDownload(payment)}
+                      disabled={downloadingId === payment.id}
+                      className="px-3 py-1 font-bold text-xs flex items-center space-x-1 disabled:opacity-50"
+                      style={{ backgroundColor: '#95e1d3', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+                    >
+                      <FileText size={12} />
+                      <span>{downloadingId === payment.id ? 'Preparing...' : payment.invoice_number || 'PDF'}</span>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {pagination && pagination.total_pages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-bold text-gray-600">
+            Page {pagination.page} of {pagination.total_pages} · {pagination.total} payments
+          </p>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1 || isLoading}
+              className="p-2 disabled:opacity-40"
+              style={filterStyle}
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pagination.total_pages || isLoading}
+              className="p-2 disabled:opacity-40"
+              style={filterStyle}
+            >
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default BillingHistory
@@ -13,7 +13,7 @@ import {
 import { apiService, type Project, type TokenMetadata } from '../services/api'
 import { useAuth } from '../hooks/useAuth'
 import DeveloperRegistration from './DeveloperRegistration'
-import { createPublicClient, http, parseUnits } from 'viem'
+import { createPublicClient, http, isAddress, parseUnits } from 'viem'
 import { monadTestnet } from 'viem/chains'
 import { useSmartAccount } from '../hooks/useSmartAccount'
 import { useSmartAccountContractWriter } from '../hooks/useSmartAccountContractWriter'
@@ -53,8 +53,8 @@ const DeveloperDashboard = () => {
   const [tokenDecimals, setTokenDecimals] = useState<number | null>(null)
   const [isTokenDropdownOpen, setIsTokenDropdownOpen] = useState(false)
 
-  const [plans, setPlans] = useState<Array<{ id: string; name: string; price: string; period_seconds: string }>>([
-    { id: generatePlanId(), name: '', price: '', period_seconds: '' }
+  const [plans, setPlans] = useState<Array<{ id: string; name: string; price: string; period_seconds: string; trial_period_seconds: string }>>([
+    { id: generatePlanId(), name: '', price: '', period_seconds: '', trial_period_seconds: '' }
   ])
 
   const publicClient = useMemo(() => {
@@ -68,7 +68,8 @@ const DeveloperDashboard = () => {
   const [formData, setFormData] = useState({
     name: '',
     description: '',
-    supported_token_address: ''
+    supported_token_address: '',
+    agent_address: ''
   })
 
   const selectedToken = useMemo(
@@ -273,6 +274,18 @@ const DeveloperDashboard = () => {
       return
     }
 
+    if (!isAddress(formData.agent_address.trim())) {
+      window.dispatchEvent(
+        new CustomEvent('showToast', {
+          detail: {
+            message: 'Enter a valid collector agent address',
+            type: 'error',
+          },
+        })
+      )
+      return
+    }
+
     if (tokenDecimals == null) {
       window.dispatchEvent(
         new CustomEvent('showToast', {
@@ -289,13 +302,15 @@ const DeveloperDashboard = () => {
       .map((plan) => ({
         name: plan.name.trim(),
         price: plan.price.trim(),
-        period_seconds: plan.period_seconds.trim()
+        period_seconds: plan.period_seconds.trim(),
+        trial_period_seconds: plan.trial_period_seconds.trim()
       }))
       .filter((plan) => plan.name && plan.price && plan.period_seconds)
       .map((plan) => ({
         ...plan,
         price: Number(plan.price),
-        period_seconds: Number(plan.period_seconds)
+        period_seconds: Number(plan.period_seconds),
+        trial_period_seconds: Number(plan.trial_period_seconds || 0)
       }))
 
     if (cleanedPlans.length === 0) {
@@ -314,6 +329,7 @@ const DeveloperDashboard = () => {
     const planPrices = cleanedPlans.map((plan) => parseUnits(plan.price.toString(), tokenDecimals))
     const planPeriods = cleanedPlans.map((plan) => BigInt(plan.period_seconds))
     const planTokens = cleanedPlans.map(() => formData.supported_token_address as `0x${string}`)
+    const planTrialPeriods = cleanedPlans.map((plan) => BigInt(plan.trial_period_seconds))
 
     let smartAccount = smartAccountResult?.smartAccount
     if (!smartAccount) {
@@ -356,7 +372,8 @@ const DeveloperDashboard = () => {
         planNames,
         planPrices,
         planPeriods,
-        planTokens
+        planTokens,
+        planTrialPeriods
       )
 
       const result = await apiService.createProject({
@@ -365,6 +382,7 @@ const DeveloperDashboard = () => {
         description: formData.description,
         factory_tx_hash: txHash,
         supported_token_address: formData.supported_token_address,
+        agent_address: formData.agent_address.trim(),
         plans: cleanedPlans
       })
 
@@ -384,8 +402,8 @@ const DeveloperDashboard = () => {
             return [newProject, ...prev]
           })
         }
-        setFormData({ name: '', description: '', supported_token_address: '' })
-        setPlans([{ id: generatePlanId(), name: '', price: '', period_seconds: '' }])
+        setFormData({ name: '', description: '', supported_token_address: '', agent_address: '' })
+        setPlans([{ id: generatePlanId(), name: '', price: '', period_seconds: '', trial_period_seconds: '' }])
         // Clear cache and refresh projects list
         const cacheKey = `developer_projects_${userEmail}`
         localStorage.removeItem(cacheKey)
@@ -631,12 +649,32 @@ const DeveloperDashboard = () => {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-lg font-bold text-black mb-2">Collector Agent Address</label>
+                <input
+                  type="text"
+                  value={formData.agent_address}
+                  onChange={(e) => setFormData({ ...formData, agent_address: e.target.value })}
+                  className="w-full px-4 py-3 text-lg font-medium font-mono"
+                  style={{
+                    backgroundColor: '#ffffff',
+                    border: '2px solid #000000',
+                    boxShadow: '2px 2px 0px #000000'
+                  }}
+                  placeholder="0x..."
+                  required
+                />
+                <p className="text-sm text-gray-600 mt-2">
+                  Subscribers delegate renewals to this address. Run the collector with its private key.
+                </p>
+              </div>
+
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
                   <label className="block text-lg font-bold text-black">Subscription Plans</label>
                   <motion.button
                     type="button"
-                    onClick={() => setPlans((prev) => [...prev, { id: generatePlanId(), name: '', price: '', period_seconds: '' }])}
+                    onClick={() => setPlans((prev) => [...prev, { id: generatePlanId(), name: '', price: '', period_seconds: '', trial_period_seconds: '' }])}
                     whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
                     whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
                     transition={{ duration: 0.1 }}
@@ -673,7 +711,7 @@ const DeveloperDashboard = () => {
                         )}
                       </div>
 
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                         <div>
                           <label className="block text-sm font-bold mb-2">Name</label>
                           <input
@@ -728,6 +766,24 @@ const DeveloperDashboard = () => {
                             placeholder="2592000"
                           />
                         </div>
+
+                        <div>
+                          <label className="block text-sm font-bold mb-2">Free Trial (seconds)</label>
+                          <input
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={plan.trial_period_seconds}
+                            onChange={(e) => setPlans((prev) => prev.map((item) => item.id === plan.id ? { ...item, trial_period_seconds: e.target.value } : item))}
+                            className="w-full px-3 py-2 text-sm font-medium"
+                            style={{
+                              backgroundColor: '#ffffff',
+                              border: '2px solid #000000',
+                              boxShadow: '2px 2px 0px #000000'
+                            }}
+                            placeholder="0"
+                          />
+                        </div>
                       </div>
                     </div>
                   ))}
@@ -858,6 +914,17 @@ const DeveloperDashboard = () => {
                   ) : (
                     <p className="text-sm text-gray-500 italic">Subscription manager not configured yet.</p>
                   )}
+                  {project.agent_address && (
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <Key size={16} className="text-gray-500" />
+                        <span className="text-sm font-medium text-gray-700">Collector Agent</span>
+                      </div>
+                      <p className="text-xs font-mono text-gray-600 break-all">
+                        {project.agent_address}
+                      </p>
+                    </div>
+                  )}
 
 
                 </div>
@@ -1,5 +1,5 @@
 import { motion, AnimatePresence } from 'framer-motion'
-import { User, Copy, ExternalLink, X, RefreshCw } from 'lucide-react'
+import { User, Copy, ExternalLink, X, RefreshCw, AlertTriangle } from 'lucide-react'
 import { UserSubscriptions } from './UserSubscriptions'
 import { useAccount } from '../hooks/usePrivyWagmiAdapter'
 import { useUserSubscriptions } from '../hooks/useUserSubscriptions'
@@ -8,7 +8,8 @@ import { useSubscriptionExpiryMonitor } from '../hooks/useSubscriptionExpiryMoni
 import { usePrivy } from '@privy-io/react-auth'
 import { useEffect, useState, useCallback, useMemo, useRef } from 'react'
 import QRCode from 'react-qr-code'
-import { apiService, type TokenMetadata } from '../services/api'
+import { apiService, type SubscriptionPlan, type TokenMetadata } from '../services/api'
+import type { UserSubscription } from '../types/subscription'
 import { useSmartAccountContractWriter } from '../hooks/useSmartAccountContractWriter'
 import { useSmartAccount } from '../hooks/useSmartAccount'
 import { formatUnits, parseUnits } from 'viem'
@@ -19,7 +20,7 @@ const ManageSubscription = () => {
   const { address, isConnected } = useAccount()
   const { subscriptions, getUserSubscriptions, isLoading, error } = useUserSubscriptions()
   const { smartAccountResult } = useSmartAccount()
-  const { transferTokenFromSmartAccount } = useSmartAccountContractWriter()
+  const { transferTokenFromSmartAccount, previewPlanChange, changePlanWithSmartAccount } = useSmartAccountContractWriter()
   const { publicClient } = usePrivyWagmiAdapter()
   
   // Get authentication state from Privy
@@ -59,6 +60,16 @@ const ManageSubscription = () => {
     }
   )
   const [isBalanceOpen, setIsBalanceOpen] = useState(false)
+  const [changePlanTarget, setChangePlanTarget] = useState<UserSubscription | null>(null)
+  const [availablePlans, setAvailablePlans] = useState<SubscriptionPlan[]>([])
+  const [changePlanAgentAddress, setChangePlanAgentAddress] = useState<string | null>(null)
+  const [isLoadingPlans, setIsLoadingPlans] = useState(false)
+  const [selectedPlan, setSelectedPlan] = useState<SubscriptionPlan | null>(null)
+  const [planPreview, setPlanPreview] = useState<{ amountDue: string; credit: string } | null>(null)
+  const [isPreviewingPlan, setIsPreviewingPlan] = useState(false)
+  const [isChangingPlan, setIsChangingPlan] = useState(false)
+  const [changePlanError, setChangePlanError] = useState<string | null>(null)
+  const [pastDueShortfalls, setPastDueShortfalls] = useState<{ tokenSymbol: string; amountDue: number; shortfall: number }[]>([])
 
   type SmartAccountParam = Parameters<typeof transferTokenFromSmartAccount>[0]['smartAccount']
   const smartAccountInstance = smartAccountResult?.smartAccount as SmartAccountParam | undefined
@@ -146,6 +157,61 @@ const ManageSubscription = () => {
     }
   }, [publicClient, smartAccountAddress, supportedTokens, erc20Abi])
 
+  const pastDueSubscriptions = useMemo(
+    () => subscriptions.filter((sub) => sub.status === 'past_due' && !sub.isCancellationPending),
+    [subscriptions]
+  )
+
+  // Work out how much each past-due token is short so the banner can say exactly what to deposit
+  useEffect(() => {
+    if (!publicClient || !smartAccountAddress || pastDueSubscriptions.length === 0) {
+      setPastDueShortfalls([])
+      return
+    }
+
+    const amountsByToken = new Map<string, { tokenAddress: `0x${string}`; tokenSymbol: string; amountDue: number }>()
+    for (const sub of pastDueSubscriptions) {
+      if (!sub.tokenAddress) continue
+      const key = sub.tokenAddress.toLowerCase()
+      const existing = amountsByToken.get(key)
+      amountsByToken.set(key, {
+        tokenAddress: sub.tokenAddress as `0x${string}`,
+        tokenSymbol: sub.tokenSymbol || 'USDC',
+        amountDue: (existing?.amountDue ?? 0) + Number(sub.price)
+      })
+    }
+
+    let cancelled = false
+    const loadShortfalls = async () => {
+      try {
+        const shortfalls = await Promise.all(Array.from(amountsByToken.values()).map(async (entry) => {
+          const [rawBalance, decimals] = await Promise.all([
+            publicClient.readContract({ address: entry.tokenAddress, abi: erc20Abi, functionName: 'balanceOf', args: [smartAccountAddress as `0x${string}`] }),
+            publicClient.readContract({ address: entry.tokenAddress, abi: erc20Abi, functionName: 'decimals' })
+          ])
+          const balance = Number(formatUnits(rawBalance as bigint, Number(decimals)))
+          return { tokenSymbol: entry.tokenSymbol, amountDue: entry.amountDue, shortfall: Math.max(entry.amountDue - balance, 0) }
+        }))
+        if (!cancelled) setPastDueShortfalls(shortfalls)
+      } catch (err) {
+        console.error('Failed to load balances for past-due subscriptions', err)
+        // Without a balance, ask for the full amount due
+        if (!cancelled) {
+          setPastDueShortfalls(Array.from(amountsByToken.values()).map((entry) => ({
+            tokenSymbol: entry.tokenSymbol,
+            amountDue: entry.amountDue,
+            shortfall: entry.amountDue
+          })))
+        }
+      }
+    }
+
+    void loadShortfalls()
+    return () => {
+      cancelled = true
+    }
+  }, [publicClient, smartAccountAddress, pastDueSubscriptions, erc20Abi])
+
   useEffect(() => {
     if (!isWithdrawOpen || supportedTokens.length === 0) {
       setTokenBalances({})
@@ -368,6 +434,118 @@ const ManageSubscription = () => {
     }
   }
 
+  const closeChangePlanModal = () => {
+    setChangePlanTarget(null)
+    setAvailablePlans([])
+    setChangePlanAgentAddress(null)
+    setSelectedPlan(null)
+    setPlanPreview(null)
+    setChangePlanError(null)
+  }
+
+  const openChangePlanModal = async (subscription: UserSubscription) => {
+    if (!subscription.projectId) return
+
+    setChangePlanTarget(subscription)
+    setSelectedPlan(null)
+    setPlanPreview(null)
+    setChangePlanError(null)
+    setIsLoadingPlans(true)
+    try {
+      const result = await apiService.getProjectDetails(subscription.projectId)
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to load plans')
+      }
+      const wrappedData = result.data as { success?: boolean; data?: { project: { agent_address?: string | null }; subscription_plans: SubscriptionPlan[] } }
+      const details = wrappedData.success ? wrappedData.data : result.data
+      const plans = details?.subscription_plans ?? []
+      setAvailablePlans(plans.filter((plan) => plan.contract_plan_id !== subscription.contractPlanId))
+      // The new plan's renewal delegations are signed for the project's collector
+      setChangePlanAgentAddress(details?.project?.agent_address ?? null)
+    } catch (err) {
+      setChangePlanError(err instanceof Error ? err.message : 'Failed to load plans')
+    } finally {
+      setIsLoadingPlans(false)
+    }
+  }
+
+  const selectPlanForChange = async (plan: SubscriptionPlan) => {
+    if (!changePlanTarget?.subscriptionManagerAddress || changePlanTarget.contractSubscriptionId === undefined) return
+
+    setSelectedPlan(plan)
+    setPlanPreview(null)
+    setChangePlanError(null)
+    setIsPreviewingPlan(true)
+    try {
+      const { amountDue, credit } = await previewPlanChange(
+        changePlanTarget.contractSubscriptionId,
+        changePlanTarget.subscriptionManagerAddress as `0x${string}`,
+        plan.contract_plan_id
+      )
+      setPlanPreview({
+        amountDue: formatUnits(amountDue, 18),
+        credit: formatUnits(credit, 18)
+      })
+    } catch (err) {
+      setChangePlanError(err instanceof Error ? err.message : 'Failed to preview plan change')
+    } finally {
+      setIsPreviewingPlan(false)
+    }
+  }
+
+  const handleChangePlan = async () => {
+    if (!changePlanTarget || !selectedPlan || !smartAccountInstance) return
+
+    const subscriptionManagerAddress = changePlanTarget.subscriptionManagerAddress as `0x${string}` | undefined
+    const tokenAddress = changePlanTarget.tokenAddress as `0x${string}` | undefined
+    if (!subscriptionManagerAddress || !tokenAddress || !changePlanTarget.projectId) {
+      setChangePlanError('Subscription is missing token or manager address')
+      return
+    }
+
+    if (changePlanTarget.contractSubscriptionId === undefined) {
+      setChangePlanError('Subscription is missing its on-chain subscription id')
+      return
+    }
+
+    if (!changePlanAgentAddress) {
+      setChangePlanError('This project has no collection agent configured')
+      return
+    }
+
+    try {
+      setIsChangingPlan(true)
+      setChangePlanError(null)
+      const txHash = await changePlanWithSmartAccount(
+        smartAccountInstance,
+        subscriptionManagerAddress,
+        tokenAddress,
+        changePlanTarget.contractSubscriptionId,
+        {
+          contractPlanId: selectedPlan.contract_plan_id,
+          price: selectedPlan.price,
+          periodSeconds: selectedPlan.period_seconds
+        },
+        changePlanTarget.projectId,
+        changePlanAgentAddress
+      )
+      closeChangePlanModal()
+      setToastState({
+        isVisible: true,
+        message: `Switched to ${selectedPlan.name}.`,
+        type: 'success',
+        actionLabel: 'View on explorer',
+        actionHref: `https://testnet.monadexplorer.com/tx/${txHash}`
+      })
+      await refreshSubscriptions()
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to change plan'
+      setChangePlanError(message)
+    } finally {
+      setIsChangingPlan(false)
+    }
+  }
+
   if (!isConnected) {
     return (
       <div className="max-w-4xl mx-auto text-center">
@@ -878,6 +1056,161 @@ const ManageSubscription = () => {
         )}
       </AnimatePresence>
 
+      <AnimatePresence>
+        {changePlanTarget && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 backdrop-blur-md flex items-center justify-center z-50 p-4"
+            onClick={closeChangePlanModal}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{ type: 'spring', duration: 0.4 }}
+              className="bg-white max-w-lg w-full border-4 border-black"
+              style={{ boxShadow: '8px 8px 0px #000000, 16px 16px 0px #f8f8f8' }}
+              onClick={(event) => event.stopPropagation()}
+            >
+              <div className="flex items-center justify-between p-4 border-b-4 border-black" style={{ backgroundColor: '#4ecdc4' }}>
+                <h2 className="text-2xl font-black text-black">Change Plan</h2>
+                <button
+                  onClick={closeChangePlanModal}
+                  className="w-10 h-10 flex items-center justify-center bg-white hover:bg-gray-100 transition-colors"
+                  style={{ border: '2px solid #000000' }}
+                >
+                  <X className="w-5 h-5 text-black" />
+                </button>
+              </div>
+              <div className="p-6 space-y-5">
+                <p className="text-sm font-bold text-gray-700">
+                  Current plan: <span className="font-black text-black">{changePlanTarget.planName}</span> ({changePlanTarget.price} {changePlanTarget.tokenSymbol || 'USDC'})
+                </p>
+                <div className="space-y-3">
+                  {isLoadingPlans ? (
+                    <p className="text-sm font-semibold text-gray-700">Loading plans...</p>
+                  ) : availablePlans.length === 0 ? (
+                    <p className="text-sm font-semibold text-gray-700">No other plans are available for this subscription.</p>
+                  ) : (
+                    availablePlans.map((plan) => (
+                      <button
+                        key={plan.id}
+                        type="button"
+                        onClick={() => void selectPlanForChange(plan)}
+                        className="w-full flex items-center justify-between px-4 py-3 text-left"
+                        style={{
+                          border: '3px solid #000000',
+                          boxShadow: '4px 4px 0px #000000',
+                          backgroundColor: selectedPlan?.id === plan.id ? '#feca57' : '#ffffff'
+                        }}
+                      >
+                        <span className="text-lg font-black text-black">{plan.name}</span>
+                        <span className="text-sm font-bold text-gray-800">{plan.price} {plan.token_symbol || changePlanTarget.tokenSymbol || 'USDC'}</span>
+                      </button>
+                    ))
+                  )}
+                </div>
+                {selectedPlan && (
+                  <div className="p-4 space-y-2" style={{ border: '3px solid #000000', backgroundColor: '#fffae6' }}>
+                    {isPreviewingPlan || !planPreview ? (
+                      <p className="text-sm font-semibold text-gray-700">Calculating proration...</p>
+                    ) : (
+                      <>
+                        <div className="flex items-center justify-between text-sm font-bold text-gray-800">
+                          <span>Credit for unused time</span>
+                          <span>-{Number(planPreview.credit).toFixed(4)} {changePlanTarget.tokenSymbol || 'USDC'}</span>
+                        </div>
+                        <div className="flex items-center justify-between text-lg font-black text-black">
+                          <span>Due now</span>
+                          <span>{Number(planPreview.amountDue).toFixed(4)} {changePlanTarget.tokenSymbol || 'USDC'}</span>
+                        </div>
+                        <p className="text-xs font-semibold text-gray-600">Your new billing period starts as soon as the change is confirmed.</p>
+                        <p className="text-xs font-semibold text-gray-600">You will sign new renewal permissions for {Number(selectedPlan.price)} {selectedPlan.token_symbol || changePlanTarget.tokenSymbol || 'USDC'} per billing period; the old ones are revoked in the same transaction.</p>
+                      </>
+                    )}
+                  </div>
+                )}
+                {changePlanError && (
+                  <div className="p-3 bg-red-100 border-2 border-red-300 text-sm font-semibold text-red-800">
+                    {changePlanError}
+                  </div>
+                )}
+                <div className="flex gap-3">
+                  <button
+                    onClick={closeChangePlanModal}
+                    className="retro-button flex-1 py-3 font-black text-lg"
+                    style={{ backgroundColor: '#e0e0e0' }}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleChangePlan}
+                    disabled={!selectedPlan || !planPreview || isChangingPlan || !smartAccountInstance}
+                    className={`retro-button flex-1 py-3 font-black text-lg ${!selectedPlan || !planPreview || isChangingPlan ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    style={{ backgroundColor: '#836EF9' }}
+                  >
+                    {isChangingPlan ? 'Switching...' : 'Confirm Change'}
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Failed renewal banner */}
+      {pastDueSubscriptions.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="p-6"
+          style={{ backgroundColor: '#ff9f43', border: '3px solid #000000', boxShadow: '6px 6px 0px #000000' }}
+        >
+          <div className="flex items-start gap-4">
+            <div
+              className="w-12 h-12 flex-shrink-0 flex items-center justify-center bg-white"
+              style={{ border: '3px solid #000000' }}
+            >
+              <AlertTriangle className="w-6 h-6 text-black" />
+            </div>
+            <div className="flex-1">
+              <h3 className="text-xl md:text-2xl font-black text-black mb-2">
+                {pastDueSubscriptions.length === 1 ? 'A renewal payment failed' : `${pastDueSubscriptions.length} renewal payments failed`}
+              </h3>
+              {pastDueSubscriptions.map((sub) => (
+                <p key={sub.id} className="font-bold text-black mb-1">
+                  {sub.companyName} - {sub.planName}: {sub.price} {sub.tokenSymbol || 'USDC'} due
+                  {sub.lastFailureReason ? ` (${sub.lastFailureReason})` : ''}
+                  {sub.graceEndsAt ? `. Access ends ${sub.graceEndsAt.toLocaleString()}` : ''}
+                  {sub.nextRetryAt ? `, next retry ${sub.nextRetryAt.toLocaleString()}` : ''}
+                </p>
+              ))}
+              {pastDueShortfalls.filter((entry) => entry.shortfall > 0).map((entry) => (
+                <p key={entry.tokenSymbol} className="font-black text-black mt-3">
+                  Deposit at least {entry.shortfall.toFixed(4)} {entry.tokenSymbol} to your smart account to keep access.
+                </p>
+              ))}
+              {pastDueShortfalls.length > 0 && pastDueShortfalls.every((entry) => entry.shortfall === 0) && (
+                <p className="font-black text-black mt-3">
+                  Your balance now covers what's due. The next retry will renew your subscription.
+                </p>
+              )}
+              {smartAccountAddress && (
+                <button
+                  onClick={() => setIsDepositOpen(true)}
+                  className="mt-4 retro-button px-6 py-3 font-black"
+                  style={{ backgroundColor: '#ffffff' }}
+                >
+                  Deposit
+                </button>
+              )}
+            </div>
+          </div>
+        </motion.div>
+      )}
+
       {/* Subscriptions */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -890,6 +1223,7 @@ const ManageSubscription = () => {
           subscriptions={subscriptions}
           isLoading={isLoading}
           error={error}
+          onChangePlan={openChangePlanModal}
           onRefresh={refreshSubscriptions}
         />
       </motion.div>
@@ -0,0 +1,260 @@
+import { useCallback, useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { formatUnits } from 'viem'
+import { KeyRound, RefreshCw, AlertTriangle, ExternalLink } from 'lucide-react'
+import { usePrivy } from '@privy-io/react-auth'
+import { apiService, type SignedDelegationData, type UserDelegationRecord } from '../services/api'
+import { useSmartAccount } from '../hooks/useSmartAccount'
+import { useSmartAccountContractWriter } from '../hooks/useSmartAccountContractWriter'
+import { describeDelegationCaveats, type DelegationCaps } from '../utils/delegations'
+
+interface SmartAccount {
+  address: `0x${string}`
+  isDeployed: () => Promise<boolean>
+  [key: string]: unknown
+}
+
+// Each stored record holds two delegations, and each one can be revoked on its own
+interface PermissionRow {
+  key: string
+  record: UserDelegationRecord
+  delegation: SignedDelegationData
+  caps: DelegationCaps
+}
+
+const shortenAddress = (address?: string) => address ? `${address.slice(0, 6)}...${address.slice(-4)}` : '-'
+
+const formatDate = (seconds: number) => new Date(seconds * 1000).toLocaleDateString()
+
+const AddressLink = ({ address }: { address?: string }) => address ? (
+  <a
+    href={`https://testnet.monadexplorer.com/address/${address}`}
+    target="_blank"
+    rel="noopener noreferrer"
+    className="font-mono underline inline-flex items-center space-x-1"
+  >
+    <span>{shortenAddress(address)}</span>
+    <ExternalLink size={12} />
+  </a>
+) : <span>-</span>
+
+const toRows = (record: UserDelegationRecord): PermissionRow[] => {
+  const signed = [record.delegation?.signedApproveDelegation, record.delegation?.signedProcessPaymentDelegation]
+  return signed
+    .filter((delegation): delegation is SignedDelegationData => Boolean(delegation?.signature))
+    .map((delegation) => ({
+      key: `${record.id}-${delegation.salt}`,
+      record,
+      delegation,
+      caps: describeDelegationCaveats(delegation)
+    }))
+}
+
+const Permissions = () => {
+  const { authenticated } = usePrivy()
+  const { createSmartAccount, smartAccountResult } = useSmartAccount()
+  const { isDelegationDisabled, disableDelegationWithSmartAccount } = useSmartAccountContractWriter()
+  const [rows, setRows] = useState<PermissionRow[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [revokingKey, setRevokingKey] = useState<string | null>(null)
+
+  const loadPermissions = useCallback(async () => {
+    if (!authenticated) return
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await apiService.listUserDelegations()
+      if (!response.success || !response.data) {
+        setError(response.error || 'Failed to load permissions')
+        return
+      }
+
+      // Delegations disabled elsewhere can still be active in the database, so ask the DelegationManager
+      const candidates = response.data.flatMap(toRows)
+      const disabled = await Promise.all(candidates.map((row) => isDelegationDisabled(row.delegation).catch(() => false)))
+      setRows(candidates.filter((_, index) => !disabled[index]))
+    } catch (err) {
+      console.error('Error loading permissions:', err)
+      setError('Failed to load permissions')
+    } finally {
+      setIsLoading(false)
+    }
+    // The writer hook returns new function instances on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [authenticated])
+
+  useEffect(() => {
+    loadPermissions()
+  }, [loadPermissions])
+
+  const handleRevoke = async (row: PermissionRow) => {
+    const sharedBy = row.record.subscriptions.length
+    if (sharedBy > 1 && !window.confirm(`This delegation renews ${sharedBy} subscriptions. Revoking it stops renewals for all of them. Continue?`)) return
+
+    setRevokingKey(row.key)
+    setError(null)
+    try {
+      let smartAccount = smartAccountResult?.smartAccount as SmartAccount | undefined
+      if (!smartAccount) {
+        const created = await createSmartAccount()
+        smartAccount = created?.smartAccount as SmartAccount | undefined
+      }
+      if (!smartAccount) {
+        throw new Error('Smart account is not available')
+      }
+
+      const txHash = await disableDelegationWithSmartAccount(smartAccount, row.delegation)
+      setRows((current) => current.filter((entry) => entry.key !== row.key))
+
+      // The collector reads is_active, so record the revoke once it is confirmed on-chain
+      const result = await apiService.revokeUserDelegation(row.record.id, txHash)
+      if (!result.success) {
+        setError(result.error || 'Revoked on-chain, but failed to update the stored delegation')
+      }
+    } catch (err) {
+      console.error('Failed to revoke delegation:', err)
+      setError(err instanceof Error ? err.message : 'Failed to revoke delegation')
+    } finally {
+      setRevokingKey(null)
+    }
+  }
+
+  if (!authenticated) {
+    return (
+      <div className="text-center py-12">
+        <h1 className="text-2xl font-bold text-gray-800 mb-2">Sign in to see your permissions</h1>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-black text-black flex items-center space-x-3">
+          <KeyRound size={32} />
+          <span>Permissions</span>
+        </h1>
+        <motion.button
+          onClick={loadPermissions}
+          disabled={isLoading}
+          whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+          whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+          transition={{ duration: 0.1 }}
+          className="p-3"
+          style={{
+            backgroundColor: '#feca57',
+            border: '3px solid #000000',
+            boxShadow: '2px 2px 0px #000000'
+          }}
+        >
+          <RefreshCw size={18} className={isLoading ? 'animate-spin' : ''} />
+        </motion.button>
+      </div>
+      <p className="text-gray-600">
+        These agents can act on your smart account to renew subscriptions. Each subscription has its own delegations. Revoking one disables it on the DelegationManager, and renewals of that subscription stop.
+      </p>
+
+      {error && (
+        <div
+          className="p-4 font-bold text-black"
+          style={{ backgroundColor: '#f8d7da', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+        >
+          {error}
+        </div>
+      )}
+
+      {!isLoading && rows.length === 0 ? (
+        <div className="text-center py-8">
+          <h3 className="text-xl font-bold text-gray-600 mb-2">No active permissions</h3>
+          <p className="text-gray-500">Delegations show up here once you subscribe to a plan</p>
+        </div>
+      ) : (
+        <div
+          className="overflow-x-auto"
+          style={{ backgroundColor: '#ffffff', border: '3px solid #000000', boxShadow: '4px 4px 0px #000000' }}
+        >
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b-2 border-black" style={{ backgroundColor: '#f8f9fa' }}>
+                <th className="px-4 py-2 font-bold">Delegate</th>
+                <th className="px-4 py-2 font-bold">Target</th>
+                <th className="px-4 py-2 font-bold">Function</th>
+                <th className="px-4 py-2 font-bold">Caps</th>
+                <th className="px-4 py-2 font-bold">Created</th>
+                <th className="px-4 py-2 font-bold">Subscription</th>
+                <th className="px-4 py-2 font-bold"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const { caps, record } = row
+                const hasCaps = caps.maxAmount !== undefined || caps.validUntil !== undefined
+                return (
+                  <tr key={row.key} className="border-b border-gray-200 align-top">
+                    <td className="px-4 py-2"><AddressLink address={row.delegation.delegate} /></td>
+                    <td className="px-4 py-2"><AddressLink address={caps.target} /></td>
+                    <td className="px-4 py-2 font-mono text-xs">{caps.functionName || 'Any'}</td>
+                    <td className="px-4 py-2 text-xs space-y-1">
+                      {caps.maxAmount !== undefined && (
+                        <div>Approve up to {formatUnits(caps.maxAmount, 18)} for {shortenAddress(caps.spender)}</div>
+                      )}
+                      {caps.subscriptionId !== undefined && <div>Subscription #{caps.subscriptionId.toString()} only</div>}
+                      {caps.validUntil !== undefined && <div>Until {formatDate(caps.validUntil)}</div>}
+                      {!hasCaps && <div className="font-bold text-red-700">No spending caps</div>}
+                    </td>
+                    <td className="px-4 py-2">{record.created_at ? formatDate(record.created_at) : '-'}</td>
+                    <td className="px-4 py-2">
+                      {record.subscriptions.length > 0 ? (
+                        <>
+                          {record.subscriptions.map((subscription) => (
+                            <div key={subscription.id}>
+                              <div className="font-bold">{subscription.plan_name || 'Plan'}</div>
+                              <div className="text-xs text-gray-600">
+                                {subscription.project_name || shortenAddress(record.subscription_manager_address)} · {subscription.status.replace('_', ' ')}
+                              </div>
+                            </div>
+                          ))}
+                          {record.subscriptions.length > 1 && (
+                            <div
+                              className="mt-1 px-2 py-1 text-xs font-bold flex items-center space-x-1"
+                              style={{ backgroundColor: '#ff9f43', border: '2px solid #000000' }}
+                            >
+                              <AlertTriangle size={12} />
+                              <span>Shared by {record.subscriptions.length} subscriptions; revoking stops all of them</span>
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        <div
+                          className="px-2 py-1 text-xs font-bold flex items-center space-x-1"
+                          style={{ backgroundColor: '#feca57', border: '2px solid #000000' }}
+                        >
+                          <AlertTriangle size={12} />
+                          <span>No active subscription uses this</span>
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      <button
+                        onClick={() => handleRevoke(row)}
+                        disabled={revokingKey !== null}
+                        className="px-3 py-1 font-bold text-xs disabled:opacity-50"
+                        style={{ backgroundColor: '#ff6b6b', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+                      >
+                        {revokingKey === row.key ? 'Revoking...' : record.subscriptions.length > 1 ? `Revoke for ${record.subscriptions.length}` : 'Revoke'}
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default Permissions
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { isAddress, isAddressEqual } from 'viem'
+import { Bot, CheckCircle, AlertCircle } from 'lucide-react'
+import { apiService } from '../services/api'
+
+interface ProjectAgentSettingsProps {
+  projectId: string
+  agentAddress?: string | null
+  onSaved?: () => void
+}
+
+export const ProjectAgentSettings: React.FC<ProjectAgentSettingsProps> = ({
+  projectId,
+  agentAddress,
+  onSaved
+}) => {
+  const [agent, setAgent] = useState(agentAddress || '')
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null)
+
+  useEffect(() => {
+    setAgent(agentAddress || '')
+  }, [agentAddress])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const nextAgent = agent.trim()
+    if (!isAddress(nextAgent)) {
+      setMessage({ success: false, text: 'Agent address is not a valid address' })
+      return
+    }
+    if (agentAddress && isAddressEqual(nextAgent, agentAddress as `0x${string}`)) {
+      setMessage({ success: false, text: 'This is already the project agent' })
+      return
+    }
+
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const result = await apiService.updateProjectAgent({
+        project_id: projectId,
+        agent_address: nextAgent
+      })
+      if (result.success && result.data?.success !== false) {
+        setMessage({ success: true, text: 'Agent address saved' })
+        onSaved?.()
+      } else {
+        setMessage({ success: false, text: result.data?.error || result.error || 'Failed to save agent address' })
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-2xl font-bold text-black flex items-center space-x-2">
+        <Bot size={24} />
+        <span>Collection Agent</span>
+      </h2>
+      <p className="text-gray-600">
+        Subscribers delegate renewals to this address, and your collector signs with its key.
+        Subscribers who signed before a change stay delegated to the previous agent until they sign again,
+        so keep its key in the collector until then.
+      </p>
+
+      <form
+        onSubmit={handleSave}
+        className="p-6 space-y-4"
+        style={{
+          backgroundColor: '#ffffff',
+          border: '3px solid #000000',
+          boxShadow: '4px 4px 0px #000000'
+        }}
+      >
+        <div>
+          <label className="block text-lg font-bold text-black mb-2">Agent Address</label>
+          <input
+            type="text"
+            value={agent}
+            onChange={(e) => setAgent(e.target.value)}
+            placeholder="0x..."
+            required
+            className="w-full px-4 py-3 text-lg font-mono"
+            style={{
+              backgroundColor: '#ffffff',
+              border: '2px solid #000000',
+              boxShadow: '2px 2px 0px #000000'
+            }}
+          />
+        </div>
+        <motion.button
+          type="submit"
+          disabled={isSaving}
+          whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+          whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+          transition={{ duration: 0.1 }}
+          className="px-6 py-3 font-bold text-lg"
+          style={{
+            backgroundColor: '#95e1d3',
+            border: '2px solid #000000',
+            boxShadow: '2px 2px 0px #000000'
+          }}
+        >
+          {isSaving ? 'Saving...' : 'Save Agent'}
+        </motion.button>
+      </form>
+
+      {message && (
+        <div
+          className="p-4 flex items-start space-x-3"
+          style={{
+            backgroundColor: message.success ? '#d4edda' : '#f8d7da',
+            border: '2px solid #000000',
+            boxShadow: '2px 2px 0px #000000'
+          }}
+        >
+          {message.success ? (
+            <CheckCircle className="text-green-600 mt-1" size={20} />
+          ) : (
+            <AlertCircle className="text-red-600 mt-1" size={20} />
+          )}
+          <p className="font-bold text-black">{message.text}</p>
+        </div>
+      )}
+    </div>
+  )
+}
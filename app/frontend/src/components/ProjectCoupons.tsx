@@ -0,0 +1,365 @@
+import { useCallback, useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Ticket, Plus, RefreshCw, CheckCircle, AlertCircle, XCircle } from 'lucide-react'
+import { apiService, type Coupon, type CouponDiscountType } from '../services/api'
+import { useSmartAccount } from '../hooks/useSmartAccount'
+import { useSmartAccountContractWriter } from '../hooks/useSmartAccountContractWriter'
+
+interface ProjectCouponsProps {
+  projectId: string
+  subscriptionManagerAddress?: string
+  tokenSymbol?: string
+}
+
+const emptyForm = {
+  code: '',
+  discountType: 'percent' as CouponDiscountType,
+  discountValue: 10,
+  durationCharges: 0,
+  maxRedemptions: 0,
+  expiresOn: ''
+}
+
+const formatDiscount = (coupon: Coupon, tokenSymbol?: string) =>
+  coupon.discount_type === 'percent'
+    ? `${coupon.discount_value}% off`
+    : `${coupon.discount_value} ${tokenSymbol || 'tokens'} off`
+
+const formatDuration = (durationCharges: number) => {
+  if (!durationCharges) return 'Every charge'
+  return durationCharges === 1 ? 'First charge' : `First ${durationCharges} charges`
+}
+
+export const ProjectCoupons: React.FC<ProjectCouponsProps> = ({ projectId, subscriptionManagerAddress, tokenSymbol }) => {
+  const { smartAccountResult } = useSmartAccount()
+  const { createCouponWithSmartAccount, deactivateCouponWithSmartAccount } = useSmartAccountContractWriter()
+  const [coupons, setCoupons] = useState<Coupon[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [showForm, setShowForm] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [formData, setFormData] = useState(emptyForm)
+  const [deactivatingId, setDeactivatingId] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null)
+
+  const loadCoupons = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const result = await apiService.getProjectCoupons(projectId)
+      if (result.success && result.data?.data) {
+        setCoupons(result.data.data.coupons || [])
+      } else {
+        console.error('Failed to load coupons:', result.error)
+      }
+    } catch (err) {
+      console.error('Error loading coupons:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    loadCoupons()
+  }, [loadCoupons])
+
+  const handleCreateCoupon = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const smartAccount = smartAccountResult?.smartAccount
+    if (!subscriptionManagerAddress || !smartAccount) {
+      setMessage({ success: false, text: 'Missing smart account or project contract configuration' })
+      return
+    }
+
+    const code = formData.code.trim().toUpperCase()
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const txHash = await createCouponWithSmartAccount(smartAccount, subscriptionManagerAddress as `0x${string}`, {
+        code,
+        discountType: formData.discountType,
+        discountValue: formData.discountValue,
+        durationCharges: formData.durationCharges,
+        maxRedemptions: formData.maxRedemptions,
+        // The code stays valid through the end of the chosen day
+        expiresAt: formData.expiresOn ? Math.floor(new Date(`${formData.expiresOn}T23:59:59`).getTime() / 1000) : 0
+      })
+
+      const result = await apiService.createCoupon({ project_id: projectId, code, tx_hash: txHash })
+      if (result.success && result.data?.success !== false) {
+        setMessage({ success: true, text: `${code} is ready to use at checkout` })
+        setFormData(emptyForm)
+        setShowForm(false)
+        await loadCoupons()
+      } else {
+        setMessage({ success: false, text: result.data?.error || result.error || 'Failed to create coupon' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'An error occurred while creating the coupon' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDeactivate = async (coupon: Coupon) => {
+    const smartAccount = smartAccountResult?.smartAccount
+    if (!subscriptionManagerAddress || !smartAccount) {
+      setMessage({ success: false, text: 'Missing smart account or project contract configuration' })
+      return
+    }
+
+    setDeactivatingId(coupon.id)
+    setMessage(null)
+    try {
+      const txHash = await deactivateCouponWithSmartAccount(
+        smartAccount,
+        subscriptionManagerAddress as `0x${string}`,
+        coupon.contract_coupon_id
+      )
+      const result = await apiService.deactivateCoupon({ project_id: projectId, coupon_id: coupon.id, tx_hash: txHash })
+      if (result.success && result.data?.success !== false) {
+        setMessage({ success: true, text: `${coupon.code} deactivated` })
+        await loadCoupons()
+      } else {
+        setMessage({ success: false, text: result.data?.error || result.error || 'Failed to deactivate coupon' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'An error occurred while deactivating the coupon' })
+    } finally {
+      setDeactivatingId(null)
+    }
+  }
+
+  const inputStyle = {
+    backgroundColor: '#ffffff',
+    border: '2px solid #000000',
+    boxShadow: '2px 2px 0px #000000'
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-black flex items-center space-x-2">
+          <Ticket size={24} />
+          <span>Promo Codes</span>
+        </h2>
+        <div className="flex space-x-3">
+          <motion.button
+            onClick={loadCoupons}
+            disabled={isLoading}
+            whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+            whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+            transition={{ duration: 0.1 }}
+            className="p-3"
+            style={{
+              backgroundColor: '#feca57',
+              border: '3px solid #000000',
+              boxShadow: '2px 2px 0px #000000'
+            }}
+          >
+            <RefreshCw size={18} className={isLoading ? 'animate-spin' : ''} />
+          </motion.button>
+          <motion.button
+            onClick={() => setShowForm(!showForm)}
+            whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+            whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+            transition={{ duration: 0.1 }}
+            className="px-4 py-2 font-bold flex items-center space-x-2"
+            style={{
+              backgroundColor: '#95e1d3',
+              border: '3px solid #000000',
+              boxShadow: '2px 2px 0px #000000'
+            }}
+          >
+            <Plus size={18} />
+            <span>Add Code</span>
+          </motion.button>
+        </div>
+      </div>
+
+      {showForm && (
+        <motion.form
+          onSubmit={handleCreateCoupon}
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="p-6 space-y-4"
+          style={{
+            backgroundColor: '#ffffff',
+            border: '3px solid #000000',
+            boxShadow: '4px 4px 0px #000000'
+          }}
+        >
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <label className="block text-lg font-bold text-black mb-2">Code</label>
+              <input
+                type="text"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                required
+                pattern="[A-Za-z0-9_\-]{3,32}"
+                title="3-32 letters, numbers, dashes or underscores"
+                className="w-full px-4 py-3 text-lg font-medium uppercase"
+                style={inputStyle}
+                placeholder="LAUNCH20"
+              />
+            </div>
+            <div>
+              <label className="block text-lg font-bold text-black mb-2">Discount</label>
+              <div className="flex space-x-3">
+                <input
+                  type="number"
+                  min={0.01}
+                  max={formData.discountType === 'percent' ? 100 : undefined}
+                  step={0.01}
+                  value={formData.discountValue}
+                  onChange={(e) => setFormData({ ...formData, discountValue: Number(e.target.value) })}
+                  required
+                  className="w-full px-4 py-3 text-lg font-medium"
+                  style={inputStyle}
+                />
+                <select
+                  value={formData.discountType}
+                  onChange={(e) => setFormData({ ...formData, discountType: e.target.value as CouponDiscountType })}
+                  className="px-4 py-3 text-lg font-medium"
+                  style={inputStyle}
+                >
+                  <option value="percent">%</option>
+                  <option value="fixed">{tokenSymbol || 'Token'}</option>
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-lg font-bold text-black mb-2">Discounted Charges</label>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={formData.durationCharges}
+                onChange={(e) => setFormData({ ...formData, durationCharges: Number(e.target.value) })}
+                required
+                className="w-full px-4 py-3 text-lg font-medium"
+                style={inputStyle}
+              />
+              <p className="text-sm text-gray-600 mt-2">0 keeps the discount on every renewal.</p>
+            </div>
+            <div>
+              <label className="block text-lg font-bold text-black mb-2">Max Redemptions</label>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={formData.maxRedemptions}
+                onChange={(e) => setFormData({ ...formData, maxRedemptions: Number(e.target.value) })}
+                required
+                className="w-full px-4 py-3 text-lg font-medium"
+                style={inputStyle}
+              />
+              <p className="text-sm text-gray-600 mt-2">0 for unlimited.</p>
+            </div>
+            <div>
+              <label className="block text-lg font-bold text-black mb-2">Expires On</label>
+              <input
+                type="date"
+                value={formData.expiresOn}
+                onChange={(e) => setFormData({ ...formData, expiresOn: e.target.value })}
+                className="w-full px-4 py-3 text-lg font-medium"
+                style={inputStyle}
+              />
+              <p className="text-sm text-gray-600 mt-2">Leave empty for no expiry.</p>
+            </div>
+          </div>
+          <motion.button
+            type="submit"
+            disabled={isSaving}
+            whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+            whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+            transition={{ duration: 0.1 }}
+            className="px-6 py-3 font-bold text-lg"
+            style={{
+              backgroundColor: '#95e1d3',
+              border: '2px solid #000000',
+              boxShadow: '2px 2px 0px #000000'
+            }}
+          >
+            {isSaving ? 'Creating...' : 'Create Code'}
+          </motion.button>
+        </motion.form>
+      )}
+
+      {message && (
+        <div
+          className="p-4 flex items-start space-x-3"
+          style={{
+            backgroundColor: message.success ? '#d4edda' : '#f8d7da',
+            border: '2px solid #000000',
+            boxShadow: '2px 2px 0px #000000'
+          }}
+        >
+          {message.success ? (
+            <CheckCircle className="text-green-600 mt-1" size={20} />
+          ) : (
+            <AlertCircle className="text-red-600 mt-1" size={20} />
+          )}
+          <p className="font-bold text-black">{message.text}</p>
+        </div>
+      )}
+
+      {coupons.length === 0 ? (
+        <div className="text-center py-8">
+          <h3 className="text-xl font-bold text-gray-600 mb-2">No promo codes yet</h3>
+          <p className="text-gray-500">Add a code to offer discounts at checkout</p>
+        </div>
+      ) : (
+        <div
+          className="overflow-x-auto"
+          style={{ backgroundColor: '#ffffff', border: '3px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+        >
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b-2 border-black" style={{ backgroundColor: '#f8f9fa' }}>
+                <th className="px-4 py-2 font-bold">Code</th>
+                <th className="px-4 py-2 font-bold">Discount</th>
+                <th className="px-4 py-2 font-bold">Applies To</th>
+                <th className="px-4 py-2 font-bold">Redeemed</th>
+                <th className="px-4 py-2 font-bold">Expires</th>
+                <th className="px-4 py-2 font-bold"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {coupons.map((coupon) => (
+                <tr key={coupon.id} className="border-b border-gray-200">
+                  <td className="px-4 py-2 font-bold">{coupon.code}</td>
+                  <td className="px-4 py-2">{formatDiscount(coupon, tokenSymbol)}</td>
+                  <td className="px-4 py-2">{formatDuration(coupon.duration_charges)}</td>
+                  <td className="px-4 py-2">
+                    {coupon.redemption_count || 0}
+                    {coupon.max_redemptions ? ` / ${coupon.max_redemptions}` : ''}
+                  </td>
+                  <td className="px-4 py-2">
+                    {coupon.expires_at ? new Date(coupon.expires_at * 1000).toLocaleDateString() : 'Never'}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {coupon.is_active ? (
+                      <button
+                        onClick={() => handleDeactivate(coupon)}
+                        disabled={deactivatingId === coupon.id}
+                        className="px-3 py-1 font-bold text-xs flex items-center space-x-1 ml-auto"
+                        style={{ backgroundColor: '#ff6b6b', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+                      >
+                        <XCircle size={12} />
+                        <span>{deactivatingId === coupon.id ? 'Deactivating...' : 'Deactivate'}</span>
+                      </button>
+                    ) : (
+                      <span className="px-2 py-1 font-bold text-xs uppercase" style={{ backgroundColor: '#e9ecef', border: '2px solid #000000' }}>
+                        Inactive
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { AlertTriangle, CheckCircle, AlertCircle } from 'lucide-react'
+import { apiService } from '../services/api'
+
+interface ProjectDunningSettingsProps {
+  projectId: string
+  gracePeriodSeconds?: number
+  retryIntervalSeconds?: number
+  onSaved?: () => void
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60
+const SECONDS_PER_HOUR = 60 * 60
+
+// Matches the worker defaults for projects that never changed their settings
+const DEFAULT_GRACE_PERIOD_SECONDS = 3 * SECONDS_PER_DAY
+const DEFAULT_RETRY_INTERVAL_SECONDS = SECONDS_PER_DAY
+
+export const ProjectDunningSettings: React.FC<ProjectDunningSettingsProps> = ({
+  projectId,
+  gracePeriodSeconds = DEFAULT_GRACE_PERIOD_SECONDS,
+  retryIntervalSeconds = DEFAULT_RETRY_INTERVAL_SECONDS,
+  onSaved
+}) => {
+  const [graceDays, setGraceDays] = useState(gracePeriodSeconds / SECONDS_PER_DAY)
+  const [retryHours, setRetryHours] = useState(retryIntervalSeconds / SECONDS_PER_HOUR)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null)
+
+  useEffect(() => {
+    setGraceDays(gracePeriodSeconds / SECONDS_PER_DAY)
+    setRetryHours(retryIntervalSeconds / SECONDS_PER_HOUR)
+  }, [gracePeriodSeconds, retryIntervalSeconds])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const result = await apiService.updateProjectDunning({
+        project_id: projectId,
+        grace_period_seconds: Math.round(graceDays * SECONDS_PER_DAY),
+        retry_interval_seconds: Math.round(retryHours * SECONDS_PER_HOUR)
+      })
+      if (result.success && result.data?.success !== false) {
+        setMessage({ success: true, text: 'Failed payment settings saved' })
+        onSaved?.()
+      } else {
+        setMessage({ success: false, text: result.data?.error || result.error || 'Failed to save settings' })
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const attemptsWithinGrace = retryHours > 0 ? Math.floor((graceDays * 24) / retryHours) + 1 : 1
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-2xl font-bold text-black flex items-center space-x-2">
+        <AlertTriangle size={24} />
+        <span>Failed Payments</span>
+      </h2>
+      <p className="text-gray-600">
+        When a renewal fails, the subscription becomes past due and keeps access while the collector retries it.
+        Once the grace period runs out it expires.
+      </p>
+
+      <form
+        onSubmit={handleSave}
+        className="p-6 space-y-4"
+        style={{
+          backgroundColor: '#ffffff',
+          border: '3px solid #000000',
+          boxShadow: '4px 4px 0px #000000'
+        }}
+      >
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <label className="block text-lg font-bold text-black mb-2">Grace Period (days)</label>
+            <input
+              type="number"
+              min={0}
+              max={30}
+              step={0.5}
+              value={graceDays}
+              onChange={(e) => setGraceDays(Number(e.target.value))}
+              required
+              className="w-full px-4 py-3 text-lg font-medium"
+              style={{
+                backgroundColor: '#ffffff',
+                border: '2px solid #000000',
+                boxShadow: '2px 2px 0px #000000'
+              }}
+            />
+          </div>
+          <div>
+            <label className="block text-lg font-bold text-black mb-2">Retry Every (hours)</label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={retryHours}
+              onChange={(e) => setRetryHours(Number(e.target.value))}
+              required
+              className="w-full px-4 py-3 text-lg font-medium"
+              style={{
+                backgroundColor: '#ffffff',
+                border: '2px solid #000000',
+                boxShadow: '2px 2px 0px #000000'
+              }}
+            />
+          </div>
+        </div>
+        <p className="text-sm text-gray-700">
+          Up to {attemptsWithinGrace} attempt{attemptsWithinGrace === 1 ? '' : 's'} before a subscription expires.
+        </p>
+        <motion.button
+          type="submit"
+          disabled={isSaving}
+          whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+          whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+          transition={{ duration: 0.1 }}
+          className="px-6 py-3 font-bold text-lg"
+          style={{
+            backgroundColor: '#95e1d3',
+            border: '2px solid #000000',
+            boxShadow: '2px 2px 0px #000000'
+          }}
+        >
+          {isSaving ? 'Saving...' : 'Save Settings'}
+        </motion.button>
+      </form>
+
+      {message && (
+        <div
+          className="p-4 flex items-start space-x-3"
+          style={{
+            backgroundColor: message.success ? '#d4edda' : '#f8d7da',
+            border: '2px solid #000000',
+            boxShadow: '2px 2px 0px #000000'
+          }}
+        >
+          {message.success ? (
+            <CheckCircle className="text-green-600 mt-1" size={20} />
+          ) : (
+            <AlertCircle className="text-red-600 mt-1" size={20} />
+          )}
+          <p className="font-bold text-black">{message.text}</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,578 @@
+import { Fragment, useCallback, useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Users, Search, RefreshCw, ChevronLeft, ChevronRight, X, ExternalLink, RotateCcw, FileText, CheckCircle, AlertCircle } from 'lucide-react'
+import {
+  apiService,
+  type ProjectSubscriber,
+  type ProjectSubscriberPage,
+  type SubscriberPayment,
+  type SubscriberStatus
+} from '../services/api'
+import { useSmartAccount } from '../hooks/useSmartAccount'
+import { downloadInvoice } from '../utils/invoices'
+import { useSmartAccountContractWriter } from '../hooks/useSmartAccountContractWriter'
+
+interface ProjectSubscribersProps {
+  projectId: string
+  subscriptionManagerAddress?: string
+}
+
+const PAGE_SIZE = 25
+
+const statusColors: Record<SubscriberStatus, string> = {
+  active: '#4ecdc4',
+  paused: '#feca57',
+  past_due: '#ff9f43',
+  expired: '#dddddd',
+  cancelled: '#ff6b6b'
+}
+
+const statusLabels: Record<SubscriberStatus, string> = {
+  active: 'Active',
+  paused: 'Paused',
+  past_due: 'Past due',
+  expired: 'Expired',
+  cancelled: 'Cancelled'
+}
+
+const formatDate = (seconds?: number | null) => {
+  if (!seconds) return '-'
+  return new Date(seconds * 1000).toLocaleDateString()
+}
+
+const formatAmount = (amount: number, tokenSymbol?: string | null) =>
+  `${amount.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${tokenSymbol || ''}`.trim()
+
+const shortenAddress = (address?: string | null) =>
+  address ? `${address.slice(0, 6)}...${address.slice(-4)}` : '-'
+
+export const ProjectSubscribers: React.FC<ProjectSubscribersProps> = ({ projectId, subscriptionManagerAddress }) => {
+  const { smartAccountResult } = useSmartAccount()
+  const { refundPaymentWithSmartAccount } = useSmartAccountContractWriter()
+  const [result, setResult] = useState<ProjectSubscriberPage | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [status, setStatus] = useState<SubscriberStatus | ''>('')
+  const [planId, setPlanId] = useState('')
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [page, setPage] = useState(1)
+  const [selected, setSelected] = useState<ProjectSubscriber | null>(null)
+  const [payments, setPayments] = useState<SubscriberPayment[]>([])
+  const [isLoadingPayments, setIsLoadingPayments] = useState(false)
+  const [refundForm, setRefundForm] = useState<{ paymentId: string; amount: string; reason: string } | null>(null)
+  const [isRefunding, setIsRefunding] = useState(false)
+  const [downloadingInvoiceId, setDownloadingInvoiceId] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null)
+
+  const loadSubscribers = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await apiService.getProjectSubscribers(projectId, {
+        status: status || undefined,
+        plan_id: planId || undefined,
+        search: search || undefined,
+        page,
+        page_size: PAGE_SIZE
+      })
+      if (response.success && response.data) {
+        setResult(response.data)
+      } else {
+        setError(response.error || 'Failed to load subscribers')
+      }
+    } catch (err) {
+      console.error('Error loading subscribers:', err)
+      setError('Failed to load subscribers')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [projectId, status, planId, search, page])
+
+  useEffect(() => {
+    loadSubscribers()
+  }, [loadSubscribers])
+
+  // Wait for the user to stop typing before querying
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim())
+      setPage(1)
+    }, 400)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  const openSubscriber = async (subscriber: ProjectSubscriber, keepMessage = false) => {
+    setSelected(subscriber)
+    setPayments([])
+    setRefundForm(null)
+    if (!keepMessage) setMessage(null)
+    setIsLoadingPayments(true)
+    try {
+      const response = await apiService.getProjectSubscriber(projectId, subscriber.id)
+      if (response.success && response.data) {
+        setSelected(response.data.subscriber)
+        setPayments(response.data.payments)
+      } else {
+        console.error('Failed to load payment history:', response.error)
+      }
+    } finally {
+      setIsLoadingPayments(false)
+    }
+  }
+
+  const handleDownloadInvoice = async (payment: SubscriberPayment) => {
+    setDownloadingInvoiceId(payment.id)
+    setMessage(null)
+    try {
+      const downloadError = await downloadInvoice(payment.id, payment.invoice_number)
+      if (downloadError) {
+        setMessage({ success: false, text: downloadError })
+      }
+    } finally {
+      setDownloadingInvoiceId(null)
+    }
+  }
+
+  const handleRefund = async (e: React.FormEvent, payment: SubscriberPayment) => {
+    e.preventDefault()
+    if (!selected || !refundForm) return
+
+    const smartAccount = smartAccountResult?.smartAccount
+    if (!subscriptionManagerAddress || !smartAccount || selected.contract_subscription_id === null) {
+      setMessage({ success: false, text: 'Missing smart account or project contract configuration' })
+      return
+    }
+
+    const amount = Number(refundForm.amount)
+    const remaining = payment.amount - payment.refunded_amount
+    if (!(amount > 0) || amount > remaining) {
+      setMessage({ success: false, text: `Enter an amount between 0 and ${formatAmount(remaining, payment.token_symbol)}` })
+      return
+    }
+
+    setIsRefunding(true)
+    setMessage(null)
+    try {
+      const txHash = await refundPaymentWithSmartAccount(smartAccount, subscriptionManagerAddress as `0x${string}`, {
+        contractSubscriptionId: selected.contract_subscription_id,
+        amount,
+        paymentTxHash: payment.tx_hash as `0x${string}`
+      })
+
+      const response = await apiService.recordRefund({
+        project_id: projectId,
+        payment_id: payment.id,
+        tx_hash: txHash,
+        reason: refundForm.reason.trim() || undefined
+      })
+      if (response.success && response.data?.success !== false) {
+        setMessage({ success: true, text: `Refunded ${formatAmount(amount, payment.token_symbol)}` })
+      } else {
+        setMessage({
+          success: false,
+          text: `Refund sent (${txHash}) but not recorded: ${response.data?.error || response.error || 'unknown error'}`
+        })
+      }
+      await Promise.all([openSubscriber(selected, true), loadSubscribers()])
+    } catch {
+      setMessage({ success: false, text: 'An error occurred while sending the refund' })
+    } finally {
+      setIsRefunding(false)
+    }
+  }
+
+  const statusCounts = result?.status_counts || {}
+  const totalCount = Object.values(statusCounts).reduce((sum, count) => sum + (count || 0), 0)
+  const pagination = result?.pagination
+
+  const filterButton = (value: SubscriberStatus | '', label: string, count: number) => (
+    <button
+      key={value || 'all'}
+      onClick={() => {
+        setStatus(value)
+        setPage(1)
+      }}
+      className="px-3 py-2 font-bold text-sm"
+      style={{
+        backgroundColor: status === value ? (value ? statusColors[value] : '#836EF9') : '#ffffff',
+        border: '2px solid #000000',
+        boxShadow: status === value ? 'none' : '2px 2px 0px #000000'
+      }}
+    >
+      {label} ({count})
+    </button>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-black flex items-center space-x-2">
+          <Users size={24} />
+          <span>Subscribers</span>
+        </h2>
+        <motion.button
+          onClick={loadSubscribers}
+          disabled={isLoading}
+          whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+          whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+          transition={{ duration: 0.1 }}
+          className="p-3"
+          style={{
+            backgroundColor: '#feca57',
+            border: '3px solid #000000',
+            boxShadow: '2px 2px 0px #000000'
+          }}
+        >
+          <RefreshCw size={18} className={isLoading ? 'animate-spin' : ''} />
+        </motion.button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {filterButton('', 'All', totalCount)}
+        {(Object.keys(statusLabels) as SubscriberStatus[]).map((value) =>
+          filterButton(value, statusLabels[value], statusCounts[value] || 0)
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <div
+          className="flex items-center flex-1 min-w-[240px] px-3"
+          style={{ backgroundColor: '#ffffff', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+        >
+          <Search size={18} className="text-gray-500" />
+          <input
+            type="text"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="w-full px-3 py-2 font-medium outline-none"
+            placeholder="Search by email or smart account"
+          />
+        </div>
+        <select
+          value={planId}
+          onChange={(e) => {
+            setPlanId(e.target.value)
+            setPage(1)
+          }}
+          className="px-3 py-2 font-bold"
+          style={{ backgroundColor: '#ffffff', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+        >
+          <option value="">All plans</option>
+          {(result?.plans || []).map((plan) => (
+            <option key={plan.id} value={plan.id}>
+              {plan.name}{plan.is_active ? '' : ' (archived)'}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div
+          className="p-4 font-bold text-black"
+          style={{ backgroundColor: '#f8d7da', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+        >
+          {error}
+        </div>
+      )}
+
+      {result && result.subscribers.length === 0 ? (
+        <div className="text-center py-8">
+          <h3 className="text-xl font-bold text-gray-600 mb-2">No subscribers found</h3>
+          <p className="text-gray-500">
+            {search || status || planId ? 'Try a different filter or search' : 'Subscribers show up here after their first payment'}
+          </p>
+        </div>
+      ) : (
+        <div
+          className="overflow-x-auto"
+          style={{ backgroundColor: '#ffffff', border: '3px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+        >
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b-2 border-black" style={{ backgroundColor: '#f8f9fa' }}>
+                <th className="px-4 py-2 font-bold">Subscriber</th>
+                <th className="px-4 py-2 font-bold">Smart Account</th>
+                <th className="px-4 py-2 font-bold">Plan</th>
+                <th className="px-4 py-2 font-bold">Status</th>
+                <th className="px-4 py-2 font-bold">Next Payment</th>
+                <th className="px-4 py-2 font-bold">Lifetime Value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(result?.subscribers || []).map((subscriber) => (
+                <tr
+                  key={subscriber.id}
+                  onClick={() => openSubscriber(subscriber)}
+                  className="border-b border-gray-200 cursor-pointer hover:bg-yellow-50"
+                  style={selected?.id === subscriber.id ? { backgroundColor: '#fffae6' } : undefined}
+                >
+                  <td className="px-4 py-2 font-medium break-all">{subscriber.user_email || '-'}</td>
+                  <td className="px-4 py-2 font-mono" title={subscriber.user_smart_account || undefined}>
+                    {shortenAddress(subscriber.user_smart_account)}
+                  </td>
+                  <td className="px-4 py-2">{subscriber.plan_name || '-'}</td>
+                  <td className="px-4 py-2">
+                    <span
+                      className="px-2 py-1 font-bold text-xs uppercase"
+                      style={{ backgroundColor: statusColors[subscriber.status], border: '2px solid #000000' }}
+                    >
+                      {statusLabels[subscriber.status]}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2">
+                    {subscriber.status === 'active' || subscriber.status === 'past_due'
+                      ? formatDate(subscriber.next_payment_date)
+                      : '-'}
+                  </td>
+                  <td className="px-4 py-2 font-bold">
+                    {formatAmount(subscriber.lifetime_value, subscriber.token_symbol)}
+                    <span className="text-gray-500 font-normal"> · {subscriber.payments_count} payments</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {pagination && pagination.total_pages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-bold text-gray-600">
+            Page {pagination.page} of {pagination.total_pages} · {pagination.total} subscribers
+          </p>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1 || isLoading}
+              className="p-2 disabled:opacity-40"
+              style={{ backgroundColor: '#ffffff', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pagination.total_pages || isLoading}
+              className="p-2 disabled:opacity-40"
+              style={{ backgroundColor: '#ffffff', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+            >
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {selected && (
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="p-6 space-y-4"
+          style={{ backgroundColor: '#fffae6', border: '3px solid #000000', boxShadow: '4px 4px 0px #000000' }}
+        >
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <h3 className="text-xl font-bold text-black break-all">{selected.user_email || 'Unknown subscriber'}</h3>
+              <p className="text-sm text-gray-600 font-mono break-all">{selected.user_smart_account || '-'}</p>
+            </div>
+            <button
+              onClick={() => setSelected(null)}
+              className="p-2"
+              style={{ backgroundColor: '#ffffff', border: '2px solid #000000' }}
+              title="Close"
+            >
+              <X size={16} />
+            </button>
+          </div>
+
+          <div className="grid gap-3 grid-cols-2 md:grid-cols-4 text-sm">
+            <div>
+              <p className="text-gray-600 font-bold">Plan</p>
+              <p className="font-bold text-black">{selected.plan_name || '-'}</p>
+            </div>
+            <div>
+              <p className="text-gray-600 font-bold">Subscribed</p>
+              <p className="font-bold text-black">{formatDate(selected.start_date)}</p>
+            </div>
+            <div>
+              <p className="text-gray-600 font-bold">
+                {selected.cancelled_at ? 'Cancelled' : selected.status === 'past_due' ? 'Grace ends' : 'Next payment'}
+              </p>
+              <p className="font-bold text-black">
+                {formatDate(selected.cancelled_at || (selected.status === 'past_due' ? selected.grace_ends_at : selected.next_payment_date))}
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-600 font-bold">Lifetime value</p>
+              <p className="font-bold text-black">{formatAmount(selected.lifetime_value, selected.token_symbol)}</p>
+              {selected.refunded_amount > 0 && (
+                <p className="text-xs text-gray-600">after {formatAmount(selected.refunded_amount, selected.token_symbol)} refunded</p>
+              )}
+            </div>
+          </div>
+
+          {message && (
+            <div
+              className="p-3 flex items-start space-x-3"
+              style={{
+                backgroundColor: message.success ? '#d4edda' : '#f8d7da',
+                border: '2px solid #000000'
+              }}
+            >
+              {message.success ? (
+                <CheckCircle className="text-green-600 mt-0.5" size={18} />
+              ) : (
+                <AlertCircle className="text-red-600 mt-0.5" size={18} />
+              )}
+              <p className="font-bold text-black text-sm break-all">{message.text}</p>
+            </div>
+          )}
+
+          {isLoadingPayments ? (
+            <p className="font-bold text-gray-600">Loading payment history...</p>
+          ) : payments.length === 0 ? (
+            <p className="font-bold text-gray-600">No payments recorded</p>
+          ) : (
+            <div className="overflow-x-auto" style={{ backgroundColor: '#ffffff', border: '2px solid #000000' }}>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b-2 border-black" style={{ backgroundColor: '#f8f9fa' }}>
+                    <th className="px-4 py-2 font-bold">Date</th>
+                    <th className="px-4 py-2 font-bold">Type</th>
+                    <th className="px-4 py-2 font-bold">Amount</th>
+                    <th className="px-4 py-2 font-bold">Transaction</th>
+                    <th className="px-4 py-2 font-bold">Invoice</th>
+                    <th className="px-4 py-2 font-bold">Refunds</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {payments.map((payment) => {
+                    const remaining = payment.amount - payment.refunded_amount
+                    return (
+                      <Fragment key={payment.id}>
+                        <tr className="border-b border-gray-200">
+                          <td className="px-4 py-2">{new Date(payment.payment_date * 1000).toLocaleString()}</td>
+                          <td className="px-4 py-2">
+                            {payment.payment_type === 'proration'
+                              ? `Plan change${payment.previous_plan_name ? ` from ${payment.previous_plan_name}` : ''}`
+                              : 'Renewal'}
+                            {payment.proration_credit ? ` (credit ${formatAmount(payment.proration_credit, payment.token_symbol)})` : ''}
+                          </td>
+                          <td className="px-4 py-2 font-bold">{formatAmount(payment.amount, payment.token_symbol)}</td>
+                          <td className="px-4 py-2">
+                            <a
+                              href={`https://testnet.monadexplorer.com/tx/${payment.tx_hash}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-mono underline inline-flex items-center space-x-1"
+                            >
+                              <span>{shortenAddress(payment.tx_hash)}</span>
+                              <ExternalLink size={12} />
+                            </a>
+                          </td>
+                          <td className="px-4 py-2">
+                            <button
+                              onClick={() => handleDownloadInvoice(payment)}
+                              disabled={downloadingInvoiceId === payment.id}
+                              className="px-3 py-1 font-bold text-xs flex items-center space-x-1 disabled:opacity-50"
+                              style={{ backgroundColor: '#95e1d3', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+                            >
+                              <FileText size={12} />
+                              <span>{downloadingInvoiceId === payment.id ? 'Preparing...' : payment.invoice_number || 'PDF'}</span>
+                            </button>
+                          </td>
+                          <td className="px-4 py-2">
+                            {payment.refunds.map((refund) => (
+                              <a
+                                key={refund.id}
+                                href={`https://testnet.monadexplorer.com/tx/${refund.tx_hash}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="block underline"
+                                title={refund.reason || undefined}
+                              >
+                                -{formatAmount(refund.amount, payment.token_symbol)} on {formatDate(refund.refunded_at)}
+                              </a>
+                            ))}
+                            {remaining > 0 && refundForm?.paymentId !== payment.id && (
+                              <button
+                                onClick={() => {
+                                  setMessage(null)
+                                  setRefundForm({ paymentId: payment.id, amount: String(remaining), reason: '' })
+                                }}
+                                className="mt-1 px-3 py-1 font-bold text-xs flex items-center space-x-1"
+                                style={{ backgroundColor: '#ff6b6b', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+                              >
+                                <RotateCcw size={12} />
+                                <span>Refund</span>
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                        {refundForm?.paymentId === payment.id && (
+                          <tr className="border-b border-gray-200" style={{ backgroundColor: '#fffae6' }}>
+                            <td colSpan={6} className="px-4 py-3">
+                              <form onSubmit={(e) => handleRefund(e, payment)} className="flex flex-wrap items-end gap-3">
+                                <div>
+                                  <label className="block text-xs font-bold text-black mb-1">
+                                    Amount (up to {formatAmount(remaining, payment.token_symbol)})
+                                  </label>
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    max={remaining}
+                                    step="any"
+                                    value={refundForm.amount}
+                                    onChange={(e) => setRefundForm({ ...refundForm, amount: e.target.value })}
+                                    required
+                                    className="px-3 py-2 font-medium w-40"
+                                    style={{ backgroundColor: '#ffffff', border: '2px solid #000000' }}
+                                  />
+                                </div>
+                                <div className="flex-1 min-w-[200px]">
+                                  <label className="block text-xs font-bold text-black mb-1">Reason (optional)</label>
+                                  <input
+                                    type="text"
+                                    value={refundForm.reason}
+                                    onChange={(e) => setRefundForm({ ...refundForm, reason: e.target.value })}
+                                    maxLength={500}
+                                    className="w-full px-3 py-2 font-medium"
+                                    style={{ backgroundColor: '#ffffff', border: '2px solid #000000' }}
+                                    placeholder="Charged after cancelling"
+                                  />
+                                </div>
+                                <button
+                                  type="submit"
+                                  disabled={isRefunding}
+                                  className="px-4 py-2 font-bold text-sm"
+                                  style={{ backgroundColor: '#ff6b6b', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+                                >
+                                  {isRefunding ? 'Refunding...' : 'Send Refund'}
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => setRefundForm(null)}
+                                  disabled={isRefunding}
+                                  className="px-4 py-2 font-bold text-sm"
+                                  style={{ backgroundColor: '#ffffff', border: '2px solid #000000' }}
+                                >
+                                  Cancel
+                                </button>
+                              </form>
+                              <p className="text-xs text-gray-600 mt-2">
+                                Sent from the project's SubscriptionManager balance to the subscriber's smart account. The subscription stays as it is.
+                              </p>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </motion.div>
+      )}
+    </div>
+  )
+}
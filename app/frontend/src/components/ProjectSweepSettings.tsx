@@ -0,0 +1,294 @@
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { formatUnits, isAddress, parseUnits, zeroAddress } from 'viem'
+import { Repeat, CheckCircle, AlertCircle } from 'lucide-react'
+import { apiService, type SweepPolicy } from '../services/api'
+import { useSmartAccount } from '../hooks/useSmartAccount'
+import { useSmartAccountContractWriter } from '../hooks/useSmartAccountContractWriter'
+
+interface ProjectSweepSettingsProps {
+  projectId: string
+  subscriptionManagerAddress?: string
+  tokenAddress?: string
+  tokenSymbol?: string
+  tokenDecimals?: number | null
+  payoutAddress?: string | null
+  sweepPolicy?: SweepPolicy
+  sweepThreshold?: number | null
+  sweepIntervalSeconds?: number | null
+  lastSweptAt?: number | null
+  onSaved?: () => void
+}
+
+const SECONDS_PER_HOUR = 60 * 60
+
+const POLICY_LABELS: Record<SweepPolicy, string> = {
+  off: 'Off',
+  every_payment: 'After every payment',
+  threshold: 'When the balance reaches a threshold',
+  schedule: 'On a schedule'
+}
+
+export const ProjectSweepSettings: React.FC<ProjectSweepSettingsProps> = ({
+  projectId,
+  subscriptionManagerAddress,
+  tokenAddress,
+  tokenSymbol = 'USDC',
+  tokenDecimals,
+  payoutAddress,
+  sweepPolicy = 'off',
+  sweepThreshold,
+  sweepIntervalSeconds,
+  lastSweptAt,
+  onSaved
+}) => {
+  const { smartAccountResult } = useSmartAccount()
+  const { setPayoutAddressWithSmartAccount, getRefundReserve, setRefundReserveWithSmartAccount } = useSmartAccountContractWriter()
+  const decimals = tokenDecimals ?? 18
+  const [payout, setPayout] = useState(payoutAddress || '')
+  const [savedReserve, setSavedReserve] = useState<bigint | null>(null)
+  const [reserve, setReserve] = useState('')
+  const [policy, setPolicy] = useState<SweepPolicy>(sweepPolicy)
+  const [threshold, setThreshold] = useState(sweepThreshold ?? 100)
+  const [intervalHours, setIntervalHours] = useState((sweepIntervalSeconds ?? 24 * SECONDS_PER_HOUR) / SECONDS_PER_HOUR)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null)
+
+  useEffect(() => {
+    setPayout(payoutAddress || '')
+    setPolicy(sweepPolicy)
+    setThreshold(sweepThreshold ?? 100)
+    setIntervalHours((sweepIntervalSeconds ?? 24 * SECONDS_PER_HOUR) / SECONDS_PER_HOUR)
+  }, [payoutAddress, sweepPolicy, sweepThreshold, sweepIntervalSeconds])
+
+  useEffect(() => {
+    if (!subscriptionManagerAddress || !tokenAddress) return
+    let cancelled = false
+    getRefundReserve(subscriptionManagerAddress as `0x${string}`, tokenAddress as `0x${string}`)
+      .then((amount) => {
+        if (cancelled) return
+        setSavedReserve(amount)
+        setReserve(formatUnits(amount, decimals))
+      })
+      .catch((err) => console.error('Failed to load refund reserve:', err))
+    return () => {
+      cancelled = true
+    }
+    // getRefundReserve is recreated every render; reload only when the contract or token changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [subscriptionManagerAddress, tokenAddress, decimals])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const nextPayout = payout.trim()
+    if (nextPayout && !isAddress(nextPayout)) {
+      setMessage({ success: false, text: 'Payout address is not a valid address' })
+      return
+    }
+    if (policy !== 'off' && !nextPayout) {
+      setMessage({ success: false, text: 'Set a payout address before turning on automatic sweeps' })
+      return
+    }
+    let nextReserve: bigint | null = null
+    if (savedReserve !== null) {
+      try {
+        nextReserve = parseUnits(reserve.trim() || '0', decimals)
+      } catch {
+        setMessage({ success: false, text: 'Refund reserve is not a valid amount' })
+        return
+      }
+    }
+
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const payoutChanged = nextPayout.toLowerCase() !== (payoutAddress || '').toLowerCase()
+      const reserveChanged = nextReserve !== null && nextReserve !== savedReserve
+      let payoutTxHash: string | undefined
+      if (payoutChanged || reserveChanged) {
+        const smartAccount = smartAccountResult?.smartAccount
+        if (!subscriptionManagerAddress || !smartAccount) {
+          setMessage({ success: false, text: 'Missing smart account or project contract configuration' })
+          return
+        }
+        // Sweeps leave the reserve on the contract so refunds can still be paid out
+        if (reserveChanged && nextReserve !== null) {
+          await setRefundReserveWithSmartAccount(
+            smartAccount,
+            subscriptionManagerAddress as `0x${string}`,
+            tokenAddress as `0x${string}`,
+            nextReserve
+          )
+          setSavedReserve(nextReserve)
+        }
+        // The payout address lives on the contract so the collector can only ever sweep to it
+        if (payoutChanged) {
+          payoutTxHash = await setPayoutAddressWithSmartAccount(
+            smartAccount,
+            subscriptionManagerAddress as `0x${string}`,
+            (nextPayout || zeroAddress) as `0x${string}`
+          )
+        }
+      }
+
+      const result = await apiService.updateProjectSweep({
+        project_id: projectId,
+        sweep_policy: policy,
+        sweep_threshold: policy === 'threshold' ? threshold : null,
+        sweep_interval_seconds: policy === 'schedule' ? Math.round(intervalHours * SECONDS_PER_HOUR) : null,
+        payout_tx_hash: payoutTxHash
+      })
+      if (result.success && result.data?.success !== false) {
+        setMessage({ success: true, text: 'Sweep settings saved' })
+        onSaved?.()
+      } else {
+        setMessage({ success: false, text: result.data?.error || result.error || 'Failed to save sweep settings' })
+      }
+    } catch {
+      setMessage({ success: false, text: 'An error occurred while updating the sweep settings on-chain' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const inputStyle = {
+    backgroundColor: '#ffffff',
+    border: '2px solid #000000',
+    boxShadow: '2px 2px 0px #000000'
+  }
+
+  if (!subscriptionManagerAddress) {
+    return null
+  }
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-2xl font-bold text-black flex items-center space-x-2">
+        <Repeat size={24} />
+        <span>Automatic Sweeps</span>
+      </h2>
+      <p className="text-gray-600">
+        The payment collector moves revenue from the contract to your payout address, leaving the refund reserve behind. Sweeps show up in the treasury history.
+      </p>
+
+      <form
+        onSubmit={handleSave}
+        className="p-6 space-y-4"
+        style={{
+          backgroundColor: '#ffffff',
+          border: '3px solid #000000',
+          boxShadow: '4px 4px 0px #000000'
+        }}
+      >
+        <div className="grid gap-4 md:grid-cols-3">
+          <div>
+            <label className="block text-lg font-bold text-black mb-2">Payout address</label>
+            <input
+              type="text"
+              value={payout}
+              onChange={(e) => setPayout(e.target.value)}
+              className="w-full px-4 py-3 text-lg font-medium font-mono"
+              style={inputStyle}
+              placeholder="0x..."
+            />
+          </div>
+          <div>
+            <label className="block text-lg font-bold text-black mb-2">Sweep</label>
+            <select
+              value={policy}
+              onChange={(e) => setPolicy(e.target.value as SweepPolicy)}
+              className="w-full px-4 py-3 text-lg font-medium"
+              style={inputStyle}
+            >
+              {(Object.keys(POLICY_LABELS) as SweepPolicy[]).map((value) => (
+                <option key={value} value={value}>{POLICY_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+          {tokenAddress && savedReserve !== null && (
+            <div>
+              <label className="block text-lg font-bold text-black mb-2">Refund reserve ({tokenSymbol})</label>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={reserve}
+                onChange={(e) => setReserve(e.target.value)}
+                className="w-full px-4 py-3 text-lg font-medium"
+                style={inputStyle}
+              />
+            </div>
+          )}
+          {policy === 'threshold' && (
+            <div>
+              <label className="block text-lg font-bold text-black mb-2">Threshold ({tokenSymbol})</label>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={threshold}
+                onChange={(e) => setThreshold(Number(e.target.value))}
+                required
+                className="w-full px-4 py-3 text-lg font-medium"
+                style={inputStyle}
+              />
+            </div>
+          )}
+          {policy === 'schedule' && (
+            <div>
+              <label className="block text-lg font-bold text-black mb-2">Every (hours)</label>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={intervalHours}
+                onChange={(e) => setIntervalHours(Number(e.target.value))}
+                required
+                className="w-full px-4 py-3 text-lg font-medium"
+                style={inputStyle}
+              />
+            </div>
+          )}
+        </div>
+        {lastSweptAt && (
+          <p className="text-sm text-gray-700">
+            Last swept {new Date(lastSweptAt * 1000).toLocaleString()}
+          </p>
+        )}
+        <motion.button
+          type="submit"
+          disabled={isSaving}
+          whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+          whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+          transition={{ duration: 0.1 }}
+          className="px-6 py-3 font-bold text-lg"
+          style={{
+            backgroundColor: '#95e1d3',
+            border: '2px solid #000000',
+            boxShadow: '2px 2px 0px #000000'
+          }}
+        >
+          {isSaving ? 'Saving...' : 'Save Settings'}
+        </motion.button>
+      </form>
+
+      {message && (
+        <div
+          className="p-4 flex items-start space-x-3"
+          style={{
+            backgroundColor: message.success ? '#d4edda' : '#f8d7da',
+            border: '2px solid #000000',
+            boxShadow: '2px 2px 0px #000000'
+          }}
+        >
+          {message.success ? (
+            <CheckCircle className="text-green-600 mt-1" size={20} />
+          ) : (
+            <AlertCircle className="text-red-600 mt-1" size={20} />
+          )}
+          <p className="font-bold text-black break-all">{message.text}</p>
+        </div>
+      )}
+    </div>
+  )
+}
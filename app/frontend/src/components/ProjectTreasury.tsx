@@ -0,0 +1,361 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { motion } from 'framer-motion'
+import { createPublicClient, formatUnits, http, isAddress, parseUnits } from 'viem'
+import { Landmark, RefreshCw, ExternalLink, CheckCircle, AlertCircle } from 'lucide-react'
+import { monadTestnet } from '../config/chains'
+import { apiService, type RevenueWithdrawal } from '../services/api'
+import { useSmartAccount } from '../hooks/useSmartAccount'
+import { useSmartAccountContractWriter } from '../hooks/useSmartAccountContractWriter'
+
+interface ProjectTreasuryProps {
+  projectId: string
+  subscriptionManagerAddress?: string
+  // Every token the project's plans are priced in
+  tokens: { address: string; symbol: string }[]
+}
+
+interface TokenBalance {
+  address: `0x${string}`
+  symbol: string
+  decimals: number
+  balance: bigint
+}
+
+const ERC20_BALANCE_ABI = [
+  {
+    inputs: [{ name: 'account', type: 'address' }],
+    name: 'balanceOf',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function'
+  },
+  {
+    inputs: [],
+    name: 'decimals',
+    outputs: [{ name: '', type: 'uint8' }],
+    stateMutability: 'view',
+    type: 'function'
+  }
+] as const
+
+const formatBalance = (balance: TokenBalance) =>
+  Number(formatUnits(balance.balance, balance.decimals)).toLocaleString(undefined, { maximumFractionDigits: 6 })
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+export const ProjectTreasury: React.FC<ProjectTreasuryProps> = ({ projectId, subscriptionManagerAddress, tokens }) => {
+  const { smartAccountResult } = useSmartAccount()
+  const { withdrawRevenueWithSmartAccount } = useSmartAccountContractWriter()
+  const [balances, setBalances] = useState<TokenBalance[]>([])
+  const [withdrawals, setWithdrawals] = useState<RevenueWithdrawal[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [tokenAddress, setTokenAddress] = useState('')
+  const [amount, setAmount] = useState('')
+  const [withdrawAll, setWithdrawAll] = useState(false)
+  const [payoutAddress, setPayoutAddress] = useState('')
+  const [isWithdrawing, setIsWithdrawing] = useState(false)
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null)
+
+  const publicClient = useMemo(() => {
+    return createPublicClient({
+      chain: monadTestnet,
+      transport: http('https://monad-testnet.drpc.org')
+    })
+  }, [])
+
+  // Stable key so a new tokens array with the same contents doesn't refetch
+  const tokenKey = tokens.map((token) => `${token.address.toLowerCase()}:${token.symbol}`).join(',')
+
+  const loadTreasury = useCallback(async () => {
+    if (!subscriptionManagerAddress) return
+
+    setIsLoading(true)
+    try {
+      const tokenList = tokenKey ? tokenKey.split(',').map((entry) => entry.split(':')) : []
+      const [balanceResults, withdrawalsResult] = await Promise.all([
+        Promise.all(tokenList.map(async ([address, symbol]) => {
+          const [balance, decimals] = await Promise.all([
+            publicClient.readContract({
+              address: address as `0x${string}`,
+              abi: ERC20_BALANCE_ABI,
+              functionName: 'balanceOf',
+              args: [subscriptionManagerAddress as `0x${string}`]
+            }),
+            publicClient.readContract({ address: address as `0x${string}`, abi: ERC20_BALANCE_ABI, functionName: 'decimals' })
+          ])
+          return { address: address as `0x${string}`, symbol, decimals: Number(decimals), balance }
+        })),
+        apiService.getProjectWithdrawals(projectId)
+      ])
+
+      setBalances(balanceResults)
+      setTokenAddress((current) => current || balanceResults[0]?.address || '')
+      if (withdrawalsResult.success && withdrawalsResult.data?.data) {
+        setWithdrawals(withdrawalsResult.data.data.withdrawals || [])
+      } else {
+        console.error('Failed to load withdrawals:', withdrawalsResult.error)
+      }
+    } catch (err) {
+      console.error('Error loading treasury:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [projectId, subscriptionManagerAddress, tokenKey, publicClient])
+
+  useEffect(() => {
+    loadTreasury()
+  }, [loadTreasury])
+
+  const selectedBalance = balances.find((balance) => balance.address === tokenAddress)
+
+  const handleWithdraw = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const smartAccount = smartAccountResult?.smartAccount
+    if (!subscriptionManagerAddress || !smartAccount || !selectedBalance) {
+      setMessage({ success: false, text: 'Missing smart account or project contract configuration' })
+      return
+    }
+
+    const payout = payoutAddress.trim()
+    if (payout && !isAddress(payout)) {
+      setMessage({ success: false, text: 'Payout address is not a valid address' })
+      return
+    }
+
+    let rawAmount: bigint
+    try {
+      rawAmount = withdrawAll ? selectedBalance.balance : parseUnits(amount, selectedBalance.decimals)
+    } catch {
+      setMessage({ success: false, text: 'Enter a valid amount' })
+      return
+    }
+    if (rawAmount <= 0n || rawAmount > selectedBalance.balance) {
+      setMessage({ success: false, text: `Enter an amount up to ${formatBalance(selectedBalance)} ${selectedBalance.symbol}` })
+      return
+    }
+
+    setIsWithdrawing(true)
+    setMessage(null)
+    try {
+      const txHash = await withdrawRevenueWithSmartAccount(smartAccount, subscriptionManagerAddress as `0x${string}`, {
+        tokenAddress: selectedBalance.address,
+        amount: rawAmount,
+        payoutAddress: payout ? payout as `0x${string}` : undefined
+      })
+
+      const result = await apiService.recordWithdrawal({ project_id: projectId, tx_hash: txHash })
+      const withdrawn = `${formatUnits(rawAmount, selectedBalance.decimals)} ${selectedBalance.symbol}`
+      if (result.success && result.data?.success !== false) {
+        setMessage({ success: true, text: `Withdrew ${withdrawn} to ${payout ? shortenAddress(payout) : 'your smart account'}` })
+        setAmount('')
+        setWithdrawAll(false)
+      } else {
+        setMessage({
+          success: false,
+          text: `Withdrew ${withdrawn} (${txHash}) but it was not recorded: ${result.data?.error || result.error || 'unknown error'}`
+        })
+      }
+      await loadTreasury()
+    } catch {
+      setMessage({ success: false, text: 'An error occurred while withdrawing revenue' })
+    } finally {
+      setIsWithdrawing(false)
+    }
+  }
+
+  const inputStyle = {
+    backgroundColor: '#ffffff',
+    border: '2px solid #000000',
+    boxShadow: '2px 2px 0px #000000'
+  }
+
+  if (!subscriptionManagerAddress) {
+    return null
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-black flex items-center space-x-2">
+          <Landmark size={24} />
+          <span>Treasury</span>
+        </h2>
+        <motion.button
+          onClick={loadTreasury}
+          disabled={isLoading}
+          whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+          whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+          transition={{ duration: 0.1 }}
+          className="p-3"
+          style={{
+            backgroundColor: '#feca57',
+            border: '3px solid #000000',
+            boxShadow: '2px 2px 0px #000000'
+          }}
+        >
+          <RefreshCw size={18} className={isLoading ? 'animate-spin' : ''} />
+        </motion.button>
+      </div>
+      <p className="text-gray-600">
+        Revenue collected by the SubscriptionManager stays in the contract until you withdraw it.
+      </p>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        {balances.map((balance) => (
+          <div
+            key={balance.address}
+            className="p-4"
+            style={{ backgroundColor: '#4ecdc4', border: '3px solid #000000', boxShadow: '4px 4px 0px #000000' }}
+          >
+            <p className="text-sm font-bold text-black">{balance.symbol} balance</p>
+            <p className="text-2xl font-bold text-black">{formatBalance(balance)}</p>
+          </div>
+        ))}
+      </div>
+
+      <form
+        onSubmit={handleWithdraw}
+        className="p-6 space-y-4"
+        style={{ backgroundColor: '#ffffff', border: '3px solid #000000', boxShadow: '4px 4px 0px #000000' }}
+      >
+        <div className="grid gap-4 md:grid-cols-3">
+          <div>
+            <label className="block text-lg font-bold text-black mb-2">Token</label>
+            <select
+              value={tokenAddress}
+              onChange={(e) => {
+                setTokenAddress(e.target.value)
+                setWithdrawAll(false)
+              }}
+              className="w-full px-4 py-3 text-lg font-medium"
+              style={inputStyle}
+            >
+              {balances.map((balance) => (
+                <option key={balance.address} value={balance.address}>{balance.symbol}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-lg font-bold text-black mb-2">Amount</label>
+            <div className="flex space-x-2">
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={amount}
+                onChange={(e) => {
+                  setAmount(e.target.value)
+                  setWithdrawAll(false)
+                }}
+                required
+                className="w-full px-4 py-3 text-lg font-medium"
+                style={inputStyle}
+                placeholder="0.00"
+              />
+              <button
+                type="button"
+                onClick={() => {
+                  if (!selectedBalance) return
+                  setAmount(formatUnits(selectedBalance.balance, selectedBalance.decimals))
+                  setWithdrawAll(true)
+                }}
+                className="px-3 font-bold text-sm"
+                style={{ backgroundColor: withdrawAll ? '#836EF9' : '#ffffff', border: '2px solid #000000' }}
+              >
+                All
+              </button>
+            </div>
+          </div>
+          <div>
+            <label className="block text-lg font-bold text-black mb-2">Payout address</label>
+            <input
+              type="text"
+              value={payoutAddress}
+              onChange={(e) => setPayoutAddress(e.target.value)}
+              className="w-full px-4 py-3 text-lg font-medium font-mono"
+              style={inputStyle}
+              placeholder="Your smart account"
+            />
+          </div>
+        </div>
+        <motion.button
+          type="submit"
+          disabled={isWithdrawing || !selectedBalance || selectedBalance.balance === 0n}
+          whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+          whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+          transition={{ duration: 0.1 }}
+          className="px-6 py-3 font-bold text-lg disabled:opacity-50"
+          style={{
+            backgroundColor: '#95e1d3',
+            border: '2px solid #000000',
+            boxShadow: '2px 2px 0px #000000'
+          }}
+        >
+          {isWithdrawing ? 'Withdrawing...' : 'Withdraw'}
+        </motion.button>
+      </form>
+
+      {message && (
+        <div
+          className="p-4 flex items-start space-x-3"
+          style={{
+            backgroundColor: message.success ? '#d4edda' : '#f8d7da',
+            border: '2px solid #000000',
+            boxShadow: '2px 2px 0px #000000'
+          }}
+        >
+          {message.success ? (
+            <CheckCircle className="text-green-600 mt-1" size={20} />
+          ) : (
+            <AlertCircle className="text-red-600 mt-1" size={20} />
+          )}
+          <p className="font-bold text-black break-all">{message.text}</p>
+        </div>
+      )}
+
+      {withdrawals.length > 0 && (
+        <div
+          className="overflow-x-auto"
+          style={{ backgroundColor: '#ffffff', border: '3px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+        >
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b-2 border-black" style={{ backgroundColor: '#f8f9fa' }}>
+                <th className="px-4 py-2 font-bold">Date</th>
+                <th className="px-4 py-2 font-bold">Amount</th>
+                <th className="px-4 py-2 font-bold">Source</th>
+                <th className="px-4 py-2 font-bold">Recipient</th>
+                <th className="px-4 py-2 font-bold">Transaction</th>
+              </tr>
+            </thead>
+            <tbody>
+              {withdrawals.map((withdrawal) => (
+                <tr key={withdrawal.id} className="border-b border-gray-200">
+                  <td className="px-4 py-2">{new Date(withdrawal.withdrawn_at * 1000).toLocaleString()}</td>
+                  <td className="px-4 py-2 font-bold">
+                    {withdrawal.amount.toLocaleString(undefined, { maximumFractionDigits: 6 })} {withdrawal.token_symbol || ''}
+                  </td>
+                  <td className="px-4 py-2">{withdrawal.source === 'sweep' ? 'Automatic sweep' : 'Manual'}</td>
+                  <td className="px-4 py-2 font-mono" title={withdrawal.recipient_address}>
+                    {shortenAddress(withdrawal.recipient_address)}
+                  </td>
+                  <td className="px-4 py-2">
+                    <a
+                      href={`https://testnet.monadexplorer.com/tx/${withdrawal.tx_hash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono underline inline-flex items-center space-x-1"
+                    >
+                      <span>{shortenAddress(withdrawal.tx_hash)}</span>
+                      <ExternalLink size={12} />
+                    </a>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
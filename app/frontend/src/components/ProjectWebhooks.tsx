@@ -0,0 +1,358 @@
+import { useCallback, useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Webhook, Plus, Send, Trash2, RefreshCw, Copy, CheckCircle, AlertCircle } from 'lucide-react'
+import { apiService, type WebhookDelivery, type WebhookEndpoint } from '../services/api'
+
+interface ProjectWebhooksProps {
+  projectId: string
+}
+
+const deliveryStatusColors: Record<WebhookDelivery['status'], string> = {
+  pending: '#feca57',
+  sending: '#95e1d3',
+  succeeded: '#4ecdc4',
+  failed: '#ff6b6b'
+}
+
+const formatTimestamp = (seconds?: number | null) => {
+  if (!seconds) return '-'
+  return new Date(seconds * 1000).toLocaleString()
+}
+
+export const ProjectWebhooks: React.FC<ProjectWebhooksProps> = ({ projectId }) => {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([])
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [showForm, setShowForm] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [formData, setFormData] = useState({ url: '', description: '' })
+  const [newSecret, setNewSecret] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [testingId, setTestingId] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null)
+
+  const loadWebhooks = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const result = await apiService.getWebhookEndpoints(projectId)
+      if (result.success && result.data?.data) {
+        setEndpoints(result.data.data.endpoints || [])
+        setDeliveries(result.data.data.deliveries || [])
+      } else {
+        console.error('Failed to load webhooks:', result.error)
+      }
+    } catch (err) {
+      console.error('Error loading webhooks:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    loadWebhooks()
+  }, [loadWebhooks])
+
+  const handleCreateEndpoint = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const result = await apiService.createWebhookEndpoint({
+        project_id: projectId,
+        url: formData.url.trim(),
+        description: formData.description.trim()
+      })
+      const endpoint = result.data?.data?.endpoint
+      if (result.success && endpoint) {
+        setNewSecret(endpoint.secret || null)
+        setFormData({ url: '', description: '' })
+        setShowForm(false)
+        await loadWebhooks()
+      } else {
+        setMessage({ success: false, text: result.error || 'Failed to create webhook endpoint' })
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDeleteEndpoint = async (endpointId: string) => {
+    setMessage(null)
+    const result = await apiService.deleteWebhookEndpoint(endpointId)
+    if (result.success) {
+      await loadWebhooks()
+    } else {
+      setMessage({ success: false, text: result.error || 'Failed to delete webhook endpoint' })
+    }
+  }
+
+  const handleSendTest = async (endpointId: string) => {
+    setTestingId(endpointId)
+    setMessage(null)
+    try {
+      const result = await apiService.sendTestWebhook(endpointId)
+      const delivery = result.data?.data?.delivery
+      if (result.success && delivery) {
+        setMessage(delivery.status === 'succeeded'
+          ? { success: true, text: `Test event delivered (HTTP ${delivery.response_status})` }
+          : { success: false, text: `Test event failed: ${delivery.last_error || 'unknown error'}. It will be retried automatically.` })
+      } else {
+        setMessage({ success: false, text: result.error || 'Failed to send test event' })
+      }
+      await loadWebhooks()
+    } finally {
+      setTestingId(null)
+    }
+  }
+
+  const copySecret = async () => {
+    if (!newSecret) return
+    await navigator.clipboard.writeText(newSecret)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const endpointUrl = (endpointId?: string) => endpoints.find((endpoint) => endpoint.id === endpointId)?.url || endpointId || '-'
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-black flex items-center space-x-2">
+          <Webhook size={24} />
+          <span>Webhooks</span>
+        </h2>
+        <div className="flex space-x-3">
+          <motion.button
+            onClick={loadWebhooks}
+            disabled={isLoading}
+            whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+            whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+            transition={{ duration: 0.1 }}
+            className="p-3"
+            style={{
+              backgroundColor: '#feca57',
+              border: '3px solid #000000',
+              boxShadow: '2px 2px 0px #000000'
+            }}
+          >
+            <RefreshCw size={18} className={isLoading ? 'animate-spin' : ''} />
+          </motion.button>
+          <motion.button
+            onClick={() => setShowForm(!showForm)}
+            whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+            whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+            transition={{ duration: 0.1 }}
+            className="px-4 py-2 font-bold flex items-center space-x-2"
+            style={{
+              backgroundColor: '#95e1d3',
+              border: '3px solid #000000',
+              boxShadow: '2px 2px 0px #000000'
+            }}
+          >
+            <Plus size={18} />
+            <span>Add Endpoint</span>
+          </motion.button>
+        </div>
+      </div>
+
+      {showForm && (
+        <motion.form
+          onSubmit={handleCreateEndpoint}
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="p-6 space-y-4"
+          style={{
+            backgroundColor: '#ffffff',
+            border: '3px solid #000000',
+            boxShadow: '4px 4px 0px #000000'
+          }}
+        >
+          <div>
+            <label className="block text-lg font-bold text-black mb-2">Endpoint URL</label>
+            <input
+              type="url"
+              value={formData.url}
+              onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+              required
+              className="w-full px-4 py-3 text-lg font-medium"
+              style={{
+                backgroundColor: '#ffffff',
+                border: '2px solid #000000',
+                boxShadow: '2px 2px 0px #000000'
+              }}
+              placeholder="https://example.com/webhooks/autiv"
+            />
+          </div>
+          <div>
+            <label className="block text-lg font-bold text-black mb-2">Description</label>
+            <input
+              type="text"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              className="w-full px-4 py-3 text-lg font-medium"
+              style={{
+                backgroundColor: '#ffffff',
+                border: '2px solid #000000',
+                boxShadow: '2px 2px 0px #000000'
+              }}
+              placeholder="Production backend"
+            />
+          </div>
+          <motion.button
+            type="submit"
+            disabled={isSaving}
+            whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+            whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+            transition={{ duration: 0.1 }}
+            className="px-6 py-3 font-bold text-lg"
+            style={{
+              backgroundColor: '#95e1d3',
+              border: '2px solid #000000',
+              boxShadow: '2px 2px 0px #000000'
+            }}
+          >
+            {isSaving ? 'Saving...' : 'Save Endpoint'}
+          </motion.button>
+        </motion.form>
+      )}
+
+      {newSecret && (
+        <div
+          className="p-4 space-y-3"
+          style={{ backgroundColor: '#fffae6', border: '3px solid #000000', boxShadow: '4px 4px 0px #000000' }}
+        >
+          <p className="font-bold text-black">Signing secret (shown only once)</p>
+          <code className="block break-all text-sm bg-white border-2 border-black px-3 py-2">{newSecret}</code>
+          <p className="text-sm text-gray-700">
+            Each request carries an <code>X-Autiv-Signature: t=&lt;timestamp&gt;,v1=&lt;hex&gt;</code> header,
+            an HMAC-SHA256 of <code>&lt;timestamp&gt;.&lt;raw body&gt;</code> using this secret.
+          </p>
+          <div className="flex space-x-3">
+            <button
+              onClick={copySecret}
+              className="px-4 py-2 font-bold text-sm flex items-center space-x-2"
+              style={{ backgroundColor: copied ? '#4ecdc4' : '#836EF9', border: '2px solid #000000' }}
+            >
+              <Copy size={14} />
+              <span>{copied ? 'Copied!' : 'Copy Secret'}</span>
+            </button>
+            <button
+              onClick={() => setNewSecret(null)}
+              className="px-4 py-2 font-bold text-sm"
+              style={{ backgroundColor: '#ffffff', border: '2px solid #000000' }}
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <div
+          className="p-4 flex items-start space-x-3"
+          style={{
+            backgroundColor: message.success ? '#d4edda' : '#f8d7da',
+            border: '2px solid #000000',
+            boxShadow: '2px 2px 0px #000000'
+          }}
+        >
+          {message.success ? (
+            <CheckCircle className="text-green-600 mt-1" size={20} />
+          ) : (
+            <AlertCircle className="text-red-600 mt-1" size={20} />
+          )}
+          <p className="font-bold text-black">{message.text}</p>
+        </div>
+      )}
+
+      {endpoints.length === 0 ? (
+        <div className="text-center py-8">
+          <h3 className="text-xl font-bold text-gray-600 mb-2">No webhook endpoints yet</h3>
+          <p className="text-gray-500">Add an endpoint to receive subscription and payment events</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {endpoints.map((endpoint) => (
+            <div
+              key={endpoint.id}
+              className="p-4 flex flex-wrap items-center justify-between gap-3"
+              style={{
+                backgroundColor: '#ffffff',
+                border: '3px solid #000000',
+                boxShadow: '2px 2px 0px #000000'
+              }}
+            >
+              <div className="min-w-0">
+                <p className="font-bold text-black break-all">{endpoint.url}</p>
+                <p className="text-sm text-gray-500">
+                  {endpoint.description || 'No description'}
+                  {endpoint.secret_hint ? ` · secret …${endpoint.secret_hint}` : ''}
+                </p>
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => handleSendTest(endpoint.id)}
+                  disabled={testingId === endpoint.id}
+                  className="px-4 py-2 font-bold text-sm flex items-center space-x-2"
+                  style={{ backgroundColor: '#feca57', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+                >
+                  <Send size={14} />
+                  <span>{testingId === endpoint.id ? 'Sending...' : 'Send Test Event'}</span>
+                </button>
+                <button
+                  onClick={() => handleDeleteEndpoint(endpoint.id)}
+                  className="px-3 py-2"
+                  style={{ backgroundColor: '#ff6b6b', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+                  title="Delete endpoint"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {deliveries.length > 0 && (
+        <div
+          className="overflow-x-auto"
+          style={{ backgroundColor: '#ffffff', border: '3px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+        >
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b-2 border-black" style={{ backgroundColor: '#f8f9fa' }}>
+                <th className="px-4 py-2 font-bold">Event</th>
+                <th className="px-4 py-2 font-bold">Endpoint</th>
+                <th className="px-4 py-2 font-bold">Status</th>
+                <th className="px-4 py-2 font-bold">Attempts</th>
+                <th className="px-4 py-2 font-bold">Last Attempt</th>
+                <th className="px-4 py-2 font-bold">Next Retry</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map((delivery) => (
+                <tr key={delivery.id} className="border-b border-gray-200">
+                  <td className="px-4 py-2 font-medium">{delivery.event_type}</td>
+                  <td className="px-4 py-2 break-all">{endpointUrl(delivery.endpoint_id)}</td>
+                  <td className="px-4 py-2">
+                    <span
+                      className="px-2 py-1 font-bold text-xs uppercase"
+                      style={{ backgroundColor: deliveryStatusColors[delivery.status], border: '2px solid #000000' }}
+                      title={delivery.last_error || undefined}
+                    >
+                      {delivery.status}
+                      {delivery.response_status ? ` · ${delivery.response_status}` : ''}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2">{delivery.attempt_count}</td>
+                  <td className="px-4 py-2">{formatTimestamp(delivery.last_attempt_at)}</td>
+                  <td className="px-4 py-2">{delivery.status === 'pending' ? formatTimestamp(delivery.next_attempt_at) : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -5,7 +5,7 @@ import { Link, useNavigate } from 'react-router-dom'
 import { useNavigation } from '../hooks/useNavigation'
 import ConnectButton from './ConnectButton'
 
-type ActiveView = 'manage-subscription' | 'analytics' | 'developers'
+type ActiveView = 'manage-subscription' | 'billing-history' | 'permissions' | 'analytics' | 'developers'
 
 interface SidebarProps {
   activeView: ActiveView
@@ -131,6 +131,40 @@ const Sidebar = ({ activeView, isOpen, onToggle }: SidebarProps) => {
                   >
                     Manage Subscription
                   </motion.button>
+                  <motion.button
+                    onClick={() => navigateTo(routes.userHomeBillingHistory)}
+                    whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+                    whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+                    transition={{ duration: 0.1 }}
+                    className={`
+                      w-full text-left px-4 py-2 font-medium
+                      ${activeView === 'billing-history' ? 'bg-blue-100' : 'hover:bg-gray-50'}
+                    `}
+                    style={{
+                      backgroundColor: activeView === 'billing-history' ? '#4ecdc4' : 'transparent',
+                      border: '2px solid #000000',
+                      boxShadow: '2px 2px 0px #000000'
+                    }}
+                  >
+                    Billing History
+                  </motion.button>
+                  <motion.button
+                    onClick={() => navigateTo(routes.userHomePermissions)}
+                    whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+                    whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+                    transition={{ duration: 0.1 }}
+                    className={`
+                      w-full text-left px-4 py-2 font-medium
+                      ${activeView === 'permissions' ? 'bg-blue-100' : 'hover:bg-gray-50'}
+                    `}
+                    style={{
+                      backgroundColor: activeView === 'permissions' ? '#4ecdc4' : 'transparent',
+                      border: '2px solid #000000',
+                      boxShadow: '2px 2px 0px #000000'
+                    }}
+                  >
+                    Permissions
+                  </motion.button>
                   <motion.button
                     onClick={() => navigateTo(routes.userHomeAnalytics)}
                     whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
@@ -6,6 +6,14 @@ import { useAccount } from '../hooks/usePrivyWagmiAdapter'
 import { useAuth } from '../hooks/useAuth'
 import { apiService, type PaymentSessionStatus } from '../services/api'
 
+// create-payment-session rejects unusable promo codes with these error codes
+const couponErrorMessages: Record<string, string> = {
+  coupon_not_found: 'That promo code is not valid for this plan.',
+  coupon_inactive: 'That promo code is no longer active.',
+  coupon_expired: 'That promo code has expired.',
+  coupon_fully_redeemed: 'That promo code has reached its redemption limit.'
+}
+
 interface SubscriptionModalProps {
   plan: SubscriptionPlan | null
   isOpen: boolean
@@ -25,6 +33,7 @@ export const SubscriptionModal: React.FC<SubscriptionModalProps> = ({
   const [lastPolledAt, setLastPolledAt] = useState<number | null>(null)
   const [popupBlocked, setPopupBlocked] = useState(false)
   const [pendingPaymentUrl, setPendingPaymentUrl] = useState<string | null>(null)
+  const [couponCode, setCouponCode] = useState('')
   const contractConfigRef = useRef<{
     subscriptionManagerAddress: `0x${string}`
     tokenAddress: `0x${string}`
@@ -157,13 +166,16 @@ export const SubscriptionModal: React.FC<SubscriptionModalProps> = ({
           ? subscription.subscription_manager_address.toLowerCase() === contractConfigData.subscriptionManagerAddress.toLowerCase()
           : false
 
+        // Other plans in the same project (e.g. add-ons) can be held alongside this one
+        const planMatches = subscription.contract_plan_id === contractPlanId
+
         const blockingStatus = status === 'active' || status === 'expired'
 
-        return blockingStatus && (projectMatches || managerMatches)
+        return blockingStatus && planMatches && (projectMatches || managerMatches)
       })
 
       if (hasBlockingSubscription) {
-        setError('You already have a subscription for this project. Please cancel your existing subscription first.')
+        setError('You already have this plan. Please cancel your existing subscription first.')
         if (paymentWindowRef.current && !paymentWindowRef.current.closed) {
           paymentWindowRef.current.close()
         }
@@ -176,6 +188,7 @@ export const SubscriptionModal: React.FC<SubscriptionModalProps> = ({
       const response = await apiService.createPaymentSession({
         project_id: projectId,
         contract_plan_id: contractPlanId,
+        coupon_code: couponCode.trim() || undefined,
         metadata: {
           planName: plan.name,
           price: plan.price,
@@ -186,7 +199,8 @@ export const SubscriptionModal: React.FC<SubscriptionModalProps> = ({
       })
 
       if (!response.success || !response.data?.session) {
-        throw new Error(response.error || 'Failed to create payment session')
+        const errorCode = response.error || ''
+        throw new Error(couponErrorMessages[errorCode] || errorCode || 'Failed to create payment session')
       }
 
       const paymentId = response.data.session.paymentId
@@ -241,6 +255,7 @@ export const SubscriptionModal: React.FC<SubscriptionModalProps> = ({
     setIsSubscribing(false)
     setPopupBlocked(false)
     setPendingPaymentUrl(null)
+    setCouponCode('')
     onClose()
   }
 
@@ -382,6 +397,21 @@ export const SubscriptionModal: React.FC<SubscriptionModalProps> = ({
                 </ul>
               </div>
 
+              {isConnected && !paymentSessionId && (
+                <div className="mb-6">
+                  <label className="block text-sm font-black text-black mb-2">Promo Code</label>
+                  <input
+                    type="text"
+                    value={couponCode}
+                    onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                    disabled={isSubscribing}
+                    className="w-full px-3 py-2 font-bold uppercase"
+                    style={{ border: '2px solid #000000' }}
+                    placeholder="Optional"
+                  />
+                </div>
+              )}
+
               {popupBlocked && pendingPaymentUrl && paymentStatus !== 'paid' && paymentStatus !== 'expired' && (
                 <div className="mb-6 p-4 bg-yellow-100 border-2 border-black">
                   <p className="text-black font-semibold text-sm">
@@ -1,9 +1,11 @@
 import { useState } from 'react'
 import { motion } from 'framer-motion'
-import { Calendar, CreditCard, ExternalLink, X, Zap, Crown, Rocket } from 'lucide-react'
+import { Calendar, CreditCard, ExternalLink, X, Zap, Crown, Rocket, Gift, ArrowLeftRight, Pause, Play, FileText } from 'lucide-react'
 import type { UserSubscription } from '../types/subscription'
 import { useSmartAccountContractWriter } from '../hooks/useSmartAccountContractWriter'
 import { useSmartAccount } from '../hooks/useSmartAccount'
+import { apiService, type SubscriptionInvoice } from '../services/api'
+import { downloadInvoice } from '../utils/invoices'
 
 // Define a proper type for the smart account
 interface SmartAccount {
@@ -19,6 +21,7 @@ interface UserSubscriptionsProps {
   isLoading: boolean
   error: string | null
   onCancelSubscription?: (subscriptionId: string) => void
+  onChangePlan?: (subscription: UserSubscription) => void
   onRefresh?: () => void
 }
 
@@ -27,26 +30,92 @@ export const UserSubscriptions: React.FC<UserSubscriptionsProps> = ({
   isLoading, 
   error, 
   onCancelSubscription,
+  onChangePlan,
   onRefresh
   }) => {
-    const { cancelSubscriptionWithSmartAccount, isLoading: isCancellingSa } = useSmartAccountContractWriter()
+    const { cancelSubscriptionWithSmartAccount, setSubscriptionPausedWithSmartAccount, isLoading: isCancellingSa } = useSmartAccountContractWriter()
     const { createSmartAccount, smartAccountResult } = useSmartAccount()
     // refreshUserData removed - WebSocket handles automatic refresh
     const [cancellingId, setCancellingId] = useState<string | null>(null)
+    const [pausingId, setPausingId] = useState<string | null>(null)
+    const [invoicesFor, setInvoicesFor] = useState<string | null>(null)
+    const [invoices, setInvoices] = useState<SubscriptionInvoice[]>([])
+    const [isLoadingInvoices, setIsLoadingInvoices] = useState(false)
+    const [downloadingInvoiceId, setDownloadingInvoiceId] = useState<string | null>(null)
+    const [invoiceError, setInvoiceError] = useState<string | null>(null)
+
+  const getSmartAccount = async () => {
+    let sa: SmartAccount | null = smartAccountResult?.smartAccount as SmartAccount | null
+    if (!sa) {
+      const created = await createSmartAccount()
+      if (!created) {
+        throw new Error('Failed to create smart account')
+      }
+      sa = created.smartAccount as SmartAccount
+    }
+    return sa
+  }
+
+  const handleTogglePause = async (subscription: UserSubscription) => {
+    const paused = subscription.status !== 'paused'
+    setPausingId(subscription.id)
+    try {
+      const subscriptionManagerAddress = subscription.subscriptionManagerAddress as `0x${string}` | undefined
+      if (!subscriptionManagerAddress || subscription.contractSubscriptionId === undefined) {
+        throw new Error('Subscription is missing its manager address or on-chain subscription id')
+      }
+
+      const sa = await getSmartAccount()
+      await setSubscriptionPausedWithSmartAccount(sa, subscriptionManagerAddress, subscription.contractSubscriptionId, paused)
+      console.log(`Subscription ${paused ? 'paused' : 'resumed'} with Smart Account`)
+
+      if (onRefresh) onRefresh()
+    } catch (err) {
+      console.error(`Smart Account ${paused ? 'pause' : 'resume'} failed:`, err)
+    } finally {
+      setPausingId(null)
+    }
+  }
+
+  const toggleInvoices = async (subscription: UserSubscription) => {
+    if (invoicesFor === subscription.id || !subscription.recordId) {
+      setInvoicesFor(null)
+      return
+    }
+
+    setInvoicesFor(subscription.id)
+    setInvoices([])
+    setInvoiceError(null)
+    setIsLoadingInvoices(true)
+    try {
+      const result = await apiService.getSubscriptionInvoices(subscription.recordId)
+      if (result.success && result.data?.data) {
+        setInvoices(result.data.data.invoices)
+      } else {
+        setInvoiceError(result.data?.error || result.error || 'Failed to load invoices')
+      }
+    } finally {
+      setIsLoadingInvoices(false)
+    }
+  }
+
+  const handleDownloadInvoice = async (invoice: SubscriptionInvoice) => {
+    setDownloadingInvoiceId(invoice.payment_id)
+    setInvoiceError(null)
+    try {
+      const downloadError = await downloadInvoice(invoice.payment_id, invoice.invoice_number)
+      if (downloadError) setInvoiceError(downloadError)
+    } finally {
+      setDownloadingInvoiceId(null)
+    }
+  }
 
   const handleCancelSubscription = async (subscriptionToCancel: UserSubscription) => {
     const subscriptionId = subscriptionToCancel.id
     setCancellingId(subscriptionId)
     try {
       // Prefer cancelling via Smart Account (bundler + paymaster)
-      let sa: SmartAccount | null = smartAccountResult?.smartAccount as SmartAccount | null
-      if (!sa) {
-        const created = await createSmartAccount()
-        if (!created) {
-          throw new Error('Failed to create smart account')
-        }
-        sa = created.smartAccount as SmartAccount
-      }
+      const sa = await getSmartAccount()
 
       // Cancel subscription (delegation disabling is now handled inside cancelSubscriptionWithSmartAccount)
       const tokenAddress = subscriptionToCancel.tokenAddress as `0x${string}` | undefined
@@ -56,8 +125,13 @@ export const UserSubscriptions: React.FC<UserSubscriptionsProps> = ({
         throw new Error('Subscription is missing token or manager address')
       }
 
+      if (subscriptionToCancel.contractSubscriptionId === undefined) {
+        throw new Error('Subscription is missing its on-chain subscription id')
+      }
+
       await cancelSubscriptionWithSmartAccount(
         sa,
+        subscriptionToCancel.contractSubscriptionId,
         tokenAddress,
         subscriptionManagerAddress,
         subscriptionToCancel.planId
@@ -82,6 +156,10 @@ export const UserSubscriptions: React.FC<UserSubscriptionsProps> = ({
     switch (status) {
       case 'active':
         return { backgroundColor: '#96ceb4', border: '2px solid #000000', color: '#000000' }
+      case 'paused':
+        return { backgroundColor: '#a0c4ff', border: '2px solid #000000', color: '#000000' }
+      case 'past_due':
+        return { backgroundColor: '#ff9f43', border: '2px solid #000000', color: '#000000' }
       case 'expired':
         return { backgroundColor: '#ff6b6b', border: '2px solid #000000', color: '#ffffff' }
       case 'cancelled':
@@ -250,6 +328,7 @@ export const UserSubscriptions: React.FC<UserSubscriptionsProps> = ({
         const expired = isExpired(subscription.endDate)
         const timeRemaining = getTimeRemaining(subscription.endDate)
         const actualStatus = expired && subscription.status === 'active' && !subscription.isCancellationPending ? 'expired' : subscription.status
+        const isInTrial = Boolean(subscription.trialEndsAt && subscription.trialEndsAt > new Date())
 
         return (
           <motion.div
@@ -277,7 +356,9 @@ export const UserSubscriptions: React.FC<UserSubscriptionsProps> = ({
                     >
                       {subscription.isCancellationPending && actualStatus !== 'active'
                         ? 'Cancelling'
-                        : actualStatus.charAt(0).toUpperCase() + actualStatus.slice(1)}
+                        : actualStatus === 'past_due'
+                          ? 'Past Due'
+                          : actualStatus.charAt(0).toUpperCase() + actualStatus.slice(1)}
                     </span>
                     {subscription.isCancellationPending && subscription.cancellationEffectiveAt && (
                       <span className="md:ml-3 text-base md:text-lg font-bold text-gray-800">
@@ -289,6 +370,24 @@ export const UserSubscriptions: React.FC<UserSubscriptionsProps> = ({
                         {timeRemaining}
                       </span>
                     )}
+                    {actualStatus === 'past_due' && subscription.graceEndsAt && (
+                      <span className="md:ml-3 text-base md:text-lg font-bold text-gray-800">
+                        Access until {subscription.graceEndsAt.toLocaleString()}
+                      </span>
+                    )}
+                    {actualStatus === 'paused' && subscription.pausedAt && (
+                      <span className="md:ml-3 text-base md:text-lg font-bold text-gray-800">
+                        Paused since {formatDate(subscription.pausedAt)}
+                      </span>
+                    )}
+                    {isInTrial && actualStatus === 'active' && (
+                      <span
+                        className="md:ml-3 px-3 py-1 text-sm font-black w-fit"
+                        style={{ backgroundColor: '#feca57', border: '2px solid #000000' }}
+                      >
+                        Free Trial
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -297,7 +396,7 @@ export const UserSubscriptions: React.FC<UserSubscriptionsProps> = ({
                 <div className="text-2xl md:text-3xl font-black text-black">
                   {subscription.price} {subscription.tokenSymbol || 'USDC'}
                 </div>
-                {(subscription.status === 'active' && !subscription.isCancellationPending) || subscription.status === 'expired' ? (
+                {((subscription.status === 'active' || subscription.status === 'past_due' || subscription.status === 'paused') && !subscription.isCancellationPending) || subscription.status === 'expired' ? (
                   <button
                     onClick={() => handleCancelSubscription(subscription)}
                     disabled={isCancellingSa || cancellingId === subscription.id}
@@ -321,6 +420,55 @@ export const UserSubscriptions: React.FC<UserSubscriptionsProps> = ({
                     )}
                   </button>
                 ) : null}
+                {onChangePlan && (subscription.status === 'active' || subscription.status === 'past_due') && !subscription.isCancellationPending && subscription.projectId ? (
+                  <button
+                    onClick={() => onChangePlan(subscription)}
+                    className="mt-3 md:ml-2 retro-button px-4 py-2 font-black text-sm"
+                    style={{ backgroundColor: '#4ecdc4' }}
+                  >
+                    <ArrowLeftRight className="w-4 h-4 mr-1 inline" />
+                    Change Plan
+                  </button>
+                ) : null}
+                {(subscription.status === 'active' && !subscription.isCancellationPending && !expired) || subscription.status === 'paused' ? (
+                  <button
+                    onClick={() => handleTogglePause(subscription)}
+                    disabled={isCancellingSa || pausingId === subscription.id}
+                    className="mt-3 md:ml-2 retro-button px-4 py-2 font-black text-sm disabled:opacity-50"
+                    style={{ backgroundColor: '#a0c4ff' }}
+                  >
+                    {pausingId === subscription.id ? (
+                      <>
+                        <motion.div
+                          animate={{ rotate: 360 }}
+                          transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+                          className="w-4 h-4 border-2 border-black border-t-transparent rounded-full mr-1 inline"
+                        />
+                        {subscription.status === 'paused' ? 'Resuming...' : 'Pausing...'}
+                      </>
+                    ) : subscription.status === 'paused' ? (
+                      <>
+                        <Play className="w-4 h-4 mr-1 inline" />
+                        Resume
+                      </>
+                    ) : (
+                      <>
+                        <Pause className="w-4 h-4 mr-1 inline" />
+                        Pause
+                      </>
+                    )}
+                  </button>
+                ) : null}
+                {subscription.recordId ? (
+                  <button
+                    onClick={() => toggleInvoices(subscription)}
+                    className="mt-3 md:ml-2 retro-button px-4 py-2 font-black text-sm"
+                    style={{ backgroundColor: '#95e1d3' }}
+                  >
+                    <FileText className="w-4 h-4 mr-1 inline" />
+                    {invoicesFor === subscription.id ? 'Hide Invoices' : 'Invoices'}
+                  </button>
+                ) : null}
               </div>
             </div>
 
@@ -354,6 +502,26 @@ export const UserSubscriptions: React.FC<UserSubscriptionsProps> = ({
                 </div>
                 <div className="font-bold text-gray-800 text-sm md:text-base">{formatDate(subscription.endDate)}</div>
               </div>
+
+              {subscription.trialEndsAt && (
+                <div 
+                  className="p-3 md:p-4"
+                  style={{
+                    backgroundColor: '#f8f9fa',
+                    border: '2px solid #000000',
+                    boxShadow: '2px 2px 0px #000000'
+                  }}
+                >
+                  <div className="flex items-center mb-2">
+                    <Gift className="w-4 h-4 md:w-5 md:h-5 mr-2 text-black" />
+                    <span className="font-black text-black text-sm md:text-base">Trial Ends</span>
+                  </div>
+                  <div className="font-bold text-gray-800 text-sm md:text-base">{formatDate(subscription.trialEndsAt)}</div>
+                  {isInTrial && (
+                    <div className="text-xs md:text-sm text-gray-600 mt-1">First charge on this date</div>
+                  )}
+                </div>
+              )}
               
               {subscription.txHash && (
                 <div 
@@ -380,6 +548,66 @@ export const UserSubscriptions: React.FC<UserSubscriptionsProps> = ({
               )}
             </div>
 
+            {invoicesFor === subscription.id && (
+              <div
+                className="mt-6 p-4"
+                style={{
+                  backgroundColor: '#ffffff',
+                  border: '3px solid #000000',
+                  boxShadow: '3px 3px 0px #000000'
+                }}
+              >
+                <h4 className="font-black text-black mb-3">Invoices</h4>
+                {isLoadingInvoices ? (
+                  <p className="font-bold text-gray-600">Loading invoices...</p>
+                ) : invoices.length === 0 ? (
+                  <p className="font-bold text-gray-600">{invoiceError ? '' : 'No payments yet'}</p>
+                ) : (
+                  <div className="space-y-2">
+                    {invoices.map((invoice) => (
+                      <div
+                        key={invoice.payment_id}
+                        className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-2"
+                        style={{ backgroundColor: '#f8f9fa', border: '2px solid #000000' }}
+                      >
+                        <div className="text-sm">
+                          <span className="font-black text-black">{invoice.invoice_number || 'Receipt'}</span>
+                          <span className="font-bold text-gray-700">
+                            {' '}· {formatDate(new Date(invoice.payment_date * 1000))} · {invoice.amount} {invoice.token_symbol || 'USDC'}
+                            {invoice.payment_type === 'proration' ? ' · Plan change' : ''}
+                          </span>
+                        </div>
+                        <button
+                          onClick={() => handleDownloadInvoice(invoice)}
+                          disabled={downloadingInvoiceId === invoice.payment_id}
+                          className="retro-button px-3 py-1 font-black text-xs disabled:opacity-50"
+                          style={{ backgroundColor: '#feca57' }}
+                        >
+                          {downloadingInvoiceId === invoice.payment_id ? 'Preparing...' : 'Download PDF'}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {invoiceError && <p className="mt-2 font-bold text-red-600">{invoiceError}</p>}
+              </div>
+            )}
+
+            {actualStatus === 'paused' && (
+              <div 
+                className="mt-6 p-4"
+                style={{
+                  backgroundColor: '#e7f0ff',
+                  border: '3px solid #000000',
+                  boxShadow: '3px 3px 0px #000000'
+                }}
+              >
+                <p className="text-black font-bold">
+                  This subscription is paused. No payments will be collected until you resume it, and your billing date moves forward by the time spent paused.
+                </p>
+              </div>
+            )}
+
             {actualStatus === 'expired' && (
               <div 
                 className="mt-6 p-4"
@@ -6,6 +6,8 @@ export const routes = {
   userHome: '/home',
   userHomeManageSubscription: '/home/manage-subscription',
   userHomeAnalytics: '/home/analytics', 
+  userHomeBillingHistory: '/home/billing-history',
+  userHomePermissions: '/home/permissions',
   userHomeDevelopers: '/home/developers',
   developers: '/developers',
   projectDetail: '/projects'
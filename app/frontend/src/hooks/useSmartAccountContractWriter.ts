@@ -2,11 +2,12 @@ import { useEffect, useMemo, useState } from 'react'
 import { useAccount, useWalletClient } from 'wagmi'
 import { usePrivy } from '@privy-io/react-auth'
 import { createPublicClient, http } from 'viem'
-import { parseUnits, encodeFunctionData } from 'viem'
+import { parseUnits, encodeFunctionData, keccak256, toHex } from 'viem'
 import { createBundlerClient, createPaymasterClient } from 'viem/account-abstraction'
 import type { SmartAccount as ViemSmartAccount } from 'viem/account-abstraction'
 import type { Delegation } from '@metamask/delegation-toolkit'
 import { getDeleGatorEnvironment } from '@metamask/delegation-toolkit'
+import { getDelegationHashOffchain } from '@metamask/delegation-toolkit/utils'
 import { DelegationManager } from '@metamask/delegation-toolkit/contracts'
 import { monadTestnet } from 'viem/chains'
 import SubscriptionManagerABI from '../contracts/SubscriptionManager.json'
@@ -14,6 +15,7 @@ import SubscriptionManagerFactoryABI from '../contracts/SubscriptionManagerFacto
 import MockUSDCABI from '../contracts/MockUSDC.json'
 import { apiService } from '../services/api'
 import { getEventSignature, decodeEventData } from '../utils/contractEvents'
+import { buildRenewalDelegations, describeDelegationCaveats } from '../utils/delegations'
 
 const MONAD_TESTNET_CHAIN_ID = 10143
 const CONFIG_CACHE_KEY_PREFIX = 'autiv.contractConfig'
@@ -84,15 +86,6 @@ const removeCachedContractConfig = (projectId: string): void => {
   localStorage.removeItem(getContractConfigCacheKey(projectId))
 }
 
-// Define subscription data type - using string to avoid BigInt serialization issues
-interface SubscriptionData {
-  active: boolean;
-  planId: bigint | string;
-  startTime: bigint | string;
-  endTime: bigint | string;
-  [key: string]: unknown;
-}
-
 // Define a flexible smart account type that works with both MetaMask and Viem
 interface FlexibleSmartAccount {
   address: `0x${string}`;
@@ -252,7 +245,8 @@ export const useSmartAccountContractWriter = () => {
     planNames: string[],
     planPrices: bigint[],
     planPeriods: bigint[],
-    tokenAddresses: `0x${string}`[]
+    tokenAddresses: `0x${string}`[],
+    trialPeriods: bigint[]
   ) => {
     if (!smartAccount) {
       throw new Error('Smart Account not available')
@@ -266,15 +260,12 @@ export const useSmartAccountContractWriter = () => {
       planNames.length === 0 ||
       planNames.length !== planPrices.length ||
       planNames.length !== planPeriods.length ||
-      planNames.length !== tokenAddresses.length
+      planNames.length !== tokenAddresses.length ||
+      planNames.length !== trialPeriods.length
     ) {
       throw new Error('Plan arrays must be non-empty and of matching length')
     }
 
-    if (planNames.length > 5) {
-      throw new Error('A maximum of 5 plans can be created at once')
-    }
-
     setIsLoading(true)
     setError(null)
 
@@ -282,7 +273,7 @@ export const useSmartAccountContractWriter = () => {
       const calldata = encodeFunctionData({
         abi: SubscriptionManagerABI.abi,
         functionName: 'createPlansBatch',
-        args: [planNames, planPrices, planPeriods, tokenAddresses]
+        args: [planNames, planPrices, planPeriods, tokenAddresses, trialPeriods]
       })
 
       const userOperationHash: `0x${string}` = await bundlerClient.sendUserOperation({
@@ -350,13 +341,407 @@ export const useSmartAccountContractWriter = () => {
     }
   }
 
+  const setPlanArchivedWithSmartAccount = async (
+    smartAccount: FlexibleSmartAccount,
+    subscriptionManagerAddress: `0x${string}`,
+    contractPlanId: number,
+    archived: boolean
+  ) => {
+    if (!smartAccount) {
+      throw new Error('Smart Account not available')
+    }
+
+    if (!bundlerClient || !paymasterClient) {
+      throw new Error('Bundler or Paymaster client not available')
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const calldata = encodeFunctionData({
+        abi: SubscriptionManagerABI.abi,
+        functionName: archived ? 'archivePlan' : 'unarchivePlan',
+        args: [BigInt(contractPlanId)]
+      })
+
+      const userOperationHash: `0x${string}` = await bundlerClient.sendUserOperation({
+        account: smartAccount as unknown as ViemSmartAccount,
+        calls: [
+          {
+            to: subscriptionManagerAddress,
+            data: calldata
+          }
+        ],
+        paymaster: paymasterClient,
+        paymasterContext: {
+          policyId: import.meta.env.VITE_ALCHEMY_GAS_POLICY_ID,
+        },
+      })
+
+      const receipt = await bundlerClient.waitForUserOperationReceipt({ hash: userOperationHash })
+      return receipt?.receipt?.transactionHash || userOperationHash
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Plan archive update failed')
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Promo codes are hashed upper-cased so checkout can redeem them case-insensitively
+  const createCouponWithSmartAccount = async (
+    smartAccount: FlexibleSmartAccount,
+    subscriptionManagerAddress: `0x${string}`,
+    coupon: {
+      code: string
+      discountType: 'percent' | 'fixed'
+      discountValue: number
+      durationCharges: number
+      maxRedemptions: number
+      expiresAt: number
+    }
+  ) => {
+    if (!smartAccount) {
+      throw new Error('Smart Account not available')
+    }
+
+    if (!bundlerClient || !paymasterClient) {
+      throw new Error('Bundler or Paymaster client not available')
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const isPercent = coupon.discountType === 'percent'
+      const calldata = encodeFunctionData({
+        abi: SubscriptionManagerABI.abi,
+        functionName: 'createCoupon',
+        args: [
+          keccak256(toHex(coupon.code.trim().toUpperCase())),
+          isPercent,
+          // Percent discounts are sent in basis points
+          isPercent ? BigInt(Math.round(coupon.discountValue * 100)) : parseUnits(coupon.discountValue.toString(), 18),
+          BigInt(coupon.durationCharges),
+          BigInt(coupon.maxRedemptions),
+          BigInt(coupon.expiresAt)
+        ]
+      })
+
+      const userOperationHash: `0x${string}` = await bundlerClient.sendUserOperation({
+        account: smartAccount as unknown as ViemSmartAccount,
+        calls: [
+          {
+            to: subscriptionManagerAddress,
+            data: calldata
+          }
+        ],
+        paymaster: paymasterClient,
+        paymasterContext: {
+          policyId: import.meta.env.VITE_ALCHEMY_GAS_POLICY_ID,
+        },
+      })
+
+      const receipt = await bundlerClient.waitForUserOperationReceipt({ hash: userOperationHash })
+      return receipt?.receipt?.transactionHash || userOperationHash
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Coupon creation failed')
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const deactivateCouponWithSmartAccount = async (
+    smartAccount: FlexibleSmartAccount,
+    subscriptionManagerAddress: `0x${string}`,
+    contractCouponId: number
+  ) => {
+    if (!smartAccount) {
+      throw new Error('Smart Account not available')
+    }
+
+    if (!bundlerClient || !paymasterClient) {
+      throw new Error('Bundler or Paymaster client not available')
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const calldata = encodeFunctionData({
+        abi: SubscriptionManagerABI.abi,
+        functionName: 'deactivateCoupon',
+        args: [BigInt(contractCouponId)]
+      })
+
+      const userOperationHash: `0x${string}` = await bundlerClient.sendUserOperation({
+        account: smartAccount as unknown as ViemSmartAccount,
+        calls: [
+          {
+            to: subscriptionManagerAddress,
+            data: calldata
+          }
+        ],
+        paymaster: paymasterClient,
+        paymasterContext: {
+          policyId: import.meta.env.VITE_ALCHEMY_GAS_POLICY_ID,
+        },
+      })
+
+      const receipt = await bundlerClient.waitForUserOperationReceipt({ hash: userOperationHash })
+      return receipt?.receipt?.transactionHash || userOperationHash
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Coupon deactivation failed')
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // The contract caps refunds per payment, so the payment's id is read from the PaymentRecorded event of its
+  // transaction; the tx hash is passed through to the Refunded event so the refund can be matched to it
+  const refundPaymentWithSmartAccount = async (
+    smartAccount: FlexibleSmartAccount,
+    subscriptionManagerAddress: `0x${string}`,
+    refund: {
+      contractSubscriptionId: number
+      amount: number
+      paymentTxHash: `0x${string}`
+    }
+  ) => {
+    if (!smartAccount) {
+      throw new Error('Smart Account not available')
+    }
+
+    if (!bundlerClient || !paymasterClient) {
+      throw new Error('Bundler or Paymaster client not available')
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const paymentReceipt = await publicClient.getTransactionReceipt({ hash: refund.paymentTxHash })
+      const paymentRecordedTopic = getEventSignature('PaymentRecorded(uint256,uint256,uint256)')
+      const paymentLog = paymentReceipt.logs.find((log) =>
+        log.address.toLowerCase() === subscriptionManagerAddress.toLowerCase()
+        && log.topics[0]?.toLowerCase() === paymentRecordedTopic
+        && log.topics[2] !== undefined
+        && BigInt(log.topics[2]) === BigInt(refund.contractSubscriptionId)
+      )
+      if (!paymentLog?.topics[1]) {
+        throw new Error('No on-chain payment record found for this payment')
+      }
+
+      const calldata = encodeFunctionData({
+        abi: SubscriptionManagerABI.abi,
+        functionName: 'refund',
+        args: [
+          BigInt(paymentLog.topics[1]),
+          parseUnits(refund.amount.toString(), 18),
+          refund.paymentTxHash
+        ]
+      })
+
+      const userOperationHash: `0x${string}` = await bundlerClient.sendUserOperation({
+        account: smartAccount as unknown as ViemSmartAccount,
+        calls: [
+          {
+            to: subscriptionManagerAddress,
+            data: calldata
+          }
+        ],
+        paymaster: paymasterClient,
+        paymasterContext: {
+          policyId: import.meta.env.VITE_ALCHEMY_GAS_POLICY_ID,
+        },
+      })
+
+      const receipt = await bundlerClient.waitForUserOperationReceipt({ hash: userOperationHash })
+      return receipt?.receipt?.transactionHash || userOperationHash
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Refund failed')
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Amounts are raw token units so "withdraw all" can send the exact balance
+  const withdrawRevenueWithSmartAccount = async (
+    smartAccount: FlexibleSmartAccount,
+    subscriptionManagerAddress: `0x${string}`,
+    withdrawal: {
+      tokenAddress: `0x${string}`
+      amount: bigint
+      payoutAddress?: `0x${string}`
+    }
+  ) => {
+    if (!smartAccount) {
+      throw new Error('Smart Account not available')
+    }
+
+    if (!bundlerClient || !paymasterClient) {
+      throw new Error('Bundler or Paymaster client not available')
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const calldata = withdrawal.payoutAddress
+        ? encodeFunctionData({
+          abi: SubscriptionManagerABI.abi,
+          functionName: 'withdrawRevenueTo',
+          args: [withdrawal.tokenAddress, withdrawal.amount, withdrawal.payoutAddress]
+        })
+        : encodeFunctionData({
+          abi: SubscriptionManagerABI.abi,
+          functionName: 'withdrawRevenue',
+          args: [withdrawal.tokenAddress, withdrawal.amount]
+        })
+
+      const userOperationHash: `0x${string}` = await bundlerClient.sendUserOperation({
+        account: smartAccount as unknown as ViemSmartAccount,
+        calls: [
+          {
+            to: subscriptionManagerAddress,
+            data: calldata
+          }
+        ],
+        paymaster: paymasterClient,
+        paymasterContext: {
+          policyId: import.meta.env.VITE_ALCHEMY_GAS_POLICY_ID,
+        },
+      })
+
+      const receipt = await bundlerClient.waitForUserOperationReceipt({ hash: userOperationHash })
+      return receipt?.receipt?.transactionHash || userOperationHash
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Withdrawal failed')
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const setPayoutAddressWithSmartAccount = async (
+    smartAccount: FlexibleSmartAccount,
+    subscriptionManagerAddress: `0x${string}`,
+    payoutAddress: `0x${string}`
+  ) => {
+    if (!smartAccount) {
+      throw new Error('Smart Account not available')
+    }
+
+    if (!bundlerClient || !paymasterClient) {
+      throw new Error('Bundler or Paymaster client not available')
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const calldata = encodeFunctionData({
+        abi: SubscriptionManagerABI.abi,
+        functionName: 'setPayoutAddress',
+        args: [payoutAddress]
+      })
+
+      const userOperationHash: `0x${string}` = await bundlerClient.sendUserOperation({
+        account: smartAccount as unknown as ViemSmartAccount,
+        calls: [
+          {
+            to: subscriptionManagerAddress,
+            data: calldata
+          }
+        ],
+        paymaster: paymasterClient,
+        paymasterContext: {
+          policyId: import.meta.env.VITE_ALCHEMY_GAS_POLICY_ID,
+        },
+      })
+
+      const receipt = await bundlerClient.waitForUserOperationReceipt({ hash: userOperationHash })
+      return receipt?.receipt?.transactionHash || userOperationHash
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set payout address')
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const getRefundReserve = async (
+    subscriptionManagerAddress: `0x${string}`,
+    tokenAddress: `0x${string}`
+  ) => {
+    return await publicClient.readContract({
+      address: subscriptionManagerAddress,
+      abi: SubscriptionManagerABI.abi,
+      functionName: 'refundReserve',
+      args: [tokenAddress],
+    }) as bigint
+  }
+
+  const setRefundReserveWithSmartAccount = async (
+    smartAccount: FlexibleSmartAccount,
+    subscriptionManagerAddress: `0x${string}`,
+    tokenAddress: `0x${string}`,
+    amount: bigint
+  ) => {
+    if (!smartAccount) {
+      throw new Error('Smart Account not available')
+    }
+
+    if (!bundlerClient || !paymasterClient) {
+      throw new Error('Bundler or Paymaster client not available')
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const calldata = encodeFunctionData({
+        abi: SubscriptionManagerABI.abi,
+        functionName: 'setRefundReserve',
+        args: [tokenAddress, amount]
+      })
+
+      const userOperationHash: `0x${string}` = await bundlerClient.sendUserOperation({
+        account: smartAccount as unknown as ViemSmartAccount,
+        calls: [
+          {
+            to: subscriptionManagerAddress,
+            data: calldata
+          }
+        ],
+        paymaster: paymasterClient,
+        paymasterContext: {
+          policyId: import.meta.env.VITE_ALCHEMY_GAS_POLICY_ID,
+        },
+      })
+
+      const receipt = await bundlerClient.waitForUserOperationReceipt({ hash: userOperationHash })
+      return receipt?.receipt?.transactionHash || userOperationHash
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set refund reserve')
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   const deploySubscriptionManager = async (
     smartAccount: FlexibleSmartAccount,
     ownerAddress: `0x${string}`,
     planNames: string[],
     planPrices: bigint[],
     planPeriods: bigint[],
-    planTokens: `0x${string}`[]
+    planTokens: `0x${string}`[],
+    planTrialPeriods: bigint[]
   ) => {
     if (!smartAccount) {
       throw new Error('Smart Account not available')
@@ -378,7 +763,7 @@ export const useSmartAccountContractWriter = () => {
       const calldata = encodeFunctionData({
         abi: SubscriptionManagerFactoryABI.abi,
         functionName: 'createSubscriptionManager',
-        args: [ownerAddress, planNames, planPrices, planPeriods, planTokens]
+        args: [ownerAddress, planNames, planPrices, planPeriods, planTokens, planTrialPeriods]
       })
 
       const userOperationHash: `0x${string}` = await bundlerClient.sendUserOperation({
@@ -431,30 +816,22 @@ export const useSmartAccountContractWriter = () => {
       // Convert price to wei (18 decimals for USDC)
       const priceInWei = parseUnits(planPrice.toString(), 18)
 
-      // --- Parallelized reads ---
-      const [smartAccountBalance, existingSubscription] = await Promise.all([
-        publicClient.readContract({
-          address: resolvedTokenAddress,
-          abi: [
-            {
-              constant: true,
-              inputs: [{ internalType: 'address', name: 'account', type: 'address' }],
-              name: 'balanceOf',
-              outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-              stateMutability: 'view',
-              type: 'function',
-            },
-          ],
-          functionName: 'balanceOf',
-          args: [smartAccount.address as `0x${string}`],
-        }),
-        publicClient.readContract({
-          address: resolvedSubscriptionManagerAddress,
-          abi: SubscriptionManagerABI.abi,
-          functionName: 'getUserSubscription',
-          args: [smartAccount.address as `0x${string}`],
-        }),
-      ])
+      // Existing subscriptions are left alone: a smart account can hold several at once (e.g. add-ons)
+      const smartAccountBalance = await publicClient.readContract({
+        address: resolvedTokenAddress,
+        abi: [
+          {
+            constant: true,
+            inputs: [{ internalType: 'address', name: 'account', type: 'address' }],
+            name: 'balanceOf',
+            outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+            stateMutability: 'view',
+            type: 'function',
+          },
+        ],
+        functionName: 'balanceOf',
+        args: [smartAccount.address as `0x${string}`],
+      })
       
       if (Number(smartAccountBalance) < Number(priceInWei)) {
         throw new Error(`Smart Account needs ${planPrice} USDC but only has ${Number(smartAccountBalance) / 1e18} USDC`)
@@ -481,17 +858,8 @@ export const useSmartAccountContractWriter = () => {
         args: [resolvedSubscriptionManagerAddress, priceInWei],
       })
       calls.push({ to: resolvedTokenAddress, data: approveCalldata })
-      // 2) Optional cancel
-      if (existingSubscription && typeof existingSubscription === 'object' && 'active' in existingSubscription && (existingSubscription as SubscriptionData).active) {
-        const cancelCallData = encodeFunctionData({
-          abi: SubscriptionManagerABI.abi,
-          functionName: 'cancelSubscription',
-          args: [],
-        })
-        calls.push({ to: resolvedSubscriptionManagerAddress, data: cancelCallData })
-      }
 
-      // 3) Subscribe with payment
+      // 2) Subscribe with payment
       const subscribeCalldata = encodeFunctionData({
         abi: SubscriptionManagerABI.abi,
         functionName: 'subscribeWithPayment',
@@ -645,6 +1013,94 @@ export const useSmartAccountContractWriter = () => {
     return null
   }
 
+  // Renewals are signed as an approve and a processPayment delegation, and both have to be disabled
+  const extractDelegationsForDisable = (value: unknown): StoredDelegation[] => {
+    if (value && typeof value === 'object') {
+      const record = value as Record<string, unknown>
+      const signedPair = [record.signedApproveDelegation, record.signedProcessPaymentDelegation]
+        .map(extractDelegationForDisable)
+        .filter((entry): entry is StoredDelegation => entry !== null)
+      if (signedPair.length > 0) {
+        return signedPair
+      }
+    }
+
+    const single = extractDelegationForDisable(value)
+    return single ? [single] : []
+  }
+
+  const toDisableableDelegation = (delegation: StoredDelegation) => ({
+    delegate: delegation.delegate,
+    delegator: delegation.delegator,
+    authority: delegation.authority,
+    caveats: normalizeCaveats(delegation.caveats),
+    salt: delegation.salt,
+    signature: delegation.signature
+  })
+
+  // A delegation can be disabled from anywhere, so the DelegationManager is the source of truth
+  const isDelegationDisabled = async (delegation: StoredDelegation) => {
+    const environment = getDeleGatorEnvironment(MONAD_TESTNET_CHAIN_ID)
+    if (!environment) {
+      throw new Error('Delegation environment not found for Monad Testnet')
+    }
+
+    return DelegationManager.read.disabledDelegations({
+      client: publicClient,
+      contractAddress: environment.DelegationManager,
+      delegationHash: getDelegationHashOffchain(toDisableableDelegation(delegation)),
+    })
+  }
+
+  const disableDelegationWithSmartAccount = async (
+    smartAccount: FlexibleSmartAccount,
+    delegation: StoredDelegation
+  ) => {
+    if (!smartAccount) {
+      throw new Error('Smart Account not available')
+    }
+
+    if (!bundlerClient || !paymasterClient) {
+      throw new Error('Bundler or Paymaster client not available')
+    }
+
+    const environment = getDeleGatorEnvironment(MONAD_TESTNET_CHAIN_ID)
+    if (!environment) {
+      throw new Error('Delegation environment not found for Monad Testnet')
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const calldata = DelegationManager.encode.disableDelegation({
+        delegation: toDisableableDelegation(delegation),
+      })
+
+      const userOperationHash: `0x${string}` = await bundlerClient.sendUserOperation({
+        account: smartAccount as unknown as ViemSmartAccount,
+        calls: [
+          {
+            to: environment.DelegationManager,
+            data: calldata
+          }
+        ],
+        paymaster: paymasterClient,
+        paymasterContext: {
+          policyId: import.meta.env.VITE_ALCHEMY_GAS_POLICY_ID,
+        },
+      })
+
+      const receipt = await bundlerClient.waitForUserOperationReceipt({ hash: userOperationHash })
+      return receipt?.receipt?.transactionHash || userOperationHash
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke delegation')
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   const claimMockUSDCWithSmartAccount = async (
     smartAccount: FlexibleSmartAccount,
     tokenAddress?: `0x${string}`
@@ -697,6 +1153,7 @@ export const useSmartAccountContractWriter = () => {
 
   const cancelSubscriptionWithSmartAccount = async (
     smartAccount: FlexibleSmartAccount,
+    contractSubscriptionId: number,
     tokenAddress?: string,
     subscriptionManagerAddress?: `0x${string}`,
     planId?: string
@@ -726,6 +1183,7 @@ export const useSmartAccountContractWriter = () => {
         const delegationResponse = await apiService.getUserDelegation({
           user_smart_account: smartAccount.address,
           subscription_manager_address: resolvedSubscriptionManagerAddress,
+          contract_subscription_id: contractSubscriptionId,
         })
 
 
@@ -737,7 +1195,7 @@ export const useSmartAccountContractWriter = () => {
         console.log('Error fetching delegation:', error)
       }
 
-      // 2. Revoke token approval FIRST
+      // 2. Revoke token approval FIRST; renewals of other subscriptions approve again right before each charge
       const revokeCalldata = encodeFunctionData({
         abi: [
           {
@@ -764,27 +1222,25 @@ export const useSmartAccountContractWriter = () => {
       const cancelCallData = encodeFunctionData({
         abi: SubscriptionManagerABI.abi,
         functionName: 'cancelSubscription',
-        args: []
+        args: [BigInt(contractSubscriptionId)]
       })
       calls.push({
         to: resolvedSubscriptionManagerAddress,
         data: cancelCallData
       })
-      // 3. Add disable delegation call if delegation exists (before sending transaction)
-      const delegationForDisable = extractDelegationForDisable(delegation)
-      if (delegationForDisable) {
-        const environment = getDeleGatorEnvironment(MONAD_TESTNET_CHAIN_ID)
-        if (environment) {
+      // 4. Disable the stored delegations so the agent can't redeem them anymore (before sending transaction)
+      const delegationsForDisable = extractDelegationsForDisable(delegation)
+      const environment = getDeleGatorEnvironment(MONAD_TESTNET_CHAIN_ID)
+      if (environment) {
+        for (const delegationForDisable of delegationsForDisable) {
           try {
+            // Disabling twice reverts, and would take the cancellation down with it
+            if (await isDelegationDisabled(delegationForDisable)) {
+              continue
+            }
+
             const disableDelegationCalldata = DelegationManager.encode.disableDelegation({
-              delegation: {
-                delegate: delegationForDisable.delegate,
-                delegator: delegationForDisable.delegator,
-                authority: delegationForDisable.authority,
-                caveats: normalizeCaveats(delegationForDisable.caveats),
-                salt: delegationForDisable.salt,
-                signature: delegationForDisable.signature
-              },
+              delegation: toDisableableDelegation(delegationForDisable),
             })
 
             calls.push({
@@ -818,6 +1274,7 @@ export const useSmartAccountContractWriter = () => {
             user_smart_account_address: smartAccount.address,
             subscription_manager_address: resolvedSubscriptionManagerAddress,
             plan_id: planId,
+            contract_subscription_id: contractSubscriptionId,
             tx_hash: txHash
           });
 
@@ -844,6 +1301,252 @@ export const useSmartAccountContractWriter = () => {
     }
   }
 
+  const previewPlanChange = async (
+    contractSubscriptionId: number,
+    subscriptionManagerAddress: `0x${string}`,
+    newPlanId: number
+  ) => {
+    const [amountDue, credit] = await publicClient.readContract({
+      address: subscriptionManagerAddress,
+      abi: SubscriptionManagerABI.abi,
+      functionName: 'previewPlanChange',
+      args: [BigInt(contractSubscriptionId), BigInt(newPlanId)],
+    }) as readonly [bigint, bigint]
+
+    return { amountDue, credit }
+  }
+
+  const changePlanWithSmartAccount = async (
+    smartAccount: FlexibleSmartAccount,
+    subscriptionManagerAddress: `0x${string}`,
+    tokenAddress: `0x${string}`,
+    contractSubscriptionId: number,
+    newPlan: { contractPlanId: number; price: number; periodSeconds: number },
+    projectId: string,
+    agentAddress: string
+  ) => {
+    if (!smartAccount) {
+      throw new Error('Smart Account not available')
+    }
+
+    if (!bundlerClient || !paymasterClient) {
+      throw new Error('Bundler or Paymaster client not available')
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      // The contract charges the new plan's price minus the unused time on the current one
+      const { amountDue } = await previewPlanChange(
+        contractSubscriptionId,
+        subscriptionManagerAddress,
+        newPlan.contractPlanId
+      )
+
+      // The current delegations only approve the old plan's price, so renewals on a pricier plan
+      // would fail. Sign new ones for the new plan, keeping the expiry the subscriber chose before.
+      let currentDelegation: unknown = null
+      let sharedWithSubscriptions: number[] = []
+      try {
+        const delegationResponse = await apiService.getUserDelegation({
+          user_smart_account: smartAccount.address,
+          subscription_manager_address: subscriptionManagerAddress,
+          contract_subscription_id: contractSubscriptionId,
+        })
+
+        if (delegationResponse.success && delegationResponse.data) {
+          const apiData = delegationResponse.data as unknown as { success: boolean; data: { delegation: unknown; shared_with_subscriptions?: number[] } }
+          currentDelegation = apiData.data.delegation
+          sharedWithSubscriptions = apiData.data.shared_with_subscriptions ?? []
+        }
+      } catch (error) {
+        console.log('Error fetching delegation:', error)
+      }
+
+      const currentDelegations = extractDelegationsForDisable(currentDelegation)
+      const currentExpiry = currentDelegations
+        .map((delegation) => describeDelegationCaveats(toDisableableDelegation(delegation)).validUntil)
+        .find((validUntil) => validUntil !== undefined)
+
+      const signDelegation = smartAccount.signDelegation as ((params: { delegation: Delegation }) => Promise<`0x${string}`>) | undefined
+      if (!signDelegation) {
+        throw new Error('Smart Account does not support delegation signing')
+      }
+
+      const { approveDelegation, processPaymentDelegation, limits } = buildRenewalDelegations(
+        smartAccount.address,
+        subscriptionManagerAddress,
+        BigInt(contractSubscriptionId),
+        {
+          price: parseUnits(newPlan.price.toString(), 18),
+          periodSeconds: newPlan.periodSeconds,
+          tokenAddress,
+          agentAddress,
+          expiresAt: currentExpiry,
+        }
+      )
+      const signedApproveDelegation: SignedDelegation = {
+        ...approveDelegation,
+        signature: await signDelegation({ delegation: approveDelegation }),
+      }
+      const signedProcessPaymentDelegation: SignedDelegation = {
+        ...processPaymentDelegation,
+        signature: await signDelegation({ delegation: processPaymentDelegation }),
+      }
+
+      const calls: { to: `0x${string}`; data: `0x${string}` }[] = []
+
+      if (amountDue > 0n) {
+        const approveCalldata = encodeFunctionData({
+          abi: [
+            {
+              constant: false,
+              inputs: [
+                { internalType: 'address', name: 'spender', type: 'address' },
+                { internalType: 'uint256', name: 'amount', type: 'uint256' },
+              ],
+              name: 'approve',
+              outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+              stateMutability: 'nonpayable',
+              type: 'function',
+            },
+          ] as const,
+          functionName: 'approve',
+          args: [subscriptionManagerAddress, amountDue],
+        })
+        calls.push({ to: tokenAddress, data: approveCalldata })
+      }
+
+      const changePlanCalldata = encodeFunctionData({
+        abi: SubscriptionManagerABI.abi,
+        functionName: 'changePlan',
+        args: [BigInt(contractSubscriptionId), BigInt(newPlan.contractPlanId)],
+      })
+      calls.push({ to: subscriptionManagerAddress, data: changePlanCalldata })
+
+      // Retire the old delegations in the same transaction, unless a copy of them still renews
+      // another subscription (they were shared before delegations were stored per subscription)
+      const environment = getDeleGatorEnvironment(MONAD_TESTNET_CHAIN_ID)
+      if (environment && sharedWithSubscriptions.length === 0) {
+        for (const delegation of currentDelegations) {
+          if (await isDelegationDisabled(delegation)) {
+            continue
+          }
+          calls.push({
+            to: environment.DelegationManager,
+            data: DelegationManager.encode.disableDelegation({
+              delegation: toDisableableDelegation(delegation),
+            }),
+          })
+        }
+      }
+
+      const userOperationHash: `0x${string}` = await bundlerClient.sendUserOperation({
+        account: smartAccount as unknown as ViemSmartAccount,
+        calls,
+        paymaster: paymasterClient,
+        paymasterContext: {
+          policyId: import.meta.env.VITE_ALCHEMY_GAS_POLICY_ID
+        },
+      })
+
+      const receipt = await bundlerClient.waitForUserOperationReceipt({ hash: userOperationHash })
+      const txHash = receipt?.receipt?.transactionHash || userOperationHash
+
+      if (!user?.email?.address) {
+        throw new Error('User email not available')
+      }
+
+      const changeResult = await apiService.changeSubscriptionPlan({
+        user_email: user.email.address,
+        user_smart_account_address: smartAccount.address,
+        project_id: projectId,
+        contract_subscription_id: contractSubscriptionId,
+        new_plan_id: newPlan.contractPlanId,
+        tx_hash: txHash,
+        subscription_manager_address: subscriptionManagerAddress,
+        delegation_data: {
+          signedApproveDelegation: serializeDelegation(signedApproveDelegation),
+          signedProcessPaymentDelegation: serializeDelegation(signedProcessPaymentDelegation),
+          limits,
+        },
+      })
+
+      if (!changeResult.success || changeResult.data?.success === false) {
+        throw new Error(changeResult.data?.error || changeResult.error || 'Failed to record plan change')
+      }
+
+      return txHash
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Plan change failed')
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const setSubscriptionPausedWithSmartAccount = async (
+    smartAccount: FlexibleSmartAccount,
+    subscriptionManagerAddress: `0x${string}`,
+    contractSubscriptionId: number,
+    paused: boolean
+  ) => {
+    if (!smartAccount) {
+      throw new Error('Smart Account not available')
+    }
+
+    if (!bundlerClient || !paymasterClient) {
+      throw new Error('Bundler or Paymaster client not available')
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const calldata = encodeFunctionData({
+        abi: SubscriptionManagerABI.abi,
+        functionName: paused ? 'pauseSubscription' : 'resumeSubscription',
+        args: [BigInt(contractSubscriptionId)],
+      })
+
+      const userOperationHash: `0x${string}` = await bundlerClient.sendUserOperation({
+        account: smartAccount as unknown as ViemSmartAccount,
+        calls: [{ to: subscriptionManagerAddress, data: calldata }],
+        paymaster: paymasterClient,
+        paymasterContext: {
+          policyId: import.meta.env.VITE_ALCHEMY_GAS_POLICY_ID
+        },
+      })
+
+      const receipt = await bundlerClient.waitForUserOperationReceipt({ hash: userOperationHash })
+      const txHash = receipt?.receipt?.transactionHash || userOperationHash
+
+      if (!user?.email?.address) {
+        throw new Error('User email not available')
+      }
+
+      const pauseResult = await apiService.setSubscriptionPaused({
+        user_email: user.email.address,
+        user_smart_account_address: smartAccount.address,
+        contract_subscription_id: contractSubscriptionId,
+        tx_hash: txHash,
+        subscription_manager_address: subscriptionManagerAddress,
+      }, paused)
+
+      if (!pauseResult.success || pauseResult.data?.success === false) {
+        throw new Error(pauseResult.data?.error || pauseResult.error || `Failed to record ${paused ? 'pause' : 'resume'}`)
+      }
+
+      return txHash
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Subscription ${paused ? 'pause' : 'resume'} failed`)
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   const transferUSDCToSmartAccount = async (smartAccount: FlexibleSmartAccount, amount: number, tokenAddress: string) => {
     if (!smartAccount) {
       throw new Error('Smart Account not available')
@@ -985,8 +1688,21 @@ export const useSmartAccountContractWriter = () => {
     deploySubscriptionManager,
     subscribeWithSmartAccount,
     createPlansBatchWithSmartAccount,
+    setPlanArchivedWithSmartAccount,
+    createCouponWithSmartAccount,
+    deactivateCouponWithSmartAccount,
+    refundPaymentWithSmartAccount,
+    withdrawRevenueWithSmartAccount,
+    setPayoutAddressWithSmartAccount,
+    getRefundReserve,
+    setRefundReserveWithSmartAccount,
     claimMockUSDCWithSmartAccount,
     cancelSubscriptionWithSmartAccount,
+    isDelegationDisabled,
+    disableDelegationWithSmartAccount,
+    previewPlanChange,
+    changePlanWithSmartAccount,
+    setSubscriptionPausedWithSmartAccount,
     transferUSDCToSmartAccount,
     transferTokenFromSmartAccount,
     fundSmartAccountWithETH,
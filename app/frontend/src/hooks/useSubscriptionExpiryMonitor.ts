@@ -3,7 +3,7 @@ import { useEffect, useRef } from 'react'
 interface Subscription {
   id: string
   endDate: Date
-  status: 'active' | 'expired' | 'cancelled'
+  status: 'active' | 'past_due' | 'paused' | 'expired' | 'cancelled'
 }
 
 /**
@@ -3,13 +3,23 @@ import { useAuth } from './useAuth'
 import type { UserSubscription } from '../types/subscription'
 
 interface ApiSubscription {
+  id?: string
   plan_id: string
+  contract_plan_id?: number | null
+  project_id?: string | null
+  contract_subscription_id?: number | null
   plan_name: string
   company_name: string
   status: string
   start_date: number
   next_payment_date?: number
   last_payment_date?: number
+  trial_ends_at?: number | null
+  paused_at?: number | null
+  past_due_since?: number | null
+  grace_ends_at?: number | null
+  next_retry_at?: number | null
+  last_failure_reason?: string | null
   cancelled_at?: number
   cancellation_effective_at?: number
   price?: number
@@ -35,10 +45,10 @@ export const useUserSubscriptions = () => {
       const cancelledAt = apiSub.cancelled_at || 0
       const cancellationEffectiveAt = apiSub.cancellation_effective_at || nextPaymentDate || cancelledAt || 0
 
-      const initialStatus = apiSub.status as 'active' | 'expired' | 'cancelled'
+      const initialStatus = apiSub.status as UserSubscription['status']
       const cancellationPending = cancelledAt > 0 && cancellationEffectiveAt > now
 
-      let clientStatus: 'active' | 'expired' | 'cancelled' = initialStatus
+      let clientStatus: UserSubscription['status'] = initialStatus
 
       if (cancelledAt > 0 && cancellationEffectiveAt <= now) {
         clientStatus = 'cancelled'
@@ -47,17 +57,27 @@ export const useUserSubscriptions = () => {
       }
 
       const fallbackTimestamp = nextPaymentDate || cancellationEffectiveAt || apiSub.start_date
+      // Access during dunning runs until the grace period ends rather than the missed payment date
       const endTimestamp = cancellationPending
         ? cancellationEffectiveAt
+        : clientStatus === 'past_due' && apiSub.grace_ends_at
+          ? apiSub.grace_ends_at
         : clientStatus === 'expired'
           ? (nextPaymentDate || cancellationEffectiveAt || cancelledAt || apiSub.start_date)
           : fallbackTimestamp
 
-      const subscriptionId = `${apiSub.plan_id}-${apiSub.start_date}`
+      // On-chain ids are unique per manager; older rows without one fall back to plan + start date
+      const subscriptionId = apiSub.contract_subscription_id != null
+        ? `${apiSub.subscription_manager_address}-${apiSub.contract_subscription_id}`
+        : `${apiSub.plan_id}-${apiSub.start_date}`
 
       const userSubscription: UserSubscription = {
         id: subscriptionId,
+        recordId: apiSub.id,
         planId: apiSub.plan_id,
+        contractPlanId: apiSub.contract_plan_id ?? undefined,
+        contractSubscriptionId: apiSub.contract_subscription_id ?? undefined,
+        projectId: apiSub.project_id ?? undefined,
         planName: apiSub.plan_name,
         companyName: apiSub.company_name,
         startDate: new Date(apiSub.start_date * 1000),
@@ -67,6 +87,12 @@ export const useUserSubscriptions = () => {
         cancelledAt: cancelledAt > 0 ? new Date(cancelledAt * 1000) : undefined,
         cancellationEffectiveAt: cancellationEffectiveAt > 0 ? new Date(cancellationEffectiveAt * 1000) : undefined,
         isCancellationPending: cancellationPending,
+        trialEndsAt: apiSub.trial_ends_at ? new Date(apiSub.trial_ends_at * 1000) : undefined,
+        pausedAt: apiSub.paused_at ? new Date(apiSub.paused_at * 1000) : undefined,
+        pastDueSince: apiSub.past_due_since ? new Date(apiSub.past_due_since * 1000) : undefined,
+        graceEndsAt: apiSub.grace_ends_at ? new Date(apiSub.grace_ends_at * 1000) : undefined,
+        nextRetryAt: apiSub.next_retry_at ? new Date(apiSub.next_retry_at * 1000) : undefined,
+        lastFailureReason: apiSub.last_failure_reason ?? undefined,
         subscriptionManagerAddress: apiSub.subscription_manager_address,
         tokenSymbol: apiSub.token_symbol,
         tokenAddress: apiSub.token_address,
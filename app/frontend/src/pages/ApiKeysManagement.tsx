@@ -1,37 +1,83 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { motion } from 'framer-motion'
-import { 
-  Key, 
-  Plus, 
-  Copy, 
-  Eye, 
-  EyeOff, 
+import {
+  Key,
+  Plus,
+  Copy,
+  RefreshCw,
+  Ban,
   CheckCircle,
   AlertCircle
 } from 'lucide-react'
-import { apiService, type ApiKey } from '../services/api'
+import { apiService, type ApiKey, type ApiKeyPermission, type Project } from '../services/api'
 import { useAuth } from '../hooks/useAuth'
 
+const PERMISSION_OPTIONS: { value: ApiKeyPermission; label: string; description: string }[] = [
+  { value: 'read_subscriptions', label: 'Read subscriptions', description: 'Look up subscribers and their subscriptions' },
+  { value: 'create_sessions', label: 'Create sessions', description: 'Start checkout payment sessions' },
+  { value: 'manage_plans', label: 'Manage plans', description: 'Create and archive subscription plans' },
+  { value: 'collect_payments', label: 'Collect payments', description: 'Run your own collector: read due renewals and report outcomes' }
+]
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never', days: 0 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 }
+]
+
+// How long the old key keeps working after a rotation
+const OVERLAP_OPTIONS = [
+  { label: 'Revoke now', seconds: 0 },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '24 hours', seconds: 24 * 60 * 60 },
+  { label: '7 days', seconds: 7 * 24 * 60 * 60 }
+]
+
+const formatTimestamp = (seconds: number | null) =>
+  seconds ? new Date(seconds * 1000).toLocaleString() : 'Never'
+
+const getKeyStatus = (key: ApiKey) => {
+  const now = Math.floor(Date.now() / 1000)
+  if (key.revoked_at || !key.is_active) {
+    return { label: 'Revoked', color: '#ff6b6b' }
+  }
+  if (key.expires_at && key.expires_at <= now) {
+    return { label: 'Expired', color: '#d1d5db' }
+  }
+  if (key.replaced_by_id) {
+    return { label: 'Rotating out', color: '#feca57' }
+  }
+  return { label: 'Active', color: '#4ecdc4' }
+}
+
 const ApiKeysManagement = () => {
   const { userInfo, isDeveloper } = useAuth()
-  
+
   const [apiKeys, setApiKeys] = useState<ApiKey[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [showCreateForm, setShowCreateForm] = useState(false)
-  const [visibleKeys, setVisibleKeys] = useState<Set<string>>(new Set())
   const [isCreating, setIsCreating] = useState(false)
   const [createResult, setCreateResult] = useState<{ success: boolean; message: string } | null>(null)
+  const [newKey, setNewKey] = useState<ApiKey | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [busyKeyId, setBusyKeyId] = useState<string | null>(null)
+  const [overlapByKey, setOverlapByKey] = useState<Record<string, number>>({})
   const loadingRef = useRef(false)
 
   // Form state
   const [formData, setFormData] = useState({
     name: '',
-    description: ''
+    description: '',
+    project_id: '',
+    permissions: ['read_subscriptions'] as ApiKeyPermission[],
+    expiresInDays: 0
   })
 
   const loadApiKeys = useCallback(async () => {
     if (!userInfo?.email || loadingRef.current) return
-    
+
     // Check cache first
     const cacheKey = `developer_api_keys_${userInfo.email}`
     const cached = localStorage.getItem(cacheKey)
@@ -48,12 +94,11 @@ const ApiKeysManagement = () => {
         // Invalid cache, continue to API call
       }
     }
-    
+
     console.log('Loading API keys from API')
     loadingRef.current = true
     setIsLoading(true)
     try {
-      // We'll need to create a new API endpoint for getting developer's API keys
       const result = await apiService.getDeveloperApiKeys()
       if (result.success && result.data) {
         // Handle double-wrapped response from API service
@@ -75,35 +120,80 @@ const ApiKeysManagement = () => {
     }
   }, [userInfo?.email])
 
+  const loadProjects = useCallback(async () => {
+    try {
+      const result = await apiService.getDeveloperProjects()
+      if (result.success && result.data) {
+        const projectList = result.data.projects || []
+        setProjects(projectList)
+        setFormData((current) => current.project_id || projectList.length === 0
+          ? current
+          : { ...current, project_id: projectList[0].id })
+      }
+    } catch (err) {
+      console.error('Error loading projects:', err)
+    }
+  }, [])
+
   useEffect(() => {
     if (userInfo?.email && isDeveloper) {
       loadApiKeys()
+      loadProjects()
     }
   }, [userInfo?.email, isDeveloper]) // eslint-disable-line react-hooks/exhaustive-deps
 
+  const refreshApiKeys = async () => {
+    if (!userInfo?.email) return
+    localStorage.removeItem(`developer_api_keys_${userInfo.email}`)
+    await loadApiKeys()
+  }
+
+  const showNewKey = (key: ApiKey) => {
+    setNewKey(key)
+    setCopied(false)
+  }
+
+  const togglePermission = (permission: ApiKeyPermission) => {
+    setFormData((current) => ({
+      ...current,
+      permissions: current.permissions.includes(permission)
+        ? current.permissions.filter((item) => item !== permission)
+        : [...current.permissions, permission]
+    }))
+  }
+
   const handleCreateApiKey = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!userInfo?.email) return
 
+    if (formData.permissions.length === 0) {
+      setCreateResult({ success: false, message: 'Pick at least one permission' })
+      return
+    }
+
     setIsCreating(true)
     setCreateResult(null)
 
     try {
       const result = await apiService.createDeveloperApiKey({
-        developer_email: userInfo.email,
-        ...formData
+        name: formData.name,
+        description: formData.description,
+        project_id: formData.project_id,
+        permissions: formData.permissions,
+        expires_at: formData.expiresInDays
+          ? Math.floor(Date.now() / 1000) + formData.expiresInDays * 24 * 60 * 60
+          : null
       })
 
-      if (result.success) {
+      if (result.success && result.data) {
         setCreateResult({
           success: true,
           message: 'API key created successfully!'
         })
-        setFormData({ name: '', description: '' })
-        // Clear cache and refresh API keys list
-        const cacheKey = `developer_api_keys_${userInfo.email}`
-        localStorage.removeItem(cacheKey)
-        await loadApiKeys() // Reload the list
+        showNewKey(result.data.api_key)
+        setFormData({ ...formData, name: '', description: '' })
+        setShowCreateForm(false)
+        await refreshApiKeys()
       } else {
         setCreateResult({
           success: false,
@@ -120,19 +210,51 @@ const ApiKeysManagement = () => {
     }
   }
 
-  const toggleKeyVisibility = (keyId: string) => {
-    const newVisible = new Set(visibleKeys)
-    if (newVisible.has(keyId)) {
-      newVisible.delete(keyId)
-    } else {
-      newVisible.add(keyId)
+  const handleRotate = async (key: ApiKey) => {
+    const overlapSeconds = overlapByKey[key.id] ?? OVERLAP_OPTIONS[2].seconds
+    setBusyKeyId(key.id)
+    setCreateResult(null)
+    try {
+      const result = await apiService.rotateApiKey(key.id, overlapSeconds)
+      if (result.success && result.data) {
+        showNewKey(result.data.api_key)
+        setCreateResult({
+          success: true,
+          message: overlapSeconds > 0
+            ? `Key rotated. "${key.name}" (${key.key_prefix}…) keeps working until ${formatTimestamp(result.data.replaced_api_key.expires_at)}.`
+            : `Key rotated. "${key.name}" (${key.key_prefix}…) was revoked.`
+        })
+        await refreshApiKeys()
+      } else {
+        setCreateResult({ success: false, message: result.error || 'Failed to rotate API key' })
+      }
+    } finally {
+      setBusyKeyId(null)
+    }
+  }
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!window.confirm(`Revoke "${key.name}" (${key.key_prefix}…)? Requests using it will fail immediately.`)) return
+
+    setBusyKeyId(key.id)
+    setCreateResult(null)
+    try {
+      const result = await apiService.revokeApiKey(key.id)
+      if (result.success) {
+        setCreateResult({ success: true, message: `"${key.name}" was revoked.` })
+        await refreshApiKeys()
+      } else {
+        setCreateResult({ success: false, message: result.error || 'Failed to revoke API key' })
+      }
+    } finally {
+      setBusyKeyId(null)
     }
-    setVisibleKeys(newVisible)
   }
 
-  const copyToClipboard = (text: string) => {
-    navigator.clipboard.writeText(text)
-    // You could add a toast notification here
+  const copyNewKey = async () => {
+    if (!newKey?.key_value) return
+    await navigator.clipboard.writeText(newKey.key_value)
+    setCopied(true)
   }
 
   if (!isDeveloper) {
@@ -161,7 +283,7 @@ const ApiKeysManagement = () => {
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-4xl font-black text-black">API Keys</h1>
-            <p className="text-gray-600 text-lg">Manage your API keys for all projects</p>
+            <p className="text-gray-600 text-lg">Server-side keys, each scoped to one project and a set of permissions</p>
           </div>
 
           <motion.button
@@ -181,6 +303,38 @@ const ApiKeysManagement = () => {
           </motion.button>
         </div>
 
+        {/* Newly created or rotated key */}
+        {newKey?.key_value && (
+          <div
+            className="p-4 space-y-3"
+            style={{ backgroundColor: '#fffae6', border: '3px solid #000000', boxShadow: '4px 4px 0px #000000' }}
+          >
+            <p className="font-bold text-black">{newKey.name} (shown only once)</p>
+            <code className="block break-all text-sm bg-white border-2 border-black px-3 py-2">{newKey.key_value}</code>
+            <p className="text-sm text-gray-700">
+              Only a hash of this key is stored. Copy it into your server's environment now; it cannot be shown again.
+              Send it in the <code>X-Api-Key</code> header.
+            </p>
+            <div className="flex space-x-3">
+              <button
+                onClick={copyNewKey}
+                className="px-4 py-2 font-bold text-sm flex items-center space-x-2"
+                style={{ backgroundColor: copied ? '#4ecdc4' : '#836EF9', border: '2px solid #000000' }}
+              >
+                <Copy size={14} />
+                <span>{copied ? 'Copied!' : 'Copy Key'}</span>
+              </button>
+              <button
+                onClick={() => setNewKey(null)}
+                className="px-4 py-2 font-bold text-sm"
+                style={{ backgroundColor: '#ffffff', border: '2px solid #000000' }}
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Create API Key Form */}
         {showCreateForm && (
           <motion.div
@@ -194,7 +348,7 @@ const ApiKeysManagement = () => {
             }}
           >
             <h2 className="text-2xl font-bold text-black mb-4">Create New API Key</h2>
-            
+
             <form onSubmit={handleCreateApiKey} className="space-y-4">
               <div>
                 <label className="text-lg font-bold text-black mb-2 flex items-center space-x-2">
@@ -234,10 +388,77 @@ const ApiKeysManagement = () => {
                 />
               </div>
 
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label className="text-lg font-bold text-black mb-2 block">Project</label>
+                  <select
+                    value={formData.project_id}
+                    onChange={(e) => setFormData({ ...formData, project_id: e.target.value })}
+                    required
+                    className="w-full px-4 py-3 text-lg font-medium"
+                    style={{
+                      backgroundColor: '#ffffff',
+                      border: '2px solid #000000',
+                      boxShadow: '2px 2px 0px #000000'
+                    }}
+                  >
+                    {projects.length === 0 && <option value="">No projects yet</option>}
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>{project.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="text-lg font-bold text-black mb-2 block">Expires</label>
+                  <select
+                    value={formData.expiresInDays}
+                    onChange={(e) => setFormData({ ...formData, expiresInDays: Number(e.target.value) })}
+                    className="w-full px-4 py-3 text-lg font-medium"
+                    style={{
+                      backgroundColor: '#ffffff',
+                      border: '2px solid #000000',
+                      boxShadow: '2px 2px 0px #000000'
+                    }}
+                  >
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <option key={option.days} value={option.days}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="text-lg font-bold text-black mb-2 block">Permissions</label>
+                <div className="grid md:grid-cols-3 gap-3">
+                  {PERMISSION_OPTIONS.map((option) => (
+                    <label
+                      key={option.value}
+                      className="p-3 flex items-start space-x-3 cursor-pointer"
+                      style={{
+                        backgroundColor: formData.permissions.includes(option.value) ? '#fffae6' : '#ffffff',
+                        border: '2px solid #000000'
+                      }}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={formData.permissions.includes(option.value)}
+                        onChange={() => togglePermission(option.value)}
+                        className="mt-1"
+                      />
+                      <span>
+                        <span className="block font-bold text-black">{option.label}</span>
+                        <span className="block text-sm text-gray-600">{option.description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
               <div className="flex space-x-4">
                 <motion.button
                   type="submit"
-                  disabled={isCreating}
+                  disabled={isCreating || projects.length === 0}
                   whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
                   whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
                   transition={{ duration: 0.1 }}
@@ -307,60 +528,128 @@ const ApiKeysManagement = () => {
             </div>
           ) : (
             <div className="grid gap-4">
-              {apiKeys.map((key) => (
-                <motion.div
-                  key={key.id}
-                  whileHover={{ x: 1, y: 1, boxShadow: '3px 3px 0px #000000' }}
-                  className="p-6"
-                  style={{
-                    backgroundColor: '#ffffff',
-                    border: '3px solid #000000',
-                    boxShadow: '2px 2px 0px #000000'
-                  }}
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-3 mb-2">
-                        <Key size={20} className="text-blue-600" />
-                        <h3 className="text-xl font-bold text-black">{key.name}</h3>
-                        <span className={`px-2 py-1 text-xs font-bold rounded ${
-                          key.is_active ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                        }`}>
-                          {key.is_active ? 'Active' : 'Inactive'}
-                        </span>
-                      </div>
-                      
-                      {key.description && (
-                        <p className="text-gray-600 mb-3">{key.description}</p>
-                      )}
+              {apiKeys.map((key) => {
+                const status = getKeyStatus(key)
+                const canManage = status.label === 'Active' || status.label === 'Rotating out'
+                return (
+                  <div
+                    key={key.id}
+                    className="p-6"
+                    style={{
+                      backgroundColor: canManage ? '#ffffff' : '#f3f4f6',
+                      border: '3px solid #000000',
+                      boxShadow: '2px 2px 0px #000000'
+                    }}
+                  >
+                    <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-3 mb-2">
+                          <Key size={20} className="text-blue-600" />
+                          <h3 className="text-xl font-bold text-black">{key.name}</h3>
+                          <span
+                            className="px-2 py-1 text-xs font-bold"
+                            style={{ backgroundColor: status.color, border: '2px solid #000000' }}
+                          >
+                            {status.label}
+                          </span>
+                        </div>
 
-                      <div className="flex items-center space-x-2">
-                        <code className="px-3 py-2 bg-gray-100 font-mono text-sm border-2 border-gray-300 flex-1">
-                          {visibleKeys.has(key.id) ? key.key_value : '••••••••••••••••••••••••••••••••'}
+                        {key.description && (
+                          <p className="text-gray-600 mb-3">{key.description}</p>
+                        )}
+
+                        <code className="inline-block px-3 py-2 bg-gray-100 font-mono text-sm border-2 border-gray-300 mb-3">
+                          {key.key_prefix}••••••••••••••••
                         </code>
-                        
-                        <motion.button
-                          onClick={() => toggleKeyVisibility(key.id)}
-                          whileHover={{ scale: 1.05 }}
-                          whileTap={{ scale: 0.95 }}
-                          className="p-2 border-2 border-gray-300 bg-gray-100 hover:bg-gray-200"
-                        >
-                          {visibleKeys.has(key.id) ? <EyeOff size={16} /> : <Eye size={16} />}
-                        </motion.button>
-                        
-                        <motion.button
-                          onClick={() => copyToClipboard(key.key_value)}
-                          whileHover={{ scale: 1.05 }}
-                          whileTap={{ scale: 0.95 }}
-                          className="p-2 border-2 border-gray-300 bg-gray-100 hover:bg-gray-200"
-                        >
-                          <Copy size={16} />
-                        </motion.button>
+
+                        <div className="flex flex-wrap gap-2 mb-3">
+                          {key.permissions.map((permission) => (
+                            <span
+                              key={permission}
+                              className="px-2 py-1 text-xs font-bold"
+                              style={{ backgroundColor: '#fffae6', border: '2px solid #000000' }}
+                            >
+                              {PERMISSION_OPTIONS.find((option) => option.value === permission)?.label || permission}
+                            </span>
+                          ))}
+                        </div>
+
+                        <div className="grid md:grid-cols-2 gap-x-6 gap-y-1 text-sm text-gray-700">
+                          <p><span className="font-bold text-black">Project:</span> {key.project_name || (key.project_id ? key.project_id : 'All projects')}</p>
+                          <p><span className="font-bold text-black">Created:</span> {formatTimestamp(key.created_at)}</p>
+                          <p><span className="font-bold text-black">Last used:</span> {formatTimestamp(key.last_used_at)}</p>
+                          <p>
+                            <span className="font-bold text-black">{key.revoked_at ? 'Revoked:' : 'Expires:'}</span>{' '}
+                            {formatTimestamp(key.revoked_at || key.expires_at)}
+                          </p>
+                        </div>
+
+                        {key.usage && (
+                          <div className="flex flex-wrap gap-3 mt-3">
+                            {[
+                              { label: 'Today', value: key.usage.requests_today },
+                              { label: 'Last 30 days', value: key.usage.requests_30d },
+                              { label: 'All time', value: key.usage.total_requests },
+                              { label: 'Rate limited (30d)', value: key.usage.throttled_30d }
+                            ].map((stat) => (
+                              <div
+                                key={stat.label}
+                                className="px-3 py-2"
+                                style={{
+                                  backgroundColor: stat.label.startsWith('Rate') && stat.value > 0 ? '#ffe3e3' : '#ffffff',
+                                  border: '2px solid #000000'
+                                }}
+                              >
+                                <p className="text-xs font-bold text-gray-600 uppercase">{stat.label}</p>
+                                <p className="text-lg font-black text-black">{stat.value.toLocaleString()}</p>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
+
+                      {canManage && (
+                        <div className="flex flex-col space-y-2 md:w-56">
+                          {!key.replaced_by_id && (
+                            <>
+                              <select
+                                value={overlapByKey[key.id] ?? OVERLAP_OPTIONS[2].seconds}
+                                onChange={(e) => setOverlapByKey({ ...overlapByKey, [key.id]: Number(e.target.value) })}
+                                className="px-3 py-2 text-sm font-medium"
+                                style={{ backgroundColor: '#ffffff', border: '2px solid #000000' }}
+                              >
+                                {OVERLAP_OPTIONS.map((option) => (
+                                  <option key={option.seconds} value={option.seconds}>
+                                    {option.seconds === 0 ? option.label : `Overlap: ${option.label}`}
+                                  </option>
+                                ))}
+                              </select>
+                              <button
+                                onClick={() => handleRotate(key)}
+                                disabled={busyKeyId === key.id}
+                                className="px-4 py-2 font-bold text-sm flex items-center justify-center space-x-2"
+                                style={{ backgroundColor: '#feca57', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+                              >
+                                <RefreshCw size={14} className={busyKeyId === key.id ? 'animate-spin' : ''} />
+                                <span>Rotate</span>
+                              </button>
+                            </>
+                          )}
+                          <button
+                            onClick={() => handleRevoke(key)}
+                            disabled={busyKeyId === key.id}
+                            className="px-4 py-2 font-bold text-sm flex items-center justify-center space-x-2"
+                            style={{ backgroundColor: '#ff6b6b', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+                          >
+                            <Ban size={14} />
+                            <span>Revoke</span>
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </div>
-                </motion.div>
-              ))}
+                )
+              })}
             </div>
           )}
         </div>
@@ -2,7 +2,7 @@ import { useState } from 'react'
 import { Outlet, useLocation } from 'react-router-dom'
 import Sidebar from '../components/Sidebar'
 
-type ActiveView = 'manage-subscription' | 'analytics' | 'developers'
+type ActiveView = 'manage-subscription' | 'billing-history' | 'permissions' | 'analytics' | 'developers'
 
 const Home = () => {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false)
@@ -12,6 +12,8 @@ const Home = () => {
   const getActiveViewFromPath = (): ActiveView => {
     const path = location.pathname
     if (path.includes('/analytics')) return 'analytics'
+    if (path.includes('/billing-history')) return 'billing-history'
+    if (path.includes('/permissions')) return 'permissions'
     if (path.includes('/developers')) return 'developers'
     return 'manage-subscription' // default
   }
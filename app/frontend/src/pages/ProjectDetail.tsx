@@ -8,17 +8,28 @@ import {
   DollarSign,
   Clock,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  Gift,
+  Archive,
+  ArchiveRestore
 } from 'lucide-react'
 import { apiService, type Project, type SubscriptionPlan } from '../services/api'
 import { useSmartAccount } from '../hooks/useSmartAccount'
 import { useSmartAccountContractWriter } from '../hooks/useSmartAccountContractWriter'
 import { parseUnits } from 'viem'
 import { useAuth } from '../hooks/useAuth'
+import { ProjectWebhooks } from '../components/ProjectWebhooks'
+import { ProjectAgentSettings } from '../components/ProjectAgentSettings'
+import { ProjectDunningSettings } from '../components/ProjectDunningSettings'
+import { ProjectCoupons } from '../components/ProjectCoupons'
+import { ProjectSubscribers } from '../components/ProjectSubscribers'
+import { ProjectTreasury } from '../components/ProjectTreasury'
+import { ProjectSweepSettings } from '../components/ProjectSweepSettings'
 
 interface ProjectDetailsData {
   project: Project
   subscription_plans: SubscriptionPlan[]
+  archived_plans?: SubscriptionPlan[]
 }
 
 const ProjectDetail = () => {
@@ -26,20 +37,37 @@ const ProjectDetail = () => {
   const { projectId } = useParams<{ projectId: string }>()
   const { userInfo } = useAuth()
   const { smartAccountResult } = useSmartAccount()
-  const { createPlansBatchWithSmartAccount } = useSmartAccountContractWriter()
+  const { createPlansBatchWithSmartAccount, setPlanArchivedWithSmartAccount } = useSmartAccountContractWriter()
   
   const [projectData, setProjectData] = useState<ProjectDetailsData | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [isCreatingPlan, setIsCreatingPlan] = useState(false)
   const [showPlanForm, setShowPlanForm] = useState(false)
+  const [archivingPlanId, setArchivingPlanId] = useState<number | null>(null)
   const loadingRef = useRef(false)
   const [createResult, setCreateResult] = useState<{ success: boolean; message: string; type: 'plan' } | null>(null)
 
+  const activePlans = projectData?.subscription_plans ?? []
+  const archivedPlans = projectData?.archived_plans ?? []
+  // The manager can hold any token a plan has been priced in, archived plans included
+  const treasuryTokens = [
+    ...(projectData?.project?.supported_token
+      ? [{ address: projectData.project.supported_token.token_address, symbol: projectData.project.supported_token.symbol }]
+      : []),
+    ...[...activePlans, ...archivedPlans].map((plan) => ({ address: plan.token_address, symbol: plan.token_symbol || 'TOKEN' }))
+  ].filter((token, index, all) =>
+    token.address && all.findIndex((other) => other.address.toLowerCase() === token.address.toLowerCase()) === index
+  )
+  // On-chain plan ids keep counting up across archived plans
+  const nextContractPlanId = [...activePlans, ...archivedPlans]
+    .reduce((max, plan) => Math.max(max, plan.contract_plan_id), 0) + 1
+
   const [planFormData, setPlanFormData] = useState({
     name: '',
     price: 0,
     token_address: '',
-    period_seconds: 2592000 // 30 days default
+    period_seconds: 2592000, // 30 days default
+    trial_period_seconds: 0
   })
 
   const loadProjectDetails = useCallback(async (forceRefresh = false) => {
@@ -120,26 +148,17 @@ const ProjectDetail = () => {
       return
     }
 
-    const existingPlanCount = projectData?.subscription_plans?.length || 0
-    if (existingPlanCount >= 5) {
-      setCreateResult({
-        success: false,
-        message: 'Maximum of 5 plans per project reached',
-        type: 'plan'
-      })
-      return
-    }
-
     const plansToCreate = [
       {
-        contract_plan_id: existingPlanCount + 1,
+        contract_plan_id: nextContractPlanId,
         name: planFormData.name.trim(),
         price: planFormData.price,
         period_seconds: planFormData.period_seconds,
+        trial_period_seconds: planFormData.trial_period_seconds,
       },
     ]
 
-    if (!plansToCreate.every((plan) => plan.name && plan.price > 0 && plan.period_seconds > 0)) {
+    if (!plansToCreate.every((plan) => plan.name && plan.price > 0 && plan.period_seconds > 0 && plan.trial_period_seconds >= 0)) {
       setCreateResult({
         success: false,
         message: 'Plan name, price, and billing period must be provided',
@@ -152,6 +171,7 @@ const ProjectDetail = () => {
     const planPrices = plansToCreate.map((plan) => parseUnits(plan.price.toString(), 18))
     const planPeriods = plansToCreate.map((plan) => BigInt(plan.period_seconds))
     const planTokens = plansToCreate.map(() => tokenAddress as `0x${string}`)
+    const planTrialPeriods = plansToCreate.map((plan) => BigInt(plan.trial_period_seconds))
 
     setIsCreatingPlan(true)
     try {
@@ -161,7 +181,8 @@ const ProjectDetail = () => {
         planNames,
         planPrices,
         planPeriods,
-        planTokens
+        planTokens,
+        planTrialPeriods
       )
 
       const plansPayload = plans.length
@@ -171,6 +192,7 @@ const ProjectDetail = () => {
             price: Number(plan.price),
             token_address: plan.tokenAddress,
             period_seconds: Number(plan.periodSeconds),
+            trial_period_seconds: plansToCreate[index]?.trial_period_seconds ?? 0,
           }))
         : plansToCreate.map((plan) => ({
             contract_plan_id: plan.contract_plan_id,
@@ -178,6 +200,7 @@ const ProjectDetail = () => {
             price: plan.price,
             token_address: tokenAddress,
             period_seconds: plan.period_seconds,
+            trial_period_seconds: plan.trial_period_seconds,
           }))
 
       const result = await apiService.createSubscriptionPlan({
@@ -197,7 +220,8 @@ const ProjectDetail = () => {
           name: '',
           price: 0,
           token_address: projectData?.project?.supported_token?.token_address || '',
-          period_seconds: 2592000
+          period_seconds: 2592000,
+          trial_period_seconds: 0
         })
         setShowPlanForm(false)
         await loadProjectDetails(true)
@@ -219,6 +243,62 @@ const ProjectDetail = () => {
     }
   }
 
+  const handleTogglePlanArchive = async (plan: SubscriptionPlan, archived: boolean) => {
+    if (!userInfo?.email || !projectId) return
+
+    const subscriptionManagerAddress = projectData?.project?.subscription_manager_address
+    const smartAccount = smartAccountResult?.smartAccount
+
+    if (!subscriptionManagerAddress || !smartAccount) {
+      setCreateResult({
+        success: false,
+        message: 'Missing smart account or project contract configuration',
+        type: 'plan'
+      })
+      return
+    }
+
+    setArchivingPlanId(plan.contract_plan_id)
+    try {
+      const txHash = await setPlanArchivedWithSmartAccount(
+        smartAccount,
+        subscriptionManagerAddress as `0x${string}`,
+        plan.contract_plan_id,
+        archived
+      )
+
+      const result = await apiService.archiveSubscriptionPlan({
+        project_id: projectId,
+        contract_plan_id: plan.contract_plan_id,
+        archived,
+        tx_hash: txHash,
+      })
+
+      if (result.success && result.data?.success !== false) {
+        setCreateResult({
+          success: true,
+          message: archived ? `${plan.name} archived` : `${plan.name} is available again`,
+          type: 'plan'
+        })
+        await loadProjectDetails(true)
+      } else {
+        setCreateResult({
+          success: false,
+          message: result.data?.error || result.error || 'Failed to update plan',
+          type: 'plan'
+        })
+      }
+    } catch {
+      setCreateResult({
+        success: false,
+        message: 'An error occurred while updating the plan',
+        type: 'plan'
+      })
+    } finally {
+      setArchivingPlanId(null)
+    }
+  }
+
   const formatPeriod = (seconds: number) => {
     const days = seconds / 86400
     if (days >= 30) {
@@ -227,6 +307,75 @@ const ProjectDetail = () => {
     return `${Math.round(days)} day(s)`
   }
 
+  const renderPlanCard = (plan: SubscriptionPlan, archived: boolean) => (
+    <motion.div
+      key={plan.id}
+      whileHover={{ x: 1, y: 1, boxShadow: '3px 3px 0px #000000' }}
+      className="p-6"
+      style={{
+        backgroundColor: archived ? '#f3f4f6' : '#ffffff',
+        border: '3px solid #000000',
+        boxShadow: '2px 2px 0px #000000'
+      }}
+    >
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-black">{plan.name}</h3>
+          <p className="text-sm text-gray-500">Plan ID: {plan.contract_plan_id}</p>
+        </div>
+        <motion.button
+          onClick={() => handleTogglePlanArchive(plan, !archived)}
+          disabled={archivingPlanId !== null}
+          whileHover={{ x: 1, y: 1, boxShadow: '1px 1px 0px #000000' }}
+          whileTap={{ x: 2, y: 2, boxShadow: 'none' }}
+          transition={{ duration: 0.1 }}
+          className="px-3 py-2 text-sm font-bold flex items-center space-x-1 disabled:opacity-60"
+          style={{
+            backgroundColor: archived ? '#95e1d3' : '#feca57',
+            border: '2px solid #000000',
+            boxShadow: '2px 2px 0px #000000'
+          }}
+        >
+          {archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+          <span>
+            {archivingPlanId === plan.contract_plan_id
+              ? (archived ? 'Restoring...' : 'Archiving...')
+              : (archived ? 'Unarchive' : 'Archive')}
+          </span>
+        </motion.button>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <DollarSign size={16} />
+            <span className="font-medium">Price</span>
+          </span>
+          <span className="font-bold">{plan.price} {plan.token_symbol}</span>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <Clock size={16} />
+            <span className="font-medium">Period</span>
+          </span>
+          <span className="font-bold">{formatPeriod(plan.period_seconds)}</span>
+        </div>
+
+        {plan.trial_period_seconds ? (
+          <div className="flex items-center justify-between">
+            <span className="flex items-center space-x-2">
+              <Gift size={16} />
+              <span className="font-medium">Free Trial</span>
+            </span>
+            <span className="font-bold">{formatPeriod(plan.trial_period_seconds)}</span>
+          </div>
+        ) : null}
+
+      </div>
+    </motion.div>
+  )
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -321,7 +470,7 @@ const ProjectDetail = () => {
                   <label className="block text-lg font-bold text-black mb-2">Plan ID</label>
                   <input
                     type="number"
-                    value={(projectData?.subscription_plans?.length || 0) + 1}
+                    value={nextContractPlanId}
                     readOnly
                     className="w-full px-4 py-3 text-lg font-medium bg-gray-100"
                     style={{
@@ -391,6 +540,24 @@ const ProjectDetail = () => {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-lg font-bold text-black mb-2">Free Trial (seconds)</label>
+                <input
+                  type="number"
+                  value={planFormData.trial_period_seconds}
+                  onChange={(e) => setPlanFormData({ ...planFormData, trial_period_seconds: parseInt(e.target.value, 10) || 0 })}
+                  min="0"
+                  className="w-full px-4 py-3 text-lg font-medium"
+                  style={{
+                    backgroundColor: '#ffffff',
+                    border: '2px solid #000000',
+                    boxShadow: '2px 2px 0px #000000'
+                  }}
+                  placeholder="0"
+                />
+                <p className="text-sm text-gray-600 mt-2">Subscribers are not charged until the trial ends. Leave at 0 to charge at signup.</p>
+              </div>
+
               <div>
                 <label className="block text-lg font-bold text-black mb-2">Token Address</label>
                 <input
@@ -473,7 +640,7 @@ const ProjectDetail = () => {
             <span>Subscription Plans</span>
           </h2>
 
-          {projectData.subscription_plans.length === 0 ? (
+          {activePlans.length === 0 ? (
             <div className="text-center py-12">
               <Settings size={48} className="mx-auto text-gray-400 mb-4" />
               <h3 className="text-xl font-bold text-gray-600 mb-2">No subscription plans yet</h3>
@@ -481,47 +648,89 @@ const ProjectDetail = () => {
             </div>
           ) : (
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-              {projectData.subscription_plans.map((plan) => (
-                <motion.div
-                  key={plan.id}
-                  whileHover={{ x: 1, y: 1, boxShadow: '3px 3px 0px #000000' }}
-                  className="p-6"
-                  style={{
-                    backgroundColor: '#ffffff',
-                    border: '3px solid #000000',
-                    boxShadow: '2px 2px 0px #000000'
-                  }}
-                >
-                  <div className="flex items-start justify-between mb-4">
-                    <div>
-                      <h3 className="text-xl font-bold text-black">{plan.name}</h3>
-                      <p className="text-sm text-gray-500">Plan ID: {plan.contract_plan_id}</p>
-                    </div>
-                  </div>
-
-                  <div className="space-y-3">
-                    <div className="flex items-center justify-between">
-                      <span className="flex items-center space-x-2">
-                        <DollarSign size={16} />
-                        <span className="font-medium">Price</span>
-                      </span>
-                      <span className="font-bold">{plan.price} {plan.token_symbol}</span>
-                    </div>
-
-                    <div className="flex items-center justify-between">
-                      <span className="flex items-center space-x-2">
-                        <Clock size={16} />
-                        <span className="font-medium">Period</span>
-                      </span>
-                      <span className="font-bold">{formatPeriod(plan.period_seconds)}</span>
-                    </div>
-
-                  </div>
-                </motion.div>
-              ))}
+              {activePlans.map((plan) => renderPlanCard(plan, false))}
             </div>
           )}
         </div>
+
+        {/* Archived Plans */}
+        {archivedPlans.length > 0 && (
+          <div className="space-y-4">
+            <h2 className="text-2xl font-bold text-black flex items-center space-x-2">
+              <Archive size={24} />
+              <span>Archived Plans</span>
+            </h2>
+            <p className="text-gray-600">Archived plans can't be chosen at checkout. Existing subscribers keep renewing until they cancel.</p>
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {archivedPlans.map((plan) => renderPlanCard(plan, true))}
+            </div>
+          </div>
+        )}
+
+        {/* Subscribers */}
+        {projectId && (
+          <ProjectSubscribers
+            projectId={projectId}
+            subscriptionManagerAddress={projectData?.project?.subscription_manager_address}
+          />
+        )}
+
+        {/* Treasury */}
+        {projectId && (
+          <ProjectTreasury
+            projectId={projectId}
+            subscriptionManagerAddress={projectData?.project?.subscription_manager_address}
+            tokens={treasuryTokens}
+          />
+        )}
+
+        {/* Automatic sweeps to the payout address */}
+        {projectId && (
+          <ProjectSweepSettings
+            projectId={projectId}
+            subscriptionManagerAddress={projectData?.project?.subscription_manager_address}
+            tokenAddress={projectData?.project?.supported_token?.token_address}
+            tokenSymbol={projectData?.project?.supported_token?.symbol}
+            tokenDecimals={projectData?.project?.supported_token?.decimals}
+            payoutAddress={projectData?.project?.payout_address}
+            sweepPolicy={projectData?.project?.sweep_policy}
+            sweepThreshold={projectData?.project?.sweep_threshold}
+            sweepIntervalSeconds={projectData?.project?.sweep_interval_seconds}
+            lastSweptAt={projectData?.project?.last_swept_at}
+            onSaved={() => loadProjectDetails(true)}
+          />
+        )}
+
+        {/* Promo codes */}
+        {projectId && (
+          <ProjectCoupons
+            projectId={projectId}
+            subscriptionManagerAddress={projectData?.project?.subscription_manager_address}
+            tokenSymbol={projectData?.project?.supported_token?.symbol}
+          />
+        )}
+
+        {/* Collection agent */}
+        {projectId && (
+          <ProjectAgentSettings
+            projectId={projectId}
+            agentAddress={projectData?.project?.agent_address}
+            onSaved={() => loadProjectDetails(true)}
+          />
+        )}
+
+        {/* Failed payment handling */}
+        {projectId && (
+          <ProjectDunningSettings
+            projectId={projectId}
+            gracePeriodSeconds={projectData?.project?.grace_period_seconds}
+            retryIntervalSeconds={projectData?.project?.retry_interval_seconds}
+            onSaved={() => loadProjectDetails(true)}
+          />
+        )}
+
+        {/* Webhooks */}
+        {projectId && <ProjectWebhooks projectId={projectId} />}
       </div>
     </div>
   )
@@ -39,26 +39,290 @@ interface Project {
   name: string;
   description: string;
   subscription_manager_address: string;
+  agent_address?: string | null;
+  grace_period_seconds?: number;
+  retry_interval_seconds?: number;
+  payout_address?: string | null;
+  sweep_policy?: SweepPolicy;
+  sweep_threshold?: number | null;
+  sweep_interval_seconds?: number | null;
+  last_swept_at?: number | null;
   supported_token?: TokenMetadata | null;
   plans?: SubscriptionPlan[];
 }
 
+type SweepPolicy = "off" | "every_payment" | "threshold" | "schedule";
+
+type ApiKeyPermission = "read_subscriptions" | "create_sessions" | "manage_plans" | "collect_payments";
+
+// Request counts from the worker's rate limiter; null when it could not be read
+interface ApiKeyUsage {
+  requests_today: number;
+  throttled_today: number;
+  requests_30d: number;
+  throttled_30d: number;
+  total_requests: number;
+  last_request_at: number | null;
+}
+
+// The full key is only returned by create and rotate; listings carry the prefix
 interface ApiKey {
   id: string;
-  key_value: string;
   name: string;
   description: string;
+  key_prefix: string;
+  key_value?: string;
+  project_id: string | null;
+  project_name: string | null;
+  permissions: ApiKeyPermission[];
+  // Unix seconds
+  created_at: number | null;
+  expires_at: number | null;
+  last_used_at: number | null;
+  revoked_at: number | null;
+  replaced_by_id: string | null;
   is_active: boolean;
+  usage?: ApiKeyUsage | null;
+}
+
+type AnalyticsRange = "7d" | "30d" | "90d" | "365d" | "all";
+
+// Amounts keyed by token symbol
+type TokenAmounts = Record<string, number>;
+
+interface AnalyticsBucket {
+  // Unix seconds
+  start: number;
+  end: number;
+  new_subscriptions: number;
+  cancellations: number;
+  churned: number;
+  active_subscribers: number;
+  mrr: TokenAmounts;
+  revenue: TokenAmounts;
+  payments: number;
+}
+
+interface ProjectAnalytics {
+  project_id: string;
+  range: AnalyticsRange;
+  bucket: "day" | "week" | "month";
+  start: number;
+  end: number;
+  summary: {
+    mrr: TokenAmounts;
+    active_subscribers: number;
+    trialing_subscribers: number;
+    past_due_subscribers: number;
+    paused_subscribers: number;
+    new_subscriptions: number;
+    cancellations: number;
+    churned: number;
+    churn_rate: number | null;
+    revenue: TokenAmounts;
+    revenue_all_time: TokenAmounts;
+  };
+  series: AnalyticsBucket[];
+  plans: {
+    plan_id: string;
+    contract_plan_id: number;
+    name: string;
+    token_symbol: string;
+    is_active: boolean;
+    active_subscribers: number;
+    mrr: number;
+    revenue: number;
+    payments: number;
+  }[];
+  tokens: {
+    token_symbol: string;
+    token_address: string | null;
+    mrr: number;
+    revenue: number;
+    revenue_all_time: number;
+  }[];
+}
+
+type SubscriberStatus = "active" | "paused" | "past_due" | "expired" | "cancelled";
+
+interface ProjectSubscriber {
+  id: string;
+  status: SubscriberStatus;
+  user_email: string | null;
+  user_wallet_address: string | null;
+  user_smart_account: string | null;
+  plan_id: string;
+  plan_name: string | null;
+  contract_plan_id: number | null;
+  contract_subscription_id: number | null;
+  token_symbol: string | null;
+  start_date: number;
+  next_payment_date: number | null;
+  last_payment_date: number | null;
+  trial_ends_at: number | null;
+  past_due_since: number | null;
+  grace_ends_at: number | null;
+  retry_count: number;
+  cancelled_at: number | null;
+  lifetime_value: number;
+  payments_count: number;
+  refunded_amount: number;
+}
+
+interface ProjectSubscriberFilters {
+  status?: SubscriberStatus;
+  plan_id?: string;
+  search?: string;
+  page?: number;
+  page_size?: number;
+}
+
+interface ProjectSubscriberPage {
+  subscribers: ProjectSubscriber[];
+  pagination: { page: number; page_size: number; total: number; total_pages: number };
+  status_counts: Partial<Record<SubscriberStatus, number>>;
+  plans: { id: string; name: string; contract_plan_id: number | null; is_active: boolean }[];
+}
+
+interface SubscriberPayment {
+  id: string;
+  amount: number;
+  token_symbol: string | null;
+  token_address: string | null;
+  payment_date: number;
+  tx_hash: string;
+  payment_type: "charge" | "proration";
+  proration_credit: number | null;
+  previous_plan_name: string | null;
+  invoice_number: string | null;
+  refunded_amount: number;
+  refunds: Refund[];
+}
+
+// One row of the signed-in user's billing history
+interface BillingHistoryPayment {
+  id: string;
+  payment_date: number;
+  project_id: string | null;
+  project_name: string | null;
+  company_name: string | null;
+  subscription_id: string | null;
+  plan_name: string | null;
+  amount: number;
+  token_symbol: string | null;
+  token_address: string | null;
+  payment_type: "charge" | "proration";
+  tx_hash: string;
+  invoice_number: string | null;
+  refunded_amount: number;
+}
+
+// from and to are unix seconds, both inclusive
+interface BillingHistoryFilters {
+  project_id?: string;
+  from?: number;
+  to?: number;
+  page?: number;
+  page_size?: number;
+}
+
+interface BillingHistoryPage {
+  payments: BillingHistoryPayment[];
+  pagination: { page: number; page_size: number; total: number; total_pages: number };
+  projects: { id: string; name: string | null; company_name: string | null }[];
+}
+
+// A subscriber's own payment, as listed for invoice downloads
+interface SubscriptionInvoice {
+  payment_id: string;
+  invoice_number: string | null;
+  amount: number;
+  token_symbol: string | null;
+  payment_date: number;
+  payment_type: "charge" | "proration";
+  tx_hash: string;
+}
+
+// A delegation exactly as the subscriber signed it at checkout
+interface SignedDelegationData {
+  delegate: `0x${string}`;
+  delegator: `0x${string}`;
+  authority: `0x${string}`;
+  caveats: Array<{
+    enforcer: `0x${string}`;
+    terms: `0x${string}`;
+    args: `0x${string}`;
+  }>;
+  salt: `0x${string}`;
+  signature: `0x${string}`;
+}
+
+// Caps stored next to the signed delegations; older delegations don't have them
+interface DelegationLimits {
+  spender: `0x${string}`;
+  maxAmount: string;
+  periodSeconds: number;
+  maxRedemptions?: number;
+  expiresAt: number;
+}
+
+// The approve and processPayment delegations a user signed for one subscription
+interface UserDelegationRecord {
+  id: string;
+  subscription_manager_address: string;
+  created_at: number;
+  delegation: {
+    signedApproveDelegation?: SignedDelegationData;
+    signedProcessPaymentDelegation?: SignedDelegationData;
+    limits?: DelegationLimits;
+  } | null;
+  subscriptions: {
+    id: string;
+    status: "active" | "past_due" | "paused";
+    contract_subscription_id: number | null;
+    plan_name: string | null;
+    project_name: string | null;
+  }[];
+}
+
+interface RevenueWithdrawal {
+  id: string;
+  token_address: string;
+  token_symbol: string | null;
+  amount: number;
+  recipient_address: string;
+  source: "manual" | "sweep";
+  withdrawn_at: number;
+  tx_hash: string;
+}
+
+interface Refund {
+  id: string;
+  amount: number;
+  reason: string | null;
+  refunded_at: number;
+  tx_hash: string;
 }
 
 interface Subscription {
+  id: string;
   plan_id: string;
+  contract_plan_id?: number | null;
+  project_id?: string | null;
+  contract_subscription_id?: number | null;
   plan_name: string;
   company_name: string;
   status: string;
   start_date: number;
   next_payment_date?: number;
   last_payment_date?: number;
+  trial_ends_at?: number | null;
+  paused_at?: number | null;
+  past_due_since?: number | null;
+  grace_ends_at?: number | null;
+  next_retry_at?: number | null;
+  retry_count?: number;
+  last_failure_reason?: string | null;
   cancelled_at?: number;
   subscription_manager_address?: string;
   price?: number;
@@ -90,6 +354,7 @@ interface SubscriptionPlan {
   token_address: string;
   token_symbol?: string;
   period_seconds: number;
+  trial_period_seconds?: number;
   is_active?: boolean;
 }
 
@@ -97,6 +362,7 @@ interface CreateProjectPlanInput {
   name: string;
   price: number;
   period_seconds: number;
+  trial_period_seconds?: number;
 }
 
 interface CreateProjectResponse {
@@ -122,14 +388,70 @@ export interface PaymentSession {
   companyName: string | null
   planDescription: string | null
   amount: number
+  // Plan price before the promo code discount
+  originalAmount?: number
+  coupon?: PaymentSessionCoupon | null
   tokenSymbol: string
   tokenAddress: string
   billingIntervalSeconds: number
   billingIntervalText: string
+  trialPeriodSeconds?: number
   metadata: Record<string, unknown>
   txHash: string | null
 }
 
+export interface PaymentSessionCoupon {
+  code: string
+  codeHash: `0x${string}`
+  contractCouponId: number
+  discountType: CouponDiscountType
+  discountValue: number
+  // 0 discounts every charge
+  durationCharges: number
+}
+
+export type CouponDiscountType = 'percent' | 'fixed'
+
+export interface Coupon {
+  id: string
+  contract_coupon_id: number
+  code: string
+  discount_type: CouponDiscountType
+  discount_value: number
+  duration_charges: number
+  max_redemptions: number
+  redemption_count: number
+  expires_at?: number | null
+  is_active: boolean
+}
+
+
+export type WebhookDeliveryStatus = 'pending' | 'sending' | 'succeeded' | 'failed'
+
+export interface WebhookEndpoint {
+  id: string
+  url: string
+  description?: string
+  is_active: boolean
+  secret_hint?: string | null
+  // Only present in the response that created the endpoint
+  secret?: string
+}
+
+export interface WebhookDelivery {
+  id: string
+  endpoint_id?: string
+  event_id: string
+  event_type: string
+  status: WebhookDeliveryStatus
+  attempt_count: number
+  next_attempt_at?: number | null
+  last_attempt_at?: number | null
+  response_status?: number | null
+  last_error?: string | null
+  delivered_at?: number | null
+}
+
 
 interface ContractSyncData {
   subscriptions?: UserSubscriptionData[];
@@ -180,20 +502,36 @@ class ApiService {
         }
       }
 
-      // Add timestamp and nonce for replay protection
+      const method = options.method || 'POST';
+
+      // Add timestamp and nonce for replay protection; GET requests carry them as headers
       if (!usesApiKey) {
-        bodyData.timestamp = Date.now();
-        bodyData.nonce = generateNonce();
+        if (method === 'GET') {
+          requestHeaders["X-Request-Timestamp"] = String(Date.now());
+          requestHeaders["X-Request-Nonce"] = generateNonce();
+        } else {
+          bodyData.timestamp = Date.now();
+          bodyData.nonce = generateNonce();
+        }
       }
 
       const requestOptions: RequestInit = {
         ...options,
-        method: options.method || 'POST',
+        method,
         headers: requestHeaders,
-        body: Object.keys(bodyData).length > 0 ? JSON.stringify(bodyData) : options.body,
+        body: method === 'GET'
+          ? undefined
+          : Object.keys(bodyData).length > 0 ? JSON.stringify(bodyData) : options.body,
       };
 
       const response = await fetch(`${API_BASE_URL}${endpoint}`, requestOptions);
+      if (response.ok && response.headers.get("Content-Type")?.includes("application/pdf")) {
+        return {
+          success: true,
+          data: (await response.blob()) as T,
+        };
+      }
+
       const responseText = await response.text();
       let data;
       try {
@@ -293,13 +631,16 @@ class ApiService {
    * Get user subscriptions by email
    */
   async getUserSubscriptions(): Promise<ApiResponse<{ subscriptions: Subscription[] }>> {
-    return this.makeRequest(
-      "/api/get-user-subscriptions",
-      {
-        method: "POST",
-        body: "",
-      }
+    const response = await this.makeRequest<{ data: { subscriptions: Subscription[] } }>(
+      "/v1/subscriptions",
+      { method: "GET" }
     );
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: { subscriptions: response.data.data.subscriptions } };
   }
 
   /**
@@ -323,6 +664,7 @@ class ApiService {
     description: string;
     factory_tx_hash: string;
     supported_token_address: string;
+    agent_address: string;
     plans: CreateProjectPlanInput[];
   }): Promise<ApiResponse<CreateProjectResponse>> {
     return this.makeRequest("/api/create-project", {
@@ -365,14 +707,8 @@ class ApiService {
       };
       error?: string;
     }>(
-      "/api/get-project-details",
-      {
-        method: "POST",
-        body: "",
-        headers: {
-          "X-Project-Id": projectId,
-        },
-      }
+      `/v1/projects/${encodeURIComponent(projectId)}`,
+      { method: "GET" }
     );
 
     if (!response.success) {
@@ -411,32 +747,54 @@ class ApiService {
   }
 
   /**
-   * Create API key for a project
+   * Create an API key scoped to one project; key_value is only returned here
    */
-  async createApiKey(keyData: {
-    developer_email: string;
-    project_id: string;
+  async createDeveloperApiKey(keyData: {
     name: string;
     description: string;
+    project_id: string;
+    permissions: ApiKeyPermission[];
+    expires_at?: number | null;
   }): Promise<ApiResponse<{ api_key: ApiKey }>> {
-    return this.makeRequest("/api/create-api-key", {
+    const response = await this.makeRequest<{ data: { api_key: ApiKey } }>("/api/create-developer-api-key", {
       method: "POST",
       body: JSON.stringify(keyData),
     });
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: { api_key: response.data.data.api_key } };
   }
 
   /**
-   * Create API key for a developer (not tied to specific project)
+   * Issue a replacement key; the old one keeps working for overlapSeconds (0 revokes it now)
    */
-  async createDeveloperApiKey(keyData: {
-    developer_email: string;
-    name: string;
-    description: string;
-  }): Promise<ApiResponse<{ api_key: ApiKey }>> {
-    return this.makeRequest("/api/create-developer-api-key", {
+  async rotateApiKey(apiKeyId: string, overlapSeconds: number): Promise<ApiResponse<{ api_key: ApiKey; replaced_api_key: ApiKey }>> {
+    const response = await this.makeRequest<{ data: { api_key: ApiKey; replaced_api_key: ApiKey } }>("/api/rotate-api-key", {
       method: "POST",
-      body: JSON.stringify(keyData),
+      body: JSON.stringify({ api_key_id: apiKeyId, overlap_seconds: overlapSeconds }),
     });
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data.data };
+  }
+
+  async revokeApiKey(apiKeyId: string): Promise<ApiResponse<{ api_key: ApiKey }>> {
+    const response = await this.makeRequest<{ data: { api_key: ApiKey } }>("/api/revoke-api-key", {
+      method: "POST",
+      body: JSON.stringify({ api_key_id: apiKeyId }),
+    });
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: { api_key: response.data.data.api_key } };
   }
 
   /**
@@ -446,6 +804,7 @@ class ApiService {
   async getUserDelegation(data: {
     user_smart_account: string;
     subscription_manager_address: string;
+    contract_subscription_id: number;
   }): Promise<ApiResponse<{ 
     delegation: {
       delegate: `0x${string}`;
@@ -459,6 +818,8 @@ class ApiService {
       salt: `0x${string}`;
       signature: `0x${string}`;
     }
+    // Other subscriptions renewed by a copy of the same signed delegation
+    shared_with_subscriptions: number[];
   }>> {
     return this.makeRequest("/api/get-user-delegation", {
       method: "POST",
@@ -466,6 +827,42 @@ class ApiService {
     });
   }
 
+  /**
+   * Every active delegation of the signed-in user, with the subscriptions that rely on it
+   */
+  async listUserDelegations(): Promise<ApiResponse<UserDelegationRecord[]>> {
+    const response = await this.makeRequest<{ success: boolean; error?: string; data?: { delegations: UserDelegationRecord[] } }>(
+      "/api/get-user-delegation",
+      {
+        method: "POST",
+        body: JSON.stringify({}),
+      }
+    );
+
+    if (!response.success || !response.data?.success || !response.data.data) {
+      return { success: false, error: response.data?.error || response.error };
+    }
+
+    return { success: true, data: response.data.data.delegations };
+  }
+
+  // Marks a delegation disabled on-chain in tx_hash as inactive, along with its shared copies
+  async revokeUserDelegation(delegationId: string, txHash: string): Promise<ApiResponse<{ revoked_ids: string[] }>> {
+    const response = await this.makeRequest<{ success: boolean; error?: string; data?: { revoked_ids: string[] } }>(
+      "/api/revoke-user-delegation",
+      {
+        method: "POST",
+        body: JSON.stringify({ delegation_id: delegationId, tx_hash: txHash }),
+      }
+    );
+
+    if (!response.success || !response.data?.success || !response.data.data) {
+      return { success: false, error: response.data?.error || response.error };
+    }
+
+    return { success: true, data: response.data.data };
+  }
+
   /**
    * Create subscription plan
    */
@@ -479,30 +876,48 @@ class ApiService {
       price: number;
       token_address: string;
       period_seconds: number;
+      trial_period_seconds?: number;
     }>;
   }): Promise<ApiResponse<{ plans: SubscriptionPlan[] }>> {
-    return this.makeRequest("/api/create-subscription-plan", {
+    const { project_id, ...plansData } = planData;
+    return this.makeRequest(`/v1/projects/${encodeURIComponent(project_id)}/plans`, {
       method: "POST",
-      body: JSON.stringify(planData),
+      body: JSON.stringify(plansData),
+    });
+  }
+
+  /**
+   * Archive or unarchive a plan after the on-chain transaction
+   */
+  async archiveSubscriptionPlan(archiveData: {
+    project_id: string;
+    contract_plan_id: number;
+    archived: boolean;
+    tx_hash: string;
+  }): Promise<ApiResponse<{ success: boolean; message?: string; error?: string; is_active?: boolean }>> {
+    const { project_id, contract_plan_id, ...updateData } = archiveData;
+    return this.makeRequest(`/v1/projects/${encodeURIComponent(project_id)}/plans/${contract_plan_id}`, {
+      method: "PATCH",
+      body: JSON.stringify(updateData),
     });
   }
 
   async createPaymentSession(payload: {
     project_id: string
     contract_plan_id: number
+    coupon_code?: string
     metadata?: Record<string, unknown>
     delegation_data?: Record<string, unknown>
   }): Promise<ApiResponse<{ session: PaymentSession }>> {
-    return this.makeRequest("/api/create-payment-session", {
+    return this.makeRequest("/v1/payment-sessions", {
       method: "POST",
       body: JSON.stringify(payload),
     });
   }
 
   async getPaymentSession(paymentId: string): Promise<ApiResponse<{ session: PaymentSession }>> {
-    return this.makeRequest("/api/get-payment-session", {
-      method: "POST",
-      body: JSON.stringify({ payment_id: paymentId }),
+    return this.makeRequest(`/v1/payment-sessions/${encodeURIComponent(paymentId)}`, {
+      method: "GET",
     });
   }
 
@@ -512,9 +927,10 @@ class ApiService {
     tx_hash?: string
     metadata?: Record<string, unknown>
   }): Promise<ApiResponse<{ session: PaymentSession }>> {
-    return this.makeRequest("/api/update-payment-session", {
-      method: "POST",
-      body: JSON.stringify(payload),
+    const { payment_id, ...updateData } = payload;
+    return this.makeRequest(`/v1/payment-sessions/${encodeURIComponent(payment_id)}`, {
+      method: "PATCH",
+      body: JSON.stringify(updateData),
     });
   }
 
@@ -531,14 +947,222 @@ class ApiService {
     );
   }
 
+  /**
+   * MRR, subscribers, churn and revenue for one of the developer's projects
+   */
+  async getProjectAnalytics(projectId: string, range: AnalyticsRange): Promise<ApiResponse<ProjectAnalytics>> {
+    const response = await this.makeRequest<{ data: ProjectAnalytics }>(
+      `/v1/projects/${encodeURIComponent(projectId)}/analytics?range=${range}`,
+      { method: "GET" }
+    );
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data.data };
+  }
+
+  /**
+   * One page of a project's subscribers; status counts cover every status so filter tabs can show totals
+   */
+  async getProjectSubscribers(
+    projectId: string,
+    filters: ProjectSubscriberFilters = {}
+  ): Promise<ApiResponse<ProjectSubscriberPage>> {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== "") query.set(key, String(value));
+    }
+    const queryString = query.toString();
+    const response = await this.makeRequest<{ data: ProjectSubscriberPage }>(
+      `/v1/projects/${encodeURIComponent(projectId)}/subscribers${queryString ? `?${queryString}` : ""}`,
+      { method: "GET" }
+    );
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data.data };
+  }
+
+  /**
+   * A single subscriber of a project with their payment history, newest first
+   */
+  async getProjectSubscriber(
+    projectId: string,
+    subscriptionId: string
+  ): Promise<ApiResponse<{ subscriber: ProjectSubscriber; payments: SubscriberPayment[] }>> {
+    const response = await this.makeRequest<{ data: { subscriber: ProjectSubscriber; payments: SubscriberPayment[] } }>(
+      `/v1/projects/${encodeURIComponent(projectId)}/subscribers/${encodeURIComponent(subscriptionId)}`,
+      { method: "GET" }
+    );
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data.data };
+  }
+
   /**
    * Get project details with subscription plans
    */
   async getProjectDetails(
     projectId: string
-  ): Promise<ApiResponse<{ project: Project; subscription_plans: SubscriptionPlan[] }>> {
+  ): Promise<ApiResponse<{ project: Project; subscription_plans: SubscriptionPlan[]; archived_plans?: SubscriptionPlan[] }>> {
+    return this.makeRequest(
+      `/v1/projects/${encodeURIComponent(projectId)}`,
+      { method: "GET" }
+    );
+  }
+
+  /**
+   * Update how long failed renewals stay past due and how often they are retried
+   */
+  async updateProjectDunning(dunningData: {
+    project_id: string;
+    grace_period_seconds: number;
+    retry_interval_seconds: number;
+  }): Promise<ApiResponse<{ success: boolean; grace_period_seconds?: number; retry_interval_seconds?: number; error?: string }>> {
+    return this.makeRequest("/api/update-project-dunning", {
+      method: "POST",
+      body: JSON.stringify(dunningData),
+    });
+  }
+
+  /**
+   * Change the agent new subscribers delegate renewals to
+   */
+  async updateProjectAgent(agentData: {
+    project_id: string;
+    agent_address: string;
+  }): Promise<ApiResponse<{ success: boolean; agent_address?: string; error?: string }>> {
+    return this.makeRequest("/api/update-project-agent", {
+      method: "POST",
+      body: JSON.stringify(agentData),
+    });
+  }
+
+  /**
+   * Get a project's promo codes
+   */
+  async getProjectCoupons(
+    projectId: string
+  ): Promise<ApiResponse<{ success: boolean; data?: { coupons: Coupon[] }; error?: string }>> {
+    return this.makeRequest(
+      "/api/get-project-coupons",
+      {
+        method: "POST",
+        body: "",
+        headers: {
+          "X-Project-Id": projectId,
+        },
+      }
+    );
+  }
+
+  /**
+   * Record a promo code after its createCoupon transaction is mined
+   */
+  async createCoupon(couponData: {
+    project_id: string;
+    code: string;
+    tx_hash: string;
+  }): Promise<ApiResponse<{ success: boolean; data?: { coupon: Coupon }; error?: string }>> {
+    return this.makeRequest("/api/create-coupon", {
+      method: "POST",
+      body: JSON.stringify(couponData),
+    });
+  }
+
+  /**
+   * The signed-in user's payments across every subscription, newest first
+   */
+  async getBillingHistory(filters: BillingHistoryFilters = {}): Promise<ApiResponse<BillingHistoryPage>> {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== "") query.set(key, String(value));
+    }
+    const queryString = query.toString();
+    const response = await this.makeRequest<{ data: BillingHistoryPage }>(
+      `/v1/payments${queryString ? `?${queryString}` : ""}`,
+      { method: "GET" }
+    );
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data.data };
+  }
+
+  /**
+   * The caller's payments on one of their subscriptions, newest first
+   */
+  async getSubscriptionInvoices(
+    subscriptionId: string
+  ): Promise<ApiResponse<{ success: boolean; data?: { invoices: SubscriptionInvoice[] }; error?: string }>> {
+    return this.makeRequest("/api/get-subscription-invoices", {
+      method: "POST",
+      body: JSON.stringify({ subscription_id: subscriptionId }),
+    });
+  }
+
+  /**
+   * Invoice PDF for a payment; available to the subscriber who paid and the merchant who was paid
+   */
+  async getInvoicePdf(paymentId: string): Promise<ApiResponse<Blob>> {
+    return this.makeRequest<Blob>("/api/get-invoice", {
+      method: "POST",
+      body: JSON.stringify({ payment_id: paymentId }),
+    });
+  }
+
+  /**
+   * Record a refund sent through the owner's smart account; the worker checks the Refunded event
+   */
+  async recordRefund(refundData: {
+    project_id: string;
+    payment_id: string;
+    tx_hash: string;
+    reason?: string;
+  }): Promise<ApiResponse<{ success: boolean; data?: { refund: Refund }; error?: string }>> {
+    return this.makeRequest("/api/record-refund", {
+      method: "POST",
+      body: JSON.stringify(refundData),
+    });
+  }
+
+  /**
+   * Update the automatic sweep policy; payout_tx_hash is the setPayoutAddress transaction when the address changed
+   */
+  async updateProjectSweep(sweepData: {
+    project_id: string;
+    sweep_policy: SweepPolicy;
+    sweep_threshold?: number | null;
+    sweep_interval_seconds?: number | null;
+    payout_tx_hash?: string;
+  }): Promise<ApiResponse<{
+    success: boolean;
+    payout_address?: string | null;
+    sweep_policy?: SweepPolicy;
+    sweep_threshold?: number | null;
+    sweep_interval_seconds?: number | null;
+    error?: string;
+  }>> {
+    return this.makeRequest("/api/update-project-sweep", {
+      method: "POST",
+      body: JSON.stringify(sweepData),
+    });
+  }
+
+  async getProjectWithdrawals(
+    projectId: string
+  ): Promise<ApiResponse<{ success: boolean; data?: { withdrawals: RevenueWithdrawal[] }; error?: string }>> {
     return this.makeRequest(
-      "/api/get-project-details",
+      "/api/get-project-withdrawals",
       {
         method: "POST",
         body: "",
@@ -549,6 +1173,79 @@ class ApiService {
     );
   }
 
+  /**
+   * Record a withdrawal sent through the owner's smart account; the worker reads its RevenueWithdrawn events
+   */
+  async recordWithdrawal(withdrawalData: {
+    project_id: string;
+    tx_hash: string;
+  }): Promise<ApiResponse<{ success: boolean; data?: { withdrawals: RevenueWithdrawal[] }; error?: string }>> {
+    return this.makeRequest("/api/record-withdrawal", {
+      method: "POST",
+      body: JSON.stringify(withdrawalData),
+    });
+  }
+
+  async deactivateCoupon(couponData: {
+    project_id: string;
+    coupon_id: string;
+    tx_hash: string;
+  }): Promise<ApiResponse<{ success: boolean; message?: string; error?: string }>> {
+    return this.makeRequest("/api/deactivate-coupon", {
+      method: "POST",
+      body: JSON.stringify(couponData),
+    });
+  }
+
+  /**
+   * Get a project's webhook endpoints and recent deliveries
+   */
+  async getWebhookEndpoints(
+    projectId: string
+  ): Promise<ApiResponse<{ success: boolean; data?: { endpoints: WebhookEndpoint[]; deliveries: WebhookDelivery[] }; error?: string }>> {
+    return this.makeRequest(
+      "/api/get-webhook-endpoints",
+      {
+        method: "POST",
+        body: "",
+        headers: {
+          "X-Project-Id": projectId,
+        },
+      }
+    );
+  }
+
+  /**
+   * Register a webhook endpoint for a project (the signing secret is returned once)
+   */
+  async createWebhookEndpoint(endpointData: {
+    project_id: string;
+    url: string;
+    description?: string;
+  }): Promise<ApiResponse<{ success: boolean; data?: { endpoint: WebhookEndpoint }; error?: string }>> {
+    return this.makeRequest("/api/create-webhook-endpoint", {
+      method: "POST",
+      body: JSON.stringify(endpointData),
+    });
+  }
+
+  async deleteWebhookEndpoint(endpointId: string): Promise<ApiResponse<{ success: boolean; message?: string; error?: string }>> {
+    return this.makeRequest("/api/delete-webhook-endpoint", {
+      method: "POST",
+      body: JSON.stringify({ endpoint_id: endpointId }),
+    });
+  }
+
+  /**
+   * Send a webhook.test event to an endpoint and return the delivery result
+   */
+  async sendTestWebhook(endpointId: string): Promise<ApiResponse<{ success: boolean; data?: { delivery: WebhookDelivery }; error?: string }>> {
+    return this.makeRequest("/api/send-test-webhook", {
+      method: "POST",
+      body: JSON.stringify({ endpoint_id: endpointId }),
+    });
+  }
+
   /**
    * Create subscription and optionally record payment in single API call
    */
@@ -565,8 +1262,8 @@ class ApiService {
     token_address: string;
     payment_date?: number;
     delegation_data?: Record<string, unknown>;
-  }): Promise<ApiResponse<{ success: boolean; message: string; subscription_id?: string; payment_id?: string }>> {
-    return this.makeRequest("/api/create-subscription", {
+  }): Promise<ApiResponse<{ success: boolean; message: string; subscription_id?: string; contract_subscription_id?: number | null; payment_id?: string }>> {
+    return this.makeRequest("/v1/subscriptions", {
       method: "POST",
       body: JSON.stringify(subscriptionData),
     });
@@ -580,6 +1277,7 @@ class ApiService {
     user_wallet_address: string;
     user_smart_account_address?: string;
     plan_id?: string;
+    contract_subscription_id?: number;
     tx_hash?: string;
     subscription_manager_address?: string;
     delegation?: unknown;
@@ -590,6 +1288,42 @@ class ApiService {
     });
   }
 
+  /**
+   * Record an on-chain pause or resume of a subscription
+   */
+  async setSubscriptionPaused(pauseData: {
+    user_email: string;
+    user_smart_account_address: string;
+    contract_subscription_id: number;
+    tx_hash: string;
+    subscription_manager_address: string;
+  }, paused: boolean): Promise<ApiResponse<{ success: boolean; message?: string; error?: string; status?: string; next_payment_date?: number | null }>> {
+    return this.makeRequest(paused ? "/api/pause-subscription" : "/api/resume-subscription", {
+      method: "POST",
+      body: JSON.stringify(pauseData),
+    });
+  }
+
+  /**
+   * Record an on-chain plan change and its proration payment
+   */
+  async changeSubscriptionPlan(changeData: {
+    user_email: string;
+    user_smart_account_address: string;
+    project_id: string;
+    contract_subscription_id: number;
+    new_plan_id: number;
+    tx_hash: string;
+    subscription_manager_address: string;
+    // Delegations signed for the new plan; they replace the subscription's old ones
+    delegation_data?: Record<string, unknown>;
+  }): Promise<ApiResponse<{ success: boolean; message?: string; error?: string; payment_id?: string | null; amount_charged?: number; proration_credit?: number; next_payment_date?: number }>> {
+    return this.makeRequest("/api/change-subscription-plan", {
+      method: "POST",
+      body: JSON.stringify(changeData),
+    });
+  }
+
   /**
    * Create developer profile
    */
@@ -635,4 +1369,24 @@ export type {
   UserSubscriptionData,
   Project,
   ApiKey,
+  ApiKeyPermission,
+  ApiKeyUsage,
+  AnalyticsRange,
+  AnalyticsBucket,
+  ProjectAnalytics,
+  SubscriberStatus,
+  ProjectSubscriber,
+  ProjectSubscriberFilters,
+  ProjectSubscriberPage,
+  SubscriberPayment,
+  SubscriptionInvoice,
+  SignedDelegationData,
+  DelegationLimits,
+  UserDelegationRecord,
+  BillingHistoryPayment,
+  BillingHistoryFilters,
+  BillingHistoryPage,
+  Refund,
+  RevenueWithdrawal,
+  SweepPolicy,
 };
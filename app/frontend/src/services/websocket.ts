@@ -9,6 +9,7 @@ export interface SubscriptionEvent {
   type: 'SubscriptionCreated' | 'SubscriptionCancelled' | 'PaymentProcessed';
   user: string;
   planId?: string;
+  subscriptionId?: string;
   amount?: string;
   timestamp: number;
   blockNumber: number;
@@ -153,6 +154,7 @@ class MonadWebSocketService {
         type: eventType as SubscriptionEvent['type'],
         user: decodedData.user || '',
         planId: decodedData.planId,
+        subscriptionId: decodedData.subscriptionId,
         amount: decodedData.amount,
         timestamp: Date.now(),
         blockNumber: parseInt(log.blockNumber, 16),
@@ -16,17 +16,28 @@ export interface SubscriptionPlan {
 
 export interface UserSubscription {
   id: string
+  // Database id of the subscription row, used to look up its payments
+  recordId?: string
   planId: string
+  contractPlanId?: number
+  contractSubscriptionId?: number
+  projectId?: string
   planName: string
   companyName: string
   startDate: Date
   endDate: Date
-  status: 'active' | 'expired' | 'cancelled'
+  status: 'active' | 'past_due' | 'paused' | 'expired' | 'cancelled'
   price: number
   txHash?: string
   cancelledAt?: Date
   cancellationEffectiveAt?: Date
   isCancellationPending: boolean
+  trialEndsAt?: Date
+  pausedAt?: Date
+  pastDueSince?: Date
+  graceEndsAt?: Date
+  nextRetryAt?: Date
+  lastFailureReason?: string
   subscriptionManagerAddress?: string
   tokenSymbol?: string
   tokenAddress?: string
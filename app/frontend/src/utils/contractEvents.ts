@@ -17,8 +17,8 @@ export function getEventSignature(signature: string): string {
  */
 export const EVENT_SIGNATURES = {
   SubscriptionCreated: getEventSignature('SubscriptionCreated(address,uint256,uint256)'),
-  SubscriptionCancelled: getEventSignature('SubscriptionCancelled(address)'),
-  PaymentProcessed: getEventSignature('PaymentProcessed(address,uint256,uint256)'),
+  SubscriptionCancelled: getEventSignature('SubscriptionCancelled(address,uint256)'),
+  PaymentProcessed: getEventSignature('PaymentProcessed(address,uint256,uint256,uint256)'),
   PlanCreated: getEventSignature('PlanCreated(uint256,uint256,address,uint256)'),
   PlanUpdated: getEventSignature('PlanUpdated(uint256,bool)'),
   ExecutorAuthorized: getEventSignature('ExecutorAuthorized(address,bool)')
@@ -43,18 +43,20 @@ export function decodeEventData(eventType: string, topics: string[], data: strin
     case 'SubscriptionCreated':
       return {
         user: '0x' + topics[1]?.slice(26), // indexed address
-        planId: decodeUint256(data, 0),
-        timestamp: decodeUint256(data, 32)
+        planId: decodeIndexedUint256(topics[2]),
+        subscriptionId: decodeIndexedUint256(topics[3])
       };
     
     case 'SubscriptionCancelled':
       return {
-        user: '0x' + topics[1]?.slice(26) // indexed address
+        user: '0x' + topics[1]?.slice(26), // indexed address
+        subscriptionId: decodeIndexedUint256(topics[2])
       };
     
     case 'PaymentProcessed':
       return {
         user: '0x' + topics[1]?.slice(26), // indexed address
+        subscriptionId: decodeIndexedUint256(topics[2]),
         amount: decodeUint256(data, 0),
         timestamp: decodeUint256(data, 32)
       };
@@ -92,6 +94,13 @@ function decodeUint256(data: string, offset: number): string {
   return BigInt('0x' + hex).toString();
 }
 
+/**
+ * Decode uint256 from an indexed topic
+ */
+function decodeIndexedUint256(topic: string | undefined): string {
+  return topic ? BigInt(topic).toString() : '0';
+}
+
 /**
  * Check if address matches (case insensitive)
  */
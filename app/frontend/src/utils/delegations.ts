@@ -0,0 +1,151 @@
+import { isAddress, pad, slice, toFunctionSelector, toHex } from 'viem'
+import { createDelegation, getDeleGatorEnvironment } from '@metamask/delegation-toolkit'
+import type { SignedDelegationData } from '../services/api'
+
+const MONAD_TESTNET_CHAIN_ID = 10143
+
+const APPROVE_SIGNATURE = 'approve(address,uint256)'
+const PROCESS_PAYMENT_SIGNATURE = 'processPayment(uint256)'
+const DEFAULT_AUTHORIZATION_SECONDS = 365 * 24 * 60 * 60
+
+const KNOWN_SELECTORS: Record<string, string> = {
+  [toFunctionSelector(APPROVE_SIGNATURE)]: APPROVE_SIGNATURE,
+  [toFunctionSelector(PROCESS_PAYMENT_SIGNATURE)]: PROCESS_PAYMENT_SIGNATURE,
+}
+
+// approve(spender, amount) calldata: 4 byte selector, then one 32 byte word per argument
+const APPROVE_SPENDER_OFFSET = 4
+const APPROVE_AMOUNT_OFFSET = 36
+// processPayment(subscriptionId) calldata: the subscription id is the first argument word
+const PROCESS_PAYMENT_SUBSCRIPTION_OFFSET = 4
+
+export interface DelegationCaps {
+  target?: `0x${string}`
+  functionName?: string
+  spender?: `0x${string}`
+  maxAmount?: bigint
+  subscriptionId?: bigint
+  validUntil?: number
+}
+
+export type RenewalDelegationPlan = {
+  // Plan price in token units (18 decimals)
+  price: bigint
+  periodSeconds: number
+  tokenAddress: `0x${string}`
+  // The project's collector, which redeems the delegations on renewal
+  agentAddress: string
+  expiresAt?: number
+}
+
+// Reads the limits back out of the caveat terms; a limit without a caveat is simply absent
+export const describeDelegationCaveats = (delegation: SignedDelegationData): DelegationCaps => {
+  const enforcers = getDeleGatorEnvironment(MONAD_TESTNET_CHAIN_ID)?.caveatEnforcers ?? {}
+  const enforcerName = (address: string) => Object.keys(enforcers)
+    .find((name) => enforcers[name as keyof typeof enforcers]?.toLowerCase() === address.toLowerCase())
+
+  const caps: DelegationCaps = {}
+  // Which argument a calldata pin covers depends on the method, so they are read after the loop
+  const calldataPins: Array<{ startIndex: number; value: `0x${string}` }> = []
+  for (const caveat of delegation.caveats ?? []) {
+    const terms = caveat.terms
+    if (!terms || terms === '0x') continue
+    switch (enforcerName(caveat.enforcer)) {
+      case 'AllowedTargetsEnforcer':
+        caps.target = slice(terms, 0, 20)
+        break
+      case 'AllowedMethodsEnforcer':
+        caps.functionName = KNOWN_SELECTORS[slice(terms, 0, 4)] ?? slice(terms, 0, 4)
+        break
+      case 'AllowedCalldataEnforcer':
+        calldataPins.push({ startIndex: Number(BigInt(slice(terms, 0, 32))), value: slice(terms, 32) })
+        break
+      case 'TimestampEnforcer':
+        caps.validUntil = Number(BigInt(slice(terms, 16, 32)))
+        break
+    }
+  }
+
+  for (const { startIndex, value } of calldataPins) {
+    if (caps.functionName === PROCESS_PAYMENT_SIGNATURE) {
+      if (startIndex === PROCESS_PAYMENT_SUBSCRIPTION_OFFSET) caps.subscriptionId = BigInt(value)
+      continue
+    }
+    if (startIndex === APPROVE_SPENDER_OFFSET) caps.spender = slice(value, 12)
+    if (startIndex === APPROVE_AMOUNT_OFFSET) caps.maxAmount = BigInt(value)
+  }
+
+  return caps
+}
+
+// Same delegations the payment window signs at checkout, for a subscription moving to another plan.
+// Keeps the previous expiry when it still covers the next renewal, and defaults to a year otherwise.
+export const buildRenewalDelegations = (
+  smartAccountAddress: `0x${string}`,
+  subscriptionManagerAddress: `0x${string}`,
+  subscriptionId: bigint,
+  plan: RenewalDelegationPlan,
+  now = Math.floor(Date.now() / 1000)
+) => {
+  const environment = getDeleGatorEnvironment(MONAD_TESTNET_CHAIN_ID)
+  if (!environment) {
+    throw new Error('Delegation environment not found for Monad Testnet')
+  }
+
+  if (!isAddress(plan.agentAddress)) {
+    throw new Error('Project has no collection agent configured')
+  }
+
+  const expiresAt = plan.expiresAt && plan.expiresAt > now + plan.periodSeconds
+    ? plan.expiresAt
+    : now + DEFAULT_AUTHORIZATION_SECONDS
+  const limits = {
+    spender: subscriptionManagerAddress,
+    maxAmount: plan.price.toString(),
+    periodSeconds: plan.periodSeconds,
+    maxRedemptions: Math.floor((expiresAt - now) / plan.periodSeconds) + 1,
+    expiresAt,
+  }
+
+  // A call budget of one redemption per billing period before expiry; the contract also refuses
+  // processPayment until a period has passed, and the collector redeems the approve together with it
+  const caveats = [
+    { type: 'timestamp' as const, afterThreshold: 0, beforeThreshold: expiresAt },
+    { type: 'limitedCalls' as const, limit: limits.maxRedemptions },
+  ]
+
+  const approveDelegation = createDelegation({
+    to: plan.agentAddress as `0x${string}`,
+    from: smartAccountAddress,
+    environment,
+    scope: {
+      type: 'functionCall',
+      targets: [plan.tokenAddress],
+      selectors: [APPROVE_SIGNATURE],
+      allowedCalldata: [
+        { startIndex: APPROVE_SPENDER_OFFSET, value: pad(subscriptionManagerAddress) },
+        { startIndex: APPROVE_AMOUNT_OFFSET, value: pad(toHex(plan.price)) },
+      ],
+    },
+    caveats,
+    salt: `0x${now.toString(16)}`,
+  })
+
+  const processPaymentDelegation = createDelegation({
+    to: plan.agentAddress as `0x${string}`,
+    from: smartAccountAddress,
+    environment,
+    scope: {
+      type: 'functionCall',
+      targets: [subscriptionManagerAddress],
+      selectors: [PROCESS_PAYMENT_SIGNATURE],
+      allowedCalldata: [
+        { startIndex: PROCESS_PAYMENT_SUBSCRIPTION_OFFSET, value: pad(toHex(subscriptionId)) },
+      ],
+    },
+    caveats,
+    salt: `0x${(now + 1).toString(16)}`,
+  })
+
+  return { approveDelegation, processPaymentDelegation, limits }
+}
@@ -0,0 +1,17 @@
+import { apiService } from '../services/api'
+
+// Fetch an invoice PDF and hand it to the browser as a download; resolves with an error message on failure
+export const downloadInvoice = async (paymentId: string, invoiceNumber: string | null): Promise<string | null> => {
+  const result = await apiService.getInvoicePdf(paymentId)
+  if (!result.success || !(result.data instanceof Blob)) {
+    return result.error || 'Failed to download invoice'
+  }
+
+  const url = URL.createObjectURL(result.data)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${invoiceNumber || `payment-${paymentId}`}.pdf`
+  link.click()
+  URL.revokeObjectURL(url)
+  return null
+}
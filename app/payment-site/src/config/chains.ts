@@ -24,6 +24,3 @@ export const monadTestnet = defineChain({
   },
   testnet: true,
 })
-
-//AGENT_ADDRESS_THAT_WILL_REDEEM_DELEGATIONS
-export const AGENT_ADDRESS = '0x406b16A36926814305dF25757c93d298b639Bef0'
\ No newline at end of file
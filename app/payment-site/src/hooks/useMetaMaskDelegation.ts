@@ -1,98 +1,222 @@
 import { useState, useCallback } from 'react'
 import { createDelegation, createExecution, ExecutionMode, type Delegation } from '@metamask/delegation-toolkit'
 import { getDeleGatorEnvironment } from '@metamask/delegation-toolkit'
-import { AGENT_ADDRESS } from '../config/chains'
+import { isAddress, pad, parseUnits, slice, toFunctionSelector, toHex, type Hex } from 'viem'
 import { monadTestnet } from '../config/chains'
 
+const APPROVE_SIGNATURE = 'approve(address,uint256)'
+const PROCESS_PAYMENT_SIGNATURE = 'processPayment(uint256)'
+
+const KNOWN_SELECTORS: Record<string, string> = {
+  [toFunctionSelector(APPROVE_SIGNATURE)]: APPROVE_SIGNATURE,
+  [toFunctionSelector(PROCESS_PAYMENT_SIGNATURE)]: PROCESS_PAYMENT_SIGNATURE,
+}
+
+// approve(spender, amount) calldata: 4 byte selector, then one 32 byte word per argument
+const APPROVE_SPENDER_OFFSET = 4
+const APPROVE_AMOUNT_OFFSET = 36
+// processPayment(subscriptionId) calldata: the subscription id is the first argument word
+const PROCESS_PAYMENT_SUBSCRIPTION_OFFSET = 4
+
+export type DelegationPlanData = {
+  price: number
+  duration: number
+  tokenAddress: string
+  // The project's collector, which redeems the delegations on renewal
+  agentAddress: string
+  trialPeriodSeconds?: number
+  expiresAt: number
+}
+
+// Limits the caveats enforce on-chain, kept alongside the signed delegations for display
+export type DelegationLimits = {
+  spender: `0x${string}`
+  maxAmount: string
+  periodSeconds: number
+  maxRedemptions: number
+  expiresAt: number
+}
+
+export type DelegationSummary = {
+  from?: `0x${string}`
+  to?: `0x${string}`
+  scopeType?: string
+  tokenAddress?: `0x${string}`
+  target?: `0x${string}`
+  functionName?: string
+  spender?: `0x${string}`
+  maxAmount?: bigint
+  subscriptionId?: bigint
+  maxRedemptions?: number
+  validUntil?: number
+} | null
+
+// Renewals start after the trial, or one period after the signup charge
+export const getDelegationLimits = (
+  subscriptionManagerAddress: `0x${string}`,
+  planData: DelegationPlanData,
+  now = Math.floor(Date.now() / 1000)
+): DelegationLimits => {
+  if (!Number.isFinite(planData.duration) || planData.duration <= 0) {
+    throw new Error('Plan billing period is missing')
+  }
+  const firstRenewalAt = now + ((planData.trialPeriodSeconds ?? 0) > 0 ? planData.trialPeriodSeconds! : planData.duration)
+  if (planData.expiresAt <= firstRenewalAt) {
+    throw new Error('Authorization must last until at least the first renewal')
+  }
+
+  return {
+    spender: subscriptionManagerAddress,
+    maxAmount: parseUnits(planData.price.toString(), 18).toString(),
+    periodSeconds: planData.duration,
+    maxRedemptions: Math.floor((planData.expiresAt - firstRenewalAt) / planData.duration) + 1,
+    expiresAt: planData.expiresAt,
+  }
+}
+
+const wordToAddress = (word: Hex) => slice(word, 12) as `0x${string}`
+
 export const useMetaMaskDelegation = () => {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  type DelegationSummary = {
-    from?: `0x${string}`
-    to?: `0x${string}`
-    scopeType?: string
-    tokenAddress?: `0x${string}`
-    maxAmount?: bigint
-  } | null
-
   const getDelegationSummary = useCallback((d?: (Delegation & { signature?: string }) | null): DelegationSummary => {
     const del = d
     if (!del) return null
-    const delAny = del as unknown as { from?: `0x${string}`; to?: `0x${string}`; delegator?: `0x${string}`; delegate?: `0x${string}`; scope?: { type?: string; tokenAddress?: `0x${string}`; maxAmount?: unknown }; authority?: { enforcer?: `0x${string}` }; caveats?: Array<{ enforcer?: `0x${string}` }> }
+    const delAny = del as unknown as { from?: `0x${string}`; to?: `0x${string}`; delegator?: `0x${string}`; delegate?: `0x${string}`; scope?: { type?: string; tokenAddress?: `0x${string}`; maxAmount?: unknown }; authority?: { enforcer?: `0x${string}` }; caveats?: Array<{ enforcer?: `0x${string}`; terms?: Hex }> }
     const scope = delAny.scope || {}
     const scopeType = scope.type || (delAny.authority?.enforcer ? 'authority' : (delAny.caveats && delAny.caveats.length > 0 ? 'caveat' : undefined))
-    return {
+    const summary: NonNullable<DelegationSummary> = {
       from: delAny.from ?? delAny.delegator,
       to: delAny.to ?? delAny.delegate,
       scopeType,
       tokenAddress: scope.tokenAddress,
       maxAmount: typeof scope.maxAmount === 'bigint' ? (scope.maxAmount as bigint) : undefined,
     }
+
+    // Read the limits back out of the caveat terms so what is shown is what gets signed
+    const enforcers = getDeleGatorEnvironment(monadTestnet.id)?.caveatEnforcers ?? {}
+    const enforcerName = (address?: string) => Object.keys(enforcers)
+      .find((name) => enforcers[name as keyof typeof enforcers]?.toLowerCase() === address?.toLowerCase())
+
+    // Which argument a calldata pin covers depends on the method, so they are read after the loop
+    const calldataPins: Array<{ startIndex: number; value: Hex }> = []
+    for (const caveat of delAny.caveats ?? []) {
+      const terms = caveat.terms
+      if (!terms || terms === '0x') continue
+      switch (enforcerName(caveat.enforcer)) {
+        case 'AllowedTargetsEnforcer':
+          summary.target = slice(terms, 0, 20) as `0x${string}`
+          break
+        case 'AllowedMethodsEnforcer':
+          summary.functionName = KNOWN_SELECTORS[slice(terms, 0, 4)] ?? slice(terms, 0, 4)
+          break
+        case 'AllowedCalldataEnforcer':
+          calldataPins.push({ startIndex: Number(BigInt(slice(terms, 0, 32))), value: slice(terms, 32) })
+          break
+        case 'LimitedCallsEnforcer':
+          summary.maxRedemptions = Number(BigInt(terms))
+          break
+        case 'TimestampEnforcer':
+          summary.validUntil = Number(BigInt(slice(terms, 16, 32)))
+          break
+      }
+    }
+
+    for (const { startIndex, value } of calldataPins) {
+      if (summary.functionName === PROCESS_PAYMENT_SIGNATURE) {
+        if (startIndex === PROCESS_PAYMENT_SUBSCRIPTION_OFFSET) summary.subscriptionId = BigInt(value)
+        continue
+      }
+      if (startIndex === APPROVE_SPENDER_OFFSET) summary.spender = wordToAddress(value)
+      if (startIndex === APPROVE_AMOUNT_OFFSET) summary.maxAmount = BigInt(value)
+    }
+
+    return summary
   }, [])
 
-  const createDelegationForUser = useCallback(async (
+  // Builds both delegations without signing them, so the caveats can be previewed first.
+  // processPayment is pinned to one subscription, so the id is only final once the subscription exists.
+  const buildDelegations = useCallback((
     smartAccountAddress: string,
     subscriptionManagerAddress: `0x${string}`,
-    planData: { price: number; duration: number; tokenAddress: string }
+    planData: DelegationPlanData,
+    subscriptionId: bigint
   ) => {
-    setIsLoading(true)
-    setError(null)
+    const environment = getDeleGatorEnvironment(monadTestnet.id)
+    if (!environment) {
+      throw new Error('Delegation environment not found for Monad Testnet')
+    }
 
-    try {
-      // console.log('Smart Account:', smartAccountAddress)
-      // Get delegation environment for Monad Testnet
-      const environment = getDeleGatorEnvironment(monadTestnet.id)
-      if (!environment) {
-        throw new Error('Delegation environment not found for Monad Testnet')
-      }
+    if (!isAddress(planData.agentAddress)) {
+      throw new Error('Project has no collection agent configured')
+    }
 
-      // Plan data for delegation
-      const tokenAddress = planData.tokenAddress
-      // const periodAmount = BigInt(Math.floor(planData.price * 1e18)) // Convert to wei
+    const tokenAddress = planData.tokenAddress as `0x${string}`
+    const agentAddress = planData.agentAddress as `0x${string}`
+    const limits = getDelegationLimits(subscriptionManagerAddress, planData)
+    const currentTime = Math.floor(Date.now() / 1000);
 
-      // console.log('Creating TWO separate delegations:', {
-      //   tokenAddress,
-      //   periodAmount: periodAmount.toString(),
-      //   smartAccountAddress,
-      //   subscriptionManager: subscriptionManagerAddress
-      // })
+    // A call budget of one redemption per billing period before expiry; the contract also refuses
+    // processPayment until a period has passed, and the collector redeems the approve together with it
+    const periodCaveats = [
+      { type: 'timestamp' as const, afterThreshold: 0, beforeThreshold: limits.expiresAt },
+      { type: 'limitedCalls' as const, limit: limits.maxRedemptions },
+    ]
 
-      const currentTime = Math.floor(Date.now() / 1000);
-
-      // Delegation 1: Approve token spending
-      const approveDelegation = createDelegation({
-        to: AGENT_ADDRESS as `0x${string}`, // Agent that will execute
-        from: smartAccountAddress as `0x${string}`,
-        environment,
-        scope: {
-          type: 'functionCall',
-          targets: [tokenAddress as `0x${string}`],
-          selectors: ['approve(address,uint256)'],
-        },
-        salt: `0x${currentTime.toString(16)}`,
-      })
+    // Delegation 1: approve the SubscriptionManager for at most one plan price
+    const approveDelegation = createDelegation({
+      to: agentAddress, // Agent that will execute
+      from: smartAccountAddress as `0x${string}`,
+      environment,
+      scope: {
+        type: 'functionCall',
+        targets: [tokenAddress],
+        selectors: [APPROVE_SIGNATURE],
+        allowedCalldata: [
+          { startIndex: APPROVE_SPENDER_OFFSET, value: pad(subscriptionManagerAddress) },
+          { startIndex: APPROVE_AMOUNT_OFFSET, value: pad(toHex(BigInt(limits.maxAmount))) },
+        ],
+      },
+      caveats: periodCaveats,
+      salt: `0x${currentTime.toString(16)}`,
+    })
 
-      // Delegation 2: ProcessPayment on SubscriptionManager
-      const processPaymentDelegation = createDelegation({
-        to: AGENT_ADDRESS as `0x${string}`, // Agent that will execute
-        from: smartAccountAddress as `0x${string}`,
-        environment,
-        scope: {
-          type: 'functionCall',
-          targets: [subscriptionManagerAddress],
-          selectors: ['processPayment(address)'],
-        },
-        salt: `0x${(currentTime + 1).toString(16)}`, // Different salt
-      })
+    // Delegation 2: ProcessPayment on SubscriptionManager, for this subscription only
+    const processPaymentDelegation = createDelegation({
+      to: agentAddress, // Agent that will execute
+      from: smartAccountAddress as `0x${string}`,
+      environment,
+      scope: {
+        type: 'functionCall',
+        targets: [subscriptionManagerAddress],
+        selectors: [PROCESS_PAYMENT_SIGNATURE],
+        allowedCalldata: [
+          { startIndex: PROCESS_PAYMENT_SUBSCRIPTION_OFFSET, value: pad(toHex(subscriptionId)) },
+        ],
+      },
+      caveats: periodCaveats,
+      salt: `0x${(currentTime + 1).toString(16)}`, // Different salt
+    })
 
-      // console.log('Two delegations created successfully!')
+    return {
+      approveDelegation,
+      processPaymentDelegation,
+      limits
+    }
+  }, [])
 
-      return {
-        approveDelegation,
-        processPaymentDelegation
-      }
+  const createDelegationForUser = useCallback(async (
+    smartAccountAddress: string,
+    subscriptionManagerAddress: `0x${string}`,
+    planData: DelegationPlanData,
+    subscriptionId: bigint
+  ) => {
+    setIsLoading(true)
+    setError(null)
 
+    try {
+      return buildDelegations(smartAccountAddress, subscriptionManagerAddress, planData, subscriptionId)
     } catch (err) {
       console.error('Error creating MetaMask delegations:', err)
       setError(err instanceof Error ? err.message : 'Failed to create delegations')
@@ -100,7 +224,7 @@ export const useMetaMaskDelegation = () => {
     } finally {
       setIsLoading(false)
     }
-  }, [])
+  }, [buildDelegations])
 
   const signDelegation = useCallback(async (smartAccount: { signDelegation?: (params: { delegation: Delegation }) => Promise<string> } & Record<string, unknown>, delegation: Delegation) => {
     if (!smartAccount) {
@@ -185,6 +309,7 @@ export const useMetaMaskDelegation = () => {
 
   return {
     createDelegation: createDelegationForUser,
+    buildDelegations,
     signDelegation,
     redeemDelegation,
     getDelegationSummary,
@@ -1,7 +1,7 @@
 import { useState } from 'react'
 import { useAccount, useWalletClient } from 'wagmi'
 import { usePrivy } from '@privy-io/react-auth'
-import { createPublicClient, http } from 'viem'
+import { createPublicClient, http, pad } from 'viem'
 import { parseUnits, encodeFunctionData } from 'viem'
 import { createBundlerClient, createPaymasterClient } from 'viem/account-abstraction'
 import type { SmartAccount as ViemSmartAccount } from 'viem/account-abstraction'
@@ -11,18 +11,11 @@ import { DelegationManager } from '@metamask/delegation-toolkit/contracts'
 import { monadTestnet } from 'viem/chains'
 import SubscriptionManagerABI from '../contracts/SubscriptionManager.json'
 import { apiService } from '../services/api'
+import type { DelegationLimits } from './useMetaMaskDelegation'
+import { EVENT_SIGNATURES } from '../utils/contractEvents'
 
 const MONAD_TESTNET_CHAIN_ID = 10143
 
-// Define subscription data type - using string to avoid BigInt serialization issues
-interface SubscriptionData {
-  active: boolean;
-  planId: bigint | string;
-  startTime: bigint | string;
-  endTime: bigint | string;
-  [key: string]: unknown;
-}
-
 // Define a flexible smart account type that works with both MetaMask and Viem
 interface FlexibleSmartAccount {
   address: `0x${string}`;
@@ -32,6 +25,13 @@ interface FlexibleSmartAccount {
 
 type SignedDelegation = Delegation & { signature: string; salt?: string | number | bigint }
 
+// Signs the renewal delegations once the new subscription's on-chain id is known
+type SignRenewalDelegations = (subscriptionId: bigint) => Promise<{
+  signedApproveDelegation: SignedDelegation
+  signedProcessPaymentDelegation: SignedDelegation
+  limits: DelegationLimits
+}>
+
 const serializeDelegation = (delegation: SignedDelegation): Record<string, unknown> => {
   try {
     return JSON.parse(
@@ -91,13 +91,17 @@ export const useSmartAccountContractWriter = () => {
     tokenAddress: string,
     subscriptionManagerAddress: `0x${string}`,
     projectIdOverride?: string,
-    signedApproveDelegation?: SignedDelegation,
-    signedProcessPaymentDelegation?: SignedDelegation
+    signRenewalDelegations?: SignRenewalDelegations,
+    trialPeriodSeconds = 0,
+    couponCodeHash?: `0x${string}`
   ) => {
     if (!smartAccount) {
       throw new Error('Smart Account not available')
     }
 
+    // Trial plans are not charged at signup, so no balance or allowance is needed yet
+    const hasTrial = trialPeriodSeconds > 0
+
     setIsLoading(true)
     setError(null)
 
@@ -105,74 +109,62 @@ export const useSmartAccountContractWriter = () => {
       // Convert price to wei (18 decimals for USDC)
       const priceInWei = parseUnits(planPrice.toString(), 18)
 
-      // --- Parallelized reads ---
-      // console.log('=== Checking balance + existing subscription in parallel ===')
-      const [smartAccountBalance, existingSubscription] = await Promise.all([
-        publicClient.readContract({
-          address: tokenAddress as `0x${string}`,
-          abi: [
-            {
-              constant: true,
-              inputs: [{ internalType: 'address', name: 'account', type: 'address' }],
-              name: 'balanceOf',
-              outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-              stateMutability: 'view',
-              type: 'function',
-            },
-          ],
-          functionName: 'balanceOf',
-          args: [smartAccount.address as `0x${string}`],
-        }),
-        publicClient.readContract({
-          address: subscriptionManagerAddress,
-          abi: SubscriptionManagerABI.abi,
-          functionName: 'getUserSubscription',
-          args: [smartAccount.address as `0x${string}`],
-        }),
-      ])
+      // Existing subscriptions are left alone: a smart account can hold several at once (e.g. add-ons)
+      const smartAccountBalance = await publicClient.readContract({
+        address: tokenAddress as `0x${string}`,
+        abi: [
+          {
+            constant: true,
+            inputs: [{ internalType: 'address', name: 'account', type: 'address' }],
+            name: 'balanceOf',
+            outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+            stateMutability: 'view',
+            type: 'function',
+          },
+        ],
+        functionName: 'balanceOf',
+        args: [smartAccount.address as `0x${string}`],
+      })
       
-      if (Number(smartAccountBalance) < Number(priceInWei)) {
+      if (!hasTrial && Number(smartAccountBalance) < Number(priceInWei)) {
         throw new Error(`Smart Account needs ${planPrice} USDC but only has ${Number(smartAccountBalance) / 1e18} USDC`)
       }
       
       const calls: { to: `0x${string}`; data: `0x${string}` }[] = []
       
       // 1) Approve token spending
-      const approveCalldata = encodeFunctionData({
-        abi: [
-          {
-            constant: false,
-            inputs: [
-              { internalType: 'address', name: 'spender', type: 'address' },
-              { internalType: 'uint256', name: 'amount', type: 'uint256' },
-            ],
-            name: 'approve',
-            outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
-            stateMutability: 'nonpayable',
-            type: 'function',
-          },
-        ] as const,
-        functionName: 'approve',
-        args: [subscriptionManagerAddress, priceInWei],
-      })
-      calls.push({ to: tokenAddress as `0x${string}`, data: approveCalldata })
-      // 2) Optional cancel
-      if (existingSubscription && typeof existingSubscription === 'object' && 'active' in existingSubscription && (existingSubscription as SubscriptionData).active) {
-        // console.log('User has active subscription — cancelling first...')
-        const cancelCallData = encodeFunctionData({
-          abi: SubscriptionManagerABI.abi,
-          functionName: 'cancelSubscription',
-          args: [],
+      if (!hasTrial) {
+        const approveCalldata = encodeFunctionData({
+          abi: [
+            {
+              constant: false,
+              inputs: [
+                { internalType: 'address', name: 'spender', type: 'address' },
+                { internalType: 'uint256', name: 'amount', type: 'uint256' },
+              ],
+              name: 'approve',
+              outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+              stateMutability: 'nonpayable',
+              type: 'function',
+            },
+          ] as const,
+          functionName: 'approve',
+          args: [subscriptionManagerAddress, priceInWei],
         })
-        calls.push({ to: subscriptionManagerAddress, data: cancelCallData })
+        calls.push({ to: tokenAddress as `0x${string}`, data: approveCalldata })
       }
-
-      // 3) Subscribe with payment
-      const subscribeCalldata = encodeFunctionData({
-        abi: SubscriptionManagerABI.abi,
-        functionName: 'subscribeWithPayment',
-        args: [BigInt(planId)],
-      })
+      // 2) Subscribe with payment; planPrice is already discounted when a promo code is redeemed
+      const subscribeCalldata = couponCodeHash
+        ? encodeFunctionData({
+          abi: SubscriptionManagerABI.abi,
+          functionName: 'subscribeWithCoupon',
+          args: [BigInt(planId), couponCodeHash],
+        })
+        : encodeFunctionData({
+          abi: SubscriptionManagerABI.abi,
+          functionName: 'subscribeWithPayment',
+          args: [BigInt(planId)],
+        })
       calls.push({ to: subscriptionManagerAddress, data: subscribeCalldata })
 
       if (!bundlerClient || !paymasterClient) {
@@ -201,11 +193,27 @@ export const useSmartAccountContractWriter = () => {
           }
           const projectId = projectIdOverride;
           
-          // Prepare delegation data with both approve and processPayment delegations
-          const delegationData = (signedApproveDelegation && signedProcessPaymentDelegation) ? {
-            signedApproveDelegation: serializeDelegation(signedApproveDelegation),
-            signedProcessPaymentDelegation: serializeDelegation(signedProcessPaymentDelegation)
-          } : undefined;
+          // Prepare delegation data with both approve and processPayment delegations, pinned to the new subscription
+          const createdLog = receipt?.receipt?.logs?.find((log) =>
+            log.address.toLowerCase() === subscriptionManagerAddress.toLowerCase() &&
+            log.topics[0]?.toLowerCase() === EVENT_SIGNATURES.SubscriptionCreated.toLowerCase() &&
+            log.topics[1]?.toLowerCase() === pad(smartAccount.address as `0x${string}`).toLowerCase()
+          )
+          let delegationData: Record<string, unknown> | undefined
+          if (signRenewalDelegations && createdLog?.topics[3]) {
+            try {
+              const signed = await signRenewalDelegations(BigInt(createdLog.topics[3]))
+              delegationData = {
+                signedApproveDelegation: serializeDelegation(signed.signedApproveDelegation),
+                signedProcessPaymentDelegation: serializeDelegation(signed.signedProcessPaymentDelegation),
+                limits: signed.limits
+              }
+            } catch (signError) {
+              console.error('Failed to sign renewal delegations:', signError)
+            }
+          } else if (signRenewalDelegations) {
+            console.error('SubscriptionCreated event not found; renewal delegations were not signed')
+          }
 
           const subscriptionResult = await apiService.createSubscription({
             user_email: user.email.address,
@@ -249,6 +257,7 @@ export const useSmartAccountContractWriter = () => {
     smartAccount: FlexibleSmartAccount,
     tokenAddress: string,
     subscriptionManagerAddress: `0x${string}`,
+    contractSubscriptionId: number,
     planId?: string
   ) => {
     if (!smartAccount) {
@@ -273,6 +282,7 @@ export const useSmartAccountContractWriter = () => {
         const delegationResponse = await apiService.getUserDelegation({
           user_smart_account: smartAccount.address,
           subscription_manager_address: subscriptionManagerAddress,
+          contract_subscription_id: contractSubscriptionId,
         })
 
         // console.log('Delegation API response:', delegationResponse)
@@ -288,7 +298,7 @@ export const useSmartAccountContractWriter = () => {
         console.log('Error fetching delegation:', error)
       }
 
-      // 2. Revoke token approval FIRST
+      // 2. Revoke token approval FIRST; renewals of other subscriptions approve again right before each charge
       const revokeCalldata = encodeFunctionData({
         abi: [
           {
@@ -315,36 +325,41 @@ export const useSmartAccountContractWriter = () => {
       const cancelCallData = encodeFunctionData({
         abi: SubscriptionManagerABI.abi,
         functionName: 'cancelSubscription',
-        args: []
+        args: [BigInt(contractSubscriptionId)]
       })
       calls.push({ to: subscriptionManagerAddress, data: cancelCallData })
-      // 3. Add disable delegation call if delegation exists
-      if (delegation) {
+      // 4. Disable this subscription's approve and processPayment delegations
+      const storedPair = (delegation ?? {}) as { signedApproveDelegation?: unknown; signedProcessPaymentDelegation?: unknown }
+      const delegationsForDisable = [storedPair.signedApproveDelegation, storedPair.signedProcessPaymentDelegation]
+        .filter((entry) => entry && typeof entry === 'object')
+      if (delegationsForDisable.length > 0) {
         const environment = getDeleGatorEnvironment(MONAD_TESTNET_CHAIN_ID)
         if (environment) {
-          try {
-            const disableDelegationCalldata = DelegationManager.encode.disableDelegation({
-              delegation: delegation as {
-                delegate: `0x${string}`;
-                delegator: `0x${string}`;
-                authority: `0x${string}`;
-                caveats: Array<{
-                  enforcer: `0x${string}`;
-                  terms: `0x${string}`;
-                  args: `0x${string}`;
-                }>;
-                salt: `0x${string}`;
-                signature: `0x${string}`;
-              },
-            })
-
-            calls.push({
-              to: environment.DelegationManager,
-              data: disableDelegationCalldata,
-            })
-          } catch (encodeError) {
-            console.error('Failed to encode disable delegation:', encodeError)
-            // Don't throw - continue with cancel operations
+          for (const delegationForDisable of delegationsForDisable) {
+            try {
+              const disableDelegationCalldata = DelegationManager.encode.disableDelegation({
+                delegation: delegationForDisable as {
+                  delegate: `0x${string}`;
+                  delegator: `0x${string}`;
+                  authority: `0x${string}`;
+                  caveats: Array<{
+                    enforcer: `0x${string}`;
+                    terms: `0x${string}`;
+                    args: `0x${string}`;
+                  }>;
+                  salt: `0x${string}`;
+                  signature: `0x${string}`;
+                },
+              })
+
+              calls.push({
+                to: environment.DelegationManager,
+                data: disableDelegationCalldata,
+              })
+            } catch (encodeError) {
+              console.error('Failed to encode disable delegation:', encodeError)
+              // Don't throw - continue with cancel operations
+            }
           }
         } else {
           console.warn('DeleGator environment not found for chain ID:', MONAD_TESTNET_CHAIN_ID)
@@ -370,6 +385,7 @@ export const useSmartAccountContractWriter = () => {
             user_smart_account_address: smartAccount.address,
             subscription_manager_address: subscriptionManagerAddress,
             plan_id: planId,
+            contract_subscription_id: contractSubscriptionId,
             tx_hash: txHash
           });
 
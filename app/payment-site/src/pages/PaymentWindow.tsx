@@ -3,23 +3,29 @@ import { useNavigate, useParams } from 'react-router-dom'
 import { motion } from 'framer-motion'
 import { CreditCard, Shield, Clock, CheckCircle2, AlertTriangle, ArrowLeft, ChevronDown } from 'lucide-react'
 import { useAuth } from '../hooks/useAuth'
-import { apiService, type PaymentSession, type PaymentSessionStatus } from '../services/api'
+import { apiService, type PaymentSession, type PaymentSessionCoupon, type PaymentSessionStatus } from '../services/api'
 import { useSmartAccount } from '../hooks/useSmartAccount'
 import { useSmartAccountContractWriter } from '../hooks/useSmartAccountContractWriter'
-import { useMetaMaskDelegation } from '../hooks/useMetaMaskDelegation'
+import { formatUnits } from 'viem'
+import { getDelegationLimits, useMetaMaskDelegation, type DelegationPlanData } from '../hooks/useMetaMaskDelegation'
+import { notifyCheckoutHost } from '../utils/checkoutMessages'
 
 type DisplaySession = {
   paymentId: string
   planName: string
   companyName: string
   amount: number
+  originalAmount: number
+  coupon: PaymentSessionCoupon | null
   tokenSymbol: string
   tokenAddress: string
+  agentAddress: string
   billingInterval: string
   nextPaymentDescription: string
   status: PaymentSessionStatus
   expiresAt: number
   billingIntervalSeconds: number
+  trialPeriodSeconds: number
   planId: string
   contractPlanId: number
   metadata: PaymentSession['metadata']
@@ -42,13 +48,17 @@ function transformPaymentSession(raw: PaymentSession): DisplaySession {
     planName: raw.planName,
     companyName: raw.companyName ?? 'Autiv',
     amount: raw.amount,
+    originalAmount: raw.originalAmount ?? raw.amount,
+    coupon: raw.coupon ?? null,
     tokenSymbol: raw.tokenSymbol,
     tokenAddress: raw.tokenAddress,
+    agentAddress: raw.agentAddress,
     billingInterval,
     nextPaymentDescription,
     status: raw.status,
     expiresAt: raw.expiresAt,
     billingIntervalSeconds: raw.billingIntervalSeconds,
+    trialPeriodSeconds: raw.trialPeriodSeconds ?? 0,
     planId: raw.planId,
     contractPlanId: raw.contractPlanId,
     metadata: raw.metadata,
@@ -56,6 +66,63 @@ function transformPaymentSession(raw: PaymentSession): DisplaySession {
   }
 }
 
+function describeCouponDiscount(coupon: PaymentSessionCoupon, tokenSymbol: string) {
+  const discount = coupon.discountType === 'percent'
+    ? `${coupon.discountValue}% off`
+    : `${coupon.discountValue} ${tokenSymbol} off`
+  if (!coupon.durationCharges) return `${discount} every charge`
+  return coupon.durationCharges === 1
+    ? `${discount} the first charge`
+    : `${discount} the first ${coupon.durationCharges} charges`
+}
+
+// The trial starts when the subscription lands on-chain, so the end date is relative to now
+function formatTrialEndDate(trialPeriodSeconds: number) {
+  return new Date(Date.now() + trialPeriodSeconds * 1000).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+const DEFAULT_AUTHORIZATION_DAYS = 365
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function toDateInputValue(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// Date inputs give local calendar days; the authorization lasts until the end of the chosen day
+function toEndOfDaySeconds(value: string) {
+  return Math.floor(new Date(`${value}T23:59:59`).getTime() / 1000)
+}
+
+function formatTimestamp(seconds: number) {
+  return new Date(seconds * 1000).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+function shortenAddress(address?: string) {
+  return address ? `${address.slice(0, 6)}...${address.slice(-4)}` : '-'
+}
+
+// Renewals return to the full price once a limited promo code runs out
+function toDelegationPlanData(session: DisplaySession, authorizationExpiry: string): DelegationPlanData {
+  return {
+    price: session.originalAmount,
+    duration: typeof session.metadata?.duration === 'number' ? session.metadata.duration : session.billingIntervalSeconds,
+    tokenAddress: session.tokenAddress,
+    agentAddress: session.agentAddress,
+    trialPeriodSeconds: session.trialPeriodSeconds,
+    expiresAt: toEndOfDaySeconds(authorizationExpiry),
+  }
+}
+
 function formatDuration(secondsRemaining: number) {
   if (secondsRemaining <= 0) return 'Expired'
   const minutes = Math.floor(secondsRemaining / 60)
@@ -111,6 +178,8 @@ const PaymentWindow = () => {
   } = useSmartAccountContractWriter()
   const {
     createDelegation,
+    buildDelegations,
+    getDelegationSummary,
     signDelegation,
     isLoading: delegationLoading,
     error: delegationError,
@@ -125,6 +194,9 @@ const PaymentWindow = () => {
   const [txHash, setTxHash] = useState<string | null>(null)
   const [copied, setCopied] = useState(false)
   const [showAccountMenu, setShowAccountMenu] = useState(false)
+  const [authorizationExpiry, setAuthorizationExpiry] = useState(() =>
+    toDateInputValue(new Date(Date.now() + DEFAULT_AUTHORIZATION_DAYS * DAY_MS))
+  )
 
   const fetchSession = useCallback(async (showSpinner = false) => {
     if (!paymentId) return
@@ -171,6 +243,15 @@ const PaymentWindow = () => {
     return () => clearInterval(interval)
   }, [session])
 
+  // Let a merchant page using the checkout SDK know once the session is settled
+  const sessionStatus = session?.status
+  useEffect(() => {
+    if (!paymentId || !sessionStatus) return
+    if (sessionStatus === 'paid' || sessionStatus === 'expired') {
+      notifyCheckoutHost(paymentId, sessionStatus)
+    }
+  }, [paymentId, sessionStatus])
+
   useEffect(() => {
     if (!authenticated || !isWalletClientReady) return
     if (smartAccountResult?.smartAccount) return
@@ -221,22 +302,25 @@ const PaymentWindow = () => {
         throw new Error('Missing subscription manager address for this payment session')
       }
 
-      const delegationPayload = {
-        price: session.amount,
-        duration: typeof session.metadata?.duration === 'number' ? session.metadata.duration : session.billingIntervalSeconds,
-        tokenAddress: session.tokenAddress,
+      // processPayment is only delegated for the subscription this payment creates, so signing waits for its id
+      const planData = toDelegationPlanData(session, authorizationExpiry)
+      // Check the authorization period before paying, since the delegations are only built afterwards
+      getDelegationLimits(subscriptionManagerAddress, planData)
+      const signRenewalDelegations = async (subscriptionId: bigint) => {
+        setDelegationStep('creating')
+        const { approveDelegation, processPaymentDelegation, limits } = await createDelegation(
+          smartAccount.address,
+          subscriptionManagerAddress,
+          planData,
+          subscriptionId
+        )
+
+        setDelegationStep('signing')
+        const signedApproveDelegation = await signDelegation(smartAccount, approveDelegation)
+        const signedProcessPaymentDelegation = await signDelegation(smartAccount, processPaymentDelegation)
+        return { signedApproveDelegation, signedProcessPaymentDelegation, limits }
       }
 
-      const { approveDelegation, processPaymentDelegation } = await createDelegation(
-        smartAccount.address,
-        subscriptionManagerAddress,
-        delegationPayload
-      )
-
-      setDelegationStep('signing')
-      const signedApproveDelegation = await signDelegation(smartAccount, approveDelegation)
-      const signedProcessPaymentDelegation = await signDelegation(smartAccount, processPaymentDelegation)
-
       setDelegationStep('subscribing')
 
       await apiService.updatePaymentSession({
@@ -263,8 +347,9 @@ const PaymentWindow = () => {
         session.tokenAddress,
         subscriptionManagerAddress,
         metadataProjectId,
-        signedApproveDelegation,
-        signedProcessPaymentDelegation
+        signRenewalDelegations,
+        session.trialPeriodSeconds,
+        session.coupon?.codeHash
       )
 
       setDelegationStep('finalizing')
@@ -305,6 +390,33 @@ const PaymentWindow = () => {
 
   const countdown = useMemo(() => formatDuration(secondsRemaining), [secondsRemaining])
 
+  // Same delegations the subscriber is about to sign, decoded so the limits can be checked first
+  const smartAccountAddress = smartAccountResult?.smartAccount?.address
+  const delegationPreview = useMemo(() => {
+    const subscriptionManagerAddress = session?.metadata?.subscription_manager_address as `0x${string}` | undefined
+    if (!session || !smartAccountAddress || !subscriptionManagerAddress || !session.tokenAddress) return null
+    try {
+      // The subscription id is not known until checkout; it does not change the limits shown
+      const { approveDelegation, processPaymentDelegation } = buildDelegations(
+        smartAccountAddress,
+        subscriptionManagerAddress,
+        toDelegationPlanData(session, authorizationExpiry),
+        0n
+      )
+      return {
+        approve: getDelegationSummary(approveDelegation),
+        processPayment: getDelegationSummary(processPaymentDelegation),
+        error: null
+      }
+    } catch (err) {
+      return {
+        approve: null,
+        processPayment: null,
+        error: err instanceof Error ? err.message : 'Invalid renewal authorization'
+      }
+    }
+  }, [session, smartAccountAddress, authorizationExpiry, buildDelegations, getDelegationSummary])
+
   const normalizedEmail = useMemo(() => {
     if (!user) return undefined
     const emailField = (user as { email?: unknown }).email
@@ -414,6 +526,11 @@ const PaymentWindow = () => {
   const currentStatus = statusStyles[session.status]
   const actionLoading = isProcessingPayment || smartAccountLoading || contractLoading || delegationLoading
   const smartAccountReady = Boolean(smartAccountResult?.smartAccount)
+  const hasTrial = session.trialPeriodSeconds > 0
+  const trialEndDate = hasTrial ? formatTrialEndDate(session.trialPeriodSeconds) : null
+  const firstRenewalDate = toDateInputValue(new Date(Date.now() + (hasTrial ? session.trialPeriodSeconds : session.billingIntervalSeconds) * 1000))
+  const approveSummary = delegationPreview?.approve
+  const processPaymentSummary = delegationPreview?.processPayment
 
   const combinedError = error || smartAccountError || contractError || delegationError
 
@@ -522,17 +639,76 @@ const PaymentWindow = () => {
               </div>
 
               <div className="flex flex-wrap items-baseline gap-4">
+                {session.coupon && (
+                  <p className="text-3xl font-black text-gray-500 line-through">{session.originalAmount}</p>
+                )}
                 <p className="text-5xl font-black text-black">{session.amount}</p>
                 <p className="text-3xl font-black text-black">{session.tokenSymbol}</p>
                 <span className="text-lg font-bold text-gray-700">{session.billingInterval}</span>
               </div>
 
               <div className="space-y-2 text-sm font-semibold text-gray-700">
+                {hasTrial && (
+                  <p>• Free trial until <span className="font-black">{trialEndDate}</span>, first charge of {session.amount} {session.tokenSymbol} on that date</p>
+                )}
+                {session.coupon && (
+                  <p>
+                    • Promo code <span className="font-black">{session.coupon.code}</span>: {describeCouponDiscount(session.coupon, session.tokenSymbol)}
+                    {session.coupon.durationCharges > 0 && `, then ${session.originalAmount} ${session.tokenSymbol}`}
+                  </p>
+                )}
                 <p>• Automatic renewals authorized via delegation</p>
                 <p>• Cancel anytime from your subscription dashboard</p>
                 <p>• Session expires in <span className="font-black">{countdown}</span></p>
               </div>
 
+              {session.status !== 'paid' && (
+                <div
+                  className="p-4 space-y-3"
+                  style={{ border: '3px solid #000000', backgroundColor: '#fffae6', boxShadow: '4px 4px 0px #000000' }}
+                >
+                  <div className="flex items-center gap-2">
+                    <Shield className="w-5 h-5 text-black" />
+                    <p className="text-sm font-black text-black uppercase tracking-wide">Renewal Authorization</p>
+                  </div>
+                  <label className="flex flex-wrap items-center gap-3 text-sm font-bold text-black">
+                    <span>Allow renewals until</span>
+                    <input
+                      type="date"
+                      value={authorizationExpiry}
+                      min={firstRenewalDate}
+                      onChange={(e) => setAuthorizationExpiry(e.target.value)}
+                      disabled={actionLoading}
+                      className="px-3 py-1 font-bold"
+                      style={{ backgroundColor: '#ffffff', border: '2px solid #000000', boxShadow: '2px 2px 0px #000000' }}
+                    />
+                  </label>
+                  {delegationPreview?.error ? (
+                    <p className="text-sm font-semibold text-red-700">{delegationPreview.error}</p>
+                  ) : approveSummary && processPaymentSummary ? (
+                    <div className="space-y-1 text-sm font-semibold text-gray-700">
+                      <p>
+                        • Approves at most <span className="font-black">{formatUnits(approveSummary.maxAmount ?? 0n, 18)} {session.tokenSymbol}</span> per charge,
+                        only for the subscription contract {shortenAddress(approveSummary.spender)}
+                      </p>
+                      {processPaymentSummary.maxRedemptions !== undefined && (
+                        <p>
+                          • At most <span className="font-black">{processPaymentSummary.maxRedemptions}</span> renewals, one per billing period (<span className="font-black">{session.billingInterval.toLowerCase()}</span>) until the authorization expires
+                        </p>
+                      )}
+                      <p>
+                        • Only <span className="font-mono">{processPaymentSummary.functionName}</span> on {shortenAddress(processPaymentSummary.target)} can be called, and only for this subscription
+                      </p>
+                      {processPaymentSummary.validUntil && (
+                        <p>• Expires <span className="font-black">{formatTimestamp(processPaymentSummary.validUntil)}</span>, redeemable only by {shortenAddress(processPaymentSummary.to)}</p>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-sm font-semibold text-gray-700">Spending limits appear here once your smart account is ready.</p>
+                  )}
+                </div>
+              )}
+
               {session.features.length > 0 && (
                 <div className="space-y-3">
                   {session.features.map(feature => (
@@ -551,7 +727,7 @@ const PaymentWindow = () => {
               <div className="mt-6 space-y-4">
                 <button
                   onClick={authenticated ? handleRealPayment : login}
-                  disabled={session.status === 'paid' || session.status === 'expired' || actionLoading}
+                  disabled={session.status === 'paid' || session.status === 'expired' || actionLoading || Boolean(delegationPreview?.error)}
                   className="retro-button w-full py-4 font-black text-lg"
                   style={{
                     backgroundColor: session.status === 'paid'
@@ -629,7 +805,15 @@ const PaymentWindow = () => {
 
                 <div className="p-4" style={{ border: '3px solid #000000', backgroundColor: '#fffae6' }}>
                   <p className="text-sm font-bold text-black uppercase tracking-wide">Total Due Now</p>
-                  <p className="text-3xl font-black text-black mt-1">{session.amount} {session.tokenSymbol}</p>
+                  <p className="text-3xl font-black text-black mt-1">{hasTrial ? 0 : session.amount} {session.tokenSymbol}</p>
+                  {session.coupon && !hasTrial && (
+                    <p className="text-sm font-semibold text-gray-700 mt-1">
+                      {session.originalAmount} {session.tokenSymbol} before {session.coupon.code}
+                    </p>
+                  )}
+                  {hasTrial && (
+                    <p className="text-sm font-semibold text-gray-700 mt-1">Trial ends {trialEndDate}</p>
+                  )}
                 </div>
 
                 {combinedError && (
@@ -40,15 +40,40 @@ interface Project {
   supported_token?: TokenMetadata | null;
 }
 
+type ApiKeyPermission = "read_subscriptions" | "create_sessions" | "manage_plans";
+
+// Request counts from the worker's rate limiter; null when it could not be read
+interface ApiKeyUsage {
+  requests_today: number;
+  throttled_today: number;
+  requests_30d: number;
+  throttled_30d: number;
+  total_requests: number;
+  last_request_at: number | null;
+}
+
+// The full key is only returned by create and rotate; listings carry the prefix
 interface ApiKey {
   id: string;
-  key_value: string;
   name: string;
   description: string;
+  key_prefix: string;
+  key_value?: string;
+  project_id: string | null;
+  project_name: string | null;
+  permissions: ApiKeyPermission[];
+  // Unix seconds
+  created_at: number | null;
+  expires_at: number | null;
+  last_used_at: number | null;
+  revoked_at: number | null;
+  replaced_by_id: string | null;
   is_active: boolean;
+  usage?: ApiKeyUsage | null;
 }
 
 interface Subscription {
+  id: string;
   plan_id: string;
   plan_name: string;
   company_name: string;
@@ -58,6 +83,7 @@ interface Subscription {
   last_payment_date?: number;
   cancelled_at?: number;
   subscription_manager_address?: string;
+  contract_subscription_id?: number | null;
   price?: number;
   token_symbol?: string;
   token_address?: string;
@@ -109,14 +135,29 @@ export interface PaymentSession {
   companyName: string | null
   planDescription: string | null
   amount: number
+  // Plan price before the promo code discount
+  originalAmount?: number
+  coupon?: PaymentSessionCoupon | null
   tokenSymbol: string
   tokenAddress: string
+  agentAddress: string
   billingIntervalSeconds: number
   billingIntervalText: string
+  trialPeriodSeconds?: number
   metadata: Record<string, unknown>
   txHash: string | null
 }
 
+export interface PaymentSessionCoupon {
+  code: string
+  codeHash: `0x${string}`
+  contractCouponId: number
+  discountType: 'percent' | 'fixed'
+  discountValue: number
+  // 0 discounts every charge
+  durationCharges: number
+}
+
 
 interface ContractSyncData {
   subscriptions?: UserSubscriptionData[];
@@ -165,17 +206,26 @@ class ApiService {
         }
       }
 
-      // Add timestamp and nonce for replay protection
+      const method = options.method || 'POST';
+
+      // Add timestamp and nonce for replay protection; GET requests carry them as headers
       if (!usesApiKey && requiresAuth) {
-        bodyData.timestamp = Date.now();
-        bodyData.nonce = generateNonce();
+        if (method === 'GET') {
+          requestHeaders["X-Request-Timestamp"] = String(Date.now());
+          requestHeaders["X-Request-Nonce"] = generateNonce();
+        } else {
+          bodyData.timestamp = Date.now();
+          bodyData.nonce = generateNonce();
+        }
       }
 
       const requestOptions: RequestInit = {
         ...options,
-        method: options.method || 'POST',
+        method,
         headers: requestHeaders,
-        body: Object.keys(bodyData).length > 0 ? JSON.stringify(bodyData) : options.body,
+        body: method === 'GET'
+          ? undefined
+          : Object.keys(bodyData).length > 0 ? JSON.stringify(bodyData) : options.body,
       };
 
       const response = await fetch(`${API_BASE_URL}${endpoint}`, requestOptions);
@@ -278,13 +328,16 @@ class ApiService {
    * Get user subscriptions by email
    */
   async getUserSubscriptions(): Promise<ApiResponse<{ subscriptions: Subscription[] }>> {
-    return this.makeRequest(
-      "/api/get-user-subscriptions",
-      {
-        method: "POST",
-        body: "",
-      }
+    const response = await this.makeRequest<{ data: { subscriptions: Subscription[] } }>(
+      "/v1/subscriptions",
+      { method: "GET" }
     );
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: { subscriptions: response.data.data.subscriptions } };
   }
 
   /**
@@ -331,32 +384,54 @@ class ApiService {
   }
 
   /**
-   * Create API key for a project
+   * Create an API key scoped to one project; key_value is only returned here
    */
-  async createApiKey(keyData: {
-    developer_email: string;
-    project_id: string;
+  async createDeveloperApiKey(keyData: {
     name: string;
     description: string;
+    project_id: string;
+    permissions: ApiKeyPermission[];
+    expires_at?: number | null;
   }): Promise<ApiResponse<{ api_key: ApiKey }>> {
-    return this.makeRequest("/api/create-api-key", {
+    const response = await this.makeRequest<{ data: { api_key: ApiKey } }>("/api/create-developer-api-key", {
       method: "POST",
       body: JSON.stringify(keyData),
     });
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: { api_key: response.data.data.api_key } };
   }
 
   /**
-   * Create API key for a developer (not tied to specific project)
+   * Issue a replacement key; the old one keeps working for overlapSeconds (0 revokes it now)
    */
-  async createDeveloperApiKey(keyData: {
-    developer_email: string;
-    name: string;
-    description: string;
-  }): Promise<ApiResponse<{ api_key: ApiKey }>> {
-    return this.makeRequest("/api/create-developer-api-key", {
+  async rotateApiKey(apiKeyId: string, overlapSeconds: number): Promise<ApiResponse<{ api_key: ApiKey; replaced_api_key: ApiKey }>> {
+    const response = await this.makeRequest<{ data: { api_key: ApiKey; replaced_api_key: ApiKey } }>("/api/rotate-api-key", {
       method: "POST",
-      body: JSON.stringify(keyData),
+      body: JSON.stringify({ api_key_id: apiKeyId, overlap_seconds: overlapSeconds }),
     });
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data.data };
+  }
+
+  async revokeApiKey(apiKeyId: string): Promise<ApiResponse<{ api_key: ApiKey }>> {
+    const response = await this.makeRequest<{ data: { api_key: ApiKey } }>("/api/revoke-api-key", {
+      method: "POST",
+      body: JSON.stringify({ api_key_id: apiKeyId }),
+    });
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: { api_key: response.data.data.api_key } };
   }
 
   /**
@@ -366,6 +441,7 @@ class ApiService {
   async getUserDelegation(data: {
     user_smart_account: string;
     subscription_manager_address: string;
+    contract_subscription_id: number;
   }): Promise<ApiResponse<{ 
     delegation: {
       delegate: `0x${string}`;
@@ -398,9 +474,10 @@ class ApiService {
     token_address: string;
     period_seconds: number;
   }): Promise<ApiResponse<{ plan: SubscriptionPlan }>> {
-    return this.makeRequest("/api/create-subscription-plan", {
+    const { developer_email, project_id, ...plan } = planData;
+    return this.makeRequest(`/v1/projects/${encodeURIComponent(project_id)}/plans`, {
       method: "POST",
-      body: JSON.stringify(planData),
+      body: JSON.stringify({ developer_email, plans: [plan] }),
     });
   }
 
@@ -410,16 +487,15 @@ class ApiService {
     metadata?: Record<string, unknown>
     delegation_data?: Record<string, unknown>
   }): Promise<ApiResponse<{ session: PaymentSession }>> {
-    return this.makeRequest("/api/create-payment-session", {
+    return this.makeRequest("/v1/payment-sessions", {
       method: "POST",
       body: JSON.stringify(payload),
     });
   }
 
   async getPaymentSession(paymentId: string): Promise<ApiResponse<{ session: PaymentSession }>> {
-    return this.makeRequest("/api/get-payment-session", {
-      method: "POST",
-      body: JSON.stringify({ payment_id: paymentId }),
+    return this.makeRequest(`/v1/payment-sessions/${encodeURIComponent(paymentId)}`, {
+      method: "GET",
     }, {}, false);
   }
 
@@ -429,9 +505,10 @@ class ApiService {
     tx_hash?: string
     metadata?: Record<string, unknown>
   }): Promise<ApiResponse<{ session: PaymentSession }>> {
-    return this.makeRequest("/api/update-payment-session", {
-      method: "POST",
-      body: JSON.stringify(payload),
+    const { payment_id, ...updateData } = payload;
+    return this.makeRequest(`/v1/payment-sessions/${encodeURIComponent(payment_id)}`, {
+      method: "PATCH",
+      body: JSON.stringify(updateData),
     });
   }
 
@@ -455,14 +532,8 @@ class ApiService {
     projectId: string
   ): Promise<ApiResponse<{ project: Project; subscription_plans: SubscriptionPlan[] }>> {
     return this.makeRequest(
-      "/api/get-project-details",
-      {
-        method: "POST",
-        body: "",
-        headers: {
-          "X-Project-Id": projectId,
-        },
-      }
+      `/v1/projects/${encodeURIComponent(projectId)}`,
+      { method: "GET" }
     );
   }
 
@@ -482,8 +553,8 @@ class ApiService {
     token_address: string;
     payment_date?: number;
     delegation_data?: Record<string, unknown>;
-  }): Promise<ApiResponse<{ success: boolean; message: string; subscription_id?: string; payment_id?: string }>> {
-    return this.makeRequest("/api/create-subscription", {
+  }): Promise<ApiResponse<{ success: boolean; message: string; subscription_id?: string; contract_subscription_id?: number | null; payment_id?: string }>> {
+    return this.makeRequest("/v1/subscriptions", {
       method: "POST",
       body: JSON.stringify(subscriptionData),
     });
@@ -497,6 +568,7 @@ class ApiService {
     user_wallet_address: string;
     user_smart_account_address?: string;
     plan_id?: string;
+    contract_subscription_id?: number;
     tx_hash?: string;
     subscription_manager_address?: string;
     delegation?: unknown;
@@ -552,4 +624,6 @@ export type {
   UserSubscriptionData,
   Project,
   ApiKey,
+  ApiKeyPermission,
+  ApiKeyUsage,
 };
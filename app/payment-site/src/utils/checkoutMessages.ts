@@ -0,0 +1,32 @@
+import type { PaymentSessionStatus } from '../services/api'
+
+const CHECKOUT_MESSAGE_SOURCE = 'autiv-checkout'
+
+// The checkout SDK opens /pay/:paymentId?origin=<merchant origin> in a popup or iframe;
+// status changes are posted back to that origin only
+function getCheckoutHost(): { target: Window; origin: string } | null {
+  const requestedOrigin = new URLSearchParams(window.location.search).get('origin')
+  if (!requestedOrigin) return null
+
+  let origin: string
+  try {
+    origin = new URL(requestedOrigin).origin
+  } catch {
+    return null
+  }
+
+  const target = window.parent !== window ? window.parent : window.opener as Window | null
+  return target ? { target, origin } : null
+}
+
+export function notifyCheckoutHost(paymentId: string, status: PaymentSessionStatus) {
+  const host = getCheckoutHost()
+  if (!host) return
+
+  host.target.postMessage({
+    source: CHECKOUT_MESSAGE_SOURCE,
+    type: 'payment_session.status',
+    paymentId,
+    status,
+  }, host.origin)
+}
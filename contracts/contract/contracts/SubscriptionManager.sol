@@ -18,30 +18,105 @@ contract SubscriptionManager is Ownable, ReentrancyGuard {
         uint256 period; // in seconds (e.g., 86400 for daily)
         bool active;
         address tokenAddress; // USDC token address
+        uint256 trialPeriod; // in seconds, 0 when the plan has no free trial
     }
     
     struct UserSubscription {
+        uint256 id;
         uint256 planId;
         uint256 startTime;
         uint256 lastPayment;
         bool active;
         address delegator; // MetaMask Smart Account address
+        uint256 trialEndsAt; // first charge is due at this time when subscribed with a trial
+        uint256 pausedAt; // 0 unless the subscription is paused
+        uint256 couponId; // 0 when subscribed without a coupon
+        uint256 discountedChargesLeft; // charges still discounted by a limited-duration coupon
+        uint256 lastChargeAmount; // what the current billing period cost after any coupon; plan changes credit from it
+    }
+    
+    struct Payment {
+        uint256 subscriptionId;
+        uint256 amount;
+        uint256 refunded; // refunds of this payment can't exceed its amount
+    }
+    
+    struct Coupon {
+        uint256 id;
+        bytes32 codeHash; // keccak256 of the upper-cased promo code
+        bool isPercent; // true: value is in basis points, false: value is a fixed token amount
+        uint256 value;
+        uint256 durationCharges; // number of charges discounted, 0 applies the discount forever
+        uint256 maxRedemptions; // 0 for unlimited
+        uint256 redemptions;
+        uint256 expiresAt; // 0 for no expiry
+        bool active;
     }
     
     // State variables
     mapping(uint256 => SubscriptionPlan) public plans;
-    mapping(address => UserSubscription) public subscriptions;
+    mapping(uint256 => UserSubscription) public subscriptions;
+    mapping(address => uint256[]) private userSubscriptionIds;
+    mapping(uint256 => Coupon) public coupons;
+    mapping(bytes32 => uint256) public couponIdByCodeHash;
+    mapping(uint256 => uint256) public subscriptionPaid; // total charged to each subscription
+    mapping(uint256 => uint256) public subscriptionRefunded; // total refunded on each subscription
+    mapping(uint256 => Payment) public payments; // every non-zero charge, by payment id
+    mapping(address => uint256) public refundReserve; // balance per token that sweepRevenue leaves for refunds
     
     uint256 public nextPlanId = 1;
+    uint256 public nextSubscriptionId = 1;
+    uint256 public nextCouponId = 1;
+    uint256 public nextPaymentId = 1;
     uint256 public totalRevenue;
-    uint256 public constant MAX_PLANS = 5;
+    uint256 public totalRefunded;
+    address public payoutAddress; // where sweepRevenue sends collected revenue, unset disables sweeping
     
     // Events
     event PlanCreated(uint256 indexed planId, string name, uint256 price, uint256 period);
     event PlanUpdated(uint256 indexed planId, uint256 oldPrice, uint256 newPrice);
-    event SubscriptionCreated(address indexed user, uint256 indexed planId);
-    event SubscriptionCancelled(address indexed user);
-    event PaymentProcessed(address indexed user, uint256 amount, uint256 timestamp);
+    event PlanArchived(uint256 indexed planId);
+    event PlanUnarchived(uint256 indexed planId);
+    event SubscriptionCreated(address indexed user, uint256 indexed planId, uint256 indexed subscriptionId);
+    event SubscriptionCancelled(address indexed user, uint256 indexed subscriptionId);
+    event PaymentProcessed(address indexed user, uint256 indexed subscriptionId, uint256 amount, uint256 timestamp);
+    event PaymentRecorded(uint256 indexed paymentId, uint256 indexed subscriptionId, uint256 amount);
+    event SubscriptionPaused(address indexed user, uint256 indexed subscriptionId, uint256 pausedAt);
+    event SubscriptionResumed(address indexed user, uint256 indexed subscriptionId, uint256 nextPaymentDue);
+    event CouponCreated(
+        uint256 indexed couponId,
+        bytes32 indexed codeHash,
+        bool isPercent,
+        uint256 value,
+        uint256 durationCharges,
+        uint256 maxRedemptions,
+        uint256 expiresAt
+    );
+    event CouponDeactivated(uint256 indexed couponId);
+    event CouponRedeemed(address indexed user, uint256 indexed couponId, uint256 indexed subscriptionId);
+    event TrialStarted(address indexed user, uint256 indexed planId, uint256 indexed subscriptionId, uint256 trialEndsAt);
+    event PlanChanged(
+        address indexed user,
+        uint256 indexed oldPlanId,
+        uint256 indexed newPlanId,
+        uint256 subscriptionId,
+        uint256 amountCharged,
+        uint256 creditApplied,
+        uint256 nextPaymentDue
+    );
+    
+    event Refunded(
+        address indexed user,
+        uint256 indexed subscriptionId,
+        bytes32 indexed paymentTxHash,
+        uint256 amount,
+        uint256 timestamp
+    );
+    
+    event RevenueWithdrawn(address indexed token, address indexed to, uint256 amount);
+    event RevenueSwept(address indexed token, address indexed to, uint256 amount);
+    event PayoutAddressUpdated(address indexed payoutAddress);
+    event RefundReserveUpdated(address indexed token, uint256 amount);
     
     constructor() Ownable(msg.sender) {}
     
@@ -51,18 +126,20 @@ contract SubscriptionManager is Ownable, ReentrancyGuard {
      * @param _prices Array of plan prices
      * @param _periods Array of plan periods
      * @param _tokenAddresses Array of token addresses
+     * @param _trialPeriods Array of free trial durations in seconds (0 for no trial)
      */
     function createPlansBatch(
         string[] memory _names,
         uint256[] memory _prices,
         uint256[] memory _periods,
-        address[] memory _tokenAddresses
+        address[] memory _tokenAddresses,
+        uint256[] memory _trialPeriods
     ) external onlyOwner {
         require(_names.length == _prices.length, "Arrays length mismatch");
         require(_names.length == _periods.length, "Arrays length mismatch");
         require(_names.length == _tokenAddresses.length, "Arrays length mismatch");
+        require(_names.length == _trialPeriods.length, "Arrays length mismatch");
         require(_names.length > 0, "At least one plan required");
-        require(nextPlanId + _names.length - 1 <= MAX_PLANS, "Exceeds maximum plans limit");
         
         for (uint256 i = 0; i < _names.length; i++) {
             plans[nextPlanId] = SubscriptionPlan({
@@ -71,7 +148,8 @@ contract SubscriptionManager is Ownable, ReentrancyGuard {
                 price: _prices[i],
                 period: _periods[i],
                 active: true,
-                tokenAddress: _tokenAddresses[i]
+                tokenAddress: _tokenAddresses[i],
+                trialPeriod: _trialPeriods[i]
             });
             
             emit PlanCreated(nextPlanId, _names[i], _prices[i], _periods[i]);
@@ -90,119 +168,492 @@ contract SubscriptionManager is Ownable, ReentrancyGuard {
         emit PlanUpdated(_planId, oldPrice, _newPrice);
     }
     
+    /**
+     * @dev Archive a plan so no new subscriptions or plan changes can move onto it
+     * Existing subscriptions on the plan keep renewing until they are cancelled
+     */
+    function archivePlan(uint256 _planId) external onlyOwner {
+        require(_planId > 0 && _planId < nextPlanId, "Plan does not exist");
+        require(plans[_planId].active, "Plan already archived");
+        plans[_planId].active = false;
+        emit PlanArchived(_planId);
+    }
+    
+    /**
+     * @dev Make an archived plan available to new subscribers again
+     */
+    function unarchivePlan(uint256 _planId) external onlyOwner {
+        require(_planId > 0 && _planId < nextPlanId, "Plan does not exist");
+        require(!plans[_planId].active, "Plan is not archived");
+        plans[_planId].active = true;
+        emit PlanUnarchived(_planId);
+    }
+    
+    /**
+     * @dev Create a promo code; subscribers redeem it with subscribeWithCoupon
+     * @param _codeHash keccak256 of the upper-cased code, so the code itself is never stored on-chain
+     * @param _isPercent Whether _value is a percentage in basis points or a fixed token amount
+     * @param _durationCharges Number of charges to discount (0 for every charge)
+     * @param _maxRedemptions Maximum number of subscriptions that can use the code (0 for unlimited)
+     * @param _expiresAt Timestamp after which the code can no longer be redeemed (0 for never)
+     */
+    function createCoupon(
+        bytes32 _codeHash,
+        bool _isPercent,
+        uint256 _value,
+        uint256 _durationCharges,
+        uint256 _maxRedemptions,
+        uint256 _expiresAt
+    ) external onlyOwner returns (uint256 couponId) {
+        require(_codeHash != bytes32(0), "Code required");
+        require(couponIdByCodeHash[_codeHash] == 0, "Code already exists");
+        require(_value > 0, "Discount required");
+        require(!_isPercent || _value <= 10000, "Percent exceeds 100%");
+        require(_expiresAt == 0 || _expiresAt > block.timestamp, "Expiry in the past");
+        
+        couponId = nextCouponId++;
+        coupons[couponId] = Coupon({
+            id: couponId,
+            codeHash: _codeHash,
+            isPercent: _isPercent,
+            value: _value,
+            durationCharges: _durationCharges,
+            maxRedemptions: _maxRedemptions,
+            redemptions: 0,
+            expiresAt: _expiresAt,
+            active: true
+        });
+        couponIdByCodeHash[_codeHash] = couponId;
+        
+        emit CouponCreated(couponId, _codeHash, _isPercent, _value, _durationCharges, _maxRedemptions, _expiresAt);
+    }
+    
+    /**
+     * @dev Stop a coupon from being redeemed; subscriptions that already use it keep their discount
+     */
+    function deactivateCoupon(uint256 _couponId) external onlyOwner {
+        require(coupons[_couponId].active, "Coupon not active");
+        coupons[_couponId].active = false;
+        emit CouponDeactivated(_couponId);
+    }
+    
     /**
      * @dev Subscribe to a plan with initial payment
+     * Plans with a trial period skip the initial payment; the first charge is due when the trial ends
+     * A subscriber can hold several subscriptions at once (e.g. a base plan plus add-ons), each with its own id
+     */
+    function subscribeWithPayment(uint256 _planId) external returns (uint256 subscriptionId) {
+        return _subscribe(_planId, 0);
+    }
+    
+    /**
+     * @dev Subscribe to a plan with a promo code; the discount applies to the initial payment
+     * (or the first charge after a trial) and to as many later charges as the coupon allows
      */
-    function subscribeWithPayment(uint256 _planId) external {
+    function subscribeWithCoupon(uint256 _planId, bytes32 _codeHash) external returns (uint256 subscriptionId) {
+        uint256 couponId = couponIdByCodeHash[_codeHash];
+        require(couponId != 0, "Invalid coupon");
+        
+        Coupon storage coupon = coupons[couponId];
+        require(coupon.active, "Coupon not active");
+        require(coupon.expiresAt == 0 || block.timestamp <= coupon.expiresAt, "Coupon expired");
+        require(coupon.maxRedemptions == 0 || coupon.redemptions < coupon.maxRedemptions, "Coupon fully redeemed");
+        coupon.redemptions++;
+        
+        subscriptionId = _subscribe(_planId, couponId);
+        emit CouponRedeemed(msg.sender, couponId, subscriptionId);
+    }
+    
+    function _subscribe(uint256 _planId, uint256 _couponId) internal returns (uint256 subscriptionId) {
         require(_planId < nextPlanId, "Plan does not exist");
         require(plans[_planId].active, "Plan is not active");
-        require(subscriptions[msg.sender].planId == 0, "Already subscribed");
         
         SubscriptionPlan memory plan = plans[_planId];
+        subscriptionId = nextSubscriptionId++;
+        userSubscriptionIds[msg.sender].push(subscriptionId);
         
-        // Transfer ERC20 token from user to contract for initial payment
-        IERC20 token = IERC20(plan.tokenAddress);
-        require(
-            token.transferFrom(msg.sender, address(this), plan.price),
-            "Initial payment failed"
-        );
+        UserSubscription storage sub = subscriptions[subscriptionId];
+        sub.id = subscriptionId;
+        sub.planId = _planId;
+        sub.startTime = block.timestamp;
+        sub.active = true;
+        sub.delegator = msg.sender;
+        sub.couponId = _couponId;
+        sub.discountedChargesLeft = _couponId == 0 ? 0 : coupons[_couponId].durationCharges;
         
-        subscriptions[msg.sender] = UserSubscription({
-            planId: _planId,
-            startTime: block.timestamp,
-            lastPayment: block.timestamp,
-            active: true,
-            delegator: msg.sender
-        });
+        emit SubscriptionCreated(msg.sender, _planId, subscriptionId);
+        
+        if (plan.trialPeriod > 0) {
+            sub.trialEndsAt = block.timestamp + plan.trialPeriod;
+            emit TrialStarted(msg.sender, _planId, subscriptionId, sub.trialEndsAt);
+            return subscriptionId;
+        }
+        
+        // Transfer ERC20 token from user to contract for initial payment
+        uint256 amount = _takeChargeAmount(sub, plan);
+        if (amount > 0) {
+            require(
+                IERC20(plan.tokenAddress).transferFrom(msg.sender, address(this), amount),
+                "Initial payment failed"
+            );
+        }
         
-        totalRevenue += plan.price;
-        emit SubscriptionCreated(msg.sender, _planId);
-        emit PaymentProcessed(msg.sender, plan.price, block.timestamp);
+        sub.lastPayment = block.timestamp;
+        sub.lastChargeAmount = amount;
+        _recordPayment(subscriptionId, amount);
+        emit PaymentProcessed(msg.sender, subscriptionId, amount, block.timestamp);
     }
     
     /**
      * @dev Process payment for subscription
      * Users can only pay for their own subscriptions
      */
-    function processPayment(address _user) external nonReentrant {
-        require(msg.sender == _user, "Can only pay for your own subscription");
-        require(subscriptions[_user].active, "Subscription not active");
+    function processPayment(uint256 _subscriptionId) external nonReentrant {
+        UserSubscription storage sub = subscriptions[_subscriptionId];
+        require(msg.sender == sub.delegator, "Can only pay for your own subscription");
+        require(sub.active, "Subscription not active");
+        require(sub.pausedAt == 0, "Subscription is paused");
         
-        UserSubscription storage sub = subscriptions[_user];
         SubscriptionPlan memory plan = plans[sub.planId];
         
         // Check if payment is due
         require(
-            block.timestamp >= sub.lastPayment + plan.period,
+            block.timestamp >= _nextPaymentDue(sub, plan),
             "Payment not due yet"
         );
         
+        uint256 amount = _takeChargeAmount(sub, plan);
+        
         // Check if user has sufficient USDC balance
         IERC20 token = IERC20(plan.tokenAddress);
         require(
-            token.balanceOf(_user) >= plan.price,
+            token.balanceOf(msg.sender) >= amount,
             "Insufficient USDC balance"
         );
-        require(
-            token.transferFrom(_user, address(this), plan.price),
-            "Payment failed"
-        );
+        if (amount > 0) {
+            require(
+                token.transferFrom(msg.sender, address(this), amount),
+                "Payment failed"
+            );
+        }
         
         // Update subscription
         sub.lastPayment = block.timestamp;
-        totalRevenue += plan.price;
+        sub.lastChargeAmount = amount;
+        _recordPayment(_subscriptionId, amount);
+        
+        emit PaymentProcessed(msg.sender, _subscriptionId, amount, block.timestamp);
+    }
+    
+    /**
+     * @dev Count a charge towards revenue and keep it under its own payment id so it can be refunded
+     */
+    function _recordPayment(uint256 _subscriptionId, uint256 _amount) internal {
+        totalRevenue += _amount;
+        subscriptionPaid[_subscriptionId] += _amount;
+        if (_amount == 0) {
+            return;
+        }
         
-        emit PaymentProcessed(_user, plan.price, block.timestamp);
+        uint256 paymentId = nextPaymentId++;
+        payments[paymentId] = Payment({ subscriptionId: _subscriptionId, amount: _amount, refunded: 0 });
+        emit PaymentRecorded(paymentId, _subscriptionId, _amount);
     }
     
     /**
-     * @dev Check if a user has a payment due (view function)
-     * Anyone can call this to check if a user needs to pay
+     * @dev Amount the next charge of a subscription will take, after any coupon discount (view function)
      */
-    function isPaymentDue(address _user) external view returns (bool, uint256) {
-        UserSubscription memory sub = subscriptions[_user];
+    function nextChargeAmount(uint256 _subscriptionId) external view returns (uint256) {
+        UserSubscription memory sub = subscriptions[_subscriptionId];
+        return _chargeAmount(sub, plans[sub.planId]);
+    }
+    
+    /**
+     * @dev Price of the plan with the subscription's coupon applied, while the coupon still covers this charge
+     */
+    function _chargeAmount(UserSubscription memory _sub, SubscriptionPlan memory _plan) internal view returns (uint256) {
+        if (_sub.couponId == 0) {
+            return _plan.price;
+        }
+        
+        Coupon memory coupon = coupons[_sub.couponId];
+        if (coupon.durationCharges != 0 && _sub.discountedChargesLeft == 0) {
+            return _plan.price;
+        }
+        
+        if (coupon.isPercent) {
+            return _plan.price - (_plan.price * coupon.value) / 10000;
+        }
+        return coupon.value >= _plan.price ? 0 : _plan.price - coupon.value;
+    }
+    
+    /**
+     * @dev Charge amount for the current charge, using up one discounted charge of a limited-duration coupon
+     */
+    function _takeChargeAmount(UserSubscription storage _sub, SubscriptionPlan memory _plan) internal returns (uint256 amount) {
+        amount = _chargeAmount(_sub, _plan);
+        if (_sub.discountedChargesLeft > 0) {
+            _sub.discountedChargesLeft--;
+        }
+    }
+    
+    /**
+     * @dev Switch an active subscription to another plan, crediting unused time on the current plan
+     * The new billing period starts immediately; credit beyond the new plan's price buys extra time on it
+     */
+    function changePlan(uint256 _subscriptionId, uint256 _newPlanId) external nonReentrant {
+        UserSubscription storage sub = subscriptions[_subscriptionId];
+        require(sub.delegator == msg.sender, "Not your subscription");
+        require(sub.active, "No active subscription");
+        require(sub.pausedAt == 0, "Subscription is paused");
+        require(_newPlanId < nextPlanId, "Plan does not exist");
+        require(plans[_newPlanId].active, "Plan is not active");
+        require(_newPlanId != sub.planId, "Already on this plan");
+        
+        SubscriptionPlan memory oldPlan = plans[sub.planId];
+        SubscriptionPlan memory newPlan = plans[_newPlanId];
+        require(newPlan.tokenAddress == oldPlan.tokenAddress, "Plans use different tokens");
+        
+        uint256 oldPlanId = sub.planId;
+        sub.planId = _newPlanId;
+        
+        // Nothing has been paid during a trial, so the trial simply carries over to the new plan
+        if (sub.lastPayment == 0) {
+            emit PlanChanged(msg.sender, oldPlanId, _newPlanId, _subscriptionId, 0, 0, sub.trialEndsAt);
+            return;
+        }
         
-        if (!sub.active || sub.planId == 0) {
+        (uint256 amountDue, uint256 credit) = _prorate(sub, oldPlan, newPlan);
+        
+        if (amountDue > 0) {
+            require(
+                IERC20(newPlan.tokenAddress).transferFrom(msg.sender, address(this), amountDue),
+                "Proration payment failed"
+            );
+            _recordPayment(_subscriptionId, amountDue);
+        }
+        
+        uint256 extraTime = 0;
+        if (credit > newPlan.price) {
+            extraTime = ((credit - newPlan.price) * newPlan.period) / newPlan.price;
+        }
+        sub.lastPayment = block.timestamp + extraTime;
+        // The new period is covered in full, by the credit plus whatever was charged now
+        sub.lastChargeAmount = newPlan.price;
+        
+        emit PlanChanged(msg.sender, oldPlanId, _newPlanId, _subscriptionId, amountDue, credit, sub.lastPayment + newPlan.period);
+    }
+    
+    /**
+     * @dev Preview the charge and credit for switching a subscription to another plan (view function)
+     */
+    function previewPlanChange(uint256 _subscriptionId, uint256 _newPlanId) external view returns (uint256 amountDue, uint256 credit) {
+        UserSubscription memory sub = subscriptions[_subscriptionId];
+        require(sub.active, "No active subscription");
+        require(_newPlanId < nextPlanId, "Plan does not exist");
+        
+        if (sub.lastPayment == 0) {
+            return (0, 0);
+        }
+        
+        return _prorate(sub, plans[sub.planId], plans[_newPlanId]);
+    }
+    
+    /**
+     * @dev Credit is the unused share of what the current period actually cost, so discounted periods earn
+     * proportionally less; it is applied against the new plan's price
+     * After a downgrade lastPayment can sit in the future, so the time left runs past one period and the
+     * prepaid extra time is credited at the same rate
+     */
+    function _prorate(
+        UserSubscription memory _sub,
+        SubscriptionPlan memory _oldPlan,
+        SubscriptionPlan memory _newPlan
+    ) internal view returns (uint256 amountDue, uint256 credit) {
+        uint256 nextPaymentDate = _sub.lastPayment + _oldPlan.period;
+        if (nextPaymentDate > block.timestamp) {
+            credit = (_sub.lastChargeAmount * (nextPaymentDate - block.timestamp)) / _oldPlan.period;
+        }
+        amountDue = credit >= _newPlan.price ? 0 : _newPlan.price - credit;
+    }
+    
+    /**
+     * @dev Check if a subscription has a payment due (view function)
+     * Anyone can call this to check if a subscriber needs to pay
+     */
+    function isPaymentDue(uint256 _subscriptionId) external view returns (bool, uint256) {
+        UserSubscription memory sub = subscriptions[_subscriptionId];
+        
+        if (!sub.active || sub.planId == 0 || sub.pausedAt != 0) {
             return (false, 0);
         }
         
         SubscriptionPlan memory plan = plans[sub.planId];
-        uint256 nextPaymentDue = sub.lastPayment + plan.period;
+        uint256 nextPaymentDue = _nextPaymentDue(sub, plan);
         
         return (block.timestamp >= nextPaymentDue, nextPaymentDue);
     }
     
+    /**
+     * @dev First charge after a trial is due when the trial ends, every later one a period after the last payment
+     */
+    function _nextPaymentDue(UserSubscription memory _sub, SubscriptionPlan memory _plan) internal pure returns (uint256) {
+        if (_sub.lastPayment == 0) {
+            return _sub.trialEndsAt;
+        }
+        return _sub.lastPayment + _plan.period;
+    }
+    
+    /**
+     * @dev Pause a subscription; no payment is due until it is resumed
+     */
+    function pauseSubscription(uint256 _subscriptionId) external {
+        UserSubscription storage sub = subscriptions[_subscriptionId];
+        require(sub.delegator == msg.sender, "Not your subscription");
+        require(sub.active, "No active subscription");
+        require(sub.pausedAt == 0, "Subscription already paused");
+        
+        sub.pausedAt = block.timestamp;
+        
+        emit SubscriptionPaused(msg.sender, _subscriptionId, block.timestamp);
+    }
+    
+    /**
+     * @dev Resume a paused subscription
+     * The billing schedule (or the trial end) moves forward by the time spent paused
+     */
+    function resumeSubscription(uint256 _subscriptionId) external {
+        UserSubscription storage sub = subscriptions[_subscriptionId];
+        require(sub.delegator == msg.sender, "Not your subscription");
+        require(sub.active, "No active subscription");
+        require(sub.pausedAt != 0, "Subscription is not paused");
+        
+        uint256 pausedFor = block.timestamp - sub.pausedAt;
+        if (sub.lastPayment == 0) {
+            sub.trialEndsAt += pausedFor;
+        } else {
+            sub.lastPayment += pausedFor;
+        }
+        sub.pausedAt = 0;
+        
+        emit SubscriptionResumed(msg.sender, _subscriptionId, _nextPaymentDue(sub, plans[sub.planId]));
+    }
+    
     /**
      * @dev Cancel subscription
      */
-    function cancelSubscription() external {
-        require(subscriptions[msg.sender].active, "No active subscription");
+    function cancelSubscription(uint256 _subscriptionId) external {
+        UserSubscription storage sub = subscriptions[_subscriptionId];
+        require(sub.delegator == msg.sender, "Not your subscription");
+        require(sub.active, "No active subscription");
         
-        // Reset the subscription completely to allow resubscription
-        subscriptions[msg.sender] = UserSubscription({
-            planId: 0,
-            startTime: 0,
-            lastPayment: 0,
-            active: false,
-            delegator: address(0)
-        });
+        // Other subscriptions held by the same account are left untouched
+        sub.active = false;
         
-        emit SubscriptionCancelled(msg.sender);
+        emit SubscriptionCancelled(msg.sender, _subscriptionId);
     }
     
     /**
      * @dev Withdraw collected revenue
      */
     function withdrawRevenue(address _token, uint256 _amount) external onlyOwner {
+        _withdrawRevenue(_token, _amount, owner());
+    }
+    
+    /**
+     * @dev Withdraw collected revenue to a payout address other than the owner
+     */
+    function withdrawRevenueTo(address _token, uint256 _amount, address _to) external onlyOwner {
+        require(_to != address(0), "Invalid payout address");
+        _withdrawRevenue(_token, _amount, _to);
+    }
+    
+    /**
+     * @dev Set the payout address sweepRevenue sends to; the zero address turns sweeping off
+     */
+    function setPayoutAddress(address _payoutAddress) external onlyOwner {
+        payoutAddress = _payoutAddress;
+        emit PayoutAddressUpdated(_payoutAddress);
+    }
+    
+    /**
+     * @dev Set how much of a token sweepRevenue leaves on the contract so refunds can still be paid
+     */
+    function setRefundReserve(address _token, uint256 _amount) external onlyOwner {
+        refundReserve[_token] = _amount;
+        emit RefundReserveUpdated(_token, _amount);
+    }
+    
+    /**
+     * @dev Balance of a token above its refund reserve, i.e. what sweepRevenue would send (view function)
+     */
+    function sweepableBalance(address _token) public view returns (uint256) {
+        uint256 balance = IERC20(_token).balanceOf(address(this));
+        uint256 reserve = refundReserve[_token];
+        return balance > reserve ? balance - reserve : 0;
+    }
+    
+    /**
+     * @dev Send the contract's balance of a token above its refund reserve to the payout address
+     * Anyone may call this, e.g. the payment collector after a renewal; funds can only go to the owner's payout address
+     */
+    function sweepRevenue(address _token) external nonReentrant returns (uint256 amount) {
+        require(payoutAddress != address(0), "Payout address not set");
+        amount = sweepableBalance(_token);
+        require(amount > 0, "Nothing to sweep");
+        require(IERC20(_token).transfer(payoutAddress, amount), "Sweep failed");
+        emit RevenueSwept(_token, payoutAddress, amount);
+    }
+    
+    function _withdrawRevenue(address _token, uint256 _amount, address _to) internal {
+        require(_amount > 0, "Withdrawal amount must be greater than 0");
         IERC20 token = IERC20(_token);
-        require(token.transfer(owner(), _amount), "Withdrawal failed");
+        require(token.transfer(_to, _amount), "Withdrawal failed");
+        emit RevenueWithdrawn(_token, _to, _amount);
+    }
+    
+    /**
+     * @dev Send tokens from collected revenue back to a subscriber
+     * Refunds of a payment are capped at what that payment took; the subscription itself is left unchanged
+     * @param _paymentId Id from the PaymentRecorded event of the payment being refunded
+     * @param _paymentTxHash Transaction of the payment being refunded, so the refund can be matched to it off-chain
+     */
+    function refund(uint256 _paymentId, uint256 _amount, bytes32 _paymentTxHash) external onlyOwner nonReentrant {
+        Payment storage payment = payments[_paymentId];
+        require(payment.amount > 0, "Payment does not exist");
+        require(_amount > 0, "Refund amount must be greater than 0");
+        require(payment.refunded + _amount <= payment.amount, "Refund exceeds amount paid");
+        
+        uint256 subscriptionId = payment.subscriptionId;
+        UserSubscription memory sub = subscriptions[subscriptionId];
+        payment.refunded += _amount;
+        subscriptionRefunded[subscriptionId] += _amount;
+        totalRefunded += _amount;
+        
+        require(IERC20(plans[sub.planId].tokenAddress).transfer(sub.delegator, _amount), "Refund failed");
+        
+        emit Refunded(sub.delegator, subscriptionId, _paymentTxHash, _amount, block.timestamp);
+    }
+    
+    /**
+     * @dev Get subscription details
+     */
+    function getUserSubscription(uint256 _subscriptionId) external view returns (UserSubscription memory) {
+        return subscriptions[_subscriptionId];
+    }
+    
+    /**
+     * @dev Get the ids of every subscription (active or cancelled) a user has created
+     */
+    function getUserSubscriptionIds(address _user) external view returns (uint256[] memory) {
+        return userSubscriptionIds[_user];
     }
     
     /**
-     * @dev Get user subscription details
+     * @dev Get coupon details
      */
-    function getUserSubscription(address _user) external view returns (UserSubscription memory) {
-        return subscriptions[_user];
+    function getCoupon(uint256 _couponId) external view returns (Coupon memory) {
+        return coupons[_couponId];
     }
     
     /**
@@ -85,17 +85,19 @@ contract SubscriptionManagerFactory is Ownable {
      */
     function createSubscriptionManager(
         address owner,
-        string[] calldata planNames,
-        uint256[] calldata planPrices,
-        uint256[] calldata planPeriods,
-        address[] calldata planTokenAddresses
+        string[] memory planNames,
+        uint256[] memory planPrices,
+        uint256[] memory planPeriods,
+        address[] memory planTokenAddresses,
+        uint256[] memory planTrialPeriods
     ) external returns (address manager) {
         address resolvedOwner = owner == address(0) ? msg.sender : owner;
 
         require(
             planNames.length == planPrices.length &&
                 planNames.length == planPeriods.length &&
-                planNames.length == planTokenAddresses.length,
+                planNames.length == planTokenAddresses.length &&
+                planNames.length == planTrialPeriods.length,
             "Factory: plan array length mismatch"
         );
 
@@ -104,14 +106,11 @@ contract SubscriptionManagerFactory is Ownable {
 
         require(planNames.length > 0, "Factory: at least one plan required");
 
-        uint256 maxPlans = newManager.MAX_PLANS();
-        require(planNames.length <= maxPlans, "Factory: exceeds max plans");
-
         for (uint256 i = 0; i < planTokenAddresses.length; i++) {
             require(isTokenAllowed(planTokenAddresses[i]), "Factory: token not allowed");
         }
 
-        newManager.createPlansBatch(planNames, planPrices, planPeriods, planTokenAddresses);
+        newManager.createPlansBatch(planNames, planPrices, planPeriods, planTokenAddresses, planTrialPeriods);
 
         // Transfer ownership to the resolved owner (factory is the deployer by default)
         newManager.transferOwnership(resolvedOwner);
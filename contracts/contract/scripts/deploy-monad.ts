@@ -98,6 +98,7 @@ async function main() {
   const planPrices = [price1USDC, price2USDC, price5USDC];
   const planPeriods = [60, 120, 300];
   const planTokenAddresses = [mockUsdcAddress, mockUsdcAddress, mockUsdcAddress];
+  const planTrialPeriods = [0, 0, 0];
 
   // Create subscription manager via factory
   const subscriptionManagerFactoryContract = new ethers.Contract(
@@ -112,7 +113,8 @@ async function main() {
     planNames,
     planPrices,
     planPeriods,
-    planTokenAddresses
+    planTokenAddresses,
+    planTrialPeriods
   );
 
   console.log("Transaction sent:", createTx.hash);
@@ -1,6 +1,10 @@
 import { HardhatUserConfig } from "hardhat/config";
+import hardhatNetworkHelpers from "@nomicfoundation/hardhat-network-helpers";
+import hardhatNodeTestRunner from "@nomicfoundation/hardhat-node-test-runner";
+import hardhatViem from "@nomicfoundation/hardhat-viem";
 
 const config: HardhatUserConfig = {
+  plugins: [hardhatNetworkHelpers, hardhatNodeTestRunner, hardhatViem],
   solidity: {
     version: "0.8.28",
     settings: {
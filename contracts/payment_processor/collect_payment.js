@@ -1,10 +1,12 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import crypto from 'crypto';
 import { fileURLToPath } from 'url';
 import { Pool } from 'pg';
 import { ethers } from 'ethers';
 import { DelegationManager } from '@metamask/delegation-toolkit/contracts';
 import { getDeleGatorEnvironment } from '@metamask/delegation-toolkit';
+import { getDelegationHashOffchain } from '@metamask/delegation-toolkit/utils';
 import { createExecution, ExecutionMode } from '@metamask/delegation-toolkit';
 
 // Resolve workspace root and load env
@@ -20,12 +22,17 @@ const MONAD_TESTNET_CHAIN_ID = 10143;
 const MAX_CONCURRENT_PAYMENTS = Number(process.env.PAYMENT_BATCH_SIZE || 20);
 const POLL_INTERVAL_MS = Number(process.env.PAYMENT_POLL_INTERVAL_MS || 60_000);
 const RATE_LIMIT_BACKOFFS = [1_000, 2_000, 3_000];
+// Used when a project has no dunning settings of its own
+const DEFAULT_GRACE_PERIOD_SECONDS = 3 * 24 * 60 * 60;
+const DEFAULT_RETRY_INTERVAL_SECONDS = 24 * 60 * 60;
 
 const pool = new Pool({ connectionString: DATABASE_URL });
 
 let monadProvider;
 let hypersyncProvider;
 let agent;
+// Every agent this collector holds a key for, by lowercase address
+let agents;
 let environment;
 let subscriptionManagerAbi;
 let initialized = false;
@@ -33,6 +40,11 @@ let initialized = false;
 const tokenInterface = new ethers.Interface([
   'function approve(address spender, uint256 amount) external returns (bool)',
   'function decimals() view returns (uint8)',
+  'function balanceOf(address account) view returns (uint256)',
+]);
+
+const delegationManagerInterface = new ethers.Interface([
+  'function disabledDelegations(bytes32 delegationHash) view returns (bool)',
 ]);
 
 const subscriptionManagerContracts = new Map();
@@ -72,8 +84,9 @@ async function withRateLimit(fn, label = 'rpc') {
       return await fn();
     } catch (error) {
       console.error(`[${label}]`, error);
+      // A CALL_EXCEPTION carrying a revert reason is a real failure, not a throttled RPC call
       const isRateLimited =
-        error?.code === 'CALL_EXCEPTION' ||
+        (error?.code === 'CALL_EXCEPTION' && !error?.reason) ||
         error?.info?.error?.code === -32007 ||
         error?.error?.code === -32007 ||
         (typeof error?.message === 'string' && error.message.toLowerCase().includes('rate'));
@@ -105,12 +118,17 @@ async function initialize() {
     name: 'monad-hypersync',
   });
 
-  const privateKey = process.env.EOA_PRIVATE_KEY;
-  if (!privateKey) {
+  // A comma-separated list runs one collector for several agents; each project names its own
+  const privateKeys = (process.env.EOA_PRIVATE_KEY || '').split(',').map(key => key.trim()).filter(Boolean);
+  if (privateKeys.length === 0) {
     throw new Error('EOA_PRIVATE_KEY is required for payment collection');
   }
 
-  agent = new ethers.Wallet(privateKey, monadProvider);
+  agents = new Map(privateKeys.map(key => {
+    const wallet = new ethers.Wallet(key, monadProvider);
+    return [wallet.address.toLowerCase(), wallet];
+  }));
+  agent = agents.values().next().value;
   environment = getDeleGatorEnvironment(MONAD_TESTNET_CHAIN_ID);
   if (!environment) {
     throw new Error('Delegation environment not available for Monad Testnet');
@@ -120,7 +138,7 @@ async function initialize() {
   subscriptionManagerAbi = subscriptionManagerArtifact.default?.abi || subscriptionManagerArtifact.abi;
 
   initialized = true;
-  console.log('Payment collector initialized with agent', agent.address);
+  console.log('Payment collector initialized with agents', [...agents.values()].map(wallet => wallet.address).join(', '));
 }
 
 function getSubscriptionManagerContract(address) {
@@ -153,9 +171,12 @@ async function fetchDueSubscriptions(limit) {
         us.plan_id              AS plan_record_id,
         us.developer_id         AS developer_record_id,
         us.subscription_manager_address,
+        us.contract_subscription_id,
         us.next_payment_date,
         us.last_payment_date,
         us.status,
+        us.past_due_since,
+        us.retry_count,
         u.wallet_address,
         u.smart_account_address,
         sp.project_id,
@@ -164,25 +185,35 @@ async function fetchDueSubscriptions(limit) {
         sp.token_address,
         sp.token_symbol,
         sp.period_seconds,
+        p.grace_period_seconds,
+        p.retry_interval_seconds,
+        p.sweep_policy,
+        p.agent_address,
         d.wallet_address        AS developer_wallet,
         st.token_address        AS supported_token_address,
         st.symbol               AS supported_token_symbol,
-        ud.delegation_data
+        ud.delegation_data,
+        ud.is_active            AS delegation_active,
+        ud.cancelled_at         AS delegation_cancelled_at
        FROM user_subscriptions us
        JOIN users u ON u.xata_id = us.user_id
        JOIN subscription_plans sp ON sp.xata_id = us.plan_id
        JOIN projects p ON p.xata_id = sp.project_id
        JOIN supported_tokens st ON st.xata_id = p.supported_token_id
        JOIN developers d ON d.xata_id = us.developer_id
-       JOIN user_delegations ud ON ud.user_smart_account = u.smart_account_address
-        AND ud.subscription_manager_address = us.subscription_manager_address
-        AND ud.is_active = TRUE
-       WHERE us.status = 'active'
+       JOIN user_delegations ud ON ud.subscription_id = us.xata_id
+       WHERE us.status IN ('active', 'past_due')
+         -- delegations name the project's agent, so only its key can redeem them
+         AND LOWER(p.agent_address) = ANY($3)
+         -- paused subscriptions are skipped until resumed; resuming moves next_payment_date forward
+         AND us.paused_at IS NULL
          AND us.next_payment_date IS NOT NULL
          AND us.next_payment_date <= $1
+         -- past_due subscriptions wait for their next scheduled retry
+         AND (us.next_retry_at IS NULL OR us.next_retry_at <= $1)
        ORDER BY us.next_payment_date ASC
        LIMIT $2`,
-      [now, limit]
+      [now, limit, [...agents.keys()]]
     );
     return rows.map(row => ({
       subscriptionId: row.subscription_id,
@@ -191,12 +222,21 @@ async function fetchDueSubscriptions(limit) {
       smartAccount: row.smart_account_address,
       walletAddress: row.wallet_address,
       subscriptionManager: row.subscription_manager_address,
+      contractSubscriptionId: row.contract_subscription_id === null ? null : Number(row.contract_subscription_id),
       projectId: row.project_id,
       contractPlanId: Number(row.contract_plan_id),
       tokenAddress: row.supported_token_address || row.token_address,
       tokenSymbol: row.supported_token_symbol || row.token_symbol || 'USDC',
       periodSeconds: Number(row.period_seconds),
+      status: row.status,
+      pastDueSince: row.past_due_since === null ? null : Number(row.past_due_since),
+      retryCount: Number(row.retry_count || 0),
+      gracePeriodSeconds: Number(row.grace_period_seconds ?? DEFAULT_GRACE_PERIOD_SECONDS),
+      retryIntervalSeconds: Number(row.retry_interval_seconds ?? DEFAULT_RETRY_INTERVAL_SECONDS),
+      sweepPolicy: row.sweep_policy || 'off',
+      agentAddress: row.agent_address.toLowerCase(),
       delegationDataRaw: row.delegation_data,
+      delegationActive: row.delegation_active === true && row.delegation_cancelled_at === null,
     }));
   } finally {
     client.release();
@@ -217,7 +257,38 @@ async function getTokenMetadata(tokenAddress) {
   return metadata;
 }
 
-async function updatePaymentRecords({ subscriptionId, userRecordId, developerRecordId, amountDecimal, tokenAddress, tokenSymbol, txHash, periodSeconds }) {
+// Webhook deliveries are only queued here; the worker's cron trigger signs and sends them
+async function queueWebhookEvent(client, projectId, eventType, data) {
+  if (!projectId) return;
+
+  const event = {
+    id: `evt_${crypto.randomBytes(12).toString('hex')}`,
+    type: eventType,
+    created_at: Math.floor(Date.now() / 1000),
+    project_id: projectId,
+    data,
+  };
+
+  await client.query(
+    `INSERT INTO webhook_deliveries (
+        endpoint_id,
+        project_id,
+        event_id,
+        event_type,
+        payload,
+        status,
+        attempt_count,
+        next_attempt_at
+     )
+     SELECT we.xata_id, we.project_id, $1, $2, $3, 'pending', 0, $4
+       FROM webhook_endpoints we
+      WHERE we.project_id = $5
+        AND we.is_active = TRUE`,
+    [event.id, eventType, JSON.stringify(event), event.created_at, projectId]
+  );
+}
+
+async function updatePaymentRecords({ subscriptionId, contractSubscriptionId, userRecordId, developerRecordId, projectId, contractPlanId, amountDecimal, tokenAddress, tokenSymbol, txHash, periodSeconds }) {
   const client = await pool.connect();
   const now = Math.floor(Date.now() / 1000);
   const nextPaymentDate = periodSeconds && Number(periodSeconds) > 0
@@ -229,12 +300,22 @@ async function updatePaymentRecords({ subscriptionId, userRecordId, developerRec
     await client.query(
       `UPDATE user_subscriptions
         SET last_payment_date = $1,
-            next_payment_date = $2
+            next_payment_date = $2,
+            status = 'active',
+            past_due_since = NULL,
+            next_retry_at = NULL,
+            retry_count = 0
        WHERE xata_id = $3`,
       [now, nextPaymentDate, subscriptionId]
     );
 
     await client.query(
+      `INSERT INTO payment_attempts (subscription_id, attempted_at, status, amount_due, tx_hash)
+       VALUES ($1, $2, 'succeeded', $3, $4)`,
+      [subscriptionId, now, amountDecimal, txHash]
+    );
+
+    const paymentResult = await client.query(
       `INSERT INTO payments (
           subscription_id,
           user_id,
@@ -245,7 +326,8 @@ async function updatePaymentRecords({ subscriptionId, userRecordId, developerRec
           payment_date,
           tx_hash
        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8)
-       ON CONFLICT (tx_hash) DO NOTHING`,
+       ON CONFLICT (tx_hash) DO NOTHING
+       RETURNING xata_id`,
       [
         subscriptionId,
         userRecordId,
@@ -258,6 +340,92 @@ async function updatePaymentRecords({ subscriptionId, userRecordId, developerRec
       ]
     );
 
+    // Only announce the renewal the first time this transaction is recorded
+    if (paymentResult.rows.length > 0) {
+      await queueWebhookEvent(client, projectId, 'subscription.renewed', {
+        subscription_id: subscriptionId,
+        contract_subscription_id: contractSubscriptionId,
+        payment_id: paymentResult.rows[0].xata_id,
+        plan_id: contractPlanId,
+        amount: amountDecimal,
+        token_address: tokenAddress,
+        token_symbol: tokenSymbol,
+        tx_hash: txHash,
+        payment_date: now,
+        next_payment_date: nextPaymentDate,
+      });
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Records a failed renewal and moves the subscription through dunning: the first failure marks it
+// past_due, later failures reschedule the retry, and once the grace period is over it expires
+async function recordFailedAttempt(subscription, { reason, amountDue, balance, txHash = null }) {
+  const {
+    subscriptionId,
+    contractSubscriptionId,
+    projectId,
+    contractPlanId,
+    tokenSymbol,
+    status,
+    pastDueSince,
+    retryCount,
+    gracePeriodSeconds,
+    retryIntervalSeconds,
+  } = subscription;
+
+  const client = await pool.connect();
+  const now = Math.floor(Date.now() / 1000);
+  const dunningStartedAt = pastDueSince ?? now;
+  const graceEndsAt = dunningStartedAt + gracePeriodSeconds;
+  const graceExpired = now >= graceEndsAt;
+  const nextRetryAt = graceExpired ? null : Math.min(now + retryIntervalSeconds, graceEndsAt);
+
+  try {
+    await client.query('BEGIN');
+
+    await client.query(
+      `INSERT INTO payment_attempts (subscription_id, attempted_at, status, reason, amount_due, balance, tx_hash)
+       VALUES ($1, $2, 'failed', $3, $4, $5, $6)`,
+      [subscriptionId, now, reason, amountDue, balance, txHash]
+    );
+
+    await client.query(
+      `UPDATE user_subscriptions
+        SET status = $1,
+            past_due_since = $2,
+            next_retry_at = $3,
+            retry_count = $4
+       WHERE xata_id = $5`,
+      [graceExpired ? 'expired' : 'past_due', dunningStartedAt, nextRetryAt, retryCount + 1, subscriptionId]
+    );
+
+    const eventData = {
+      subscription_id: subscriptionId,
+      contract_subscription_id: contractSubscriptionId,
+      plan_id: contractPlanId,
+      amount_due: amountDue,
+      balance,
+      token_symbol: tokenSymbol,
+      reason,
+      retry_count: retryCount + 1,
+      past_due_since: dunningStartedAt,
+      grace_ends_at: graceEndsAt,
+    };
+
+    if (graceExpired) {
+      await queueWebhookEvent(client, projectId, 'subscription.expired', eventData);
+    } else if (status !== 'past_due') {
+      await queueWebhookEvent(client, projectId, 'subscription.past_due', { ...eventData, next_retry_at: nextRetryAt });
+    }
+
     await client.query('COMMIT');
   } catch (error) {
     await client.query('ROLLBACK');
@@ -265,6 +433,187 @@ async function updatePaymentRecords({ subscriptionId, userRecordId, developerRec
   } finally {
     client.release();
   }
+
+  console.log(
+    graceExpired
+      ? `Subscription ${subscriptionId} expired after ${retryCount + 1} failed attempts (${reason})`
+      : `Subscription ${subscriptionId} past due (${reason}) - next retry at ${nextRetryAt}`
+  );
+  return { status: graceExpired ? 'expired' : 'past_due', reason };
+}
+
+// Managers with a sweep transaction in flight, so concurrent payments to one project don't race it
+const sweepsInFlight = new Set();
+
+// sweepRevenue is permissionless on the contract: it can only ever pay the owner's on-chain payout address,
+// and it leaves the owner's refund reserve behind, so the agent sends it directly instead of through a delegation
+async function sweepRevenue(projectId, managerAddress, tokenAddress, tokenSymbol) {
+  const key = managerAddress.toLowerCase();
+  if (sweepsInFlight.has(key)) {
+    return { status: 'skipped', reason: 'sweep_in_flight' };
+  }
+  sweepsInFlight.add(key);
+
+  try {
+    const managerContract = getSubscriptionManagerContract(managerAddress);
+    const tx = await withRateLimit(() => managerContract.sweepRevenue(tokenAddress), 'sweep-revenue');
+    const receipt = await waitForReceipt(tx.hash);
+    if (receipt.status === 0) {
+      console.error(`Sweep transaction ${tx.hash} reverted for project ${projectId}`);
+      return { status: 'error', txHash: tx.hash };
+    }
+
+    const { decimals } = await getTokenMetadata(tokenAddress);
+    const sweptAt = Math.floor(Date.now() / 1000);
+    const sweeps = receipt.logs
+      .filter(log => log.address.toLowerCase() === key)
+      .map(log => {
+        try {
+          return { log, parsed: managerContract.interface.parseLog(log) };
+        } catch {
+          return null;
+        }
+      })
+      .filter(entry => entry?.parsed?.name === 'RevenueSwept');
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const { log, parsed } of sweeps) {
+        await client.query(
+          `INSERT INTO revenue_withdrawals (
+              project_id,
+              developer_id,
+              token_address,
+              token_symbol,
+              amount,
+              recipient_address,
+              source,
+              withdrawn_at,
+              tx_hash,
+              log_index
+           )
+           SELECT p.xata_id, p.developer_id, $2, $3, $4, $5, 'sweep', $6, $7, $8
+             FROM projects p
+            WHERE p.xata_id = $1
+           ON CONFLICT (tx_hash, log_index) DO NOTHING`,
+          [
+            projectId,
+            parsed.args.token.toLowerCase(),
+            tokenSymbol,
+            ethers.formatUnits(parsed.args.amount, decimals),
+            parsed.args.to.toLowerCase(),
+            sweptAt,
+            tx.hash,
+            log.index,
+          ]
+        );
+      }
+      await client.query(
+        'UPDATE projects SET last_swept_at = $1 WHERE xata_id = $2',
+        [sweptAt, projectId]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    console.log(`Swept ${tokenSymbol} revenue for project ${projectId} in ${tx.hash}`);
+    return { status: 'swept', txHash: tx.hash };
+  } catch (error) {
+    console.error(`Revenue sweep failed for project ${projectId}:`, describePaymentError(error));
+    return { status: 'error', error };
+  } finally {
+    sweepsInFlight.delete(key);
+  }
+}
+
+// Settings are re-read rather than taken from the due-subscription row so a batch sees earlier sweeps
+async function sweepAfterPayment(subscription) {
+  const { projectId, subscriptionManager, tokenAddress, tokenSymbol } = subscription;
+
+  const { rows } = await pool.query(
+    `SELECT payout_address, sweep_policy, sweep_threshold
+       FROM projects
+      WHERE xata_id = $1`,
+    [projectId]
+  );
+  const project = rows[0];
+  if (!project?.payout_address) return { status: 'skipped', reason: 'no_payout_address' };
+
+  if (project.sweep_policy === 'threshold') {
+    const { decimals } = await getTokenMetadata(tokenAddress);
+    const managerContract = getSubscriptionManagerContract(subscriptionManager);
+    const sweepable = await withRateLimit(() => managerContract.sweepableBalance(tokenAddress), 'manager-balance');
+    if (sweepable < ethers.parseUnits(String(project.sweep_threshold), decimals)) {
+      return { status: 'skipped', reason: 'below_threshold' };
+    }
+  } else if (project.sweep_policy !== 'every_payment') {
+    return { status: 'skipped', reason: 'policy' };
+  }
+
+  return sweepRevenue(projectId, subscriptionManager, tokenAddress, tokenSymbol);
+}
+
+// Scheduled sweeps run from the collector loop, once per interval, for every token the project charges in
+async function sweepScheduledProjects() {
+  const now = Math.floor(Date.now() / 1000);
+  const { rows } = await pool.query(
+    `SELECT DISTINCT
+        p.xata_id AS project_id,
+        p.subscription_manager_address,
+        COALESCE(sp.token_address, st.token_address) AS token_address,
+        COALESCE(sp.token_symbol, st.symbol) AS token_symbol
+       FROM projects p
+       JOIN supported_tokens st ON st.xata_id = p.supported_token_id
+       LEFT JOIN subscription_plans sp ON sp.project_id = p.xata_id
+      WHERE p.sweep_policy = 'schedule'
+        AND p.payout_address IS NOT NULL
+        AND p.subscription_manager_address IS NOT NULL
+        AND p.sweep_interval_seconds IS NOT NULL
+        AND LOWER(p.agent_address) = ANY($2)
+        AND COALESCE(p.last_swept_at, 0) + p.sweep_interval_seconds <= $1`,
+    [now, [...agents.keys()]]
+  );
+
+  for (const row of rows) {
+    // Managers deployed before refund reserves have no sweepableBalance; one of them must not stop the rest
+    let sweepable;
+    try {
+      const managerContract = getSubscriptionManagerContract(row.subscription_manager_address);
+      sweepable = await withRateLimit(
+        () => managerContract.sweepableBalance(row.token_address),
+        'manager-balance'
+      );
+    } catch (error) {
+      console.error(`Sweep balance check failed for project ${row.project_id}:`, describePaymentError(error));
+      continue;
+    }
+    if (sweepable === 0n) continue;
+
+    await sweepRevenue(row.project_id, row.subscription_manager_address, row.token_address, row.token_symbol);
+  }
+}
+
+function describePaymentError(error) {
+  return error?.reason || error?.shortMessage || error?.info?.error?.message || error?.message || 'unknown_error';
+}
+
+async function isAnyDelegationDisabled(delegations) {
+  const delegationManager = new ethers.Contract(environment.DelegationManager, delegationManagerInterface, monadProvider);
+  for (const delegation of delegations) {
+    const disabled = await withRateLimit(
+      () => delegationManager.disabledDelegations(getDelegationHashOffchain(delegation)),
+      'delegation-disabled'
+    );
+    if (disabled) {
+      return true;
+    }
+  }
+  return false;
 }
 
 async function processSubscription(subscription) {
@@ -276,9 +625,12 @@ async function processSubscription(subscription) {
     tokenSymbol,
     periodSeconds,
     delegationDataRaw,
+    delegationActive,
     userRecordId,
     developerRecordId,
+    projectId,
     subscriptionManager,
+    contractSubscriptionId,
   } = subscription;
 
   if (!delegationDataRaw) {
@@ -286,6 +638,17 @@ async function processSubscription(subscription) {
     return { status: 'skipped', reason: 'no_delegation' };
   }
 
+  // A cancelled or revoked delegation is never redeemed, even while the subscription still looks billable
+  if (!delegationActive) {
+    console.log(`Refusing inactive delegation for ${smartAccount} (subscription ${subscriptionId})`);
+    return recordFailedAttempt(subscription, { reason: 'Renewal delegation is no longer active' });
+  }
+
+  if (contractSubscriptionId === null) {
+    console.log(`Skipping ${smartAccount} - subscription ${subscriptionId} has no on-chain subscription id`);
+    return { status: 'skipped', reason: 'no_contract_subscription_id' };
+  }
+
   let managerContract;
   try {
     managerContract = getSubscriptionManagerContract(subscriptionManager);
@@ -304,29 +667,64 @@ async function processSubscription(subscription) {
 
   const signedApproveDelegation = delegationData.signedApproveDelegation;
   const signedProcessPaymentDelegation = delegationData.signedProcessPaymentDelegation;
+
+  // Delegations name the agent the project had when they were signed. After a project changes its
+  // agent, older subscribers stay on the previous one until they sign again, so keep its key loaded.
+  const delegateAddress = (signedProcessPaymentDelegation?.delegate || subscription.agentAddress).toLowerCase();
+  const redeemer = agents.get(delegateAddress);
+  if (!redeemer) {
+    console.log(`Skipping ${smartAccount} - no key loaded for delegate ${delegateAddress} (subscription ${subscriptionId})`);
+    return { status: 'skipped', reason: 'delegate_key_missing' };
+  }
+
+  // The subscriber may have disabled a delegation on-chain without the database hearing about it
+  if (await isAnyDelegationDisabled([signedApproveDelegation, signedProcessPaymentDelegation])) {
+    console.log(`Refusing disabled delegation for ${smartAccount} (subscription ${subscriptionId})`);
+    return recordFailedAttempt(subscription, { reason: 'Renewal delegation was disabled on-chain' });
+  }
   const planDetails = await withRateLimit(
     () => managerContract.getPlan(contractPlanId),
     'subscription-plan'
   );
 
   const paymentDue = await withRateLimit(
-    () => managerContract.isPaymentDue(smartAccount),
+    () => managerContract.isPaymentDue(contractSubscriptionId),
     'is-payment-due'
   );
 
   if (!paymentDue[0]) {
-    console.log(`Payment not due for ${smartAccount}`);
+    console.log(`Payment not due for ${smartAccount} (subscription ${contractSubscriptionId})`);
     return { status: 'not_due' };
   }
 
+  // Plan price with any promo code discount still applied to this subscription
+  const chargeAmount = await withRateLimit(
+    () => managerContract.nextChargeAmount(contractSubscriptionId),
+    'next-charge-amount'
+  );
+
   const planTokenAddress = planDetails.tokenAddress || tokenAddress;
+  const { decimals } = await getTokenMetadata(tokenAddress);
+  const amountDecimal = ethers.formatUnits(chargeAmount, decimals);
+
+  // Check the balance first so an underfunded account doesn't cost the agent a reverted transaction
+  const tokenContract = new ethers.Contract(planTokenAddress, tokenInterface, monadProvider);
+  const balance = await withRateLimit(() => tokenContract.balanceOf(smartAccount), 'token-balance');
+  if (balance < chargeAmount) {
+    return recordFailedAttempt(subscription, {
+      reason: 'Insufficient USDC balance',
+      amountDue: amountDecimal,
+      balance: ethers.formatUnits(balance, decimals),
+    });
+  }
 
+  // Capped delegations only allow approving exactly the plan price; the manager still pulls just chargeAmount
   const approveCalldata = tokenInterface.encodeFunctionData('approve', [
     planDetails.subscriptionManager || planDetails.subscriptionManagerAddress || managerContract.target,
     planDetails.price,
   ]);
 
-  const processPaymentCalldata = managerContract.interface.encodeFunctionData('processPayment', [smartAccount]);
+  const processPaymentCalldata = managerContract.interface.encodeFunctionData('processPayment', [contractSubscriptionId]);
 
   const approveExecution = createExecution({
     target: planTokenAddress,
@@ -352,23 +750,43 @@ async function processSubscription(subscription) {
     ],
   });
 
-  const combinedTx = await withRateLimit(
-    () => agent.sendTransaction({ to: environment.DelegationManager, data: combinedRedeemCalldata }),
-    'send-tx-combined'
-  );
+  // Reverts surface here during gas estimation, before anything is sent
+  let combinedTx;
+  try {
+    combinedTx = await withRateLimit(
+      () => redeemer.sendTransaction({ to: environment.DelegationManager, data: combinedRedeemCalldata }),
+      'send-tx-combined'
+    );
+  } catch (error) {
+    console.error('Renewal transaction failed for', smartAccount, error);
+    return recordFailedAttempt(subscription, {
+      reason: describePaymentError(error),
+      amountDue: amountDecimal,
+      balance: ethers.formatUnits(balance, decimals),
+    });
+  }
 
   console.log(`Tx sent: ${combinedTx.hash} for ${smartAccount}`);
   const receipt = await waitForReceipt(combinedTx.hash);
 
-  try {
-    const periodSecondsOnChain = Number(planDetails.periodSeconds || periodSeconds);
-    const { decimals } = await getTokenMetadata(tokenAddress);
-    const amountDecimal = ethers.formatUnits(planDetails.price, decimals);
+  if (receipt.status === 0) {
+    return recordFailedAttempt(subscription, {
+      reason: 'Renewal transaction reverted',
+      amountDue: amountDecimal,
+      balance: ethers.formatUnits(balance, decimals),
+      txHash: combinedTx.hash,
+    });
+  }
 
+  const periodSecondsOnChain = Number(planDetails.periodSeconds || periodSeconds);
+  try {
     await updatePaymentRecords({
       subscriptionId,
+      contractSubscriptionId,
       userRecordId,
       developerRecordId,
+      projectId,
+      contractPlanId,
       amountDecimal,
       tokenAddress,
       tokenSymbol,
@@ -377,11 +795,21 @@ async function processSubscription(subscription) {
     });
 
     console.log(`Payment confirmed for ${smartAccount} in block ${receipt.blockNumber}`);
-    return { status: 'paid', txHash: combinedTx.hash, periodSeconds: periodSecondsOnChain };
   } catch (error) {
     console.error('Failed to update payment records for', smartAccount, error);
     throw error;
   }
+
+  // The payment already stands; a failed sweep is picked up by the next payment or schedule tick
+  if (subscription.sweepPolicy === 'every_payment' || subscription.sweepPolicy === 'threshold') {
+    try {
+      await sweepAfterPayment(subscription);
+    } catch (error) {
+      console.error('Post-payment sweep check failed for project', projectId, error);
+    }
+  }
+
+  return { status: 'paid', txHash: combinedTx.hash, periodSeconds: periodSecondsOnChain };
 }
 
 function chunk(array, size) {
@@ -404,6 +832,12 @@ async function startCollector() {
 
   while (true) {
     try {
+      try {
+        await sweepScheduledProjects();
+      } catch (error) {
+        console.error('Scheduled sweep error:', error);
+      }
+
       const due = await fetchDueSubscriptions(MAX_CONCURRENT_PAYMENTS * 5);
 
       if (due.length === 0) {
@@ -0,0 +1,321 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { network } from "hardhat";
+import { keccak256, parseUnits, toBytes } from "viem";
+
+const DAY = 24n * 60n * 60n;
+const MONTH = 30n * DAY;
+const YEAR = 360n * DAY;
+const usdc = (amount: string) => parseUnits(amount, 18);
+
+const { viem, networkHelpers } = await network.connect();
+
+describe("SubscriptionManager", () => {
+  let manager: Awaited<ReturnType<typeof deploy>>["manager"];
+  let asSubscriber: Awaited<ReturnType<typeof deploy>>["asSubscriber"];
+  let token: Awaited<ReturnType<typeof deploy>>["token"];
+  let subscriber: `0x${string}`;
+
+  // Plan 1: 10/month, plan 2: 100/year, plan 3: 10/month with a 14 day trial, plan 4: 4/month
+  async function deploy() {
+    const [owner, subscriberWallet] = await viem.getWalletClients();
+    const token = await viem.deployContract("MockUSDC", [subscriberWallet.account.address, owner.account.address]);
+    const manager = await viem.deployContract("SubscriptionManager");
+    await manager.write.createPlansBatch([
+      ["Monthly", "Annual", "Monthly with trial", "Lite"],
+      [usdc("10"), usdc("100"), usdc("10"), usdc("4")],
+      [MONTH, YEAR, MONTH, MONTH],
+      [token.address, token.address, token.address, token.address],
+      [0n, 0n, 14n * DAY, 0n],
+    ]);
+
+    const asSubscriber = await viem.getContractAt("SubscriptionManager", manager.address, { client: { wallet: subscriberWallet } });
+    const tokenAsSubscriber = await viem.getContractAt("MockUSDC", token.address, { client: { wallet: subscriberWallet } });
+    await tokenAsSubscriber.write.approve([manager.address, usdc("1000000")]);
+
+    return { manager, asSubscriber, token, subscriber: subscriberWallet.account.address };
+  }
+
+  beforeEach(async () => {
+    ({ manager, asSubscriber, token, subscriber } = await deploy());
+  });
+
+  async function subscribeAt(planId: bigint, timestamp?: bigint) {
+    if (timestamp !== undefined) {
+      await networkHelpers.time.setNextBlockTimestamp(timestamp);
+    }
+    await asSubscriber.write.subscribeWithPayment([planId]);
+    return (await manager.read.nextSubscriptionId()) - 1n;
+  }
+
+  async function startOfTest() {
+    return BigInt(await networkHelpers.time.latest()) + 100n;
+  }
+
+  describe("renewals", () => {
+    it("charges the plan price at signup and once per period after that", async () => {
+      const start = await startOfTest();
+      const subscriptionId = await subscribeAt(1n, start);
+      assert.equal(await manager.read.subscriptionPaid([subscriptionId]), usdc("10"));
+
+      await networkHelpers.time.setNextBlockTimestamp(start + MONTH - 1n);
+      await assert.rejects(asSubscriber.write.processPayment([subscriptionId]), /Payment not due yet/);
+
+      await networkHelpers.time.setNextBlockTimestamp(start + MONTH);
+      await asSubscriber.write.processPayment([subscriptionId]);
+      assert.equal(await manager.read.subscriptionPaid([subscriptionId]), usdc("20"));
+
+      // Renewal delegations rely on this: a second charge in the same period is refused
+      await assert.rejects(asSubscriber.write.processPayment([subscriptionId]), /Payment not due yet/);
+    });
+
+    it("only lets the subscriber's own account pay", async () => {
+      const subscriptionId = await subscribeAt(1n);
+      await networkHelpers.time.increase(MONTH);
+
+      await assert.rejects(manager.write.processPayment([subscriptionId]), /Can only pay for your own subscription/);
+    });
+
+    it("keeps several subscriptions of one account apart", async () => {
+      const first = await subscribeAt(1n);
+      const second = await subscribeAt(4n);
+
+      assert.deepEqual(await manager.read.getUserSubscriptionIds([subscriber]), [first, second]);
+
+      await asSubscriber.write.cancelSubscription([first]);
+      assert.equal((await manager.read.getUserSubscription([first])).active, false);
+      assert.equal((await manager.read.getUserSubscription([second])).active, true);
+    });
+  });
+
+  describe("trials", () => {
+    it("charges nothing until the trial ends", async () => {
+      const start = await startOfTest();
+      const subscriptionId = await subscribeAt(3n, start);
+
+      assert.equal(await manager.read.subscriptionPaid([subscriptionId]), 0n);
+      assert.deepEqual(await manager.read.isPaymentDue([subscriptionId]), [false, start + 14n * DAY]);
+
+      await networkHelpers.time.setNextBlockTimestamp(start + 14n * DAY);
+      await asSubscriber.write.processPayment([subscriptionId]);
+
+      assert.equal(await manager.read.subscriptionPaid([subscriptionId]), usdc("10"));
+      assert.deepEqual(await manager.read.isPaymentDue([subscriptionId]), [false, start + 14n * DAY + MONTH]);
+    });
+  });
+
+  describe("pausing", () => {
+    it("stops charges while paused and moves the schedule by the paused time", async () => {
+      const start = await startOfTest();
+      const subscriptionId = await subscribeAt(1n, start);
+
+      await networkHelpers.time.setNextBlockTimestamp(start + 10n * DAY);
+      await asSubscriber.write.pauseSubscription([subscriptionId]);
+
+      await networkHelpers.time.setNextBlockTimestamp(start + 40n * DAY);
+      await assert.rejects(asSubscriber.write.processPayment([subscriptionId]), /Subscription is paused/);
+      assert.deepEqual(await manager.read.isPaymentDue([subscriptionId]), [false, 0n]);
+      await assert.rejects(asSubscriber.write.changePlan([subscriptionId, 2n]), /Subscription is paused/);
+
+      await networkHelpers.time.setNextBlockTimestamp(start + 50n * DAY);
+      await asSubscriber.write.resumeSubscription([subscriptionId]);
+      const [resumed] = await manager.getEvents.SubscriptionResumed();
+      assert.equal(resumed.args.nextPaymentDue, start + MONTH + 40n * DAY);
+    });
+
+    it("extends a trial by the paused time", async () => {
+      const start = await startOfTest();
+      const subscriptionId = await subscribeAt(3n, start);
+
+      await networkHelpers.time.setNextBlockTimestamp(start + DAY);
+      await asSubscriber.write.pauseSubscription([subscriptionId]);
+      await networkHelpers.time.setNextBlockTimestamp(start + 6n * DAY);
+      await asSubscriber.write.resumeSubscription([subscriptionId]);
+
+      assert.deepEqual(await manager.read.isPaymentDue([subscriptionId]), [false, start + 19n * DAY]);
+    });
+
+    it("can only be paused by the subscriber", async () => {
+      const subscriptionId = await subscribeAt(1n);
+
+      await assert.rejects(manager.write.pauseSubscription([subscriptionId]), /Not your subscription/);
+    });
+  });
+
+  describe("plan changes", () => {
+    it("credits the unused part of the period against the new plan", async () => {
+      const start = await startOfTest();
+      const subscriptionId = await subscribeAt(1n, start);
+      const changedAt = start + 15n * DAY;
+
+      // Straight after signup the whole period is still unused
+      assert.deepEqual(await manager.read.previewPlanChange([subscriptionId, 2n]), [usdc("90"), usdc("10")]);
+
+      await networkHelpers.time.setNextBlockTimestamp(changedAt);
+      await asSubscriber.write.changePlan([subscriptionId, 2n]);
+
+      const [changed] = await manager.getEvents.PlanChanged();
+      assert.equal(changed.args.amountCharged, usdc("95"));
+      assert.equal(changed.args.creditApplied, usdc("5"));
+      assert.equal(changed.args.nextPaymentDue, changedAt + YEAR);
+      assert.equal(await manager.read.subscriptionPaid([subscriptionId]), usdc("105"));
+
+      const subscription = await manager.read.getUserSubscription([subscriptionId]);
+      assert.equal(subscription.planId, 2n);
+      assert.equal(subscription.lastChargeAmount, usdc("100"));
+    });
+
+    it("credits from what the period actually cost after a coupon", async () => {
+      const codeHash = keccak256(toBytes("HALF"));
+      await manager.write.createCoupon([codeHash, true, 5000n, 0n, 0n, 0n]);
+      const start = await startOfTest();
+      await networkHelpers.time.setNextBlockTimestamp(start);
+      await asSubscriber.write.subscribeWithCoupon([1n, codeHash]);
+      const subscriptionId = (await manager.read.nextSubscriptionId()) - 1n;
+      assert.equal(await manager.read.subscriptionPaid([subscriptionId]), usdc("5"));
+
+      await networkHelpers.time.setNextBlockTimestamp(start + 15n * DAY);
+      await asSubscriber.write.changePlan([subscriptionId, 2n]);
+
+      const [changed] = await manager.getEvents.PlanChanged();
+      assert.equal(changed.args.creditApplied, usdc("2.5"));
+      assert.equal(changed.args.amountCharged, usdc("97.5"));
+    });
+
+    it("turns credit beyond the new price into extra time", async () => {
+      const start = await startOfTest();
+      const subscriptionId = await subscribeAt(2n, start);
+      const changedAt = start + 180n * DAY;
+
+      await networkHelpers.time.setNextBlockTimestamp(changedAt);
+      await asSubscriber.write.changePlan([subscriptionId, 4n]);
+
+      // 50 of credit pays for the 4/month plan and 46 more buys 11.5 months on it
+      const [changed] = await manager.getEvents.PlanChanged();
+      assert.equal(changed.args.amountCharged, 0n);
+      assert.equal(changed.args.creditApplied, usdc("50"));
+      assert.equal(changed.args.nextPaymentDue, changedAt + (46n * MONTH) / 4n + MONTH);
+    });
+
+    it("credits the prepaid time left after a downgrade pushed the schedule ahead", async () => {
+      const start = await startOfTest();
+      const subscriptionId = await subscribeAt(2n, start);
+      await networkHelpers.time.setNextBlockTimestamp(start + 180n * DAY);
+      await asSubscriber.write.changePlan([subscriptionId, 4n]);
+      const [downgraded] = await manager.getEvents.PlanChanged();
+
+      const changedAt = start + 181n * DAY;
+      await networkHelpers.time.setNextBlockTimestamp(changedAt);
+      await asSubscriber.write.changePlan([subscriptionId, 1n]);
+
+      // Everything left before the next payment date counts, at the 4/month the downgrade paid for
+      const [changed] = await manager.getEvents.PlanChanged();
+      const remaining = downgraded.args.nextPaymentDue! - changedAt;
+      assert.equal(changed.args.creditApplied, (usdc("4") * remaining) / MONTH);
+      assert.equal(changed.args.amountCharged, 0n);
+    });
+
+    it("carries a trial over without charging", async () => {
+      const start = await startOfTest();
+      const subscriptionId = await subscribeAt(3n, start);
+
+      await networkHelpers.time.setNextBlockTimestamp(start + DAY);
+      await asSubscriber.write.changePlan([subscriptionId, 2n]);
+
+      const [changed] = await manager.getEvents.PlanChanged();
+      assert.equal(changed.args.amountCharged, 0n);
+      assert.equal(changed.args.nextPaymentDue, start + 14n * DAY);
+      assert.equal(await manager.read.subscriptionPaid([subscriptionId]), 0n);
+    });
+
+    it("refuses archived plans", async () => {
+      const subscriptionId = await subscribeAt(1n);
+      await manager.write.archivePlan([2n]);
+
+      await assert.rejects(asSubscriber.write.changePlan([subscriptionId, 2n]), /Plan is not active/);
+    });
+  });
+
+  describe("refunds", () => {
+    async function paymentIds() {
+      return (await manager.getEvents.PaymentRecorded({}, { fromBlock: 0n })).map((event) => event.args.paymentId!);
+    }
+
+    it("caps each refund at what its own payment took", async () => {
+      const start = await startOfTest();
+      const subscriptionId = await subscribeAt(1n, start);
+      await networkHelpers.time.setNextBlockTimestamp(start + MONTH);
+      await asSubscriber.write.processPayment([subscriptionId]);
+      const [signup, renewal] = await paymentIds();
+      const txHash = keccak256(toBytes("renewal"));
+
+      await manager.write.refund([renewal, usdc("6"), txHash]);
+      await assert.rejects(manager.write.refund([renewal, usdc("5"), txHash]), /Refund exceeds amount paid/);
+      await manager.write.refund([renewal, usdc("4"), txHash]);
+      await manager.write.refund([signup, usdc("10"), txHash]);
+
+      assert.equal(await manager.read.subscriptionRefunded([subscriptionId]), usdc("20"));
+      assert.equal(await token.read.balanceOf([subscriber]), usdc("10000000"));
+    });
+
+    it("records the proration charge of a plan change as its own payment", async () => {
+      const start = await startOfTest();
+      const subscriptionId = await subscribeAt(1n, start);
+      await networkHelpers.time.setNextBlockTimestamp(start + 15n * DAY);
+      await asSubscriber.write.changePlan([subscriptionId, 2n]);
+
+      const [, proration] = await paymentIds();
+      const [, amount] = await manager.read.payments([proration]);
+      assert.equal(amount, usdc("95"));
+    });
+
+    it("can only be sent by the owner for a known payment", async () => {
+      await subscribeAt(1n);
+      const [paymentId] = await paymentIds();
+      const txHash = keccak256(toBytes("signup"));
+
+      await assert.rejects(asSubscriber.write.refund([paymentId, usdc("1"), txHash]), /OwnableUnauthorizedAccount/);
+      await assert.rejects(manager.write.refund([paymentId + 1n, usdc("1"), txHash]), /Payment does not exist/);
+    });
+  });
+
+  describe("sweeps", () => {
+    it("leaves the refund reserve on the contract for refunds", async () => {
+      const [, , payoutWallet] = await viem.getWalletClients();
+      const payout = payoutWallet.account.address;
+      await manager.write.setPayoutAddress([payout]);
+      await manager.write.setRefundReserve([token.address, usdc("4")]);
+      await subscribeAt(1n);
+
+      assert.equal(await manager.read.sweepableBalance([token.address]), usdc("6"));
+      await asSubscriber.write.sweepRevenue([token.address]);
+      assert.equal(await token.read.balanceOf([payout]), usdc("6"));
+      assert.equal(await token.read.balanceOf([manager.address]), usdc("4"));
+      await assert.rejects(asSubscriber.write.sweepRevenue([token.address]), /Nothing to sweep/);
+    });
+
+    it("lets only the owner set the refund reserve", async () => {
+      await assert.rejects(asSubscriber.write.setRefundReserve([token.address, 0n]), /OwnableUnauthorizedAccount/);
+    });
+  });
+
+  describe("coupons", () => {
+    it("discounts only as many charges as the coupon allows", async () => {
+      const codeHash = keccak256(toBytes("TWOOFF"));
+      await manager.write.createCoupon([codeHash, false, usdc("2"), 2n, 1n, 0n]);
+      const start = await startOfTest();
+      await networkHelpers.time.setNextBlockTimestamp(start);
+      await asSubscriber.write.subscribeWithCoupon([1n, codeHash]);
+      const subscriptionId = (await manager.read.nextSubscriptionId()) - 1n;
+
+      assert.equal(await manager.read.nextChargeAmount([subscriptionId]), usdc("8"));
+      await networkHelpers.time.setNextBlockTimestamp(start + MONTH);
+      await asSubscriber.write.processPayment([subscriptionId]);
+      assert.equal(await manager.read.nextChargeAmount([subscriptionId]), usdc("10"));
+      assert.equal(await manager.read.subscriptionPaid([subscriptionId]), usdc("16"));
+
+      await assert.rejects(asSubscriber.write.subscribeWithCoupon([1n, codeHash]), /Coupon fully redeemed/);
+      assert.equal(await token.read.balanceOf([manager.address]), usdc("16"));
+    });
+  });
+});
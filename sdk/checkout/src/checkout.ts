@@ -0,0 +1,266 @@
+import { AutivCheckoutError } from './errors.js'
+import type {
+  AutivCheckoutConfig,
+  CheckoutMessage,
+  CheckoutParams,
+  CreatePaymentSessionParams,
+  OpenCheckoutOptions,
+  PaymentSession
+} from './types.js'
+
+const CHECKOUT_MESSAGE_SOURCE = 'autiv-checkout'
+const POPUP_NAME = 'autiv-checkout'
+const POPUP_FEATURES = 'popup,width=480,height=780'
+const CLOSED_CHECK_INTERVAL_MS = 500
+const OVERLAY_Z_INDEX = '2147483647'
+
+// Where checkout is shown: a popup window or an iframe overlay on the merchant page
+interface CheckoutSurface {
+  navigate: (url: string) => void
+  isClosed: () => boolean
+  close: () => void
+}
+
+function generateNonce(): string {
+  const array = new Uint8Array(16)
+  crypto.getRandomValues(array)
+  return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function isCheckoutMessage(data: unknown): data is CheckoutMessage {
+  if (!data || typeof data !== 'object') return false
+  const message = data as Partial<CheckoutMessage>
+  return message.source === CHECKOUT_MESSAGE_SOURCE
+    && message.type === 'payment_session.status'
+    && typeof message.paymentId === 'string'
+    && typeof message.status === 'string'
+}
+
+export class AutivCheckout {
+  private readonly apiUrl: string
+  private readonly paymentSiteUrl: string
+  private readonly paymentSiteOrigin: string
+  private readonly config: AutivCheckoutConfig
+
+  constructor(config: AutivCheckoutConfig) {
+    this.config = config
+    this.apiUrl = config.apiUrl.replace(/\/$/, '')
+    this.paymentSiteUrl = config.paymentSiteUrl.replace(/\/$/, '')
+    this.paymentSiteOrigin = new URL(this.paymentSiteUrl).origin
+  }
+
+  /**
+   * Create a payment session for a plan without opening checkout
+   */
+  async createSession(params: CreatePaymentSessionParams): Promise<PaymentSession> {
+    const data = await this.request<{ session: PaymentSession }>('POST', '/v1/payment-sessions', {
+      project_id: params.projectId,
+      contract_plan_id: params.contractPlanId,
+      coupon_code: params.couponCode || undefined,
+      metadata: params.metadata
+    })
+    return data.session
+  }
+
+  async getSession(paymentId: string): Promise<PaymentSession> {
+    // Sessions are public by id, so reading one needs no credentials
+    const data = await this.request<{ session: PaymentSession }>('GET', `/v1/payment-sessions/${encodeURIComponent(paymentId)}`)
+    return data.session
+  }
+
+  /**
+   * Open checkout for an existing session, e.g. one created by the merchant's server.
+   * Resolves with the paid session; rejects if it expires or the user closes checkout.
+   */
+  open(paymentId: string, options: OpenCheckoutOptions = {}): Promise<PaymentSession> {
+    try {
+      const surface = options.mode === 'iframe' ? this.mountOverlay() : this.openPopup()
+      return this.waitForCompletion(paymentId, surface, options)
+    } catch (error) {
+      return Promise.reject(error)
+    }
+  }
+
+  /**
+   * Create a session and open checkout for it. Call this from a click handler so the popup isn't blocked.
+   */
+  async checkout(params: CheckoutParams): Promise<PaymentSession> {
+    // The popup has to open before the first await to count as part of the user's click
+    const popup = params.mode === 'iframe' ? null : this.openPopup()
+
+    let session: PaymentSession
+    try {
+      session = await this.createSession(params)
+    } catch (error) {
+      popup?.close()
+      throw error
+    }
+
+    return this.waitForCompletion(session.paymentId, popup ?? this.mountOverlay(), params)
+  }
+
+  private checkoutUrl(paymentId: string): string {
+    // The payment site only posts status messages back to this origin
+    const origin = encodeURIComponent(window.location.origin)
+    return `${this.paymentSiteUrl}/pay/${encodeURIComponent(paymentId)}?origin=${origin}`
+  }
+
+  private waitForCompletion(paymentId: string, surface: CheckoutSurface, options: OpenCheckoutOptions): Promise<PaymentSession> {
+    surface.navigate(this.checkoutUrl(paymentId))
+
+    return new Promise<PaymentSession>((resolve, reject) => {
+      let settled = false
+
+      const cleanup = () => {
+        window.removeEventListener('message', handleMessage)
+        window.clearInterval(closedTimer)
+      }
+
+      const fail = (error: unknown) => {
+        if (settled) return
+        settled = true
+        cleanup()
+        surface.close()
+        reject(error)
+      }
+
+      const handleMessage = (event: MessageEvent) => {
+        if (settled || event.origin !== this.paymentSiteOrigin || !isCheckoutMessage(event.data)) return
+        if (event.data.paymentId !== paymentId) return
+
+        options.onStatusChange?.(event.data.status)
+
+        if (event.data.status === 'paid') {
+          // The message only signals completion; the paid session is read back from the API
+          settled = true
+          cleanup()
+          this.getSession(paymentId)
+            .then(resolve, reject)
+            .finally(() => surface.close())
+        } else if (event.data.status === 'expired') {
+          fail(new AutivCheckoutError('session_expired', 'The payment session expired before it was paid'))
+        }
+      }
+
+      const closedTimer = window.setInterval(() => {
+        if (surface.isClosed()) {
+          fail(new AutivCheckoutError('checkout_closed', 'Checkout was closed before the payment completed'))
+        }
+      }, CLOSED_CHECK_INTERVAL_MS)
+
+      window.addEventListener('message', handleMessage)
+    })
+  }
+
+  private openPopup(): CheckoutSurface {
+    const popup = window.open('about:blank', POPUP_NAME, POPUP_FEATURES)
+    if (!popup) {
+      throw new AutivCheckoutError('popup_blocked', 'The checkout popup was blocked by the browser')
+    }
+
+    return {
+      navigate: (url) => popup.location.replace(url),
+      isClosed: () => popup.closed,
+      close: () => popup.close()
+    }
+  }
+
+  private mountOverlay(): CheckoutSurface {
+    let closed = false
+
+    const overlay = document.createElement('div')
+    Object.assign(overlay.style, {
+      position: 'fixed',
+      inset: '0',
+      zIndex: OVERLAY_Z_INDEX,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: 'rgba(0, 0, 0, 0.6)'
+    })
+
+    const frame = document.createElement('iframe')
+    frame.title = 'Autiv checkout'
+    // The payment site copies the transaction hash to the clipboard
+    frame.allow = 'clipboard-write'
+    Object.assign(frame.style, {
+      width: 'min(960px, 100vw)',
+      height: 'min(820px, 100vh)',
+      border: '4px solid #000000',
+      backgroundColor: '#ffffff'
+    })
+
+    const closeButton = document.createElement('button')
+    closeButton.type = 'button'
+    closeButton.textContent = '×'
+    closeButton.setAttribute('aria-label', 'Close checkout')
+    Object.assign(closeButton.style, {
+      position: 'absolute',
+      top: '16px',
+      right: '16px',
+      width: '40px',
+      height: '40px',
+      fontSize: '24px',
+      fontWeight: '900',
+      cursor: 'pointer',
+      backgroundColor: '#ff6b6b',
+      border: '3px solid #000000'
+    })
+
+    const close = () => {
+      closed = true
+      overlay.remove()
+    }
+    closeButton.addEventListener('click', close)
+
+    overlay.append(frame, closeButton)
+    document.body.appendChild(overlay)
+
+    return {
+      navigate: (url) => {
+        frame.src = url
+      },
+      isClosed: () => closed,
+      close
+    }
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: Record<string, unknown>): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    const payload: Record<string, unknown> = { ...body }
+
+    if (method === 'POST') {
+      if (this.config.apiKey) {
+        headers['X-Api-Key'] = this.config.apiKey
+      } else {
+        const token = await this.config.getAuthToken?.()
+        if (!token) {
+          throw new AutivCheckoutError('request_failed', 'An auth token or API key is required to create a payment session')
+        }
+        headers.Authorization = `Bearer ${token}`
+        // Same replay protection the worker expects from the dashboard
+        payload.timestamp = Date.now()
+        payload.nonce = generateNonce()
+      }
+    }
+
+    let response: Response
+    try {
+      response = await fetch(`${this.apiUrl}${path}`, {
+        method,
+        headers,
+        body: method === 'POST' ? JSON.stringify(payload) : undefined
+      })
+    } catch (error) {
+      throw new AutivCheckoutError('request_failed', error instanceof Error ? error.message : 'Network request failed')
+    }
+
+    const data = await response.json().catch(() => null) as { success?: boolean; error?: string } | null
+    if (!response.ok || !data || data.success === false) {
+      const code = typeof data?.error === 'string' ? data.error : 'request_failed'
+      throw new AutivCheckoutError(code, data?.error || `HTTP ${response.status}`, response.status)
+    }
+
+    return data as T
+  }
+}
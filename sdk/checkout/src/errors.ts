@@ -0,0 +1,19 @@
+// Codes raised by the SDK itself; API failures carry the worker's error code instead (e.g. coupon_expired)
+export type AutivCheckoutErrorCode =
+  | 'popup_blocked'
+  | 'checkout_closed'
+  | 'session_expired'
+  | 'request_failed'
+  | (string & {})
+
+export class AutivCheckoutError extends Error {
+  readonly code: AutivCheckoutErrorCode
+  readonly status?: number
+
+  constructor(code: AutivCheckoutErrorCode, message: string, status?: number) {
+    super(message)
+    this.name = 'AutivCheckoutError'
+    this.code = code
+    this.status = status
+  }
+}
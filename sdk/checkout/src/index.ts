@@ -0,0 +1,14 @@
+export { AutivCheckout } from './checkout.js'
+export { AutivCheckoutError } from './errors.js'
+export type { AutivCheckoutErrorCode } from './errors.js'
+export type {
+  AutivCheckoutConfig,
+  CheckoutMessage,
+  CheckoutMode,
+  CheckoutParams,
+  CreatePaymentSessionParams,
+  OpenCheckoutOptions,
+  PaymentSession,
+  PaymentSessionCoupon,
+  PaymentSessionStatus
+} from './types.js'
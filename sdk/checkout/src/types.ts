@@ -0,0 +1,75 @@
+export type PaymentSessionStatus = 'pending' | 'processing' | 'paid' | 'expired'
+
+export interface PaymentSessionCoupon {
+  code: string
+  codeHash: `0x${string}`
+  contractCouponId: number
+  discountType: 'percent' | 'fixed'
+  discountValue: number
+  // 0 discounts every charge
+  durationCharges: number
+}
+
+export interface PaymentSession {
+  paymentId: string
+  status: PaymentSessionStatus
+  createdAt: number
+  updatedAt: number
+  expiresAt: number
+  paidAt: number | null
+  planId: string
+  contractPlanId: number
+  planName: string
+  companyName: string | null
+  planDescription: string | null
+  amount: number
+  // Plan price before the promo code discount
+  originalAmount?: number
+  coupon?: PaymentSessionCoupon | null
+  tokenSymbol: string
+  tokenAddress: string
+  // Address the subscriber delegates renewals to
+  agentAddress: string
+  billingIntervalSeconds: number
+  billingIntervalText: string
+  trialPeriodSeconds?: number
+  metadata: Record<string, unknown>
+  txHash: string | null
+}
+
+export interface AutivCheckoutConfig {
+  // Base URL of the Autiv worker, e.g. https://api.autiv.xyz
+  apiUrl: string
+  // Base URL of the payment site that serves /pay/:paymentId
+  paymentSiteUrl: string
+  // Privy access token of the signed-in user; used when no apiKey is set
+  getAuthToken?: () => string | null | undefined | Promise<string | null | undefined>
+  // Developer API key; only use this from pages that are not public
+  apiKey?: string
+}
+
+export interface CreatePaymentSessionParams {
+  projectId: string
+  contractPlanId: number
+  couponCode?: string
+  metadata?: Record<string, unknown>
+}
+
+export type CheckoutMode = 'popup' | 'iframe'
+
+export interface OpenCheckoutOptions {
+  // Defaults to popup
+  mode?: CheckoutMode
+  // Called whenever the payment site reports a new status, before the promise settles
+  onStatusChange?: (status: PaymentSessionStatus) => void
+}
+
+export type CheckoutParams = CreatePaymentSessionParams & OpenCheckoutOptions
+
+// Posted by the payment site to the window that opened or embeds it
+export interface CheckoutMessage {
+  source: 'autiv-checkout'
+  type: 'payment_session.status'
+  paymentId: string
+  status: PaymentSessionStatus
+}
@@ -0,0 +1,165 @@
+import type { Delegation } from '@metamask/delegation-toolkit'
+import { AutivCollectorError } from './errors.js'
+
+// Caps stored next to the signed delegations; older delegations don't have them
+export interface DelegationLimits {
+  spender: `0x${string}`
+  maxAmount: string
+  periodSeconds: number
+  expiresAt: number
+}
+
+export interface DelegationData {
+  signedApproveDelegation?: Delegation
+  signedProcessPaymentDelegation?: Delegation
+  limits?: DelegationLimits
+}
+
+export interface DueCollection {
+  subscription_id: string
+  contract_subscription_id: number | null
+  contract_plan_id: number | null
+  plan_name: string | null
+  plan_price: number | null
+  period_seconds: number | null
+  token_address: string | null
+  token_symbol: string | null
+  status: 'active' | 'past_due'
+  next_payment_date: number
+  past_due_since: number | null
+  retry_count: number
+  user_smart_account: string | null
+  delegation: DelegationData | null
+  // False once the subscriber cancelled; such delegations must not be redeemed
+  delegation_active: boolean
+}
+
+export interface DueCollectionList {
+  project_id: string
+  agent_address: string | null
+  subscription_manager_address: string | null
+  collections: DueCollection[]
+}
+
+export type CollectionReport =
+  | { subscriptionId: string; outcome: 'succeeded'; txHash: `0x${string}` }
+  | {
+      subscriptionId: string
+      outcome: 'failed'
+      reason: string
+      txHash?: `0x${string}`
+      amountDue?: number
+      balance?: number
+    }
+
+export interface CollectionReportResult {
+  subscription_id: string
+  status: 'active' | 'past_due' | 'expired'
+  payment_id: string | null
+  next_payment_date: number | null
+  next_retry_at: number | null
+  // The transaction was reported before, so nothing new was recorded
+  already_recorded: boolean
+}
+
+export interface CollectorApiOptions {
+  // API key with the collect_payments permission
+  apiKey: string
+  // Base URL of the Autiv worker
+  apiUrl: string
+  // Defaults to the global fetch (Node 18+)
+  fetch?: typeof fetch
+}
+
+type Envelope = { success?: boolean; error?: string; details?: string[] }
+
+// The two collection routes; everything else a collector needs is read from the chain
+export class CollectorApi {
+  private readonly apiKey: string
+  private readonly apiUrl: string
+  private readonly fetchImpl: typeof fetch
+
+  constructor(options: CollectorApiOptions) {
+    if (!options.apiKey) {
+      throw new Error('Autiv collector: apiKey is required')
+    }
+    this.apiKey = options.apiKey
+    this.apiUrl = options.apiUrl.replace(/\/$/, '')
+    this.fetchImpl = options.fetch ?? fetch
+  }
+
+  /**
+   * Subscriptions due now, oldest first, with the delegations that renew them
+   */
+  async listDueCollections(projectId: string, limit?: number): Promise<DueCollectionList> {
+    const query = limit ? `?${new URLSearchParams({ limit: String(limit) })}` : ''
+    const data = await this.request<{ data: DueCollectionList }>(
+      'GET',
+      `/v1/projects/${encodeURIComponent(projectId)}/collections/due${query}`
+    )
+    return data.data
+  }
+
+  /**
+   * Record a renewal outcome; successes are checked on-chain by the worker before they count
+   */
+  async reportCollection(projectId: string, report: CollectionReport): Promise<CollectionReportResult> {
+    const body = report.outcome === 'succeeded'
+      ? { subscription_id: report.subscriptionId, outcome: report.outcome, tx_hash: report.txHash }
+      : {
+          subscription_id: report.subscriptionId,
+          outcome: report.outcome,
+          reason: report.reason,
+          tx_hash: report.txHash,
+          amount_due: report.amountDue,
+          balance: report.balance
+        }
+    const data = await this.request<{ data: CollectionReportResult }>(
+      'POST',
+      `/v1/projects/${encodeURIComponent(projectId)}/collections`,
+      { body }
+    )
+    return data.data
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    options: { body?: Record<string, unknown> } = {}
+  ): Promise<T & Envelope> {
+    let response: Response
+    try {
+      response = await this.fetchImpl(`${this.apiUrl}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Api-Key': this.apiKey
+        },
+        body: options.body ? JSON.stringify(options.body) : undefined
+      })
+    } catch (error) {
+      throw new AutivCollectorError('network_error', error instanceof Error ? error.message : 'Network request failed')
+    }
+
+    const text = await response.text()
+    let data: (T & Envelope) | null = null
+    try {
+      data = text ? JSON.parse(text) : null
+    } catch {
+      throw new AutivCollectorError('invalid_response', `Unexpected response from Autiv (HTTP ${response.status})`, response.status)
+    }
+
+    if (!response.ok || !data || data.success === false) {
+      const details = data?.details
+      const error = new AutivCollectorError(
+        data?.error || 'request_failed',
+        details?.length ? `${data?.error}: ${details.join('; ')}` : data?.error || `HTTP ${response.status}`,
+        response.status
+      )
+      error.details = details
+      throw error
+    }
+
+    return data
+  }
+}
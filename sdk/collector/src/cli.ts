@@ -0,0 +1,60 @@
+#!/usr/bin/env node
+import { AutivCollector, formatResult } from './collector.js'
+
+// One collector per project; AUTIV_PROJECT_ID and AUTIV_API_KEY take matching comma-separated lists,
+// or a single key for every project
+const splitList = (value: string | undefined) => (value || '').split(',').map((entry) => entry.trim()).filter(Boolean)
+
+const args = new Set(process.argv.slice(2))
+const dryRun = args.has('--dry-run')
+// A dry run is a one-off listing, so it never polls
+const once = dryRun || args.has('--once')
+
+const apiUrl = process.env.AUTIV_API_URL
+const projectIds = splitList(process.env.AUTIV_PROJECT_ID)
+const apiKeys = splitList(process.env.AUTIV_API_KEY)
+const agentPrivateKey = process.env.AGENT_PRIVATE_KEY as `0x${string}` | undefined
+
+if (!apiUrl || projectIds.length === 0 || apiKeys.length === 0 || !agentPrivateKey) {
+  console.error('AUTIV_API_URL, AUTIV_PROJECT_ID, AUTIV_API_KEY and AGENT_PRIVATE_KEY are required')
+  process.exit(1)
+}
+if (apiKeys.length !== 1 && apiKeys.length !== projectIds.length) {
+  console.error('AUTIV_API_KEY needs one key, or one key per project in AUTIV_PROJECT_ID')
+  process.exit(1)
+}
+
+const collectors = projectIds.map((projectId, index) => new AutivCollector({
+  apiUrl,
+  apiKey: apiKeys[apiKeys.length === 1 ? 0 : index],
+  projectId,
+  agentPrivateKey,
+  rpcUrl: process.env.MONAD_RPC_URL || undefined,
+  dryRun,
+  pollIntervalMs: Number(process.env.PAYMENT_POLL_INTERVAL_MS) || undefined
+}))
+
+if (once) {
+  let failed = false
+  for (const [index, collector] of collectors.entries()) {
+    console.log(`Project ${projectIds[index]}${dryRun ? ' (dry run, nothing is sent)' : ''}`)
+    try {
+      const results = await collector.runOnce()
+      if (results.length === 0) {
+        console.log('Nothing due')
+      }
+      for (const result of results) {
+        console.log(formatResult(result))
+      }
+    } catch (error) {
+      failed = true
+      console.error(error instanceof Error ? error.message : error)
+    }
+  }
+  process.exit(failed ? 1 : 0)
+}
+
+const stop = () => collectors.forEach((collector) => collector.stop())
+process.on('SIGINT', stop)
+process.on('SIGTERM', stop)
+await Promise.all(collectors.map((collector) => collector.start()))
@@ -0,0 +1,370 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  encodeFunctionData,
+  erc20Abi,
+  formatUnits,
+  http,
+  isAddressEqual,
+  parseAbi,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type Transport,
+  type WalletClient
+} from 'viem'
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts'
+import { monadTestnet } from 'viem/chains'
+import { createExecution, ExecutionMode, getDeleGatorEnvironment, type Delegation } from '@metamask/delegation-toolkit'
+import { DelegationManager } from '@metamask/delegation-toolkit/contracts'
+import { getDelegationHashOffchain } from '@metamask/delegation-toolkit/utils'
+import { CollectorApi, type CollectionReport, type DueCollection } from './api.js'
+import { AutivCollectorError } from './errors.js'
+
+const DEFAULT_RPC_URL = 'https://testnet-rpc.monad.xyz'
+const DEFAULT_BATCH_SIZE = 100
+const DEFAULT_POLL_INTERVAL_MS = 60_000
+
+const subscriptionManagerAbi = parseAbi([
+  'function isPaymentDue(uint256 subscriptionId) view returns (bool, uint256)',
+  'function nextChargeAmount(uint256 subscriptionId) view returns (uint256)',
+  'function getPlan(uint256 planId) view returns ((uint256 id, string name, uint256 price, uint256 period, bool active, address tokenAddress, uint256 trialPeriod))',
+  'function processPayment(uint256 subscriptionId)'
+])
+
+export interface AutivCollectorOptions {
+  // API key with the collect_payments permission, scoped to projectId
+  apiKey: string
+  // Base URL of the Autiv worker
+  apiUrl: string
+  projectId: string
+  // Private key of the project's agent address; subscribers delegate renewals to it
+  agentPrivateKey: Hex
+  rpcUrl?: string
+  // List what would be charged without sending transactions or reporting anything
+  dryRun?: boolean
+  // Due subscriptions read per run
+  batchSize?: number
+  pollIntervalMs?: number
+  fetch?: typeof fetch
+  logger?: Pick<Console, 'log' | 'error'>
+}
+
+export type CollectionStatus = 'charged' | 'would_charge' | 'failed' | 'not_due' | 'skipped'
+
+export interface CollectionResult {
+  subscriptionId: string
+  contractSubscriptionId: number | null
+  status: CollectionStatus
+  // Charge amount in token units, once it was read from the SubscriptionManager
+  amount?: string
+  tokenSymbol?: string | null
+  txHash?: Hex
+  reason?: string
+  // Set when the outcome happened but the worker didn't accept the report; retry the report by hand
+  reportError?: string
+}
+
+export class AutivCollector {
+  private readonly api: CollectorApi
+  private readonly projectId: string
+  private readonly dryRun: boolean
+  private readonly batchSize: number
+  private readonly pollIntervalMs: number
+  private readonly logger: Pick<Console, 'log' | 'error'>
+  private readonly account: PrivateKeyAccount
+  private readonly publicClient: PublicClient
+  private readonly walletClient: WalletClient<Transport, Chain, PrivateKeyAccount>
+  private readonly delegationManagerAddress: Address
+  private readonly tokenDecimals = new Map<string, number>()
+  private stopped = false
+  // Ends the wait between runs early when stop() is called
+  private wake?: () => void
+
+  constructor(options: AutivCollectorOptions) {
+    if (!options.projectId) {
+      throw new Error('Autiv collector: projectId is required')
+    }
+    if (!options.agentPrivateKey) {
+      throw new Error('Autiv collector: agentPrivateKey is required')
+    }
+
+    this.api = new CollectorApi({ apiKey: options.apiKey, apiUrl: options.apiUrl, fetch: options.fetch })
+    this.projectId = options.projectId
+    this.dryRun = options.dryRun ?? false
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+    this.logger = options.logger ?? console
+
+    const transport = http(options.rpcUrl ?? DEFAULT_RPC_URL)
+    this.account = privateKeyToAccount(options.agentPrivateKey)
+    this.publicClient = createPublicClient({ chain: monadTestnet, transport })
+    this.walletClient = createWalletClient({ account: this.account, chain: monadTestnet, transport })
+
+    const environment = getDeleGatorEnvironment(monadTestnet.id)
+    if (!environment) {
+      throw new Error('Delegation environment not available for Monad Testnet')
+    }
+    this.delegationManagerAddress = environment.DelegationManager
+  }
+
+  get agentAddress(): Address {
+    return this.account.address
+  }
+
+  /**
+   * Renew everything due now, one transaction at a time so the agent's nonces stay in order
+   */
+  async runOnce(): Promise<CollectionResult[]> {
+    const due = await this.api.listDueCollections(this.projectId, this.batchSize)
+
+    // Delegations name the project's agent, so any other key would only produce reverted transactions
+    if (!due.agent_address || !isAddressEqual(due.agent_address as Address, this.account.address)) {
+      throw new AutivCollectorError(
+        'agent_mismatch',
+        `Project ${this.projectId} delegates renewals to ${due.agent_address ?? 'no agent'}, not ${this.account.address}`
+      )
+    }
+    if (!due.subscription_manager_address) {
+      throw new AutivCollectorError('missing_subscription_manager', `Project ${this.projectId} has no SubscriptionManager yet`)
+    }
+
+    const results: CollectionResult[] = []
+    for (const collection of due.collections) {
+      try {
+        results.push(await this.collect(collection, due.subscription_manager_address as Address))
+      } catch (error) {
+        this.logger.error(`Collection failed for subscription ${collection.subscription_id}:`, error)
+        results.push({
+          subscriptionId: collection.subscription_id,
+          contractSubscriptionId: collection.contract_subscription_id,
+          status: 'skipped',
+          reason: describeError(error)
+        })
+      }
+    }
+    return results
+  }
+
+  /**
+   * Poll until stop() is called; errors are logged and the loop carries on
+   */
+  async start(): Promise<void> {
+    this.stopped = false
+    this.logger.log(`Collecting for project ${this.projectId} with agent ${this.account.address}${this.dryRun ? ' (dry run)' : ''}`)
+
+    while (!this.stopped) {
+      try {
+        const results = await this.runOnce()
+        for (const result of results) {
+          this.logger.log(formatResult(result))
+        }
+      } catch (error) {
+        this.logger.error('Collector run failed:', error)
+      }
+      if (!this.stopped) {
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, this.pollIntervalMs)
+          this.wake = () => {
+            clearTimeout(timer)
+            resolve()
+          }
+        })
+        this.wake = undefined
+      }
+    }
+  }
+
+  stop(): void {
+    this.stopped = true
+    this.wake?.()
+  }
+
+  private async collect(collection: DueCollection, managerAddress: Address): Promise<CollectionResult> {
+    const base = {
+      subscriptionId: collection.subscription_id,
+      contractSubscriptionId: collection.contract_subscription_id,
+      tokenSymbol: collection.token_symbol
+    }
+
+    const approveDelegation = collection.delegation?.signedApproveDelegation
+    const processPaymentDelegation = collection.delegation?.signedProcessPaymentDelegation
+    if (!approveDelegation || !processPaymentDelegation || !collection.user_smart_account) {
+      return { ...base, status: 'skipped', reason: 'no_delegation' }
+    }
+
+    // Subscribers who signed before the project changed its agent stay delegated to the previous one
+    if (!isAddressEqual(processPaymentDelegation.delegate as Address, this.account.address)) {
+      return { ...base, status: 'skipped', reason: `delegated to ${processPaymentDelegation.delegate}` }
+    }
+
+    // A cancelled or revoked delegation is never redeemed, even while the subscription still looks billable
+    if (!collection.delegation_active) {
+      return this.fail(base, { reason: 'Renewal delegation is no longer active' })
+    }
+
+    if (collection.contract_subscription_id === null || collection.contract_plan_id === null) {
+      return { ...base, status: 'skipped', reason: 'no_contract_subscription_id' }
+    }
+
+    // The subscriber may have disabled a delegation on-chain without the database hearing about it
+    if (await this.isAnyDelegationDisabled([approveDelegation, processPaymentDelegation])) {
+      return this.fail(base, { reason: 'Renewal delegation was disabled on-chain' })
+    }
+
+    const subscriptionId = BigInt(collection.contract_subscription_id)
+    const [paymentDue] = await this.publicClient.readContract({
+      address: managerAddress,
+      abi: subscriptionManagerAbi,
+      functionName: 'isPaymentDue',
+      args: [subscriptionId]
+    })
+    if (!paymentDue) {
+      return { ...base, status: 'not_due' }
+    }
+
+    const [plan, chargeAmount] = await Promise.all([
+      this.publicClient.readContract({
+        address: managerAddress,
+        abi: subscriptionManagerAbi,
+        functionName: 'getPlan',
+        args: [BigInt(collection.contract_plan_id)]
+      }),
+      // Plan price with any promo code discount still applied to this subscription
+      this.publicClient.readContract({
+        address: managerAddress,
+        abi: subscriptionManagerAbi,
+        functionName: 'nextChargeAmount',
+        args: [subscriptionId]
+      })
+    ])
+
+    const tokenAddress = plan.tokenAddress
+    const decimals = await this.getTokenDecimals(tokenAddress)
+    const amount = formatUnits(chargeAmount, decimals)
+
+    // Check the balance first so an underfunded account doesn't cost the agent a reverted transaction
+    const balance = await this.publicClient.readContract({
+      address: tokenAddress,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [collection.user_smart_account as Address]
+    })
+    if (balance < chargeAmount) {
+      return this.fail({ ...base, amount }, {
+        reason: 'Insufficient token balance',
+        amountDue: Number(amount),
+        balance: Number(formatUnits(balance, decimals))
+      })
+    }
+
+    if (this.dryRun) {
+      return { ...base, status: 'would_charge', amount }
+    }
+
+    // Capped delegations only allow approving exactly the plan price; the manager still pulls just chargeAmount
+    const redeemCalldata = DelegationManager.encode.redeemDelegations({
+      delegations: [[approveDelegation], [processPaymentDelegation]],
+      modes: [ExecutionMode.SingleDefault, ExecutionMode.SingleDefault],
+      executions: [
+        [createExecution({
+          target: tokenAddress,
+          callData: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [managerAddress, plan.price] })
+        })],
+        [createExecution({
+          target: managerAddress,
+          callData: encodeFunctionData({ abi: subscriptionManagerAbi, functionName: 'processPayment', args: [subscriptionId] })
+        })]
+      ]
+    })
+
+    // Reverts surface here during gas estimation, before anything is sent
+    let txHash: Hex
+    try {
+      txHash = await this.walletClient.sendTransaction({ to: this.delegationManagerAddress, data: redeemCalldata })
+    } catch (error) {
+      return this.fail({ ...base, amount }, {
+        reason: describeError(error),
+        amountDue: Number(amount),
+        balance: Number(formatUnits(balance, decimals))
+      })
+    }
+
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash: txHash })
+    if (receipt.status !== 'success') {
+      return this.fail({ ...base, amount, txHash }, { reason: 'Renewal transaction reverted', txHash, amountDue: Number(amount) })
+    }
+
+    return this.report({ ...base, status: 'charged', amount, txHash }, { subscriptionId: base.subscriptionId, outcome: 'succeeded', txHash })
+  }
+
+  // Failures move the subscription through the project's dunning schedule on the worker
+  private fail(
+    result: Omit<CollectionResult, 'status'>,
+    failure: { reason: string; txHash?: Hex; amountDue?: number; balance?: number }
+  ): Promise<CollectionResult> {
+    return this.report(
+      { ...result, status: 'failed', reason: failure.reason },
+      { subscriptionId: result.subscriptionId, outcome: 'failed', ...failure }
+    )
+  }
+
+  private async report(result: CollectionResult, report: CollectionReport): Promise<CollectionResult> {
+    if (this.dryRun) {
+      return result
+    }
+
+    try {
+      await this.api.reportCollection(this.projectId, report)
+      return result
+    } catch (error) {
+      this.logger.error(`Failed to report ${report.outcome} renewal for subscription ${report.subscriptionId}:`, error)
+      return { ...result, reportError: describeError(error) }
+    }
+  }
+
+  private async isAnyDelegationDisabled(delegations: Delegation[]): Promise<boolean> {
+    for (const delegation of delegations) {
+      const disabled = await DelegationManager.read.disabledDelegations({
+        client: this.publicClient,
+        contractAddress: this.delegationManagerAddress,
+        delegationHash: getDelegationHashOffchain(delegation)
+      })
+      if (disabled) {
+        return true
+      }
+    }
+    return false
+  }
+
+  private async getTokenDecimals(tokenAddress: Address): Promise<number> {
+    const key = tokenAddress.toLowerCase()
+    const cached = this.tokenDecimals.get(key)
+    if (cached !== undefined) {
+      return cached
+    }
+
+    const decimals = await this.publicClient.readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'decimals' })
+    this.tokenDecimals.set(key, decimals)
+    return decimals
+  }
+}
+
+export function formatResult(result: CollectionResult): string {
+  const subscription = result.contractSubscriptionId === null
+    ? result.subscriptionId
+    : `${result.subscriptionId} (#${result.contractSubscriptionId})`
+  const amount = result.amount ? ` ${result.amount} ${result.tokenSymbol ?? ''}`.trimEnd() : ''
+  const details = [result.reason, result.txHash, result.reportError && `report failed: ${result.reportError}`]
+    .filter(Boolean)
+    .join(' - ')
+  return `${result.status.padEnd(12)} ${subscription}${amount}${details ? ` - ${details}` : ''}`
+}
+
+function describeError(error: unknown): string {
+  if (error && typeof error === 'object' && 'shortMessage' in error && typeof error.shortMessage === 'string') {
+    return error.shortMessage
+  }
+  return error instanceof Error ? error.message : 'unknown_error'
+}
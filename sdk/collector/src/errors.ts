@@ -0,0 +1,16 @@
+// The worker answers with { success: false, error } envelopes; the collector turns them into this error
+
+export class AutivCollectorError extends Error {
+  // The worker's error code or message, e.g. api_key_missing_permission, or agent_mismatch from the collector
+  readonly code: string
+  readonly status?: number
+  // Field-level messages when the worker answers invalid_request
+  details?: string[]
+
+  constructor(code: string, message: string, status?: number) {
+    super(message)
+    this.name = 'AutivCollectorError'
+    this.code = code
+    this.status = status
+  }
+}
@@ -0,0 +1,13 @@
+export { AutivCollector, formatResult } from './collector.js'
+export type { AutivCollectorOptions, CollectionResult, CollectionStatus } from './collector.js'
+export { CollectorApi } from './api.js'
+export type {
+  CollectionReport,
+  CollectionReportResult,
+  CollectorApiOptions,
+  DelegationData,
+  DelegationLimits,
+  DueCollection,
+  DueCollectionList
+} from './api.js'
+export { AutivCollectorError } from './errors.js'
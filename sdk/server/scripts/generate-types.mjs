@@ -0,0 +1,50 @@
+// Copies the API types the dashboard uses into the SDK so both stay in step with the worker.
+// Run `npm run generate` after changing them in app/frontend/src/services/api.ts.
+import { readFileSync, writeFileSync } from 'node:fs'
+import { dirname, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const here = dirname(fileURLToPath(import.meta.url))
+const sourcePath = resolve(here, '../../../app/frontend/src/services/api.ts')
+const outputPath = resolve(here, '../src/generated/api-types.ts')
+
+const TYPE_NAMES = [
+  'TokenMetadata',
+  'SweepPolicy',
+  'Project',
+  'SubscriptionPlan',
+  'Subscription',
+  'PaymentSessionStatus',
+  'CouponDiscountType',
+  'PaymentSessionCoupon',
+  'PaymentSession',
+]
+
+const source = readFileSync(sourcePath, 'utf8')
+const lines = source.split('\n')
+
+function extractDeclaration(name) {
+  const start = lines.findIndex((line) => new RegExp(`^(export )?(interface|type) ${name}\\b`).test(line))
+  if (start === -1) {
+    throw new Error(`${name} not found in ${sourcePath}`)
+  }
+
+  const declaration = [lines[start].replace(/^(export )?/, 'export ')]
+  if (/^(export )?interface /.test(lines[start])) {
+    for (let i = start + 1; i < lines.length; i++) {
+      declaration.push(lines[i])
+      if (lines[i] === '}') break
+    }
+  }
+  return declaration.join('\n')
+}
+
+const output = [
+  '// Generated by scripts/generate-types.mjs from app/frontend/src/services/api.ts. Do not edit by hand.',
+  '',
+  TYPE_NAMES.map(extractDeclaration).join('\n\n'),
+  '',
+].join('\n')
+
+writeFileSync(outputPath, output)
+console.log(`Wrote ${TYPE_NAMES.length} types to ${outputPath}`)
@@ -0,0 +1,147 @@
+import { AutivApiError, errorFromResponse } from './errors.js'
+import type { PaymentSession, Project, Subscription, SubscriptionPlan } from './generated/api-types.js'
+
+export interface AutivClientOptions {
+  // Developer API key from the dashboard; keep it on the server
+  apiKey: string
+  // Base URL of the Autiv worker
+  apiUrl: string
+  // Defaults to the global fetch (Node 18+)
+  fetch?: typeof fetch
+}
+
+export interface CreatePaymentSessionParams {
+  projectId: string
+  contractPlanId: number
+  couponCode?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface ListSubscriptionsParams {
+  projectId: string
+  userEmail: string
+}
+
+export interface ProjectDetails {
+  project: Project
+  plans: SubscriptionPlan[]
+  archivedPlans: SubscriptionPlan[]
+}
+
+type Envelope = { success?: boolean; error?: string; details?: string[] }
+
+export class Autiv {
+  private readonly apiKey: string
+  private readonly apiUrl: string
+  private readonly fetchImpl: typeof fetch
+
+  constructor(options: AutivClientOptions) {
+    if (!options.apiKey) {
+      throw new Error('Autiv: apiKey is required')
+    }
+    this.apiKey = options.apiKey
+    this.apiUrl = options.apiUrl.replace(/\/$/, '')
+    this.fetchImpl = options.fetch ?? fetch
+  }
+
+  /**
+   * Create a checkout session; send the customer to /pay/:paymentId on the payment site
+   */
+  async createPaymentSession(params: CreatePaymentSessionParams): Promise<PaymentSession> {
+    const data = await this.request<{ session: PaymentSession }>('POST', '/v1/payment-sessions', {
+      body: {
+        project_id: params.projectId,
+        contract_plan_id: params.contractPlanId,
+        coupon_code: params.couponCode,
+        metadata: params.metadata
+      }
+    })
+    return data.session
+  }
+
+  async getPaymentSession(paymentId: string): Promise<PaymentSession> {
+    const data = await this.request<{ session: PaymentSession }>('GET', `/v1/payment-sessions/${encodeURIComponent(paymentId)}`)
+    return data.session
+  }
+
+  /**
+   * A subscriber's subscriptions in one of your projects, newest first
+   */
+  async listSubscriptions(params: ListSubscriptionsParams): Promise<Subscription[]> {
+    const query = new URLSearchParams({ user_email: params.userEmail })
+    const data = await this.request<{ data: { subscriptions: Subscription[] } }>(
+      'GET',
+      `/v1/projects/${encodeURIComponent(params.projectId)}/subscriptions?${query}`
+    )
+    return data.data.subscriptions
+  }
+
+  /**
+   * One subscription by id, if it belongs to one of your projects
+   */
+  async getSubscription(subscriptionId: string): Promise<Subscription> {
+    const data = await this.request<{ data: { subscription: Subscription } }>(
+      'GET',
+      `/v1/subscriptions/${encodeURIComponent(subscriptionId)}`
+    )
+    return data.data.subscription
+  }
+
+  async getProject(projectId: string): Promise<ProjectDetails> {
+    const data = await this.request<{
+      data: { project: Project; subscription_plans: SubscriptionPlan[]; archived_plans?: SubscriptionPlan[] }
+    }>('GET', `/v1/projects/${encodeURIComponent(projectId)}`)
+    return {
+      project: data.data.project,
+      plans: data.data.subscription_plans,
+      archivedPlans: data.data.archived_plans ?? []
+    }
+  }
+
+  /**
+   * Plans open for checkout; pass includeArchived to also get plans existing subscribers still renew on
+   */
+  async listPlans(projectId: string, options: { includeArchived?: boolean } = {}): Promise<SubscriptionPlan[]> {
+    const data = await this.request<{ data: { plans: SubscriptionPlan[]; archived_plans?: SubscriptionPlan[] } }>(
+      'GET',
+      `/v1/projects/${encodeURIComponent(projectId)}/plans`
+    )
+    const { plans, archived_plans: archivedPlans = [] } = data.data
+    return options.includeArchived ? [...plans, ...archivedPlans] : plans
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST' | 'PATCH',
+    path: string,
+    options: { body?: Record<string, unknown> } = {}
+  ): Promise<T & Envelope> {
+    let response: Response
+    try {
+      response = await this.fetchImpl(`${this.apiUrl}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Api-Key': this.apiKey
+        },
+        body: options.body ? JSON.stringify(options.body) : undefined
+      })
+    } catch (error) {
+      throw new AutivApiError('network_error', error instanceof Error ? error.message : 'Network request failed')
+    }
+
+    const text = await response.text()
+    let data: (T & Envelope) | null = null
+    try {
+      data = text ? JSON.parse(text) : null
+    } catch {
+      throw new AutivApiError('invalid_response', `Unexpected response from Autiv (HTTP ${response.status})`, response.status)
+    }
+
+    if (!response.ok || !data || data.success === false) {
+      const retryAfter = Number(response.headers.get('Retry-After')) || undefined
+      throw errorFromResponse(response.status, data?.error, data?.details, retryAfter)
+    }
+
+    return data
+  }
+}
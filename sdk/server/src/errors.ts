@@ -0,0 +1,101 @@
+// The worker answers with { success: false, error } envelopes; the SDK turns them into these errors
+
+export class AutivError extends Error {
+  // The worker's error code or message, e.g. coupon_expired or "Project not found"
+  readonly code: string
+  readonly status?: number
+  // Field-level messages when the worker answers invalid_request
+  details?: string[]
+
+  constructor(code: string, message: string, status?: number) {
+    super(message)
+    this.name = 'AutivError'
+    this.code = code
+    this.status = status
+  }
+}
+
+// Missing, unknown or unauthorized API key
+export class AutivAuthenticationError extends AutivError {
+  constructor(code: string, message: string, status?: number) {
+    super(code, message, status)
+    this.name = 'AutivAuthenticationError'
+  }
+}
+
+export class AutivNotFoundError extends AutivError {
+  constructor(code: string, message: string, status?: number) {
+    super(code, message, status)
+    this.name = 'AutivNotFoundError'
+  }
+}
+
+// The request was understood but rejected, e.g. an archived plan or an expired promo code
+export class AutivRequestError extends AutivError {
+  constructor(code: string, message: string, status?: number) {
+    super(code, message, status)
+    this.name = 'AutivRequestError'
+  }
+}
+
+// 429 from the worker's per-key rate limiter
+export class AutivRateLimitError extends AutivError {
+  // Seconds to wait before retrying, from the Retry-After header
+  readonly retryAfter?: number
+
+  constructor(code: string, message: string, status?: number, retryAfter?: number) {
+    super(code, message, status)
+    this.name = 'AutivRateLimitError'
+    this.retryAfter = retryAfter
+  }
+}
+
+// Network failures and 5xx responses; these are safe to retry
+export class AutivApiError extends AutivError {
+  constructor(code: string, message: string, status?: number) {
+    super(code, message, status)
+    this.name = 'AutivApiError'
+  }
+}
+
+export type WebhookSignatureErrorCode =
+  | 'missing_signature'
+  | 'invalid_signature_header'
+  | 'timestamp_out_of_tolerance'
+  | 'signature_mismatch'
+  | 'invalid_payload'
+
+export class AutivWebhookSignatureError extends AutivError {
+  declare readonly code: WebhookSignatureErrorCode
+
+  constructor(code: WebhookSignatureErrorCode, message: string) {
+    super(code, message)
+    this.name = 'AutivWebhookSignatureError'
+  }
+}
+
+// Not-found errors are also matched by message, since a few legacy routes report them as 400
+export function errorFromResponse(
+  status: number,
+  error: string | undefined,
+  details?: string[],
+  retryAfter?: number
+): AutivError {
+  const message = details?.length ? `${error}: ${details.join('; ')}` : error || `HTTP ${status}`
+  const code = error || 'request_failed'
+
+  let result: AutivError
+  if (status === 429) {
+    result = new AutivRateLimitError(code, message, status, retryAfter)
+  } else if (status === 401 || status === 403) {
+    result = new AutivAuthenticationError(code, message, status)
+  } else if (status === 404 || /not[ _]found/i.test(message)) {
+    result = new AutivNotFoundError(code, message, status)
+  } else if (status >= 500) {
+    result = new AutivApiError(code, message, status)
+  } else {
+    result = new AutivRequestError(code, message, status)
+  }
+  result.details = details
+  return result
+}
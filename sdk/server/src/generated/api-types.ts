@@ -0,0 +1,107 @@
+// Generated by scripts/generate-types.mjs from app/frontend/src/services/api.ts. Do not edit by hand.
+
+export interface TokenMetadata {
+  id: string
+  name: string
+  symbol: string
+  token_address: string
+  image_url?: string | null
+  decimals?: number | null
+}
+
+export type SweepPolicy = "off" | "every_payment" | "threshold" | "schedule";
+
+export interface Project {
+  id: string;
+  name: string;
+  description: string;
+  subscription_manager_address: string;
+  agent_address?: string | null;
+  grace_period_seconds?: number;
+  retry_interval_seconds?: number;
+  payout_address?: string | null;
+  sweep_policy?: SweepPolicy;
+  sweep_threshold?: number | null;
+  sweep_interval_seconds?: number | null;
+  last_swept_at?: number | null;
+  supported_token?: TokenMetadata | null;
+  plans?: SubscriptionPlan[];
+}
+
+export interface SubscriptionPlan {
+  id: string;
+  developer_id?: string;
+  contract_plan_id: number;
+  name: string;
+  price: number;
+  token_address: string;
+  token_symbol?: string;
+  period_seconds: number;
+  trial_period_seconds?: number;
+  is_active?: boolean;
+}
+
+export interface Subscription {
+  id: string;
+  plan_id: string;
+  contract_plan_id?: number | null;
+  project_id?: string | null;
+  contract_subscription_id?: number | null;
+  plan_name: string;
+  company_name: string;
+  status: string;
+  start_date: number;
+  next_payment_date?: number;
+  last_payment_date?: number;
+  trial_ends_at?: number | null;
+  paused_at?: number | null;
+  past_due_since?: number | null;
+  grace_ends_at?: number | null;
+  next_retry_at?: number | null;
+  retry_count?: number;
+  last_failure_reason?: string | null;
+  cancelled_at?: number;
+  subscription_manager_address?: string;
+  price?: number;
+  token_symbol?: string;
+  token_address?: string;
+}
+
+export type PaymentSessionStatus = 'pending' | 'processing' | 'paid' | 'expired'
+
+export type CouponDiscountType = 'percent' | 'fixed'
+
+export interface PaymentSessionCoupon {
+  code: string
+  codeHash: `0x${string}`
+  contractCouponId: number
+  discountType: CouponDiscountType
+  discountValue: number
+  // 0 discounts every charge
+  durationCharges: number
+}
+
+export interface PaymentSession {
+  paymentId: string
+  status: PaymentSessionStatus
+  createdAt: number
+  updatedAt: number
+  expiresAt: number
+  paidAt: number | null
+  planId: string
+  contractPlanId: number
+  planName: string
+  companyName: string | null
+  planDescription: string | null
+  amount: number
+  // Plan price before the promo code discount
+  originalAmount?: number
+  coupon?: PaymentSessionCoupon | null
+  tokenSymbol: string
+  tokenAddress: string
+  billingIntervalSeconds: number
+  billingIntervalText: string
+  trialPeriodSeconds?: number
+  metadata: Record<string, unknown>
+  txHash: string | null
+}
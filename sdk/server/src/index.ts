@@ -0,0 +1,29 @@
+export { Autiv } from './client.js'
+export type {
+  AutivClientOptions,
+  CreatePaymentSessionParams,
+  ListSubscriptionsParams,
+  ProjectDetails
+} from './client.js'
+export {
+  AutivApiError,
+  AutivAuthenticationError,
+  AutivError,
+  AutivNotFoundError,
+  AutivRateLimitError,
+  AutivRequestError,
+  AutivWebhookSignatureError
+} from './errors.js'
+export type { WebhookSignatureErrorCode } from './errors.js'
+export { verifyWebhookSignature } from './webhooks.js'
+export type { VerifyWebhookOptions, WebhookEvent, WebhookEventType } from './webhooks.js'
+export type {
+  CouponDiscountType,
+  PaymentSession,
+  PaymentSessionCoupon,
+  PaymentSessionStatus,
+  Project,
+  Subscription,
+  SubscriptionPlan,
+  TokenMetadata
+} from './generated/api-types.js'
@@ -0,0 +1,90 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { AutivWebhookSignatureError } from './errors.js'
+
+export type WebhookEventType =
+  | 'subscription.created'
+  | 'payment_session.paid'
+  | 'subscription.cancelled'
+  | 'subscription.renewed'
+  | 'subscription.plan_changed'
+  | 'subscription.paused'
+  | 'subscription.resumed'
+  | 'subscription.past_due'
+  | 'subscription.expired'
+  | 'payment.refunded'
+  | 'webhook.test'
+
+export interface WebhookEvent<T = Record<string, unknown>> {
+  id: string
+  type: WebhookEventType
+  // Unix seconds
+  created_at: number
+  project_id: string
+  data: T
+}
+
+export interface VerifyWebhookOptions {
+  // How old the signature timestamp may be; retries are signed again, so 5 minutes is plenty
+  toleranceSeconds?: number
+  // Unix seconds, for tests
+  now?: number
+}
+
+const DEFAULT_TOLERANCE_SECONDS = 300
+
+function parseSignatureHeader(header: string): { timestamp: number; signatures: string[] } {
+  let timestamp = NaN
+  const signatures: string[] = []
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2)
+    if (key === 't') {
+      timestamp = Number(value)
+    } else if (key === 'v1' && value) {
+      signatures.push(value)
+    }
+  }
+
+  if (!Number.isInteger(timestamp) || signatures.length === 0) {
+    throw new AutivWebhookSignatureError('invalid_signature_header', 'X-Autiv-Signature must look like t=<timestamp>,v1=<signature>')
+  }
+  return { timestamp, signatures }
+}
+
+/**
+ * Check the X-Autiv-Signature header against the raw request body and return the parsed event.
+ * Pass the body exactly as received; re-serialized JSON will not match the signature.
+ */
+export function verifyWebhookSignature<T = Record<string, unknown>>(
+  rawBody: string | Buffer,
+  signatureHeader: string | null | undefined,
+  secret: string,
+  options: VerifyWebhookOptions = {}
+): WebhookEvent<T> {
+  if (!signatureHeader) {
+    throw new AutivWebhookSignatureError('missing_signature', 'The X-Autiv-Signature header is missing')
+  }
+
+  const { timestamp, signatures } = parseSignatureHeader(signatureHeader)
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS
+  const now = options.now ?? Math.floor(Date.now() / 1000)
+  if (Math.abs(now - timestamp) > tolerance) {
+    throw new AutivWebhookSignatureError('timestamp_out_of_tolerance', 'The webhook signature timestamp is too old')
+  }
+
+  const body = typeof rawBody === 'string' ? rawBody : rawBody.toString('utf8')
+  const expected = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest()
+  const matches = signatures.some((signature) => {
+    const received = Buffer.from(signature, 'hex')
+    return received.length === expected.length && timingSafeEqual(received, expected)
+  })
+  if (!matches) {
+    throw new AutivWebhookSignatureError('signature_mismatch', 'The webhook signature does not match the payload')
+  }
+
+  try {
+    return JSON.parse(body) as WebhookEvent<T>
+  } catch {
+    throw new AutivWebhookSignatureError('invalid_payload', 'The webhook payload is not valid JSON')
+  }
+}
@@ -7,9 +7,91 @@ import { createRemoteJWKSet, jwtVerify } from 'jose';
 
 const SUBSCRIPTION_MANAGER_DEPLOYED_TOPIC = "0x38db265c0cf2a33c417051a7d0943e38a02b3db9f988689dd670bf6a1aa5e0cd";
 const PLAN_CREATED_TOPIC = "0x9e577f4ac885b769646db304f554e3503ca6b65d2bf0dc1aab2d40f42dca44d5";
+const PLAN_CHANGED_TOPIC = "0x9ea5f02508d0b28d1d3fe9b5251350d9879c571c781a45f5f0cb2d5dad29cf35";
+const SUBSCRIPTION_CREATED_TOPIC = "0xeec977e786e7248a658b0474ccf8f57f37ead019014ec4d5ba1542ddabeff1b4";
+const SUBSCRIPTION_CANCELLED_TOPIC = "0x06aa12c0ad65927b4a753d119c26e490d3c4a4e11cb631b43131a709dc1e5917";
+const PLAN_ARCHIVED_TOPIC = "0xe82c0512fbfe61283c3bd9039fd0d77457e4b6630ae2b39dd23d29ef9df0d9a5";
+const PLAN_UNARCHIVED_TOPIC = "0x58482b62fb3ccc96adee1ebbecbe89006b5c0b272595016538d2e5e0d6c8bcca";
+const SUBSCRIPTION_PAUSED_TOPIC = "0xc361d0d48ca57e17d867a3469aa685fbe40a6e5edfa6cfa8df763ca9d9897e8c";
+const SUBSCRIPTION_RESUMED_TOPIC = "0xf97442dcb6baf2c518e41e3720c7ef93f0e11215c32290207c79178f54db7459";
+const COUPON_CREATED_TOPIC = "0x2d4273643647177623342578f470cfdf976dcdec23fd1803cc099bda3325031b";
+const COUPON_DEACTIVATED_TOPIC = "0xf9bf075a7ab588000e82a675fe0ed1e16e2a1fc08d8b90a7ea1d2549a405c8a4";
+const COUPON_REDEEMED_TOPIC = "0x927d66bcd720bc3e907a6796d14466bc4dba66725fc79ca3d1a7d5348687cf13";
+const PAYMENT_PROCESSED_TOPIC = "0xc1af30fe4cadac62164a69345dcb921d4676a6a794279f7ab612aeff8d9be32d";
+const REFUNDED_TOPIC = "0x06cb03a59ee6b5368035068b54d5789cc9cbfb3a0158cb45b988172ba4816b7f";
+const REVENUE_WITHDRAWN_TOPIC = "0x6c198f0e3e4f68668dfd7b1a689ee110197d822dd8ec93a685138d4b8537ae06";
+const PAYOUT_ADDRESS_UPDATED_TOPIC = "0xfcbb1571f6f637b3645e200ff18fbcb7fc2f8db33547e2f582146a51246e1043";
+// DisabledDelegation(bytes32,address,address,Delegation) on the MetaMask DelegationManager
+const DISABLED_DELEGATION_TOPIC = "0xea589ba9473ee1fe77d352c7ed919747715a5d22931b972de9b02a907c66d5dd";
+const DELEGATION_MANAGER_ADDRESS = "0xdb9b1e94b5b69df7e401ddbede43491141047db3";
+const TOKEN_DECIMALS = 18;
+
+// Dunning defaults; projects can override the grace period and retry interval
+const DEFAULT_GRACE_PERIOD_SECONDS = 3 * 24 * 60 * 60;
+const DEFAULT_RETRY_INTERVAL_SECONDS = 24 * 60 * 60;
+const MAX_GRACE_PERIOD_SECONDS = 30 * 24 * 60 * 60;
+const MIN_RETRY_INTERVAL_SECONDS = 60 * 60;
+
+// When the collector sweeps a project's revenue to its payout address
+const SWEEP_POLICIES = ["off", "every_payment", "threshold", "schedule"];
+const MIN_SWEEP_INTERVAL_SECONDS = 60 * 60;
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Promo codes are stored upper-cased; the contract keys coupons by keccak256 of that form
+const COUPON_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
 
 const NONCE_TTL_MS = 2 * 60 * 1000;
 
+// Fixed one-minute windows; API keys are limited per key, everything else per client IP
+const RATE_LIMITS = {
+  api_key: { limit: 120, windowSeconds: 60 },
+  ip: { limit: 300, windowSeconds: 60 }
+};
+const RATE_LIMIT_USAGE_RETENTION_DAYS = 30;
+
+// Analytics ranges and the bucket size each is charted in
+const ANALYTICS_RANGES = {
+  "7d": { days: 7, bucket: "day" },
+  "30d": { days: 30, bucket: "day" },
+  "90d": { days: 90, bucket: "week" },
+  "365d": { days: 365, bucket: "month" },
+  "all": { days: null, bucket: "month" }
+};
+const MRR_MONTH_SECONDS = 30 * 24 * 60 * 60;
+const SUBSCRIPTION_STATUSES = ["active", "paused", "past_due", "expired", "cancelled"];
+const DEFAULT_SUBSCRIBER_PAGE_SIZE = 25;
+const MAX_SUBSCRIBER_PAGE_SIZE = 100;
+const MAX_DUE_COLLECTIONS = 100;
+const DEFAULT_BILLING_HISTORY_PAGE_SIZE = 20;
+const MAX_BILLING_HISTORY_PAGE_SIZE = 100;
+const MAX_WITHDRAWAL_HISTORY = 100;
+const XATA_QUERY_PAGE_SIZE = 1000;
+const XATA_QUERY_MAX_PAGES = 50;
+
+// Developer API keys are stored as SHA-256 hashes; only the prefix is kept for display
+const API_KEY_PERMISSIONS = ["read_subscriptions", "create_sessions", "manage_plans", "collect_payments"];
+const API_KEY_PREFIX_LENGTH = 11;
+const API_KEY_LAST_USED_INTERVAL_SECONDS = 60;
+const MAX_API_KEY_ROTATION_OVERLAP_SECONDS = 7 * 24 * 60 * 60;
+
+// Routes an API key may call, the permission each needs, and where the route reads its project id
+const API_KEY_ROUTE_SCOPES = {
+  "/api/verify-key": {},
+  "/api/get-project-details": { project: (body, req) => req.headers.get("X-Project-Id") },
+  "/api/get-project-detailts": { project: (body, req) => req.headers.get("X-Project-Id") },
+  "/api/lookup-user-subscriptions": { permission: "read_subscriptions", project: (body) => body.project_id },
+  "/api/get-project-subscribers": { permission: "read_subscriptions", project: (body) => body.project_id },
+  "/api/get-project-subscriber": { permission: "read_subscriptions", project: (body) => body.project_id },
+  // The project is checked against the subscription record in getSubscriptionById
+  "/api/get-subscription": { permission: "read_subscriptions" },
+  "/api/create-payment-session": { permission: "create_sessions", project: (body) => body.project_id || body.projectId },
+  "/api/get-payment-session": {},
+  "/api/create-subscription-plan": { permission: "manage_plans", project: (body) => body.project_id },
+  "/api/archive-subscription-plan": { permission: "manage_plans", project: (body) => body.project_id },
+  "/api/get-due-collections": { permission: "collect_payments", project: (body) => body.project_id },
+  "/api/report-collection": { permission: "collect_payments", project: (body) => body.project_id }
+};
+
 // Durable Object for nonce management
 export class NonceManager {
   constructor(state, env) {
@@ -73,6 +155,111 @@ export class NonceManager {
   }
 }
 
+// Durable Object holding one rate limit window, plus daily request counts when the bucket is metered
+export class RateLimiter {
+  constructor(state) {
+    this.state = state;
+  }
+
+  async fetch(request) {
+    const url = new URL(request.url);
+
+    switch (url.searchParams.get('action')) {
+      case 'consume':
+        return this.consume(
+          Number(url.searchParams.get('limit')),
+          Number(url.searchParams.get('window')),
+          url.searchParams.get('meter') === '1'
+        );
+      case 'usage':
+        return this.usage();
+      default:
+        return new Response('Invalid action', { status: 400 });
+    }
+  }
+
+  async consume(limit, windowSeconds, meter) {
+    if (!Number.isInteger(limit) || limit <= 0 || !Number.isInteger(windowSeconds) || windowSeconds <= 0) {
+      return new Response(JSON.stringify({ success: false, error: 'invalid_limit' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const now = Date.now();
+    const windowMs = windowSeconds * 1000;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const resetAt = Math.ceil((windowStart + windowMs) / 1000);
+
+    const current = await this.state.storage.get('window');
+    const count = current?.start === windowStart ? current.count : 0;
+    const allowed = count < limit;
+
+    const updates = {};
+    if (allowed) {
+      updates.window = { start: windowStart, count: count + 1 };
+    }
+    if (meter) {
+      updates.usage = this.recordUsage(await this.state.storage.get('usage'), now, allowed);
+    }
+    if (Object.keys(updates).length > 0) {
+      await this.state.storage.put(updates);
+    }
+    // IP buckets are not metered, so clear them once the window is over instead of keeping them forever
+    if (!meter && allowed && count === 0) {
+      await this.state.storage.setAlarm(windowStart + windowMs);
+    }
+
+    return new Response(JSON.stringify({
+      allowed,
+      limit,
+      remaining: allowed ? limit - count - 1 : 0,
+      reset_at: resetAt,
+      retry_after: allowed ? 0 : Math.max(1, resetAt - Math.floor(now / 1000))
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // Per-day counters keyed by UTC date, trimmed to the retention window
+  recordUsage(usage, now, allowed) {
+    const daily = { ...(usage?.daily || {}) };
+    const day = new Date(now).toISOString().slice(0, 10);
+    const entry = daily[day] || { requests: 0, throttled: 0 };
+    daily[day] = allowed
+      ? { ...entry, requests: entry.requests + 1 }
+      : { ...entry, throttled: entry.throttled + 1 };
+
+    const oldestDay = new Date(now - RATE_LIMIT_USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    for (const key of Object.keys(daily)) {
+      if (key < oldestDay) {
+        delete daily[key];
+      }
+    }
+
+    return {
+      daily,
+      total_requests: (usage?.total_requests || 0) + (allowed ? 1 : 0),
+      last_request_at: Math.floor(now / 1000)
+    };
+  }
+
+  async usage() {
+    const usage = await this.state.storage.get('usage');
+    return new Response(JSON.stringify({
+      daily: usage?.daily || {},
+      total_requests: usage?.total_requests || 0,
+      last_request_at: usage?.last_request_at || null
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  async alarm() {
+    await this.state.storage.deleteAll();
+  }
+}
+
 const PAYMENT_SESSION_WINDOW_MS = 5 * 60 * 1000;
 const PAYMENT_SESSION_STORAGE_BUFFER_MS = 10 * 60 * 1000;
 const PAYMENT_SESSION_FINALIZED_RETENTION_MS = 2 * 60 * 1000;
@@ -313,6 +500,97 @@ async function reserveNonce(nonce, env) {
   return result.success;
 }
 
+// --- Rate limiting with Durable Objects ---
+function getClientIp(req) {
+  return req.headers.get("CF-Connecting-IP") || req.headers.get("X-Forwarded-For")?.split(",")[0].trim() || "unknown";
+}
+
+// Returns null when the limiter is unavailable; requests are let through rather than failing the API
+async function consumeRateLimit(bucket, { limit, windowSeconds }, env, { meter = false } = {}) {
+  if (!env.RATE_LIMITER?.idFromName) {
+    return null;
+  }
+
+  try {
+    const stub = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(bucket));
+    const params = new URLSearchParams({
+      action: "consume",
+      limit: String(limit),
+      window: String(windowSeconds),
+      meter: meter ? "1" : "0"
+    });
+    const response = await stub.fetch(`https://rate-limiter/?${params}`);
+    if (!response.ok) {
+      console.warn(`Rate limiter returned ${response.status} for ${bucket}`);
+      return null;
+    }
+    return await response.json();
+  } catch (error) {
+    console.warn("Rate limiter unavailable:", error);
+    return null;
+  }
+}
+
+async function getApiKeyUsage(apiKeyId, env) {
+  if (!env.RATE_LIMITER?.idFromName) {
+    return null;
+  }
+
+  try {
+    const stub = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(`key:${apiKeyId}`));
+    const response = await stub.fetch("https://rate-limiter/?action=usage");
+    if (!response.ok) {
+      return null;
+    }
+
+    const usage = await response.json();
+    const today = new Date().toISOString().slice(0, 10);
+    const days = Object.values(usage.daily);
+    return {
+      requests_today: usage.daily[today]?.requests || 0,
+      throttled_today: usage.daily[today]?.throttled || 0,
+      requests_30d: days.reduce((sum, day) => sum + day.requests, 0),
+      throttled_30d: days.reduce((sum, day) => sum + day.throttled, 0),
+      total_requests: usage.total_requests,
+      last_request_at: usage.last_request_at
+    };
+  } catch (error) {
+    console.warn("Failed to read API key usage:", error);
+    return null;
+  }
+}
+
+function withRateLimitHeaders(response, rateLimit) {
+  if (!rateLimit) {
+    return response;
+  }
+
+  // Responses proxied from fetch have immutable headers, so copy before setting
+  const limited = new Response(response.body, response);
+  limited.headers.set("X-RateLimit-Limit", String(rateLimit.limit));
+  limited.headers.set("X-RateLimit-Remaining", String(rateLimit.remaining));
+  limited.headers.set("X-RateLimit-Reset", String(rateLimit.reset_at));
+  if (!rateLimit.allowed) {
+    limited.headers.set("Retry-After", String(rateLimit.retry_after));
+  }
+  limited.headers.set("Access-Control-Expose-Headers", "X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Retry-After");
+  return limited;
+}
+
+function rateLimitedResponse(rateLimit) {
+  return withRateLimitHeaders(new Response(JSON.stringify({
+    success: false,
+    error: "rate_limited",
+    retry_after: rateLimit.retry_after
+  }), {
+    status: 429,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*'
+    }
+  }), rateLimit);
+}
+
 async function createPaymentSessionDO(session, env) {
   if (!env.PAYMENT_SESSION_MANAGER || !env.PAYMENT_SESSION_MANAGER.idFromName) {
     throw new Error('PAYMENT_SESSION_MANAGER Durable Object binding is not configured');
@@ -361,10 +639,13 @@ async function getPlanDetailsForPaymentSession(xataApiKey, projectId, contractPl
         "name",
         "price",
         "period_seconds",
+        "trial_period_seconds",
         "contract_plan_id",
+        "is_active",
         "developer_id.company_name",
         "project_id",
         "project_id.subscription_manager_address",
+        "project_id.agent_address",
         "project_id.supported_token_id.token_address",
         "project_id.supported_token_id.symbol"
       ],
@@ -420,10 +701,13 @@ function sanitizePaymentSessionForClient(session) {
     companyName: session.companyName,
     planDescription: session.planDescription,
     amount: session.amount,
+    originalAmount: session.originalAmount ?? session.amount,
+    coupon: session.coupon || null,
     tokenSymbol: session.tokenSymbol,
     tokenAddress: session.tokenAddress,
     billingIntervalSeconds: session.billingIntervalSeconds,
     billingIntervalText: session.billingIntervalText,
+    trialPeriodSeconds: session.trialPeriodSeconds || 0,
     metadata: session.metadata || {},
     txHash: session.txHash || null
   };
@@ -495,7 +779,27 @@ async function verifyBlockchainTransaction(tx_hash, expected_user, expected_smar
       ).length
     });
     
-    return { valid: true };
+    // Pick up the on-chain subscription id when the transaction created a subscription
+    const created = receipt.logs
+      .filter(log => log.address.toLowerCase() === SUBSCRIPTION_MANAGER_ADDRESS.toLowerCase())
+      .map(log => decodeSubscriptionCreated(log.topics))
+      .find(event => event
+        && (!expected_smart_account || event.user === expected_smart_account.toLowerCase())
+        && (expected_plan_id === undefined || expected_plan_id === null || event.planId === parseInt(expected_plan_id)));
+    
+    // Checkouts with a promo code also emit CouponRedeemed for the new subscription
+    const redeemed = created
+      ? receipt.logs
+        .filter(log => log.address.toLowerCase() === SUBSCRIPTION_MANAGER_ADDRESS.toLowerCase())
+        .map(log => decodeCouponRedeemed(log.topics))
+        .find(event => event && event.subscriptionId === created.subscriptionId)
+      : null;
+    
+    return {
+      valid: true,
+      subscriptionId: created ? created.subscriptionId : null,
+      couponId: redeemed ? redeemed.couponId : null
+    };
     
   } catch (error) {
     console.error('Blockchain verification error:', error);
@@ -555,2158 +859,7412 @@ function extractEmailFromPrivyPayload(payload) {
   return null;
 }
 
-// --- Request handler ---
-async function handleRequest(req, env) {
-  const url = new URL(req.url);
-  const path = url.pathname;
-
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response(null, {
-      status: 200,
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Request-Timestamp, X-Request-Nonce, X-User-Email, X-Api-Key, X-Project-Id',
-        'Access-Control-Max-Age': '86400',
-      },
-    });
-  }
-
-  // 1. Check for Developer API Key
-  const devApiKey = req.headers.get("X-Api-Key") || url.searchParams.get("api_key");
-  if (devApiKey) {
-    const valid = await verifyApiKey(env.XATA_API_KEY, devApiKey, env);
-    if (!valid) {
-      return new Response(JSON.stringify({ error: "Invalid API key" }), { 
-        status: 401,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
-        }
-      });
+// --- Versioned REST API ---
+// /v1 routes are resource-style aliases of the /api RPC routes. Each one is validated against the
+// schemas published in the OpenAPI document and then served by the legacy handler it maps to.
+const V1_SCHEMA_REF_PREFIX = "#/components/schemas/";
+const TX_HASH_PATTERN = "^0x[0-9a-fA-F]{64}$";
+const ADDRESS_PATTERN = "^0x[0-9a-fA-F]{40}$";
+
+const V1_SCHEMAS = {
+  Error: {
+    type: "object",
+    required: ["success", "error"],
+    properties: {
+      success: { type: "boolean", enum: [false] },
+      error: { type: "string" },
+      details: { type: "array", items: { type: "string" } }
     }
-  }
-
-  const publicEndpoints = new Set([
-    '/api/get-payment-session'
-  ]);
-
-  const requiresAuth = !devApiKey && !publicEndpoints.has(path);
-  let userEmail = null;
-
-  if (requiresAuth) {
-    // 2. Otherwise expect JWT from frontend
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return new Response(JSON.stringify({ error: "Missing or invalid Authorization header" }), { 
-        status: 401,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
-        }
-      });
+  },
+  TokenMetadata: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      name: { type: "string" },
+      symbol: { type: "string" },
+      token_address: { type: "string", pattern: ADDRESS_PATTERN }
     }
-
-    const token = authHeader.slice('Bearer '.length);
-
-    // Verify JWT
-    const payload = await verifyPrivyJwt(token, env);
-    if (!payload) {
-      return new Response(JSON.stringify({ error: "Invalid or expired JWT" }), { 
-        status: 401,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
-        }
-      });
+  },
+  Project: {
+    type: "object",
+    required: ["id", "name"],
+    properties: {
+      id: { type: "string" },
+      name: { type: "string" },
+      description: { type: "string", nullable: true },
+      subscription_manager_address: { type: "string", nullable: true },
+      agent_address: { type: "string", nullable: true },
+      grace_period_seconds: { type: "integer" },
+      retry_interval_seconds: { type: "integer" },
+      payout_address: { type: "string", nullable: true },
+      sweep_policy: { type: "string", enum: SWEEP_POLICIES },
+      sweep_threshold: { type: "number", nullable: true },
+      sweep_interval_seconds: { type: "integer", nullable: true },
+      last_swept_at: { type: "integer", nullable: true },
+      supported_token: { $ref: `${V1_SCHEMA_REF_PREFIX}TokenMetadata`, nullable: true }
     }
-
-    userEmail = extractEmailFromPrivyPayload(payload);
-    if (!userEmail) {
-      return new Response(JSON.stringify({ error: "Unable to extract email from JWT" }), { 
-        status: 400,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
-        }
-      });
+  },
+  SubscriptionPlan: {
+    type: "object",
+    required: ["id", "contract_plan_id", "name", "price", "period_seconds"],
+    properties: {
+      id: { type: "string" },
+      contract_plan_id: { type: "integer" },
+      name: { type: "string" },
+      price: { type: "number" },
+      token_symbol: { type: "string", nullable: true },
+      period_seconds: { type: "integer" },
+      trial_period_seconds: { type: "integer" },
+      is_active: { type: "boolean" }
     }
-  }
-
-  // Read body once
-  const bodyText = await req.text();
-  let requestBody = {};
-  if (bodyText) {
-    try {
-      requestBody = JSON.parse(bodyText);
-    } catch (e) {
-      // Body is not JSON, that's okay
+  },
+  ProjectContract: {
+    type: "object",
+    required: ["subscription_manager_address", "token_address"],
+    properties: {
+      subscription_manager_address: { type: "string", pattern: ADDRESS_PATTERN },
+      token_address: { type: "string", pattern: ADDRESS_PATTERN },
+      agent_address: { type: "string", pattern: ADDRESS_PATTERN, nullable: true }
     }
-  }
-
-  if (requiresAuth) {
-    // 3. Check timestamp for replay protection
-    const timestamp = requestBody.timestamp || Date.now();
-    const now = Date.now();
-    const ACCEPT_WINDOW = 60000; // 60 seconds
-    if (Math.abs(now - timestamp) > ACCEPT_WINDOW) {
-      return new Response(JSON.stringify({ error: "Request expired" }), {
-        status: 401,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
-        }
-      });
+  },
+  Subscription: {
+    type: "object",
+    required: ["id", "plan_id", "status", "start_date"],
+    properties: {
+      id: { type: "string" },
+      plan_id: { type: "string" },
+      contract_plan_id: { type: "integer", nullable: true },
+      project_id: { type: "string", nullable: true },
+      contract_subscription_id: { type: "integer", nullable: true },
+      plan_name: { type: "string" },
+      company_name: { type: "string", nullable: true },
+      status: { type: "string", enum: SUBSCRIPTION_STATUSES },
+      start_date: { type: "integer" },
+      next_payment_date: { type: "integer", nullable: true },
+      last_payment_date: { type: "integer", nullable: true },
+      trial_ends_at: { type: "integer", nullable: true },
+      paused_at: { type: "integer", nullable: true },
+      past_due_since: { type: "integer", nullable: true },
+      grace_ends_at: { type: "integer", nullable: true },
+      next_retry_at: { type: "integer", nullable: true },
+      retry_count: { type: "integer" },
+      last_failure_reason: { type: "string", nullable: true },
+      cancelled_at: { type: "integer", nullable: true },
+      cancellation_effective_at: { type: "integer", nullable: true },
+      price: { type: "number" },
+      subscription_manager_address: { type: "string", nullable: true },
+      token_symbol: { type: "string", nullable: true },
+      token_address: { type: "string", nullable: true },
+      is_latest: { type: "boolean" }
     }
-
-    // 4. Check nonce for replay protection
-    const nonce = requestBody.nonce;
-    if (nonce) {
-      const seen = await checkNonce(nonce, env);
-      if (seen) {
-        return new Response(JSON.stringify({ error: "Duplicate request detected" }), {
-          status: 409,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*'
+  },
+  PaymentSessionCoupon: {
+    type: "object",
+    properties: {
+      code: { type: "string" },
+      codeHash: { type: "string" },
+      contractCouponId: { type: "integer" },
+      discountType: { type: "string", enum: ["percent", "fixed"] },
+      discountValue: { type: "number" },
+      durationCharges: { type: "integer" }
+    }
+  },
+  PaymentSession: {
+    type: "object",
+    required: ["paymentId", "status", "amount", "expiresAt"],
+    properties: {
+      paymentId: { type: "string" },
+      status: { type: "string", enum: [...ALLOWED_PAYMENT_SESSION_STATUSES] },
+      createdAt: { type: "integer" },
+      updatedAt: { type: "integer" },
+      expiresAt: { type: "integer" },
+      paidAt: { type: "integer", nullable: true },
+      planId: { type: "string" },
+      contractPlanId: { type: "integer" },
+      planName: { type: "string" },
+      companyName: { type: "string", nullable: true },
+      planDescription: { type: "string", nullable: true },
+      amount: { type: "number" },
+      originalAmount: { type: "number" },
+      coupon: { $ref: `${V1_SCHEMA_REF_PREFIX}PaymentSessionCoupon`, nullable: true },
+      tokenSymbol: { type: "string" },
+      tokenAddress: { type: "string" },
+      agentAddress: { type: "string", description: "Address the subscriber delegates renewals to" },
+      billingIntervalSeconds: { type: "integer" },
+      billingIntervalText: { type: "string" },
+      trialPeriodSeconds: { type: "integer" },
+      metadata: { type: "object" },
+      txHash: { type: "string", nullable: true }
+    }
+  },
+  CreatePlansRequest: {
+    type: "object",
+    required: ["developer_email", "plans"],
+    properties: {
+      developer_email: { type: "string", minLength: 3 },
+      tx_hash: { type: "string", pattern: TX_HASH_PATTERN },
+      plans: {
+        type: "array",
+        minItems: 1,
+        items: {
+          type: "object",
+          required: ["contract_plan_id", "name", "price", "period_seconds"],
+          properties: {
+            contract_plan_id: { type: "integer", minimum: 0 },
+            name: { type: "string", minLength: 1 },
+            price: { type: "number", minimum: 0 },
+            token_address: { type: "string", pattern: ADDRESS_PATTERN },
+            period_seconds: { type: "integer", minimum: 1 },
+            trial_period_seconds: { type: "integer", minimum: 0 }
           }
-        });
+        }
       }
-
-      // Reserve nonce
-      const reserved = await reserveNonce(nonce, env);
-      if (!reserved) {
-        return new Response(JSON.stringify({ error: "Failed to reserve nonce" }), {
-          status: 500,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*'
+    }
+  },
+  UpdatePlanRequest: {
+    type: "object",
+    required: ["archived", "tx_hash"],
+    properties: {
+      archived: { type: "boolean" },
+      tx_hash: { type: "string", pattern: TX_HASH_PATTERN }
+    }
+  },
+  CreatePaymentSessionRequest: {
+    type: "object",
+    required: ["project_id", "contract_plan_id"],
+    properties: {
+      project_id: { type: "string", minLength: 1 },
+      contract_plan_id: { type: "integer", minimum: 0 },
+      coupon_code: { type: "string" },
+      metadata: { type: "object" },
+      delegation_data: { type: "object" }
+    }
+  },
+  UpdatePaymentSessionRequest: {
+    type: "object",
+    required: ["status"],
+    properties: {
+      status: { type: "string", enum: [...ALLOWED_PAYMENT_SESSION_STATUSES] },
+      tx_hash: { type: "string", pattern: TX_HASH_PATTERN },
+      metadata: { type: "object" }
+    }
+  },
+  CreateSubscriptionRequest: {
+    type: "object",
+    required: ["user_email", "user_wallet_address", "plan_id", "project_id", "start_date", "subscription_manager_address", "token_address"],
+    properties: {
+      user_email: { type: "string", minLength: 3 },
+      user_wallet_address: { type: "string", pattern: ADDRESS_PATTERN },
+      user_smart_account_address: { type: "string", pattern: ADDRESS_PATTERN },
+      plan_id: { type: "integer", minimum: 0 },
+      project_id: { type: "string", minLength: 1 },
+      tx_hash: { type: "string", pattern: TX_HASH_PATTERN },
+      start_date: { type: "integer", minimum: 0 },
+      subscription_manager_address: { type: "string", pattern: ADDRESS_PATTERN },
+      amount: { type: "number", minimum: 0 },
+      token_address: { type: "string", pattern: ADDRESS_PATTERN },
+      payment_date: { type: "integer", minimum: 0 },
+      delegation_data: { type: "object" }
+    }
+  },
+  CollectionReportRequest: {
+    type: "object",
+    required: ["subscription_id", "outcome"],
+    properties: {
+      subscription_id: { type: "string", minLength: 1 },
+      outcome: { type: "string", enum: ["succeeded", "failed"] },
+      tx_hash: { type: "string", pattern: TX_HASH_PATTERN, description: "Required when the renewal succeeded; the PaymentProcessed event is checked on-chain" },
+      reason: { type: "string", description: "Why the renewal failed, shown to the developer and sent in webhooks" },
+      amount_due: { type: "number", minimum: 0 },
+      balance: { type: "number", minimum: 0 }
+    }
+  },
+  // Amounts keyed by token symbol, since plans can charge in different tokens
+  TokenAmounts: {
+    type: "object",
+    additionalProperties: { type: "number" }
+  },
+  ProjectAnalytics: {
+    type: "object",
+    properties: {
+      project_id: { type: "string" },
+      range: { type: "string", enum: Object.keys(ANALYTICS_RANGES) },
+      bucket: { type: "string", enum: ["day", "week", "month"] },
+      start: { type: "integer" },
+      end: { type: "integer" },
+      summary: {
+        type: "object",
+        properties: {
+          mrr: { $ref: `${V1_SCHEMA_REF_PREFIX}TokenAmounts` },
+          active_subscribers: { type: "integer" },
+          trialing_subscribers: { type: "integer" },
+          past_due_subscribers: { type: "integer" },
+          paused_subscribers: { type: "integer" },
+          new_subscriptions: { type: "integer" },
+          cancellations: { type: "integer" },
+          churned: { type: "integer" },
+          churn_rate: { type: "number", nullable: true },
+          revenue: { $ref: `${V1_SCHEMA_REF_PREFIX}TokenAmounts` },
+          revenue_all_time: { $ref: `${V1_SCHEMA_REF_PREFIX}TokenAmounts` }
+        }
+      },
+      series: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            start: { type: "integer" },
+            end: { type: "integer" },
+            new_subscriptions: { type: "integer" },
+            cancellations: { type: "integer" },
+            churned: { type: "integer" },
+            active_subscribers: { type: "integer" },
+            mrr: { $ref: `${V1_SCHEMA_REF_PREFIX}TokenAmounts` },
+            revenue: { $ref: `${V1_SCHEMA_REF_PREFIX}TokenAmounts` },
+            payments: { type: "integer" }
           }
-        });
+        }
+      },
+      plans: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            plan_id: { type: "string" },
+            contract_plan_id: { type: "integer" },
+            name: { type: "string" },
+            token_symbol: { type: "string" },
+            is_active: { type: "boolean" },
+            active_subscribers: { type: "integer" },
+            mrr: { type: "number" },
+            revenue: { type: "number" },
+            payments: { type: "integer" }
+          }
+        }
+      },
+      tokens: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            token_symbol: { type: "string" },
+            token_address: { type: "string", nullable: true },
+            mrr: { type: "number" },
+            revenue: { type: "number" },
+            revenue_all_time: { type: "number" }
+          }
+        }
       }
     }
-  }
-
-  // Get developer info if needed
-  let developerId = null;
-  if (requiresAuth && userEmail) {
-    try {
-      const devInfo = await getDeveloperInfo(env.XATA_API_KEY, userEmail, env);
-      if (devInfo.found && devInfo.developer?.id) {
-        developerId = devInfo.developer.id;
+  },
+  ProjectAnalyticsResponse: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      data: { $ref: `${V1_SCHEMA_REF_PREFIX}ProjectAnalytics` }
+    }
+  },
+  ProjectSubscriber: {
+    type: "object",
+    required: ["id", "plan_id", "status", "start_date"],
+    properties: {
+      id: { type: "string" },
+      status: { type: "string", enum: SUBSCRIPTION_STATUSES },
+      user_email: { type: "string", nullable: true },
+      user_wallet_address: { type: "string", nullable: true },
+      user_smart_account: { type: "string", nullable: true },
+      plan_id: { type: "string" },
+      plan_name: { type: "string", nullable: true },
+      contract_plan_id: { type: "integer", nullable: true },
+      contract_subscription_id: { type: "integer", nullable: true },
+      token_symbol: { type: "string", nullable: true },
+      start_date: { type: "integer" },
+      next_payment_date: { type: "integer", nullable: true },
+      last_payment_date: { type: "integer", nullable: true },
+      trial_ends_at: { type: "integer", nullable: true },
+      past_due_since: { type: "integer", nullable: true },
+      grace_ends_at: { type: "integer", nullable: true },
+      retry_count: { type: "integer" },
+      cancelled_at: { type: "integer", nullable: true },
+      lifetime_value: { type: "number", description: "Payments minus refunds" },
+      payments_count: { type: "integer" },
+      refunded_amount: { type: "number" }
+    }
+  },
+  SubscriberPayment: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      amount: { type: "number" },
+      token_symbol: { type: "string", nullable: true },
+      token_address: { type: "string", nullable: true },
+      payment_date: { type: "integer" },
+      tx_hash: { type: "string" },
+      payment_type: { type: "string", enum: ["charge", "proration"] },
+      proration_credit: { type: "number", nullable: true },
+      previous_plan_name: { type: "string", nullable: true },
+      invoice_number: { type: "string", nullable: true },
+      refunded_amount: { type: "number" },
+      refunds: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            amount: { type: "number" },
+            reason: { type: "string", nullable: true },
+            refunded_at: { type: "integer" },
+            tx_hash: { type: "string" }
+          }
+        }
       }
-    } catch (err) {
-      console.warn('Failed to fetch developer info:', err);
     }
-  }
-
-  // Create a new request with the body text for route handlers
-  const newReq = new Request(req.url, {
-    method: req.method,
-    headers: new Headers({
-      ...Object.fromEntries(req.headers.entries()),
-      'X-User-Email': userEmail || '',
-      'X-Developer-Id': developerId || '',
-    }),
-    body: bodyText || null
-  });
-
-  // Handle routes for frontend
-  switch (path) {
-      case "/api/verify-key":
-        const targetApiKey = newReq.headers.get("X-Api-Key");
-        const valid = await verifyApiKey(env.XATA_API_KEY, targetApiKey, env);
-        return new Response(JSON.stringify({ valid }), {
-          status: valid ? 200 : 401,
-          headers: { 
-            "Content-Type": "application/json",
-            "Access-Control-Allow-Origin": "*"
-          },
-        });
-        
-      case "/api/get-user-info":
-        const user_email = newReq.headers.get("X-User-Email");
-        const userInfo = await getUserInfo(env.XATA_API_KEY, user_email, env);
-        if (!userInfo) {
-          return new Response(JSON.stringify({ found: false }), {
-            status: 200,
-            headers: { 
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*"
-            },
-          });
-        }
-        return new Response(JSON.stringify({ found: true, user: userInfo }), {
-          status: 200,
-          headers: { 
-            "Content-Type": "application/json",
-            "Access-Control-Allow-Origin": "*"
-          },
-        });
-      case "/api/create-user":
-        const createUserData = await newReq.json();
-        const createdUser = await createUser(env.XATA_API_KEY, createUserData, env);
-        if (!createdUser) {
-          return new Response(JSON.stringify({ error: "Failed to create user" }), {
-            status: 500,
-            headers: { 
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*"
-            },
-          });
-        }
-        return new Response(JSON.stringify(createdUser), {
-          status: 201,
-          headers: { 
-            "Content-Type": "application/json",
-            "Access-Control-Allow-Origin": "*"
-          },
-        });
-      case "/api/get-user-subscriptions":
-        const user_email_for_subs = newReq.headers.get("X-User-Email");
-        const result = await getUserSubscriptions(env.XATA_API_KEY, user_email_for_subs, env);
-        return new Response(JSON.stringify(result), {
-          status: 200,
-          headers: { 
-            "Content-Type": "application/json",
-            "Access-Control-Allow-Origin": "*"
+  },
+  ProjectSubscriberListResponse: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      data: {
+        type: "object",
+        properties: {
+          subscribers: { type: "array", items: { $ref: `${V1_SCHEMA_REF_PREFIX}ProjectSubscriber` } },
+          pagination: {
+            type: "object",
+            properties: {
+              page: { type: "integer" },
+              page_size: { type: "integer" },
+              total: { type: "integer" },
+              total_pages: { type: "integer" }
+            }
           },
-        });
-      case "/api/create-payment-session": {
-        const projectId = requestBody.project_id || requestBody.projectId;
-        const contractPlanRaw = requestBody.contract_plan_id ?? requestBody.contractPlanId ?? requestBody.plan_id ?? requestBody.planId;
-        const contractPlanId = typeof contractPlanRaw === 'number' ? contractPlanRaw : parseInt(contractPlanRaw, 10);
-        if (!projectId || Number.isNaN(contractPlanId)) {
-          return new Response(JSON.stringify({ success: false, error: "missing_project_or_plan" }), {
-            status: 400,
-            headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*"
+          status_counts: { type: "object", description: "Subscribers per status, before the status filter" },
+          plans: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                name: { type: "string" },
+                contract_plan_id: { type: "integer", nullable: true },
+                is_active: { type: "boolean" }
+              }
             }
-          });
+          }
         }
-
-        const planRecord = await getPlanDetailsForPaymentSession(env.XATA_API_KEY, projectId, contractPlanId, env);
-        if (!planRecord) {
-          return new Response(JSON.stringify({ success: false, error: "plan_not_found" }), {
-            status: 404,
-            headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*"
-            }
-          });
+      }
+    }
+  },
+  ProjectSubscriberResponse: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      data: {
+        type: "object",
+        properties: {
+          subscriber: { $ref: `${V1_SCHEMA_REF_PREFIX}ProjectSubscriber` },
+          payments: { type: "array", items: { $ref: `${V1_SCHEMA_REF_PREFIX}SubscriberPayment` } }
         }
-
-        const tokenAddress = planRecord.project_id?.supported_token_id?.token_address;
-        const tokenSymbol = planRecord.project_id?.supported_token_id?.symbol;
-        const subscriptionManagerAddress = planRecord.project_id?.subscription_manager_address;
-        if (!tokenAddress || !tokenSymbol || !subscriptionManagerAddress) {
-          return new Response(JSON.stringify({ success: false, error: "plan_missing_token_or_manager" }), {
-            status: 422,
-            headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*"
+      }
+    }
+  },
+  BillingHistoryPayment: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      payment_date: { type: "integer" },
+      project_id: { type: "string", nullable: true },
+      project_name: { type: "string", nullable: true },
+      company_name: { type: "string", nullable: true },
+      subscription_id: { type: "string", nullable: true },
+      plan_name: { type: "string", nullable: true },
+      amount: { type: "number" },
+      token_symbol: { type: "string", nullable: true },
+      token_address: { type: "string", nullable: true },
+      payment_type: { type: "string", enum: ["charge", "proration"] },
+      tx_hash: { type: "string" },
+      invoice_number: { type: "string", nullable: true },
+      refunded_amount: { type: "number" }
+    }
+  },
+  BillingHistoryResponse: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      data: {
+        type: "object",
+        properties: {
+          payments: { type: "array", items: { $ref: `${V1_SCHEMA_REF_PREFIX}BillingHistoryPayment` } },
+          pagination: {
+            type: "object",
+            properties: {
+              page: { type: "integer" },
+              page_size: { type: "integer" },
+              total: { type: "integer" },
+              total_pages: { type: "integer" }
+            }
+          },
+          projects: {
+            type: "array",
+            description: "Every project the user has paid, for the project filter",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                name: { type: "string", nullable: true },
+                company_name: { type: "string", nullable: true }
+              }
             }
-          });
-        }
-
-        const userInfo = await getUserInfo(env.XATA_API_KEY, userEmail, env);
-        const paymentId = generatePaymentSessionId();
-        const now = Date.now();
-        const session = {
-          paymentId,
-          status: 'pending',
-          createdAt: now,
-          updatedAt: now,
-          expiresAt: now + PAYMENT_SESSION_WINDOW_MS,
-          userEmail,
-          projectId,
-          planId: planRecord.id,
-          contractPlanId,
-          planName: planRecord.name,
-          companyName: planRecord.developer_id?.company_name || null,
-          amount: typeof planRecord.price === 'number' ? planRecord.price : Number(planRecord.price || 0),
-          billingIntervalSeconds: planRecord.period_seconds,
-          billingIntervalText: formatBillingInterval(planRecord.period_seconds),
-          tokenAddress,
-          tokenSymbol,
-          planDescription: planRecord.description || null,
-          userWalletAddress: userInfo?.wallet_address || null,
-          userSmartAccountAddress: userInfo?.smart_account_address || null,
-          metadata: {
-            projectId,
-            subscription_manager_address: subscriptionManagerAddress
           }
-        };
-
-        if (requestBody.metadata && typeof requestBody.metadata === 'object') {
-          session.metadata = {
-            ...session.metadata,
-            ...requestBody.metadata,
-          };
         }
-
-        if (requestBody.delegation_data && typeof requestBody.delegation_data === 'object') {
-          session.metadata = {
-            ...session.metadata,
-            delegation_data: requestBody.delegation_data,
-          };
+      }
+    }
+  },
+  ProjectDetailsResponse: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      data: {
+        type: "object",
+        properties: {
+          project: { $ref: `${V1_SCHEMA_REF_PREFIX}Project` },
+          subscription_plans: { type: "array", items: { $ref: `${V1_SCHEMA_REF_PREFIX}SubscriptionPlan` } },
+          archived_plans: { type: "array", items: { $ref: `${V1_SCHEMA_REF_PREFIX}SubscriptionPlan` } }
         }
-
-        const createResult = await createPaymentSessionDO(session, env);
-        if (!createResult.ok || !createResult.data?.success) {
-          return new Response(JSON.stringify(createResult.data || { success: false, error: "payment_session_create_failed" }), {
-            status: createResult.status || 500,
-            headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*"
-            }
-          });
+      }
+    }
+  },
+  ProjectContractResponse: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      data: { $ref: `${V1_SCHEMA_REF_PREFIX}ProjectContract` }
+    }
+  },
+  PlanListResponse: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      data: {
+        type: "object",
+        properties: {
+          plans: { type: "array", items: { $ref: `${V1_SCHEMA_REF_PREFIX}SubscriptionPlan` } },
+          archived_plans: { type: "array", items: { $ref: `${V1_SCHEMA_REF_PREFIX}SubscriptionPlan` } }
         }
-
-        return new Response(JSON.stringify({ success: true, session: sanitizePaymentSessionForClient(createResult.data.session) }), {
-          status: 200,
-          headers: {
-            "Content-Type": "application/json",
-            "Access-Control-Allow-Origin": "*"
-          }
-        });
       }
-      case "/api/get-payment-session": {
-        const paymentId = requestBody.payment_id || requestBody.paymentId || newReq.headers.get('X-Payment-Id');
-        if (!paymentId) {
-          return new Response(JSON.stringify({ success: false, error: "missing_payment_id" }), {
-            status: 400,
-            headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*"
-            }
-          });
+    }
+  },
+  CreatePlansResponse: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      plan: { $ref: `${V1_SCHEMA_REF_PREFIX}SubscriptionPlan` },
+      plans: { type: "array", items: { $ref: `${V1_SCHEMA_REF_PREFIX}SubscriptionPlan` } }
+    }
+  },
+  UpdatePlanResponse: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      message: { type: "string" },
+      is_active: { type: "boolean" }
+    }
+  },
+  PaymentSessionResponse: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      session: { $ref: `${V1_SCHEMA_REF_PREFIX}PaymentSession` }
+    }
+  },
+  SubscriptionListResponse: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      data: {
+        type: "object",
+        properties: {
+          subscriptions: { type: "array", items: { $ref: `${V1_SCHEMA_REF_PREFIX}Subscription` } }
         }
-
-        const sessionResult = await getPaymentSessionDO(paymentId, env);
-        if (!sessionResult.ok || !sessionResult.data?.success) {
-          return new Response(JSON.stringify(sessionResult.data || { success: false, error: "payment_session_not_found" }), {
-            status: sessionResult.status || 500,
-            headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*"
-            }
-          });
+      }
+    }
+  },
+  SubscriptionResponse: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      data: {
+        type: "object",
+        properties: {
+          subscription: { $ref: `${V1_SCHEMA_REF_PREFIX}Subscription` }
         }
-
-        const session = sessionResult.data.session;
-        if (!session) {
-          return new Response(JSON.stringify({ success: false, error: "payment_session_not_found" }), {
-            status: 404,
-            headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*"
-            }
-          });
+      }
+    }
+  },
+  CreateSubscriptionResponse: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      message: { type: "string" },
+      subscription_id: { type: "string" },
+      contract_subscription_id: { type: "integer", nullable: true },
+      payment_id: { type: "string" }
+    }
+  },
+  DueCollection: {
+    type: "object",
+    properties: {
+      subscription_id: { type: "string" },
+      contract_subscription_id: { type: "integer", nullable: true },
+      contract_plan_id: { type: "integer", nullable: true },
+      plan_name: { type: "string", nullable: true },
+      plan_price: { type: "number", nullable: true },
+      period_seconds: { type: "integer", nullable: true },
+      token_address: { type: "string", nullable: true },
+      token_symbol: { type: "string", nullable: true },
+      status: { type: "string", enum: ["active", "past_due"] },
+      next_payment_date: { type: "integer" },
+      past_due_since: { type: "integer", nullable: true },
+      retry_count: { type: "integer" },
+      user_smart_account: { type: "string", nullable: true },
+      delegation: { type: "object", nullable: true, description: "The signed approve and processPayment delegations with their limits" },
+      delegation_active: { type: "boolean", description: "False once the subscriber cancelled; such delegations must not be redeemed" }
+    }
+  },
+  DueCollectionListResponse: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      data: {
+        type: "object",
+        properties: {
+          project_id: { type: "string" },
+          agent_address: { type: "string", nullable: true },
+          subscription_manager_address: { type: "string", nullable: true },
+          collections: { type: "array", items: { $ref: `${V1_SCHEMA_REF_PREFIX}DueCollection` } }
         }
-
-        if (userEmail && session.userEmail && session.userEmail !== userEmail) {
-          return new Response(JSON.stringify({ success: false, error: "forbidden" }), {
-            status: 403,
-            headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*"
-            }
-          });
+      }
+    }
+  },
+  CollectionReportResponse: {
+    type: "object",
+    properties: {
+      success: { type: "boolean" },
+      data: {
+        type: "object",
+        properties: {
+          subscription_id: { type: "string" },
+          status: { type: "string", enum: ["active", "past_due", "expired"] },
+          payment_id: { type: "string", nullable: true },
+          next_payment_date: { type: "integer", nullable: true },
+          next_retry_at: { type: "integer", nullable: true },
+          already_recorded: { type: "boolean" }
         }
-
-        return new Response(JSON.stringify({ success: true, session: sanitizePaymentSessionForClient(session) }), {
-          status: 200,
-          headers: {
-            "Content-Type": "application/json",
-            "Access-Control-Allow-Origin": "*"
-          }
-        });
       }
-      case "/api/update-payment-session": {
-        const paymentId = requestBody.payment_id || requestBody.paymentId;
-        const statusUpdate = requestBody.status;
-        const txHash = requestBody.tx_hash || requestBody.txHash;
+    }
+  }
+};
 
-        if (!paymentId) {
-          return new Response(JSON.stringify({ success: false, error: "missing_payment_id" }), {
-            status: 400,
-            headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*"
-            }
-          });
-        }
+// `target` is the legacy path that serves the route; `toLegacyBody` maps path, query and body onto its input
+const V1_ROUTES = [
+  {
+    method: "GET",
+    path: "/v1/projects/{projectId}",
+    operationId: "getProject",
+    summary: "Get a project with its active and archived plans",
+    tag: "Projects",
+    target: "/api/get-project-details",
+    projectHeader: true,
+    response: "ProjectDetailsResponse"
+  },
+  {
+    method: "GET",
+    path: "/v1/projects/{projectId}/contract",
+    operationId: "getProjectContract",
+    summary: "Get the SubscriptionManager and token addresses of a project",
+    tag: "Projects",
+    target: "/api/get-project-detailts",
+    projectHeader: true,
+    response: "ProjectContractResponse"
+  },
+  {
+    method: "GET",
+    path: "/v1/projects/{projectId}/plans",
+    operationId: "listPlans",
+    summary: "List a project's plans; archived plans are only kept for existing subscribers",
+    tag: "Plans",
+    target: "/api/get-project-details",
+    projectHeader: true,
+    response: "PlanListResponse",
+    toV1Response: (result) => ({
+      success: true,
+      data: { plans: result.data.subscription_plans, archived_plans: result.data.archived_plans }
+    })
+  },
+  {
+    method: "POST",
+    path: "/v1/projects/{projectId}/plans",
+    operationId: "createPlans",
+    summary: "Record plans created on the project's SubscriptionManager",
+    tag: "Plans",
+    target: "/api/create-subscription-plan",
+    body: "CreatePlansRequest",
+    successStatus: 201,
+    response: "CreatePlansResponse",
+    toLegacyBody: ({ params, body }) => ({ ...body, project_id: params.projectId })
+  },
+  {
+    method: "PATCH",
+    path: "/v1/projects/{projectId}/plans/{contractPlanId}",
+    operationId: "updatePlan",
+    summary: "Record an on-chain archive or unarchive of a plan",
+    tag: "Plans",
+    target: "/api/archive-subscription-plan",
+    body: "UpdatePlanRequest",
+    response: "UpdatePlanResponse",
+    toLegacyBody: ({ params, body }) => ({
+      ...body,
+      project_id: params.projectId,
+      contract_plan_id: Number(params.contractPlanId)
+    })
+  },
+  {
+    method: "GET",
+    path: "/v1/projects/{projectId}/analytics",
+    operationId: "getProjectAnalytics",
+    summary: "MRR, subscriber counts, churn and revenue per plan and token over a time range; dashboard only",
+    tag: "Analytics",
+    target: "/api/get-project-analytics",
+    query: [{ name: "range", schema: { type: "string", enum: Object.keys(ANALYTICS_RANGES) } }],
+    response: "ProjectAnalyticsResponse",
+    toLegacyBody: ({ params, query }) => ({ project_id: params.projectId, range: query.range })
+  },
+  {
+    method: "GET",
+    path: "/v1/projects/{projectId}/subscriptions",
+    operationId: "listProjectSubscriptions",
+    summary: "Look up a subscriber's subscriptions in a project; API key only",
+    tag: "Subscriptions",
+    target: "/api/lookup-user-subscriptions",
+    query: [{ name: "user_email", required: true, schema: { type: "string", minLength: 3 } }],
+    response: "SubscriptionListResponse",
+    toLegacyBody: ({ params, query }) => ({ project_id: params.projectId, user_email: query.user_email })
+  },
+  {
+    method: "GET",
+    path: "/v1/projects/{projectId}/subscribers",
+    operationId: "listProjectSubscribers",
+    summary: "Page through a project's subscribers with status, plan and email or address filters",
+    tag: "Subscriptions",
+    target: "/api/get-project-subscribers",
+    query: [
+      { name: "status", schema: { type: "string", enum: SUBSCRIPTION_STATUSES } },
+      { name: "plan_id", schema: { type: "string", minLength: 1 } },
+      { name: "search", schema: { type: "string" } },
+      { name: "page", schema: { type: "string", pattern: "^[1-9]\\d*$" } },
+      { name: "page_size", schema: { type: "string", pattern: "^[1-9]\\d*$" } }
+    ],
+    response: "ProjectSubscriberListResponse",
+    toLegacyBody: ({ params, query }) => ({
+      project_id: params.projectId,
+      status: query.status,
+      plan_id: query.plan_id,
+      search: query.search,
+      page: query.page,
+      page_size: query.page_size
+    })
+  },
+  {
+    method: "GET",
+    path: "/v1/projects/{projectId}/subscribers/{subscriptionId}",
+    operationId: "getProjectSubscriber",
+    summary: "One subscriber of a project with their payment history",
+    tag: "Subscriptions",
+    target: "/api/get-project-subscriber",
+    response: "ProjectSubscriberResponse",
+    toLegacyBody: ({ params }) => ({ project_id: params.projectId, subscription_id: params.subscriptionId })
+  },
+  {
+    method: "GET",
+    path: "/v1/projects/{projectId}/collections/due",
+    operationId: "listDueCollections",
+    summary: "Subscriptions due for renewal with their signed delegations, for a self-hosted collector",
+    tag: "Collections",
+    target: "/api/get-due-collections",
+    query: [{ name: "limit", schema: { type: "string", pattern: "^[1-9]\\d*$" } }],
+    response: "DueCollectionListResponse",
+    toLegacyBody: ({ params, query }) => ({ project_id: params.projectId, limit: query.limit })
+  },
+  {
+    method: "POST",
+    path: "/v1/projects/{projectId}/collections",
+    operationId: "reportCollection",
+    summary: "Record the outcome of a renewal attempted by a self-hosted collector",
+    tag: "Collections",
+    target: "/api/report-collection",
+    body: "CollectionReportRequest",
+    response: "CollectionReportResponse",
+    toLegacyBody: ({ params, body }) => ({ ...body, project_id: params.projectId })
+  },
+  {
+    method: "GET",
+    path: "/v1/subscriptions",
+    operationId: "listSubscriptions",
+    summary: "List the signed-in user's subscriptions",
+    tag: "Subscriptions",
+    target: "/api/get-user-subscriptions",
+    response: "SubscriptionListResponse",
+    toV1Response: (result) => ({ success: true, data: { subscriptions: result.subscriptions || [] } })
+  },
+  {
+    method: "POST",
+    path: "/v1/subscriptions",
+    operationId: "createSubscription",
+    summary: "Record a subscription created on-chain and its first payment",
+    tag: "Subscriptions",
+    target: "/api/create-subscription",
+    body: "CreateSubscriptionRequest",
+    successStatus: 201,
+    response: "CreateSubscriptionResponse"
+  },
+  {
+    method: "GET",
+    path: "/v1/subscriptions/{subscriptionId}",
+    operationId: "getSubscription",
+    summary: "Get one subscription; visible to its subscriber and the project's developer",
+    tag: "Subscriptions",
+    target: "/api/get-subscription",
+    response: "SubscriptionResponse",
+    toLegacyBody: ({ params }) => ({ subscription_id: params.subscriptionId })
+  },
+  {
+    method: "GET",
+    path: "/v1/payments",
+    operationId: "listPayments",
+    summary: "Page through the signed-in user's payments across all subscriptions, newest first",
+    tag: "Subscriptions",
+    target: "/api/get-billing-history",
+    query: [
+      { name: "project_id", schema: { type: "string", minLength: 1 } },
+      { name: "from", schema: { type: "string", pattern: "^\\d+$", description: "Unix seconds, inclusive" } },
+      { name: "to", schema: { type: "string", pattern: "^\\d+$", description: "Unix seconds, inclusive" } },
+      { name: "page", schema: { type: "string", pattern: "^[1-9]\\d*$" } },
+      { name: "page_size", schema: { type: "string", pattern: "^[1-9]\\d*$" } }
+    ],
+    response: "BillingHistoryResponse",
+    toLegacyBody: ({ query }) => ({
+      project_id: query.project_id,
+      from: query.from,
+      to: query.to,
+      page: query.page,
+      page_size: query.page_size
+    })
+  },
+  {
+    method: "POST",
+    path: "/v1/payment-sessions",
+    operationId: "createPaymentSession",
+    summary: "Create a checkout session for a plan",
+    tag: "Payment Sessions",
+    target: "/api/create-payment-session",
+    body: "CreatePaymentSessionRequest",
+    successStatus: 201,
+    response: "PaymentSessionResponse"
+  },
+  {
+    method: "GET",
+    path: "/v1/payment-sessions/{paymentId}",
+    operationId: "getPaymentSession",
+    summary: "Get a checkout session",
+    tag: "Payment Sessions",
+    target: "/api/get-payment-session",
+    public: true,
+    response: "PaymentSessionResponse",
+    toLegacyBody: ({ params }) => ({ payment_id: params.paymentId })
+  },
+  {
+    method: "PATCH",
+    path: "/v1/payment-sessions/{paymentId}",
+    operationId: "updatePaymentSession",
+    summary: "Move a checkout session to a new status; `paid` records the subscription",
+    tag: "Payment Sessions",
+    target: "/api/update-payment-session",
+    body: "UpdatePaymentSessionRequest",
+    response: "PaymentSessionResponse",
+    toLegacyBody: ({ params, body }) => ({ ...body, payment_id: params.paymentId })
+  }
+].map((route) => ({
+  ...route,
+  matcher: new RegExp(`^${route.path.replace(/\{(\w+)\}/g, "(?<$1>[^/]+)")}$`)
+}));
+
+function v1JsonResponse(payload, status, extraHeaders = {}) {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+      ...extraHeaders
+    }
+  });
+}
 
-        const sessionResult = await getPaymentSessionDO(paymentId, env);
-        if (!sessionResult.ok || !sessionResult.data?.success) {
-          return new Response(JSON.stringify(sessionResult.data || { success: false, error: "payment_session_not_found" }), {
-            status: sessionResult.status || 500,
-            headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*"
-            }
-          });
-        }
+// Checks the subset of JSON Schema used in V1_SCHEMAS and returns readable error messages
+function validateV1Value(value, schema, location, errors) {
+  const resolved = schema.$ref
+    ? { ...V1_SCHEMAS[schema.$ref.slice(V1_SCHEMA_REF_PREFIX.length)], nullable: schema.nullable }
+    : schema;
 
-        const session = sessionResult.data.session;
+  if (value === null) {
+    if (!resolved.nullable) errors.push(`${location} must not be null`);
+    return;
+  }
 
-        if (session.status === 'paid') {
-          const sanitized = sanitizePaymentSessionForClient(session)
-          return new Response(JSON.stringify({ success: true, session: sanitized }), {
-            status: 200,
+  switch (resolved.type) {
+    case "object":
+      if (typeof value !== "object" || Array.isArray(value)) {
+        errors.push(`${location} must be an object`);
+        return;
+      }
+      for (const key of resolved.required || []) {
+        if (value[key] === undefined) errors.push(`${location}.${key} is required`);
+      }
+      for (const [key, propertySchema] of Object.entries(resolved.properties || {})) {
+        if (value[key] !== undefined) validateV1Value(value[key], propertySchema, `${location}.${key}`, errors);
+      }
+      return;
+    case "array":
+      if (!Array.isArray(value)) {
+        errors.push(`${location} must be an array`);
+        return;
+      }
+      if (resolved.minItems && value.length < resolved.minItems) {
+        errors.push(`${location} must have at least ${resolved.minItems} item(s)`);
+      }
+      value.forEach((item, index) => validateV1Value(item, resolved.items, `${location}[${index}]`, errors));
+      return;
+    case "integer":
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value) || (resolved.type === "integer" && !Number.isInteger(value))) {
+        errors.push(`${location} must be ${resolved.type === "integer" ? "an integer" : "a number"}`);
+        return;
+      }
+      if (resolved.minimum !== undefined && value < resolved.minimum) {
+        errors.push(`${location} must be at least ${resolved.minimum}`);
+      }
+      break;
+    case "string":
+      if (typeof value !== "string") {
+        errors.push(`${location} must be a string`);
+        return;
+      }
+      if (resolved.minLength && value.length < resolved.minLength) {
+        errors.push(`${location} must be at least ${resolved.minLength} characters`);
+      }
+      if (resolved.pattern && !new RegExp(resolved.pattern).test(value)) {
+        errors.push(`${location} has an invalid format`);
+      }
+      break;
+    case "boolean":
+      if (typeof value !== "boolean") {
+        errors.push(`${location} must be a boolean`);
+        return;
+      }
+      break;
+  }
+
+  if (resolved.enum && !resolved.enum.includes(value)) {
+    errors.push(`${location} must be one of: ${resolved.enum.join(", ")}`);
+  }
+}
+
+function buildOpenApiDocument(serverUrl) {
+  const errorResponse = (description) => ({
+    description,
+    content: { "application/json": { schema: { $ref: `${V1_SCHEMA_REF_PREFIX}Error` } } }
+  });
+
+  const paths = {};
+  for (const route of V1_ROUTES) {
+    const pathParameters = [...route.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: "string" }
+    }));
+    const queryParameters = (route.query || []).map((parameter) => ({
+      name: parameter.name,
+      in: "query",
+      required: Boolean(parameter.required),
+      schema: parameter.schema
+    }));
+
+    paths[route.path] = {
+      ...paths[route.path],
+      [route.method.toLowerCase()]: {
+        operationId: route.operationId,
+        summary: route.summary,
+        tags: [route.tag],
+        security: route.public ? [] : undefined,
+        parameters: [...pathParameters, ...queryParameters],
+        requestBody: route.body
+          ? { required: true, content: { "application/json": { schema: { $ref: `${V1_SCHEMA_REF_PREFIX}${route.body}` } } } }
+          : undefined,
+        responses: {
+          [route.successStatus || 200]: {
+            description: "Success",
+            content: { "application/json": { schema: { $ref: `${V1_SCHEMA_REF_PREFIX}${route.response}` } } }
+          },
+          400: errorResponse("The request failed validation or was rejected"),
+          401: errorResponse("Missing or invalid credentials"),
+          403: errorResponse("The resource belongs to someone else, or the API key lacks its permission"),
+          404: errorResponse("The resource does not exist"),
+          429: {
+            ...errorResponse("Rate limit exceeded; retry after the number of seconds in Retry-After"),
             headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*"
+              "Retry-After": { schema: { type: "integer" } },
+              "X-RateLimit-Limit": { schema: { type: "integer" } },
+              "X-RateLimit-Remaining": { schema: { type: "integer" } },
+              "X-RateLimit-Reset": { description: "Unix seconds when the window resets", schema: { type: "integer" } }
             }
-          })
+          }
         }
+      }
+    };
+  }
 
-        if (statusUpdate === 'paid') {
-          if (!txHash) {
-            return new Response(JSON.stringify({ success: false, error: "missing_tx_hash" }), {
-              status: 400,
-              headers: {
-                "Content-Type": "application/json",
-                "Access-Control-Allow-Origin": "*"
-              }
-            });
-          }
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Autiv API",
+      version: "1.0.0",
+      description: "Subscription payments on Monad. Requests from the dashboard use a Privy JWT; merchant servers use an X-Api-Key header."
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ ApiKeyAuth: [] }, { BearerAuth: [] }],
+    components: {
+      securitySchemes: {
+        ApiKeyAuth: { type: "apiKey", in: "header", name: "X-Api-Key" },
+        BearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" }
+      },
+      schemas: V1_SCHEMAS
+    },
+    paths
+  };
+}
 
-          const startDate = Math.floor(Date.now() / 1000);
-          const subscriptionPayload = {
-            user_email: userEmail,
-            user_wallet_address: session.userWalletAddress,
-            user_smart_account_address: session.userSmartAccountAddress,
-            plan_id: session.contractPlanId,
-            project_id: session.projectId,
-            tx_hash: txHash,
-            start_date: startDate,
-            subscription_manager_address: session.metadata?.subscription_manager_address,
-            amount: session.amount,
-            token_address: session.tokenAddress,
-            payment_date: startDate,
-            delegation_data: session.metadata?.delegation_data || undefined
-          };
+// Validate a /v1 request, run the legacy handler it maps to, and fix up status codes legacy routes
+// report as 200 even on failure
+async function handleV1Request(req, env, ctx) {
+  const url = new URL(req.url);
 
-          const subscriptionResult = await createUserSubscription(env.XATA_API_KEY, subscriptionPayload, env);
-          if (!subscriptionResult.success) {
-            return new Response(JSON.stringify(subscriptionResult), {
-              status: 400,
-              headers: {
-                "Content-Type": "application/json",
-                "Access-Control-Allow-Origin": "*"
-              }
-            });
-          }
+  if (url.pathname === "/v1/openapi.json") {
+    if (req.method !== "GET") {
+      return v1JsonResponse({ success: false, error: "method_not_allowed" }, 405, { Allow: "GET" });
+    }
+    return v1JsonResponse(buildOpenApiDocument(url.origin), 200);
+  }
 
-          const updateResult = await updatePaymentSessionDO({
-            paymentId,
-            status: 'paid',
-            txHash,
-            metadata: {
-              subscription_id: subscriptionResult.subscription_id,
-              payment_id: subscriptionResult.payment_id || null
-            }
-          }, env);
+  const candidates = V1_ROUTES.filter((route) => route.matcher.test(url.pathname));
+  if (candidates.length === 0) {
+    return v1JsonResponse({ success: false, error: "not_found" }, 404);
+  }
 
-          if (!updateResult.ok || !updateResult.data?.success) {
-            return new Response(JSON.stringify(updateResult.data || { success: false, error: "payment_session_update_failed" }), {
-              status: updateResult.status || 500,
-              headers: {
-                "Content-Type": "application/json",
-                "Access-Control-Allow-Origin": "*"
-              }
-            });
-          }
+  const route = candidates.find((candidate) => candidate.method === req.method);
+  if (!route) {
+    return v1JsonResponse({ success: false, error: "method_not_allowed" }, 405, {
+      Allow: candidates.map((candidate) => candidate.method).join(", ")
+    });
+  }
 
-          const sanitized = sanitizePaymentSessionForClient(updateResult.data.session);
-          sanitized.subscriptionId = subscriptionResult.subscription_id;
-          if (subscriptionResult.payment_id) {
-            sanitized.paymentRecordId = subscriptionResult.payment_id;
-          }
-          return new Response(JSON.stringify({ success: true, session: sanitized }), {
-            status: 200,
-            headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*"
-            }
-          });
-        }
+  const params = route.matcher.exec(url.pathname).groups || {};
+  for (const key of Object.keys(params)) {
+    params[key] = decodeURIComponent(params[key]);
+  }
 
-        if (!statusUpdate) {
-          return new Response(JSON.stringify({ success: false, error: "missing_status" }), {
-            status: 400,
-            headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*"
-            }
-          });
-        }
+  let body = {};
+  if (route.body) {
+    try {
+      body = JSON.parse(await req.text() || "null");
+    } catch (e) {
+      return v1JsonResponse({ success: false, error: "invalid_json" }, 400);
+    }
+  }
 
-        const updateResult = await updatePaymentSessionDO({
-          paymentId,
-          status: statusUpdate,
-          txHash,
-          metadata: requestBody.metadata && typeof requestBody.metadata === 'object' ? requestBody.metadata : undefined
-        }, env);
+  const query = Object.fromEntries(url.searchParams.entries());
+  const errors = [];
+  if (route.body) {
+    validateV1Value(body, { $ref: `${V1_SCHEMA_REF_PREFIX}${route.body}` }, "body", errors);
+  }
+  for (const parameter of route.query || []) {
+    if (query[parameter.name] === undefined) {
+      if (parameter.required) errors.push(`query.${parameter.name} is required`);
+    } else {
+      validateV1Value(query[parameter.name], parameter.schema, `query.${parameter.name}`, errors);
+    }
+  }
+  if (route.path.includes("{contractPlanId}") && !/^\d+$/.test(params.contractPlanId)) {
+    errors.push("path.contractPlanId must be an integer");
+  }
+  if (errors.length > 0) {
+    return v1JsonResponse({ success: false, error: "invalid_request", details: errors }, 400);
+  }
 
-        if (!updateResult.ok || !updateResult.data?.success) {
-          return new Response(JSON.stringify(updateResult.data || { success: false, error: "payment_session_update_failed" }), {
-            status: updateResult.status || 500,
-            headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*"
-            }
-          });
-        }
+  // Dashboard requests carry timestamp and nonce in the body; keep them when the body is rebuilt
+  const legacyBody = route.toLegacyBody ? route.toLegacyBody({ params, query, body }) : body;
+  if (body && typeof body === "object") {
+    if (body.timestamp !== undefined) legacyBody.timestamp = body.timestamp;
+    if (body.nonce !== undefined) legacyBody.nonce = body.nonce;
+  }
 
-        return new Response(JSON.stringify({ success: true, session: sanitizePaymentSessionForClient(updateResult.data.session) }), {
-          status: 200,
-          headers: {
-            "Content-Type": "application/json",
-            "Access-Control-Allow-Origin": "*"
-          }
-        });
+  const headers = new Headers(req.headers);
+  headers.set("Content-Type", "application/json");
+  headers.delete("Content-Length");
+  if (route.projectHeader) {
+    headers.set("X-Project-Id", params.projectId);
+  }
+
+  const legacyUrl = new URL(route.target, url);
+  legacyUrl.search = url.search;
+  const legacyResponse = await handleRequest(new Request(legacyUrl, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(legacyBody)
+  }), env, ctx);
+
+  let result;
+  try {
+    result = await legacyResponse.clone().json();
+  } catch (e) {
+    return legacyResponse;
+  }
+
+  // Carry the legacy handler's rate limit headers over to the reshaped response
+  const rateLimitHeaders = Object.fromEntries([...legacyResponse.headers].filter(([name]) =>
+    name.startsWith("x-ratelimit-") || name === "retry-after" || name === "access-control-expose-headers"
+  ));
+
+  const failed = result?.success === false || (!legacyResponse.ok && result?.error);
+  if (failed) {
+    let status = legacyResponse.status;
+    if (status < 400) {
+      status = /not[ _]found/i.test(result.error || "") ? 404 : 400;
+    }
+    return v1JsonResponse({ success: false, ...result }, status, rateLimitHeaders);
+  }
+
+  const status = legacyResponse.ok ? (route.successStatus || 200) : legacyResponse.status;
+  return v1JsonResponse(route.toV1Response ? route.toV1Response(result) : result, status, rateLimitHeaders);
+}
+
+// --- Request handler ---
+async function handleRequest(req, env, ctx) {
+  const url = new URL(req.url);
+  const path = url.pathname;
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Request-Timestamp, X-Request-Nonce, X-User-Email, X-Api-Key, X-Project-Id',
+        'Access-Control-Max-Age': '86400',
+      },
+    });
+  }
+
+  if (path.startsWith("/v1/")) {
+    return handleV1Request(req, env, ctx);
+  }
+
+  // 1. Check for Developer API Key
+  const devApiKey = req.headers.get("X-Api-Key") || url.searchParams.get("api_key");
+  let apiKey = null;
+  if (devApiKey) {
+    const apiKeyResult = await authenticateApiKey(env.XATA_API_KEY, devApiKey, env, ctx);
+    if (!apiKeyResult.success) {
+      // Failed key guesses count against the caller's IP so they can't be tried at full speed
+      const ipRateLimit = await consumeRateLimit(`ip:${getClientIp(req)}`, RATE_LIMITS.ip, env);
+      if (ipRateLimit && !ipRateLimit.allowed) {
+        return rateLimitedResponse(ipRateLimit);
       }
-      case "/api/create-subscription":
-        const createSubData = await newReq.json();
-        const createSubResult = await createUserSubscription(env.XATA_API_KEY, createSubData, env);
-        return new Response(JSON.stringify(createSubResult), {
-          status: createSubResult.success ? 201 : 400,
-          headers: { 
-            "Content-Type": "application/json",
-            "Access-Control-Allow-Origin": "*"
-          },
+      return new Response(JSON.stringify({ success: false, error: apiKeyResult.error }), { 
+        status: 401,
+        headers: { 
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+    apiKey = apiKeyResult.key;
+
+    const routeScope = API_KEY_ROUTE_SCOPES[path];
+    if (!routeScope || (routeScope.permission && !apiKey.permissions.includes(routeScope.permission))) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: "api_key_missing_permission",
+        required_permission: routeScope?.permission || null
+      }), {
+        status: 403,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+  }
+
+  // Rate limit per API key, or per client IP for dashboard and public requests
+  const rateLimit = apiKey
+    ? await consumeRateLimit(`key:${apiKey.id}`, RATE_LIMITS.api_key, env, { meter: true })
+    : await consumeRateLimit(`ip:${getClientIp(req)}`, RATE_LIMITS.ip, env);
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
+  }
+
+  const response = await routeRequest(req, env, ctx, apiKey);
+  return withRateLimitHeaders(response, rateLimit);
+}
+
+// Authenticate dashboard users, apply replay protection and dispatch to the /api/* handlers
+async function routeRequest(req, env, ctx, apiKey) {
+  const url = new URL(req.url);
+  const path = url.pathname;
+  const apiKeyDeveloperId = apiKey?.developerId || null;
+
+  const publicEndpoints = new Set([
+    '/api/get-payment-session'
+  ]);
+
+  const requiresAuth = !apiKey && !publicEndpoints.has(path);
+  let userEmail = null;
+
+  if (requiresAuth) {
+    // 2. Otherwise expect JWT from frontend
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: "Missing or invalid Authorization header" }), { 
+        status: 401,
+        headers: { 
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    const token = authHeader.slice('Bearer '.length);
+
+    // Verify JWT
+    const payload = await verifyPrivyJwt(token, env);
+    if (!payload) {
+      return new Response(JSON.stringify({ error: "Invalid or expired JWT" }), { 
+        status: 401,
+        headers: { 
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    userEmail = extractEmailFromPrivyPayload(payload);
+    if (!userEmail) {
+      return new Response(JSON.stringify({ error: "Unable to extract email from JWT" }), { 
+        status: 400,
+        headers: { 
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+  }
+
+  // Read body once
+  const bodyText = await req.text();
+  let requestBody = {};
+  if (bodyText) {
+    try {
+      requestBody = JSON.parse(bodyText);
+    } catch (e) {
+      // Body is not JSON, that's okay
+    }
+  }
+
+  // Keys scoped to a project can only touch that project
+  const apiKeyProjectId = apiKey ? API_KEY_ROUTE_SCOPES[path].project?.(requestBody, req) : null;
+  if (apiKeyProjectId && !(await apiKeyCanAccessProject(env.XATA_API_KEY, apiKey, apiKeyProjectId, env))) {
+    return new Response(JSON.stringify({ success: false, error: "api_key_project_mismatch" }), {
+      status: 403,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  }
+
+  if (requiresAuth) {
+    // 3. Check timestamp for replay protection (GET requests have no body, so they send headers)
+    const timestamp = requestBody.timestamp || Number(req.headers.get("X-Request-Timestamp")) || Date.now();
+    const now = Date.now();
+    const ACCEPT_WINDOW = 60000; // 60 seconds
+    if (Math.abs(now - timestamp) > ACCEPT_WINDOW) {
+      return new Response(JSON.stringify({ error: "Request expired" }), {
+        status: 401,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    // 4. Check nonce for replay protection
+    const nonce = requestBody.nonce || req.headers.get("X-Request-Nonce");
+    if (nonce) {
+      const seen = await checkNonce(nonce, env);
+      if (seen) {
+        return new Response(JSON.stringify({ error: "Duplicate request detected" }), {
+          status: 409,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*'
+          }
         });
-      case "/api/cancel-subscription":
-        const cancelSubData = await newReq.json();
-        const cancelSubResult = await cancelUserSubscription(env.XATA_API_KEY, cancelSubData, env);
-        return new Response(JSON.stringify(cancelSubResult), {
-          status: cancelSubResult.success ? 200 : 400,
+      }
+
+      // Reserve nonce
+      const reserved = await reserveNonce(nonce, env);
+      if (!reserved) {
+        return new Response(JSON.stringify({ error: "Failed to reserve nonce" }), {
+          status: 500,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*'
+          }
+        });
+      }
+    }
+  }
+
+  // Get developer info if needed
+  let developerId = null;
+  if (requiresAuth && userEmail) {
+    try {
+      const devInfo = await getDeveloperInfo(env.XATA_API_KEY, userEmail, env);
+      if (devInfo.found && devInfo.developer?.id) {
+        developerId = devInfo.developer.id;
+      }
+    } catch (err) {
+      console.warn('Failed to fetch developer info:', err);
+    }
+  }
+
+  // Create a new request with the body text for route handlers
+  const newReq = new Request(req.url, {
+    method: req.method,
+    headers: new Headers({
+      ...Object.fromEntries(req.headers.entries()),
+      'X-User-Email': userEmail || '',
+      'X-Developer-Id': developerId || apiKeyDeveloperId || '',
+    }),
+    body: bodyText || null
+  });
+
+  // Handle routes for frontend
+  switch (path) {
+      case "/api/verify-key":
+        // Invalid keys are rejected before routing
+        const valid = Boolean(apiKey);
+        return new Response(JSON.stringify({ valid }), {
+          status: valid ? 200 : 401,
           headers: { 
             "Content-Type": "application/json",
             "Access-Control-Allow-Origin": "*"
           },
         });
-      case "/api/create-project":
-        const createProjectData = await newReq.json();
-        const createProjectResult = await createProject(env.XATA_API_KEY, createProjectData, env);
-        return new Response(JSON.stringify(createProjectResult), {
-          status: createProjectResult?.success ? 200 : 400,
-          headers: {
+        
+      case "/api/get-user-info":
+        const user_email = newReq.headers.get("X-User-Email");
+        const userInfo = await getUserInfo(env.XATA_API_KEY, user_email, env);
+        if (!userInfo) {
+          return new Response(JSON.stringify({ found: false }), {
+            status: 200,
+            headers: { 
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            },
+          });
+        }
+        return new Response(JSON.stringify({ found: true, user: userInfo }), {
+          status: 200,
+          headers: { 
             "Content-Type": "application/json",
             "Access-Control-Allow-Origin": "*"
-          }
+          },
         });
-      case "/api/get-supported-tokens":
-        const tokensResult = await getSupportedTokens(env.XATA_API_KEY, env);
-        return new Response(JSON.stringify(tokensResult), {
-          status: 200,
-          headers: {
+      case "/api/create-user":
+        const createUserData = await newReq.json();
+        const createdUser = await createUser(env.XATA_API_KEY, createUserData, env);
+        if (!createdUser) {
+          return new Response(JSON.stringify({ error: "Failed to create user" }), {
+            status: 500,
+            headers: { 
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            },
+          });
+        }
+        return new Response(JSON.stringify(createdUser), {
+          status: 201,
+          headers: { 
             "Content-Type": "application/json",
             "Access-Control-Allow-Origin": "*"
-          }
+          },
         });
-      case "/api/create-api-key":
-        const createApiKeyData = await newReq.json();
-        const createApiKeyResult = await createApiKey(env.XATA_API_KEY, createApiKeyData, env);
-        return new Response(JSON.stringify(createApiKeyResult), {
-          status: 200,
+      case "/api/lookup-user-subscriptions": {
+        const { status: lookupStatus, ...lookupResult } = await lookupProjectUserSubscriptions(env.XATA_API_KEY, apiKeyDeveloperId, requestBody, env);
+        return new Response(JSON.stringify(lookupResult), {
+          status: lookupResult.success ? 200 : (lookupStatus || 400),
           headers: {
             "Content-Type": "application/json",
             "Access-Control-Allow-Origin": "*"
           },
         });
-      case "/api/create-subscription-plan":
-        const createPlanData = await newReq.json();
-        const createPlanResult = await createSubscriptionPlan(env.XATA_API_KEY, createPlanData, env);
-        return new Response(JSON.stringify(createPlanResult), {
-          status: 200,
+      }
+      case "/api/get-project-subscribers": {
+        const { status: subscribersStatus, ...subscribersResult } = await getProjectSubscribers(env.XATA_API_KEY, developerId || apiKeyDeveloperId, requestBody, env);
+        return new Response(JSON.stringify(subscribersResult), {
+          status: subscribersResult.success ? 200 : (subscribersStatus || 400),
           headers: {
             "Content-Type": "application/json",
             "Access-Control-Allow-Origin": "*"
           },
         });
-      case "/api/get-project-detailts":
-        const contractInfoProjectId = newReq.headers.get("X-Project-Id");
-        const projectContractInfoResult = await getProjectContractInfo(env.XATA_API_KEY, contractInfoProjectId, env);
-        return new Response(JSON.stringify(projectContractInfoResult), {
-          status: projectContractInfoResult.success ? 200 : 400,
+      }
+      case "/api/get-project-subscriber": {
+        const { status: subscriberStatus, ...subscriberResult } = await getProjectSubscriber(env.XATA_API_KEY, developerId || apiKeyDeveloperId, requestBody, env);
+        return new Response(JSON.stringify(subscriberResult), {
+          status: subscriberResult.success ? 200 : (subscriberStatus || 400),
           headers: {
             "Content-Type": "application/json",
             "Access-Control-Allow-Origin": "*"
           },
         });
-      case "/api/get-project-details":
-        const project_id = newReq.headers.get("X-Project-Id");
-        const projectDetailsResult = await getProjectDetails(env.XATA_API_KEY, project_id, env);
-        return new Response(JSON.stringify(projectDetailsResult), {
-          status: 200,
+      }
+      case "/api/get-due-collections": {
+        const { status: dueStatus, ...dueResult } = await getDueCollections(env.XATA_API_KEY, developerId || apiKeyDeveloperId, requestBody, env);
+        return new Response(JSON.stringify(dueResult), {
+          status: dueResult.success ? 200 : (dueStatus || 400),
           headers: {
             "Content-Type": "application/json",
             "Access-Control-Allow-Origin": "*"
           },
         });
-      case "/api/get-developer-projects":
-        const developerProjectsEmail = newReq.headers.get("X-User-Email");
-        const developerProjectsResult = await getDeveloperProjects(env.XATA_API_KEY, developerProjectsEmail, env);
-        return new Response(JSON.stringify(developerProjectsResult), {
-          status: 200,
+      }
+      case "/api/report-collection": {
+        const { status: reportStatus, ...reportResult } = await reportCollection(env.XATA_API_KEY, developerId || apiKeyDeveloperId, requestBody, env, ctx);
+        return new Response(JSON.stringify(reportResult), {
+          status: reportResult.success ? 200 : (reportStatus || 400),
           headers: {
             "Content-Type": "application/json",
             "Access-Control-Allow-Origin": "*"
           },
         });
-      case "/api/create-developer":
-        const createDeveloperData = await newReq.json();
-        const createDeveloperResult = await createDeveloper(env.XATA_API_KEY, createDeveloperData, env);
-        return new Response(JSON.stringify(createDeveloperResult), {
+      }
+      case "/api/get-invoice": {
+        const { status: invoiceStatus, ...invoiceResult } = await getInvoice(env.XATA_API_KEY, {
+          payment_id: requestBody.payment_id,
+          user_email: newReq.headers.get("X-User-Email"),
+          developer_id: developerId || apiKeyDeveloperId
+        }, env);
+        if (!invoiceResult.success) {
+          return new Response(JSON.stringify(invoiceResult), {
+            status: invoiceStatus || 400,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            },
+          });
+        }
+
+        const invoiceLogo = await fetchInvoiceLogo(invoiceResult.invoice.merchant.logo_url);
+        const invoicePdf = buildInvoicePdf(invoiceResult.invoice, invoiceLogo);
+        const invoiceFilename = invoiceResult.invoice.invoice_number || `payment-${invoiceResult.invoice.payment_id}`;
+        return new Response(invoicePdf, {
           status: 200,
           headers: {
-            "Content-Type": "application/json",
+            "Content-Type": "application/pdf",
+            "Content-Disposition": `attachment; filename="${invoiceFilename}.pdf"`,
             "Access-Control-Allow-Origin": "*"
           },
         });
-      case "/api/get-developer-info":
-        const dev_email = newReq.headers.get("X-User-Email");
-        const developerInfoResult = await getDeveloperInfo(env.XATA_API_KEY, dev_email, env);
-        return new Response(JSON.stringify(developerInfoResult), {
-          status: 200,
+      }
+      case "/api/get-subscription-invoices": {
+        const { status: invoicesStatus, ...invoicesResult } = await getSubscriptionInvoices(
+          env.XATA_API_KEY,
+          newReq.headers.get("X-User-Email"),
+          requestBody.subscription_id,
+          env
+        );
+        return new Response(JSON.stringify(invoicesResult), {
+          status: invoicesResult.success ? 200 : (invoicesStatus || 400),
           headers: {
             "Content-Type": "application/json",
             "Access-Control-Allow-Origin": "*"
           },
         });
-      case "/api/get-developer-api-keys":
-        const dev_email_for_keys = newReq.headers.get("X-User-Email");
-        const apiKeysResult = await getDeveloperApiKeys(env.XATA_API_KEY, dev_email_for_keys, env);
-        return new Response(JSON.stringify(apiKeysResult), {
-          status: 200,
+      }
+      case "/api/get-billing-history": {
+        const { status: billingStatus, ...billingResult } = await getUserBillingHistory(env.XATA_API_KEY, newReq.headers.get("X-User-Email"), requestBody, env);
+        return new Response(JSON.stringify(billingResult), {
+          status: billingResult.success ? 200 : (billingStatus || 400),
           headers: {
             "Content-Type": "application/json",
             "Access-Control-Allow-Origin": "*"
           },
         });
-      case "/api/create-developer-api-key":
-        const createDevApiKeyData = await newReq.json();
-        const createDevApiKeyResult = await createDeveloperApiKey(env.XATA_API_KEY, createDevApiKeyData, env);
-        return new Response(JSON.stringify(createDevApiKeyResult), {
-          status: 200,
+      }
+      case "/api/get-project-analytics": {
+        const { status: analyticsStatus, ...analyticsResult } = await getProjectAnalytics(env.XATA_API_KEY, newReq.headers.get("X-User-Email"), requestBody, env);
+        return new Response(JSON.stringify(analyticsResult), {
+          status: analyticsResult.success ? 200 : (analyticsStatus || 400),
           headers: {
             "Content-Type": "application/json",
             "Access-Control-Allow-Origin": "*"
           },
         });
-      case "/api/get-user-delegation":
-        const delegationData = await newReq.json();
-        const { user_smart_account, subscription_manager_address } = delegationData;
-        const delegationResult = await getUserDelegation(env.XATA_API_KEY, user_smart_account, subscription_manager_address, env);
-        return new Response(JSON.stringify(delegationResult), {
-          status: 200,
+      }
+      case "/api/get-subscription": {
+        const { status: getSubscriptionStatus, ...getSubscriptionResult } = await getSubscriptionById(env.XATA_API_KEY, requestBody.subscription_id, {
+          userEmail,
+          developerId: developerId || apiKeyDeveloperId,
+          projectId: apiKey?.projectId || null
+        }, env);
+        return new Response(JSON.stringify(getSubscriptionResult), {
+          status: getSubscriptionResult.success ? 200 : (getSubscriptionStatus || 400),
           headers: {
             "Content-Type": "application/json",
             "Access-Control-Allow-Origin": "*"
           },
         });
-      default:
-        return new Response("Not Found", { 
-          status: 404,
+      }
+      case "/api/get-user-subscriptions":
+        const user_email_for_subs = newReq.headers.get("X-User-Email");
+        const result = await getUserSubscriptions(env.XATA_API_KEY, user_email_for_subs, env);
+        return new Response(JSON.stringify(result), {
+          status: 200,
+          headers: { 
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      case "/api/create-payment-session": {
+        const projectId = requestBody.project_id || requestBody.projectId;
+        const contractPlanRaw = requestBody.contract_plan_id ?? requestBody.contractPlanId ?? requestBody.plan_id ?? requestBody.planId;
+        const contractPlanId = typeof contractPlanRaw === 'number' ? contractPlanRaw : parseInt(contractPlanRaw, 10);
+        if (!projectId || Number.isNaN(contractPlanId)) {
+          return new Response(JSON.stringify({ success: false, error: "missing_project_or_plan" }), {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            }
+          });
+        }
+
+        const planRecord = await getPlanDetailsForPaymentSession(env.XATA_API_KEY, projectId, contractPlanId, env);
+        if (!planRecord) {
+          return new Response(JSON.stringify({ success: false, error: "plan_not_found" }), {
+            status: 404,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            }
+          });
+        }
+
+        if (planRecord.is_active === false) {
+          return new Response(JSON.stringify({ success: false, error: "plan_archived" }), {
+            status: 409,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            }
+          });
+        }
+
+        const tokenAddress = planRecord.project_id?.supported_token_id?.token_address;
+        const tokenSymbol = planRecord.project_id?.supported_token_id?.symbol;
+        const subscriptionManagerAddress = planRecord.project_id?.subscription_manager_address;
+        if (!tokenAddress || !tokenSymbol || !subscriptionManagerAddress) {
+          return new Response(JSON.stringify({ success: false, error: "plan_missing_token_or_manager" }), {
+            status: 422,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            }
+          });
+        }
+
+        // Renewals are delegated to the project's own collector, so a session can't start without one
+        const agentAddress = planRecord.project_id?.agent_address;
+        if (!agentAddress) {
+          return new Response(JSON.stringify({ success: false, error: "project_missing_agent" }), {
+            status: 422,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            }
+          });
+        }
+
+        const couponCode = requestBody.coupon_code ?? requestBody.couponCode;
+        let coupon = null;
+        if (couponCode) {
+          const couponResult = await getRedeemableCoupon(env.XATA_API_KEY, projectId, couponCode, env);
+          if (!couponResult.success) {
+            return new Response(JSON.stringify({ success: false, error: couponResult.error }), {
+              status: 400,
+              headers: {
+                "Content-Type": "application/json",
+                "Access-Control-Allow-Origin": "*"
+              }
+            });
+          }
+          coupon = couponResult.coupon;
+        }
+
+        const planPrice = typeof planRecord.price === 'number' ? planRecord.price : Number(planRecord.price || 0);
+        const userInfo = await getUserInfo(env.XATA_API_KEY, userEmail, env);
+        const paymentId = generatePaymentSessionId();
+        const now = Date.now();
+        const session = {
+          paymentId,
+          status: 'pending',
+          createdAt: now,
+          updatedAt: now,
+          expiresAt: now + PAYMENT_SESSION_WINDOW_MS,
+          userEmail,
+          projectId,
+          planId: planRecord.id,
+          contractPlanId,
+          planName: planRecord.name,
+          companyName: planRecord.developer_id?.company_name || null,
+          amount: coupon ? applyCouponDiscount(planPrice, coupon) : planPrice,
+          originalAmount: planPrice,
+          coupon: coupon ? {
+            code: coupon.code,
+            codeHash: coupon.code_hash,
+            contractCouponId: coupon.contract_coupon_id,
+            discountType: coupon.discount_type,
+            discountValue: Number(coupon.discount_value),
+            durationCharges: coupon.duration_charges || 0
+          } : null,
+          billingIntervalSeconds: planRecord.period_seconds,
+          billingIntervalText: formatBillingInterval(planRecord.period_seconds),
+          trialPeriodSeconds: Number(planRecord.trial_period_seconds || 0),
+          tokenAddress,
+          tokenSymbol,
+          agentAddress,
+          planDescription: planRecord.description || null,
+          userWalletAddress: userInfo?.wallet_address || null,
+          userSmartAccountAddress: userInfo?.smart_account_address || null,
+          metadata: {
+            projectId,
+            subscription_manager_address: subscriptionManagerAddress
+          }
+        };
+
+        if (requestBody.metadata && typeof requestBody.metadata === 'object') {
+          session.metadata = {
+            ...session.metadata,
+            ...requestBody.metadata,
+          };
+        }
+
+        if (requestBody.delegation_data && typeof requestBody.delegation_data === 'object') {
+          session.metadata = {
+            ...session.metadata,
+            delegation_data: requestBody.delegation_data,
+          };
+        }
+
+        const createResult = await createPaymentSessionDO(session, env);
+        if (!createResult.ok || !createResult.data?.success) {
+          return new Response(JSON.stringify(createResult.data || { success: false, error: "payment_session_create_failed" }), {
+            status: createResult.status || 500,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            }
+          });
+        }
+
+        return new Response(JSON.stringify({ success: true, session: sanitizePaymentSessionForClient(createResult.data.session) }), {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          }
+        });
+      }
+      case "/api/get-payment-session": {
+        const paymentId = requestBody.payment_id || requestBody.paymentId || newReq.headers.get('X-Payment-Id');
+        if (!paymentId) {
+          return new Response(JSON.stringify({ success: false, error: "missing_payment_id" }), {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            }
+          });
+        }
+
+        const sessionResult = await getPaymentSessionDO(paymentId, env);
+        if (!sessionResult.ok || !sessionResult.data?.success) {
+          return new Response(JSON.stringify(sessionResult.data || { success: false, error: "payment_session_not_found" }), {
+            status: sessionResult.status || 500,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            }
+          });
+        }
+
+        const session = sessionResult.data.session;
+        if (!session) {
+          return new Response(JSON.stringify({ success: false, error: "payment_session_not_found" }), {
+            status: 404,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            }
+          });
+        }
+
+        if (userEmail && session.userEmail && session.userEmail !== userEmail) {
+          return new Response(JSON.stringify({ success: false, error: "forbidden" }), {
+            status: 403,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            }
+          });
+        }
+
+        return new Response(JSON.stringify({ success: true, session: sanitizePaymentSessionForClient(session) }), {
+          status: 200,
           headers: {
+            "Content-Type": "application/json",
             "Access-Control-Allow-Origin": "*"
           }
         });
+      }
+      case "/api/update-payment-session": {
+        const paymentId = requestBody.payment_id || requestBody.paymentId;
+        const statusUpdate = requestBody.status;
+        const txHash = requestBody.tx_hash || requestBody.txHash;
+
+        if (!paymentId) {
+          return new Response(JSON.stringify({ success: false, error: "missing_payment_id" }), {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            }
+          });
+        }
+
+        const sessionResult = await getPaymentSessionDO(paymentId, env);
+        if (!sessionResult.ok || !sessionResult.data?.success) {
+          return new Response(JSON.stringify(sessionResult.data || { success: false, error: "payment_session_not_found" }), {
+            status: sessionResult.status || 500,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            }
+          });
+        }
+
+        const session = sessionResult.data.session;
+
+        if (session.status === 'paid') {
+          const sanitized = sanitizePaymentSessionForClient(session)
+          return new Response(JSON.stringify({ success: true, session: sanitized }), {
+            status: 200,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            }
+          })
+        }
+
+        if (statusUpdate === 'paid') {
+          if (!txHash) {
+            return new Response(JSON.stringify({ success: false, error: "missing_tx_hash" }), {
+              status: 400,
+              headers: {
+                "Content-Type": "application/json",
+                "Access-Control-Allow-Origin": "*"
+              }
+            });
+          }
+
+          const startDate = Math.floor(Date.now() / 1000);
+          const subscriptionPayload = {
+            user_email: userEmail,
+            user_wallet_address: session.userWalletAddress,
+            user_smart_account_address: session.userSmartAccountAddress,
+            plan_id: session.contractPlanId,
+            project_id: session.projectId,
+            tx_hash: txHash,
+            start_date: startDate,
+            subscription_manager_address: session.metadata?.subscription_manager_address,
+            amount: session.amount,
+            token_address: session.tokenAddress,
+            payment_date: startDate,
+            delegation_data: session.metadata?.delegation_data || undefined
+          };
+
+          const subscriptionResult = await createUserSubscription(env.XATA_API_KEY, subscriptionPayload, env, ctx);
+          if (!subscriptionResult.success) {
+            return new Response(JSON.stringify(subscriptionResult), {
+              status: 400,
+              headers: {
+                "Content-Type": "application/json",
+                "Access-Control-Allow-Origin": "*"
+              }
+            });
+          }
+
+          const updateResult = await updatePaymentSessionDO({
+            paymentId,
+            status: 'paid',
+            txHash,
+            metadata: {
+              subscription_id: subscriptionResult.subscription_id,
+              payment_id: subscriptionResult.payment_id || null
+            }
+          }, env);
+
+          if (!updateResult.ok || !updateResult.data?.success) {
+            return new Response(JSON.stringify(updateResult.data || { success: false, error: "payment_session_update_failed" }), {
+              status: updateResult.status || 500,
+              headers: {
+                "Content-Type": "application/json",
+                "Access-Control-Allow-Origin": "*"
+              }
+            });
+          }
+
+          await queueWebhookEvent(env.XATA_API_KEY, session.projectId, "payment_session.paid", {
+            payment_session_id: paymentId,
+            subscription_id: subscriptionResult.subscription_id,
+            payment_id: subscriptionResult.payment_id || null,
+            plan_id: session.contractPlanId,
+            amount: session.amount,
+            coupon_code: session.coupon?.code || null,
+            token_symbol: session.tokenSymbol,
+            token_address: session.tokenAddress,
+            tx_hash: txHash
+          }, env, ctx);
+
+          const sanitized = sanitizePaymentSessionForClient(updateResult.data.session);
+          sanitized.subscriptionId = subscriptionResult.subscription_id;
+          if (subscriptionResult.payment_id) {
+            sanitized.paymentRecordId = subscriptionResult.payment_id;
+          }
+          return new Response(JSON.stringify({ success: true, session: sanitized }), {
+            status: 200,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            }
+          });
+        }
+
+        if (!statusUpdate) {
+          return new Response(JSON.stringify({ success: false, error: "missing_status" }), {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            }
+          });
+        }
+
+        const updateResult = await updatePaymentSessionDO({
+          paymentId,
+          status: statusUpdate,
+          txHash,
+          metadata: requestBody.metadata && typeof requestBody.metadata === 'object' ? requestBody.metadata : undefined
+        }, env);
+
+        if (!updateResult.ok || !updateResult.data?.success) {
+          return new Response(JSON.stringify(updateResult.data || { success: false, error: "payment_session_update_failed" }), {
+            status: updateResult.status || 500,
+            headers: {
+              "Content-Type": "application/json",
+              "Access-Control-Allow-Origin": "*"
+            }
+          });
+        }
+
+        return new Response(JSON.stringify({ success: true, session: sanitizePaymentSessionForClient(updateResult.data.session) }), {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          }
+        });
+      }
+      case "/api/create-subscription":
+        const createSubData = await newReq.json();
+        const createSubResult = await createUserSubscription(env.XATA_API_KEY, createSubData, env, ctx);
+        return new Response(JSON.stringify(createSubResult), {
+          status: createSubResult.success ? 201 : 400,
+          headers: { 
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      case "/api/cancel-subscription":
+        const cancelSubData = await newReq.json();
+        const cancelSubResult = await cancelUserSubscription(env.XATA_API_KEY, {
+          ...cancelSubData,
+          user_email: newReq.headers.get("X-User-Email")
+        }, env, ctx);
+        return new Response(JSON.stringify(cancelSubResult), {
+          status: cancelSubResult.success ? 200 : 400,
+          headers: { 
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      case "/api/pause-subscription":
+      case "/api/resume-subscription":
+        const pauseSubData = await newReq.json();
+        const pauseSubResult = await setUserSubscriptionPaused(env.XATA_API_KEY, {
+          ...pauseSubData,
+          user_email: newReq.headers.get("X-User-Email"),
+          paused: path === "/api/pause-subscription"
+        }, env, ctx);
+        return new Response(JSON.stringify(pauseSubResult), {
+          status: pauseSubResult.success ? 200 : 400,
+          headers: { 
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      case "/api/change-subscription-plan":
+        const changePlanData = await newReq.json();
+        const changePlanResult = await changeUserSubscriptionPlan(env.XATA_API_KEY, {
+          ...changePlanData,
+          user_email: newReq.headers.get("X-User-Email")
+        }, env, ctx);
+        return new Response(JSON.stringify(changePlanResult), {
+          status: changePlanResult.success ? 200 : 400,
+          headers: { 
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      case "/api/create-project":
+        const createProjectData = await newReq.json();
+        const createProjectResult = await createProject(env.XATA_API_KEY, createProjectData, env);
+        return new Response(JSON.stringify(createProjectResult), {
+          status: createProjectResult?.success ? 200 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          }
+        });
+      case "/api/get-supported-tokens":
+        const tokensResult = await getSupportedTokens(env.XATA_API_KEY, env);
+        return new Response(JSON.stringify(tokensResult), {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          }
+        });
+      case "/api/create-subscription-plan":
+        const createPlanData = await newReq.json();
+        const createPlanResult = await createSubscriptionPlan(env.XATA_API_KEY, createPlanData, env);
+        return new Response(JSON.stringify(createPlanResult), {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      case "/api/archive-subscription-plan":
+        const archivePlanData = await newReq.json();
+        const archivePlanResult = await setSubscriptionPlanArchived(env.XATA_API_KEY, {
+          ...archivePlanData,
+          developer_id: developerId || apiKeyDeveloperId
+        }, env);
+        return new Response(JSON.stringify(archivePlanResult), {
+          status: archivePlanResult.success ? 200 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      case "/api/get-project-detailts":
+        const contractInfoProjectId = newReq.headers.get("X-Project-Id");
+        const projectContractInfoResult = await getProjectContractInfo(env.XATA_API_KEY, contractInfoProjectId, env);
+        return new Response(JSON.stringify(projectContractInfoResult), {
+          status: projectContractInfoResult.success ? 200 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      case "/api/get-project-details":
+        const project_id = newReq.headers.get("X-Project-Id");
+        const projectDetailsResult = await getProjectDetails(env.XATA_API_KEY, project_id, env);
+        return new Response(JSON.stringify(projectDetailsResult), {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      case "/api/update-project-sweep": {
+        const sweepResult = await updateProjectSweepSettings(env.XATA_API_KEY, {
+          ...requestBody,
+          developer_email: newReq.headers.get("X-User-Email")
+        }, env);
+        return new Response(JSON.stringify(sweepResult), {
+          status: sweepResult.success ? 200 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      case "/api/update-project-dunning": {
+        const dunningResult = await updateProjectDunningSettings(env.XATA_API_KEY, {
+          ...requestBody,
+          developer_email: newReq.headers.get("X-User-Email")
+        }, env);
+        return new Response(JSON.stringify(dunningResult), {
+          status: dunningResult.success ? 200 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      case "/api/update-project-agent": {
+        const agentResult = await updateProjectAgent(env.XATA_API_KEY, {
+          ...requestBody,
+          developer_email: newReq.headers.get("X-User-Email")
+        }, env);
+        return new Response(JSON.stringify(agentResult), {
+          status: agentResult.success ? 200 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      case "/api/record-refund": {
+        const recordRefundResult = await recordRefund(env.XATA_API_KEY, {
+          ...requestBody,
+          developer_email: newReq.headers.get("X-User-Email")
+        }, env, ctx);
+        return new Response(JSON.stringify(recordRefundResult), {
+          status: recordRefundResult.success ? 201 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      case "/api/record-withdrawal": {
+        const recordWithdrawalResult = await recordRevenueWithdrawal(env.XATA_API_KEY, {
+          ...requestBody,
+          developer_email: newReq.headers.get("X-User-Email")
+        }, env);
+        return new Response(JSON.stringify(recordWithdrawalResult), {
+          status: recordWithdrawalResult.success ? 201 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      case "/api/get-project-withdrawals": {
+        const withdrawalsProjectId = newReq.headers.get("X-Project-Id") || requestBody.project_id;
+        const withdrawalsResult = await getProjectWithdrawals(env.XATA_API_KEY, newReq.headers.get("X-User-Email"), withdrawalsProjectId, env);
+        return new Response(JSON.stringify(withdrawalsResult), {
+          status: withdrawalsResult.success ? 200 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      case "/api/create-coupon": {
+        const createCouponResult = await createProjectCoupon(env.XATA_API_KEY, {
+          ...requestBody,
+          developer_email: newReq.headers.get("X-User-Email")
+        }, env);
+        return new Response(JSON.stringify(createCouponResult), {
+          status: createCouponResult.success ? 201 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      case "/api/get-project-coupons": {
+        const couponsProjectId = newReq.headers.get("X-Project-Id") || requestBody.project_id;
+        const projectCouponsResult = await getProjectCoupons(env.XATA_API_KEY, newReq.headers.get("X-User-Email"), couponsProjectId, env);
+        return new Response(JSON.stringify(projectCouponsResult), {
+          status: projectCouponsResult.success ? 200 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      case "/api/deactivate-coupon": {
+        const deactivateCouponResult = await deactivateProjectCoupon(env.XATA_API_KEY, {
+          ...requestBody,
+          developer_email: newReq.headers.get("X-User-Email")
+        }, env);
+        return new Response(JSON.stringify(deactivateCouponResult), {
+          status: deactivateCouponResult.success ? 200 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      case "/api/get-developer-projects":
+        const developerProjectsEmail = newReq.headers.get("X-User-Email");
+        const developerProjectsResult = await getDeveloperProjects(env.XATA_API_KEY, developerProjectsEmail, env);
+        return new Response(JSON.stringify(developerProjectsResult), {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      case "/api/create-developer":
+        const createDeveloperData = await newReq.json();
+        const createDeveloperResult = await createDeveloper(env.XATA_API_KEY, createDeveloperData, env);
+        return new Response(JSON.stringify(createDeveloperResult), {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      case "/api/get-developer-info":
+        const dev_email = newReq.headers.get("X-User-Email");
+        const developerInfoResult = await getDeveloperInfo(env.XATA_API_KEY, dev_email, env);
+        return new Response(JSON.stringify(developerInfoResult), {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      case "/api/get-developer-api-keys":
+        const dev_email_for_keys = newReq.headers.get("X-User-Email");
+        const apiKeysResult = await getDeveloperApiKeys(env.XATA_API_KEY, dev_email_for_keys, env);
+        return new Response(JSON.stringify(apiKeysResult), {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      case "/api/create-api-key":
+      case "/api/create-developer-api-key": {
+        const createDevApiKeyResult = await createDeveloperApiKey(env.XATA_API_KEY, {
+          ...requestBody,
+          developer_email: newReq.headers.get("X-User-Email")
+        }, env);
+        return new Response(JSON.stringify(createDevApiKeyResult), {
+          status: createDevApiKeyResult.success ? 201 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      case "/api/rotate-api-key": {
+        const rotateApiKeyResult = await rotateDeveloperApiKey(env.XATA_API_KEY, {
+          ...requestBody,
+          developer_email: newReq.headers.get("X-User-Email")
+        }, env);
+        return new Response(JSON.stringify(rotateApiKeyResult), {
+          status: rotateApiKeyResult.success ? 201 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      case "/api/revoke-api-key": {
+        const revokeApiKeyResult = await revokeDeveloperApiKey(env.XATA_API_KEY, newReq.headers.get("X-User-Email"), requestBody.api_key_id, env);
+        return new Response(JSON.stringify(revokeApiKeyResult), {
+          status: revokeApiKeyResult.success ? 200 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      case "/api/get-user-delegation":
+        const delegationData = await newReq.json();
+        const { user_smart_account, subscription_manager_address, contract_subscription_id } = delegationData;
+        // Without a manager address, list every active delegation of the signed-in user
+        const delegationResult = subscription_manager_address
+          ? await getUserDelegation(env.XATA_API_KEY, user_smart_account, subscription_manager_address, contract_subscription_id, env)
+          : await listUserDelegations(env.XATA_API_KEY, newReq.headers.get("X-User-Email"), env);
+        return new Response(JSON.stringify(delegationResult), {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      case "/api/revoke-user-delegation": {
+        const revokeDelegationResult = await revokeUserDelegation(env.XATA_API_KEY, newReq.headers.get("X-User-Email"), requestBody.delegation_id, requestBody.tx_hash, env);
+        return new Response(JSON.stringify(revokeDelegationResult), {
+          status: revokeDelegationResult.success ? 200 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      case "/api/create-webhook-endpoint": {
+        const createWebhookResult = await createWebhookEndpoint(env.XATA_API_KEY, {
+          ...requestBody,
+          developer_email: newReq.headers.get("X-User-Email")
+        }, env);
+        return new Response(JSON.stringify(createWebhookResult), {
+          status: createWebhookResult.success ? 201 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      case "/api/get-webhook-endpoints": {
+        const webhookProjectId = newReq.headers.get("X-Project-Id") || requestBody.project_id;
+        const webhookEndpointsResult = await getWebhookEndpoints(env.XATA_API_KEY, newReq.headers.get("X-User-Email"), webhookProjectId, env);
+        return new Response(JSON.stringify(webhookEndpointsResult), {
+          status: webhookEndpointsResult.success ? 200 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      case "/api/delete-webhook-endpoint": {
+        const deleteWebhookResult = await deleteWebhookEndpoint(env.XATA_API_KEY, newReq.headers.get("X-User-Email"), requestBody.endpoint_id, env);
+        return new Response(JSON.stringify(deleteWebhookResult), {
+          status: deleteWebhookResult.success ? 200 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      case "/api/send-test-webhook": {
+        const testWebhookResult = await sendTestWebhook(env.XATA_API_KEY, newReq.headers.get("X-User-Email"), requestBody.endpoint_id, env);
+        return new Response(JSON.stringify(testWebhookResult), {
+          status: testWebhookResult.success ? 200 : 400,
+          headers: {
+            "Content-Type": "application/json",
+            "Access-Control-Allow-Origin": "*"
+          },
+        });
+      }
+      default:
+        return new Response("Not Found", { 
+          status: 404,
+          headers: {
+            "Access-Control-Allow-Origin": "*"
+          }
+        });
+  }
+}
+
+  // --- Xata API Helper ---
+async function xataRequest(endpoint, options = {}, apiKey, env) {
+  const url = `${getConfig(env).DATABASE_URL_HTTPS}/${endpoint}`;
+  const defaultOptions = {
+    headers: {
+      "Authorization": `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+  };
+  const requestOptions = { ...defaultOptions, ...options, headers: { ...defaultOptions.headers, ...options.headers } };
+
+  const response = await fetch(url, requestOptions);
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Xata API Error: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+  return response.json();
+}
+function cleanRecords(records) {
+  if (!Array.isArray(records)) return records;
+  
+  return records.map(record => {
+    const { xata_id, xata, ...cleanRecord } = record;
+    
+    return cleanRecord;
+  });
+}
+
+  
+// --- Verify developer API key ---
+// Resolve an API key to its developer, project scope and permissions; the plaintext key is never stored
+async function authenticateApiKey(xataApiKey, targetApiKey, env, ctx) {
+  if (!targetApiKey) return { success: false, error: "Invalid API key" };
+
+  const keyHash = await hashApiKey(targetApiKey);
+  const response = await xataRequest("tables/api_keys/query", {
+    method: "POST",
+    body: JSON.stringify({
+      columns: ["id", "developer_id", "project_id", "permissions", "expires_at", "last_used_at", "revoked_at", "is_active"],
+      filter: { key_hash: keyHash },
+      page: { size: 1 },
+    }),
+  }, xataApiKey, env);
+
+  const record = response.records[0];
+  if (!record) {
+    return { success: false, error: "Invalid API key" };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (record.revoked_at || record.is_active === false) {
+    return { success: false, error: "api_key_revoked" };
+  }
+  if (record.expires_at && record.expires_at <= now) {
+    return { success: false, error: "api_key_expired" };
+  }
+
+  // Recorded at most once a minute per key so busy integrations don't write on every request
+  if (!record.last_used_at || now - record.last_used_at >= API_KEY_LAST_USED_INTERVAL_SECONDS) {
+    const touch = xataRequest(`tables/api_keys/data/${record.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ last_used_at: now })
+    }, xataApiKey, env).catch((error) => console.warn("Failed to record API key usage:", error));
+    if (ctx?.waitUntil) {
+      ctx.waitUntil(touch);
+    } else {
+      await touch;
+    }
+  }
+
+  return {
+    success: true,
+    key: {
+      id: record.id,
+      developerId: record.developer_id?.id || record.developer_id,
+      projectId: record.project_id?.id || record.project_id || null,
+      permissions: Array.isArray(record.permissions) ? record.permissions : []
+    }
+  };
+}
+
+// Keys without a project (upgraded from plaintext keys) cover every project of their developer
+async function apiKeyCanAccessProject(xataApiKey, apiKey, projectId, env) {
+  if (apiKey.projectId) {
+    return apiKey.projectId === projectId;
+  }
+
+  const response = await xataRequest("tables/projects/query", {
+    method: "POST",
+    body: JSON.stringify({
+      columns: ["id", "developer_id"],
+      filter: { id: projectId },
+      page: { size: 1 }
+    })
+  }, xataApiKey, env);
+
+  const project = response.records[0];
+  return Boolean(project) && (project.developer_id?.id || project.developer_id) === apiKey.developerId;
+}
+
+// --- Get User's Info
+async function getUserInfo(xataApiKey, user_email, env) {
+  if (!user_email) return null;
+
+  const response = await xataRequest("tables/users/query", {
+    method: "POST",
+    body: JSON.stringify({
+      columns: ["id", "wallet_address", "smart_account_address", "email"],
+      filter: { email: user_email },
+      page: { size: 1 },
+    }),
+  }, xataApiKey, env);
+  if (response.records.length === 0) return null;
+  const cleanedRecords = cleanRecords(response.records);
+  return cleanedRecords.length > 0 ? cleanedRecords[0] : null;
+}
+
+// --- Create User Function ---
+async function createUser(xataApiKey, userData, env) {
+  try {
+    const response = await xataRequest("tables/users/data", {
+      method: "POST",
+      body: JSON.stringify({
+        email: userData.email,
+        wallet_address: userData.wallet_address,
+        smart_account_address: userData.smart_account_address || ""
+      })
+    }, xataApiKey, env);
+
+    const cleanedRecord = cleanRecords([response]);
+    return cleanedRecord.length > 0 ? cleanedRecord[0] : null;
+  } catch (error) {
+    console.error("Error creating user:", error);
+    return null;
+  }
+}
+
+// Status as the subscriber experiences it; the stored status lags behind lapsed payments and scheduled cancellations
+function deriveSubscriptionStatus(record, graceEndsAt, currentTime, nextPaymentDate = record.next_payment_date) {
+  if (record.cancelled_at) {
+    const cancellationEffectiveDate = record.next_payment_date || record.cancelled_at;
+    return currentTime >= cancellationEffectiveDate ? "cancelled" : "active";
+  }
+  if (record.status === "paused") {
+    // Paused subscriptions are not billed, so they never lapse into "expired"
+    return "paused";
+  }
+  if (record.status === "past_due") {
+    // The collector is still retrying; access continues until the grace period runs out
+    return currentTime < graceEndsAt ? "past_due" : "expired";
+  }
+  if (nextPaymentDate && currentTime >= nextPaymentDate) {
+    return "expired";
+  }
+  return "active";
+}
+
+async function getUserSubscriptions(xataApiKey, userEmail, env) {
+  if (!userEmail) return { subscriptions: [] };
+
+  // Find user by email
+  const userResponse = await xataRequest("tables/users/query", {
+    method: "POST",
+    body: JSON.stringify({
+      columns: ["id"],
+      filter: { email: userEmail },
+      page: { size: 1 }
+    })
+  }, xataApiKey, env);
+
+  if (userResponse.records.length === 0) {
+    return { subscriptions: [] };
+  }
+  const userId = userResponse.records[0].id;
+
+  // Get the user's subscriptions
+  const response = await xataRequest("tables/user_subscriptions/query", {
+    method: "POST",
+    body: JSON.stringify({
+      columns: [
+        "plan_id",
+        "status",
+        "start_date",
+        "next_payment_date",
+        "last_payment_date",
+        "trial_ends_at",
+        "paused_at",
+        "past_due_since",
+        "next_retry_at",
+        "retry_count",
+        "cancelled_at",
+        "subscription_manager_address",
+        "contract_subscription_id",
+        "plan_id.name",
+        "plan_id.price",
+        "plan_id.contract_plan_id",
+        "plan_id.project_id",
+        "plan_id.developer_id.company_name",
+        "plan_id.project_id.subscription_manager_address",
+        "plan_id.project_id.grace_period_seconds",
+        "plan_id.project_id.supported_token_id.symbol",
+        "plan_id.project_id.supported_token_id.token_address"
+      ],
+      filter: { user_id: userId },
+      page: { size: 50 },
+    }),
+  }, xataApiKey, env);
+
+  const cleanedRecords = cleanRecords(response.records);
+  const currentTime = Math.floor(Date.now() / 1000);
+
+  // Surface why the collector's latest renewal attempt failed for subscriptions in dunning
+  const pastDueIds = cleanedRecords.filter((record) => record.status === "past_due").map((record) => record.id);
+  const lastFailureBySubscription = new Map();
+  if (pastDueIds.length > 0) {
+    const attemptsResponse = await xataRequest("tables/payment_attempts/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["subscription_id", "reason", "amount_due", "attempted_at"],
+        filter: { subscription_id: { $any: pastDueIds }, status: "failed" },
+        sort: { attempted_at: "desc" },
+        page: { size: 100 }
+      })
+    }, xataApiKey, env);
+
+    for (const attempt of attemptsResponse.records || []) {
+      const subscriptionId = attempt.subscription_id?.id || attempt.subscription_id;
+      if (!lastFailureBySubscription.has(subscriptionId)) {
+        lastFailureBySubscription.set(subscriptionId, attempt);
+      }
+    }
+  }
+
+  // Rows carrying an on-chain subscription id are independent subscriptions (a user can hold the
+  // same plan twice, e.g. add-on seats); older rows without one are grouped by plan as before
+  const subscriptionKey = (record) => {
+    if (record.contract_subscription_id !== null && typeof record.contract_subscription_id !== "undefined") {
+      return `${(record.subscription_manager_address || "").toLowerCase()}:${record.contract_subscription_id}`;
+    }
+    return record.plan_id?.id || record.plan_id;
+  };
+
+  // Track latest record per subscription
+  const latestBySubscription = new Map();
+  for (const record of cleanedRecords) {
+    const key = subscriptionKey(record);
+    if (!key) continue;
+
+    const existing = latestBySubscription.get(key);
+    if (!existing || (record.next_payment_date || 0) > (existing.next_payment_date || 0) || record.start_date > existing.start_date) {
+      latestBySubscription.set(key, record);
+    }
+  }
+  
+  // Transform the data to include company name and plan name at the top level (preserve history)
+  const subscriptions = cleanedRecords.map(record => {
+    const latestRecord = latestBySubscription.get(subscriptionKey(record)) || record;
+
+    const nextPaymentDate = latestRecord.next_payment_date ?? record.next_payment_date;
+    const lastPaymentDate = latestRecord.last_payment_date ?? record.last_payment_date;
+
+    const gracePeriodSeconds = record.plan_id?.project_id?.grace_period_seconds ?? DEFAULT_GRACE_PERIOD_SECONDS;
+    const graceEndsAt = record.past_due_since ? record.past_due_since + gracePeriodSeconds : null;
+    const lastFailure = lastFailureBySubscription.get(record.id);
+
+    const actualStatus = !record.cancelled_at && latestRecord.cancelled_at
+      ? "cancelled"
+      : deriveSubscriptionStatus(record, graceEndsAt, currentTime, nextPaymentDate);
+
+    return {
+      id: record.id,
+      plan_id: record.plan_id?.id || record.plan_id,
+      contract_plan_id: record.plan_id?.contract_plan_id ?? null,
+      project_id: record.plan_id?.project_id?.id || record.plan_id?.project_id || null,
+      contract_subscription_id: record.contract_subscription_id ?? null,
+      plan_name: record.plan_id?.name,
+      company_name: record.plan_id?.developer_id?.company_name,
+      status: actualStatus,
+      start_date: record.start_date,
+      next_payment_date: nextPaymentDate,
+      last_payment_date: lastPaymentDate,
+      trial_ends_at: record.trial_ends_at ?? null,
+      paused_at: record.paused_at ?? null,
+      past_due_since: record.past_due_since ?? null,
+      grace_ends_at: graceEndsAt,
+      next_retry_at: record.next_retry_at ?? null,
+      retry_count: record.retry_count ?? 0,
+      last_failure_reason: lastFailure?.reason ?? null,
+      cancelled_at: record.cancelled_at,
+      price: record.plan_id?.price || 0,
+      cancellation_effective_at: record.cancellation_effective_at || nextPaymentDate || record.cancelled_at,
+      subscription_manager_address: record.subscription_manager_address || record.plan_id?.project_id?.subscription_manager_address,
+      token_symbol: record.plan_id?.project_id?.supported_token_id?.symbol || record.plan_id?.token_symbol,
+      token_address: record.plan_id?.project_id?.supported_token_id?.token_address || record.plan_id?.token_address,
+      is_latest: latestRecord === record,
+    };
+  });
+
+  // Sort by start_date descending (latest first)
+  subscriptions.sort((a, b) => b.start_date - a.start_date);
+
+  return { subscriptions };
+}
+
+// One subscription, visible to its subscriber and to the developer who owns its project
+async function getSubscriptionById(xataApiKey, subscriptionId, requester, env) {
+  try {
+    if (!subscriptionId) {
+      return { success: false, error: "Subscription ID required" };
+    }
+
+    const response = await xataRequest("tables/user_subscriptions/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id", "user_id.email", "plan_id.project_id.id", "plan_id.project_id.developer_id"],
+        filter: { id: subscriptionId },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    const record = response.records[0];
+    if (!record) {
+      return { success: false, status: 404, error: "Subscription not found" };
+    }
+
+    const subscriberEmail = record.user_id?.email;
+    const projectDeveloperId = record.plan_id?.project_id?.developer_id?.id || record.plan_id?.project_id?.developer_id;
+    const isSubscriber = Boolean(requester.userEmail) && requester.userEmail === subscriberEmail;
+    const isDeveloper = Boolean(requester.developerId) && requester.developerId === projectDeveloperId;
+    // Project-scoped API keys only see subscriptions of their own project
+    const inKeyProject = !requester.projectId || requester.projectId === record.plan_id?.project_id?.id;
+    if ((!isSubscriber && !isDeveloper) || !inKeyProject) {
+      return { success: false, status: 403, error: "forbidden" };
+    }
+
+    const { subscriptions } = await getUserSubscriptions(xataApiKey, subscriberEmail, env);
+    const subscription = subscriptions.find((item) => item.id === subscriptionId);
+    if (!subscription) {
+      return { success: false, status: 404, error: "Subscription not found" };
+    }
+
+    return { success: true, data: { subscription } };
+  } catch (error) {
+    console.error("Error fetching subscription:", error);
+    return { success: false, status: 500, error: "Failed to fetch subscription" };
+  }
+}
+
+// Server-side lookup of one subscriber's subscriptions in a project owned by the API key's developer
+async function lookupProjectUserSubscriptions(xataApiKey, developerId, lookupData, env) {
+  try {
+    const { project_id, user_email } = lookupData;
+
+    if (!developerId) {
+      return { success: false, status: 401, error: "API key required" };
+    }
+
+    if (!project_id || !user_email) {
+      return { success: false, error: "project_id and user_email are required" };
+    }
+
+    const ownership = await getDeveloperProject(xataApiKey, developerId, project_id, env);
+    if (!ownership.success) {
+      return ownership;
+    }
+
+    const { subscriptions } = await getUserSubscriptions(xataApiKey, user_email, env);
+    return {
+      success: true,
+      data: {
+        subscriptions: subscriptions.filter((subscription) => subscription.project_id === project_id)
+      }
+    };
+  } catch (error) {
+    console.error("Error looking up subscriptions:", error);
+    return { success: false, status: 500, error: "Failed to look up subscriptions" };
+  }
+}
+
+// Resolve a project and make sure it belongs to the developer behind the JWT or API key
+async function getDeveloperProject(xataApiKey, developerId, projectId, env, columns = ["id", "developer_id"]) {
+  if (!developerId) {
+    return { success: false, status: 401, error: "Developer account required" };
+  }
+  if (!projectId) {
+    return { success: false, status: 400, error: "project_id is required" };
+  }
+
+  const projectResponse = await xataRequest("tables/projects/query", {
+    method: "POST",
+    body: JSON.stringify({
+      columns: [...new Set(["id", "developer_id", ...columns])],
+      filter: { id: projectId },
+      page: { size: 1 }
+    })
+  }, xataApiKey, env);
+
+  const project = projectResponse.records[0];
+  if (!project) {
+    return { success: false, status: 404, error: "Project not found" };
+  }
+
+  const projectDeveloperId = project.developer_id?.id || project.developer_id;
+  if (projectDeveloperId !== developerId) {
+    return { success: false, status: 403, error: "Project does not belong to developer" };
+  }
+
+  return { success: true, project };
+}
+
+const PROJECT_SUBSCRIBER_COLUMNS = [
+  "id",
+  "status",
+  "start_date",
+  "next_payment_date",
+  "last_payment_date",
+  "trial_ends_at",
+  "paused_at",
+  "past_due_since",
+  "next_retry_at",
+  "retry_count",
+  "cancelled_at",
+  "contract_subscription_id",
+  "plan_id",
+  "user_id.email",
+  "user_id.wallet_address",
+  "user_id.smart_account_address"
+];
+
+function formatProjectSubscriber(record, plan, gracePeriodSeconds, currentTime) {
+  const graceEndsAt = record.past_due_since ? record.past_due_since + gracePeriodSeconds : null;
+  return {
+    id: record.id,
+    status: deriveSubscriptionStatus(record, graceEndsAt, currentTime),
+    user_email: record.user_id?.email || null,
+    user_wallet_address: record.user_id?.wallet_address || null,
+    user_smart_account: record.user_id?.smart_account_address || null,
+    plan_id: plan?.id || record.plan_id?.id || record.plan_id,
+    plan_name: plan?.name || null,
+    contract_plan_id: plan?.contract_plan_id ?? null,
+    contract_subscription_id: record.contract_subscription_id ?? null,
+    token_symbol: plan?.token_symbol || null,
+    start_date: record.start_date,
+    next_payment_date: record.next_payment_date || null,
+    last_payment_date: record.last_payment_date || null,
+    trial_ends_at: record.trial_ends_at || null,
+    past_due_since: record.past_due_since || null,
+    grace_ends_at: graceEndsAt,
+    retry_count: record.retry_count || 0,
+    cancelled_at: record.cancelled_at || null
+  };
+}
+
+// Payments minus refunds for a set of subscriptions, keyed by subscription id
+async function getLifetimeValues(xataApiKey, subscriptionIds, env) {
+  const totals = new Map();
+  if (subscriptionIds.length === 0) return totals;
+
+  const filter = { subscription_id: { $any: subscriptionIds } };
+  const [payments, refunds] = await Promise.all([
+    queryAllRecords(xataApiKey, "payments", { columns: ["subscription_id", "amount"], filter }, env),
+    queryAllRecords(xataApiKey, "refunds", { columns: ["subscription_id", "amount"], filter }, env)
+  ]);
+  const totalFor = (subscriptionId) =>
+    totals.get(subscriptionId) || { lifetime_value: 0, payments_count: 0, refunded_amount: 0 };
+
+  for (const payment of payments) {
+    const subscriptionId = payment.subscription_id?.id || payment.subscription_id;
+    const current = totalFor(subscriptionId);
+    totals.set(subscriptionId, {
+      ...current,
+      lifetime_value: current.lifetime_value + (payment.amount || 0),
+      payments_count: current.payments_count + 1
+    });
+  }
+  for (const refund of refunds) {
+    const subscriptionId = refund.subscription_id?.id || refund.subscription_id;
+    const current = totalFor(subscriptionId);
+    totals.set(subscriptionId, {
+      ...current,
+      lifetime_value: current.lifetime_value - (refund.amount || 0),
+      refunded_amount: current.refunded_amount + (refund.amount || 0)
+    });
+  }
+  return totals;
+}
+
+// One page of a project's subscribers. Status is derived rather than stored, so filtering and
+// paging happen here instead of in the Xata query.
+async function getProjectSubscribers(xataApiKey, developerId, query, env) {
+  try {
+    const { project_id, status, plan_id } = query;
+    const search = (query.search || "").trim().toLowerCase();
+    const page = Math.max(1, parseInt(query.page, 10) || 1);
+    const pageSize = Math.min(MAX_SUBSCRIBER_PAGE_SIZE, Math.max(1, parseInt(query.page_size, 10) || DEFAULT_SUBSCRIBER_PAGE_SIZE));
+
+    const ownership = await getDeveloperProject(xataApiKey, developerId, project_id, env, ["grace_period_seconds"]);
+    if (!ownership.success) {
+      return ownership;
+    }
+    const gracePeriodSeconds = ownership.project.grace_period_seconds ?? DEFAULT_GRACE_PERIOD_SECONDS;
+
+    const plans = await queryAllRecords(xataApiKey, "subscription_plans", {
+      columns: ["id", "contract_plan_id", "name", "token_symbol", "is_active"],
+      filter: { project_id: project_id }
+    }, env);
+    const plansById = new Map(plans.map((plan) => [plan.id, plan]));
+    const planFilter = plan_id ? [plan_id] : [...plansById.keys()];
+    if (plan_id && !plansById.has(plan_id)) {
+      return { success: false, status: 404, error: "Plan not found in this project" };
+    }
+
+    const records = planFilter.length === 0 ? [] : await queryAllRecords(xataApiKey, "user_subscriptions", {
+      columns: PROJECT_SUBSCRIBER_COLUMNS,
+      filter: { plan_id: { $any: planFilter } },
+      sort: [{ start_date: "desc" }]
+    }, env);
+
+    const currentTime = Math.floor(Date.now() / 1000);
+    const subscribers = records
+      .map((record) => formatProjectSubscriber(record, plansById.get(record.plan_id?.id || record.plan_id), gracePeriodSeconds, currentTime))
+      .filter((subscriber) => !search || [subscriber.user_email, subscriber.user_smart_account, subscriber.user_wallet_address]
+        .some((value) => value && value.toLowerCase().includes(search)));
+
+    // Counts ignore the status filter so the dashboard can show every tab's total
+    const statusCounts = {};
+    for (const subscriber of subscribers) {
+      statusCounts[subscriber.status] = (statusCounts[subscriber.status] || 0) + 1;
+    }
+
+    const filtered = status ? subscribers.filter((subscriber) => subscriber.status === status) : subscribers;
+    const pageRows = filtered.slice((page - 1) * pageSize, page * pageSize);
+    const lifetimeValues = await getLifetimeValues(xataApiKey, pageRows.map((subscriber) => subscriber.id), env);
+
+    return {
+      success: true,
+      data: {
+        subscribers: pageRows.map((subscriber) => ({
+          ...subscriber,
+          ...(lifetimeValues.get(subscriber.id) || { lifetime_value: 0, payments_count: 0, refunded_amount: 0 })
+        })),
+        pagination: {
+          page,
+          page_size: pageSize,
+          total: filtered.length,
+          total_pages: Math.max(1, Math.ceil(filtered.length / pageSize))
+        },
+        status_counts: statusCounts,
+        plans: plans.map((plan) => ({ id: plan.id, name: plan.name, contract_plan_id: plan.contract_plan_id, is_active: plan.is_active !== false }))
+      }
+    };
+  } catch (error) {
+    console.error("Error fetching project subscribers:", error);
+    return { success: false, status: 500, error: "Failed to fetch subscribers" };
+  }
+}
+
+// One subscriber of a project with their full payment history, newest first
+async function getProjectSubscriber(xataApiKey, developerId, query, env) {
+  try {
+    const { project_id, subscription_id } = query;
+    if (!subscription_id) {
+      return { success: false, status: 400, error: "subscription_id is required" };
+    }
+
+    const ownership = await getDeveloperProject(xataApiKey, developerId, project_id, env, ["grace_period_seconds"]);
+    if (!ownership.success) {
+      return ownership;
+    }
+
+    const response = await xataRequest("tables/user_subscriptions/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: [...PROJECT_SUBSCRIBER_COLUMNS, "plan_id.name", "plan_id.contract_plan_id", "plan_id.token_symbol", "plan_id.project_id"],
+        filter: { id: subscription_id },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    const record = response.records[0];
+    const recordProjectId = record?.plan_id?.project_id?.id || record?.plan_id?.project_id;
+    if (!record || recordProjectId !== project_id) {
+      return { success: false, status: 404, error: "Subscriber not found" };
+    }
+
+    const [payments, refunds] = await Promise.all([
+      queryAllRecords(xataApiKey, "payments", {
+        columns: ["id", "amount", "token_symbol", "token_address", "payment_date", "tx_hash", "payment_type", "proration_credit", "invoice_number", "previous_plan_id.name"],
+        filter: { subscription_id: subscription_id },
+        sort: [{ payment_date: "desc" }]
+      }, env),
+      queryAllRecords(xataApiKey, "refunds", {
+        columns: ["id", "payment_id", "amount", "reason", "refunded_at", "tx_hash"],
+        filter: { subscription_id: subscription_id },
+        sort: [{ refunded_at: "desc" }]
+      }, env)
+    ]);
+    const refundsByPayment = new Map();
+    for (const refund of refunds) {
+      const paymentId = refund.payment_id?.id || refund.payment_id;
+      refundsByPayment.set(paymentId, [...(refundsByPayment.get(paymentId) || []), {
+        id: refund.id,
+        amount: refund.amount,
+        reason: refund.reason || null,
+        refunded_at: refund.refunded_at,
+        tx_hash: refund.tx_hash
+      }]);
+    }
+    const refundedAmount = refunds.reduce((sum, refund) => sum + (refund.amount || 0), 0);
+
+    const gracePeriodSeconds = ownership.project.grace_period_seconds ?? DEFAULT_GRACE_PERIOD_SECONDS;
+    const subscriber = formatProjectSubscriber(record, record.plan_id, gracePeriodSeconds, Math.floor(Date.now() / 1000));
+
+    return {
+      success: true,
+      data: {
+        subscriber: {
+          ...subscriber,
+          lifetime_value: payments.reduce((sum, payment) => sum + (payment.amount || 0), 0) - refundedAmount,
+          payments_count: payments.length,
+          refunded_amount: refundedAmount
+        },
+        payments: payments.map((payment) => ({
+          id: payment.id,
+          amount: payment.amount,
+          token_symbol: payment.token_symbol,
+          token_address: payment.token_address,
+          payment_date: payment.payment_date,
+          tx_hash: payment.tx_hash,
+          payment_type: payment.payment_type || "charge",
+          proration_credit: payment.proration_credit ?? null,
+          previous_plan_name: payment.previous_plan_id?.name || null,
+          invoice_number: formatInvoiceNumber(payment.invoice_number),
+          refunds: refundsByPayment.get(payment.id) || [],
+          refunded_amount: (refundsByPayment.get(payment.id) || []).reduce((sum, refund) => sum + refund.amount, 0)
+        }))
+      }
+    };
+  } catch (error) {
+    console.error("Error fetching project subscriber:", error);
+    return { success: false, status: 500, error: "Failed to fetch subscriber" };
+  }
+}
+
+const DUE_COLLECTION_COLUMNS = [
+  "id",
+  "status",
+  "next_payment_date",
+  "next_retry_at",
+  "paused_at",
+  "past_due_since",
+  "retry_count",
+  "contract_subscription_id",
+  "plan_id",
+  "user_id.smart_account_address"
+];
+
+function parseDelegationData(value) {
+  if (typeof value !== "string") {
+    return value || null;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    console.error('Failed to parse delegation_data:', e);
+    return null;
+  }
+}
+
+// Subscriptions a merchant's own collector should renew now, with the delegations it redeems.
+// Mirrors the due query in collect_payment.js, scoped to one project.
+async function getDueCollections(xataApiKey, developerId, query, env) {
+  try {
+    const { project_id } = query;
+    const limit = Math.min(MAX_DUE_COLLECTIONS, Math.max(1, parseInt(query.limit, 10) || MAX_DUE_COLLECTIONS));
+
+    const ownership = await getDeveloperProject(xataApiKey, developerId, project_id, env, [
+      "agent_address",
+      "subscription_manager_address",
+      "supported_token_id.token_address",
+      "supported_token_id.symbol"
+    ]);
+    if (!ownership.success) {
+      return ownership;
+    }
+    const project = ownership.project;
+
+    const plans = await queryAllRecords(xataApiKey, "subscription_plans", {
+      columns: ["id", "contract_plan_id", "name", "price", "period_seconds", "token_address", "token_symbol"],
+      filter: { project_id: project_id }
+    }, env);
+    const plansById = new Map(plans.map((plan) => [plan.id, plan]));
+
+    const now = Math.floor(Date.now() / 1000);
+    const records = plans.length === 0 ? [] : await queryAllRecords(xataApiKey, "user_subscriptions", {
+      columns: DUE_COLLECTION_COLUMNS,
+      filter: {
+        plan_id: { $any: [...plansById.keys()] },
+        status: { $any: ["active", "past_due"] },
+        next_payment_date: { $le: now }
+      },
+      sort: [{ next_payment_date: "asc" }]
+    }, env);
+
+    // Paused subscriptions wait until resumed, and past_due ones until their next scheduled retry
+    const due = records
+      .filter((record) => !record.paused_at && (!record.next_retry_at || record.next_retry_at <= now))
+      .slice(0, limit);
+
+    const delegations = due.length === 0 ? [] : await queryAllRecords(xataApiKey, "user_delegations", {
+      columns: ["subscription_id", "delegation_data", "is_active", "cancelled_at"],
+      filter: { subscription_id: { $any: due.map((record) => record.id) } }
+    }, env);
+    const delegationsBySubscription = new Map(delegations.map((delegation) => [delegation.subscription_id?.id || delegation.subscription_id, delegation]));
+
+    const collections = due.map((record) => {
+      const plan = plansById.get(record.plan_id?.id || record.plan_id) || {};
+      const smartAccount = record.user_id?.smart_account_address || null;
+      const delegation = delegationsBySubscription.get(record.id);
+      return {
+        subscription_id: record.id,
+        contract_subscription_id: record.contract_subscription_id ?? null,
+        contract_plan_id: plan.contract_plan_id ?? null,
+        plan_name: plan.name || null,
+        plan_price: plan.price ?? null,
+        period_seconds: plan.period_seconds ?? null,
+        token_address: project.supported_token_id?.token_address || plan.token_address || null,
+        token_symbol: project.supported_token_id?.symbol || plan.token_symbol || null,
+        status: record.status,
+        next_payment_date: record.next_payment_date,
+        past_due_since: record.past_due_since ?? null,
+        retry_count: record.retry_count || 0,
+        user_smart_account: smartAccount,
+        delegation: delegation ? parseDelegationData(delegation.delegation_data) : null,
+        delegation_active: Boolean(delegation?.is_active && !delegation.cancelled_at)
+      };
+    });
+
+    return {
+      success: true,
+      data: {
+        project_id: project.id,
+        agent_address: project.agent_address || null,
+        subscription_manager_address: project.subscription_manager_address || null,
+        collections
+      }
+    };
+  } catch (error) {
+    console.error("Error fetching due collections:", error);
+    return { success: false, status: 500, error: "Failed to fetch due collections" };
+  }
+}
+
+// Records a renewal attempted by a merchant's own collector. Successes are checked against the
+// PaymentProcessed event; failures move the subscription through dunning like collect_payment.js does.
+async function reportCollection(xataApiKey, developerId, report, env, ctx) {
+  try {
+    const { project_id, subscription_id, outcome, tx_hash } = report;
+    if (!subscription_id) {
+      return { success: false, status: 400, error: "subscription_id is required" };
+    }
+    if (outcome !== "succeeded" && outcome !== "failed") {
+      return { success: false, status: 400, error: "outcome must be succeeded or failed" };
+    }
+    if (outcome === "succeeded" && !tx_hash) {
+      return { success: false, status: 400, error: "tx_hash is required when the renewal succeeded" };
+    }
+
+    const ownership = await getDeveloperProject(xataApiKey, developerId, project_id, env, [
+      "subscription_manager_address",
+      "grace_period_seconds",
+      "retry_interval_seconds",
+      "supported_token_id.token_address",
+      "supported_token_id.symbol"
+    ]);
+    if (!ownership.success) {
+      return ownership;
+    }
+    const project = ownership.project;
+
+    const subscriptionResponse = await xataRequest("tables/user_subscriptions/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: [
+          ...DUE_COLLECTION_COLUMNS,
+          "developer_id",
+          "user_id",
+          "plan_id.project_id",
+          "plan_id.contract_plan_id",
+          "plan_id.period_seconds",
+          "plan_id.token_address",
+          "plan_id.token_symbol"
+        ],
+        filter: { id: subscription_id },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    const subscription = subscriptionResponse.records[0];
+    const subscriptionProjectId = subscription?.plan_id?.project_id?.id || subscription?.plan_id?.project_id;
+    if (!subscription || subscriptionProjectId !== project.id) {
+      return { success: false, status: 404, error: "Subscription not found in this project" };
+    }
+    if (subscription.status !== "active" && subscription.status !== "past_due") {
+      return { success: false, status: 409, error: `Subscription is ${subscription.status}` };
+    }
+
+    const contractPlanId = subscription.plan_id?.contract_plan_id ?? null;
+    const tokenAddress = project.supported_token_id?.token_address || subscription.plan_id?.token_address || null;
+    const tokenSymbol = project.supported_token_id?.symbol || subscription.plan_id?.token_symbol || "TOKEN";
+    const now = Math.floor(Date.now() / 1000);
+
+    if (outcome === "succeeded") {
+      const existingPayment = await xataRequest("tables/payments/query", {
+        method: "POST",
+        body: JSON.stringify({
+          columns: ["id"],
+          filter: { tx_hash: tx_hash },
+          page: { size: 1 }
+        })
+      }, xataApiKey, env);
+      if (existingPayment.records.length > 0) {
+        return {
+          success: true,
+          data: {
+            subscription_id: subscription.id,
+            status: subscription.status,
+            payment_id: existingPayment.records[0].id,
+            next_payment_date: subscription.next_payment_date ?? null,
+            next_retry_at: subscription.next_retry_at ?? null,
+            already_recorded: true
+          }
+        };
+      }
+
+      const rpcUrl = `https://monad-testnet.rpc.hypersync.xyz/${env.HYPERSYNC_API}`;
+      const receipt = await jsonRpcRequest(rpcUrl, "eth_getTransactionReceipt", [tx_hash]);
+      if (!receipt || receipt.status !== "0x1") {
+        return { success: false, status: 422, error: "Transaction not found or failed on blockchain" };
+      }
+
+      const managerAddress = (project.subscription_manager_address || "").toLowerCase();
+      const payment = (receipt.logs || [])
+        .filter((log) => log.address?.toLowerCase() === managerAddress)
+        .map((log) => decodePaymentProcessed(log.topics, log.data))
+        .find((event) => event && event.subscriptionId === subscription.contract_subscription_id);
+      if (!payment) {
+        return { success: false, status: 422, error: "PaymentProcessed event for this subscription not found in transaction" };
+      }
+
+      const periodSeconds = Number(subscription.plan_id?.period_seconds || 0);
+      const nextPaymentDate = periodSeconds > 0 ? payment.timestamp + periodSeconds : null;
+      const amount = formatTokenUnits(payment.amount);
+
+      await xataRequest(`tables/user_subscriptions/data/${subscription.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({
+          last_payment_date: payment.timestamp,
+          next_payment_date: nextPaymentDate,
+          status: "active",
+          past_due_since: null,
+          next_retry_at: null,
+          retry_count: 0
+        })
+      }, xataApiKey, env);
+
+      await xataRequest("tables/payment_attempts/data", {
+        method: "POST",
+        body: JSON.stringify({
+          subscription_id: subscription.id,
+          attempted_at: now,
+          status: "succeeded",
+          amount_due: amount,
+          tx_hash: tx_hash
+        })
+      }, xataApiKey, env);
+
+      const paymentRecord = await xataRequest("tables/payments/data", {
+        method: "POST",
+        body: JSON.stringify({
+          subscription_id: subscription.id,
+          user_id: subscription.user_id?.id || subscription.user_id,
+          developer_id: subscription.developer_id?.id || subscription.developer_id,
+          amount,
+          token_address: tokenAddress,
+          token_symbol: tokenSymbol,
+          payment_date: payment.timestamp,
+          tx_hash: tx_hash
+        })
+      }, xataApiKey, env);
+
+      await queueWebhookEvent(xataApiKey, project.id, "subscription.renewed", {
+        subscription_id: subscription.id,
+        contract_subscription_id: subscription.contract_subscription_id,
+        payment_id: paymentRecord.id,
+        plan_id: contractPlanId,
+        amount,
+        token_address: tokenAddress,
+        token_symbol: tokenSymbol,
+        tx_hash: tx_hash,
+        payment_date: payment.timestamp,
+        next_payment_date: nextPaymentDate
+      }, env, ctx);
+
+      return {
+        success: true,
+        data: {
+          subscription_id: subscription.id,
+          status: "active",
+          payment_id: paymentRecord.id,
+          next_payment_date: nextPaymentDate,
+          next_retry_at: null,
+          already_recorded: false
+        }
+      };
+    }
+
+    // A failure only counts while a renewal is actually due, so reports can't push subscriptions into dunning early
+    if (subscription.paused_at || !subscription.next_payment_date || subscription.next_payment_date > now
+      || (subscription.next_retry_at && subscription.next_retry_at > now)) {
+      return { success: false, status: 409, error: "Subscription is not due for renewal" };
+    }
+
+    const reason = (report.reason || "").trim() || "Renewal failed";
+    const gracePeriodSeconds = project.grace_period_seconds ?? DEFAULT_GRACE_PERIOD_SECONDS;
+    const retryIntervalSeconds = project.retry_interval_seconds ?? DEFAULT_RETRY_INTERVAL_SECONDS;
+    const retryCount = (subscription.retry_count || 0) + 1;
+    const dunningStartedAt = subscription.past_due_since ?? now;
+    const graceEndsAt = dunningStartedAt + gracePeriodSeconds;
+    const graceExpired = now >= graceEndsAt;
+    const nextRetryAt = graceExpired ? null : Math.min(now + retryIntervalSeconds, graceEndsAt);
+    const status = graceExpired ? "expired" : "past_due";
+
+    await xataRequest("tables/payment_attempts/data", {
+      method: "POST",
+      body: JSON.stringify({
+        subscription_id: subscription.id,
+        attempted_at: now,
+        status: "failed",
+        reason,
+        amount_due: report.amount_due ?? null,
+        balance: report.balance ?? null,
+        tx_hash: tx_hash || null
+      })
+    }, xataApiKey, env);
+
+    await xataRequest(`tables/user_subscriptions/data/${subscription.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({
+        status,
+        past_due_since: dunningStartedAt,
+        next_retry_at: nextRetryAt,
+        retry_count: retryCount
+      })
+    }, xataApiKey, env);
+
+    const eventData = {
+      subscription_id: subscription.id,
+      contract_subscription_id: subscription.contract_subscription_id,
+      plan_id: contractPlanId,
+      amount_due: report.amount_due ?? null,
+      balance: report.balance ?? null,
+      token_symbol: tokenSymbol,
+      reason,
+      retry_count: retryCount,
+      past_due_since: dunningStartedAt,
+      grace_ends_at: graceEndsAt
+    };
+    if (graceExpired) {
+      await queueWebhookEvent(xataApiKey, project.id, "subscription.expired", eventData, env, ctx);
+    } else if (subscription.status !== "past_due") {
+      await queueWebhookEvent(xataApiKey, project.id, "subscription.past_due", { ...eventData, next_retry_at: nextRetryAt }, env, ctx);
+    }
+
+    return {
+      success: true,
+      data: {
+        subscription_id: subscription.id,
+        status,
+        payment_id: null,
+        next_payment_date: subscription.next_payment_date,
+        next_retry_at: nextRetryAt,
+        already_recorded: false
+      }
+    };
+  } catch (error) {
+    console.error("Error recording collection:", error);
+    return { success: false, status: 500, error: "Failed to record collection" };
+  }
+}
+
+// Invoices are single-page A4 PDFs drawn with the built-in Helvetica fonts, so no font files are embedded
+const INVOICE_PAGE_WIDTH = 595;
+const INVOICE_PAGE_HEIGHT = 842;
+const MAX_INVOICE_LOGO_BYTES = 512 * 1024;
+const INVOICE_LOGO_TIMEOUT_MS = 5000;
+
+const INVOICE_PAYMENT_COLUMNS = [
+  "id",
+  "amount",
+  "token_symbol",
+  "token_address",
+  "payment_date",
+  "tx_hash",
+  "payment_type",
+  "proration_credit",
+  "invoice_number",
+  "previous_plan_id.name",
+  "user_id.email",
+  "user_id.wallet_address",
+  "user_id.smart_account_address",
+  "developer_id.id",
+  "developer_id.company_name",
+  "developer_id.display_name",
+  "developer_id.email",
+  "developer_id.website_url",
+  "developer_id.logo_url",
+  "subscription_id.plan_id.name",
+  "subscription_id.plan_id.period_seconds",
+  "subscription_id.plan_id.project_id.name"
+];
+
+function formatInvoiceNumber(invoiceNumber) {
+  return invoiceNumber ? `INV-${String(invoiceNumber).padStart(6, "0")}` : null;
+}
+
+// Amounts are stored as decimals; trim float noise from sums like total minus refunds
+function formatInvoiceAmount(value) {
+  return String(Number(Number(value || 0).toFixed(8)));
+}
+
+function formatInvoiceDate(timestamp) {
+  return new Date(timestamp * 1000).toISOString().slice(0, 10);
+}
+
+// The standard fonts are written with WinAnsiEncoding; anything outside printable ASCII is replaced
+function escapePdfText(value) {
+  return String(value ?? "")
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/([\\()])/g, "\\$1");
+}
+
+// Read the pixel size from a JPEG's start-of-frame marker; the bytes are embedded as-is with DCTDecode
+function readJpegSize(bytes) {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    return null;
+  }
+
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null;
+    }
+    const marker = bytes[offset + 1];
+    const segmentLength = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+        components: bytes[offset + 9]
+      };
+    }
+    offset += 2 + segmentLength;
+  }
+  return null;
+}
+
+// Logos are optional: anything that isn't a reachable JPEG leaves the company name on its own
+async function fetchInvoiceLogo(logoUrl) {
+  if (!logoUrl || !/^https:\/\//i.test(logoUrl)) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(logoUrl, { signal: AbortSignal.timeout(INVOICE_LOGO_TIMEOUT_MS) });
+    if (!response.ok) {
+      return null;
+    }
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.length > MAX_INVOICE_LOGO_BYTES) {
+      return null;
+    }
+    const size = readJpegSize(bytes);
+    if (!size || (size.components !== 1 && size.components !== 3) || !size.width || !size.height) {
+      return null;
+    }
+    return { bytes, ...size };
+  } catch (error) {
+    console.warn("Failed to load invoice logo:", error);
+    return null;
+  }
+}
+
+function buildInvoicePdf(invoice, logo) {
+  const encoder = new TextEncoder();
+  const commands = [];
+  const text = (x, y, size, value, bold = false) => {
+    commands.push(`BT /${bold ? "F2" : "F1"} ${size} Tf ${x} ${y} Td (${escapePdfText(value)}) Tj ET`);
+  };
+  const rule = (y) => {
+    commands.push(`0.8 G 1 w 50 ${y} m ${INVOICE_PAGE_WIDTH - 50} ${y} l S`);
+  };
+
+  let headerY = 780;
+  if (logo) {
+    const logoHeight = 48;
+    const logoWidth = Math.min(160, Math.round((logo.width * logoHeight) / logo.height));
+    commands.push(`q ${logoWidth} 0 0 ${logoHeight} 50 ${headerY - logoHeight + 16} cm /Logo Do Q`);
+    headerY -= logoHeight + 4;
+  }
+
+  text(50, headerY, 16, invoice.merchant.name, true);
+  let merchantY = headerY - 16;
+  for (const line of [invoice.merchant.email, invoice.merchant.website_url].filter(Boolean)) {
+    text(50, merchantY, 10, line);
+    merchantY -= 14;
+  }
+
+  text(380, 780, 24, "INVOICE", true);
+  text(380, 756, 10, `Invoice number: ${invoice.invoice_number || "-"}`);
+  text(380, 742, 10, `Date: ${formatInvoiceDate(invoice.payment_date)}`);
+  text(380, 728, 10, `Status: ${invoice.refunded_amount >= invoice.amount ? "Refunded" : "Paid"}`);
+
+  let y = Math.min(merchantY, 700) - 20;
+  text(50, y, 11, "Billed to", true);
+  y -= 16;
+  for (const line of [invoice.customer.email, invoice.customer.wallet_address].filter(Boolean)) {
+    text(50, y, 10, line);
+    y -= 14;
+  }
+
+  y -= 20;
+  text(50, y, 10, "Description", true);
+  text(300, y, 10, "Period", true);
+  text(460, y, 10, "Amount", true);
+  y -= 8;
+  rule(y);
+  y -= 18;
+
+  const description = invoice.payment_type === "proration"
+    ? `${invoice.plan_name} (plan change${invoice.previous_plan_name ? ` from ${invoice.previous_plan_name}` : ""})`
+    : invoice.plan_name;
+  text(50, y, 10, description);
+  text(300, y, 10, invoice.period_end
+    ? `${formatInvoiceDate(invoice.period_start)} - ${formatInvoiceDate(invoice.period_end)}`
+    : `From ${formatInvoiceDate(invoice.period_start)}`);
+  text(460, y, 10, `${formatInvoiceAmount(invoice.amount)} ${invoice.token_symbol}`);
+  y -= 16;
+
+  if (invoice.proration_credit) {
+    text(50, y, 9, `Includes a credit of ${formatInvoiceAmount(invoice.proration_credit)} ${invoice.token_symbol} for unused time`);
+    y -= 16;
+  }
+
+  for (const refund of invoice.refunds) {
+    text(50, y, 10, `Refund on ${formatInvoiceDate(refund.refunded_at)}${refund.reason ? `: ${refund.reason.slice(0, 40)}` : ""}`);
+    text(460, y, 10, `-${formatInvoiceAmount(refund.amount)} ${invoice.token_symbol}`);
+    y -= 16;
+  }
+
+  rule(y + 6);
+  y -= 12;
+  text(300, y, 11, "Total paid", true);
+  text(460, y, 11, `${formatInvoiceAmount(invoice.amount - invoice.refunded_amount)} ${invoice.token_symbol}`, true);
+
+  y -= 40;
+  text(50, y, 11, "Payment details", true);
+  y -= 16;
+  text(50, y, 9, `Token: ${invoice.token_address}`);
+  y -= 14;
+  text(50, y, 9, `Transaction: ${invoice.tx_hash}`);
+  y -= 14;
+  text(50, y, 9, invoice.explorer_url);
+  const linkRect = `50 ${y - 3} ${INVOICE_PAGE_WIDTH - 50} ${y + 10}`;
+
+  text(50, 50, 8, `Paid on-chain on Monad Testnet.${invoice.project_name ? ` Project: ${invoice.project_name}` : ""}`);
+
+  const content = encoder.encode(commands.join("\n"));
+  const resources = `/Font << /F1 4 0 R /F2 5 0 R >>${logo ? " /XObject << /Logo 7 0 R >>" : ""}`;
+  const objects = [
+    ["<< /Type /Catalog /Pages 2 0 R >>"],
+    ["<< /Type /Pages /Kids [3 0 R] /Count 1 >>"],
+    [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${INVOICE_PAGE_WIDTH} ${INVOICE_PAGE_HEIGHT}] /Resources << ${resources} >> /Contents 6 0 R /Annots [<< /Type /Annot /Subtype /Link /Rect [${linkRect}] /Border [0 0 0] /A << /S /URI /URI (${escapePdfText(invoice.explorer_url)}) >> >>] >>`],
+    ["<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"],
+    ["<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"],
+    [`<< /Length ${content.length} >>\nstream\n`, content, "\nendstream"]
+  ];
+  if (logo) {
+    objects.push([
+      `<< /Type /XObject /Subtype /Image /Width ${logo.width} /Height ${logo.height} /ColorSpace /${logo.components === 1 ? "DeviceGray" : "DeviceRGB"} /BitsPerComponent 8 /Filter /DCTDecode /Length ${logo.bytes.length} >>\nstream\n`,
+      logo.bytes,
+      "\nendstream"
+    ]);
+  }
+
+  // The cross-reference table needs the byte offset of every object
+  const chunks = [];
+  const offsets = [];
+  let length = 0;
+  const push = (part) => {
+    const bytes = typeof part === "string" ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  push("%PDF-1.4\n");
+  objects.forEach((parts, index) => {
+    offsets.push(length);
+    push(`${index + 1} 0 obj\n`);
+    parts.forEach(push);
+    push("\nendobj\n");
+  });
+
+  const xrefOffset = length;
+  push(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  push(offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join(""));
+  push(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  }
+  return pdf;
+}
+
+// Load one payment as an invoice. Its subscriber and the merchant who was paid may both read it
+async function getInvoice(xataApiKey, query, env) {
+  try {
+    const { payment_id, user_email, developer_id } = query;
+    if (!payment_id) {
+      return { success: false, status: 400, error: "payment_id is required" };
+    }
+
+    const paymentResponse = await xataRequest("tables/payments/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: INVOICE_PAYMENT_COLUMNS,
+        filter: { id: payment_id },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    const payment = paymentResponse.records[0];
+    const isSubscriber = Boolean(user_email) && payment?.user_id?.email === user_email;
+    const isMerchant = Boolean(developer_id) && payment?.developer_id?.id === developer_id;
+    if (!payment || (!isSubscriber && !isMerchant)) {
+      return { success: false, status: 404, error: "Invoice not found" };
+    }
+
+    const refunds = await queryAllRecords(xataApiKey, "refunds", {
+      columns: ["amount", "reason", "refunded_at", "tx_hash"],
+      filter: { payment_id: payment_id },
+      sort: [{ refunded_at: "asc" }]
+    }, env);
+
+    const plan = payment.subscription_id?.plan_id;
+    const merchant = payment.developer_id || {};
+    const periodSeconds = Number(plan?.period_seconds || 0);
+
+    return {
+      success: true,
+      invoice: {
+        payment_id: payment.id,
+        invoice_number: formatInvoiceNumber(payment.invoice_number),
+        payment_date: payment.payment_date,
+        payment_type: payment.payment_type || "charge",
+        plan_name: plan?.name || "Subscription",
+        previous_plan_name: payment.previous_plan_id?.name || null,
+        project_name: plan?.project_id?.name || null,
+        // A proration charge covers the rest of the current period, whose end isn't stored with it
+        period_start: payment.payment_date,
+        period_end: payment.payment_type !== "proration" && periodSeconds > 0 ? payment.payment_date + periodSeconds : null,
+        amount: payment.amount,
+        proration_credit: payment.proration_credit ?? null,
+        token_symbol: payment.token_symbol || "USDC",
+        token_address: payment.token_address,
+        tx_hash: payment.tx_hash,
+        explorer_url: `https://testnet.monadexplorer.com/tx/${payment.tx_hash}`,
+        refunds: refunds.map((refund) => ({
+          amount: refund.amount,
+          reason: refund.reason || null,
+          refunded_at: refund.refunded_at,
+          tx_hash: refund.tx_hash
+        })),
+        refunded_amount: refunds.reduce((sum, refund) => sum + (refund.amount || 0), 0),
+        merchant: {
+          name: merchant.company_name || merchant.display_name || "Merchant",
+          email: merchant.email || null,
+          website_url: merchant.website_url || null,
+          logo_url: merchant.logo_url || null
+        },
+        customer: {
+          email: payment.user_id?.email || null,
+          wallet_address: payment.user_id?.smart_account_address || payment.user_id?.wallet_address || null
+        }
+      }
+    };
+  } catch (error) {
+    console.error("Error loading invoice:", error);
+    return { success: false, status: 500, error: "Failed to load invoice" };
+  }
+}
+
+// List the caller's own payments on one subscription so they can download its invoices
+async function getSubscriptionInvoices(xataApiKey, userEmail, subscriptionId, env) {
+  try {
+    if (!subscriptionId) {
+      return { success: false, status: 400, error: "subscription_id is required" };
+    }
+
+    const subscriptionResponse = await xataRequest("tables/user_subscriptions/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id", "user_id.email"],
+        filter: { id: subscriptionId },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    const subscription = subscriptionResponse.records[0];
+    if (!userEmail || !subscription || subscription.user_id?.email !== userEmail) {
+      return { success: false, status: 404, error: "Subscription not found" };
+    }
+
+    const payments = await queryAllRecords(xataApiKey, "payments", {
+      columns: ["id", "amount", "token_symbol", "payment_date", "payment_type", "tx_hash", "invoice_number"],
+      filter: { subscription_id: subscriptionId },
+      sort: [{ payment_date: "desc" }]
+    }, env);
+
+    return {
+      success: true,
+      data: {
+        invoices: payments.map((payment) => ({
+          payment_id: payment.id,
+          invoice_number: formatInvoiceNumber(payment.invoice_number),
+          amount: payment.amount,
+          token_symbol: payment.token_symbol,
+          payment_date: payment.payment_date,
+          payment_type: payment.payment_type || "charge",
+          tx_hash: payment.tx_hash
+        }))
+      }
+    };
+  } catch (error) {
+    console.error("Error listing subscription invoices:", error);
+    return { success: false, status: 500, error: "Failed to list invoices" };
+  }
+}
+
+// Every payment the signed-in user has made, newest first, filtered by project and payment date.
+// A user has few enough payments that filtering and paging happen after one read
+async function getUserBillingHistory(xataApiKey, userEmail, query, env) {
+  try {
+    const { project_id } = query;
+    const from = query.from ? parseInt(query.from, 10) : null;
+    const to = query.to ? parseInt(query.to, 10) : null;
+    const page = Math.max(1, parseInt(query.page, 10) || 1);
+    const pageSize = Math.min(MAX_BILLING_HISTORY_PAGE_SIZE, Math.max(1, parseInt(query.page_size, 10) || DEFAULT_BILLING_HISTORY_PAGE_SIZE));
+
+    if (Number.isNaN(from) || Number.isNaN(to) || (from !== null && to !== null && from > to)) {
+      return { success: false, status: 400, error: "from and to must be unix timestamps with from before to" };
+    }
+
+    const emptyPage = { payments: [], pagination: { page, page_size: pageSize, total: 0, total_pages: 1 }, projects: [] };
+    if (!userEmail) {
+      return { success: true, data: emptyPage };
+    }
+
+    const userResponse = await xataRequest("tables/users/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id"],
+        filter: { email: userEmail },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    const user = userResponse.records[0];
+    if (!user) {
+      return { success: true, data: emptyPage };
+    }
+
+    const payments = await queryAllRecords(xataApiKey, "payments", {
+      columns: [
+        "id",
+        "amount",
+        "token_symbol",
+        "token_address",
+        "payment_date",
+        "tx_hash",
+        "payment_type",
+        "invoice_number",
+        "subscription_id.id",
+        "developer_id.company_name",
+        "subscription_id.plan_id.name",
+        "subscription_id.plan_id.project_id.name"
+      ],
+      filter: { user_id: user.id },
+      sort: [{ payment_date: "desc" }]
+    }, env);
+
+    const rows = payments.map((payment) => {
+      const plan = payment.subscription_id?.plan_id;
+      return {
+        id: payment.id,
+        payment_date: payment.payment_date,
+        project_id: plan?.project_id?.id || null,
+        project_name: plan?.project_id?.name || null,
+        company_name: payment.developer_id?.company_name || null,
+        subscription_id: payment.subscription_id?.id || null,
+        plan_name: plan?.name || null,
+        amount: payment.amount,
+        token_symbol: payment.token_symbol || null,
+        token_address: payment.token_address || null,
+        payment_type: payment.payment_type || "charge",
+        tx_hash: payment.tx_hash,
+        invoice_number: formatInvoiceNumber(payment.invoice_number)
+      };
+    });
+
+    // Offered as filter options, so they come from every payment rather than the filtered page
+    const projects = [...new Map(rows
+      .filter((row) => row.project_id)
+      .map((row) => [row.project_id, { id: row.project_id, name: row.project_name, company_name: row.company_name }])).values()];
+
+    const filtered = rows.filter((row) =>
+      (!project_id || row.project_id === project_id) &&
+      (from === null || row.payment_date >= from) &&
+      (to === null || row.payment_date <= to));
+    const pageRows = filtered.slice((page - 1) * pageSize, page * pageSize);
+
+    const refunds = pageRows.length === 0 ? [] : await queryAllRecords(xataApiKey, "refunds", {
+      columns: ["payment_id", "amount"],
+      filter: { payment_id: { $any: pageRows.map((row) => row.id) } }
+    }, env);
+    const refundedByPayment = new Map();
+    for (const refund of refunds) {
+      const paymentId = refund.payment_id?.id || refund.payment_id;
+      refundedByPayment.set(paymentId, (refundedByPayment.get(paymentId) || 0) + (refund.amount || 0));
+    }
+
+    return {
+      success: true,
+      data: {
+        payments: pageRows.map((row) => ({ ...row, refunded_amount: refundedByPayment.get(row.id) || 0 })),
+        pagination: {
+          page,
+          page_size: pageSize,
+          total: filtered.length,
+          total_pages: Math.max(1, Math.ceil(filtered.length / pageSize))
+        },
+        projects
+      }
+    };
+  } catch (error) {
+    console.error("Error fetching billing history:", error);
+    return { success: false, status: 500, error: "Failed to fetch billing history" };
+  }
+}
+
+// Record a refund the project owner sent on-chain, linked to the payment it refunds
+async function recordRefund(xataApiKey, refundData, env, ctx) {
+  try {
+    const { developer_email, project_id, payment_id, tx_hash } = refundData;
+    const reason = typeof refundData.reason === "string" ? refundData.reason.trim().slice(0, 500) : "";
+
+    if (!payment_id || !tx_hash) {
+      return { success: false, error: "payment_id and tx_hash are required" };
+    }
+
+    if (!env.HYPERSYNC_API) {
+      return { success: false, error: "Blockchain verification is not configured" };
+    }
+
+    const ownership = await getOwnedProject(xataApiKey, developer_email, project_id, env);
+    if (!ownership.success) {
+      return ownership;
+    }
+
+    const subscriptionManagerAddress = ownership.project.subscription_manager_address;
+    if (!subscriptionManagerAddress) {
+      return { success: false, error: "Project does not have a subscription manager address configured" };
+    }
+
+    const paymentResponse = await xataRequest("tables/payments/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: [
+          "id",
+          "amount",
+          "tx_hash",
+          "token_address",
+          "token_symbol",
+          "subscription_id.id",
+          "subscription_id.contract_subscription_id",
+          "subscription_id.plan_id.project_id"
+        ],
+        filter: { id: payment_id },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    const payment = paymentResponse.records[0];
+    const paymentProjectId = payment?.subscription_id?.plan_id?.project_id?.id || payment?.subscription_id?.plan_id?.project_id;
+    if (!payment || paymentProjectId !== project_id) {
+      return { success: false, error: "Payment not found" };
+    }
+
+    const existingResponse = await xataRequest("tables/refunds/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id"],
+        filter: { tx_hash: tx_hash },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    if (existingResponse.records.length > 0) {
+      return { success: true, message: "Refund already recorded", refund_id: existingResponse.records[0].id };
+    }
+
+    const rpcUrl = `https://monad-testnet.rpc.hypersync.xyz/${env.HYPERSYNC_API}`;
+    const receipt = await jsonRpcRequest(rpcUrl, "eth_getTransactionReceipt", [tx_hash]);
+
+    if (!receipt || receipt.status !== "0x1") {
+      return { success: false, error: "Transaction not found or failed on blockchain" };
+    }
+
+    const refunded = (receipt.logs || [])
+      .filter((log) => log.address?.toLowerCase() === subscriptionManagerAddress.toLowerCase())
+      .map((log) => decodeRefunded(log.topics, log.data))
+      .find(Boolean);
+
+    if (!refunded) {
+      return { success: false, error: "Refunded event not found in transaction" };
+    }
+
+    if (
+      refunded.subscriptionId !== payment.subscription_id?.contract_subscription_id
+      || refunded.paymentTxHash !== payment.tx_hash.toLowerCase()
+    ) {
+      return { success: false, error: "Refunded event does not match this payment" };
+    }
+
+    // The tokens have already moved, so the refund is recorded even if it exceeds what is left on the
+    // payment; the dashboard caps the amount it offers, and the contract caps it per payment
+    const refund = {
+      payment_id: payment.id,
+      subscription_id: payment.subscription_id.id,
+      developer_id: ownership.developerId,
+      amount: formatTokenUnits(refunded.amount),
+      token_address: payment.token_address,
+      token_symbol: payment.token_symbol,
+      reason: reason || null,
+      refunded_at: refunded.timestamp,
+      tx_hash: tx_hash
+    };
+
+    const refundResponse = await xataRequest("tables/refunds/data", {
+      method: "POST",
+      body: JSON.stringify(refund)
+    }, xataApiKey, env);
+
+    await queueWebhookEvent(xataApiKey, project_id, "payment.refunded", {
+      refund_id: refundResponse.id,
+      payment_id: payment.id,
+      payment_tx_hash: payment.tx_hash,
+      subscription_id: payment.subscription_id.id,
+      contract_subscription_id: refunded.subscriptionId,
+      user_smart_account_address: refunded.user,
+      amount: refund.amount,
+      token_symbol: refund.token_symbol,
+      reason: refund.reason,
+      tx_hash: tx_hash
+    }, env, ctx);
+
+    return {
+      success: true,
+      data: {
+        refund: { id: refundResponse.id, ...refund }
+      }
+    };
+  } catch (error) {
+    console.error("Error recording refund:", error);
+    return { success: false, error: "Failed to record refund" };
+  }
+}
+
+// Record the RevenueWithdrawn events of a withdrawal the project owner sent on-chain
+async function recordRevenueWithdrawal(xataApiKey, withdrawalData, env) {
+  try {
+    const { developer_email, project_id, tx_hash } = withdrawalData;
+
+    if (!tx_hash) {
+      return { success: false, error: "Transaction hash required" };
+    }
+
+    if (!env.HYPERSYNC_API) {
+      return { success: false, error: "Blockchain verification is not configured" };
+    }
+
+    const ownership = await getOwnedProject(xataApiKey, developer_email, project_id, env);
+    if (!ownership.success) {
+      return ownership;
+    }
+
+    const subscriptionManagerAddress = ownership.project.subscription_manager_address;
+    if (!subscriptionManagerAddress) {
+      return { success: false, error: "Project does not have a subscription manager address configured" };
+    }
+
+    const rpcUrl = `https://monad-testnet.rpc.hypersync.xyz/${env.HYPERSYNC_API}`;
+    const receipt = await jsonRpcRequest(rpcUrl, "eth_getTransactionReceipt", [tx_hash]);
+
+    if (!receipt || receipt.status !== "0x1") {
+      return { success: false, error: "Transaction not found or failed on blockchain" };
+    }
+
+    const events = (receipt.logs || [])
+      .filter((log) => log.address?.toLowerCase() === subscriptionManagerAddress.toLowerCase())
+      .map((log) => {
+        const withdrawn = decodeRevenueWithdrawn(log.topics, log.data);
+        return withdrawn && { ...withdrawn, logIndex: parseInt(log.logIndex, 16) || 0 };
+      })
+      .filter(Boolean);
+
+    if (events.length === 0) {
+      return { success: false, error: "RevenueWithdrawn event not found in transaction" };
+    }
+
+    const existing = await queryAllRecords(xataApiKey, "revenue_withdrawals", {
+      columns: ["log_index"],
+      filter: { tx_hash: tx_hash }
+    }, env);
+    const recordedLogs = new Set(existing.map((record) => record.log_index));
+
+    const tokenSymbols = await getProjectTokenSymbols(xataApiKey, project_id, env);
+    const withdrawnAt = Math.floor(Date.now() / 1000);
+    const withdrawals = [];
+    for (const event of events) {
+      if (recordedLogs.has(event.logIndex)) continue;
+
+      const withdrawal = {
+        project_id: project_id,
+        developer_id: ownership.developerId,
+        token_address: event.token,
+        token_symbol: tokenSymbols.get(event.token) || null,
+        amount: formatTokenUnits(event.amount),
+        recipient_address: event.to,
+        source: "manual",
+        withdrawn_at: withdrawnAt,
+        tx_hash: tx_hash,
+        log_index: event.logIndex
+      };
+      const response = await xataRequest("tables/revenue_withdrawals/data", {
+        method: "POST",
+        body: JSON.stringify(withdrawal)
+      }, xataApiKey, env);
+      withdrawals.push({ id: response.id, ...withdrawal });
+    }
+
+    return { success: true, data: { withdrawals } };
+  } catch (error) {
+    console.error("Error recording revenue withdrawal:", error);
+    return { success: false, error: "Failed to record withdrawal" };
+  }
+}
+
+// A project's withdrawals, newest first
+async function getProjectWithdrawals(xataApiKey, developerEmail, projectId, env) {
+  try {
+    const ownership = await getOwnedProject(xataApiKey, developerEmail, projectId, env);
+    if (!ownership.success) {
+      return ownership;
+    }
+
+    const response = await xataRequest("tables/revenue_withdrawals/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id", "token_address", "token_symbol", "amount", "recipient_address", "source", "withdrawn_at", "tx_hash"],
+        filter: { project_id: projectId },
+        sort: [{ withdrawn_at: "desc" }],
+        page: { size: MAX_WITHDRAWAL_HISTORY }
+      })
+    }, xataApiKey, env);
+
+    return { success: true, data: { withdrawals: response.records || [] } };
+  } catch (error) {
+    console.error("Error fetching withdrawals:", error);
+    return { success: false, error: "Failed to fetch withdrawals" };
+  }
+}
+
+// Lower-cased token address -> symbol for the tokens a project's plans are priced in
+async function getProjectTokenSymbols(xataApiKey, projectId, env) {
+  const plans = await queryAllRecords(xataApiKey, "subscription_plans", {
+    columns: ["token_address", "token_symbol"],
+    filter: { project_id: projectId }
+  }, env);
+  return new Map(plans
+    .filter((plan) => plan.token_address)
+    .map((plan) => [plan.token_address.toLowerCase(), plan.token_symbol]));
+}
+
+// Fetch every matching record, following Xata's cursor; later pages must only send the cursor
+async function queryAllRecords(xataApiKey, table, query, env) {
+  const records = [];
+  let body = { ...query, page: { size: XATA_QUERY_PAGE_SIZE } };
+
+  for (let page = 0; page < XATA_QUERY_MAX_PAGES; page++) {
+    const response = await xataRequest(`tables/${table}/query`, {
+      method: "POST",
+      body: JSON.stringify(body)
+    }, xataApiKey, env);
+
+    records.push(...(response.records || []));
+    if (!response.meta?.page?.more) {
+      return records;
+    }
+    body = { columns: query.columns, page: { after: response.meta.page.cursor, size: XATA_QUERY_PAGE_SIZE } };
+  }
+
+  console.warn(`Stopped reading ${table} after ${XATA_QUERY_MAX_PAGES} pages`);
+  return records;
+}
+
+function startOfAnalyticsBucket(timestamp, bucket) {
+  const date = new Date(timestamp * 1000);
+  if (bucket === "month") {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / 1000;
+  }
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) / 1000;
+  // Weeks start on Monday
+  return bucket === "week" ? day - ((date.getUTCDay() + 6) % 7) * 86400 : day;
+}
+
+function nextAnalyticsBucket(start, bucket) {
+  if (bucket === "month") {
+    const date = new Date(start * 1000);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1) / 1000;
+  }
+  return start + (bucket === "week" ? 7 : 1) * 86400;
+}
+
+// When a subscription stopped counting as active, or null while it still does; mirrors the status rules in getUserSubscriptions
+function getSubscriptionEndedAt(record, gracePeriodSeconds, now) {
+  let endedAt = null;
+  if (record.cancelled_at) {
+    endedAt = record.next_payment_date || record.cancelled_at;
+  } else if (record.status === "paused") {
+    return null;
+  } else if (record.status === "past_due" && record.past_due_since) {
+    endedAt = record.past_due_since + gracePeriodSeconds;
+  } else if (record.next_payment_date) {
+    endedAt = record.next_payment_date;
+  }
+  return endedAt !== null && endedAt <= now ? endedAt : null;
+}
+
+function addTokenAmount(totals, tokenSymbol, amount) {
+  totals[tokenSymbol] = (totals[tokenSymbol] || 0) + amount;
+}
+
+// MRR, subscriber counts, churn and revenue for one project, bucketed over the requested range.
+// MRR uses each subscription's current plan at list price, normalized to 30 days; trials contribute nothing.
+async function getProjectAnalytics(xataApiKey, developerEmail, analyticsData, env) {
+  try {
+    const { project_id } = analyticsData;
+    const range = analyticsData.range || "30d";
+    const rangeConfig = ANALYTICS_RANGES[range];
+    if (!rangeConfig) {
+      return { success: false, error: `range must be one of: ${Object.keys(ANALYTICS_RANGES).join(", ")}` };
+    }
+
+    const ownership = await getOwnedProject(xataApiKey, developerEmail, project_id, env);
+    if (!ownership.success) {
+      return { success: false, status: ownership.error === "Project not found" ? 404 : 403, error: ownership.error };
+    }
+
+    const projectResponse = await xataRequest("tables/projects/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id", "grace_period_seconds", "supported_token_id.symbol", "supported_token_id.token_address"],
+        filter: { id: project_id },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+    const project = projectResponse.records[0];
+    const gracePeriodSeconds = project?.grace_period_seconds ?? DEFAULT_GRACE_PERIOD_SECONDS;
+    const defaultTokenSymbol = project?.supported_token_id?.symbol || "TOKEN";
+
+    const plans = await queryAllRecords(xataApiKey, "subscription_plans", {
+      columns: ["id", "contract_plan_id", "name", "price", "period_seconds", "token_symbol", "token_address", "is_active"],
+      filter: { project_id: project_id }
+    }, env);
+    const plansById = new Map(plans.map((plan) => [plan.id, plan]));
+
+    const subscriptions = plans.length === 0 ? [] : await queryAllRecords(xataApiKey, "user_subscriptions", {
+      columns: ["id", "plan_id", "status", "start_date", "next_payment_date", "last_payment_date", "trial_ends_at", "paused_at", "past_due_since", "cancelled_at"],
+      filter: { plan_id: { $any: [...plansById.keys()] } }
+    }, env);
+    const subscriptionIds = new Set(subscriptions.map((record) => record.id));
+
+    // Payments are only linked to the developer, so narrow them to this project's subscriptions here
+    const payments = subscriptions.length === 0 ? [] : (await queryAllRecords(xataApiKey, "payments", {
+      columns: ["id", "subscription_id", "amount", "token_symbol", "token_address", "payment_date"],
+      filter: { developer_id: ownership.developerId }
+    }, env)).filter((payment) => subscriptionIds.has(payment.subscription_id?.id || payment.subscription_id));
+
+    const now = Math.floor(Date.now() / 1000);
+    const earliest = Math.min(
+      ...subscriptions.map((record) => record.start_date || now),
+      ...payments.map((payment) => payment.payment_date || now),
+      now
+    );
+    const rangeStart = rangeConfig.days ? now - rangeConfig.days * 86400 : earliest;
+    const bucket = rangeConfig.bucket;
+
+    const tracked = subscriptions.map((record) => {
+      const plan = plansById.get(record.plan_id?.id || record.plan_id) || {};
+      return {
+        record,
+        plan,
+        tokenSymbol: plan.token_symbol || defaultTokenSymbol,
+        endedAt: getSubscriptionEndedAt(record, gracePeriodSeconds, now),
+        monthlyAmount: plan.period_seconds > 0 ? (plan.price || 0) * MRR_MONTH_SECONDS / plan.period_seconds : 0
+      };
+    });
+
+    const isActiveAt = (item, timestamp) => {
+      const { record } = item;
+      if (!record.start_date || record.start_date > timestamp) return false;
+      if (item.endedAt !== null && timestamp >= item.endedAt) return false;
+      return !(record.status === "paused" && record.paused_at && timestamp >= record.paused_at);
+    };
+    const isTrialingAt = (item, timestamp) => Boolean(item.record.trial_ends_at) && timestamp < item.record.trial_ends_at;
+
+    const mrrAt = (timestamp) => {
+      const totals = {};
+      for (const item of tracked) {
+        if (isActiveAt(item, timestamp) && !isTrialingAt(item, timestamp)) {
+          addTokenAmount(totals, item.tokenSymbol, item.monthlyAmount);
+        }
+      }
+      return totals;
+    };
+
+    const series = [];
+    for (let start = startOfAnalyticsBucket(rangeStart, bucket); start <= now; start = nextAnalyticsBucket(start, bucket)) {
+      const end = nextAnalyticsBucket(start, bucket);
+      const pointInTime = Math.min(end, now);
+      const revenue = {};
+      let paymentCount = 0;
+      for (const payment of payments) {
+        if (payment.payment_date >= start && payment.payment_date < end) {
+          addTokenAmount(revenue, payment.token_symbol || defaultTokenSymbol, payment.amount || 0);
+          paymentCount++;
+        }
+      }
+
+      series.push({
+        start,
+        end,
+        new_subscriptions: tracked.filter((item) => item.record.start_date >= start && item.record.start_date < end).length,
+        cancellations: tracked.filter((item) => item.record.cancelled_at >= start && item.record.cancelled_at < end).length,
+        churned: tracked.filter((item) => item.endedAt !== null && item.endedAt >= start && item.endedAt < end).length,
+        active_subscribers: tracked.filter((item) => isActiveAt(item, pointInTime)).length,
+        mrr: mrrAt(pointInTime),
+        revenue,
+        payments: paymentCount
+      });
+    }
+
+    const inRange = (timestamp) => Boolean(timestamp) && timestamp >= rangeStart && timestamp <= now;
+    const activeAtStart = tracked.filter((item) => isActiveAt(item, rangeStart)).length;
+    const churned = tracked.filter((item) => inRange(item.endedAt)).length;
+
+    const revenueInRange = {};
+    const revenueAllTime = {};
+    const planStats = new Map(plans.map((plan) => [plan.id, { revenue: 0, payments: 0 }]));
+    const subscriptionPlanIds = new Map(tracked.map((item) => [item.record.id, item.plan.id]));
+    const tokenAddresses = {};
+    for (const payment of payments) {
+      const tokenSymbol = payment.token_symbol || defaultTokenSymbol;
+      tokenAddresses[tokenSymbol] = tokenAddresses[tokenSymbol] || payment.token_address || null;
+      addTokenAmount(revenueAllTime, tokenSymbol, payment.amount || 0);
+      if (!inRange(payment.payment_date)) continue;
+      addTokenAmount(revenueInRange, tokenSymbol, payment.amount || 0);
+      const stats = planStats.get(subscriptionPlanIds.get(payment.subscription_id?.id || payment.subscription_id));
+      if (stats) {
+        stats.revenue += payment.amount || 0;
+        stats.payments++;
+      }
+    }
+
+    const currentMrr = mrrAt(now);
+    const planBreakdown = plans.map((plan) => {
+      const planSubscriptions = tracked.filter((item) => item.plan.id === plan.id);
+      const active = planSubscriptions.filter((item) => isActiveAt(item, now));
+      return {
+        plan_id: plan.id,
+        contract_plan_id: plan.contract_plan_id,
+        name: plan.name,
+        token_symbol: plan.token_symbol || defaultTokenSymbol,
+        is_active: plan.is_active !== false,
+        active_subscribers: active.length,
+        mrr: active.filter((item) => !isTrialingAt(item, now)).reduce((sum, item) => sum + item.monthlyAmount, 0),
+        revenue: planStats.get(plan.id).revenue,
+        payments: planStats.get(plan.id).payments
+      };
+    });
+
+    const tokenSymbols = new Set([...Object.keys(revenueAllTime), ...Object.keys(currentMrr)]);
+    const tokenBreakdown = [...tokenSymbols].map((tokenSymbol) => ({
+      token_symbol: tokenSymbol,
+      token_address: tokenAddresses[tokenSymbol] || (tokenSymbol === defaultTokenSymbol ? project?.supported_token_id?.token_address || null : null),
+      mrr: currentMrr[tokenSymbol] || 0,
+      revenue: revenueInRange[tokenSymbol] || 0,
+      revenue_all_time: revenueAllTime[tokenSymbol] || 0
+    }));
+
+    return {
+      success: true,
+      data: {
+        project_id,
+        range,
+        bucket,
+        start: rangeStart,
+        end: now,
+        summary: {
+          mrr: currentMrr,
+          active_subscribers: tracked.filter((item) => isActiveAt(item, now)).length,
+          trialing_subscribers: tracked.filter((item) => isActiveAt(item, now) && isTrialingAt(item, now)).length,
+          past_due_subscribers: tracked.filter((item) => isActiveAt(item, now) && item.record.status === "past_due").length,
+          paused_subscribers: tracked.filter((item) => item.record.status === "paused" && item.endedAt === null).length,
+          new_subscriptions: tracked.filter((item) => inRange(item.record.start_date)).length,
+          cancellations: tracked.filter((item) => inRange(item.record.cancelled_at)).length,
+          churned,
+          // Share of subscribers active at the start of the range who stopped being active during it
+          churn_rate: activeAtStart > 0 ? tracked.filter((item) => isActiveAt(item, rangeStart) && inRange(item.endedAt)).length / activeAtStart : null,
+          revenue: revenueInRange,
+          revenue_all_time: revenueAllTime
+        },
+        series,
+        plans: planBreakdown,
+        tokens: tokenBreakdown
+      }
+    };
+  } catch (error) {
+    console.error("Error computing project analytics:", error);
+    return { success: false, status: 500, error: "Failed to load analytics" };
+  }
+}
+
+// Create a new user subscription and record payment in single transaction
+async function createUserSubscription(xataApiKey, subscriptionData, env, ctx) {
+  try {
+    const { 
+      user_email, 
+      user_wallet_address, 
+      user_smart_account_address,
+      plan_id, // contract_plan_id (0, 1, 2)
+      project_id,
+      tx_hash, 
+      start_date,
+      subscription_manager_address,
+      // Payment data
+      amount,
+      token_address,
+      payment_date,
+      // On-chain subscription id (optional) - read from the SubscriptionCreated event when tx_hash is verified
+      contract_subscription_id,
+      // Delegation data (optional) - contains both approve and processPayment delegations
+      delegation_data
+    } = subscriptionData;
+
+    if (!token_address) {
+      return { success: false, error: "Token address is required" };
+    }
+
+    // OPTIMIZATION: Run independent queries in parallel
+    const [userResponse, existingTxResponse, planResponse] = await Promise.all([
+      // Query 1: Find user by email
+      xataRequest("tables/users/query", {
+        method: "POST",
+        body: JSON.stringify({
+          columns: ["id"],
+          filter: { email: user_email },
+          page: { size: 1 }
+        })
+      }, xataApiKey, env),
+      
+      // Query 2: Check if transaction hash was already processed (if provided)
+      tx_hash ? xataRequest("tables/payments/query", {
+        method: "POST",
+        body: JSON.stringify({
+          columns: [
+            "id",
+            "subscription_id"
+          ],
+          filter: { tx_hash: tx_hash },
+          page: { size: 1 }
+        })
+      }, xataApiKey, env) : Promise.resolve({ records: [] }),
+      
+      // Query 3: Lookup subscription plan by contract_plan_id + project_id
+      // Include project's subscription_manager_address for verification
+      xataRequest("tables/subscription_plans/query", {
+        method: "POST",
+        body: JSON.stringify({
+          columns: [
+            "id",
+            "developer_id",
+            "project_id",
+            "period_seconds",
+            "trial_period_seconds",
+            "project_id.subscription_manager_address",
+            "project_id.supported_token_id.token_address",
+            "project_id.supported_token_id.symbol"
+          ],
+          filter: { 
+            contract_plan_id: parseInt(plan_id),
+            project_id: project_id
+          },
+          page: { size: 1 }
+        })
+      }, xataApiKey, env)
+    ]);
+
+    // Validate user exists
+    if (userResponse.records.length === 0) {
+      return { success: false, error: "User not found" };
+    }
+    const userId = userResponse.records[0].id;
+
+    // Check for duplicate transaction
+    if (tx_hash && existingTxResponse.records.length > 0) {
+      const existingPayment = existingTxResponse.records[0]
+      const existingSubscriptionId = existingPayment.subscription_id?.id
+        || existingPayment.subscription_id?.xata_id
+        || existingPayment.subscription_id
+        || null
+      return {
+        success: true,
+        message: "Transaction already processed",
+        subscription_id: existingSubscriptionId,
+        payment_id: existingPayment.id
+      }
+    }
+
+    // Validate plan exists
+    if (planResponse.records.length === 0) {
+      return { success: false, error: `Subscription plan not found for contract_plan_id: ${plan_id} in project: ${project_id}` };
+    }
+    
+    const plan = planResponse.records[0];
+    const projectSubscriptionManager = plan.project_id?.subscription_manager_address;
+    const projectSupportedTokenAddress = plan.project_id?.supported_token_id?.token_address;
+    const projectSupportedTokenSymbol = plan.project_id?.supported_token_id?.symbol;
+
+    if (!projectSubscriptionManager) {
+      return { success: false, error: "Project does not have a subscription manager address configured" };
+    }
+
+    if (!projectSupportedTokenAddress) {
+      return { success: false, error: "Project does not have a supported token configured" };
+    }
+
+    if (token_address.toLowerCase() !== projectSupportedTokenAddress.toLowerCase()) {
+      return { success: false, error: "Token address does not match project's supported token" };
+    }
+    
+    let contractSubscriptionId = contract_subscription_id !== undefined && contract_subscription_id !== null
+      ? parseInt(contract_subscription_id)
+      : null;
+    let contractCouponId = null;
+
+    // Verify transaction on blockchain (if tx_hash provided)
+    if (tx_hash && env.HYPERSYNC_API) {
+      const verification = await verifyBlockchainTransaction(
+        tx_hash, 
+        user_wallet_address,
+        user_smart_account_address,
+        plan_id,
+        projectSubscriptionManager,
+        env
+      );
+      
+      if (!verification.valid) {
+        return { 
+          success: false, 
+          error: `Blockchain verification failed: ${verification.error}` 
+        };
+      }
+
+      if (verification.subscriptionId !== null) {
+        contractSubscriptionId = verification.subscriptionId;
+      }
+      contractCouponId = verification.couponId;
+    }
+    // Plans with a free trial are not charged at signup; the first charge is due when the trial ends
+    const trialPeriodSeconds = Number(plan.trial_period_seconds || 0);
+    const trialEndsAt = trialPeriodSeconds > 0 ? start_date + trialPeriodSeconds : null;
+    const nextPaymentDate = trialEndsAt ?? start_date + plan.period_seconds;
+    const actualPlanId = plan.id;
+    
+    // Extract developer_id
+    const developerId = plan.developer_id?.id || plan.developer_id;
+    
+    if (!developerId) {
+      return { success: false, error: "Plan does not have a valid developer_id" };
+    }
+
+    // A subscriber may hold several subscriptions on the same contract, so only the
+    // on-chain subscription id identifies a duplicate submission
+    if (contractSubscriptionId !== null) {
+      const existingSubResponse = await xataRequest("tables/user_subscriptions/query", {
+        method: "POST",
+        body: JSON.stringify({
+          columns: ["id"],
+          filter: {
+            subscription_manager_address: subscription_manager_address,
+            contract_subscription_id: contractSubscriptionId
+          },
+          page: { size: 1 }
+        })
+      }, xataApiKey, env);
+
+      if (existingSubResponse.records.length > 0) {
+        return {
+          success: true,
+          message: "Subscription already recorded",
+          subscription_id: existingSubResponse.records[0].id,
+          contract_subscription_id: contractSubscriptionId
+        };
+      }
+    }
+
+    // Link the promo code redeemed on-chain, if any
+    let coupon = null;
+    if (contractCouponId !== null) {
+      const couponResponse = await xataRequest("tables/coupons/query", {
+        method: "POST",
+        body: JSON.stringify({
+          columns: ["id", "code", "redemption_count"],
+          filter: { project_id: project_id, contract_coupon_id: contractCouponId },
+          page: { size: 1 }
+        })
+      }, xataApiKey, env);
+      coupon = couponResponse.records[0] || null;
+    }
+
+    // Always create a new subscription record for fresh history
+    const newSubscription = await xataRequest("tables/user_subscriptions/data", {
+      method: "POST",
+      body: JSON.stringify({
+        user_id: userId,
+        plan_id: actualPlanId,
+        developer_id: developerId,
+        status: "active",
+        start_date: start_date,
+        last_payment_date: trialEndsAt ? null : start_date,
+        next_payment_date: nextPaymentDate,
+        trial_ends_at: trialEndsAt,
+        subscription_manager_address: subscription_manager_address,
+        contract_subscription_id: contractSubscriptionId,
+        coupon_id: coupon ? coupon.id : null
+      })
+    }, xataApiKey, env);
+
+    const subscriptionId = newSubscription.id;
+
+    if (coupon) {
+      await xataRequest(`tables/coupons/data/${coupon.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ redemption_count: (coupon.redemption_count || 0) + 1 })
+      }, xataApiKey, env);
+    }
+
+    // OPTIMIZATION: Run delegation and payment creation in parallel (they're independent)
+    const shouldHandleDelegation = delegation_data && user_smart_account_address && subscription_manager_address;
+    const shouldRecordPayment = !trialEndsAt && amount && token_address && tx_hash;
+
+    let paymentId = null;
+
+    if (shouldHandleDelegation || shouldRecordPayment) {
+      const tasks = [];
+
+      // Task 1: Handle delegation
+      if (shouldHandleDelegation) {
+        tasks.push(
+          (async () => {
+            try {
+              // Every subscription keeps its own delegations: their caps are sized to its plan,
+              // so they can't be shared with other subscriptions on the same contract
+              await xataRequest("tables/user_delegations/data", {
+                method: "POST",
+                body: JSON.stringify({
+                  subscription_id: subscriptionId,
+                  user_wallet_address: user_wallet_address,
+                  user_smart_account: user_smart_account_address,
+                  subscription_manager_address: subscription_manager_address,
+                  delegation_data: JSON.stringify(delegation_data),
+                  is_active: true,
+                  created_at: Math.floor(Date.now() / 1000)
+                })
+              }, xataApiKey, env);
+            } catch (delegationError) {
+              console.error('Error handling delegation:', delegationError);
+              // Don't fail the subscription creation if delegation fails
+            }
+          })()
+        );
+      }
+
+      // Task 2: Record payment
+      if (shouldRecordPayment) {
+        tasks.push(
+          (async () => {
+            try {
+              const payment = await xataRequest("tables/payments/data", {
+                method: "POST",
+                body: JSON.stringify({
+                  subscription_id: subscriptionId,
+                  user_id: userId,
+                  developer_id: developerId,
+                  amount: amount,
+                  token_address: token_address,
+                  token_symbol: projectSupportedTokenSymbol || "TOKEN",
+                  payment_date: payment_date || start_date,
+                  tx_hash: tx_hash
+                })
+              }, xataApiKey, env);
+
+              return payment.id;
+            } catch (paymentError) {
+              console.error('Error recording payment:', paymentError);
+              // Don't fail the entire operation if payment recording fails
+              return null;
+            }
+          })()
+        );
+      }
+
+      // Wait for both tasks to complete
+      const results = await Promise.all(tasks);
+      
+      // Extract payment ID if payment was recorded (it's the last task if present)
+      if (shouldRecordPayment) {
+        paymentId = results[shouldHandleDelegation ? 1 : 0];
+      }
+    }
+
+    await queueWebhookEvent(xataApiKey, project_id, "subscription.created", {
+      subscription_id: subscriptionId,
+      contract_subscription_id: contractSubscriptionId,
+      plan_id: parseInt(plan_id),
+      plan_record_id: actualPlanId,
+      user_wallet_address: user_wallet_address || null,
+      user_smart_account_address: user_smart_account_address || null,
+      subscription_manager_address: subscription_manager_address,
+      start_date: start_date,
+      next_payment_date: nextPaymentDate,
+      trial_ends_at: trialEndsAt,
+      payment_id: paymentId,
+      amount: amount ?? null,
+      coupon_code: coupon ? coupon.code : null,
+      token_address: token_address,
+      tx_hash: tx_hash || null
+    }, env, ctx);
+
+    const result = {
+      success: true,
+      message: "Subscription created successfully",
+      subscription_id: subscriptionId,
+      contract_subscription_id: contractSubscriptionId
+    };
+
+    if (paymentId) {
+      result.payment_id = paymentId;
+      result.message += " and payment recorded";
+    }
+
+    return result;
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Cancel a user subscription after blockchain transaction
+async function cancelUserSubscription(xataApiKey, cancellationData, env, ctx) {
+  try {
+    const { user_email, user_wallet_address, user_smart_account_address, plan_id, contract_subscription_id, tx_hash, subscription_manager_address } = cancellationData;
+
+    if (!user_email || !tx_hash) {
+      return { success: false, error: "Missing required fields" };
+    }
+
+    // Find user by email
+    const userResponse = await xataRequest("tables/users/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id"],
+        filter: { email: user_email },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    if (userResponse.records.length === 0) {
+      return { success: false, error: "User not found" };
+    }
+
+    const userId = userResponse.records[0].id;
+
+    const baseFilter = {
+      user_id: userId
+    };
+
+    if (plan_id) {
+      baseFilter.plan_id = plan_id;
+    }
+
+    if (contract_subscription_id !== undefined && contract_subscription_id !== null) {
+      baseFilter.contract_subscription_id = parseInt(contract_subscription_id);
+    }
+
+    if (subscription_manager_address) {
+      baseFilter.subscription_manager_address = subscription_manager_address;
+    }
+
+    const queryBody = {
+      columns: ["id", "next_payment_date", "subscription_manager_address", "contract_subscription_id", "start_date", "status", "cancellation_effective_at", "plan_id.contract_plan_id", "plan_id.project_id"],
+      filter: { ...baseFilter, status: { $any: ["active", "past_due", "paused"] } },
+      sort: {
+        start_date: "desc"
+      },
+      page: { size: 1 }
+    };
+
+    let subResponse = await xataRequest("tables/user_subscriptions/query", {
+      method: "POST",
+      body: JSON.stringify(queryBody)
+    }, xataApiKey, env);
+
+    if (subResponse.records.length === 0) {
+      const fallbackQuery = {
+        ...queryBody,
+        columns: ["id", "next_payment_date", "subscription_manager_address", "contract_subscription_id", "start_date", "status", "cancellation_effective_at", "plan_id.contract_plan_id", "plan_id.project_id"],
+        filter: { ...baseFilter }
+      };
+
+      subResponse = await xataRequest("tables/user_subscriptions/query", {
+        method: "POST",
+        body: JSON.stringify(fallbackQuery)
+      }, xataApiKey, env);
+    }
+
+    if (subResponse.records.length === 0) {
+      return { success: false, error: "Subscription not found" };
+    }
+
+    const subscription = subResponse.records[0];
+    const managerAddress = subscription.subscription_manager_address || subscription_manager_address;
+    if (!managerAddress || subscription.contract_subscription_id == null) {
+      return { success: false, error: "Subscription is not linked to a contract subscription" };
+    }
+
+    // Only a confirmed cancel transaction for this subscription may end it and switch off its delegations
+    const rpcUrl = `https://monad-testnet.rpc.hypersync.xyz/${env.HYPERSYNC_API}`;
+    const receipt = await jsonRpcRequest(rpcUrl, "eth_getTransactionReceipt", [tx_hash]);
+
+    if (!receipt) {
+      return { success: false, error: "Transaction not found on blockchain" };
+    }
+
+    if (receipt.status !== "0x1") {
+      return { success: false, error: "Transaction failed on blockchain" };
+    }
+
+    const cancelledEvent = (receipt.logs || []).find((log) =>
+      log.address?.toLowerCase() === managerAddress.toLowerCase()
+      && log.topics?.[0]?.toLowerCase() === SUBSCRIPTION_CANCELLED_TOPIC
+      && parseInt(log.topics?.[2], 16) === parseInt(subscription.contract_subscription_id)
+    );
+
+    if (!cancelledEvent) {
+      return { success: false, error: "SubscriptionCancelled event not found in transaction" };
+    }
+
+    const currentTime = Math.floor(Date.now() / 1000);
+    const nextPaymentDate = subscription.next_payment_date;
+    const cancellationEffectiveDate = nextPaymentDate || currentTime;
+    const newStatus = "cancelled";
+
+    // Update subscription status
+    await xataRequest(`tables/user_subscriptions/data/${subscription.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({
+        status: newStatus,
+        cancelled_at: currentTime,
+        cancellation_effective_at: cancellationEffectiveDate
+      })
+    }, xataApiKey, env);
+
+    // The subscriber disabled this subscription's delegations in the cancel transaction
+    try {
+      const delegationResponse = await xataRequest("tables/user_delegations/query", {
+        method: "POST",
+        body: JSON.stringify({
+          columns: ["id", "user_smart_account", "delegation_data"],
+          filter: {
+            subscription_id: subscription.id,
+            is_active: true
+          },
+          page: { size: 1 }
+        })
+      }, xataApiKey, env);
+
+      if (delegationResponse.records.length > 0) {
+        const delegation = delegationResponse.records[0];
+        // Copies of the same signed delegation (from before they were stored per subscription) are
+        // disabled on-chain with it, so the collector must stop redeeming those as well
+        const sharedCopies = await queryAllRecords(xataApiKey, "user_delegations", {
+          columns: ["id", "delegation_data"],
+          filter: {
+            user_smart_account: delegation.user_smart_account,
+            is_active: true
+          }
+        }, env);
+        const disabledIds = [
+          delegation.id,
+          ...sharedCopies
+            .filter((copy) => copy.id !== delegation.id && copy.delegation_data === delegation.delegation_data)
+            .map((copy) => copy.id)
+        ];
+
+        // Keep the rows so the collector can refuse them and the subscriber can see when they ended
+        await Promise.all(disabledIds.map((id) => xataRequest(`tables/user_delegations/data/${id}`, {
+          method: "PATCH",
+          body: JSON.stringify({
+            is_active: false,
+            cancelled_at: currentTime
+          })
+        }, xataApiKey, env)));
+      }
+    } catch (delegationError) {
+      console.error('Error cancelling delegation:', delegationError);
+      // Don't fail the cancellation if delegation update fails
+    }
+
+    await queueWebhookEvent(xataApiKey, subscription.plan_id?.project_id?.id || subscription.plan_id?.project_id, "subscription.cancelled", {
+      subscription_id: subscription.id,
+      contract_subscription_id: subscription.contract_subscription_id ?? null,
+      plan_id: subscription.plan_id?.contract_plan_id ?? null,
+      plan_record_id: subscription.plan_id?.id || null,
+      user_wallet_address: user_wallet_address || null,
+      user_smart_account_address: normalizeEventAddress(cancelledEvent.topics?.[1]) || user_smart_account_address || null,
+      subscription_manager_address: managerAddress,
+      cancelled_at: currentTime,
+      cancellation_effective_at: cancellationEffectiveDate,
+      tx_hash: tx_hash || null
+    }, env, ctx);
+
+    return { 
+      success: true, 
+      message: `Subscription cancelled successfully with status: ${newStatus}`,
+      status: newStatus
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Pause or resume a subscription after the on-chain pauseSubscription / resumeSubscription transaction
+async function setUserSubscriptionPaused(xataApiKey, pauseData, env, ctx) {
+  try {
+    const { user_email, user_smart_account_address, contract_subscription_id, tx_hash, subscription_manager_address, paused } = pauseData;
+
+    if (!user_email || !user_smart_account_address || contract_subscription_id == null || !tx_hash || !subscription_manager_address) {
+      return { success: false, error: "Missing required fields" };
+    }
+
+    const userResponse = await xataRequest("tables/users/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id"],
+        filter: { email: user_email },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    if (userResponse.records.length === 0) {
+      return { success: false, error: "User not found" };
+    }
+    const userId = userResponse.records[0].id;
+
+    const subResponse = await xataRequest("tables/user_subscriptions/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id", "next_payment_date", "paused_at", "last_payment_date", "trial_ends_at", "plan_id.contract_plan_id", "plan_id.project_id"],
+        filter: {
+          user_id: userId,
+          subscription_manager_address: subscription_manager_address,
+          contract_subscription_id: parseInt(contract_subscription_id),
+          status: paused ? "active" : "paused"
+        },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    if (subResponse.records.length === 0) {
+      return { success: false, error: paused ? "Active subscription not found" : "Paused subscription not found" };
+    }
+
+    const subscription = subResponse.records[0];
+
+    const rpcUrl = `https://monad-testnet.rpc.hypersync.xyz/${env.HYPERSYNC_API}`;
+    const receipt = await jsonRpcRequest(rpcUrl, "eth_getTransactionReceipt", [tx_hash]);
+
+    if (!receipt) {
+      return { success: false, error: "Transaction not found on blockchain" };
+    }
+
+    if (receipt.status !== "0x1") {
+      return { success: false, error: "Transaction failed on blockchain" };
+    }
+
+    const expectedTopic = paused ? SUBSCRIPTION_PAUSED_TOPIC : SUBSCRIPTION_RESUMED_TOPIC;
+    const eventLog = (receipt.logs || []).find((log) =>
+      log.address?.toLowerCase() === subscription_manager_address.toLowerCase()
+      && log.topics?.[0]?.toLowerCase() === expectedTopic
+      && normalizeEventAddress(log.topics?.[1]) === user_smart_account_address.toLowerCase()
+      && parseInt(log.topics?.[2], 16) === parseInt(contract_subscription_id)
+    );
+
+    if (!eventLog) {
+      return { success: false, error: `${paused ? "SubscriptionPaused" : "SubscriptionResumed"} event not found in transaction` };
+    }
+
+    // SubscriptionPaused carries the pause time, SubscriptionResumed the shifted next payment date
+    const eventValue = Number(decodeUintFromEventData(eventLog.data, 0));
+    const currentTime = Math.floor(Date.now() / 1000);
+
+    const update = paused
+      ? { status: "paused", paused_at: eventValue || currentTime }
+      : {
+          status: "active",
+          paused_at: null,
+          next_payment_date: eventValue || (subscription.next_payment_date || currentTime) + (currentTime - (subscription.paused_at || currentTime))
+        };
+
+    // The contract moves the trial end by the paused time too, and the first charge is due when it ends
+    if (!paused && !subscription.last_payment_date && subscription.trial_ends_at) {
+      update.trial_ends_at = update.next_payment_date;
+    }
+
+    await xataRequest(`tables/user_subscriptions/data/${subscription.id}`, {
+      method: "PATCH",
+      body: JSON.stringify(update)
+    }, xataApiKey, env);
+
+    await queueWebhookEvent(xataApiKey, subscription.plan_id?.project_id?.id || subscription.plan_id?.project_id, paused ? "subscription.paused" : "subscription.resumed", {
+      subscription_id: subscription.id,
+      contract_subscription_id: parseInt(contract_subscription_id),
+      plan_id: subscription.plan_id?.contract_plan_id ?? null,
+      user_smart_account_address: user_smart_account_address,
+      subscription_manager_address: subscription_manager_address,
+      paused_at: paused ? update.paused_at : null,
+      next_payment_date: paused ? subscription.next_payment_date ?? null : update.next_payment_date,
+      tx_hash: tx_hash
+    }, env, ctx);
+
+    return {
+      success: true,
+      message: paused ? "Subscription paused" : "Subscription resumed",
+      subscription_id: subscription.id,
+      status: update.status,
+      next_payment_date: paused ? subscription.next_payment_date ?? null : update.next_payment_date
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Move an active or past-due subscription to another plan after the on-chain changePlan transaction
+async function changeUserSubscriptionPlan(xataApiKey, changeData, env, ctx) {
+  try {
+    const { user_email, user_smart_account_address, project_id, contract_subscription_id, new_plan_id, tx_hash, subscription_manager_address, delegation_data } = changeData;
+
+    if (!user_email || !user_smart_account_address || !project_id || contract_subscription_id == null || new_plan_id == null || !tx_hash || !subscription_manager_address) {
+      return { success: false, error: "Missing required fields" };
+    }
+
+    const [userResponse, existingTxResponse, planResponse] = await Promise.all([
+      xataRequest("tables/users/query", {
+        method: "POST",
+        body: JSON.stringify({
+          columns: ["id", "wallet_address"],
+          filter: { email: user_email },
+          page: { size: 1 }
+        })
+      }, xataApiKey, env),
+      xataRequest("tables/payments/query", {
+        method: "POST",
+        body: JSON.stringify({
+          columns: ["id"],
+          filter: { tx_hash: tx_hash },
+          page: { size: 1 }
+        })
+      }, xataApiKey, env),
+      xataRequest("tables/subscription_plans/query", {
+        method: "POST",
+        body: JSON.stringify({
+          columns: [
+            "id",
+            "developer_id",
+            "name",
+            "project_id.subscription_manager_address",
+            "project_id.supported_token_id.token_address",
+            "project_id.supported_token_id.symbol"
+          ],
+          filter: {
+            contract_plan_id: parseInt(new_plan_id),
+            project_id: project_id
+          },
+          page: { size: 1 }
+        })
+      }, xataApiKey, env)
+    ]);
+
+    if (userResponse.records.length === 0) {
+      return { success: false, error: "User not found" };
+    }
+    const userId = userResponse.records[0].id;
+
+    if (existingTxResponse.records.length > 0) {
+      return { success: true, message: "Transaction already processed", payment_id: existingTxResponse.records[0].id };
+    }
+
+    if (planResponse.records.length === 0) {
+      return { success: false, error: `Subscription plan not found for contract_plan_id: ${new_plan_id} in project: ${project_id}` };
+    }
+
+    const newPlan = planResponse.records[0];
+    const projectSubscriptionManager = newPlan.project_id?.subscription_manager_address;
+    if (!projectSubscriptionManager || projectSubscriptionManager.toLowerCase() !== subscription_manager_address.toLowerCase()) {
+      return { success: false, error: "Subscription manager does not match the plan's project" };
+    }
+
+    const subResponse = await xataRequest("tables/user_subscriptions/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id", "developer_id", "status", "last_payment_date", "trial_ends_at", "plan_id.contract_plan_id"],
+        filter: {
+          user_id: userId,
+          subscription_manager_address: subscription_manager_address,
+          contract_subscription_id: parseInt(contract_subscription_id),
+          status: { $any: ["active", "past_due"] }
+        },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    if (subResponse.records.length === 0) {
+      return { success: false, error: "Active subscription not found" };
+    }
+
+    const subscription = subResponse.records[0];
+    const previousPlanId = subscription.plan_id?.id || subscription.plan_id;
+
+    // Changes that charged nothing leave no payment to find by tx_hash, but the contract never
+    // changes a subscription to the plan it is already on
+    if (previousPlanId === newPlan.id) {
+      return { success: true, message: "Transaction already processed", payment_id: null };
+    }
+
+    const rpcUrl = `https://monad-testnet.rpc.hypersync.xyz/${env.HYPERSYNC_API}`;
+    const receipt = await jsonRpcRequest(rpcUrl, "eth_getTransactionReceipt", [tx_hash]);
+
+    if (!receipt) {
+      return { success: false, error: "Transaction not found on blockchain" };
+    }
+
+    if (receipt.status !== "0x1") {
+      return { success: false, error: "Transaction failed on blockchain" };
+    }
+
+    const planChange = (receipt.logs || [])
+      .filter((log) => log.address?.toLowerCase() === subscription_manager_address.toLowerCase())
+      .map((log) => decodePlanChanged(log.topics, log.data))
+      .find(Boolean);
+
+    if (!planChange) {
+      return { success: false, error: "PlanChanged event not found in transaction" };
+    }
+
+    if (
+      planChange.user !== user_smart_account_address.toLowerCase()
+      || planChange.subscriptionId !== parseInt(contract_subscription_id)
+      || planChange.newPlanId !== parseInt(new_plan_id)
+    ) {
+      return { success: false, error: "PlanChanged event does not match this request" };
+    }
+
+    const currentTime = Math.floor(Date.now() / 1000);
+    const amountCharged = formatTokenUnits(planChange.amountCharged);
+    const creditApplied = formatTokenUnits(planChange.creditApplied);
+    // A plan change during a trial keeps the trial, so there is no new payment date to record
+    const stillInTrial = !subscription.last_payment_date && Boolean(subscription.trial_ends_at);
+
+    // Outside a trial the change starts a fully paid period, which settles a renewal that was past due
+    const settlesDunning = !stillInTrial && subscription.status === "past_due";
+
+    await xataRequest(`tables/user_subscriptions/data/${subscription.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({
+        plan_id: newPlan.id,
+        next_payment_date: planChange.nextPaymentDue,
+        ...(stillInTrial ? {} : { last_payment_date: currentTime }),
+        ...(settlesDunning ? { status: "active", past_due_since: null, next_retry_at: null, retry_count: 0 } : {})
+      })
+    }, xataApiKey, env);
+
+    // A change paid entirely from credit, or made during a trial, charged nothing and gets no invoice
+    const payment = planChange.amountCharged > 0n ? await xataRequest("tables/payments/data", {
+      method: "POST",
+      body: JSON.stringify({
+        subscription_id: subscription.id,
+        user_id: userId,
+        developer_id: subscription.developer_id?.id || subscription.developer_id || newPlan.developer_id?.id || newPlan.developer_id,
+        amount: amountCharged,
+        token_address: newPlan.project_id?.supported_token_id?.token_address,
+        token_symbol: newPlan.project_id?.supported_token_id?.symbol || "TOKEN",
+        payment_date: currentTime,
+        tx_hash: tx_hash,
+        payment_type: "proration",
+        previous_plan_id: previousPlanId,
+        proration_credit: creditApplied
+      })
+    }, xataApiKey, env) : null;
+
+    // The old delegations are capped at the old plan's price; the subscriber signs new ones for the
+    // new plan in the same transaction, and they replace the old ones for this subscription only
+    if (delegation_data) {
+      const existingDelegationResponse = await xataRequest("tables/user_delegations/query", {
+        method: "POST",
+        body: JSON.stringify({
+          columns: ["id"],
+          filter: { subscription_id: subscription.id },
+          page: { size: 1 }
+        })
+      }, xataApiKey, env);
+
+      const delegationFields = {
+        delegation_data: JSON.stringify(delegation_data),
+        is_active: true,
+        cancelled_at: null,
+        created_at: currentTime
+      };
+
+      if (existingDelegationResponse.records.length > 0) {
+        await xataRequest(`tables/user_delegations/data/${existingDelegationResponse.records[0].id}`, {
+          method: "PATCH",
+          body: JSON.stringify(delegationFields)
+        }, xataApiKey, env);
+      } else {
+        await xataRequest("tables/user_delegations/data", {
+          method: "POST",
+          body: JSON.stringify({
+            ...delegationFields,
+            subscription_id: subscription.id,
+            user_wallet_address: userResponse.records[0].wallet_address,
+            user_smart_account: user_smart_account_address,
+            subscription_manager_address: subscription_manager_address
+          })
+        }, xataApiKey, env);
+      }
+    }
+
+    await queueWebhookEvent(xataApiKey, project_id, "subscription.plan_changed", {
+      subscription_id: subscription.id,
+      contract_subscription_id: planChange.subscriptionId,
+      previous_plan_id: planChange.oldPlanId,
+      plan_id: planChange.newPlanId,
+      plan_record_id: newPlan.id,
+      user_smart_account_address: user_smart_account_address,
+      subscription_manager_address: subscription_manager_address,
+      payment_id: payment?.id || null,
+      amount: amountCharged,
+      proration_credit: creditApplied,
+      next_payment_date: planChange.nextPaymentDue,
+      tx_hash: tx_hash
+    }, env, ctx);
+
+    return {
+      success: true,
+      message: "Subscription plan changed successfully",
+      subscription_id: subscription.id,
+      payment_id: payment?.id || null,
+      amount_charged: amountCharged,
+      proration_credit: creditApplied,
+      next_payment_date: planChange.nextPaymentDue
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Create a new project
+async function createProject(xataApiKey, projectData, env) {
+  try {
+    const {
+      developer_email,
+      name,
+      description,
+      factory_tx_hash,
+      plans,
+      supported_token_address,
+      agent_address
+    } = projectData;
+
+    if (!developer_email || !name || !factory_tx_hash || !Array.isArray(plans) || plans.length === 0 || !supported_token_address) {
+      return { success: false, error: "Missing required fields" };
+    }
+
+    if (!agent_address || !new RegExp(ADDRESS_PATTERN).test(agent_address)) {
+      return { success: false, error: "agent_address must be a valid address" };
+    }
+
+    const developerResponse = await xataRequest("tables/developers/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id", "smart_account_address"],
+        filter: { email: developer_email },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    if (developerResponse.records.length === 0) {
+      return { success: false, error: "Developer not found" };
+    }
+
+    const developerRecord = developerResponse.records[0];
+    const developerId = developerRecord.id;
+
+    const supportedTokenResponse = await xataRequest("tables/supported_tokens/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id", "name", "symbol", "token_address", "image_url"],
+        filter: { token_address: supported_token_address },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    if (supportedTokenResponse.records.length === 0) {
+      return { success: false, error: "Unsupported token address" };
+    }
+
+    const supportedTokenRecord = supportedTokenResponse.records[0];
+
+    const onchainResult = await inspectFactoryDeployment(factory_tx_hash, env, { expectedToken: supported_token_address, planCount: plans.length });
+
+    if (!onchainResult.success) {
+      return { success: false, error: onchainResult.error || "Failed to verify factory transaction" };
+    }
+
+    const { subscriptionManagerAddress, planIds } = onchainResult;
+
+    if (planIds.length !== plans.length) {
+      return { success: false, error: "Plan count mismatch between on-chain data and payload" };
+    }
+
+    const projectResponse = await xataRequest("tables/projects/data", {
+      method: "POST",
+      body: JSON.stringify({
+        developer_id: developerId,
+        supported_token_id: supportedTokenRecord.id,
+        name,
+        description,
+        subscription_manager_address: subscriptionManagerAddress,
+        agent_address,
+        is_active: true
+      })
+    }, xataApiKey, env);
+
+    const createdPlans = [];
+
+    for (let index = 0; index < plans.length; index++) {
+      const plan = plans[index];
+      const contractPlanId = planIds[index];
+
+      if (!plan?.name || plan?.price == null || plan?.period_seconds == null) {
+        continue;
+      }
+
+      const priceAsNumber = Number(plan.price);
+      const periodAsNumber = Number(plan.period_seconds);
+      const trialAsNumber = Number(plan.trial_period_seconds || 0);
+
+      if (Number.isNaN(priceAsNumber) || Number.isNaN(periodAsNumber) || Number.isNaN(trialAsNumber)) {
+        continue;
+      }
+
+      const planResponse = await xataRequest("tables/subscription_plans/data", {
+        method: "POST",
+        body: JSON.stringify({
+          developer_id: developerId,
+          project_id: projectResponse.id,
+          contract_plan_id: contractPlanId,
+          name: plan.name,
+          price: priceAsNumber,
+          period_seconds: periodAsNumber,
+          trial_period_seconds: trialAsNumber,
+          token_address: supported_token_address,
+          token_symbol: supportedTokenRecord.symbol || null
+        })
+      }, xataApiKey, env);
+
+      createdPlans.push({
+        id: planResponse.id,
+        contract_plan_id: contractPlanId,
+        name: plan.name,
+        price: priceAsNumber,
+        period_seconds: periodAsNumber,
+        trial_period_seconds: trialAsNumber
+      });
+    }
+
+    return {
+      success: true,
+      project: {
+        id: projectResponse.id,
+        name: projectResponse.name,
+        description: projectResponse.description,
+        subscription_manager_address: projectResponse.subscription_manager_address,
+        supported_token: {
+          id: supportedTokenRecord.id,
+          name: supportedTokenRecord.name,
+          symbol: supportedTokenRecord.symbol,
+          token_address: supportedTokenRecord.token_address,
+          image_url: supportedTokenRecord.image_url || null
+        },
+        plans: createdPlans
+      }
+    };
+  } catch (error) {
+    console.error("Error creating project:", error);
+    return { success: false, error: "Failed to create project" };
+  }
+}
+
+async function getSupportedTokens(xataApiKey, env) {
+  const response = await xataRequest("tables/supported_tokens/query", {
+    method: "POST",
+    body: JSON.stringify({
+      columns: ["id", "name", "symbol", "token_address", "image_url"],
+      page: { size: 200 }
+    })
+  }, xataApiKey, env);
+
+  return {
+    success: true,
+    tokens: cleanRecords(response.records)
+  };
+}
+
+async function jsonRpcRequest(rpcUrl, method, params = []) {
+  const response = await fetch(rpcUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: Date.now(),
+      method,
+      params,
+    }),
+  });
+
+  const payload = await response.json();
+
+  if (!response.ok) {
+    throw new Error(`RPC request failed with status ${response.status}`);
+  }
+
+  if (payload.error) {
+    const message = typeof payload.error === "string"
+      ? payload.error
+      : payload.error.message || JSON.stringify(payload.error);
+    throw new Error(`RPC error: ${message}`);
+  }
+
+  return payload.result;
+}
+
+function normalizeEventAddress(value) {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const hex = value.startsWith("0x") ? value.slice(2) : value;
+  if (hex.length === 0) {
+    return null;
+  }
+
+  const trimmed = hex.padStart(40, "0").slice(-40);
+  return `0x${trimmed}`.toLowerCase();
+}
+
+function decodeAddressFromEventData(data, position = 0) {
+  if (typeof data !== "string") {
+    return null;
+  }
+
+  const hex = data.startsWith("0x") ? data.slice(2) : data;
+  const offset = position * 64;
+
+  if (hex.length < offset + 64) {
+    return null;
+  }
+
+  const word = hex.slice(offset, offset + 64);
+  return normalizeEventAddress(`0x${word.slice(-40)}`);
+}
+
+function decodeSubscriptionManagerDeployed(topics, data) {
+  if (!Array.isArray(topics) || topics.length < 3) {
+    return null;
+  }
+
+  const signature = topics[0]?.toLowerCase();
+  if (signature !== SUBSCRIPTION_MANAGER_DEPLOYED_TOPIC) {
+    return null;
+  }
+
+  const creator = normalizeEventAddress(topics[1]);
+  const owner = normalizeEventAddress(topics[2]);
+  const subscriptionManager = decodeAddressFromEventData(data, 0);
+
+  if (!creator || !owner || !subscriptionManager) {
+    return null;
+  }
+
+  return { creator, owner, subscriptionManager };
+}
+
+function decodeUintFromEventData(data, position = 0) {
+  if (typeof data !== "string") {
+    return null;
+  }
+
+  const hex = data.startsWith("0x") ? data.slice(2) : data;
+  const offset = position * 64;
+
+  if (hex.length < offset + 64) {
+    return null;
   }
+
+  return BigInt(`0x${hex.slice(offset, offset + 64)}`);
 }
 
-  // --- Xata API Helper ---
-async function xataRequest(endpoint, options = {}, apiKey, env) {
-  const url = `${getConfig(env).DATABASE_URL_HTTPS}/${endpoint}`;
-  const defaultOptions = {
-    headers: {
-      "Authorization": `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-  };
-  const requestOptions = { ...defaultOptions, ...options, headers: { ...defaultOptions.headers, ...options.headers } };
+// Convert an on-chain token amount into the decimal units stored in Xata
+function formatTokenUnits(value, decimals = TOKEN_DECIMALS) {
+  const base = 10n ** BigInt(decimals);
+  const whole = value / base;
+  const fraction = (value % base).toString().padStart(decimals, "0").replace(/0+$/, "");
+  return Number(fraction ? `${whole}.${fraction}` : `${whole}`);
+}
 
-  const response = await fetch(url, requestOptions);
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Xata API Error: ${response.status} ${response.statusText} - ${errorText}`);
+// Inverse of formatTokenUnits; extra fractional digits beyond the token's decimals are dropped
+function parseTokenUnits(value, decimals = TOKEN_DECIMALS) {
+  const [whole, fraction = ""] = String(value).split(".");
+  const paddedFraction = fraction.slice(0, decimals).padEnd(decimals, "0");
+  return BigInt(whole || "0") * 10n ** BigInt(decimals) + BigInt(paddedFraction || "0");
+}
+
+function decodeSubscriptionCreated(topics) {
+  if (!Array.isArray(topics) || topics.length < 4) {
+    return null;
   }
-  return response.json();
+
+  if (topics[0]?.toLowerCase() !== SUBSCRIPTION_CREATED_TOPIC) {
+    return null;
+  }
+
+  return {
+    user: normalizeEventAddress(topics[1]),
+    planId: parseInt(topics[2], 16),
+    subscriptionId: parseInt(topics[3], 16)
+  };
 }
-function cleanRecords(records) {
-  if (!Array.isArray(records)) return records;
-  
-  return records.map(record => {
-    const { xata_id, xata, ...cleanRecord } = record;
-    
-    return cleanRecord;
-  });
+
+function decodePlanChanged(topics, data) {
+  if (!Array.isArray(topics) || topics.length < 4) {
+    return null;
+  }
+
+  if (topics[0]?.toLowerCase() !== PLAN_CHANGED_TOPIC) {
+    return null;
+  }
+
+  const subscriptionId = decodeUintFromEventData(data, 0);
+  const amountCharged = decodeUintFromEventData(data, 1);
+  const creditApplied = decodeUintFromEventData(data, 2);
+  const nextPaymentDue = decodeUintFromEventData(data, 3);
+
+  if (subscriptionId === null || amountCharged === null || creditApplied === null || nextPaymentDue === null) {
+    return null;
+  }
+
+  return {
+    user: normalizeEventAddress(topics[1]),
+    oldPlanId: parseInt(topics[2], 16),
+    newPlanId: parseInt(topics[3], 16),
+    subscriptionId: Number(subscriptionId),
+    amountCharged,
+    creditApplied,
+    nextPaymentDue: Number(nextPaymentDue)
+  };
 }
 
-  
-// --- Verify developer API key ---
-async function verifyApiKey(xataApiKey, targetApiKey, env) {
-  if (!targetApiKey) return false;
-  const response = await xataRequest("tables/developers/query", {
-    method: "POST",
-    body: JSON.stringify({
-      columns: ["api_key"],
-      filter: { api_key: targetApiKey },
-      page: { size: 1 },
-    }),
-  }, xataApiKey, env);
-  return response.records.length > 0;
+function decodePaymentProcessed(topics, data) {
+  if (!Array.isArray(topics) || topics.length < 3) {
+    return null;
+  }
+
+  if (topics[0]?.toLowerCase() !== PAYMENT_PROCESSED_TOPIC) {
+    return null;
+  }
+
+  const amount = decodeUintFromEventData(data, 0);
+  const timestamp = decodeUintFromEventData(data, 1);
+
+  if (amount === null || timestamp === null) {
+    return null;
+  }
+
+  return {
+    user: normalizeEventAddress(topics[1]),
+    subscriptionId: parseInt(topics[2], 16),
+    amount,
+    timestamp: Number(timestamp)
+  };
 }
 
-// --- Get User's Info
-async function getUserInfo(xataApiKey, user_email, env) {
-  if (!user_email) return null;
+function decodeRefunded(topics, data) {
+  if (!Array.isArray(topics) || topics.length < 4) {
+    return null;
+  }
 
-  const response = await xataRequest("tables/users/query", {
-    method: "POST",
-    body: JSON.stringify({
-      columns: ["id", "wallet_address", "smart_account_address", "email"],
-      filter: { email: user_email },
-      page: { size: 1 },
-    }),
-  }, xataApiKey, env);
-  if (response.records.length === 0) return null;
-  const cleanedRecords = cleanRecords(response.records);
-  return cleanedRecords.length > 0 ? cleanedRecords[0] : null;
+  if (topics[0]?.toLowerCase() !== REFUNDED_TOPIC) {
+    return null;
+  }
+
+  const amount = decodeUintFromEventData(data, 0);
+  const timestamp = decodeUintFromEventData(data, 1);
+
+  if (amount === null || timestamp === null) {
+    return null;
+  }
+
+  return {
+    user: normalizeEventAddress(topics[1]),
+    subscriptionId: parseInt(topics[2], 16),
+    paymentTxHash: topics[3].toLowerCase(),
+    amount,
+    timestamp: Number(timestamp)
+  };
 }
 
-// --- Create User Function ---
-async function createUser(xataApiKey, userData, env) {
-  try {
-    const response = await xataRequest("tables/users/data", {
-      method: "POST",
-      body: JSON.stringify({
-        email: userData.email,
-        wallet_address: userData.wallet_address,
-        smart_account_address: userData.smart_account_address || ""
-      })
-    }, xataApiKey, env);
+function decodeRevenueWithdrawn(topics, data) {
+  if (!Array.isArray(topics) || topics.length < 3) {
+    return null;
+  }
 
-    const cleanedRecord = cleanRecords([response]);
-    return cleanedRecord.length > 0 ? cleanedRecord[0] : null;
-  } catch (error) {
-    console.error("Error creating user:", error);
+  if (topics[0]?.toLowerCase() !== REVENUE_WITHDRAWN_TOPIC) {
+    return null;
+  }
+
+  const amount = decodeUintFromEventData(data, 0);
+  if (amount === null) {
     return null;
   }
+
+  return {
+    token: normalizeEventAddress(topics[1]),
+    to: normalizeEventAddress(topics[2]),
+    amount
+  };
 }
 
-async function getUserSubscriptions(xataApiKey, userEmail, env) {
-  if (!userEmail) return { subscriptions: [] };
+function decodeCouponCreated(topics, data) {
+  if (!Array.isArray(topics) || topics.length < 3) {
+    return null;
+  }
 
-  // Find user by email
-  const userResponse = await xataRequest("tables/users/query", {
-    method: "POST",
-    body: JSON.stringify({
-      columns: ["id"],
-      filter: { email: userEmail },
-      page: { size: 1 }
-    })
-  }, xataApiKey, env);
+  if (topics[0]?.toLowerCase() !== COUPON_CREATED_TOPIC) {
+    return null;
+  }
 
-  if (userResponse.records.length === 0) {
-    return { subscriptions: [] };
+  const isPercent = decodeUintFromEventData(data, 0);
+  const value = decodeUintFromEventData(data, 1);
+  const durationCharges = decodeUintFromEventData(data, 2);
+  const maxRedemptions = decodeUintFromEventData(data, 3);
+  const expiresAt = decodeUintFromEventData(data, 4);
+
+  if (isPercent === null || value === null || durationCharges === null || maxRedemptions === null || expiresAt === null) {
+    return null;
   }
-  const userId = userResponse.records[0].id;
 
-  // Get the user's subscriptions
-  const response = await xataRequest("tables/user_subscriptions/query", {
-    method: "POST",
-    body: JSON.stringify({
-      columns: [
-        "plan_id",
-        "status",
-        "start_date",
-        "next_payment_date",
-        "last_payment_date",
-        "cancelled_at",
-        "subscription_manager_address",
-        "plan_id.name",
-        "plan_id.price",
-        "plan_id.developer_id.company_name",
-        "plan_id.project_id.subscription_manager_address",
-        "plan_id.project_id.supported_token_id.symbol",
-        "plan_id.project_id.supported_token_id.token_address"
-      ],
-      filter: { user_id: userId },
-      page: { size: 50 },
-    }),
-  }, xataApiKey, env);
+  return {
+    couponId: parseInt(topics[1], 16),
+    codeHash: topics[2].toLowerCase(),
+    isPercent: isPercent === 1n,
+    value,
+    durationCharges: Number(durationCharges),
+    maxRedemptions: Number(maxRedemptions),
+    expiresAt: Number(expiresAt)
+  };
+}
 
-  const cleanedRecords = cleanRecords(response.records);
-  const currentTime = Math.floor(Date.now() / 1000);
+function decodeCouponRedeemed(topics) {
+  if (!Array.isArray(topics) || topics.length < 4) {
+    return null;
+  }
+
+  if (topics[0]?.toLowerCase() !== COUPON_REDEEMED_TOPIC) {
+    return null;
+  }
+
+  return {
+    user: normalizeEventAddress(topics[1]),
+    couponId: parseInt(topics[2], 16),
+    subscriptionId: parseInt(topics[3], 16)
+  };
+}
+
+async function inspectFactoryDeployment(txHash, env, expected) {
+  try {
+    const rpcUrl = `https://monad-testnet.rpc.hypersync.xyz/${env.HYPERSYNC_API}`;
+    const factoryAddress = env.SUBSCRIPTION_MANAGER_FACTORY;
+
+    if (!factoryAddress) {
+      return { success: false, error: "Factory configuration missing" };
+    }
+
+    const receipt = await jsonRpcRequest(rpcUrl, "eth_getTransactionReceipt", [txHash]);
+
+    if (!receipt) {
+      return { success: false, error: "Transaction not found" };
+    }
+
+    if (receipt.status !== "0x1") {
+      return { success: false, error: "Factory transaction failed" };
+    }
+
+    if (!receipt.logs || receipt.logs.length === 0) {
+      return { success: false, error: "No logs found on transaction" };
+    }
+
+    const hasFactoryLog = receipt.logs.some((log) => log.address?.toLowerCase() === factoryAddress.toLowerCase());
+
+    if (!hasFactoryLog) {
+      return { success: false, error: "Factory log not found" };
+    }
+
+    const deploymentLog = receipt.logs.find((log) => log.address?.toLowerCase() === factoryAddress.toLowerCase());
+
+    if (!deploymentLog) {
+      return { success: false, error: "Factory deployment log not found" };
+    }
+
+    const deploymentInfo = decodeSubscriptionManagerDeployed(deploymentLog.topics, deploymentLog.data);
+
+    if (!deploymentInfo) {
+      return { success: false, error: "Failed to decode factory deployment log" };
+    }
+
+    const { subscriptionManager: subscriptionManagerAddress } = deploymentInfo;
+
+    const managerLogs = receipt.logs.filter((log) => log.address?.toLowerCase() === subscriptionManagerAddress.toLowerCase());
+
+    const planLogs = managerLogs.filter((log) => log.topics?.[0]?.toLowerCase() === PLAN_CREATED_TOPIC.toLowerCase());
+
+    if (expected?.planCount && planLogs.length !== expected.planCount) {
+      return { success: false, error: "Plan event count mismatch" };
+    }
+
+    const planIds = planLogs.map((log) => parseInt(log.topics[1], 16));
+
+    return {
+      success: true,
+      subscriptionManagerAddress,
+      planIds
+    };
+  } catch (error) {
+    console.error("inspectFactoryDeployment error", error);
+    return { success: false, error: "Failed to inspect factory deployment" };
+  }
+}
+
+// Get developer's projects
+async function getDeveloperProjects(xataApiKey, developer_email, env) {
+  try {
+    if (!developer_email) return { projects: [] };
 
-  // Track latest record per plan
-  const latestByPlan = new Map();
-  for (const record of cleanedRecords) {
-    const planKey = record.plan_id?.id || record.plan_id;
-    if (!planKey) continue;
+    // Find developer by email
+    const developerResponse = await xataRequest("tables/developers/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id"],
+        filter: { email: developer_email },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
 
-    const existing = latestByPlan.get(planKey);
-    if (!existing || (record.next_payment_date || 0) > (existing.next_payment_date || 0) || record.start_date > existing.start_date) {
-      latestByPlan.set(planKey, record);
+    if (developerResponse.records.length === 0) {
+      return { projects: [] };
     }
-  }
-  
-  // Transform the data to include company name and plan name at the top level (preserve history)
-  const subscriptions = cleanedRecords.map(record => {
-    const planKey = record.plan_id?.id || record.plan_id;
-    const latestRecord = latestByPlan.get(planKey) || record;
-
-    const nextPaymentDate = latestRecord.next_payment_date ?? record.next_payment_date;
-    const lastPaymentDate = latestRecord.last_payment_date ?? record.last_payment_date;
 
-    let actualStatus = record.status;
-    if (record.cancelled_at) {
-      const cancellationEffectiveDate = record.next_payment_date || record.cancelled_at;
-      actualStatus = currentTime >= cancellationEffectiveDate ? "cancelled" : "active";
-    } else if (latestRecord.cancelled_at) {
-      actualStatus = "cancelled";
-    } else if (nextPaymentDate && currentTime >= nextPaymentDate) {
-      actualStatus = "expired";
-    } else {
-      actualStatus = "active";
-    }
+    const developerId = developerResponse.records[0].id;
 
-    return {
-      plan_id: record.plan_id?.id || record.plan_id,
-      plan_name: record.plan_id?.name,
-      company_name: record.plan_id?.developer_id?.company_name,
-      status: actualStatus,
-      start_date: record.start_date,
-      next_payment_date: nextPaymentDate,
-      last_payment_date: lastPaymentDate,
-      cancelled_at: record.cancelled_at,
-      price: record.plan_id?.price || 0,
-      cancellation_effective_at: record.cancellation_effective_at || nextPaymentDate || record.cancelled_at,
-      subscription_manager_address: record.subscription_manager_address || record.plan_id?.project_id?.subscription_manager_address,
-      token_symbol: record.plan_id?.project_id?.supported_token_id?.symbol || record.plan_id?.token_symbol,
-      token_address: record.plan_id?.project_id?.supported_token_id?.token_address || record.plan_id?.token_address,
-      is_latest: latestRecord === record,
-    };
-  });
+    // Get projects for this developer
+    const projectsResponse = await xataRequest("tables/projects/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: [
+          "id",
+          "name",
+          "description",
+          "subscription_manager_address",
+          "agent_address",
+          "is_active",
+          "supported_token_id.name",
+          "supported_token_id.symbol",
+          "supported_token_id.token_address"
+        ],
+        filter: { developer_id: developerId, is_active: true },
+        sort: [{ "xata.createdAt": "desc" }]
+      })
+    }, xataApiKey, env);
 
-  // Sort by start_date descending (latest first)
-  subscriptions.sort((a, b) => b.start_date - a.start_date);
+    const projects = projectsResponse.records.map(project => ({
+      id: project.id,
+      name: project.name,
+      description: project.description,
+      subscription_manager_address: project.subscription_manager_address,
+      agent_address: project.agent_address || null,
+      supported_token: project.supported_token_id ? {
+        id: project.supported_token_id.id || project.supported_token_id.xata_id || null,
+        name: project.supported_token_id.name,
+        symbol: project.supported_token_id.symbol,
+        token_address: project.supported_token_id.token_address
+      } : null
+    }));
 
-  return { subscriptions };
+    return { projects };
+  } catch (error) {
+    console.error("Error fetching developer projects:", error);
+    return { projects: [] };
+  }
 }
-// Create a new user subscription and record payment in single transaction
-async function createUserSubscription(xataApiKey, subscriptionData, env) {
+
+// Create subscription plan
+async function createSubscriptionPlan(xataApiKey, planData, env) {
   try {
     const { 
-      user_email, 
-      user_wallet_address, 
-      user_smart_account_address,
-      plan_id, // contract_plan_id (0, 1, 2)
-      project_id,
-      tx_hash, 
-      start_date,
-      subscription_manager_address,
-      // Payment data
-      amount,
-      token_address,
-      payment_date,
-      // Delegation data (optional) - contains both approve and processPayment delegations
-      delegation_data
-    } = subscriptionData;
+      developer_email, 
+      project_id, 
+      contract_plan_id, 
+      name, 
+      price, 
+      period_seconds,
+      trial_period_seconds,
+      token_address
+    } = planData;
 
-    if (!token_address) {
-      return { success: false, error: "Token address is required" };
+    // Find developer by email
+    const developerResponse = await xataRequest("tables/developers/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id"],
+        filter: { email: developer_email },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    if (developerResponse.records.length === 0) {
+      return { success: false, error: "Developer not found" };
     }
 
-    // OPTIMIZATION: Run independent queries in parallel
-    const [userResponse, existingTxResponse, planResponse] = await Promise.all([
-      // Query 1: Find user by email
-      xataRequest("tables/users/query", {
-        method: "POST",
-        body: JSON.stringify({
-          columns: ["id"],
-          filter: { email: user_email },
-          page: { size: 1 }
-        })
-      }, xataApiKey, env),
-      
-      // Query 2: Check if transaction hash was already processed (if provided)
-      tx_hash ? xataRequest("tables/payments/query", {
-        method: "POST",
-        body: JSON.stringify({
-          columns: [
-            "id",
-            "subscription_id"
-          ],
-          filter: { tx_hash: tx_hash },
-          page: { size: 1 }
-        })
-      }, xataApiKey, env) : Promise.resolve({ records: [] }),
-      
-      // Query 3: Lookup subscription plan by contract_plan_id + project_id
-      // Include project's subscription_manager_address for verification
-      xataRequest("tables/subscription_plans/query", {
-        method: "POST",
-        body: JSON.stringify({
-          columns: [
-            "id",
-            "developer_id",
-            "project_id",
-            "period_seconds",
-            "project_id.subscription_manager_address",
-            "project_id.supported_token_id.token_address",
-            "project_id.supported_token_id.symbol"
-          ],
-          filter: { 
-            contract_plan_id: parseInt(plan_id),
-            project_id: project_id
-          },
-          page: { size: 1 }
-        })
-      }, xataApiKey, env)
-    ]);
+    const developerId = developerResponse.records[0].id;
 
-    // Validate user exists
-    if (userResponse.records.length === 0) {
-      return { success: false, error: "User not found" };
-    }
-    const userId = userResponse.records[0].id;
+    // Fetch project to validate ownership and supported token
+    const projectResponse = await xataRequest("tables/projects/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: [
+          "id",
+          "developer_id",
+          "supported_token_id.token_address",
+          "supported_token_id.symbol"
+        ],
+        filter: { id: project_id },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
 
-    // Check for duplicate transaction
-    if (tx_hash && existingTxResponse.records.length > 0) {
-      const existingPayment = existingTxResponse.records[0]
-      const existingSubscriptionId = existingPayment.subscription_id?.id
-        || existingPayment.subscription_id?.xata_id
-        || existingPayment.subscription_id
-        || null
-      return {
-        success: true,
-        message: "Transaction already processed",
-        subscription_id: existingSubscriptionId,
-        payment_id: existingPayment.id
-      }
+    if (projectResponse.records.length === 0) {
+      return { success: false, error: "Project not found" };
     }
 
-    // Validate plan exists
-    if (planResponse.records.length === 0) {
-      return { success: false, error: `Subscription plan not found for contract_plan_id: ${plan_id} in project: ${project_id}` };
-    }
-    
-    const plan = planResponse.records[0];
-    const projectSubscriptionManager = plan.project_id?.subscription_manager_address;
-    const projectSupportedTokenAddress = plan.project_id?.supported_token_id?.token_address;
-    const projectSupportedTokenSymbol = plan.project_id?.supported_token_id?.symbol;
+    const projectRecord = projectResponse.records[0];
 
-    if (!projectSubscriptionManager) {
-      return { success: false, error: "Project does not have a subscription manager address configured" };
+    const projectDeveloperId = projectRecord.developer_id?.id || projectRecord.developer_id;
+    if (projectDeveloperId && projectDeveloperId !== developerId) {
+      return { success: false, error: "Project does not belong to developer" };
     }
 
-    if (!projectSupportedTokenAddress) {
+    const supportedToken = projectRecord.supported_token_id;
+    if (!supportedToken?.token_address) {
       return { success: false, error: "Project does not have a supported token configured" };
     }
 
-    if (token_address.toLowerCase() !== projectSupportedTokenAddress.toLowerCase()) {
+    const normalizedProjectToken = supportedToken.token_address.toLowerCase();
+    const providedToken = token_address?.toLowerCase();
+    if (providedToken && providedToken !== normalizedProjectToken) {
       return { success: false, error: "Token address does not match project's supported token" };
     }
-    
-    // Verify transaction on blockchain (if tx_hash provided)
-    if (tx_hash && env.HYPERSYNC_API) {
-      const verification = await verifyBlockchainTransaction(
-        tx_hash, 
-        user_wallet_address,
-        user_smart_account_address,
-        plan_id,
-        projectSubscriptionManager,
-        env
-      );
-      
-      if (!verification.valid) {
-        return { 
-          success: false, 
-          error: `Blockchain verification failed: ${verification.error}` 
-        };
-      }
+
+    const planTokenAddress = supportedToken.token_address;
+    const planTokenSymbol = supportedToken.symbol || "TOKEN";
+
+    // The dashboard sends a `plans` array after createPlansBatch; single-plan payloads are still accepted
+    const planInputs = Array.isArray(planData.plans)
+      ? planData.plans
+      : [{ contract_plan_id, name, price, period_seconds, trial_period_seconds }];
+
+    const createdPlans = [];
+    for (const plan of planInputs) {
+      const trialPeriodSeconds = Number(plan.trial_period_seconds || 0);
+
+      // Create subscription plan
+      const planResponse = await xataRequest("tables/subscription_plans/data", {
+        method: "POST",
+        body: JSON.stringify({
+          developer_id: developerId,
+          project_id: project_id,
+          contract_plan_id: plan.contract_plan_id,
+          name: plan.name,
+          price: plan.price,
+          token_address: planTokenAddress,
+          token_symbol: planTokenSymbol,
+          period_seconds: plan.period_seconds,
+          trial_period_seconds: trialPeriodSeconds,
+          is_active: true
+        })
+      }, xataApiKey, env);
+
+      createdPlans.push({
+        id: planResponse.id,
+        contract_plan_id: plan.contract_plan_id,
+        name: plan.name,
+        price: plan.price,
+        token_symbol: planTokenSymbol,
+        period_seconds: plan.period_seconds,
+        trial_period_seconds: trialPeriodSeconds
+      });
     }
-    const nextPaymentDate = start_date + plan.period_seconds;
-    const actualPlanId = plan.id;
-    
-    // Extract developer_id
-    const developerId = plan.developer_id?.id || plan.developer_id;
-    
-    if (!developerId) {
-      return { success: false, error: "Plan does not have a valid developer_id" };
+
+    return { 
+      success: true, 
+      plan: createdPlans[0],
+      plans: createdPlans
+    };
+  } catch (error) {
+    console.error("Error creating subscription plan:", error);
+    return { success: false, error: "Failed to create subscription plan" };
+  }
+}
+
+// Archive or unarchive a plan after the on-chain archivePlan / unarchivePlan transaction
+async function setSubscriptionPlanArchived(xataApiKey, archiveData, env) {
+  try {
+    const { developer_id, project_id, contract_plan_id, archived, tx_hash } = archiveData;
+
+    if (!developer_id) {
+      return { success: false, error: "Developer not found" };
+    }
+
+    if (!project_id || contract_plan_id == null || typeof archived !== "boolean" || !tx_hash) {
+      return { success: false, error: "Missing required fields" };
     }
 
-    // Check for conflicting active subscription managed by the same contract
-    const activeSubResponse = await xataRequest("tables/user_subscriptions/query", {
+    const planResponse = await xataRequest("tables/subscription_plans/query", {
       method: "POST",
       body: JSON.stringify({
-        columns: ["id", "cancelled_at"],
+        columns: ["id", "developer_id", "is_active", "project_id.subscription_manager_address", "project_id.developer_id"],
         filter: {
-          user_id: userId,
-          plan_id: actualPlanId,
-          subscription_manager_address: subscription_manager_address,
-          status: "active"
+          project_id: project_id,
+          contract_plan_id: parseInt(contract_plan_id)
         },
         page: { size: 1 }
       })
     }, xataApiKey, env);
 
-    const hasActiveSubscription = activeSubResponse.records.some(record => record.cancelled_at === null || typeof record.cancelled_at === "undefined");
-
-    if (hasActiveSubscription) {
-      return { success: false, error: "Already have an active plan" };
+    if (planResponse.records.length === 0) {
+      return { success: false, error: `Subscription plan not found for contract_plan_id: ${contract_plan_id} in project: ${project_id}` };
     }
 
-    // Always create a new subscription record for fresh history
-    const newSubscription = await xataRequest("tables/user_subscriptions/data", {
-      method: "POST",
-      body: JSON.stringify({
-        user_id: userId,
-        plan_id: actualPlanId,
-        developer_id: developerId,
-        status: "active",
-        start_date: start_date,
-        last_payment_date: start_date,
-        next_payment_date: nextPaymentDate,
-        subscription_manager_address: subscription_manager_address
-      })
-    }, xataApiKey, env);
-
-    const subscriptionId = newSubscription.id;
-
-    // OPTIMIZATION: Run delegation and payment creation in parallel (they're independent)
-    const shouldHandleDelegation = delegation_data && user_smart_account_address && subscription_manager_address;
-    const shouldRecordPayment = amount && token_address && tx_hash;
-
-    let paymentId = null;
+    const plan = planResponse.records[0];
+    const projectDeveloperId = plan.project_id?.developer_id?.id || plan.project_id?.developer_id;
+    if (projectDeveloperId !== developer_id) {
+      return { success: false, error: "Project does not belong to developer" };
+    }
 
-    if (shouldHandleDelegation || shouldRecordPayment) {
-      const tasks = [];
+    const subscriptionManagerAddress = plan.project_id?.subscription_manager_address;
+    if (!subscriptionManagerAddress) {
+      return { success: false, error: "Project does not have a subscription manager address configured" };
+    }
 
-      // Task 1: Handle delegation
-      if (shouldHandleDelegation) {
-        tasks.push(
-          (async () => {
-            try {
-              // Check if delegation already exists
-              const existingDelegationResponse = await xataRequest("tables/user_delegations/query", {
-                method: "POST",
-                body: JSON.stringify({
-                  columns: ["id"],
-                  filter: { 
-                    user_smart_account: user_smart_account_address,
-                    subscription_manager_address: subscription_manager_address
-                  },
-                  page: { size: 1 }
-                })
-              }, xataApiKey, env);
+    // The plan only changes once its on-chain archive state is confirmed
+    if (!env.HYPERSYNC_API) {
+      return { success: false, error: "Unable to verify the transaction" };
+    }
 
-              if (existingDelegationResponse.records.length > 0) {
-                // Update existing delegation
-                await xataRequest(`tables/user_delegations/data/${existingDelegationResponse.records[0].id}`, {
-                  method: "PATCH",
-                  body: JSON.stringify({
-                    delegation_data: JSON.stringify(delegation_data),
-                    is_active: true,
-                    cancelled_at: null
-                  })
-                }, xataApiKey, env);
-              } else {
-                // Create new delegation
-                await xataRequest("tables/user_delegations/data", {
-                  method: "POST",
-                  body: JSON.stringify({
-                    user_wallet_address: user_wallet_address,
-                    user_smart_account: user_smart_account_address,
-                    subscription_manager_address: subscription_manager_address,
-                    delegation_data: JSON.stringify(delegation_data),
-                    is_active: true,
-                    created_at: Math.floor(Date.now() / 1000)
-                  })
-                }, xataApiKey, env);
-              }
-            } catch (delegationError) {
-              console.error('Error handling delegation:', delegationError);
-              // Don't fail the subscription creation if delegation fails
-            }
-          })()
-        );
-      }
+    const rpcUrl = `https://monad-testnet.rpc.hypersync.xyz/${env.HYPERSYNC_API}`;
+    const receipt = await jsonRpcRequest(rpcUrl, "eth_getTransactionReceipt", [tx_hash]);
 
-      // Task 2: Record payment
-      if (shouldRecordPayment) {
-        tasks.push(
-          (async () => {
-            try {
-              const payment = await xataRequest("tables/payments/data", {
-                method: "POST",
-                body: JSON.stringify({
-                  subscription_id: subscriptionId,
-                  user_id: userId,
-                  developer_id: developerId,
-                  amount: amount,
-                  token_address: token_address,
-                  token_symbol: projectSupportedTokenSymbol || "TOKEN",
-                  payment_date: payment_date || start_date,
-                  tx_hash: tx_hash
-                })
-              }, xataApiKey, env);
+    if (!receipt || receipt.status !== "0x1") {
+      return { success: false, error: "Transaction not found or failed on blockchain" };
+    }
 
-              return payment.id;
-            } catch (paymentError) {
-              console.error('Error recording payment:', paymentError);
-              // Don't fail the entire operation if payment recording fails
-              return null;
-            }
-          })()
-        );
-      }
+    const expectedTopic = archived ? PLAN_ARCHIVED_TOPIC : PLAN_UNARCHIVED_TOPIC;
+    const matched = (receipt.logs || []).some((log) =>
+      log.address?.toLowerCase() === subscriptionManagerAddress.toLowerCase()
+      && log.topics?.[0]?.toLowerCase() === expectedTopic
+      && parseInt(log.topics?.[1], 16) === parseInt(contract_plan_id)
+    );
 
-      // Wait for both tasks to complete
-      const results = await Promise.all(tasks);
-      
-      // Extract payment ID if payment was recorded (it's the last task if present)
-      if (shouldRecordPayment) {
-        paymentId = results[shouldHandleDelegation ? 1 : 0];
-      }
+    if (!matched) {
+      return { success: false, error: `${archived ? "PlanArchived" : "PlanUnarchived"} event not found in transaction` };
     }
 
-    const result = {
+    await xataRequest(`tables/subscription_plans/data/${plan.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ is_active: !archived })
+    }, xataApiKey, env);
+
+    return {
       success: true,
-      message: "Subscription created successfully",
-      subscription_id: subscriptionId
+      message: archived ? "Plan archived" : "Plan unarchived",
+      plan_id: plan.id,
+      is_active: !archived
     };
-
-    if (paymentId) {
-      result.payment_id = paymentId;
-      result.message += " and payment recorded";
-    }
-
-    return result;
   } catch (error) {
-    return { success: false, error: error.message };
+    console.error("Error updating plan archive state:", error);
+    return { success: false, error: "Failed to update plan archive state" };
   }
 }
 
-// Cancel a user subscription after blockchain transaction
-async function cancelUserSubscription(xataApiKey, cancellationData, env) {
+// Get minimal project contract configuration (subscription manager + token)
+async function getProjectContractInfo(xataApiKey, project_id, env) {
   try {
-    const { user_email, user_wallet_address, user_smart_account_address, plan_id, tx_hash, subscription_manager_address } = cancellationData;
+    if (!project_id) {
+      return { success: false, error: "Project ID required" };
+    }
 
-    // Find user by email
-    const userResponse = await xataRequest("tables/users/query", {
+    const projectResponse = await xataRequest("tables/projects/query", {
       method: "POST",
       body: JSON.stringify({
-        columns: ["id"],
-        filter: { email: user_email },
+        columns: [
+          "subscription_manager_address",
+          "agent_address",
+          "supported_token_id.token_address"
+        ],
+        filter: { id: project_id },
         page: { size: 1 }
       })
     }, xataApiKey, env);
 
-    if (userResponse.records.length === 0) {
-      return { success: false, error: "User not found" };
+    if (!projectResponse.records || projectResponse.records.length === 0) {
+      return { success: false, error: "Project not found" };
     }
 
-    const userId = userResponse.records[0].id;
-
-    const baseFilter = {
-      user_id: userId
-    };
-
-    if (plan_id) {
-      baseFilter.plan_id = plan_id;
-    }
+    const record = projectResponse.records[0];
+    const subscriptionManagerAddress = record.subscription_manager_address || null;
+    const tokenAddress = record.supported_token_id?.token_address || null;
 
-    if (subscription_manager_address) {
-      baseFilter.subscription_manager_address = subscription_manager_address;
+    if (!subscriptionManagerAddress || !tokenAddress) {
+      return { success: false, error: "Project is missing contract configuration" };
     }
 
-    const queryBody = {
-      columns: ["id", "next_payment_date", "subscription_manager_address", "start_date", "status", "cancellation_effective_at"],
-      filter: { ...baseFilter, status: "active" },
-      sort: {
-        start_date: "desc"
-      },
-      page: { size: 1 }
+    return {
+      success: true,
+      data: {
+        subscription_manager_address: subscriptionManagerAddress,
+        token_address: tokenAddress,
+        agent_address: record.agent_address || null,
+      }
     };
+  } catch (error) {
+    console.error("Error fetching project contract info:", error);
+    return { success: false, error: "Failed to fetch project contract info" };
+  }
+}
 
-    let subResponse = await xataRequest("tables/user_subscriptions/query", {
+// Get project details with API keys and subscription plans
+async function getProjectDetails(xataApiKey, project_id, env) {
+  try {
+    if (!project_id) return { success: false, error: "Project ID required" };
+
+    const projectResponse = await xataRequest("tables/projects/query", {
       method: "POST",
-      body: JSON.stringify(queryBody)
+      body: JSON.stringify({
+        columns: [
+          "id",
+          "name",
+          "description",
+          "subscription_manager_address",
+          "agent_address",
+          "grace_period_seconds",
+          "retry_interval_seconds",
+          "payout_address",
+          "sweep_policy",
+          "sweep_threshold",
+          "sweep_interval_seconds",
+          "last_swept_at",
+          "supported_token_id.name",
+          "supported_token_id.symbol",
+          "supported_token_id.token_address"
+        ],
+        filter: { id: project_id },
+        page: { size: 1 }
+      })
     }, xataApiKey, env);
 
-    if (subResponse.records.length === 0) {
-      const fallbackQuery = {
-        ...queryBody,
-        columns: ["id", "next_payment_date", "subscription_manager_address", "start_date", "status", "cancellation_effective_at"],
-        filter: { ...baseFilter }
-      };
-
-      subResponse = await xataRequest("tables/user_subscriptions/query", {
-        method: "POST",
-        body: JSON.stringify(fallbackQuery)
-      }, xataApiKey, env);
+    if (projectResponse.records.length === 0) {
+      return { success: false, error: "Project not found" };
     }
 
-    if (subResponse.records.length === 0) {
-      return { success: false, error: "Subscription not found" };
-    }
+    const projectRecord = projectResponse.records[0];
 
-    const subscription = subResponse.records[0];
-    const currentTime = Math.floor(Date.now() / 1000);
-    const nextPaymentDate = subscription.next_payment_date;
-    const cancellationEffectiveDate = nextPaymentDate || currentTime;
-    const newStatus = "cancelled";
+    const supportedTokenRecord = projectRecord.supported_token_id || null;
+    const cleanedSupportedToken = supportedTokenRecord
+      ? cleanRecords([supportedTokenRecord])[0]
+      : null;
 
-    // Update subscription status
-    await xataRequest(`tables/user_subscriptions/data/${subscription.id}`, {
-      method: "PATCH",
+    const { xata, supported_token_id, ...projectBase } = projectRecord;
+
+    // Get subscription plans for this project
+    const plansResponse = await xataRequest("tables/subscription_plans/query", {
+      method: "POST",
       body: JSON.stringify({
-        status: newStatus,
-        cancelled_at: currentTime,
-        cancellation_effective_at: cancellationEffectiveDate
+        columns: ["id", "contract_plan_id", "name", "price", "token_symbol", "period_seconds", "trial_period_seconds", "is_active"],
+        filter: { project_id: project_id },
+        sort: [{ "contract_plan_id": "asc" }],
+        page: { size: 200 }
       })
     }, xataApiKey, env);
 
-    // Cancel delegation if provided
-    const managerAddress = subscription_manager_address || subscription.subscription_manager_address;
-    if (user_smart_account_address && managerAddress) {
-      try {
-        // Find and deactivate the delegation
-        const delegationResponse = await xataRequest("tables/user_delegations/query", {
-          method: "POST",
-          body: JSON.stringify({
-            columns: ["id"],
-            filter: { 
-              user_smart_account: user_smart_account_address,
-              subscription_manager_address: managerAddress,
-              is_active: true
-            },
-            page: { size: 1 }
-          })
-        }, xataApiKey, env);
+    const cleanedPlans = cleanRecords(plansResponse.records || []);
+    const normalizedPlans = cleanedPlans.map((plan) => ({
+      ...plan,
+      token_symbol: plan.token_symbol || cleanedSupportedToken?.symbol || null
+    }));
 
-        if (delegationResponse.records.length > 0) {
-          await xataRequest(`tables/user_delegations/data/${delegationResponse.records[0].id}`, {
-            method: "DELETE"
-          }, xataApiKey, env);
-        }
-      } catch (delegationError) {
-        console.error('Error cancelling delegation:', delegationError);
-        // Don't fail the cancellation if delegation update fails
+    return { 
+      success: true,
+      data: {
+        project: {
+          id: projectBase.id,
+          name: projectBase.name,
+          description: projectBase.description,
+          subscription_manager_address: projectBase.subscription_manager_address,
+          agent_address: projectBase.agent_address || null,
+          grace_period_seconds: projectBase.grace_period_seconds ?? DEFAULT_GRACE_PERIOD_SECONDS,
+          retry_interval_seconds: projectBase.retry_interval_seconds ?? DEFAULT_RETRY_INTERVAL_SECONDS,
+          payout_address: projectBase.payout_address || null,
+          sweep_policy: projectBase.sweep_policy || "off",
+          sweep_threshold: projectBase.sweep_threshold ?? null,
+          sweep_interval_seconds: projectBase.sweep_interval_seconds ?? null,
+          last_swept_at: projectBase.last_swept_at ?? null,
+          supported_token: cleanedSupportedToken || null
+        },
+        subscription_plans: normalizedPlans.filter((plan) => plan.is_active !== false),
+        archived_plans: normalizedPlans.filter((plan) => plan.is_active === false)
       }
-    }
-
-    return { 
-      success: true, 
-      message: `Subscription cancelled successfully with status: ${newStatus}`,
-      status: newStatus
     };
   } catch (error) {
-    return { success: false, error: error.message };
+    console.error("Error fetching project details:", error);
+    return { success: false, error: "Failed to fetch project details" };
   }
 }
 
-// Create a new project
-async function createProject(xataApiKey, projectData, env) {
+// Update how long a project keeps failed renewals past_due and how often the collector retries them
+async function updateProjectDunningSettings(xataApiKey, dunningData, env) {
   try {
-    const {
-      developer_email,
-      name,
-      description,
-      factory_tx_hash,
-      plans,
-      supported_token_address
-    } = projectData;
+    const { developer_email, project_id } = dunningData;
+    const gracePeriodSeconds = Number(dunningData.grace_period_seconds);
+    const retryIntervalSeconds = Number(dunningData.retry_interval_seconds);
 
-    if (!developer_email || !name || !factory_tx_hash || !Array.isArray(plans) || plans.length === 0 || !supported_token_address) {
-      return { success: false, error: "Missing required fields" };
+    if (!Number.isInteger(gracePeriodSeconds) || gracePeriodSeconds < 0 || gracePeriodSeconds > MAX_GRACE_PERIOD_SECONDS) {
+      return { success: false, error: "Grace period must be between 0 and 30 days" };
     }
 
-    const developerResponse = await xataRequest("tables/developers/query", {
-      method: "POST",
-      body: JSON.stringify({
-        columns: ["id", "smart_account_address"],
-        filter: { email: developer_email },
-        page: { size: 1 }
-      })
-    }, xataApiKey, env);
-
-    if (developerResponse.records.length === 0) {
-      return { success: false, error: "Developer not found" };
+    if (!Number.isInteger(retryIntervalSeconds) || retryIntervalSeconds < MIN_RETRY_INTERVAL_SECONDS) {
+      return { success: false, error: "Retry interval must be at least one hour" };
     }
 
-    const developerRecord = developerResponse.records[0];
-    const developerId = developerRecord.id;
+    const ownership = await getOwnedProject(xataApiKey, developer_email, project_id, env);
+    if (!ownership.success) {
+      return ownership;
+    }
 
-    const supportedTokenResponse = await xataRequest("tables/supported_tokens/query", {
-      method: "POST",
+    await xataRequest(`tables/projects/data/${project_id}`, {
+      method: "PATCH",
       body: JSON.stringify({
-        columns: ["id", "name", "symbol", "token_address", "image_url"],
-        filter: { token_address: supported_token_address },
-        page: { size: 1 }
+        grace_period_seconds: gracePeriodSeconds,
+        retry_interval_seconds: retryIntervalSeconds
       })
     }, xataApiKey, env);
 
-    if (supportedTokenResponse.records.length === 0) {
-      return { success: false, error: "Unsupported token address" };
-    }
+    return {
+      success: true,
+      grace_period_seconds: gracePeriodSeconds,
+      retry_interval_seconds: retryIntervalSeconds
+    };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
 
-    const supportedTokenRecord = supportedTokenResponse.records[0];
+// Change the agent new subscribers delegate renewals to. Existing delegations keep naming the previous
+// agent, so the collector has to hold both keys until those subscribers sign again.
+async function updateProjectAgent(xataApiKey, agentData, env) {
+  try {
+    const { developer_email, project_id, agent_address } = agentData;
 
-    const onchainResult = await inspectFactoryDeployment(factory_tx_hash, env, { expectedToken: supported_token_address, planCount: plans.length });
+    if (!agent_address || !new RegExp(ADDRESS_PATTERN).test(agent_address)) {
+      return { success: false, error: "agent_address must be a valid address" };
+    }
 
-    if (!onchainResult.success) {
-      return { success: false, error: onchainResult.error || "Failed to verify factory transaction" };
+    const ownership = await getOwnedProject(xataApiKey, developer_email, project_id, env);
+    if (!ownership.success) {
+      return ownership;
     }
 
-    const { subscriptionManagerAddress, planIds } = onchainResult;
+    await xataRequest(`tables/projects/data/${project_id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ agent_address })
+    }, xataApiKey, env);
 
-    if (planIds.length !== plans.length) {
-      return { success: false, error: "Plan count mismatch between on-chain data and payload" };
+    return { success: true, agent_address };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+}
+
+// Update when the collector sweeps revenue to the payout address. A new payout address is set on-chain
+// first; its transaction is passed as payout_tx_hash so the stored address matches the contract.
+async function updateProjectSweepSettings(xataApiKey, sweepData, env) {
+  try {
+    const { developer_email, project_id, sweep_policy, payout_tx_hash } = sweepData;
+    const sweepThreshold = sweep_policy === "threshold" ? Number(sweepData.sweep_threshold) : null;
+    const sweepIntervalSeconds = sweep_policy === "schedule" ? Number(sweepData.sweep_interval_seconds) : null;
+
+    if (!SWEEP_POLICIES.includes(sweep_policy)) {
+      return { success: false, error: `sweep_policy must be one of: ${SWEEP_POLICIES.join(", ")}` };
     }
 
-    const projectResponse = await xataRequest("tables/projects/data", {
-      method: "POST",
-      body: JSON.stringify({
-        developer_id: developerId,
-        supported_token_id: supportedTokenRecord.id,
-        name,
-        description,
-        subscription_manager_address: subscriptionManagerAddress,
-        is_active: true
-      })
-    }, xataApiKey, env);
+    if (sweep_policy === "threshold" && !(sweepThreshold > 0)) {
+      return { success: false, error: "Sweep threshold must be greater than 0" };
+    }
 
-    const createdPlans = [];
+    if (sweep_policy === "schedule" && (!Number.isInteger(sweepIntervalSeconds) || sweepIntervalSeconds < MIN_SWEEP_INTERVAL_SECONDS)) {
+      return { success: false, error: "Sweep interval must be at least one hour" };
+    }
 
-    for (let index = 0; index < plans.length; index++) {
-      const plan = plans[index];
-      const contractPlanId = planIds[index];
+    const ownership = await getOwnedProject(xataApiKey, developer_email, project_id, env);
+    if (!ownership.success) {
+      return ownership;
+    }
 
-      if (!plan?.name || plan?.price == null || plan?.period_seconds == null) {
-        continue;
+    let payoutAddress;
+    if (payout_tx_hash) {
+      const subscriptionManagerAddress = ownership.project.subscription_manager_address;
+      if (!subscriptionManagerAddress) {
+        return { success: false, error: "Project does not have a subscription manager address configured" };
+      }
+      if (!env.HYPERSYNC_API) {
+        return { success: false, error: "Blockchain verification is not configured" };
       }
 
-      const priceAsNumber = Number(plan.price);
-      const periodAsNumber = Number(plan.period_seconds);
+      const rpcUrl = `https://monad-testnet.rpc.hypersync.xyz/${env.HYPERSYNC_API}`;
+      const receipt = await jsonRpcRequest(rpcUrl, "eth_getTransactionReceipt", [payout_tx_hash]);
+      if (!receipt || receipt.status !== "0x1") {
+        return { success: false, error: "Transaction not found or failed on blockchain" };
+      }
 
-      if (Number.isNaN(priceAsNumber) || Number.isNaN(periodAsNumber)) {
-        continue;
+      const updates = (receipt.logs || [])
+        .filter((log) => log.address?.toLowerCase() === subscriptionManagerAddress.toLowerCase())
+        .filter((log) => log.topics?.[0]?.toLowerCase() === PAYOUT_ADDRESS_UPDATED_TOPIC);
+      if (updates.length === 0) {
+        return { success: false, error: "PayoutAddressUpdated event not found in transaction" };
       }
 
-      const planResponse = await xataRequest("tables/subscription_plans/data", {
-        method: "POST",
-        body: JSON.stringify({
-          developer_id: developerId,
-          project_id: projectResponse.id,
-          contract_plan_id: contractPlanId,
-          name: plan.name,
-          price: priceAsNumber,
-          period_seconds: periodAsNumber,
-          token_address: supported_token_address,
-          token_symbol: supportedTokenRecord.symbol || null
-        })
-      }, xataApiKey, env);
+      const updatedAddress = normalizeEventAddress(updates[updates.length - 1].topics[1]);
+      payoutAddress = updatedAddress === ZERO_ADDRESS ? null : updatedAddress;
+    } else {
+      const projectResult = await getDeveloperProject(xataApiKey, ownership.developerId, project_id, env, ["payout_address"]);
+      if (!projectResult.success) {
+        return projectResult;
+      }
+      payoutAddress = projectResult.project.payout_address || null;
+    }
 
-      createdPlans.push({
-        id: planResponse.id,
-        contract_plan_id: contractPlanId,
-        name: plan.name,
-        price: priceAsNumber,
-        period_seconds: periodAsNumber
-      });
+    if (sweep_policy !== "off" && !payoutAddress) {
+      return { success: false, error: "Set a payout address before turning on automatic sweeps" };
     }
 
-    return {
-      success: true,
-      project: {
-        id: projectResponse.id,
-        name: projectResponse.name,
-        description: projectResponse.description,
-        subscription_manager_address: projectResponse.subscription_manager_address,
-        supported_token: {
-          id: supportedTokenRecord.id,
-          name: supportedTokenRecord.name,
-          symbol: supportedTokenRecord.symbol,
-          token_address: supportedTokenRecord.token_address,
-          image_url: supportedTokenRecord.image_url || null
-        },
-        plans: createdPlans
-      }
+    const settings = {
+      payout_address: payoutAddress,
+      sweep_policy: sweep_policy,
+      sweep_threshold: sweepThreshold,
+      sweep_interval_seconds: sweepIntervalSeconds
     };
+
+    await xataRequest(`tables/projects/data/${project_id}`, {
+      method: "PATCH",
+      body: JSON.stringify(settings)
+    }, xataApiKey, env);
+
+    return { success: true, ...settings };
   } catch (error) {
-    console.error("Error creating project:", error);
-    return { success: false, error: "Failed to create project" };
+    return { success: false, error: error.message };
   }
 }
 
-async function getSupportedTokens(xataApiKey, env) {
-  const response = await xataRequest("tables/supported_tokens/query", {
+// Look up a promo code for checkout and make sure it can still be redeemed
+async function getRedeemableCoupon(xataApiKey, projectId, code, env) {
+  const normalizedCode = String(code).trim().toUpperCase();
+  if (!COUPON_CODE_PATTERN.test(normalizedCode)) {
+    return { success: false, error: "coupon_not_found" };
+  }
+
+  const couponResponse = await xataRequest("tables/coupons/query", {
     method: "POST",
     body: JSON.stringify({
-      columns: ["id", "name", "symbol", "token_address", "image_url"],
-      page: { size: 200 }
+      columns: [
+        "id",
+        "code",
+        "code_hash",
+        "contract_coupon_id",
+        "discount_type",
+        "discount_value",
+        "duration_charges",
+        "max_redemptions",
+        "redemption_count",
+        "expires_at",
+        "is_active"
+      ],
+      filter: { project_id: projectId, code: normalizedCode },
+      page: { size: 1 }
     })
   }, xataApiKey, env);
 
-  return {
-    success: true,
-    tokens: cleanRecords(response.records)
-  };
+  const coupon = couponResponse.records[0];
+  if (!coupon) {
+    return { success: false, error: "coupon_not_found" };
+  }
+  if (!coupon.is_active) {
+    return { success: false, error: "coupon_inactive" };
+  }
+  if (coupon.expires_at && coupon.expires_at <= Math.floor(Date.now() / 1000)) {
+    return { success: false, error: "coupon_expired" };
+  }
+  if (coupon.max_redemptions && (coupon.redemption_count || 0) >= coupon.max_redemptions) {
+    return { success: false, error: "coupon_fully_redeemed" };
+  }
+
+  return { success: true, coupon };
 }
 
-async function jsonRpcRequest(rpcUrl, method, params = []) {
-  const response = await fetch(rpcUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0",
-      id: Date.now(),
-      method,
-      params,
-    }),
-  });
+// Discounted price in token units, computed exactly like SubscriptionManager._chargeAmount
+function applyCouponDiscount(price, coupon) {
+  const priceUnits = parseTokenUnits(price);
+  let discounted;
+  if (coupon.discount_type === "percent") {
+    const basisPoints = BigInt(Math.round(Number(coupon.discount_value) * 100));
+    discounted = priceUnits - (priceUnits * basisPoints) / 10000n;
+  } else {
+    const valueUnits = parseTokenUnits(coupon.discount_value);
+    discounted = valueUnits >= priceUnits ? 0n : priceUnits - valueUnits;
+  }
+  return formatTokenUnits(discounted);
+}
 
-  const payload = await response.json();
+// Record a coupon after the developer created it on their SubscriptionManager
+async function createProjectCoupon(xataApiKey, couponData, env) {
+  try {
+    const { developer_email, project_id, tx_hash } = couponData;
+    const code = String(couponData.code || "").trim().toUpperCase();
 
-  if (!response.ok) {
-    throw new Error(`RPC request failed with status ${response.status}`);
-  }
+    if (!COUPON_CODE_PATTERN.test(code)) {
+      return { success: false, error: "Code must be 3-32 letters, numbers, dashes or underscores" };
+    }
 
-  if (payload.error) {
-    const message = typeof payload.error === "string"
-      ? payload.error
-      : payload.error.message || JSON.stringify(payload.error);
-    throw new Error(`RPC error: ${message}`);
-  }
+    if (!tx_hash) {
+      return { success: false, error: "Transaction hash required" };
+    }
 
-  return payload.result;
-}
+    if (!env.HYPERSYNC_API) {
+      return { success: false, error: "Blockchain verification is not configured" };
+    }
 
-function normalizeEventAddress(value) {
-  if (typeof value !== "string") {
-    return null;
-  }
+    const ownership = await getOwnedProject(xataApiKey, developer_email, project_id, env);
+    if (!ownership.success) {
+      return ownership;
+    }
 
-  const hex = value.startsWith("0x") ? value.slice(2) : value;
-  if (hex.length === 0) {
-    return null;
-  }
+    const subscriptionManagerAddress = ownership.project.subscription_manager_address;
+    if (!subscriptionManagerAddress) {
+      return { success: false, error: "Project does not have a subscription manager address configured" };
+    }
 
-  const trimmed = hex.padStart(40, "0").slice(-40);
-  return `0x${trimmed}`.toLowerCase();
-}
+    const rpcUrl = `https://monad-testnet.rpc.hypersync.xyz/${env.HYPERSYNC_API}`;
+    const receipt = await jsonRpcRequest(rpcUrl, "eth_getTransactionReceipt", [tx_hash]);
 
-function decodeAddressFromEventData(data, position = 0) {
-  if (typeof data !== "string") {
-    return null;
-  }
+    if (!receipt || receipt.status !== "0x1") {
+      return { success: false, error: "Transaction not found or failed on blockchain" };
+    }
 
-  const hex = data.startsWith("0x") ? data.slice(2) : data;
-  const offset = position * 64;
+    const created = (receipt.logs || [])
+      .filter((log) => log.address?.toLowerCase() === subscriptionManagerAddress.toLowerCase())
+      .map((log) => decodeCouponCreated(log.topics, log.data))
+      .find(Boolean);
 
-  if (hex.length < offset + 64) {
-    return null;
-  }
+    if (!created) {
+      return { success: false, error: "CouponCreated event not found in transaction" };
+    }
 
-  const word = hex.slice(offset, offset + 64);
-  return normalizeEventAddress(`0x${word.slice(-40)}`);
-}
+    const existingResponse = await xataRequest("tables/coupons/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id"],
+        filter: { project_id: project_id, contract_coupon_id: created.couponId },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
 
-function decodeSubscriptionManagerDeployed(topics, data) {
-  if (!Array.isArray(topics) || topics.length < 3) {
-    return null;
-  }
+    if (existingResponse.records.length > 0) {
+      return { success: true, message: "Coupon already recorded", coupon_id: existingResponse.records[0].id };
+    }
 
-  const signature = topics[0]?.toLowerCase();
-  if (signature !== SUBSCRIPTION_MANAGER_DEPLOYED_TOPIC) {
-    return null;
+    const coupon = {
+      project_id: project_id,
+      developer_id: ownership.developerId,
+      contract_coupon_id: created.couponId,
+      code: code,
+      code_hash: created.codeHash,
+      discount_type: created.isPercent ? "percent" : "fixed",
+      // Percent coupons are stored as a percentage, the contract keeps basis points
+      discount_value: created.isPercent ? Number(created.value) / 100 : formatTokenUnits(created.value),
+      duration_charges: created.durationCharges,
+      max_redemptions: created.maxRedemptions,
+      redemption_count: 0,
+      expires_at: created.expiresAt || null,
+      is_active: true
+    };
+
+    const couponResponse = await xataRequest("tables/coupons/data", {
+      method: "POST",
+      body: JSON.stringify(coupon)
+    }, xataApiKey, env);
+
+    return {
+      success: true,
+      data: {
+        coupon: { id: couponResponse.id, ...coupon }
+      }
+    };
+  } catch (error) {
+    console.error("Error creating coupon:", error);
+    return { success: false, error: "Failed to create coupon" };
   }
+}
 
-  const creator = normalizeEventAddress(topics[1]);
-  const owner = normalizeEventAddress(topics[2]);
-  const subscriptionManager = decodeAddressFromEventData(data, 0);
+// List a project's coupons, newest first
+async function getProjectCoupons(xataApiKey, developerEmail, projectId, env) {
+  try {
+    const ownership = await getOwnedProject(xataApiKey, developerEmail, projectId, env);
+    if (!ownership.success) {
+      return ownership;
+    }
+
+    const couponsResponse = await xataRequest("tables/coupons/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: [
+          "id",
+          "contract_coupon_id",
+          "code",
+          "discount_type",
+          "discount_value",
+          "duration_charges",
+          "max_redemptions",
+          "redemption_count",
+          "expires_at",
+          "is_active"
+        ],
+        filter: { project_id: projectId },
+        sort: [{ "xata.createdAt": "desc" }]
+      })
+    }, xataApiKey, env);
 
-  if (!creator || !owner || !subscriptionManager) {
-    return null;
+    return {
+      success: true,
+      data: {
+        coupons: cleanRecords(couponsResponse.records || [])
+      }
+    };
+  } catch (error) {
+    console.error("Error fetching coupons:", error);
+    return { success: false, error: "Failed to fetch coupons" };
   }
-
-  return { creator, owner, subscriptionManager };
 }
 
-async function inspectFactoryDeployment(txHash, env, expected) {
+// Mark a coupon inactive after it was deactivated on-chain
+async function deactivateProjectCoupon(xataApiKey, deactivateData, env) {
   try {
-    const rpcUrl = `https://monad-testnet.rpc.hypersync.xyz/${env.HYPERSYNC_API}`;
-    const factoryAddress = env.SUBSCRIPTION_MANAGER_FACTORY;
+    const { developer_email, project_id, coupon_id, tx_hash } = deactivateData;
 
-    if (!factoryAddress) {
-      return { success: false, error: "Factory configuration missing" };
+    if (!coupon_id || !tx_hash) {
+      return { success: false, error: "Missing required fields" };
     }
 
-    const receipt = await jsonRpcRequest(rpcUrl, "eth_getTransactionReceipt", [txHash]);
-
-    if (!receipt) {
-      return { success: false, error: "Transaction not found" };
+    const ownership = await getOwnedProject(xataApiKey, developer_email, project_id, env);
+    if (!ownership.success) {
+      return ownership;
     }
 
-    if (receipt.status !== "0x1") {
-      return { success: false, error: "Factory transaction failed" };
-    }
+    const couponResponse = await xataRequest("tables/coupons/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id", "contract_coupon_id"],
+        filter: { id: coupon_id, project_id: project_id },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
 
-    if (!receipt.logs || receipt.logs.length === 0) {
-      return { success: false, error: "No logs found on transaction" };
+    if (couponResponse.records.length === 0) {
+      return { success: false, error: "Coupon not found" };
     }
 
-    const hasFactoryLog = receipt.logs.some((log) => log.address?.toLowerCase() === factoryAddress.toLowerCase());
-
-    if (!hasFactoryLog) {
-      return { success: false, error: "Factory log not found" };
-    }
+    const coupon = couponResponse.records[0];
+    const subscriptionManagerAddress = ownership.project.subscription_manager_address;
 
-    const deploymentLog = receipt.logs.find((log) => log.address?.toLowerCase() === factoryAddress.toLowerCase());
+    if (env.HYPERSYNC_API && subscriptionManagerAddress) {
+      const rpcUrl = `https://monad-testnet.rpc.hypersync.xyz/${env.HYPERSYNC_API}`;
+      const receipt = await jsonRpcRequest(rpcUrl, "eth_getTransactionReceipt", [tx_hash]);
 
-    if (!deploymentLog) {
-      return { success: false, error: "Factory deployment log not found" };
-    }
+      if (!receipt || receipt.status !== "0x1") {
+        return { success: false, error: "Transaction not found or failed on blockchain" };
+      }
 
-    const deploymentInfo = decodeSubscriptionManagerDeployed(deploymentLog.topics, deploymentLog.data);
+      const matched = (receipt.logs || []).some((log) =>
+        log.address?.toLowerCase() === subscriptionManagerAddress.toLowerCase()
+        && log.topics?.[0]?.toLowerCase() === COUPON_DEACTIVATED_TOPIC
+        && parseInt(log.topics?.[1], 16) === coupon.contract_coupon_id
+      );
 
-    if (!deploymentInfo) {
-      return { success: false, error: "Failed to decode factory deployment log" };
+      if (!matched) {
+        return { success: false, error: "CouponDeactivated event not found in transaction" };
+      }
     }
 
-    const { subscriptionManager: subscriptionManagerAddress } = deploymentInfo;
+    await xataRequest(`tables/coupons/data/${coupon.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ is_active: false })
+    }, xataApiKey, env);
 
-    const managerLogs = receipt.logs.filter((log) => log.address?.toLowerCase() === subscriptionManagerAddress.toLowerCase());
+    return { success: true, message: "Coupon deactivated", coupon_id: coupon.id };
+  } catch (error) {
+    console.error("Error deactivating coupon:", error);
+    return { success: false, error: "Failed to deactivate coupon" };
+  }
+}
 
-    const planLogs = managerLogs.filter((log) => log.topics?.[0]?.toLowerCase() === PLAN_CREATED_TOPIC.toLowerCase());
+// Create developer profile
+async function createDeveloper(xataApiKey, developerData, env) {
+  try {
+    const { 
+      email, 
+      wallet_address, 
+      smart_account_address,
+      display_name, 
+      company_name, 
+      website_url, 
+      logo_url, 
+      description 
+    } = developerData;
 
-    if (expected?.planCount && planLogs.length !== expected.planCount) {
-      return { success: false, error: "Plan event count mismatch" };
+    // Check if developer already exists
+    const existingDeveloperResponse = await xataRequest("tables/developers/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id", "email"],
+        filter: { email: email },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    if (existingDeveloperResponse.records.length > 0) {
+      return { success: false, error: "Developer profile already exists for this email" };
     }
 
-    const planIds = planLogs.map((log) => parseInt(log.topics[1], 16));
+    // Create developer profile
+    const developerResponse = await xataRequest("tables/developers/data", {
+      method: "POST",
+      body: JSON.stringify({
+        wallet_address: wallet_address,
+        smart_account_address: smart_account_address,
+        display_name: display_name,
+        email: email,
+        company_name: company_name,
+        website_url: website_url,
+        logo_url: logo_url,
+        description: description,
+        is_verified: false,
+        is_active: true
+      })
+    }, xataApiKey, env);
 
-    return {
-      success: true,
-      subscriptionManagerAddress,
-      planIds
+    return { 
+      success: true, 
+      developer: {
+        id: developerResponse.id,
+        email: developerResponse.email,
+        display_name: developerResponse.display_name,
+        company_name: developerResponse.company_name,
+        is_verified: developerResponse.is_verified
+      }
     };
   } catch (error) {
-    console.error("inspectFactoryDeployment error", error);
-    return { success: false, error: "Failed to inspect factory deployment" };
+    console.error("Error creating developer:", error);
+    return { success: false, error: "Failed to create developer profile" };
   }
 }
 
-// Get developer's projects
-async function getDeveloperProjects(xataApiKey, developer_email, env) {
+// Get developer information by email
+async function getDeveloperInfo(xataApiKey, email, env) {
   try {
-    if (!developer_email) return { projects: [] };
+    if (!email) return { found: false };
 
-    // Find developer by email
     const developerResponse = await xataRequest("tables/developers/query", {
       method: "POST",
       body: JSON.stringify({
-        columns: ["id"],
-        filter: { email: developer_email },
+        columns: ["id", "wallet_address", "smart_account_address", "display_name", "email", "company_name", "website_url", "logo_url", "description", "is_verified", "is_active"],
+        filter: { email: email },
         page: { size: 1 }
       })
     }, xataApiKey, env);
 
     if (developerResponse.records.length === 0) {
-      return { projects: [] };
+      return { found: false };
     }
 
-    const developerId = developerResponse.records[0].id;
+    const developer = developerResponse.records[0];
+    return { 
+      found: true, 
+      developer: {
+        id: developer.id,
+        wallet_address: developer.wallet_address,
+        smart_account_address: developer.smart_account_address,
+        display_name: developer.display_name,
+        email: developer.email,
+        company_name: developer.company_name,
+        website_url: developer.website_url,
+        logo_url: developer.logo_url,
+        description: developer.description,
+        is_verified: developer.is_verified,
+        is_active: developer.is_active
+      }
+    };
+  } catch (error) {
+    console.error("Error fetching developer info:", error);
+    return { found: false, error: "Failed to fetch developer information" };
+  }
+}
 
-    // Get projects for this developer
-    const projectsResponse = await xataRequest("tables/projects/query", {
+function generateApiKeyValue() {
+  return `ak_${toHex(randomBytes(24))}`;
+}
+
+async function hashApiKey(keyValue) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(keyValue));
+  return toHex(new Uint8Array(digest));
+}
+
+// Stored rows never carry the key itself, so this is safe to send to the dashboard
+function formatApiKey(record) {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description || "",
+    key_prefix: record.key_prefix,
+    project_id: record.project_id?.id || record.project_id || null,
+    project_name: record.project_id?.name || null,
+    permissions: Array.isArray(record.permissions) ? record.permissions : [],
+    created_at: record.created_at || null,
+    expires_at: record.expires_at || null,
+    last_used_at: record.last_used_at || null,
+    revoked_at: record.revoked_at || null,
+    replaced_by_id: record.replaced_by_id?.id || record.replaced_by_id || null,
+    is_active: record.is_active !== false && !record.revoked_at
+  };
+}
+
+// Insert a new key row; the returned key_value is only ever shown at creation
+async function insertApiKey(xataApiKey, fields, env) {
+  const keyValue = generateApiKeyValue();
+  const keyHash = await hashApiKey(keyValue);
+  const now = Math.floor(Date.now() / 1000);
+
+  const apiKeyResponse = await xataRequest("tables/api_keys/data", {
+    method: "POST",
+    body: JSON.stringify({
+      developer_id: fields.developerId,
+      project_id: fields.projectId,
+      key_prefix: keyValue.slice(0, API_KEY_PREFIX_LENGTH),
+      key_hash: keyHash,
+      name: fields.name,
+      description: fields.description || "",
+      permissions: fields.permissions,
+      created_at: now,
+      expires_at: fields.expiresAt || null,
+      is_active: true
+    })
+  }, xataApiKey, env);
+
+  if (!apiKeyResponse || apiKeyResponse.error) {
+    return null;
+  }
+
+  return {
+    ...formatApiKey({
+      ...apiKeyResponse,
+      project_id: fields.project ? { id: fields.projectId, name: fields.project.name } : fields.projectId
+    }),
+    key_value: keyValue
+  };
+}
+
+// Resolve an API key and make sure it belongs to the calling developer
+async function getOwnedApiKey(xataApiKey, developerEmail, apiKeyId, env) {
+  if (!apiKeyId) {
+    return { success: false, error: "API key ID required" };
+  }
+
+  const developerInfo = await getDeveloperInfo(xataApiKey, developerEmail, env);
+  if (!developerInfo.found) {
+    return { success: false, error: "Developer not found" };
+  }
+
+  const response = await xataRequest("tables/api_keys/query", {
+    method: "POST",
+    body: JSON.stringify({
+      columns: ["id", "developer_id", "project_id.id", "project_id.name", "name", "description", "key_prefix", "permissions", "created_at", "expires_at", "last_used_at", "revoked_at", "replaced_by_id", "is_active"],
+      filter: { id: apiKeyId, developer_id: developerInfo.developer.id },
+      page: { size: 1 }
+    })
+  }, xataApiKey, env);
+
+  if (response.records.length === 0) {
+    return { success: false, error: "API key not found" };
+  }
+
+  return { success: true, apiKey: response.records[0], developerId: developerInfo.developer.id };
+}
+
+// Get developer's API keys, including revoked and expired ones so the dashboard can show their history
+async function getDeveloperApiKeys(xataApiKey, email, env) {
+  try {
+    if (!email) return { success: false, error: "Email required" };
+
+    // First get developer info
+    const developerInfo = await getDeveloperInfo(xataApiKey, email, env);
+    if (!developerInfo.found) {
+      return { success: false, error: "Developer not found" };
+    }
+
+    const developerId = developerInfo.developer.id;
+
+    // Get API keys for this developer
+    const apiKeysResponse = await xataRequest("tables/api_keys/query", {
       method: "POST",
       body: JSON.stringify({
-        columns: [
-          "id",
-          "name",
-          "description",
-          "subscription_manager_address",
-          "is_active",
-          "supported_token_id.name",
-          "supported_token_id.symbol",
-          "supported_token_id.token_address"
-        ],
-        filter: { developer_id: developerId, is_active: true },
+        columns: ["id", "project_id.id", "project_id.name", "name", "description", "key_prefix", "permissions", "created_at", "expires_at", "last_used_at", "revoked_at", "replaced_by_id", "is_active"],
+        filter: { developer_id: developerId },
         sort: [{ "xata.createdAt": "desc" }]
       })
     }, xataApiKey, env);
 
-    const projects = projectsResponse.records.map(project => ({
-      id: project.id,
-      name: project.name,
-      description: project.description,
-      subscription_manager_address: project.subscription_manager_address,
-      supported_token: project.supported_token_id ? {
-        id: project.supported_token_id.id || project.supported_token_id.xata_id || null,
-        name: project.supported_token_id.name,
-        symbol: project.supported_token_id.symbol,
-        token_address: project.supported_token_id.token_address
-      } : null
-    }));
+    if (!apiKeysResponse || apiKeysResponse.error) {
+      return { success: false, error: "Failed to fetch API keys" };
+    }
 
-    return { projects };
+    return { 
+      success: true, 
+      data: {
+        api_keys: await Promise.all((apiKeysResponse.records || []).map(async (record) => ({
+          ...formatApiKey(record),
+          usage: await getApiKeyUsage(record.id, env)
+        })))
+      }
+    };
   } catch (error) {
-    console.error("Error fetching developer projects:", error);
-    return { projects: [] };
+    console.error("Error fetching developer API keys:", error);
+    return { success: false, error: "Failed to fetch API keys" };
   }
 }
 
-// Create API key for a project
-async function createApiKey(xataApiKey, apiKeyData, env) {
+// Create a developer API key scoped to one project and a set of permissions
+async function createDeveloperApiKey(xataApiKey, keyData, env) {
   try {
-    const { developer_email, project_id, name, description } = apiKeyData;
+    const { developer_email, name, description, project_id, permissions, expires_at } = keyData;
 
-    // Find developer by email
-    const developerResponse = await xataRequest("tables/developers/query", {
-      method: "POST",
-      body: JSON.stringify({
-        columns: ["id"],
-        filter: { email: developer_email },
-        page: { size: 1 }
-      })
-    }, xataApiKey, env);
+    if (!developer_email || !name) {
+      return { success: false, error: "Developer email and name are required" };
+    }
+
+    if (!Array.isArray(permissions) || permissions.length === 0 || permissions.some((permission) => !API_KEY_PERMISSIONS.includes(permission))) {
+      return { success: false, error: `permissions must be a non-empty list of: ${API_KEY_PERMISSIONS.join(", ")}` };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (expires_at !== undefined && expires_at !== null && (!Number.isInteger(expires_at) || expires_at <= now)) {
+      return { success: false, error: "expires_at must be a future unix timestamp" };
+    }
 
-    if (developerResponse.records.length === 0) {
-      return { success: false, error: "Developer not found" };
+    const ownership = await getOwnedProject(xataApiKey, developer_email, project_id, env);
+    if (!ownership.success) {
+      return { success: false, error: ownership.error };
     }
 
-    const developerId = developerResponse.records[0].id;
+    const apiKey = await insertApiKey(xataApiKey, {
+      developerId: ownership.developerId,
+      projectId: project_id,
+      project: ownership.project,
+      name,
+      description,
+      permissions: [...new Set(permissions)],
+      expiresAt: expires_at
+    }, env);
 
-    // Create API key
-    const keyValue = `ak_${Math.random().toString(36).substring(2, 15)}${Math.random().toString(36).substring(2, 15)}`;
-    
-    const apiKeyResponse = await xataRequest("tables/api_keys/data", {
-      method: "POST",
-      body: JSON.stringify({
-        developer_id: developerId,
-        key_value: keyValue,
-        name: name,
-        description: description,
-        is_active: true
-      })
-    }, xataApiKey, env);
+    if (!apiKey) {
+      return { success: false, error: "Failed to create API key" };
+    }
 
     return { 
       success: true, 
-      api_key: {
-        id: apiKeyResponse.id,
-        key_value: keyValue,
-        name: name,
-        description: description
+      data: {
+        api_key: apiKey
       }
     };
   } catch (error) {
-    console.error("Error creating API key:", error);
+    console.error("Error creating developer API key:", error);
     return { success: false, error: "Failed to create API key" };
   }
 }
 
-// Create subscription plan
-async function createSubscriptionPlan(xataApiKey, planData, env) {
+// Replace a key with a new one carrying the same scope; the old key keeps working for the overlap window
+async function rotateDeveloperApiKey(xataApiKey, rotateData, env) {
   try {
-    const { 
-      developer_email, 
-      project_id, 
-      contract_plan_id, 
-      name, 
-      price, 
-      period_seconds,
-      token_address
-    } = planData;
-
-    // Find developer by email
-    const developerResponse = await xataRequest("tables/developers/query", {
-      method: "POST",
-      body: JSON.stringify({
-        columns: ["id"],
-        filter: { email: developer_email },
-        page: { size: 1 }
-      })
-    }, xataApiKey, env);
+    const { developer_email, api_key_id } = rotateData;
+    const overlapSeconds = rotateData.overlap_seconds ?? 0;
 
-    if (developerResponse.records.length === 0) {
-      return { success: false, error: "Developer not found" };
+    if (!Number.isInteger(overlapSeconds) || overlapSeconds < 0 || overlapSeconds > MAX_API_KEY_ROTATION_OVERLAP_SECONDS) {
+      return { success: false, error: `overlap_seconds must be between 0 and ${MAX_API_KEY_ROTATION_OVERLAP_SECONDS}` };
     }
 
-    const developerId = developerResponse.records[0].id;
-
-    // Fetch project to validate ownership and supported token
-    const projectResponse = await xataRequest("tables/projects/query", {
-      method: "POST",
-      body: JSON.stringify({
-        columns: [
-          "id",
-          "developer_id",
-          "supported_token_id.token_address",
-          "supported_token_id.symbol"
-        ],
-        filter: { id: project_id },
-        page: { size: 1 }
-      })
-    }, xataApiKey, env);
-
-    if (projectResponse.records.length === 0) {
-      return { success: false, error: "Project not found" };
+    const owned = await getOwnedApiKey(xataApiKey, developer_email, api_key_id, env);
+    if (!owned.success) {
+      return owned;
     }
 
-    const projectRecord = projectResponse.records[0];
-
-    const projectDeveloperId = projectRecord.developer_id?.id || projectRecord.developer_id;
-    if (projectDeveloperId && projectDeveloperId !== developerId) {
-      return { success: false, error: "Project does not belong to developer" };
+    const current = formatApiKey(owned.apiKey);
+    const now = Math.floor(Date.now() / 1000);
+    if (!current.is_active || (current.expires_at && current.expires_at <= now)) {
+      return { success: false, error: "Only active keys can be rotated" };
     }
-
-    const supportedToken = projectRecord.supported_token_id;
-    if (!supportedToken?.token_address) {
-      return { success: false, error: "Project does not have a supported token configured" };
+    if (current.replaced_by_id) {
+      return { success: false, error: "API key was already rotated" };
     }
 
-    const normalizedProjectToken = supportedToken.token_address.toLowerCase();
-    const providedToken = token_address?.toLowerCase();
-    if (providedToken && providedToken !== normalizedProjectToken) {
-      return { success: false, error: "Token address does not match project's supported token" };
+    // Upgraded keys without a project keep their developer-wide scope on rotation
+    const apiKey = await insertApiKey(xataApiKey, {
+      developerId: owned.developerId,
+      projectId: current.project_id,
+      project: current.project_id ? { name: current.project_name } : null,
+      name: current.name,
+      description: current.description,
+      permissions: current.permissions,
+      expiresAt: current.expires_at
+    }, env);
+
+    if (!apiKey) {
+      return { success: false, error: "Failed to create API key" };
     }
 
-    const planTokenAddress = supportedToken.token_address;
-    const planTokenSymbol = supportedToken.symbol || "TOKEN";
+    // An overlap of 0 revokes the old key straight away
+    const retireFields = overlapSeconds === 0
+      ? { revoked_at: now, is_active: false }
+      : { expires_at: current.expires_at ? Math.min(current.expires_at, now + overlapSeconds) : now + overlapSeconds };
 
-    // Create subscription plan
-    const planResponse = await xataRequest("tables/subscription_plans/data", {
-      method: "POST",
-      body: JSON.stringify({
-        developer_id: developerId,
-        project_id: project_id,
-        contract_plan_id: contract_plan_id,
-        name: name,
-        price: price,
-        token_address: planTokenAddress,
-        token_symbol: planTokenSymbol,
-        period_seconds: period_seconds,
-        is_active: true
-      })
+    await xataRequest(`tables/api_keys/data/${api_key_id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ ...retireFields, replaced_by_id: apiKey.id })
     }, xataApiKey, env);
 
-    return { 
-      success: true, 
-      plan: {
-        id: planResponse.id,
-        contract_plan_id: contract_plan_id,
-        name: name,
-        price: price,
-        token_symbol: planTokenSymbol,
-        period_seconds: period_seconds
+    return {
+      success: true,
+      data: {
+        api_key: apiKey,
+        replaced_api_key: { ...current, ...retireFields, replaced_by_id: apiKey.id, is_active: overlapSeconds > 0 }
       }
     };
   } catch (error) {
-    console.error("Error creating subscription plan:", error);
-    return { success: false, error: "Failed to create subscription plan" };
+    console.error("Error rotating API key:", error);
+    return { success: false, error: "Failed to rotate API key" };
   }
 }
 
-// Get minimal project contract configuration (subscription manager + token)
-async function getProjectContractInfo(xataApiKey, project_id, env) {
+async function revokeDeveloperApiKey(xataApiKey, developerEmail, apiKeyId, env) {
   try {
-    if (!project_id) {
-      return { success: false, error: "Project ID required" };
+    const owned = await getOwnedApiKey(xataApiKey, developerEmail, apiKeyId, env);
+    if (!owned.success) {
+      return owned;
     }
 
-    const projectResponse = await xataRequest("tables/projects/query", {
-      method: "POST",
-      body: JSON.stringify({
-        columns: [
-          "subscription_manager_address",
-          "supported_token_id.token_address"
-        ],
-        filter: { id: project_id },
-        page: { size: 1 }
-      })
+    if (owned.apiKey.revoked_at) {
+      return { success: true, data: { api_key: formatApiKey(owned.apiKey) } };
+    }
+
+    const revokedAt = Math.floor(Date.now() / 1000);
+    await xataRequest(`tables/api_keys/data/${apiKeyId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ revoked_at: revokedAt, is_active: false })
     }, xataApiKey, env);
 
-    if (!projectResponse.records || projectResponse.records.length === 0) {
-      return { success: false, error: "Project not found" };
+    return {
+      success: true,
+      data: {
+        api_key: formatApiKey({ ...owned.apiKey, revoked_at: revokedAt, is_active: false })
+      }
+    };
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    return { success: false, error: "Failed to revoke API key" };
+  }
+}
+
+// Get the delegation that renews one subscription
+async function getUserDelegation(xataApiKey, user_smart_account, subscription_manager_address, contract_subscription_id, env) {
+  try {
+    if (!user_smart_account || !subscription_manager_address || contract_subscription_id === undefined || contract_subscription_id === null) {
+      return { success: false, error: "Smart account, subscription manager address and subscription ID required" };
     }
 
-    const record = projectResponse.records[0];
-    const subscriptionManagerAddress = record.subscription_manager_address || null;
-    const tokenAddress = record.supported_token_id?.token_address || null;
+    const delegations = await queryAllRecords(xataApiKey, "user_delegations", {
+      columns: ["id", "delegation_data", "subscription_id.contract_subscription_id", "subscription_id.status"],
+      filter: {
+        user_smart_account: user_smart_account,
+        subscription_manager_address: subscription_manager_address,
+        is_active: true
+      }
+    }, env);
 
-    if (!subscriptionManagerAddress || !tokenAddress) {
-      return { success: false, error: "Project is missing contract configuration" };
+    const delegation = delegations.find((record) => record.subscription_id?.contract_subscription_id === parseInt(contract_subscription_id));
+    if (!delegation) {
+      return { success: false, error: "No active delegation found" };
+    }
+
+    // Parse delegation_data if it's a string - this contains the complete signed delegation
+    const delegationData = parseDelegationData(delegation.delegation_data);
+    if (!delegationData) {
+      return { success: false, error: "Invalid delegation data format" };
     }
 
+    // Subscriptions from before delegations were stored per subscription were given copies of one
+    // signed delegation; disabling it on-chain stops the renewals of all of them
+    const sharedWith = delegations
+      .filter((record) => record.id !== delegation.id && record.delegation_data === delegation.delegation_data)
+      .filter((record) => ["active", "past_due", "paused"].includes(record.subscription_id?.status))
+      .map((record) => record.subscription_id.contract_subscription_id);
+
     return {
       success: true,
       data: {
-        subscription_manager_address: subscriptionManagerAddress,
-        token_address: tokenAddress,
+        delegation: delegationData,
+        shared_with_subscriptions: sharedWith
       }
     };
   } catch (error) {
-    console.error("Error fetching project contract info:", error);
-    return { success: false, error: "Failed to fetch project contract info" };
+    console.error("Error fetching user delegation:", error);
+    return { success: false, error: "Failed to fetch delegation" };
   }
 }
 
-// Get project details with API keys and subscription plans
-async function getProjectDetails(xataApiKey, project_id, env) {
+// List a user's active delegations with the subscriptions that rely on each of them
+async function listUserDelegations(xataApiKey, userEmail, env) {
   try {
-    if (!project_id) return { success: false, error: "Project ID required" };
+    if (!userEmail) {
+      return { success: false, error: "User email required" };
+    }
 
-    const projectResponse = await xataRequest("tables/projects/query", {
+    const userResponse = await xataRequest("tables/users/query", {
       method: "POST",
       body: JSON.stringify({
-        columns: [
-          "id",
-          "name",
-          "description",
-          "subscription_manager_address",
-          "supported_token_id.name",
-          "supported_token_id.symbol",
-          "supported_token_id.token_address"
-        ],
-        filter: { id: project_id },
+        columns: ["id", "smart_account_address"],
+        filter: { email: userEmail },
         page: { size: 1 }
       })
     }, xataApiKey, env);
 
-    if (projectResponse.records.length === 0) {
-      return { success: false, error: "Project not found" };
+    const user = userResponse.records[0];
+    if (!user || !user.smart_account_address) {
+      return { success: true, data: { delegations: [] } };
     }
 
-    const projectRecord = projectResponse.records[0];
+    const [delegations, subscriptions] = await Promise.all([
+      queryAllRecords(xataApiKey, "user_delegations", {
+        columns: ["id", "subscription_id", "subscription_manager_address", "delegation_data", "created_at"],
+        filter: { user_smart_account: user.smart_account_address, is_active: true },
+        sort: [{ created_at: "desc" }]
+      }, env),
+      queryAllRecords(xataApiKey, "user_subscriptions", {
+        columns: ["id", "status", "subscription_manager_address", "contract_subscription_id", "plan_id.name", "plan_id.project_id.name"],
+        filter: { user_id: user.id, status: { $any: ["active", "past_due", "paused"] } }
+      }, env)
+    ]);
+    const subscriptionsById = new Map(subscriptions.map((subscription) => [subscription.id, subscription]));
+
+    // Subscriptions from before delegations were stored per subscription hold copies of one signed
+    // pair. List each pair once with every subscription it renews, since revoking it stops them all.
+    const delegationsBySignedData = new Map();
+    for (const delegation of delegations) {
+      const copies = delegationsBySignedData.get(delegation.delegation_data) || [];
+      copies.push(delegation);
+      delegationsBySignedData.set(delegation.delegation_data, copies);
+    }
 
-    const supportedTokenRecord = projectRecord.supported_token_id || null;
-    const cleanedSupportedToken = supportedTokenRecord
-      ? cleanRecords([supportedTokenRecord])[0]
-      : null;
+    const rows = [...delegationsBySignedData.values()].map((copies) => {
+      const [delegation] = copies;
+      const linkedSubscriptions = copies
+        .map((copy) => subscriptionsById.get(copy.subscription_id?.id || copy.subscription_id))
+        .filter(Boolean)
+        .map((subscription) => ({
+          id: subscription.id,
+          status: subscription.status,
+          contract_subscription_id: subscription.contract_subscription_id ?? null,
+          plan_name: subscription.plan_id?.name || null,
+          project_name: subscription.plan_id?.project_id?.name || null
+        }));
 
-    const { xata, supported_token_id, ...projectBase } = projectRecord;
+      return {
+        id: delegation.id,
+        subscription_manager_address: delegation.subscription_manager_address,
+        created_at: delegation.created_at,
+        delegation: parseDelegationData(delegation.delegation_data),
+        subscriptions: linkedSubscriptions
+      };
+    });
 
-    // Get subscription plans for this project
-    const plansResponse = await xataRequest("tables/subscription_plans/query", {
+    return { success: true, data: { delegations: rows } };
+  } catch (error) {
+    console.error("Error listing user delegations:", error);
+    return { success: false, error: "Failed to fetch delegations" };
+  }
+}
+
+// Mark a delegation the user disabled on-chain from the Permissions page as inactive, with its shared copies
+async function revokeUserDelegation(xataApiKey, userEmail, delegationId, txHash, env) {
+  try {
+    if (!userEmail || !delegationId || !txHash) {
+      return { success: false, error: "Delegation ID and transaction hash required" };
+    }
+
+    const userResponse = await xataRequest("tables/users/query", {
       method: "POST",
       body: JSON.stringify({
-        columns: ["id", "contract_plan_id", "name", "price", "token_symbol", "period_seconds"],
-        filter: { project_id: project_id, is_active: true },
-        sort: [{ "contract_plan_id": "asc" }]
+        columns: ["id", "smart_account_address"],
+        filter: { email: userEmail },
+        page: { size: 1 }
       })
     }, xataApiKey, env);
 
-    const cleanedPlans = cleanRecords(plansResponse.records || []);
-    const normalizedPlans = cleanedPlans.map((plan) => ({
-      ...plan,
-      token_symbol: plan.token_symbol || cleanedSupportedToken?.symbol || null
-    }));
+    const user = userResponse.records[0];
+    if (!user || !user.smart_account_address) {
+      return { success: false, error: "User not found" };
+    }
+
+    const delegationResponse = await xataRequest("tables/user_delegations/query", {
+      method: "POST",
+      body: JSON.stringify({
+        columns: ["id", "user_smart_account", "delegation_data", "is_active"],
+        filter: { id: delegationId },
+        page: { size: 1 }
+      })
+    }, xataApiKey, env);
+
+    const delegation = delegationResponse.records[0];
+    if (!delegation || delegation.user_smart_account?.toLowerCase() !== user.smart_account_address.toLowerCase()) {
+      return { success: false, error: "Delegation not found" };
+    }
+
+    // Only a confirmed disableDelegation of one of this record's signed delegations may switch it off
+    const rpcUrl = `https://monad-testnet.rpc.hypersync.xyz/${env.HYPERSYNC_API}`;
+    const receipt = await jsonRpcRequest(rpcUrl, "eth_getTransactionReceipt", [txHash]);
+
+    if (!receipt) {
+      return { success: false, error: "Transaction not found on blockchain" };
+    }
+
+    if (receipt.status !== "0x1") {
+      return { success: false, error: "Transaction failed on blockchain" };
+    }
+
+    // The event carries the whole delegation, so the signature identifies which one was disabled
+    const parsed = parseDelegationData(delegation.delegation_data);
+    const signatures = [parsed?.signedApproveDelegation?.signature, parsed?.signedProcessPaymentDelegation?.signature]
+      .filter((signature) => typeof signature === "string" && signature.length > 2)
+      .map((signature) => signature.slice(2).toLowerCase());
+    const disabledEvent = (receipt.logs || []).find((log) =>
+      log.address?.toLowerCase() === DELEGATION_MANAGER_ADDRESS
+      && log.topics?.[0]?.toLowerCase() === DISABLED_DELEGATION_TOPIC
+      && normalizeEventAddress(log.topics?.[2]) === delegation.user_smart_account.toLowerCase()
+      && signatures.some((signature) => log.data?.toLowerCase().includes(signature))
+    );
+
+    if (!disabledEvent) {
+      return { success: false, error: "DisabledDelegation event not found in transaction" };
+    }
+
+    // Copies of the same signed pair (from before delegations were stored per subscription) were
+    // disabled on-chain with it, so the collector must stop redeeming those as well
+    const copies = await queryAllRecords(xataApiKey, "user_delegations", {
+      columns: ["id", "delegation_data"],
+      filter: {
+        user_smart_account: delegation.user_smart_account,
+        is_active: true
+      }
+    }, env);
+    const disabledIds = [
+      ...new Set([
+        ...(delegation.is_active === false ? [] : [delegation.id]),
+        ...copies
+          .filter((copy) => copy.delegation_data === delegation.delegation_data)
+          .map((copy) => copy.id)
+      ])
+    ];
+
+    const currentTime = Math.floor(Date.now() / 1000);
+    await Promise.all(disabledIds.map((id) => xataRequest(`tables/user_delegations/data/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify({
+        is_active: false,
+        cancelled_at: currentTime
+      })
+    }, xataApiKey, env)));
+
+    return { success: true, data: { revoked_ids: disabledIds } };
+  } catch (error) {
+    console.error("Error revoking user delegation:", error);
+    return { success: false, error: "Failed to revoke delegation" };
+  }
+}
+
+// --- Webhooks ---
+const WEBHOOK_MAX_ATTEMPTS = 6;
+const WEBHOOK_BASE_BACKOFF_SECONDS = 60;
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+// How long a claimed delivery stays locked; a claim older than this was abandoned and is retried
+const WEBHOOK_CLAIM_SECONDS = 60;
+const WEBHOOK_DELIVERY_COLUMNS = [
+  "id",
+  "event_id",
+  "event_type",
+  "payload",
+  "status",
+  "attempt_count",
+  "next_attempt_at",
+  "locked_until",
+  "endpoint_id.url",
+  "endpoint_id.secret",
+  "endpoint_id.is_active"
+];
+
+const toHex = (bytes) => [...bytes].map(b => b.toString(16).padStart(2, '0')).join('');
+
+function generateWebhookSecret() {
+  return `whsec_${toHex(randomBytes(24))}`;
+}
+
+function generateWebhookEventId() {
+  return `evt_${toHex(randomBytes(12))}`;
+}
+
+// Signature is HMAC-SHA256 over "<timestamp>.<raw body>", sent as "t=<timestamp>,v1=<hex>"
+async function signWebhookPayload(secret, timestamp, body) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return toHex(new Uint8Array(signature));
+}
+
+// 1m, 2m, 4m, 8m, 16m between attempts
+function computeWebhookBackoffSeconds(attempt) {
+  return WEBHOOK_BASE_BACKOFF_SECONDS * 2 ** Math.max(0, attempt - 1);
+}
+
+// Resolve a project and make sure it belongs to the calling developer
+async function getOwnedProject(xataApiKey, developerEmail, projectId, env) {
+  if (!developerEmail) {
+    return { success: false, error: "Developer email required" };
+  }
+  if (!projectId) {
+    return { success: false, error: "Project ID required" };
+  }
+
+  const developerInfo = await getDeveloperInfo(xataApiKey, developerEmail, env);
+  if (!developerInfo.found) {
+    return { success: false, error: "Developer not found" };
+  }
+
+  const projectResponse = await xataRequest("tables/projects/query", {
+    method: "POST",
+    body: JSON.stringify({
+      columns: ["id", "developer_id", "subscription_manager_address"],
+      filter: { id: projectId },
+      page: { size: 1 }
+    })
+  }, xataApiKey, env);
+
+  if (projectResponse.records.length === 0) {
+    return { success: false, error: "Project not found" };
+  }
+
+  const project = projectResponse.records[0];
+  const projectDeveloperId = project.developer_id?.id || project.developer_id;
+  if (projectDeveloperId !== developerInfo.developer.id) {
+    return { success: false, error: "Project does not belong to developer" };
+  }
+
+  return { success: true, project, developerId: developerInfo.developer.id };
+}
+
+// Resolve a webhook endpoint and make sure its project belongs to the calling developer
+async function getOwnedWebhookEndpoint(xataApiKey, developerEmail, endpointId, env) {
+  if (!endpointId) {
+    return { success: false, error: "Endpoint ID required" };
+  }
+
+  const endpointResponse = await xataRequest("tables/webhook_endpoints/query", {
+    method: "POST",
+    body: JSON.stringify({
+      columns: ["id", "project_id", "url", "is_active"],
+      filter: { id: endpointId },
+      page: { size: 1 }
+    })
+  }, xataApiKey, env);
 
-    return { 
-      success: true,
-      data: {
-        project: {
-          id: projectBase.id,
-          name: projectBase.name,
-          description: projectBase.description,
-          subscription_manager_address: projectBase.subscription_manager_address,
-          supported_token: cleanedSupportedToken || null
-        },
-        subscription_plans: normalizedPlans
-      }
-    };
-  } catch (error) {
-    console.error("Error fetching project details:", error);
-    return { success: false, error: "Failed to fetch project details" };
+  if (endpointResponse.records.length === 0) {
+    return { success: false, error: "Webhook endpoint not found" };
+  }
+
+  const endpoint = endpointResponse.records[0];
+  const projectId = endpoint.project_id?.id || endpoint.project_id;
+  const ownership = await getOwnedProject(xataApiKey, developerEmail, projectId, env);
+  if (!ownership.success) {
+    return ownership;
   }
+
+  return { success: true, endpoint, projectId };
 }
 
-// Create developer profile
-async function createDeveloper(xataApiKey, developerData, env) {
+// Register a webhook endpoint for a project
+async function createWebhookEndpoint(xataApiKey, endpointData, env) {
   try {
-    const { 
-      email, 
-      wallet_address, 
-      smart_account_address,
-      display_name, 
-      company_name, 
-      website_url, 
-      logo_url, 
-      description 
-    } = developerData;
+    const { developer_email, project_id, url, description } = endpointData;
 
-    // Check if developer already exists
-    const existingDeveloperResponse = await xataRequest("tables/developers/query", {
-      method: "POST",
-      body: JSON.stringify({
-        columns: ["id", "email"],
-        filter: { email: email },
-        page: { size: 1 }
-      })
-    }, xataApiKey, env);
+    let parsedUrl;
+    try {
+      parsedUrl = new URL(url);
+    } catch (e) {
+      return { success: false, error: "Invalid webhook URL" };
+    }
 
-    if (existingDeveloperResponse.records.length > 0) {
-      return { success: false, error: "Developer profile already exists for this email" };
+    if (parsedUrl.protocol !== "https:") {
+      return { success: false, error: "Webhook URL must use https" };
     }
 
-    // Create developer profile
-    const developerResponse = await xataRequest("tables/developers/data", {
-      method: "POST",
-      body: JSON.stringify({
-        wallet_address: wallet_address,
-        smart_account_address: smart_account_address,
-        display_name: display_name,
-        email: email,
-        company_name: company_name,
-        website_url: website_url,
-        logo_url: logo_url,
-        description: description,
-        is_verified: false,
-        is_active: true
-      })
-    }, xataApiKey, env);
+    const ownership = await getOwnedProject(xataApiKey, developer_email, project_id, env);
+    if (!ownership.success) {
+      return ownership;
+    }
 
-    // Create initial API key for the developer
-    const keyValue = `ak_${Math.random().toString(36).substring(2, 15)}${Math.random().toString(36).substring(2, 15)}`;
-    
-    const apiKeyResponse = await xataRequest("tables/api_keys/data", {
+    const secret = generateWebhookSecret();
+    const endpointResponse = await xataRequest("tables/webhook_endpoints/data", {
       method: "POST",
       body: JSON.stringify({
-        developer_id: developerResponse.id,
-        key_value: keyValue,
-        name: "Default API Key",
-        description: "Initial API key created with developer profile",
+        project_id: project_id,
+        developer_id: ownership.developerId,
+        url: parsedUrl.toString(),
+        secret: secret,
+        description: description || "",
         is_active: true
       })
     }, xataApiKey, env);
 
-    return { 
-      success: true, 
-      developer: {
-        id: developerResponse.id,
-        email: developerResponse.email,
-        display_name: developerResponse.display_name,
-        company_name: developerResponse.company_name,
-        is_verified: developerResponse.is_verified
-      },
-      initial_api_key: {
-        id: apiKeyResponse.id,
-        key_value: keyValue,
-        name: "Default API Key",
-        description: "Initial API key created with developer profile"
+    // The signing secret is only ever returned here
+    return {
+      success: true,
+      data: {
+        endpoint: {
+          id: endpointResponse.id,
+          url: parsedUrl.toString(),
+          description: description || "",
+          is_active: true,
+          secret: secret
+        }
       }
     };
   } catch (error) {
-    console.error("Error creating developer:", error);
-    return { success: false, error: "Failed to create developer profile" };
+    console.error("Error creating webhook endpoint:", error);
+    return { success: false, error: "Failed to create webhook endpoint" };
   }
 }
 
-// Get developer information by email
-async function getDeveloperInfo(xataApiKey, email, env) {
+// List a project's webhook endpoints and their most recent deliveries
+async function getWebhookEndpoints(xataApiKey, developerEmail, projectId, env) {
   try {
-    if (!email) return { found: false };
+    const ownership = await getOwnedProject(xataApiKey, developerEmail, projectId, env);
+    if (!ownership.success) {
+      return ownership;
+    }
 
-    const developerResponse = await xataRequest("tables/developers/query", {
-      method: "POST",
-      body: JSON.stringify({
-        columns: ["id", "wallet_address", "smart_account_address", "display_name", "email", "company_name", "website_url", "logo_url", "description", "is_verified", "is_active"],
-        filter: { email: email },
-        page: { size: 1 }
-      })
-    }, xataApiKey, env);
+    const [endpointsResponse, deliveriesResponse] = await Promise.all([
+      xataRequest("tables/webhook_endpoints/query", {
+        method: "POST",
+        body: JSON.stringify({
+          columns: ["id", "url", "description", "is_active", "secret"],
+          filter: { project_id: projectId, is_active: true },
+          sort: [{ "xata.createdAt": "desc" }]
+        })
+      }, xataApiKey, env),
+      xataRequest("tables/webhook_deliveries/query", {
+        method: "POST",
+        body: JSON.stringify({
+          columns: [
+            "id",
+            "endpoint_id",
+            "event_id",
+            "event_type",
+            "status",
+            "attempt_count",
+            "next_attempt_at",
+            "last_attempt_at",
+            "response_status",
+            "last_error",
+            "delivered_at"
+          ],
+          filter: { project_id: projectId },
+          sort: [{ "xata.createdAt": "desc" }],
+          page: { size: 25 }
+        })
+      }, xataApiKey, env)
+    ]);
 
-    if (developerResponse.records.length === 0) {
-      return { found: false };
-    }
+    const endpoints = cleanRecords(endpointsResponse.records || []).map(({ secret, ...endpoint }) => ({
+      ...endpoint,
+      secret_hint: typeof secret === "string" ? secret.slice(-4) : null
+    }));
 
-    const developer = developerResponse.records[0];
-    return { 
-      found: true, 
-      developer: {
-        id: developer.id,
-        wallet_address: developer.wallet_address,
-        smart_account_address: developer.smart_account_address,
-        display_name: developer.display_name,
-        email: developer.email,
-        company_name: developer.company_name,
-        website_url: developer.website_url,
-        logo_url: developer.logo_url,
-        description: developer.description,
-        is_verified: developer.is_verified,
-        is_active: developer.is_active
+    const deliveries = cleanRecords(deliveriesResponse.records || []).map((delivery) => ({
+      ...delivery,
+      endpoint_id: delivery.endpoint_id?.id || delivery.endpoint_id
+    }));
+
+    return {
+      success: true,
+      data: {
+        endpoints,
+        deliveries
       }
     };
   } catch (error) {
-    console.error("Error fetching developer info:", error);
-    return { found: false, error: "Failed to fetch developer information" };
+    console.error("Error fetching webhook endpoints:", error);
+    return { success: false, error: "Failed to fetch webhook endpoints" };
   }
 }
 
-// Get developer's API keys
-async function getDeveloperApiKeys(xataApiKey, email, env) {
+// Disable a webhook endpoint (deliveries are kept for the log)
+async function deleteWebhookEndpoint(xataApiKey, developerEmail, endpointId, env) {
   try {
-    if (!email) return { success: false, error: "Email required" };
-
-    // First get developer info
-    const developerInfo = await getDeveloperInfo(xataApiKey, email, env);
-    if (!developerInfo.found) {
-      return { success: false, error: "Developer not found" };
+    const ownership = await getOwnedWebhookEndpoint(xataApiKey, developerEmail, endpointId, env);
+    if (!ownership.success) {
+      return ownership;
     }
 
-    const developerId = developerInfo.developer.id;
+    await xataRequest(`tables/webhook_endpoints/data/${endpointId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ is_active: false })
+    }, xataApiKey, env);
 
-    // Get API keys for this developer
-    const apiKeysResponse = await xataRequest("tables/api_keys/query", {
+    return { success: true, message: "Webhook endpoint disabled" };
+  } catch (error) {
+    console.error("Error deleting webhook endpoint:", error);
+    return { success: false, error: "Failed to delete webhook endpoint" };
+  }
+}
+
+// Every endpoint receiving the same event gets the same body
+function buildWebhookEvent(projectId, eventType, data) {
+  return {
+    id: generateWebhookEventId(),
+    type: eventType,
+    created_at: Math.floor(Date.now() / 1000),
+    project_id: projectId,
+    data: data || {}
+  };
+}
+
+async function createWebhookDeliveries(xataApiKey, endpointIds, event, env) {
+  const payload = JSON.stringify(event);
+
+  const deliveries = await Promise.all(endpointIds.map((endpointId) =>
+    xataRequest("tables/webhook_deliveries/data", {
       method: "POST",
       body: JSON.stringify({
-        columns: ["id", "key_value", "name", "description", "is_active"],
-        filter: { developer_id: developerId, is_active: true },
-        sort: [{ "xata.createdAt": "desc" }]
+        endpoint_id: endpointId,
+        project_id: event.project_id,
+        event_id: event.id,
+        event_type: event.type,
+        payload: payload,
+        status: "pending",
+        attempt_count: 0,
+        next_attempt_at: event.created_at
       })
-    }, xataApiKey, env);
+    }, xataApiKey, env)
+  ));
 
-    if (!apiKeysResponse || apiKeysResponse.error) {
-      return { success: false, error: "Failed to fetch API keys" };
-    }
+  return deliveries.map(delivery => delivery.id);
+}
 
-    return { 
-      success: true, 
-      data: {
-        api_keys: apiKeysResponse.records || []
-      }
-    };
+// Lock a delivery before sending it. The update only applies to the record version that was read,
+// so when the first dispatch and the cron retry pick up the same delivery only one of them sends it.
+async function claimWebhookDelivery(xataApiKey, delivery, env) {
+  const now = Math.floor(Date.now() / 1000);
+  const claimable = delivery.status === "pending"
+    || (delivery.status === "sending" && (delivery.locked_until || 0) <= now);
+  if (!claimable) {
+    return false;
+  }
+
+  try {
+    await xataRequest(`tables/webhook_deliveries/data/${delivery.id}?ifVersion=${delivery.xata?.version ?? 0}`, {
+      method: "PATCH",
+      body: JSON.stringify({ status: "sending", locked_until: now + WEBHOOK_CLAIM_SECONDS })
+    }, xataApiKey, env);
+    return true;
   } catch (error) {
-    console.error("Error fetching developer API keys:", error);
-    return { success: false, error: "Failed to fetch API keys" };
+    // Another dispatch changed the record first
+    return false;
   }
 }
 
-// Create developer API key (not tied to specific project)
-async function createDeveloperApiKey(xataApiKey, keyData, env) {
-  try {
-    const { developer_email, name, description } = keyData;
+// Send one delivery and record the outcome, scheduling a retry with exponential backoff on failure
+async function attemptWebhookDelivery(xataApiKey, delivery, env) {
+  const attempt = (delivery.attempt_count || 0) + 1;
+  const now = Math.floor(Date.now() / 1000);
+  const endpoint = delivery.endpoint_id || {};
 
-    if (!developer_email || !name) {
-      return { success: false, error: "Developer email and name are required" };
-    }
+  let responseStatus = null;
+  let errorMessage = null;
 
-    // Get developer info
-    const developerInfo = await getDeveloperInfo(xataApiKey, developer_email, env);
-    if (!developerInfo.found) {
-      return { success: false, error: "Developer not found" };
+  if (!endpoint.is_active || !endpoint.url || !endpoint.secret) {
+    errorMessage = "Endpoint disabled";
+  } else {
+    try {
+      const signature = await signWebhookPayload(endpoint.secret, now, delivery.payload);
+      const response = await fetch(endpoint.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Autiv-Webhooks/1.0",
+          "X-Autiv-Event": delivery.event_type,
+          "X-Autiv-Delivery": delivery.id,
+          "X-Autiv-Signature": `t=${now},v1=${signature}`
+        },
+        body: delivery.payload,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        errorMessage = `HTTP ${response.status}`;
+      }
+    } catch (error) {
+      errorMessage = error?.message || "Request failed";
     }
+  }
 
-    const developerId = developerInfo.developer.id;
+  const succeeded = !errorMessage;
+  const exhausted = !succeeded && (attempt >= WEBHOOK_MAX_ATTEMPTS || !endpoint.is_active);
+  const update = {
+    status: succeeded ? "succeeded" : (exhausted ? "failed" : "pending"),
+    attempt_count: attempt,
+    last_attempt_at: now,
+    next_attempt_at: succeeded || exhausted ? null : now + computeWebhookBackoffSeconds(attempt),
+    response_status: responseStatus,
+    last_error: errorMessage,
+    delivered_at: succeeded ? now : null,
+    locked_until: null
+  };
 
-    // Generate API key
-    const keyValue = `ak_${Math.random().toString(36).substring(2, 15)}${Math.random().toString(36).substring(2, 15)}`;
+  await xataRequest(`tables/webhook_deliveries/data/${delivery.id}`, {
+    method: "PATCH",
+    body: JSON.stringify(update)
+  }, xataApiKey, env);
 
-    // Create API key
-    const apiKeyResponse = await xataRequest("tables/api_keys/data", {
-      method: "POST",
-      body: JSON.stringify({
-        developer_id: developerId,
-        key_value: keyValue,
-        name: name,
-        description: description || "",
-        is_active: true
-      })
-    }, xataApiKey, env);
+  return { id: delivery.id, event_id: delivery.event_id, event_type: delivery.event_type, ...update };
+}
 
-    if (!apiKeyResponse || apiKeyResponse.error) {
-      return { success: false, error: "Failed to create API key" };
-    }
+async function dispatchWebhookDeliveries(xataApiKey, filter, env) {
+  const response = await xataRequest("tables/webhook_deliveries/query", {
+    method: "POST",
+    body: JSON.stringify({
+      columns: WEBHOOK_DELIVERY_COLUMNS,
+      filter,
+      sort: [{ "next_attempt_at": "asc" }],
+      page: { size: 50 }
+    })
+  }, xataApiKey, env);
 
-    return { 
-      success: true, 
-      data: {
-        api_key: {
-          id: apiKeyResponse.id,
-          key_value: keyValue,
-          name: name,
-          description: description || "",
-          is_active: true
-        }
+  const results = await Promise.allSettled(
+    (response.records || []).map(async (delivery) => {
+      if (!(await claimWebhookDelivery(xataApiKey, delivery, env))) {
+        return null;
       }
-    };
-  } catch (error) {
-    console.error("Error creating developer API key:", error);
-    return { success: false, error: "Failed to create API key" };
-  }
+      return attemptWebhookDelivery(xataApiKey, delivery, env);
+    })
+  );
+
+  return results
+    .filter(result => result.status === "fulfilled" && result.value)
+    .map(result => result.value);
 }
 
-// Get user delegation for a subscription
-async function getUserDelegation(xataApiKey, user_smart_account, subscription_manager_address, env) {
+// Record an event for every active endpoint of a project and attempt the first delivery.
+// Never throws: webhook problems must not fail the operation that produced the event.
+async function queueWebhookEvent(xataApiKey, projectId, eventType, data, env, ctx) {
   try {
-    if (!user_smart_account || !subscription_manager_address) {
-      return { success: false, error: "Smart account and subscription manager address required" };
+    if (!projectId) {
+      return { success: false, error: "Project ID required" };
     }
 
-    // Query user_delegations table
-    const delegationResponse = await xataRequest("tables/user_delegations/query", {
+    const endpointsResponse = await xataRequest("tables/webhook_endpoints/query", {
       method: "POST",
       body: JSON.stringify({
-        columns: ["id", "user_wallet_address", "user_smart_account", "subscription_manager_address", 
-                  "delegation_data", "is_active", "created_at"],
-        filter: { 
-          user_smart_account: user_smart_account,
-          subscription_manager_address: subscription_manager_address,
-          is_active: true
-        },
-        page: { size: 1 }
+        columns: ["id"],
+        filter: { project_id: projectId, is_active: true },
+        page: { size: 50 }
       })
     }, xataApiKey, env);
 
-    if (!delegationResponse || delegationResponse.error) {
-      return { success: false, error: "Failed to fetch delegation" };
+    const endpointIds = (endpointsResponse.records || []).map(record => record.id);
+    if (endpointIds.length === 0) {
+      return { success: true, deliveries: [] };
     }
 
-    if (delegationResponse.records.length === 0) {
-      return { success: false, error: "No active delegation found" };
+    const event = buildWebhookEvent(projectId, eventType, data);
+    const deliveryIds = await createWebhookDeliveries(xataApiKey, endpointIds, event, env);
+
+    const dispatch = dispatchWebhookDeliveries(xataApiKey, { id: { $any: deliveryIds } }, env)
+      .catch(error => console.error("Error dispatching webhook deliveries:", error));
+    if (ctx?.waitUntil) {
+      ctx.waitUntil(dispatch);
+    } else {
+      await dispatch;
     }
 
-    const delegation = delegationResponse.records[0];
-    
-    // Parse delegation_data if it's a string - this contains the complete signed delegation
-    let delegationData = delegation.delegation_data;
-    if (typeof delegationData === 'string') {
-      try {
-        delegationData = JSON.parse(delegationData);
-      } catch (e) {
-        console.error('Failed to parse delegation_data:', e);
-        return { success: false, error: "Invalid delegation data format" };
-      }
+    return { success: true, deliveries: deliveryIds };
+  } catch (error) {
+    console.error("Error queueing webhook event:", error);
+    return { success: false, error: "Failed to queue webhook event" };
+  }
+}
+
+// Send a webhook.test event to a single endpoint and report the result straight away
+async function sendTestWebhook(xataApiKey, developerEmail, endpointId, env) {
+  try {
+    const ownership = await getOwnedWebhookEndpoint(xataApiKey, developerEmail, endpointId, env);
+    if (!ownership.success) {
+      return ownership;
     }
 
-    // Return the delegation_data as-is - it already contains everything needed
-    // Including: delegate, delegator, authority, caveats, salt, signature
-    return { 
-      success: true, 
+    if (!ownership.endpoint.is_active) {
+      return { success: false, error: "Webhook endpoint is disabled" };
+    }
+
+    const event = buildWebhookEvent(ownership.projectId, "webhook.test", {
+      message: "This is a test event from Autiv",
+      endpoint_id: endpointId
+    });
+    const deliveryIds = await createWebhookDeliveries(xataApiKey, [endpointId], event, env);
+    const [delivery] = await dispatchWebhookDeliveries(xataApiKey, { id: { $any: deliveryIds } }, env);
+
+    if (!delivery) {
+      return { success: false, error: "Failed to send test event" };
+    }
+
+    return {
+      success: true,
       data: {
-        delegation: delegationData
+        delivery
       }
     };
   } catch (error) {
-    console.error("Error fetching user delegation:", error);
-    return { success: false, error: "Failed to fetch delegation" };
+    console.error("Error sending test webhook:", error);
+    return { success: false, error: "Failed to send test event" };
+  }
+}
+
+// Retry every pending delivery whose backoff has elapsed (run from the cron trigger).
+// This also picks up deliveries queued directly in the database by the payment collector,
+// and deliveries whose sender stopped before recording the outcome.
+async function retryDueWebhookDeliveries(xataApiKey, env) {
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    const results = await dispatchWebhookDeliveries(xataApiKey, {
+      $any: [
+        { status: "pending", next_attempt_at: { $le: now } },
+        { status: "sending", locked_until: { $le: now } }
+      ]
+    }, env);
+    return { success: true, attempted: results.length };
+  } catch (error) {
+    console.error("Error retrying webhook deliveries:", error);
+    return { success: false, error: "Failed to retry webhook deliveries" };
   }
 }
 
 export default {
   async fetch(request, env, ctx) {
-    return handleRequest(request, env);
+    return handleRequest(request, env, ctx);
+  },
+
+  async scheduled(event, env, ctx) {
+    ctx.waitUntil(retryDueWebhookDeliveries(env.XATA_API_KEY, env));
   },
 };
\ No newline at end of file
@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addressTopic, hex32, insertApiKey, now, seedProject, seedSubscriber, setupWorld, tokenUnits } from './helpers';
+
+const PAYMENT_PROCESSED_TOPIC = '0xc1af30fe4cadac62164a69345dcb921d4676a6a794279f7ab612aeff8d9be32d';
+
+const SMART_ACCOUNT = '0x00000000000000000000000000000000000000dd';
+
+describe('merchant collections', () => {
+	let world;
+	let seeded;
+	let user;
+	let collectorKey;
+
+	beforeEach(async () => {
+		world = setupWorld();
+		seeded = seedProject(world.xata);
+		user = seedSubscriber(world.xata, { smartAccount: SMART_ACCOUNT });
+		world.xata.insert('webhook_endpoints', {
+			project_id: seeded.project.id,
+			url: 'https://merchant.example.com/autiv',
+			secret: 'whsec_test',
+			is_active: true,
+		});
+		collectorKey = await insertApiKey(world.xata, {
+			developer_id: seeded.developer.id,
+			project_id: seeded.project.id,
+			permissions: ['collect_payments'],
+		});
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	const webhookEvents = () => world.webhookCalls.map((call) => JSON.parse(call.body));
+
+	function insertSubscription(fields = {}) {
+		return world.xata.insert('user_subscriptions', {
+			user_id: user.id,
+			plan_id: seeded.plan.id,
+			developer_id: seeded.developer.id,
+			status: 'active',
+			start_date: now() - 30 * 86400,
+			last_payment_date: now() - 30 * 86400,
+			next_payment_date: now() - 60,
+			subscription_manager_address: seeded.project.subscription_manager_address,
+			contract_subscription_id: 7,
+			retry_count: 0,
+			...fields,
+		});
+	}
+
+	describe('API key scopes', () => {
+		it('refuses routes the key has no permission for', async () => {
+			const response = await world.withApiKey(collectorKey, '/api/create-subscription-plan', { project_id: seeded.project.id });
+
+			expect(response.status).toBe(403);
+			expect(await response.json()).toEqual({ success: false, error: 'api_key_missing_permission', required_permission: 'manage_plans' });
+		});
+
+		it('refuses dashboard-only routes', async () => {
+			const response = await world.withApiKey(collectorKey, '/api/create-api-key', { name: 'escalate' });
+
+			expect(response.status).toBe(403);
+			expect((await response.json()).required_permission).toBeNull();
+		});
+
+		it('keeps a project key inside its project', async () => {
+			const other = world.xata.insert('projects', { name: 'Other', developer_id: seeded.developer.id });
+
+			const response = await world.withApiKey(collectorKey, '/api/get-due-collections', { project_id: other.id });
+
+			expect(response.status).toBe(403);
+			expect((await response.json()).error).toBe('api_key_project_mismatch');
+		});
+
+		it('lets a key without a project reach every project of its developer only', async () => {
+			const developerKey = await insertApiKey(world.xata, { developer_id: seeded.developer.id, permissions: ['collect_payments'] });
+			const stranger = world.xata.insert('developers', { email: 'stranger@example.com' });
+			const foreign = world.xata.insert('projects', { name: 'Foreign', developer_id: stranger.id });
+
+			expect((await world.withApiKey(developerKey, '/api/get-due-collections', { project_id: seeded.project.id })).status).toBe(200);
+			expect((await world.withApiKey(developerKey, '/api/get-due-collections', { project_id: foreign.id })).status).toBe(403);
+		});
+
+		it('rejects revoked and expired keys', async () => {
+			const revoked = await insertApiKey(world.xata, {
+				developer_id: seeded.developer.id,
+				permissions: ['collect_payments'],
+				revoked_at: now() - 10,
+			});
+			const expired = await insertApiKey(world.xata, {
+				developer_id: seeded.developer.id,
+				permissions: ['collect_payments'],
+				expires_at: now() - 10,
+			});
+
+			const revokedResponse = await world.withApiKey(revoked, '/api/get-due-collections', { project_id: seeded.project.id });
+			const expiredResponse = await world.withApiKey(expired, '/api/get-due-collections', { project_id: seeded.project.id });
+
+			expect(revokedResponse.status).toBe(401);
+			expect((await revokedResponse.json()).error).toBe('api_key_revoked');
+			expect(expiredResponse.status).toBe(401);
+			expect((await expiredResponse.json()).error).toBe('api_key_expired');
+		});
+	});
+
+	describe('due collections', () => {
+		it('lists due subscriptions with their own delegation', async () => {
+			const due = insertSubscription();
+			const cancelled = insertSubscription({ contract_subscription_id: 8 });
+			insertSubscription({ contract_subscription_id: 9, status: 'paused', paused_at: now() - 86400 });
+			insertSubscription({ contract_subscription_id: 10, status: 'past_due', past_due_since: now() - 3600, next_retry_at: now() + 3600 });
+			insertSubscription({ contract_subscription_id: 11, next_payment_date: now() + 86400 });
+			world.xata.insert('user_delegations', {
+				subscription_id: due.id,
+				delegation_data: JSON.stringify({ limits: { maxAmount: '10', periodSeconds: 2592000 } }),
+				is_active: true,
+			});
+			world.xata.insert('user_delegations', {
+				subscription_id: cancelled.id,
+				delegation_data: JSON.stringify({ limits: { maxAmount: '10', periodSeconds: 2592000 } }),
+				is_active: false,
+				cancelled_at: now() - 10,
+			});
+
+			const response = await world.withApiKey(collectorKey, `/v1/projects/${seeded.project.id}/collections/due`, undefined, { method: 'GET' });
+			const { data } = await response.json();
+
+			expect(response.status).toBe(200);
+			expect(data.agent_address).toBe(seeded.project.agent_address);
+			expect(data.collections.map((collection) => collection.contract_subscription_id)).toEqual([7, 8]);
+			expect(data.collections[0]).toMatchObject({
+				user_smart_account: SMART_ACCOUNT,
+				delegation: { limits: { maxAmount: '10', periodSeconds: 2592000 } },
+				delegation_active: true,
+			});
+			expect(data.collections[1].delegation_active).toBe(false);
+		});
+	});
+
+	describe('reported outcomes', () => {
+		function report(body) {
+			return world.withApiKey(collectorKey, '/api/report-collection', { project_id: seeded.project.id, ...body });
+		}
+
+		it('moves a failed renewal into dunning and schedules a retry', async () => {
+			const subscription = insertSubscription();
+
+			const result = await (await report({ subscription_id: subscription.id, outcome: 'failed', reason: 'Insufficient balance', amount_due: 10, balance: 2 })).json();
+
+			const updated = world.xata.get('user_subscriptions', subscription.id);
+			expect(result.data).toMatchObject({ status: 'past_due', next_retry_at: updated.next_retry_at });
+			expect(updated).toMatchObject({ status: 'past_due', retry_count: 1 });
+			expect(updated.next_retry_at - updated.past_due_since).toBe(86400);
+			expect(world.xata.all('payment_attempts')).toEqual([expect.objectContaining({ status: 'failed', reason: 'Insufficient balance', balance: 2 })]);
+			expect(webhookEvents().map((event) => event.type)).toEqual(['subscription.past_due']);
+		});
+
+		it('expires the subscription once the grace period has run out', async () => {
+			const subscription = insertSubscription({
+				status: 'past_due',
+				past_due_since: now() - 3 * 86400 - 60,
+				next_retry_at: now() - 60,
+				retry_count: 3,
+			});
+
+			const result = await (await report({ subscription_id: subscription.id, outcome: 'failed' })).json();
+
+			expect(result.data).toMatchObject({ status: 'expired', next_retry_at: null });
+			expect(world.xata.get('user_subscriptions', subscription.id)).toMatchObject({ status: 'expired', retry_count: 4 });
+			expect(webhookEvents().map((event) => event.type)).toEqual(['subscription.expired']);
+		});
+
+		it('ignores failures reported before the renewal is due', async () => {
+			const subscription = insertSubscription({ next_payment_date: now() + 86400 });
+
+			const response = await report({ subscription_id: subscription.id, outcome: 'failed' });
+
+			expect(response.status).toBe(409);
+			expect(world.xata.get('user_subscriptions', subscription.id).status).toBe('active');
+		});
+
+		it('records a renewal proven by PaymentProcessed and clears dunning', async () => {
+			const subscription = insertSubscription({ status: 'past_due', past_due_since: now() - 3600, next_retry_at: now() - 60, retry_count: 1 });
+			const paidAt = now() - 30;
+			world.receipt('0xr1', [
+				{
+					address: seeded.project.subscription_manager_address,
+					topics: [PAYMENT_PROCESSED_TOPIC, addressTopic(SMART_ACCOUNT), hex32(7)],
+					data: `0x${hex32(tokenUnits(10)).slice(2)}${hex32(paidAt).slice(2)}`,
+				},
+			]);
+
+			const result = await (await report({ subscription_id: subscription.id, outcome: 'succeeded', tx_hash: '0xr1' })).json();
+
+			expect(result.data).toMatchObject({ status: 'active', next_payment_date: paidAt + 30 * 86400, already_recorded: false });
+			expect(world.xata.get('user_subscriptions', subscription.id)).toMatchObject({
+				status: 'active',
+				last_payment_date: paidAt,
+				past_due_since: null,
+				next_retry_at: null,
+				retry_count: 0,
+			});
+			expect(world.xata.all('payments')).toEqual([expect.objectContaining({ amount: 10, tx_hash: '0xr1', token_symbol: 'USDC' })]);
+			expect(webhookEvents().map((event) => event.type)).toEqual(['subscription.renewed']);
+
+			const repeated = await (await report({ subscription_id: subscription.id, outcome: 'succeeded', tx_hash: '0xr1' })).json();
+			expect(repeated.data.already_recorded).toBe(true);
+			expect(world.xata.all('payments')).toHaveLength(1);
+		});
+
+		it('refuses a success without a matching PaymentProcessed event', async () => {
+			const subscription = insertSubscription();
+			world.receipt('0xr2', [
+				{
+					address: seeded.project.subscription_manager_address,
+					topics: [PAYMENT_PROCESSED_TOPIC, addressTopic(SMART_ACCOUNT), hex32(99)],
+					data: `0x${hex32(tokenUnits(10)).slice(2)}${hex32(now()).slice(2)}`,
+				},
+			]);
+
+			const response = await report({ subscription_id: subscription.id, outcome: 'succeeded', tx_hash: '0xr2' });
+
+			expect(response.status).toBe(422);
+			expect(world.xata.all('payments')).toHaveLength(0);
+		});
+	});
+});
@@ -0,0 +1,350 @@
+import { createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { SignJWT, exportJWK, generateKeyPair } from 'jose';
+import { vi } from 'vitest';
+import worker from '../src';
+
+const DATABASE_URL = 'https://xata.test/db/autiv:main';
+const JWKS_URL = 'https://auth.privy.test/jwks.json';
+const PRIVY_APP_ID = 'test-app';
+
+// Link columns the worker reads through, keyed by table
+const LINKS = {
+	subscription_plans: { developer_id: 'developers', project_id: 'projects' },
+	coupons: { developer_id: 'developers', project_id: 'projects' },
+	user_subscriptions: { user_id: 'users', plan_id: 'subscription_plans', developer_id: 'developers', coupon_id: 'coupons' },
+	payments: {
+		subscription_id: 'user_subscriptions',
+		user_id: 'users',
+		developer_id: 'developers',
+		previous_plan_id: 'subscription_plans',
+	},
+	payment_attempts: { subscription_id: 'user_subscriptions' },
+	refunds: { payment_id: 'payments', subscription_id: 'user_subscriptions', developer_id: 'developers' },
+	projects: { developer_id: 'developers', supported_token_id: 'supported_tokens' },
+	api_keys: { developer_id: 'developers', project_id: 'projects', replaced_by_id: 'api_keys' },
+	user_delegations: { subscription_id: 'user_subscriptions' },
+	webhook_endpoints: { project_id: 'projects', developer_id: 'developers' },
+	webhook_deliveries: { endpoint_id: 'webhook_endpoints', project_id: 'projects' },
+};
+
+export const now = () => Math.floor(Date.now() / 1000);
+
+export const hex32 = (value) => `0x${BigInt(value).toString(16).padStart(64, '0')}`;
+
+export const addressTopic = (address) => `0x${address.slice(2).toLowerCase().padStart(64, '0')}`;
+
+export const tokenUnits = (amount) => BigInt(Math.round(amount * 1e6)) * 10n ** 12n;
+
+// In-memory stand-in for the Xata REST API: records keep link columns as ids, and queries
+// expand them the way Xata does for the columns that were asked for
+export class FakeXata {
+	constructor() {
+		this.tables = new Map();
+		this.nextId = 1;
+	}
+
+	table(name) {
+		if (!this.tables.has(name)) {
+			this.tables.set(name, new Map());
+		}
+		return this.tables.get(name);
+	}
+
+	insert(tableName, fields) {
+		const id = fields.id || `rec_${tableName}_${this.nextId++}`;
+		const record = { ...fields, id, xata: { version: 0 } };
+		this.table(tableName).set(id, record);
+		return record;
+	}
+
+	get(tableName, id) {
+		return this.table(tableName).get(id);
+	}
+
+	all(tableName) {
+		return [...this.table(tableName).values()];
+	}
+
+	resolve(tableName, record, path) {
+		const [head, ...rest] = path.split('.');
+		const value = record?.[head];
+		const linkedTable = LINKS[tableName]?.[head];
+		if (rest.length === 0 || !linkedTable) {
+			return value;
+		}
+		return this.resolve(linkedTable, this.get(linkedTable, value), rest.join('.'));
+	}
+
+	matches(tableName, record, filter = {}) {
+		return Object.entries(filter).every(([key, condition]) => {
+			if (key === '$any') {
+				return condition.some((branch) => this.matches(tableName, record, branch));
+			}
+			if (key === '$all') {
+				return condition.every((branch) => this.matches(tableName, record, branch));
+			}
+			if (key === '$not') {
+				return !this.matches(tableName, record, condition);
+			}
+			const value = this.resolve(tableName, record, key);
+			if (condition === null || typeof condition !== 'object') {
+				return (value ?? null) === condition;
+			}
+			return Object.entries(condition).every(([operator, operand]) => {
+				switch (operator) {
+					case '$any':
+						return operand.includes(value);
+					case '$is':
+						return (value ?? null) === operand;
+					case '$isNot':
+						return (value ?? null) !== operand;
+					case '$le':
+						return value != null && value <= operand;
+					case '$lt':
+						return value != null && value < operand;
+					case '$ge':
+						return value != null && value >= operand;
+					case '$gt':
+						return value != null && value > operand;
+					default:
+						throw new Error(`FakeXata: unsupported filter operator ${operator}`);
+				}
+			});
+		});
+	}
+
+	project(tableName, record, columns) {
+		const output = { id: record.id, xata: { ...record.xata } };
+		for (const column of columns || Object.keys(record)) {
+			const [head, ...rest] = column.split('.');
+			const linkedTable = LINKS[tableName]?.[head];
+			if (!linkedTable) {
+				output[head] = record[head] ?? null;
+				continue;
+			}
+			if (record[head] == null) {
+				output[head] = null;
+				continue;
+			}
+			const linked = this.get(linkedTable, record[head]);
+			const expanded = rest.length > 0 && linked ? this.project(linkedTable, linked, [rest.join('.')]) : { id: record[head] };
+			output[head] = typeof output[head] === 'object' && output[head] ? deepMerge(output[head], expanded) : expanded;
+		}
+		return output;
+	}
+
+	query(tableName, body) {
+		let records = this.all(tableName).filter((record) => this.matches(tableName, record, body.filter));
+		// Xata takes a single sort object or a list of them
+		const sorts = Array.isArray(body.sort) ? body.sort : body.sort ? [body.sort] : [];
+		for (const sort of [...sorts].reverse()) {
+			const [[column, direction]] = Object.entries(sort);
+			const sign = direction === 'desc' ? -1 : 1;
+			records = [...records].sort((a, b) => sign * ((this.resolve(tableName, a, column) ?? 0) - (this.resolve(tableName, b, column) ?? 0)));
+		}
+		const offset = body.page?.after ? Number(body.page.after) : 0;
+		const size = body.page?.size || 20;
+		const page = records.slice(offset, offset + size);
+		return {
+			records: page.map((record) => this.project(tableName, record, body.columns)),
+			meta: { page: { cursor: String(offset + size), more: offset + size < records.length, size } },
+		};
+	}
+
+	handle(method, path, search, body) {
+		const [, tableName, kind, id] = path.match(/^tables\/([^/]+)\/(query|data)(?:\/([^/]+))?$/) || [];
+		if (!tableName) {
+			return json({ message: `FakeXata: unsupported endpoint ${path}` }, 404);
+		}
+		if (kind === 'query') {
+			return json(this.query(tableName, body || {}));
+		}
+		if (!id) {
+			return json(this.insert(tableName, body), 201);
+		}
+
+		const record = this.get(tableName, id);
+		if (!record) {
+			return json({ message: 'record not found' }, 404);
+		}
+		if (method === 'GET') {
+			return json(record);
+		}
+		if (method === 'DELETE') {
+			this.table(tableName).delete(id);
+			return json(record);
+		}
+		const expectedVersion = search.get('ifVersion');
+		if (expectedVersion !== null && Number(expectedVersion) !== record.xata.version) {
+			return json({ message: 'record version mismatch' }, 422);
+		}
+		Object.assign(record, body, { xata: { version: record.xata.version + 1 } });
+		return json(record);
+	}
+}
+
+function deepMerge(target, source) {
+	const merged = { ...target };
+	for (const [key, value] of Object.entries(source)) {
+		merged[key] = value && typeof value === 'object' && merged[key] && typeof merged[key] === 'object' ? deepMerge(merged[key], value) : value;
+	}
+	return merged;
+}
+
+function json(data, status = 200) {
+	return new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+let signingKeys;
+async function getSigningKeys() {
+	if (!signingKeys) {
+		signingKeys = generateKeyPair('ES256').then(async ({ privateKey, publicKey }) => ({
+			privateKey,
+			jwk: { ...(await exportJWK(publicKey)), kid: 'test', alg: 'ES256' },
+		}));
+	}
+	return signingKeys;
+}
+
+// A Privy access token for the dashboard routes, signed with the key served from the test JWKS
+export async function privyToken(email) {
+	const { privateKey } = await getSigningKeys();
+	return new SignJWT({ email })
+		.setProtectedHeader({ alg: 'ES256', kid: 'test' })
+		.setIssuer('privy.io')
+		.setAudience(PRIVY_APP_ID)
+		.setIssuedAt()
+		.setExpirationTime('10m')
+		.sign(privateKey);
+}
+
+// Routes every outgoing fetch of the worker: Xata, the Monad RPC, the Privy JWKS and webhook receivers
+export function setupWorld() {
+	const xata = new FakeXata();
+	const receipts = new Map();
+	const webhookCalls = [];
+	const webhookResponses = new Map();
+
+	vi.stubGlobal('fetch', async (input, init = {}) => {
+		const request = new Request(input, init);
+		const url = new URL(request.url);
+		const text = await request.text();
+
+		if (request.url.startsWith(`${DATABASE_URL}/`)) {
+			const path = url.pathname.slice(new URL(DATABASE_URL).pathname.length + 1);
+			return xata.handle(request.method, path, url.searchParams, text ? JSON.parse(text) : null);
+		}
+		if (url.hostname === 'monad-testnet.rpc.hypersync.xyz') {
+			const { id, method, params } = JSON.parse(text);
+			if (method !== 'eth_getTransactionReceipt') {
+				return json({ jsonrpc: '2.0', id, error: { message: `unsupported method ${method}` } });
+			}
+			return json({ jsonrpc: '2.0', id, result: receipts.get(params[0]) ?? null });
+		}
+		if (request.url === JWKS_URL) {
+			const { jwk } = await getSigningKeys();
+			return json({ keys: [jwk] });
+		}
+
+		webhookCalls.push({ url: request.url, headers: Object.fromEntries(request.headers), body: text });
+		return new Response('ok', { status: webhookResponses.get(request.url) ?? 200 });
+	});
+
+	const env = {
+		XATA_API_KEY: 'xata-test-key',
+		DATABASE_URL_HTTPS: DATABASE_URL,
+		PRIVY_APP_ID,
+		PRIVY_JWKS_URL: JWKS_URL,
+		HYPERSYNC_API: 'test',
+	};
+
+	async function call(path, { body, headers = {}, method = 'POST' } = {}) {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new Request(`https://api.autiv.test${path}`, {
+				method,
+				headers: { 'Content-Type': 'application/json', ...headers },
+				body: body === undefined ? undefined : JSON.stringify(body),
+			}),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	return {
+		xata,
+		env,
+		webhookCalls,
+		// Make the receiver at a URL answer with this status
+		respondWith: (url, status) => webhookResponses.set(url, status),
+		receipt: (txHash, logs, status = '0x1') => receipts.set(txHash, { transactionHash: txHash, status, logs }),
+		// Dashboard request signed in as the given email
+		asUser: async (email, path, body) =>
+			call(path, { body: { timestamp: Date.now(), ...body }, headers: { Authorization: `Bearer ${await privyToken(email)}` } }),
+		// Merchant server request with an API key
+		withApiKey: (apiKey, path, body, extra = {}) => call(path, { body, headers: { 'X-Api-Key': apiKey }, ...extra }),
+		runCron: async () => {
+			const ctx = createExecutionContext();
+			await worker.scheduled({ cron: '* * * * *', scheduledTime: Date.now() }, env, ctx);
+			await waitOnExecutionContext(ctx);
+		},
+	};
+}
+
+async function sha256Hex(value) {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+	return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Store a hashed API key the way createDeveloperApiKey does and return the plaintext value
+export async function insertApiKey(xata, fields) {
+	const value = `ak_${crypto.randomUUID().replaceAll('-', '')}`;
+	xata.insert('api_keys', {
+		name: 'test key',
+		key_hash: await sha256Hex(value),
+		key_prefix: value.slice(0, 11),
+		is_active: true,
+		last_used_at: now(),
+		...fields,
+	});
+	return value;
+}
+
+// A developer with one project, a supported token and a monthly plan
+export function seedProject(xata, overrides = {}) {
+	const developer = xata.insert('developers', { email: 'merchant@example.com', company_name: 'Acme', is_active: true });
+	const token = xata.insert('supported_tokens', { symbol: 'USDC', token_address: '0x00000000000000000000000000000000000000aa' });
+	const project = xata.insert('projects', {
+		name: 'Acme Pro',
+		developer_id: developer.id,
+		supported_token_id: token.id,
+		subscription_manager_address: '0x00000000000000000000000000000000000000bb',
+		agent_address: '0x00000000000000000000000000000000000000cc',
+		grace_period_seconds: 3 * 86400,
+		retry_interval_seconds: 86400,
+		...overrides,
+	});
+	const plan = xata.insert('subscription_plans', {
+		name: 'Monthly',
+		developer_id: developer.id,
+		project_id: project.id,
+		contract_plan_id: 1,
+		price: 10,
+		period_seconds: 30 * 86400,
+		trial_period_seconds: 0,
+		token_address: token.token_address,
+		token_symbol: 'USDC',
+		is_active: true,
+	});
+	return { developer, token, project, plan };
+}
+
+export function seedSubscriber(xata, { email = 'alice@example.com', smartAccount = '0x00000000000000000000000000000000000000dd' } = {}) {
+	return xata.insert('users', {
+		email,
+		wallet_address: '0x00000000000000000000000000000000000000ee',
+		smart_account_address: smartAccount,
+	});
+}
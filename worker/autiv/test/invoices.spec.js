@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { seedProject, seedSubscriber, setupWorld } from './helpers';
+
+describe('invoices', () => {
+	let world;
+	let seeded;
+	let user;
+	let subscription;
+
+	beforeEach(() => {
+		world = setupWorld();
+		seeded = seedProject(world.xata);
+		user = seedSubscriber(world.xata);
+		subscription = world.xata.insert('user_subscriptions', {
+			user_id: user.id,
+			plan_id: seeded.plan.id,
+			developer_id: seeded.developer.id,
+			status: 'active',
+		});
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	function insertPayment(fields = {}) {
+		return world.xata.insert('payments', {
+			subscription_id: subscription.id,
+			user_id: user.id,
+			developer_id: seeded.developer.id,
+			amount: 10,
+			token_symbol: 'USDC',
+			token_address: seeded.token.token_address,
+			payment_date: 1_700_000_000,
+			tx_hash: '0xfeed',
+			invoice_number: 42,
+			...fields,
+		});
+	}
+
+	it('renders the subscriber a PDF with the numbered invoice and its refunds', async () => {
+		const payment = insertPayment();
+		world.xata.insert('refunds', { payment_id: payment.id, amount: 4, reason: 'Goodwill', refunded_at: 1_700_100_000, tx_hash: '0xback' });
+
+		const response = await world.asUser(user.email, '/api/get-invoice', { payment_id: payment.id });
+		const pdf = await response.text();
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Content-Type')).toBe('application/pdf');
+		expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="INV-000042.pdf"');
+		expect(pdf.startsWith('%PDF-')).toBe(true);
+		expect(pdf).toContain('(Invoice number: INV-000042)');
+		expect(pdf).toContain('(2023-11-14 - 2023-12-14)');
+		expect(pdf).toContain('(Refund on 2023-11-16: Goodwill)');
+		expect(pdf).toContain('(6 USDC)');
+	});
+
+	it('describes a plan change charge with its proration credit', async () => {
+		const annual = world.xata.insert('subscription_plans', { name: 'Annual', project_id: seeded.project.id, period_seconds: 365 * 86400 });
+		world.xata.get('user_subscriptions', subscription.id).plan_id = annual.id;
+		const payment = insertPayment({ amount: 93.4, payment_type: 'proration', previous_plan_id: seeded.plan.id, proration_credit: 6.6 });
+
+		const pdf = await (await world.asUser(user.email, '/api/get-invoice', { payment_id: payment.id })).text();
+
+		expect(pdf).toContain('(Annual \\(plan change from Monthly\\))');
+		expect(pdf).toContain('(From 2023-11-14)');
+		expect(pdf).toContain('(Includes a credit of 6.6 USDC for unused time)');
+	});
+
+	it('lets the merchant download invoices for their payments', async () => {
+		const payment = insertPayment();
+
+		const response = await world.asUser(seeded.developer.email, '/api/get-invoice', { payment_id: payment.id });
+
+		expect(response.status).toBe(200);
+	});
+
+	it('hides invoices from other subscribers', async () => {
+		const payment = insertPayment();
+		seedSubscriber(world.xata, { email: 'bob@example.com' });
+
+		const response = await world.asUser('bob@example.com', '/api/get-invoice', { payment_id: payment.id });
+
+		expect(response.status).toBe(404);
+		expect(await response.json()).toEqual({ success: false, error: 'Invoice not found' });
+	});
+
+	it('lists the invoices of a subscription newest first, for its subscriber only', async () => {
+		insertPayment({ payment_date: 1_700_000_000, invoice_number: 1 });
+		insertPayment({ payment_date: 1_702_592_000, invoice_number: 2, tx_hash: '0xfeed2' });
+
+		const own = await (await world.asUser(user.email, '/api/get-subscription-invoices', { subscription_id: subscription.id })).json();
+		const foreign = await world.asUser('bob@example.com', '/api/get-subscription-invoices', { subscription_id: subscription.id });
+
+		expect(own.data.invoices.map((invoice) => invoice.invoice_number)).toEqual(['INV-000002', 'INV-000001']);
+		expect(foreign.status).toBe(404);
+	});
+});
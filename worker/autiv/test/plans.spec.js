@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { hex32, insertApiKey, seedProject, setupWorld } from './helpers';
+
+const PLAN_ARCHIVED_TOPIC = '0xe82c0512fbfe61283c3bd9039fd0d77457e4b6630ae2b39dd23d29ef9df0d9a5';
+
+describe('plan archiving', () => {
+	let world;
+	let seeded;
+
+	beforeEach(() => {
+		world = setupWorld();
+		seeded = seedProject(world.xata);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	function archivedLog(planId = 1) {
+		return { address: seeded.project.subscription_manager_address, topics: [PLAN_ARCHIVED_TOPIC, hex32(planId)], data: '0x' };
+	}
+
+	const archiveBody = (txHash, body = {}) => ({ project_id: seeded.project.id, contract_plan_id: 1, archived: true, tx_hash: txHash, ...body });
+
+	it('archives the plan once PlanArchived is confirmed', async () => {
+		world.receipt('0xa1', [archivedLog()]);
+
+		const result = await (await world.asUser(seeded.developer.email, '/api/archive-subscription-plan', archiveBody('0xa1'))).json();
+
+		expect(result).toMatchObject({ success: true, is_active: false });
+		expect(world.xata.get('subscription_plans', seeded.plan.id).is_active).toBe(false);
+	});
+
+	it('accepts a project key with the manage_plans permission', async () => {
+		const key = await insertApiKey(world.xata, { developer_id: seeded.developer.id, project_id: seeded.project.id, permissions: ['manage_plans'] });
+		world.receipt('0xa2', [archivedLog()]);
+
+		const response = await world.withApiKey(key, '/api/archive-subscription-plan', archiveBody('0xa2'));
+
+		expect(response.status).toBe(200);
+		expect(world.xata.get('subscription_plans', seeded.plan.id).is_active).toBe(false);
+	});
+
+	it("refuses another developer's plan, whatever email the body names", async () => {
+		world.xata.insert('developers', { email: 'mallory@example.com' });
+		world.receipt('0xa3', [archivedLog()]);
+
+		const response = await world.asUser('mallory@example.com', '/api/archive-subscription-plan', archiveBody('0xa3', { developer_email: seeded.developer.email }));
+
+		expect(response.status).toBe(400);
+		expect((await response.json()).error).toBe('Project does not belong to developer');
+		expect(world.xata.get('subscription_plans', seeded.plan.id).is_active).toBe(true);
+	});
+
+	it('requires the archive event for this plan', async () => {
+		world.receipt('0xa4', [archivedLog(2)]);
+
+		const result = await (await world.asUser(seeded.developer.email, '/api/archive-subscription-plan', archiveBody('0xa4'))).json();
+
+		expect(result).toEqual({ success: false, error: 'PlanArchived event not found in transaction' });
+		expect(world.xata.get('subscription_plans', seeded.plan.id).is_active).toBe(true);
+	});
+});
@@ -0,0 +1,535 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addressTopic, hex32, now, seedProject, seedSubscriber, setupWorld, tokenUnits } from './helpers';
+
+const SUBSCRIPTION_CREATED_TOPIC = '0xeec977e786e7248a658b0474ccf8f57f37ead019014ec4d5ba1542ddabeff1b4';
+const PLAN_CHANGED_TOPIC = '0x9ea5f02508d0b28d1d3fe9b5251350d9879c571c781a45f5f0cb2d5dad29cf35';
+const SUBSCRIPTION_PAUSED_TOPIC = '0xc361d0d48ca57e17d867a3469aa685fbe40a6e5edfa6cfa8df763ca9d9897e8c';
+const SUBSCRIPTION_RESUMED_TOPIC = '0xf97442dcb6baf2c518e41e3720c7ef93f0e11215c32290207c79178f54db7459';
+const SUBSCRIPTION_CANCELLED_TOPIC = '0x06aa12c0ad65927b4a753d119c26e490d3c4a4e11cb631b43131a709dc1e5917';
+const DISABLED_DELEGATION_TOPIC = '0xea589ba9473ee1fe77d352c7ed919747715a5d22931b972de9b02a907c66d5dd';
+const DELEGATION_MANAGER = '0xdb9B1e94B5b69Df7e401DDbedE43491141047dB3';
+
+const SMART_ACCOUNT = '0x00000000000000000000000000000000000000dd';
+const DELEGATION_DATA = {
+	signedApproveDelegation: { delegate: '0x00000000000000000000000000000000000000cc', caveats: [] },
+	signedProcessPaymentDelegation: { delegate: '0x00000000000000000000000000000000000000cc', caveats: [] },
+	limits: { spender: '0x00000000000000000000000000000000000000bb', maxAmount: '10', periodSeconds: 2592000, expiresAt: 1893456000 },
+};
+
+describe('subscription lifecycle', () => {
+	let world;
+	let seeded;
+	let user;
+
+	beforeEach(() => {
+		world = setupWorld();
+		seeded = seedProject(world.xata);
+		user = seedSubscriber(world.xata, { smartAccount: SMART_ACCOUNT });
+		world.xata.insert('webhook_endpoints', {
+			project_id: seeded.project.id,
+			url: 'https://merchant.example.com/autiv',
+			secret: 'whsec_test',
+			is_active: true,
+		});
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	const managerAddress = () => seeded.project.subscription_manager_address;
+	const webhookEvents = () => world.webhookCalls.map((call) => JSON.parse(call.body));
+
+	function insertSubscription(fields = {}) {
+		return world.xata.insert('user_subscriptions', {
+			user_id: user.id,
+			plan_id: seeded.plan.id,
+			developer_id: seeded.developer.id,
+			status: 'active',
+			start_date: now() - 10 * 86400,
+			last_payment_date: now() - 10 * 86400,
+			next_payment_date: now() + 20 * 86400,
+			subscription_manager_address: managerAddress(),
+			contract_subscription_id: 7,
+			...fields,
+		});
+	}
+
+	describe('checkout', () => {
+		function subscribe(txHash, extra = {}) {
+			world.receipt(txHash, [
+				{
+					address: managerAddress(),
+					topics: [SUBSCRIPTION_CREATED_TOPIC, addressTopic(SMART_ACCOUNT), hex32(1), hex32(7)],
+					data: '0x',
+				},
+			]);
+			return world.asUser(user.email, '/api/create-subscription', {
+				user_email: user.email,
+				user_wallet_address: user.wallet_address,
+				user_smart_account_address: SMART_ACCOUNT,
+				plan_id: 1,
+				project_id: seeded.project.id,
+				tx_hash: txHash,
+				start_date: 1_700_000_000,
+				subscription_manager_address: managerAddress(),
+				amount: 10,
+				token_address: seeded.token.token_address,
+				delegation_data: DELEGATION_DATA,
+				...extra,
+			});
+		}
+
+		it('records the first payment and keeps the delegation with the new subscription', async () => {
+			const response = await subscribe('0xabc1');
+			const result = await response.json();
+
+			expect(response.status).toBe(201);
+			expect(result).toMatchObject({ success: true, contract_subscription_id: 7 });
+
+			const subscription = world.xata.get('user_subscriptions', result.subscription_id);
+			expect(subscription).toMatchObject({
+				status: 'active',
+				last_payment_date: 1_700_000_000,
+				next_payment_date: 1_700_000_000 + 30 * 86400,
+				trial_ends_at: null,
+			});
+			expect(world.xata.all('payments')).toEqual([expect.objectContaining({ subscription_id: subscription.id, amount: 10, tx_hash: '0xabc1' })]);
+
+			const [delegation] = world.xata.all('user_delegations');
+			expect(delegation).toMatchObject({ subscription_id: subscription.id, is_active: true });
+			expect(JSON.parse(delegation.delegation_data).limits).toEqual(DELEGATION_DATA.limits);
+
+			expect(webhookEvents()).toEqual([
+				expect.objectContaining({ type: 'subscription.created', data: expect.objectContaining({ subscription_id: subscription.id }) }),
+			]);
+		});
+
+		it('charges nothing until a free trial ends', async () => {
+			world.xata.get('subscription_plans', seeded.plan.id).trial_period_seconds = 14 * 86400;
+
+			const result = await (await subscribe('0xabc2')).json();
+
+			expect(world.xata.get('user_subscriptions', result.subscription_id)).toMatchObject({
+				last_payment_date: null,
+				trial_ends_at: 1_700_000_000 + 14 * 86400,
+				next_payment_date: 1_700_000_000 + 14 * 86400,
+			});
+			expect(world.xata.all('payments')).toHaveLength(0);
+			expect(webhookEvents()[0].data).toMatchObject({ trial_ends_at: 1_700_000_000 + 14 * 86400, payment_id: null });
+		});
+
+		it('stores separate delegations for two subscriptions on the same contract', async () => {
+			const first = await (await subscribe('0xabc3')).json();
+			world.receipt('0xabc4', [
+				{
+					address: managerAddress(),
+					topics: [SUBSCRIPTION_CREATED_TOPIC, addressTopic(SMART_ACCOUNT), hex32(1), hex32(8)],
+					data: '0x',
+				},
+			]);
+			const second = await (
+				await world.asUser(user.email, '/api/create-subscription', {
+					user_email: user.email,
+					user_smart_account_address: SMART_ACCOUNT,
+					plan_id: 1,
+					project_id: seeded.project.id,
+					tx_hash: '0xabc4',
+					start_date: 1_700_000_000,
+					subscription_manager_address: managerAddress(),
+					amount: 10,
+					token_address: seeded.token.token_address,
+					delegation_data: { ...DELEGATION_DATA, limits: { ...DELEGATION_DATA.limits, maxAmount: '20' } },
+				})
+			).json();
+
+			const bySubscription = Object.fromEntries(
+				world.xata.all('user_delegations').map((row) => [row.subscription_id, JSON.parse(row.delegation_data).limits.maxAmount]),
+			);
+			expect(bySubscription).toEqual({ [first.subscription_id]: '10', [second.subscription_id]: '20' });
+		});
+
+		it('rejects a transaction that did not come from the project contract', async () => {
+			world.receipt('0xabc5', [{ address: '0x00000000000000000000000000000000000000ff', topics: [SUBSCRIPTION_CREATED_TOPIC], data: '0x' }]);
+
+			const response = await world.asUser(user.email, '/api/create-subscription', {
+				user_email: user.email,
+				user_smart_account_address: SMART_ACCOUNT,
+				plan_id: 1,
+				project_id: seeded.project.id,
+				tx_hash: '0xabc5',
+				start_date: 1_700_000_000,
+				subscription_manager_address: managerAddress(),
+				token_address: seeded.token.token_address,
+			});
+
+			expect(response.status).toBe(400);
+			expect((await response.json()).error).toMatch(/No events from SubscriptionManager/);
+			expect(world.xata.all('user_subscriptions')).toHaveLength(0);
+		});
+	});
+
+	describe('pause and resume', () => {
+		function pauseRequest(email, path, txHash, body = {}) {
+			return world.asUser(email, path, {
+				user_smart_account_address: SMART_ACCOUNT,
+				contract_subscription_id: 7,
+				tx_hash: txHash,
+				subscription_manager_address: managerAddress(),
+				...body,
+			});
+		}
+
+		it('pauses with the time from SubscriptionPaused and resumes with the shifted payment date', async () => {
+			const subscription = insertSubscription();
+			world.receipt('0xp1', [
+				{
+					address: managerAddress(),
+					topics: [SUBSCRIPTION_PAUSED_TOPIC, addressTopic(SMART_ACCOUNT), hex32(7)],
+					data: hex32(1_750_000_000),
+				},
+			]);
+
+			const paused = await (await pauseRequest(user.email, '/api/pause-subscription', '0xp1')).json();
+
+			expect(paused).toMatchObject({ success: true, status: 'paused' });
+			expect(world.xata.get('user_subscriptions', subscription.id)).toMatchObject({ status: 'paused', paused_at: 1_750_000_000 });
+
+			world.receipt('0xp2', [
+				{
+					address: managerAddress(),
+					topics: [SUBSCRIPTION_RESUMED_TOPIC, addressTopic(SMART_ACCOUNT), hex32(7)],
+					data: hex32(1_760_000_000),
+				},
+			]);
+
+			const resumed = await (await pauseRequest(user.email, '/api/resume-subscription', '0xp2')).json();
+
+			expect(resumed).toMatchObject({ success: true, status: 'active', next_payment_date: 1_760_000_000 });
+			expect(world.xata.get('user_subscriptions', subscription.id)).toMatchObject({
+				status: 'active',
+				paused_at: null,
+				next_payment_date: 1_760_000_000,
+			});
+			expect(webhookEvents().map((event) => event.type)).toEqual(['subscription.paused', 'subscription.resumed']);
+		});
+
+		it('moves the trial end along with the first charge when resumed during a trial', async () => {
+			const subscription = insertSubscription({
+				status: 'paused',
+				paused_at: 1_750_000_000,
+				last_payment_date: null,
+				trial_ends_at: 1_750_086_400,
+				next_payment_date: 1_750_086_400,
+			});
+			world.receipt('0xp5', [
+				{
+					address: managerAddress(),
+					topics: [SUBSCRIPTION_RESUMED_TOPIC, addressTopic(SMART_ACCOUNT), hex32(7)],
+					data: hex32(1_750_518_400),
+				},
+			]);
+
+			await pauseRequest(user.email, '/api/resume-subscription', '0xp5');
+
+			expect(world.xata.get('user_subscriptions', subscription.id)).toMatchObject({
+				status: 'active',
+				trial_ends_at: 1_750_518_400,
+				next_payment_date: 1_750_518_400,
+			});
+		});
+
+		it('only acts on the signed-in user, whatever email the body names', async () => {
+			const subscription = insertSubscription();
+			const mallory = seedSubscriber(world.xata, { email: 'mallory@example.com', smartAccount: '0x0000000000000000000000000000000000000011' });
+			world.receipt('0xp3', [
+				{
+					address: managerAddress(),
+					topics: [SUBSCRIPTION_PAUSED_TOPIC, addressTopic(SMART_ACCOUNT), hex32(7)],
+					data: hex32(1_750_000_000),
+				},
+			]);
+
+			const response = await pauseRequest(mallory.email, '/api/pause-subscription', '0xp3', { user_email: user.email });
+
+			expect(response.status).toBe(400);
+			expect((await response.json()).error).toBe('Active subscription not found');
+			expect(world.xata.get('user_subscriptions', subscription.id).status).toBe('active');
+		});
+
+		it('requires the pause event for this subscription', async () => {
+			insertSubscription();
+			world.receipt('0xp4', [
+				{
+					address: managerAddress(),
+					topics: [SUBSCRIPTION_PAUSED_TOPIC, addressTopic(SMART_ACCOUNT), hex32(8)],
+					data: hex32(1_750_000_000),
+				},
+			]);
+
+			const result = await (await pauseRequest(user.email, '/api/pause-subscription', '0xp4')).json();
+
+			expect(result).toEqual({ success: false, error: 'SubscriptionPaused event not found in transaction' });
+		});
+	});
+
+	describe('cancellation', () => {
+		function cancelledLog(subscriptionId = 7) {
+			return { address: managerAddress(), topics: [SUBSCRIPTION_CANCELLED_TOPIC, addressTopic(SMART_ACCOUNT), hex32(subscriptionId)], data: '0x' };
+		}
+
+		function cancel(email, txHash, body = {}) {
+			return world.asUser(email, '/api/cancel-subscription', {
+				user_smart_account_address: SMART_ACCOUNT,
+				contract_subscription_id: 7,
+				tx_hash: txHash,
+				subscription_manager_address: managerAddress(),
+				...body,
+			});
+		}
+
+		it('ends the subscription and switches off its delegation once SubscriptionCancelled is confirmed', async () => {
+			const subscription = insertSubscription();
+			const delegation = world.xata.insert('user_delegations', {
+				subscription_id: subscription.id,
+				user_smart_account: SMART_ACCOUNT,
+				delegation_data: JSON.stringify(DELEGATION_DATA),
+				is_active: true,
+			});
+			world.receipt('0xd1', [cancelledLog()]);
+
+			const result = await (await cancel(user.email, '0xd1')).json();
+
+			expect(result).toMatchObject({ success: true, status: 'cancelled' });
+			expect(world.xata.get('user_subscriptions', subscription.id).status).toBe('cancelled');
+			expect(world.xata.get('user_delegations', delegation.id).is_active).toBe(false);
+			expect(webhookEvents().map((event) => event.type)).toEqual(['subscription.cancelled']);
+		});
+
+		it('only acts on the signed-in user, whatever email the body names', async () => {
+			const subscription = insertSubscription();
+			const mallory = seedSubscriber(world.xata, { email: 'mallory@example.com', smartAccount: '0x0000000000000000000000000000000000000011' });
+			world.receipt('0xd2', [cancelledLog()]);
+
+			const response = await cancel(mallory.email, '0xd2', { user_email: user.email });
+
+			expect(response.status).toBe(400);
+			expect((await response.json()).error).toBe('Subscription not found');
+			expect(world.xata.get('user_subscriptions', subscription.id).status).toBe('active');
+		});
+
+		it('leaves the delegations alone without a cancel event for this subscription', async () => {
+			const subscription = insertSubscription();
+			const delegation = world.xata.insert('user_delegations', {
+				subscription_id: subscription.id,
+				user_smart_account: SMART_ACCOUNT,
+				delegation_data: JSON.stringify(DELEGATION_DATA),
+				is_active: true,
+			});
+			world.receipt('0xd3', [cancelledLog(8)]);
+
+			const result = await (await cancel(user.email, '0xd3')).json();
+
+			expect(result).toEqual({ success: false, error: 'SubscriptionCancelled event not found in transaction' });
+			expect(world.xata.get('user_subscriptions', subscription.id).status).toBe('active');
+			expect(world.xata.get('user_delegations', delegation.id).is_active).toBe(true);
+		});
+	});
+
+	describe('revoking delegations', () => {
+		const SIGNED_DATA = JSON.stringify({
+			signedApproveDelegation: { ...DELEGATION_DATA.signedApproveDelegation, signature: `0x${'a1'.repeat(65)}` },
+			signedProcessPaymentDelegation: { ...DELEGATION_DATA.signedProcessPaymentDelegation, signature: `0x${'b2'.repeat(65)}` },
+			limits: DELEGATION_DATA.limits,
+		});
+
+		function disabledLog(signature) {
+			return {
+				address: DELEGATION_MANAGER,
+				topics: [DISABLED_DELEGATION_TOPIC, hex32(1), addressTopic(SMART_ACCOUNT), addressTopic('0x00000000000000000000000000000000000000cc')],
+				data: `0x${'00'.repeat(64)}${signature}${'00'.repeat(31)}`,
+			};
+		}
+
+		function insertDelegation(subscription, delegationData = SIGNED_DATA) {
+			return world.xata.insert('user_delegations', {
+				subscription_id: subscription.id,
+				user_smart_account: SMART_ACCOUNT,
+				delegation_data: delegationData,
+				is_active: true,
+			});
+		}
+
+		it('switches off the record and its shared copies once DisabledDelegation is confirmed', async () => {
+			const own = insertDelegation(insertSubscription());
+			const sharedCopy = insertDelegation(insertSubscription({ contract_subscription_id: 8 }));
+			const other = insertDelegation(insertSubscription({ contract_subscription_id: 9 }), JSON.stringify(DELEGATION_DATA));
+			world.receipt('0xe1', [disabledLog('b2'.repeat(65))]);
+
+			const result = await (await world.asUser(user.email, '/api/revoke-user-delegation', { delegation_id: own.id, tx_hash: '0xe1' })).json();
+
+			expect(result.success).toBe(true);
+			for (const row of [own, sharedCopy]) {
+				expect(world.xata.get('user_delegations', row.id)).toMatchObject({ is_active: false, cancelled_at: expect.any(Number) });
+			}
+			expect(world.xata.get('user_delegations', other.id).is_active).toBe(true);
+		});
+
+		it("refuses another user's delegation", async () => {
+			const own = insertDelegation(insertSubscription());
+			const mallory = seedSubscriber(world.xata, { email: 'mallory@example.com', smartAccount: '0x0000000000000000000000000000000000000011' });
+			world.receipt('0xe2', [disabledLog('a1'.repeat(65))]);
+
+			const response = await world.asUser(mallory.email, '/api/revoke-user-delegation', { delegation_id: own.id, tx_hash: '0xe2' });
+
+			expect(response.status).toBe(400);
+			expect((await response.json()).error).toBe('Delegation not found');
+			expect(world.xata.get('user_delegations', own.id).is_active).toBe(true);
+		});
+
+		it('requires the DisabledDelegation event for one of its delegations', async () => {
+			const own = insertDelegation(insertSubscription());
+			world.receipt('0xe3', [disabledLog('c3'.repeat(65))]);
+
+			const result = await (await world.asUser(user.email, '/api/revoke-user-delegation', { delegation_id: own.id, tx_hash: '0xe3' })).json();
+
+			expect(result).toEqual({ success: false, error: 'DisabledDelegation event not found in transaction' });
+			expect(world.xata.get('user_delegations', own.id).is_active).toBe(true);
+		});
+	});
+
+	describe('plan changes', () => {
+		let annual;
+
+		beforeEach(() => {
+			annual = world.xata.insert('subscription_plans', {
+				name: 'Annual',
+				developer_id: seeded.developer.id,
+				project_id: seeded.project.id,
+				contract_plan_id: 2,
+				price: 100,
+				period_seconds: 365 * 86400,
+				is_active: true,
+			});
+		});
+
+		function planChangedLog({ subscriptionId = 7, newPlanId = 2, charged = 93.4, credit = 6.6, nextPaymentDue = 1_800_000_000 } = {}) {
+			return {
+				address: managerAddress(),
+				topics: [PLAN_CHANGED_TOPIC, addressTopic(SMART_ACCOUNT), hex32(1), hex32(newPlanId)],
+				data: `0x${[subscriptionId, tokenUnits(charged), tokenUnits(credit), nextPaymentDue].map((value) => hex32(value).slice(2)).join('')}`,
+			};
+		}
+
+		function changePlan(txHash, body = {}) {
+			return world.asUser(user.email, '/api/change-subscription-plan', {
+				user_smart_account_address: SMART_ACCOUNT,
+				project_id: seeded.project.id,
+				contract_subscription_id: 7,
+				new_plan_id: 2,
+				tx_hash: txHash,
+				subscription_manager_address: managerAddress(),
+				...body,
+			});
+		}
+
+		it('records the prorated charge and credit from PlanChanged', async () => {
+			const subscription = insertSubscription();
+			world.receipt('0xc1', [planChangedLog()]);
+
+			const result = await (await changePlan('0xc1')).json();
+
+			expect(result).toMatchObject({ success: true, amount_charged: 93.4, proration_credit: 6.6, next_payment_date: 1_800_000_000 });
+			expect(world.xata.get('user_subscriptions', subscription.id)).toMatchObject({ plan_id: annual.id, next_payment_date: 1_800_000_000 });
+			expect(world.xata.all('payments')).toEqual([
+				expect.objectContaining({
+					subscription_id: subscription.id,
+					amount: 93.4,
+					proration_credit: 6.6,
+					payment_type: 'proration',
+					previous_plan_id: seeded.plan.id,
+					tx_hash: '0xc1',
+				}),
+			]);
+			expect(webhookEvents()).toEqual([
+				expect.objectContaining({ type: 'subscription.plan_changed', data: expect.objectContaining({ previous_plan_id: 1, plan_id: 2 }) }),
+			]);
+		});
+
+		it('replaces the delegation of the changed subscription only', async () => {
+			const subscription = insertSubscription();
+			const other = insertSubscription({ contract_subscription_id: 9 });
+			const ownRow = world.xata.insert('user_delegations', {
+				subscription_id: subscription.id,
+				delegation_data: JSON.stringify(DELEGATION_DATA),
+				is_active: true,
+			});
+			const otherRow = world.xata.insert('user_delegations', {
+				subscription_id: other.id,
+				delegation_data: JSON.stringify(DELEGATION_DATA),
+				is_active: true,
+			});
+			const annualDelegation = { ...DELEGATION_DATA, limits: { ...DELEGATION_DATA.limits, maxAmount: '100', periodSeconds: 365 * 86400 } };
+			world.receipt('0xc2', [planChangedLog()]);
+
+			await changePlan('0xc2', { delegation_data: annualDelegation });
+
+			expect(JSON.parse(world.xata.get('user_delegations', ownRow.id).delegation_data)).toEqual(annualDelegation);
+			expect(JSON.parse(world.xata.get('user_delegations', otherRow.id).delegation_data)).toEqual(DELEGATION_DATA);
+		});
+
+		it('keeps a trial going when the plan changes during it', async () => {
+			const subscription = insertSubscription({ last_payment_date: null, trial_ends_at: now() + 86400 });
+			world.receipt('0xc3', [planChangedLog({ charged: 0, credit: 0, nextPaymentDue: now() + 86400 })]);
+
+			const result = await (await changePlan('0xc3')).json();
+
+			expect(result).toMatchObject({ success: true, payment_id: null });
+			expect(world.xata.get('user_subscriptions', subscription.id).last_payment_date).toBeNull();
+			expect(world.xata.all('payments')).toHaveLength(0);
+		});
+
+		it('lets a past due subscriber change plan and settles the overdue renewal', async () => {
+			const subscription = insertSubscription({
+				status: 'past_due',
+				next_payment_date: now() - 86400,
+				past_due_since: now() - 86400,
+				next_retry_at: now() + 3600,
+				retry_count: 1,
+			});
+			world.receipt('0xc6', [planChangedLog({ charged: 100, credit: 0 })]);
+
+			const result = await (await changePlan('0xc6')).json();
+
+			expect(result).toMatchObject({ success: true, amount_charged: 100 });
+			expect(world.xata.get('user_subscriptions', subscription.id)).toMatchObject({
+				status: 'active',
+				plan_id: annual.id,
+				past_due_since: null,
+				next_retry_at: null,
+				retry_count: 0,
+			});
+		});
+
+		it('rejects a PlanChanged event for another subscription', async () => {
+			insertSubscription();
+			world.receipt('0xc4', [planChangedLog({ subscriptionId: 8 })]);
+
+			const result = await (await changePlan('0xc4')).json();
+
+			expect(result).toEqual({ success: false, error: 'PlanChanged event does not match this request' });
+			expect(world.xata.all('payments')).toHaveLength(0);
+		});
+
+		it('records each transaction once', async () => {
+			insertSubscription();
+			world.receipt('0xc5', [planChangedLog()]);
+
+			await changePlan('0xc5');
+			const repeated = await (await changePlan('0xc5')).json();
+
+			expect(repeated).toMatchObject({ success: true, message: 'Transaction already processed' });
+			expect(world.xata.all('payments')).toHaveLength(1);
+		});
+	});
+});
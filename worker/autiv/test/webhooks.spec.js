@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { now, seedProject, setupWorld } from './helpers';
+
+const ENDPOINT_URL = 'https://merchant.example.com/autiv';
+
+describe('webhook deliveries', () => {
+	let world;
+	let project;
+	let endpoint;
+
+	beforeEach(() => {
+		world = setupWorld();
+		({ project } = seedProject(world.xata));
+		endpoint = world.xata.insert('webhook_endpoints', {
+			project_id: project.id,
+			developer_id: project.developer_id,
+			url: ENDPOINT_URL,
+			secret: 'whsec_test',
+			is_active: true,
+		});
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	function insertDelivery(fields = {}) {
+		return world.xata.insert('webhook_deliveries', {
+			endpoint_id: endpoint.id,
+			project_id: project.id,
+			event_id: 'evt_1',
+			event_type: 'subscription.renewed',
+			payload: JSON.stringify({ id: 'evt_1', type: 'subscription.renewed', data: {} }),
+			status: 'pending',
+			attempt_count: 0,
+			next_attempt_at: now() - 5,
+			...fields,
+		});
+	}
+
+	it('signs the payload with the endpoint secret', async () => {
+		const delivery = insertDelivery();
+
+		await world.runCron();
+
+		expect(world.webhookCalls).toHaveLength(1);
+		const [call] = world.webhookCalls;
+		expect(call.headers['x-autiv-event']).toBe('subscription.renewed');
+		expect(call.headers['x-autiv-delivery']).toBe(delivery.id);
+
+		const [, timestamp, signature] = call.headers['x-autiv-signature'].match(/^t=(\d+),v1=([0-9a-f]+)$/);
+		const key = await crypto.subtle.importKey('raw', new TextEncoder().encode('whsec_test'), { name: 'HMAC', hash: 'SHA-256' }, false, [
+			'verify',
+		]);
+		const signatureBytes = new Uint8Array(signature.match(/../g).map((byte) => parseInt(byte, 16)));
+		expect(await crypto.subtle.verify('HMAC', key, signatureBytes, new TextEncoder().encode(`${timestamp}.${call.body}`))).toBe(true);
+
+		expect(world.xata.get('webhook_deliveries', delivery.id)).toMatchObject({
+			status: 'succeeded',
+			attempt_count: 1,
+			response_status: 200,
+			next_attempt_at: null,
+			locked_until: null,
+		});
+	});
+
+	it('sends a delivery once when two cron runs pick it up together', async () => {
+		insertDelivery();
+
+		await Promise.all([world.runCron(), world.runCron()]);
+
+		expect(world.webhookCalls).toHaveLength(1);
+	});
+
+	it('skips deliveries another sender holds and retries abandoned ones', async () => {
+		const held = insertDelivery({ status: 'sending', locked_until: now() + 30 });
+		const abandoned = insertDelivery({ status: 'sending', locked_until: now() - 1 });
+
+		await world.runCron();
+
+		expect(world.webhookCalls.map((call) => call.headers['x-autiv-delivery'])).toEqual([abandoned.id]);
+		expect(world.xata.get('webhook_deliveries', held.id).status).toBe('sending');
+		expect(world.xata.get('webhook_deliveries', abandoned.id).status).toBe('succeeded');
+	});
+
+	it('backs off exponentially after a failed attempt', async () => {
+		world.respondWith(ENDPOINT_URL, 500);
+		const delivery = insertDelivery({ attempt_count: 2 });
+		const before = now();
+
+		await world.runCron();
+
+		const updated = world.xata.get('webhook_deliveries', delivery.id);
+		expect(updated).toMatchObject({ status: 'pending', attempt_count: 3, response_status: 500, last_error: 'HTTP 500', locked_until: null });
+		// Third attempt waits 4 minutes
+		expect(updated.next_attempt_at - updated.last_attempt_at).toBe(240);
+		expect(updated.last_attempt_at).toBeGreaterThanOrEqual(before);
+	});
+
+	it('gives up after the last attempt', async () => {
+		world.respondWith(ENDPOINT_URL, 503);
+		const delivery = insertDelivery({ attempt_count: 5 });
+
+		await world.runCron();
+
+		expect(world.xata.get('webhook_deliveries', delivery.id)).toMatchObject({ status: 'failed', attempt_count: 6, next_attempt_at: null });
+	});
+
+	it('fails deliveries for a disabled endpoint without calling it', async () => {
+		world.xata.get('webhook_endpoints', endpoint.id).is_active = false;
+		const delivery = insertDelivery();
+
+		await world.runCron();
+
+		expect(world.webhookCalls).toHaveLength(0);
+		expect(world.xata.get('webhook_deliveries', delivery.id)).toMatchObject({ status: 'failed', last_error: 'Endpoint disabled' });
+	});
+
+	it('leaves deliveries alone until their backoff has elapsed', async () => {
+		insertDelivery({ next_attempt_at: now() + 60 });
+
+		await world.runCron();
+
+		expect(world.webhookCalls).toHaveLength(0);
+	});
+});